@@ -0,0 +1,3 @@
+// Test keys for EncryptionUtil, which reads them once at module load
+process.env.ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'test-encryption-key';
+process.env.BLIND_INDEX_KEY = process.env.BLIND_INDEX_KEY || 'test-blind-index-key';
@@ -0,0 +1,425 @@
+// backend/src/controllers/allocation.controller.ts
+
+import { Request, Response } from 'express';
+import { AllocationService } from '../services/allocation.service';
+import {
+  AssignAllocationModelRequest,
+  SaveAllocationModelRequest
+} from '../types/allocation.types';
+import { ALLOCATION_CLASSES } from '../utils/rebalance.util';
+
+interface AuthRequest extends Request {
+  user?: {
+    user_id: number;
+    username: string;
+    email: string;
+    tenant_id: number;
+  };
+}
+
+export class AllocationController {
+  private allocationService: AllocationService;
+
+  constructor() {
+    this.allocationService = new AllocationService();
+  }
+
+  /**
+   * GET /api/portfolio/allocation-models
+   * List tenant model portfolios
+   */
+  getModels = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const isLive = req.headers['x-environment'] === 'live';
+      const models = await this.allocationService.getModels(user.tenant_id, isLive);
+
+      res.json({
+        success: true,
+        data: models
+      });
+    } catch (error: any) {
+      console.error('Error getting allocation models:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get allocation models'
+      });
+    }
+  };
+
+  /**
+   * POST /api/portfolio/allocation-models
+   * Create a tenant model portfolio
+   */
+  createModel = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const isLive = req.headers['x-environment'] === 'live';
+      const data = req.body as SaveAllocationModelRequest;
+
+      const validationError = this.validateModel(data);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const model = await this.allocationService.createModel(user.tenant_id, isLive, data, user.user_id);
+
+      res.status(201).json({
+        success: true,
+        data: model,
+        message: 'Allocation model created successfully'
+      });
+    } catch (error: any) {
+      console.error('Error creating allocation model:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create allocation model'
+      });
+    }
+  };
+
+  /**
+   * PUT /api/portfolio/allocation-models/:modelId
+   * Update a tenant model portfolio
+   */
+  updateModel = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const isLive = req.headers['x-environment'] === 'live';
+      const modelId = parseInt(req.params.modelId);
+      const data = req.body as SaveAllocationModelRequest;
+
+      if (isNaN(modelId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid model ID'
+        });
+        return;
+      }
+
+      const validationError = this.validateModel(data);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const model = await this.allocationService.updateModel(user.tenant_id, isLive, modelId, data);
+
+      if (!model) {
+        res.status(404).json({
+          success: false,
+          error: 'Allocation model not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: model,
+        message: 'Allocation model updated successfully'
+      });
+    } catch (error: any) {
+      console.error('Error updating allocation model:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update allocation model'
+      });
+    }
+  };
+
+  /**
+   * DELETE /api/portfolio/allocation-models/:modelId
+   * Delete a tenant model portfolio
+   */
+  deleteModel = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const isLive = req.headers['x-environment'] === 'live';
+      const modelId = parseInt(req.params.modelId);
+
+      if (isNaN(modelId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid model ID'
+        });
+        return;
+      }
+
+      const deleted = await this.allocationService.deleteModel(user.tenant_id, isLive, modelId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Allocation model not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Allocation model deleted successfully'
+      });
+    } catch (error: any) {
+      console.error('Error deleting allocation model:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to delete allocation model'
+      });
+    }
+  };
+
+  /**
+   * GET /api/portfolio/:customerId/allocation-model
+   * Get the allocation model that applies to a customer
+   */
+  getCustomerModel = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const model = await this.allocationService.getCustomerModel(user.tenant_id, isLive, parseInt(customerId));
+
+      res.json({
+        success: true,
+        data: model
+      });
+    } catch (error: any) {
+      console.error('Error getting customer allocation model:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get customer allocation model'
+      });
+    }
+  };
+
+  /**
+   * PUT /api/portfolio/:customerId/allocation-model
+   * Assign a tenant model or save a customer-specific model
+   */
+  assignCustomerModel = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+      const data = req.body as AssignAllocationModelRequest;
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      if (!data.model_id && !data.model) {
+        res.status(400).json({
+          success: false,
+          error: 'Either model_id or model is required'
+        });
+        return;
+      }
+
+      if (data.model) {
+        const validationError = this.validateModel(data.model);
+        if (validationError) {
+          res.status(400).json({
+            success: false,
+            error: validationError
+          });
+          return;
+        }
+      }
+
+      const model = await this.allocationService.assignCustomerModel(
+        user.tenant_id,
+        isLive,
+        parseInt(customerId),
+        data,
+        user.user_id
+      );
+
+      if (!model) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: model,
+        message: 'Allocation model assigned successfully'
+      });
+    } catch (error: any) {
+      console.error('Error assigning allocation model:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to assign allocation model'
+      });
+    }
+  };
+
+  /**
+   * GET /api/portfolio/:customerId/rebalance
+   * Get a rebalancing proposal (JSON, CSV or Excel)
+   */
+  getRebalanceProposal = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+      const modelId = req.query.model_id ? parseInt(req.query.model_id as string) : undefined;
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      if (modelId !== undefined && isNaN(modelId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid model ID'
+        });
+        return;
+      }
+
+      if (!['json', 'csv', 'xlsx'].includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid format. Must be json, csv or xlsx'
+        });
+        return;
+      }
+
+      const proposal = await this.allocationService.getRebalanceProposal(
+        user.tenant_id,
+        isLive,
+        parseInt(customerId),
+        modelId
+      );
+
+      if (!proposal) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      if (format === 'json') {
+        res.json({
+          success: true,
+          data: proposal
+        });
+        return;
+      }
+
+      const file = this.allocationService.exportRebalanceProposal(proposal, format as 'csv' | 'xlsx');
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=${file.filename}`);
+      res.send(file.body);
+    } catch (error: any) {
+      console.error('Error getting rebalance proposal:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get rebalance proposal'
+      });
+    }
+  };
+
+  /**
+   * Validate a model: name required, targets sum to 100, bands non-negative
+   */
+  private validateModel(data: SaveAllocationModelRequest): string | null {
+    if (!data || !data.name) {
+      return 'Model name is required';
+    }
+
+    if (!data.targets || typeof data.targets !== 'object') {
+      return 'targets are required';
+    }
+
+    const unknown = Object.keys(data.targets).filter(key => !ALLOCATION_CLASSES.includes(key as any));
+    if (unknown.length > 0) {
+      return `Unknown asset class: ${unknown.join(', ')}. Must be one of: ${ALLOCATION_CLASSES.join(', ')}`;
+    }
+
+    let total = 0;
+    for (const assetClass of ALLOCATION_CLASSES) {
+      const value = data.targets[assetClass];
+      if (!value) continue;
+
+      const target = Number(value.target ?? 0);
+      const band = Number(value.band ?? 5);
+      if (isNaN(target) || target < 0 || target > 100) {
+        return `${assetClass} target must be between 0 and 100`;
+      }
+      if (isNaN(band) || band < 0 || band > 100) {
+        return `${assetClass} band must be between 0 and 100`;
+      }
+      total += target;
+    }
+
+    if (Math.abs(total - 100) > 0.01) {
+      return `Targets must add up to 100 (currently ${total})`;
+    }
+
+    return null;
+  }
+}
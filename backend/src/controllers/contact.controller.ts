@@ -1,8 +1,17 @@
 // backend/src/controllers/contact.controller.ts
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
-import { ContactService } from '../services/contact.service';
+import { once } from 'events';
+import {
+  ContactService,
+  BulkContactActionRequest,
+  BULK_CONTACT_ACTIONS,
+  CONTACT_EXPORT_COLUMNS,
+  MAX_BULK_CONTACTS
+} from '../services/contact.service';
 import { SimpleLogger } from '../services/simpleLogger.service';
+import { ExportUtil } from '../utils/export.util';
+import { XlsxStreamWriter } from '../utils/xlsxStream.util';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -757,12 +766,184 @@ export class ContactController {
     res.json({ success: true, data: { exists: false }, message: 'Check not implemented yet' });
   };
 
-  exportContacts = async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
-    res.json({ success: true, data: { export_url: '/exports/contacts.csv' }, message: 'Export not implemented yet' });
+  /**
+   * Export contacts as CSV or Excel
+   * Accepts the same filters as the contact list plus `format` (csv|xlsx)
+   * and `columns` (comma-separated column keys). Rows are streamed in batches.
+   */
+  exportContacts = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { search, prefix, channel_type, has_customer, is_active, tag, columns } = req.query;
+      const format = ((req.query.format as string) || 'csv').toLowerCase();
+
+      if (!['csv', 'xlsx'].includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid format. Must be csv or xlsx'
+        });
+        return;
+      }
+
+      let selectedColumns = CONTACT_EXPORT_COLUMNS;
+      if (columns && typeof columns === 'string' && columns.trim()) {
+        const keys = columns.split(',').map(key => key.trim()).filter(Boolean);
+        const unknown = keys.filter(key => !CONTACT_EXPORT_COLUMNS.some(column => column.key === key));
+        if (unknown.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Unknown column: ${unknown.join(', ')}. Must be one of: ${CONTACT_EXPORT_COLUMNS.map(column => column.key).join(', ')}`
+          });
+          return;
+        }
+        selectedColumns = keys.map(key => CONTACT_EXPORT_COLUMNS.find(column => column.key === key)!);
+      }
+
+      const filters = {
+        search: typeof search === 'string' ? search : undefined,
+        prefix: typeof prefix === 'string' ? prefix : undefined,
+        channel_type: typeof channel_type === 'string' ? channel_type : undefined,
+        has_customer: has_customer === 'true' ? true : has_customer === 'false' ? false : undefined,
+        is_active: is_active === 'true' ? true : is_active === 'false' ? false : undefined,
+        tag: typeof tag === 'string' ? tag : undefined
+      };
+
+      const filename = `contacts_${new Date().toISOString().substring(0, 10)}.${format}`;
+      res.setHeader(
+        'Content-Type',
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+
+      const contactService = new ContactService();
+      let exported = 0;
+
+      if (format === 'csv') {
+        // BOM so Excel opens UTF-8 names correctly
+        res.write('\uFEFF' + ExportUtil.toCsvHeader(selectedColumns) + '\n');
+        exported = await contactService.streamContacts(user!.tenant_id, isLive, filters, async contacts => {
+          const chunk = contacts.map(contact => ExportUtil.toCsvLine(selectedColumns, contact)).join('\n') + '\n';
+          if (!res.write(chunk)) {
+            await once(res, 'drain');
+          }
+        });
+      } else {
+        const writer = new XlsxStreamWriter(res, 'Contacts');
+        await writer.start(selectedColumns.map(column => column.header));
+        exported = await contactService.streamContacts(user!.tenant_id, isLive, filters, async contacts => {
+          for (const contact of contacts) {
+            await writer.addRow(selectedColumns.map(column => ExportUtil.getColumnValue(column, contact)));
+          }
+        });
+        await writer.finish();
+      }
+
+      res.end();
+
+      SimpleLogger.info('ContactController', 'Contacts exported', 'exportContacts', {
+        tenantId: user!.tenant_id,
+        format,
+        columns: selectedColumns.map(column => column.key),
+        filters,
+        exported
+      }, user!.user_id, user!.tenant_id);
+    } catch (error: any) {
+      console.error('Error exporting contacts:', error);
+      SimpleLogger.error('ContactController', 'Failed to export contacts', 'exportContacts', {
+        tenantId: req.user?.tenant_id,
+        searchParams: req.query,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      // Once streaming has started the only option is to abort the download
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export contacts'
+      });
+    }
   };
 
-  bulkAction = async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
-    res.json({ success: true, data: { affected_count: 0 }, message: 'Bulk actions not implemented yet' });
+  /**
+   * Apply an action to many contacts
+   * Body: { action, contact_ids } or { action, select_all: true, filters }
+   * plus `tag` for add_tag/remove_tag and optional `customer_data` for convert_to_customer
+   */
+  bulkAction = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const request = req.body as BulkContactActionRequest;
+
+      if (!request || !BULK_CONTACT_ACTIONS.includes(request.action)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid action. Must be one of: ${BULK_CONTACT_ACTIONS.join(', ')}`
+        });
+        return;
+      }
+
+      if (!request.select_all) {
+        const ids = request.contact_ids;
+        if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => !Number.isInteger(id) || id <= 0)) {
+          res.status(400).json({
+            success: false,
+            error: 'contact_ids must be a non-empty array of contact IDs, or set select_all with filters'
+          });
+          return;
+        }
+        if (ids.length > MAX_BULK_CONTACTS) {
+          res.status(400).json({
+            success: false,
+            error: `Bulk actions are limited to ${MAX_BULK_CONTACTS} contacts`
+          });
+          return;
+        }
+      }
+
+      if ((request.action === 'add_tag' || request.action === 'remove_tag') &&
+          (typeof request.tag !== 'string' || !request.tag.trim() || request.tag.trim().length > 50)) {
+        res.status(400).json({
+          success: false,
+          error: 'tag is required (max 50 characters)'
+        });
+        return;
+      }
+
+      const contactService = new ContactService();
+      const result = await contactService.bulkAction(user!.tenant_id, isLive, request, user!.user_id);
+
+      SimpleLogger.info('ContactController', 'Bulk contact action completed', 'bulkAction', {
+        tenantId: user!.tenant_id,
+        action: request.action,
+        total: result.total,
+        affected: result.affected_count,
+        failed: result.failed_count
+      }, user!.user_id, user!.tenant_id);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.affected_count} of ${result.total} contacts processed`
+      });
+    } catch (error: any) {
+      console.error('Error running bulk contact action:', error);
+      SimpleLogger.error('ContactController', 'Bulk contact action failed', 'bulkAction', {
+        tenantId: req.user?.tenant_id,
+        action: req.body?.action,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to run bulk action'
+      });
+    }
   };
 
   /**
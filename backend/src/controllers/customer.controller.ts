@@ -160,7 +160,8 @@ export class CustomerController {
       });
     } catch (error: any) {
       console.error('Error creating customer:', error);
-      res.status(500).json({
+      const status = error.message?.includes('PAN already exists') ? 409 : 500;
+      res.status(status).json({
         success: false,
         error: error.message || 'Failed to create customer'
       });
@@ -248,7 +249,8 @@ updateCustomer = async (req: AuthenticatedRequest, res: Response): Promise<void>
     });
   } catch (error: any) {
     console.error('Error updating customer:', error);
-    res.status(500).json({
+    const status = error.message?.includes('PAN already exists') ? 409 : 500;
+    res.status(status).json({
       success: false,
       error: error.message || 'Failed to update customer'
     });
@@ -0,0 +1,102 @@
+// backend/src/controllers/encryption.controller.ts
+
+import { Request, Response } from 'express';
+import { ReEncryptionService } from '../services/reEncryption.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: number;
+    tenant_id: number;
+  };
+  environment?: 'live' | 'test';
+}
+
+export class EncryptionController {
+  private reEncryptionService: ReEncryptionService;
+
+  constructor() {
+    this.reEncryptionService = new ReEncryptionService();
+  }
+
+  /**
+   * Get keyring summary, values per key and re-encryption progress
+   */
+  getStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const status = await this.reEncryptionService.getStatus(user!.tenant_id, isLive);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error: any) {
+      console.error('Error getting encryption status:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get encryption status'
+      });
+    }
+  };
+
+  /**
+   * Start (or resume) re-encrypting customer data with the active key
+   */
+  startReEncryption = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const job = await this.reEncryptionService.startJob(user!.tenant_id, isLive, user!.user_id);
+
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: job.processed_records > 0
+          ? `Re-encryption resumed after ${job.processed_records} customers`
+          : 'Re-encryption started'
+      });
+    } catch (error: any) {
+      console.error('Error starting re-encryption:', error);
+      const status = error.message?.includes('already in progress') ? 409 : 500;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to start re-encryption'
+      });
+    }
+  };
+
+  /**
+   * Cancel the running re-encryption job (progress so far is kept)
+   */
+  cancelReEncryption = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const job = await this.reEncryptionService.cancelJob(user!.tenant_id, isLive);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'No re-encryption job is running'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Re-encryption cancelled; start it again to resume'
+      });
+    } catch (error: any) {
+      console.error('Error cancelling re-encryption:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to cancel re-encryption'
+      });
+    }
+  };
+}
@@ -0,0 +1,352 @@
+// backend/src/controllers/goal.controller.ts
+
+import { Request, Response } from 'express';
+import { GoalService } from '../services/goal.service';
+import { CreateGoalRequest, UpdateGoalRequest, GoalType } from '../types/goal.types';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: number;
+    tenant_id: number;
+  };
+  environment?: 'live' | 'test';
+}
+
+const GOAL_TYPES: GoalType[] = [
+  'retirement', 'education', 'wealth-creation', 'tax-planning', 'emergency-fund',
+  'property', 'marriage', 'travel', 'healthcare'
+];
+
+export class GoalController {
+  private goalService: GoalService;
+
+  constructor() {
+    this.goalService = new GoalService();
+  }
+
+  /**
+   * Get all goals for a customer
+   */
+  getGoals = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+
+      if (isNaN(customerId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const goals = await this.goalService.getGoals(user!.tenant_id, isLive, customerId);
+
+      if (!goals) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: goals
+      });
+    } catch (error: any) {
+      console.error('Error getting goals:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get goals'
+      });
+    }
+  };
+
+  /**
+   * Get a single goal
+   */
+  getGoal = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const goalId = parseInt(req.params.goalId);
+
+      if (isNaN(customerId) || isNaN(goalId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer or goal ID'
+        });
+        return;
+      }
+
+      const goal = await this.goalService.getGoal(user!.tenant_id, isLive, customerId, goalId);
+
+      if (!goal) {
+        res.status(404).json({
+          success: false,
+          error: 'Goal not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: goal
+      });
+    } catch (error: any) {
+      console.error('Error getting goal:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get goal'
+      });
+    }
+  };
+
+  /**
+   * Create a goal
+   */
+  createGoal = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const data = req.body as CreateGoalRequest;
+
+      if (isNaN(customerId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      if (!data.goal_type || !data.name || data.target_amount === undefined || !data.target_date) {
+        res.status(400).json({
+          success: false,
+          error: 'goal_type, name, target_amount and target_date are required'
+        });
+        return;
+      }
+
+      const validationError = this.validateGoal(data);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const goal = await this.goalService.createGoal(
+        user!.tenant_id,
+        isLive,
+        customerId,
+        data,
+        user!.user_id
+      );
+
+      if (!goal) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: goal,
+        message: 'Goal created successfully'
+      });
+    } catch (error: any) {
+      console.error('Error creating goal:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create goal'
+      });
+    }
+  };
+
+  /**
+   * Update a goal
+   */
+  updateGoal = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const goalId = parseInt(req.params.goalId);
+      const data = req.body as UpdateGoalRequest;
+
+      if (isNaN(customerId) || isNaN(goalId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer or goal ID'
+        });
+        return;
+      }
+
+      const validationError = this.validateGoal(data);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const goal = await this.goalService.updateGoal(user!.tenant_id, isLive, customerId, goalId, data);
+
+      if (!goal) {
+        res.status(404).json({
+          success: false,
+          error: 'Goal not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: goal,
+        message: 'Goal updated successfully'
+      });
+    } catch (error: any) {
+      console.error('Error updating goal:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update goal'
+      });
+    }
+  };
+
+  /**
+   * Delete a goal
+   */
+  deleteGoal = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const goalId = parseInt(req.params.goalId);
+
+      if (isNaN(customerId) || isNaN(goalId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer or goal ID'
+        });
+        return;
+      }
+
+      const deleted = await this.goalService.deleteGoal(user!.tenant_id, isLive, customerId, goalId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Goal not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Goal deleted successfully'
+      });
+    } catch (error: any) {
+      console.error('Error deleting goal:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to delete goal'
+      });
+    }
+  };
+
+  /**
+   * Get the projected corpus curve for a goal
+   */
+  getGoalProjection = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const goalId = parseInt(req.params.goalId);
+
+      if (isNaN(customerId) || isNaN(goalId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer or goal ID'
+        });
+        return;
+      }
+
+      const projection = await this.goalService.getGoalProjection(user!.tenant_id, isLive, customerId, goalId);
+
+      if (!projection) {
+        res.status(404).json({
+          success: false,
+          error: 'Goal not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: projection
+      });
+    } catch (error: any) {
+      console.error('Error getting goal projection:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get goal projection'
+      });
+    }
+  };
+
+  /**
+   * Validate goal fields that are present in the request
+   */
+  private validateGoal(data: UpdateGoalRequest): string | null {
+    if (data.goal_type !== undefined && !GOAL_TYPES.includes(data.goal_type)) {
+      return `Invalid goal_type. Must be one of: ${GOAL_TYPES.join(', ')}`;
+    }
+
+    if (data.target_amount !== undefined && !(Number(data.target_amount) > 0)) {
+      return 'target_amount must be greater than 0';
+    }
+
+    if (data.target_date !== undefined &&
+        (!/^\d{4}-\d{2}-\d{2}$/.test(data.target_date) || isNaN(new Date(data.target_date).getTime()))) {
+      return 'target_date must be in YYYY-MM-DD format';
+    }
+
+    if (data.expected_return !== undefined &&
+        (isNaN(Number(data.expected_return)) || Number(data.expected_return) < 0 || Number(data.expected_return) > 50)) {
+      return 'expected_return must be between 0 and 50';
+    }
+
+    if (data.monthly_contribution !== undefined &&
+        (isNaN(Number(data.monthly_contribution)) || Number(data.monthly_contribution) < 0)) {
+      return 'monthly_contribution cannot be negative';
+    }
+
+    if (data.holdings !== undefined) {
+      if (!Array.isArray(data.holdings)) {
+        return 'holdings must be an array';
+      }
+
+      for (const holding of data.holdings) {
+        if (!holding || !holding.scheme_code) {
+          return 'Each holding requires a scheme_code';
+        }
+        if (holding.allocation_percentage !== undefined &&
+            !(Number(holding.allocation_percentage) > 0 && Number(holding.allocation_percentage) <= 100)) {
+          return 'allocation_percentage must be between 0 and 100';
+        }
+      }
+    }
+
+    return null;
+  }
+}
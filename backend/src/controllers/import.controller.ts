@@ -1,6 +1,8 @@
 // backend/src/controllers/import.controller.ts
 import { Request, Response } from 'express';
 import { ImportService } from '../services/import.service';
+import { ImportProcessorService } from '../services/importProcessor.service';
+import { ImportRollbackService } from '../services/importRollback.service';
 import { N8NIntegrationService } from '../services/n8nIntegration.service';
 import { FileParserService } from '../services/fileParser.service';
 import { FileImportType } from '../types/import.types';
@@ -18,12 +20,16 @@ interface AuthRequest extends Request {
 
 export class ImportController {
   private importService: ImportService;
+  private importProcessor: ImportProcessorService;
+  private importRollback: ImportRollbackService;
   private n8nService: N8NIntegrationService;
   private fileParser: FileParserService;
   private db: any; // Database connection from ImportService
 
   constructor() {
     this.importService = new ImportService();
+    this.importProcessor = new ImportProcessorService();
+    this.importRollback = new ImportRollbackService();
     this.n8nService = new N8NIntegrationService();
     this.fileParser = new FileParserService();
     this.db = (this.importService as any).db; // Access the database connection
@@ -245,6 +251,8 @@ export class ImportController {
 
       const { fileId, mappings, sessionName } = req.body;
       const isLive = req.headers['x-environment'] === 'live';
+      // mode=dry_run stages the file and returns a preview; nothing is written to master tables
+      const dryRun = req.query.mode === 'dry_run';
 
       console.log('Processing request received:', { fileId, sessionName, mappingsCount: mappings?.length });
 
@@ -337,6 +345,14 @@ export class ImportController {
         return;
       }
 
+      if (dryRun && importType === 'SchemeData') {
+        res.status(400).json({
+          success: false,
+          error: 'Dry run is only available for customer and transaction imports'
+        });
+        return;
+      }
+
       console.log('Parsing file for validation:', filePath);
       console.log('Import type detected:', importType);
 
@@ -396,16 +412,45 @@ export class ImportController {
           mappings
         });
 
+        if (dryRun) {
+          try {
+            const preview = await this.importProcessor.previewSession(user.tenant_id, isLive, session.id, importType);
+
+            res.json({
+              success: true,
+              data: {
+                id: session.id,
+                sessionId: session.id,
+                session_name: sessionName,
+                status: 'staged',
+                totalRows: stagingResult.totalRows,
+                preview
+              }
+            });
+          } catch (previewError: any) {
+            console.error('Dry run error:', previewError);
+            await this.importService.updateImportSession(user.tenant_id, isLive, session.id, {
+              status: 'failed',
+              error_summary: previewError.message
+            });
+            res.status(500).json({ success: false, error: previewError.message });
+          }
+          return;
+        }
+
         console.log('Staging completed, triggering processing for session:', session.id, 'type:', importType);
         
-        // Use the same database processing for all import types
+        // Database functions, or the node engine when IMPORT_ENGINE=node
         let processingResult: { success: boolean; error?: string };
         const targetDuration = importType === 'CustomerData' ? 35000 : 30000;
         
         try {
-          processingResult = await this.importService.triggerDatabaseProcessing(
+          processingResult = await this.importService.triggerProcessing(
+            user.tenant_id,
+            isLive,
             session.id,
             importType,  // Pass the import type to route to correct function
+            user.user_id,
             targetDuration
           );
           console.log('Processing triggered successfully');
@@ -468,6 +513,137 @@ export class ImportController {
     }
   };
 
+  /**
+   * Process a staged session after its dry run was reviewed
+   */
+  processStagedSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { sessionId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      const session = await this.importService.getImportSession(
+        user.tenant_id,
+        isLive,
+        parseInt(sessionId)
+      );
+
+      if (!session) {
+        res.status(404).json({ success: false, error: 'Session not found' });
+        return;
+      }
+
+      if (session.status !== 'staged') {
+        res.status(409).json({
+          success: false,
+          error: `Session is ${session.status}; only staged sessions can be processed`
+        });
+        return;
+      }
+
+      // Two requests for the same session can both get past the check above; only one claims it
+      const claimed = await this.importService.claimStagedSession(user.tenant_id, isLive, session.id);
+      if (!claimed) {
+        res.status(409).json({ success: false, error: 'Session is already being processed' });
+        return;
+      }
+
+      // The preview was computed with the node engine's rules, so the real run uses them too
+      const processingResult = await this.importService.triggerProcessing(
+        user.tenant_id,
+        isLive,
+        session.id,
+        session.import_type,
+        user.user_id,
+        undefined,
+        'node'
+      ).catch((error: any) => ({ success: false, error: error.message as string | undefined }));
+
+      if (!processingResult.success) {
+        // Processing never started, so hand the session back for another attempt
+        await this.importService.updateImportSession(user.tenant_id, isLive, session.id, { status: 'staged' });
+        res.status(500).json({ success: false, error: processingResult.error || 'Processing failed' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          id: session.id,
+          sessionId: session.id,
+          session_name: session.session_name,
+          status: 'processing'
+        }
+      });
+
+    } catch (error: any) {
+      console.error('Error processing staged session:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Get what rolling back a session would change (confirmation step)
+   */
+  getRollbackImpact = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { sessionId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      const impact = await this.importRollback.getImpact(user.tenant_id, isLive, parseInt(sessionId));
+
+      res.json({ success: true, data: impact });
+
+    } catch (error: any) {
+      console.error('Error getting rollback impact:', error);
+      res.status(this.rollbackErrorStatus(error)).json({ success: false, error: error.message });
+    }
+  };
+
+  /**
+   * Roll back everything a session created or changed
+   */
+  rollbackSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { sessionId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      const result = await this.importRollback.rollbackSession(
+        user.tenant_id,
+        isLive,
+        parseInt(sessionId),
+        user.user_id
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Import rolled back'
+      });
+
+    } catch (error: any) {
+      console.error('Error rolling back import:', error);
+      res.status(this.rollbackErrorStatus(error)).json({ success: false, error: error.message });
+    }
+  };
+
   /**
    * Get processing status
    */
@@ -1132,4 +1308,10 @@ export class ImportController {
       res.status(500).json({ success: false, error: error.message });
     }
   };
-}
\ No newline at end of file
+
+  private rollbackErrorStatus(error: any): number {
+    if (error.message?.includes('Session not found')) return 404;
+    if (error.message?.includes('rolled back')) return 409;
+    return 500;
+  }
+}
@@ -0,0 +1,217 @@
+// backend/src/controllers/jtbd.controller.ts
+
+import { Request, Response } from 'express';
+import { JtbdService } from '../services/jtbd.service';
+import { JTBDActionStatus, SnoozeActionRequest } from '../types/jtbd.types';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: number;
+    tenant_id: number;
+  };
+  environment?: 'live' | 'test';
+}
+
+const VALID_STATUS_FILTERS: Array<JTBDActionStatus | 'all'> = [
+  'open', 'snoozed', 'dismissed', 'completed', 'resolved', 'all'
+];
+
+export class JtbdController {
+  private jtbdService: JtbdService;
+
+  constructor() {
+    this.jtbdService = new JtbdService();
+  }
+
+  /**
+   * Get actions for a customer
+   */
+  getActions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const status = (req.query.status as JTBDActionStatus | 'all') || 'open';
+
+      if (isNaN(customerId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      if (!VALID_STATUS_FILTERS.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${VALID_STATUS_FILTERS.join(', ')}`
+        });
+        return;
+      }
+
+      const actions = await this.jtbdService.getCustomerActions(
+        user!.tenant_id,
+        isLive,
+        customerId,
+        { status, refresh: req.query.refresh === 'true' }
+      );
+
+      if (!actions) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: actions
+      });
+    } catch (error: any) {
+      console.error('Error getting customer actions:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get customer actions'
+      });
+    }
+  };
+
+  /**
+   * Re-run the rules engine for a customer
+   */
+  evaluateActions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+
+      if (isNaN(customerId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const result = await this.jtbdService.evaluateCustomer(user!.tenant_id, isLive, customerId);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Error evaluating customer actions:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to evaluate customer actions'
+      });
+    }
+  };
+
+  /**
+   * Dismiss an action
+   */
+  dismissAction = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.handleStatusChange(req, res, 'dismissed');
+  };
+
+  /**
+   * Snooze an action
+   */
+  snoozeAction = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.handleStatusChange(req, res, 'snoozed');
+  };
+
+  /**
+   * Complete an action
+   */
+  completeAction = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.handleStatusChange(req, res, 'completed');
+  };
+
+  /**
+   * Shared handler for dismiss / snooze / complete
+   */
+  private handleStatusChange = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    status: 'dismissed' | 'snoozed' | 'completed'
+  ): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = parseInt(req.params.id);
+      const actionId = parseInt(req.params.actionId);
+      const body = (req.body || {}) as SnoozeActionRequest;
+
+      if (isNaN(customerId) || isNaN(actionId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer or action ID'
+        });
+        return;
+      }
+
+      let action;
+
+      if (status === 'snoozed') {
+        let until: Date;
+
+        if (body.until) {
+          until = new Date(body.until);
+        } else {
+          const days = body.days !== undefined ? Number(body.days) : 7;
+          until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+        }
+
+        if (isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+          res.status(400).json({
+            success: false,
+            error: 'Snooze requires a future "until" date or a positive number of "days"'
+          });
+          return;
+        }
+
+        action = await this.jtbdService.snoozeAction(
+          user!.tenant_id, isLive, customerId, actionId, user!.user_id, until, body.reason
+        );
+      } else if (status === 'dismissed') {
+        action = await this.jtbdService.dismissAction(
+          user!.tenant_id, isLive, customerId, actionId, user!.user_id, body.reason
+        );
+      } else {
+        action = await this.jtbdService.completeAction(
+          user!.tenant_id, isLive, customerId, actionId, user!.user_id, body.reason
+        );
+      }
+
+      if (!action) {
+        res.status(404).json({
+          success: false,
+          error: 'Action not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: action
+      });
+    } catch (error: any) {
+      console.error(`Error changing action status to ${status}:`, error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update action'
+      });
+    }
+  };
+}
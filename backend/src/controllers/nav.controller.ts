@@ -5,10 +5,22 @@
 import { Request, Response } from 'express';
 import { NavService } from '../services/nav.service';
 import { NavDownloadService } from '../services/navDownload.service';
-import { NavSchedulerService } from '../services/navScheduler.service';
+import { NavSchedulerService, EXECUTION_MODES } from '../services/navScheduler.service';
 import { AmfiDataSourceService } from '../services/amfiDataSource.service';
+import { NavQualityService, MAX_QUALITY_LOOKBACK_DAYS } from '../services/navQuality.service';
+import { NavProviderService } from '../services/navProvider.service';
+import {
+  NavAnalyticsService,
+  DEFAULT_RISK_FREE_RATE,
+  MIN_COMPARE_SCHEMES,
+  MAX_COMPARE_SCHEMES
+} from '../services/navAnalytics.service';
+import { NAV_LOCAL_DIR } from '../services/navDataProvider.service';
+import { SchemeSyncService, SCHEME_SYNC_MODES, SCHEME_SYNC_CHANGE_TYPES } from '../services/schemeSync.service';
 import { SchemeService, SchemeDetail } from '../services/scheme.service';
 import { SimpleLogger } from '../services/simpleLogger.service';
+import { NODE_ID } from '../services/jobLease.service';
+import { CronUtil, MISFIRE_POLICIES } from '../utils/cron.util';
 import {
   SchemeBookmarkSearchParams,
   CreateSchemeBookmarkRequest,
@@ -17,7 +29,12 @@ import {
   UpdateBookmarkDownloadStatus,
   NavDataSearchParams,
   NavDownloadJobSearchParams,
-  N8nCallbackPayload
+  N8nCallbackPayload,
+  UpdateNavProviderSettingsRequest,
+  SchemeSyncChangeStatus,
+  SchemeSyncChangeType,
+  SchemeSyncRunStatus,
+  AnalyticsRiskPeriod
 } from '../types/nav.types';
 
 interface AuthenticatedRequest extends Request {
@@ -40,6 +57,10 @@ export class NavController {
   private schedulerService: NavSchedulerService;
   private amfiService: AmfiDataSourceService;
   private schemeService: SchemeService;
+  private qualityService: NavQualityService;
+  private providerService: NavProviderService;
+  private schemeSyncService: SchemeSyncService;
+  private analyticsService: NavAnalyticsService;
 
   constructor() {
     this.navService = new NavService();
@@ -47,6 +68,10 @@ export class NavController {
     this.schedulerService = new NavSchedulerService();
     this.amfiService = new AmfiDataSourceService();
     this.schemeService = new SchemeService();
+    this.qualityService = new NavQualityService();
+    this.providerService = new NavProviderService();
+    this.schemeSyncService = new SchemeSyncService();
+    this.analyticsService = new NavAnalyticsService();
   }
 
   // ==================== SCHEME SEARCH & MANAGEMENT ====================
@@ -623,6 +648,166 @@ export class NavController {
     }
   };
 
+  getSchemeAnalytics = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const schemeId = parseInt(req.params.id);
+      const { risk_free_rate } = req.query;
+
+      if (isNaN(schemeId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid scheme ID'
+        });
+        return;
+      }
+
+      const riskFreeRate = risk_free_rate !== undefined ? parseFloat(risk_free_rate as string) : DEFAULT_RISK_FREE_RATE;
+
+      if (isNaN(riskFreeRate) || riskFreeRate < 0 || riskFreeRate > 100) {
+        res.status(400).json({
+          success: false,
+          error: 'risk_free_rate must be an annual percentage between 0 and 100'
+        });
+        return;
+      }
+
+      const analytics = await this.analyticsService.getSchemeAnalytics(
+        user!.tenant_id,
+        isLive,
+        schemeId,
+        riskFreeRate
+      );
+
+      if (!analytics) {
+        res.status(404).json({
+          success: false,
+          error: 'No NAV data found for this scheme'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: analytics
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get scheme analytics', 'getSchemeAnalytics', {
+        tenantId: req.user?.tenant_id,
+        schemeId: req.params.id,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get scheme analytics'
+      });
+    }
+  };
+
+  compareSchemes = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { scheme_ids, benchmark_id, start_date, end_date, rolling_period } = req.query;
+
+      // scheme_ids=1,2,3 or scheme_ids=1&scheme_ids=2
+      const schemeIds = (Array.isArray(scheme_ids) ? scheme_ids.join(',') : String(scheme_ids || ''))
+        .split(',')
+        .filter(id => id.trim() !== '')
+        .map(id => parseInt(id));
+
+      if (schemeIds.some(id => isNaN(id))) {
+        res.status(400).json({
+          success: false,
+          error: 'scheme_ids must be a comma-separated list of scheme IDs'
+        });
+        return;
+      }
+
+      if (schemeIds.length < MIN_COMPARE_SCHEMES || schemeIds.length > MAX_COMPARE_SCHEMES) {
+        res.status(400).json({
+          success: false,
+          error: `Select between ${MIN_COMPARE_SCHEMES} and ${MAX_COMPARE_SCHEMES} schemes to compare`
+        });
+        return;
+      }
+
+      if (new Set(schemeIds).size !== schemeIds.length) {
+        res.status(400).json({
+          success: false,
+          error: 'scheme_ids must not contain duplicates'
+        });
+        return;
+      }
+
+      const benchmarkId = benchmark_id !== undefined && benchmark_id !== '' ? parseInt(benchmark_id as string) : undefined;
+
+      if (benchmarkId !== undefined && (isNaN(benchmarkId) || schemeIds.includes(benchmarkId))) {
+        res.status(400).json({
+          success: false,
+          error: 'benchmark_id must be a scheme ID that is not one of the compared schemes'
+        });
+        return;
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if ((start_date && !datePattern.test(start_date as string)) || (end_date && !datePattern.test(end_date as string))) {
+        res.status(400).json({
+          success: false,
+          error: 'start_date and end_date must be in YYYY-MM-DD format'
+        });
+        return;
+      }
+
+      if (start_date && end_date && (start_date as string) > (end_date as string)) {
+        res.status(400).json({
+          success: false,
+          error: 'start_date must be on or before end_date'
+        });
+        return;
+      }
+
+      if (rolling_period !== undefined && rolling_period !== '1Y' && rolling_period !== '3Y') {
+        res.status(400).json({
+          success: false,
+          error: 'rolling_period must be 1Y or 3Y'
+        });
+        return;
+      }
+
+      const comparison = await this.analyticsService.compareSchemes(user!.tenant_id, isLive, {
+        scheme_ids: schemeIds,
+        benchmark_id: benchmarkId,
+        start_date: start_date as string | undefined,
+        end_date: end_date as string | undefined,
+        rolling_period: rolling_period as AnalyticsRiskPeriod | undefined
+      });
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to compare schemes', 'compareSchemes', {
+        tenantId: req.user?.tenant_id,
+        query: req.query,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      const message: string = error.message || 'Failed to compare schemes';
+      const status = message.startsWith('No NAV data found')
+        ? 404
+        : message.startsWith('No overlapping NAV history') ? 400 : 500;
+
+      res.status(status).json({
+        success: false,
+        error: message
+      });
+    }
+  };
+
   // ==================== DOWNLOAD OPERATIONS ====================
 
   triggerDailyDownload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
@@ -661,6 +846,64 @@ export class NavController {
    * UPDATED: Trigger historical NAV download using simplified MFAPI.in approach
    * Route unchanged for frontend compatibility
    */
+  triggerBackfillDownload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const { scheme_ids, lookback_days } = req.body || {};
+
+      if (scheme_ids !== undefined && (!Array.isArray(scheme_ids) || scheme_ids.some((id: any) => isNaN(Number(id))))) {
+        res.status(400).json({
+          success: false,
+          error: 'scheme_ids must be an array of scheme IDs'
+        });
+        return;
+      }
+
+      const lookbackDays = lookback_days !== undefined ? parseInt(lookback_days) : undefined;
+      if (lookbackDays !== undefined && (isNaN(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_QUALITY_LOOKBACK_DAYS)) {
+        res.status(400).json({
+          success: false,
+          error: `lookback_days must be between 1 and ${MAX_QUALITY_LOOKBACK_DAYS}`
+        });
+        return;
+      }
+
+      const result = await this.downloadService.triggerBackfillDownload(
+        user!.tenant_id,
+        isLive,
+        user!.user_id,
+        {
+          scheme_ids: scheme_ids ? scheme_ids.map(Number) : undefined,
+          lookback_days: lookbackDays
+        }
+      );
+
+      res.status(result.jobId && !result.alreadyExists ? 202 : 200).json({
+        success: true,
+        data: {
+          job_id: result.jobId,
+          message: result.message,
+          already_exists: result.alreadyExists || false,
+          gaps: result.gaps
+        }
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to trigger backfill', 'triggerBackfillDownload', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        body: req.body,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to trigger backfill'
+      });
+    }
+  };
+
   triggerHistoricalDownload = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { user, environment } = req;
@@ -934,6 +1177,79 @@ export class NavController {
     }
   };
 
+  getNavQuality = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { lookback_days, spike_threshold, stale_days, exchange } = req.query;
+
+      const lookbackDays = lookback_days !== undefined ? parseInt(lookback_days as string) : undefined;
+      const spikeThreshold = spike_threshold !== undefined ? parseFloat(spike_threshold as string) : undefined;
+      const staleDays = stale_days !== undefined ? parseInt(stale_days as string) : undefined;
+
+      if (lookbackDays !== undefined && (isNaN(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_QUALITY_LOOKBACK_DAYS)) {
+        res.status(400).json({
+          success: false,
+          error: `lookback_days must be between 1 and ${MAX_QUALITY_LOOKBACK_DAYS}`
+        });
+        return;
+      }
+
+      if (spikeThreshold !== undefined && (isNaN(spikeThreshold) || spikeThreshold <= 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'spike_threshold must be a positive percentage'
+        });
+        return;
+      }
+
+      if (staleDays !== undefined && (isNaN(staleDays) || staleDays < 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'stale_days must be zero or a positive number of days'
+        });
+        return;
+      }
+
+      if (exchange !== undefined && exchange !== 'NSE' && exchange !== 'BSE') {
+        res.status(400).json({
+          success: false,
+          error: 'exchange must be NSE or BSE'
+        });
+        return;
+      }
+
+      const report = await this.qualityService.getQualityReport(
+        user!.tenant_id,
+        isLive,
+        user!.user_id,
+        {
+          ...(lookbackDays !== undefined && { lookback_days: lookbackDays }),
+          ...(spikeThreshold !== undefined && { spike_threshold_pct: spikeThreshold }),
+          ...(staleDays !== undefined && { stale_after_days: staleDays }),
+          ...(exchange !== undefined && { exchange: exchange as 'NSE' | 'BSE' })
+        }
+      );
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get NAV quality report', 'getNavQuality', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        query: req.query,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get NAV quality report'
+      });
+    }
+  };
+
   getActiveDownloads = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const activeDownloads = await this.downloadService.getActiveDownloads();
@@ -1023,104 +1339,466 @@ export class NavController {
     }
   };
 
-  // ==================== SCHEDULER MANAGEMENT (UNCHANGED) ====================
+  // ==================== NAV DATA PROVIDERS ====================
 
-  getSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  getProviderSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { user, environment } = req;
       const isLive = environment === 'live';
 
-      const config = await this.schedulerService.getSchedulerConfig(
-        user!.tenant_id,
-        isLive,
-        user!.user_id
-      );
+      const settings = await this.providerService.getSettings(user!.tenant_id, isLive);
 
       res.json({
         success: true,
-        data: config
+        data: {
+          settings,
+          available_providers: this.providerService.listProviders(),
+          local_base_directory: NAV_LOCAL_DIR
+        }
       });
     } catch (error: any) {
-      SimpleLogger.error('NavController', 'Failed to get scheduler config', 'getSchedulerConfig', {
+      SimpleLogger.error('NavController', 'Failed to get NAV provider settings', 'getProviderSettings', {
         tenantId: req.user?.tenant_id,
-        userId: req.user?.user_id,
         error: error.message
       }, req.user?.user_id, req.user?.tenant_id, error.stack);
 
       res.status(500).json({
         success: false,
-        error: error.message || 'Failed to get scheduler configuration'
+        error: error.message || 'Failed to get NAV provider settings'
       });
     }
   };
 
-  saveSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  updateProviderSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { user, environment } = req;
       const isLive = environment === 'live';
+      const request: UpdateNavProviderSettingsRequest = {
+        providers: req.body?.providers,
+        local_directory: req.body?.local_directory
+      };
 
-      const { schedule_type, download_time, cron_expression, is_enabled } = req.body;
-
-      if (!schedule_type || !download_time || is_enabled === undefined) {
-        res.status(400).json({
-          success: false,
-          error: 'schedule_type, download_time, and is_enabled are required'
-        });
-        return;
-      }
-
-      if (!/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(download_time)) {
+      const validationError = this.providerService.validateSettings(request);
+      if (validationError) {
         res.status(400).json({
           success: false,
-          error: 'Invalid time format. Use HH:MM format (24-hour)'
+          error: validationError
         });
         return;
       }
 
-      let finalCronExpression = cron_expression;
-      if (!finalCronExpression) {
-        finalCronExpression = this.generateCronExpression(schedule_type, download_time);
-      }
-
-      const config = {
-        tenant_id: user!.tenant_id,
-        user_id: user!.user_id,
-        is_live: isLive,
-        schedule_type,
-        cron_expression: finalCronExpression,
-        download_time,
-        is_enabled,
-        execution_count: 0, 
-        failure_count: 0 
-      };
-
-      const savedConfig = await this.schedulerService.saveSchedulerConfig(config);
+      const settings = await this.providerService.saveSettings(user!.tenant_id, isLive, request);
 
       res.json({
         success: true,
-        data: savedConfig,
-        message: 'Scheduler configuration saved successfully'
+        data: settings,
+        message: `NAV providers set to ${settings.providers.join(' -> ')}`
       });
     } catch (error: any) {
-      SimpleLogger.error('NavController', 'Failed to save scheduler config', 'saveSchedulerConfig', {
+      SimpleLogger.error('NavController', 'Failed to update NAV provider settings', 'updateProviderSettings', {
         tenantId: req.user?.tenant_id,
-        userId: req.user?.user_id,
         body: req.body,
         error: error.message
       }, req.user?.user_id, req.user?.tenant_id, error.stack);
 
       res.status(500).json({
         success: false,
-        error: error.message || 'Failed to save scheduler configuration'
+        error: error.message || 'Failed to update NAV provider settings'
       });
     }
   };
 
-  updateSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  // ==================== SCHEME MASTER SYNC ====================
+
+  getSchemeSyncSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { user, environment } = req;
       const isLive = environment === 'live';
-      const configId = parseInt(req.params.id);
+
+      const settings = await this.schemeSyncService.getSettings(user!.tenant_id, isLive);
+
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get scheme sync settings', 'getSchemeSyncSettings', {
+        tenantId: req.user?.tenant_id,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get scheme sync settings'
+      });
+    }
+  };
+
+  updateSchemeSyncSettings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { mode, detect_closures } = req.body || {};
+
+      if (!SCHEME_SYNC_MODES.includes(mode)) {
+        res.status(400).json({
+          success: false,
+          error: `mode must be one of: ${SCHEME_SYNC_MODES.join(', ')}`
+        });
+        return;
+      }
+
+      if (detect_closures !== undefined && typeof detect_closures !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'detect_closures must be a boolean'
+        });
+        return;
+      }
+
+      const settings = await this.schemeSyncService.saveSettings(user!.tenant_id, isLive, user!.user_id, {
+        mode,
+        detect_closures
+      });
+
+      res.json({
+        success: true,
+        data: settings,
+        message: `Scheme master sync set to ${settings.mode}`
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to update scheme sync settings', 'updateSchemeSyncSettings', {
+        tenantId: req.user?.tenant_id,
+        body: req.body,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update scheme sync settings'
+      });
+    }
+  };
+
+  triggerSchemeSync = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { auto_apply, detect_closures } = req.body || {};
+
+      if ((auto_apply !== undefined && typeof auto_apply !== 'boolean') ||
+          (detect_closures !== undefined && typeof detect_closures !== 'boolean')) {
+        res.status(400).json({
+          success: false,
+          error: 'auto_apply and detect_closures must be booleans'
+        });
+        return;
+      }
+
+      const run = await this.schemeSyncService.runManualSync(user!.tenant_id, isLive, user!.user_id, {
+        auto_apply,
+        detect_closures
+      });
+
+      res.json({
+        success: true,
+        data: run,
+        message: run.status === 'pending_approval'
+          ? 'Scheme master changes are waiting for approval'
+          : `Scheme sync ${run.status.replace('_', ' ')}`
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to run scheme sync', 'triggerSchemeSync', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to run scheme sync'
+      });
+    }
+  };
+
+  getSchemeSyncRuns = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const { status, page, page_size } = req.query;
+
+      const result = await this.schemeSyncService.listRuns(user!.tenant_id, isLive, {
+        status: status as SchemeSyncRunStatus | undefined,
+        page: page ? parseInt(page as string) : undefined,
+        page_size: page_size ? parseInt(page_size as string) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get scheme sync runs', 'getSchemeSyncRuns', {
+        tenantId: req.user?.tenant_id,
+        query: req.query,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get scheme sync runs'
+      });
+    }
+  };
+
+  getSchemeSyncRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const runId = parseInt(req.params.id);
+      const { change_type, status, page, page_size } = req.query;
+
+      if (isNaN(runId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid run ID'
+        });
+        return;
+      }
+
+      if (change_type !== undefined && !SCHEME_SYNC_CHANGE_TYPES.includes(change_type as SchemeSyncChangeType)) {
+        res.status(400).json({
+          success: false,
+          error: `change_type must be one of: ${SCHEME_SYNC_CHANGE_TYPES.join(', ')}`
+        });
+        return;
+      }
+
+      const run = await this.schemeSyncService.getRun(user!.tenant_id, isLive, runId, {
+        change_type: change_type as SchemeSyncChangeType | undefined,
+        status: status as SchemeSyncChangeStatus | undefined,
+        page: page ? parseInt(page as string) : undefined,
+        page_size: page_size ? parseInt(page_size as string) : undefined
+      });
+
+      if (!run) {
+        res.status(404).json({
+          success: false,
+          error: 'Scheme sync run not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get scheme sync run', 'getSchemeSyncRun', {
+        tenantId: req.user?.tenant_id,
+        runId: req.params.id,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get scheme sync run'
+      });
+    }
+  };
+
+  approveSchemeSyncRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const runId = parseInt(req.params.id);
+      const { change_ids } = req.body || {};
+
+      if (isNaN(runId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid run ID'
+        });
+        return;
+      }
+
+      if (change_ids !== undefined && (!Array.isArray(change_ids) || change_ids.some((id: any) => isNaN(Number(id))))) {
+        res.status(400).json({
+          success: false,
+          error: 'change_ids must be an array of change IDs'
+        });
+        return;
+      }
+
+      const result = await this.schemeSyncService.approveRun(
+        user!.tenant_id,
+        isLive,
+        runId,
+        user!.user_id,
+        change_ids ? change_ids.map(Number) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.applied} changes applied, ${result.skipped} skipped, ${result.rejected} rejected`
+      });
+    } catch (error: any) {
+      this.handleSchemeSyncReviewError(req, res, error, 'approveSchemeSyncRun');
+    }
+  };
+
+  rejectSchemeSyncRun = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const runId = parseInt(req.params.id);
+
+      if (isNaN(runId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid run ID'
+        });
+        return;
+      }
+
+      const run = await this.schemeSyncService.rejectRun(user!.tenant_id, isLive, runId, user!.user_id);
+
+      res.json({
+        success: true,
+        data: run,
+        message: 'Scheme sync run rejected'
+      });
+    } catch (error: any) {
+      this.handleSchemeSyncReviewError(req, res, error, 'rejectSchemeSyncRun');
+    }
+  };
+
+  // ==================== SCHEDULER MANAGEMENT (UNCHANGED) ====================
+
+  getSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const config = await this.schedulerService.getSchedulerConfig(
+        user!.tenant_id,
+        isLive,
+        user!.user_id
+      );
+
+      res.json({
+        success: true,
+        data: config
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to get scheduler config', 'getSchedulerConfig', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get scheduler configuration'
+      });
+    }
+  };
+
+  saveSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const { schedule_type, download_time, cron_expression, is_enabled, misfire_policy, execution_mode } = req.body;
+
+      if (!schedule_type || !download_time || is_enabled === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'schedule_type, download_time, and is_enabled are required'
+        });
+        return;
+      }
+
+      if (!/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(download_time)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid time format. Use HH:MM format (24-hour)'
+        });
+        return;
+      }
+
+      if (misfire_policy && !MISFIRE_POLICIES.includes(misfire_policy)) {
+        res.status(400).json({
+          success: false,
+          error: `misfire_policy must be one of: ${MISFIRE_POLICIES.join(', ')}`
+        });
+        return;
+      }
+
+      if (execution_mode && !EXECUTION_MODES.includes(execution_mode)) {
+        res.status(400).json({
+          success: false,
+          error: `execution_mode must be one of: ${EXECUTION_MODES.join(', ')}`
+        });
+        return;
+      }
+
+      let finalCronExpression = cron_expression;
+      if (!finalCronExpression) {
+        finalCronExpression = this.generateCronExpression(schedule_type, download_time);
+      }
+
+      const cronError = CronUtil.validate(finalCronExpression);
+      if (cronError) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid cron expression: ${cronError}`
+        });
+        return;
+      }
+
+      const config = {
+        tenant_id: user!.tenant_id,
+        user_id: user!.user_id,
+        is_live: isLive,
+        schedule_type,
+        cron_expression: finalCronExpression,
+        download_time,
+        is_enabled,
+        misfire_policy,
+        execution_mode,
+        execution_count: 0, 
+        failure_count: 0 
+      };
+
+      const savedConfig = await this.schedulerService.saveSchedulerConfig(config);
+
+      res.json({
+        success: true,
+        data: savedConfig,
+        message: 'Scheduler configuration saved successfully'
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to save scheduler config', 'saveSchedulerConfig', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        body: req.body,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to save scheduler configuration'
+      });
+    }
+  };
+
+  updateSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const configId = parseInt(req.params.id);
 
       if (isNaN(configId)) {
         res.status(400).json({
@@ -1130,7 +1808,23 @@ export class NavController {
         return;
       }
 
-      const { schedule_type, download_time, cron_expression, is_enabled } = req.body;
+      const { schedule_type, download_time, cron_expression, is_enabled, misfire_policy, execution_mode } = req.body;
+
+      if (misfire_policy && !MISFIRE_POLICIES.includes(misfire_policy)) {
+        res.status(400).json({
+          success: false,
+          error: `misfire_policy must be one of: ${MISFIRE_POLICIES.join(', ')}`
+        });
+        return;
+      }
+
+      if (execution_mode && !EXECUTION_MODES.includes(execution_mode)) {
+        res.status(400).json({
+          success: false,
+          error: `execution_mode must be one of: ${EXECUTION_MODES.join(', ')}`
+        });
+        return;
+      }
 
       const existingConfig = await this.schedulerService.getSchedulerConfig(
         user!.tenant_id,
@@ -1151,12 +1845,23 @@ export class NavController {
         finalCronExpression = this.generateCronExpression(schedule_type, download_time);
       }
 
+      const cronError = finalCronExpression ? CronUtil.validate(finalCronExpression) : null;
+      if (cronError) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid cron expression: ${cronError}`
+        });
+        return;
+      }
+
       const updatedConfig = {
         ...existingConfig,
         ...(schedule_type && { schedule_type }),
         ...(download_time && { download_time }),
         ...(finalCronExpression && { cron_expression: finalCronExpression }),
-        ...(is_enabled !== undefined && { is_enabled })
+        ...(is_enabled !== undefined && { is_enabled }),
+        ...(misfire_policy && { misfire_policy }),
+        ...(execution_mode && { execution_mode })
       };
 
       const savedConfig = await this.schedulerService.saveSchedulerConfig(updatedConfig);
@@ -1182,6 +1887,65 @@ export class NavController {
     }
   };
 
+  previewSchedule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { schedule_type, download_time, cron_expression } = req.body;
+      const count = req.body.count !== undefined ? parseInt(req.body.count) : 5;
+
+      if (isNaN(count) || count < 1 || count > 50) {
+        res.status(400).json({
+          success: false,
+          error: 'count must be between 1 and 50'
+        });
+        return;
+      }
+
+      if (!cron_expression && !(schedule_type && download_time)) {
+        res.status(400).json({
+          success: false,
+          error: 'cron_expression or schedule_type and download_time are required'
+        });
+        return;
+      }
+
+      if (!cron_expression && !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(download_time)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid time format. Use HH:MM format (24-hour)'
+        });
+        return;
+      }
+
+      const expression = cron_expression || this.generateCronExpression(schedule_type, download_time);
+
+      const cronError = CronUtil.validate(expression);
+      if (cronError) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid cron expression: ${cronError}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.schedulerService.previewSchedule(expression, count)
+      });
+    } catch (error: any) {
+      SimpleLogger.error('NavController', 'Failed to preview schedule', 'previewSchedule', {
+        tenantId: req.user?.tenant_id,
+        userId: req.user?.user_id,
+        body: req.body,
+        error: error.message
+      }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to preview schedule'
+      });
+    }
+  };
+
   deleteSchedulerConfig = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { user, environment } = req;
@@ -1256,7 +2020,10 @@ export class NavController {
           success: true,
           data: {
             execution_id: result.executionId,
-            message: 'Download triggered successfully via N8N'
+            job_id: result.jobId,
+            message: result.jobId
+              ? 'NAV download completed by the native pipeline'
+              : 'Download triggered successfully via N8N'
           }
         });
       } else {
@@ -1282,12 +2049,15 @@ export class NavController {
   getAllActiveSchedulers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const activeSchedulers = await this.schedulerService.getAllActiveSchedulers();
+      const downloadLocks = await this.downloadService.getDownloadLocks();
 
       res.json({
         success: true,
         data: {
+          node_id: NODE_ID,
           active_schedulers: activeSchedulers,
-          total_active: activeSchedulers.length
+          total_active: activeSchedulers.filter(scheduler => scheduler.isActive).length,
+          download_locks: downloadLocks
         }
       });
     } catch (error: any) {
@@ -1302,6 +2072,29 @@ export class NavController {
     }
   };
 
+  private handleSchemeSyncReviewError(req: AuthenticatedRequest, res: Response, error: any, functionName: string): void {
+    if (error.message === 'Scheme sync run not found') {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+
+    if (error.message?.includes('only pending_approval runs can be reviewed')) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    SimpleLogger.error('NavController', 'Failed to review scheme sync run', functionName, {
+      tenantId: req.user?.tenant_id,
+      runId: req.params.id,
+      error: error.message
+    }, req.user?.user_id, req.user?.tenant_id, error.stack);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to review scheme sync run'
+    });
+  }
+
   private generateCronExpression(scheduleType: string, downloadTime: string): string {
     const [hours, minutes] = downloadTime.split(':').map(Number);
 
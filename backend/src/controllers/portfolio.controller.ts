@@ -2,7 +2,10 @@
 
 import { Request, Response } from 'express';
 import { PortfolioService } from '../services/portfolio.service';
-import { PortfolioFilters } from '../types/portfolio.types';
+import { CapitalGainsService } from '../services/capitalGains.service';
+import { PortfolioFilters, PerformanceInterval } from '../types/portfolio.types';
+import { CapitalGainsExportFormat } from '../types/capitalGains.types';
+import { CapitalGainsUtil } from '../utils/capitalGains.util';
 
 interface AuthRequest extends Request {
   user?: {
@@ -15,9 +18,11 @@ interface AuthRequest extends Request {
 
 export class PortfolioController {
   private portfolioService: PortfolioService;
+  private capitalGainsService: CapitalGainsService;
 
   constructor() {
     this.portfolioService = new PortfolioService();
+    this.capitalGainsService = new CapitalGainsService();
   }
 
   /**
@@ -46,7 +51,8 @@ export class PortfolioController {
       const portfolio = await this.portfolioService.getCustomerPortfolio(
         user.tenant_id,
         isLive,
-        parseInt(customerId)
+        parseInt(customerId),
+        req.query.include_performance === 'true'
       );
 
       if (!portfolio) {
@@ -179,6 +185,163 @@ export class PortfolioController {
     }
   };
 
+  /**
+   * GET /api/portfolio/:customerId/performance
+   * Get historical portfolio valuation series
+   */
+  getPortfolioPerformance = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      const interval = (req.query.interval as PerformanceInterval) || 'monthly';
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+      if (!['daily', 'weekly', 'monthly'].includes(interval)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid interval. Must be daily, weekly or monthly'
+        });
+        return;
+      }
+
+      if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date format. Use YYYY-MM-DD'
+        });
+        return;
+      }
+
+      if (from && to && from > to) {
+        res.status(400).json({
+          success: false,
+          error: 'from date must be on or before to date'
+        });
+        return;
+      }
+
+      const performance = await this.portfolioService.getPortfolioPerformance(
+        user.tenant_id,
+        isLive,
+        parseInt(customerId),
+        { from, to, interval }
+      );
+
+      if (!performance) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: performance
+      });
+    } catch (error: any) {
+      console.error('Error getting portfolio performance:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get portfolio performance'
+      });
+    }
+  };
+
+  /**
+   * GET /api/portfolio/:customerId/capital-gains
+   * Get FIFO realised capital gains for a financial year (JSON, CSV or Excel)
+   */
+  getCapitalGains = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+      const financialYear = (req.query.fy as string) || CapitalGainsUtil.getFinancialYear();
+      const format = ((req.query.format as string) || 'json').toLowerCase() as CapitalGainsExportFormat;
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      if (!CapitalGainsUtil.parseFinancialYear(financialYear)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid financial year. Use the format YYYY-YY, e.g. 2025-26'
+        });
+        return;
+      }
+
+      if (!['json', 'csv', 'xlsx'].includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid format. Must be json, csv or xlsx'
+        });
+        return;
+      }
+
+      const report = await this.capitalGainsService.getCapitalGainsReport(
+        user.tenant_id,
+        isLive,
+        parseInt(customerId),
+        financialYear
+      );
+
+      if (!report) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      if (format === 'json') {
+        res.json({
+          success: true,
+          data: report
+        });
+        return;
+      }
+
+      const file = this.capitalGainsService.exportCapitalGainsReport(report, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=${file.filename}`);
+      res.send(file.body);
+    } catch (error: any) {
+      console.error('Error getting capital gains:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get capital gains'
+      });
+    }
+  };
+
   /**
    * GET /api/portfolio/holdings
    * Get portfolio holdings with filters
@@ -255,6 +418,110 @@ export class PortfolioController {
     }
   };
 
+  /**
+   * GET /api/portfolio/tax-harvesting
+   * Get tenant-wide LTCG and loss harvesting candidates
+   */
+  getTaxHarvesting = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const isLive = req.headers['x-environment'] === 'live';
+      const financialYear = (req.query.fy as string) || CapitalGainsUtil.getFinancialYear();
+      const exemptionLimit = req.query.exemption_limit !== undefined
+        ? parseFloat(req.query.exemption_limit as string)
+        : undefined;
+
+      if (!CapitalGainsUtil.parseFinancialYear(financialYear)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid financial year. Use the format YYYY-YY, e.g. 2025-26'
+        });
+        return;
+      }
+
+      if (exemptionLimit !== undefined && (isNaN(exemptionLimit) || exemptionLimit < 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid exemption limit'
+        });
+        return;
+      }
+
+      const report = await this.capitalGainsService.getTaxHarvestingReport(
+        user.tenant_id,
+        isLive,
+        financialYear,
+        exemptionLimit
+      );
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      console.error('Error getting tax harvesting report:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get tax harvesting report'
+      });
+    }
+  };
+
+  /**
+   * GET /api/portfolio/:customerId/unrealised-gains
+   * Get open FIFO lots with unrealised gains and long-term dates
+   */
+  getUnrealisedGains = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { customerId } = req.params;
+      const isLive = req.headers['x-environment'] === 'live';
+
+      if (!customerId || isNaN(parseInt(customerId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const report = await this.capitalGainsService.getUnrealisedGains(
+        user.tenant_id,
+        isLive,
+        parseInt(customerId)
+      );
+
+      if (!report) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      console.error('Error getting unrealised gains:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get unrealised gains'
+      });
+    }
+  };
+
   /**
    * POST /api/portfolio/refresh
    * Manually refresh portfolio totals materialized view
@@ -0,0 +1,474 @@
+// backend/src/controllers/sip.controller.ts
+
+import { Request, Response } from 'express';
+import { SipService } from '../services/sip.service';
+import { CreateSipRequest, SipSearchParams, SipStatus, UpdateSipRequest } from '../types/sip.types';
+import { SIP_FREQUENCIES, SIP_PLAN_TYPES } from '../utils/sip.util';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: number;
+    tenant_id: number;
+  };
+  environment?: 'live' | 'test';
+}
+
+const SIP_STATUSES: SipStatus[] = ['active', 'paused', 'cancelled', 'completed'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class SipController {
+  private sipService: SipService;
+
+  constructor() {
+    this.sipService = new SipService();
+  }
+
+  /**
+   * List SIP / STP / SWP registrations
+   */
+  getRegistrations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+
+      const params: SipSearchParams = {
+        customer_id: req.query.customer_id ? parseInt(req.query.customer_id as string) : undefined,
+        plan_type: req.query.plan_type as any,
+        status: req.query.status as any,
+        scheme_code: req.query.scheme_code as string
+      };
+
+      if (params.customer_id !== undefined && isNaN(params.customer_id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer ID'
+        });
+        return;
+      }
+
+      const registrations = await this.sipService.getRegistrations(user!.tenant_id, isLive, params);
+
+      res.json({
+        success: true,
+        data: registrations
+      });
+    } catch (error: any) {
+      console.error('Error getting SIP registrations:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get SIP registrations'
+      });
+    }
+  };
+
+  /**
+   * Get a single registration
+   */
+  getRegistration = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const sipId = parseInt(req.params.id);
+
+      if (isNaN(sipId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid SIP ID'
+        });
+        return;
+      }
+
+      const registration = await this.sipService.getRegistration(user!.tenant_id, isLive, sipId);
+
+      if (!registration) {
+        res.status(404).json({
+          success: false,
+          error: 'SIP registration not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: registration
+      });
+    } catch (error: any) {
+      console.error('Error getting SIP registration:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get SIP registration'
+      });
+    }
+  };
+
+  /**
+   * Create a registration (manual entry)
+   */
+  createRegistration = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const data = req.body as CreateSipRequest;
+
+      if (!data.customer_id || isNaN(Number(data.customer_id))) {
+        res.status(400).json({
+          success: false,
+          error: 'customer_id is required'
+        });
+        return;
+      }
+
+      const validationError = this.validateRegistration(data, true);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const registration = await this.sipService.createRegistration(user!.tenant_id, isLive, data, user!.user_id);
+
+      if (!registration) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: registration,
+        message: 'SIP registration created successfully'
+      });
+    } catch (error: any) {
+      console.error('Error creating SIP registration:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create SIP registration'
+      });
+    }
+  };
+
+  /**
+   * Update a registration
+   */
+  updateRegistration = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const sipId = parseInt(req.params.id);
+      const data = req.body as UpdateSipRequest;
+
+      if (isNaN(sipId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid SIP ID'
+        });
+        return;
+      }
+
+      const validationError = this.validateRegistration(data, false);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const registration = await this.sipService.updateRegistration(user!.tenant_id, isLive, sipId, data);
+
+      if (!registration) {
+        res.status(404).json({
+          success: false,
+          error: 'SIP registration not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: registration,
+        message: 'SIP registration updated successfully'
+      });
+    } catch (error: any) {
+      console.error('Error updating SIP registration:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update SIP registration'
+      });
+    }
+  };
+
+  /**
+   * Delete a registration (soft delete)
+   */
+  deleteRegistration = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const sipId = parseInt(req.params.id);
+
+      if (isNaN(sipId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid SIP ID'
+        });
+        return;
+      }
+
+      const deleted = await this.sipService.deleteRegistration(user!.tenant_id, isLive, sipId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'SIP registration not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'SIP registration deleted successfully'
+      });
+    } catch (error: any) {
+      console.error('Error deleting SIP registration:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to delete SIP registration'
+      });
+    }
+  };
+
+  /**
+   * Reconciled instalments for a registration
+   */
+  getInstalments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const sipId = parseInt(req.params.id);
+
+      if (isNaN(sipId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid SIP ID'
+        });
+        return;
+      }
+
+      const instalments = await this.sipService.getInstalments(user!.tenant_id, isLive, sipId);
+
+      if (!instalments) {
+        res.status(404).json({
+          success: false,
+          error: 'SIP registration not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: instalments
+      });
+    } catch (error: any) {
+      console.error('Error getting SIP instalments:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get SIP instalments'
+      });
+    }
+  };
+
+  /**
+   * Registrations ending within the next N days (dashboard list)
+   */
+  getEndingSoon = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const days = req.query.days ? parseInt(req.query.days as string) : 60;
+
+      if (isNaN(days) || days < 1 || days > 365) {
+        res.status(400).json({
+          success: false,
+          error: 'days must be between 1 and 365'
+        });
+        return;
+      }
+
+      const registrations = await this.sipService.getEndingSoon(user!.tenant_id, isLive, days);
+
+      res.json({
+        success: true,
+        data: registrations
+      });
+    } catch (error: any) {
+      console.error('Error getting SIPs ending soon:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get SIPs ending soon'
+      });
+    }
+  };
+
+  /**
+   * Missed and bounced instalments
+   */
+  getExceptions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = req.query.customer_id ? parseInt(req.query.customer_id as string) : undefined;
+      const days = req.query.days ? parseInt(req.query.days as string) : 90;
+
+      if ((customerId !== undefined && isNaN(customerId)) || isNaN(days) || days < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid customer_id or days'
+        });
+        return;
+      }
+
+      const exceptions = await this.sipService.getExceptions(user!.tenant_id, isLive, {
+        customer_id: customerId,
+        days
+      });
+
+      res.json({
+        success: true,
+        data: exceptions
+      });
+    } catch (error: any) {
+      console.error('Error getting SIP exceptions:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to get SIP exceptions'
+      });
+    }
+  };
+
+  /**
+   * Run reconciliation now (optionally for one customer or registration)
+   */
+  reconcile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const customerId = req.body?.customer_id ? parseInt(req.body.customer_id) : undefined;
+      const sipId = req.body?.sip_id ? parseInt(req.body.sip_id) : undefined;
+
+      const summary = await this.sipService.reconcile(user!.tenant_id, isLive, {
+        customer_id: customerId,
+        sip_id: sipId
+      });
+
+      res.json({
+        success: true,
+        data: summary,
+        message: 'SIP reconciliation completed'
+      });
+    } catch (error: any) {
+      console.error('Error reconciling SIPs:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to reconcile SIPs'
+      });
+    }
+  };
+
+  /**
+   * Create registrations from an import session's transactions
+   */
+  importFromSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { user, environment } = req;
+      const isLive = environment === 'live';
+      const sessionId = parseInt(req.params.sessionId);
+
+      if (isNaN(sessionId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid session ID'
+        });
+        return;
+      }
+
+      const result = await this.sipService.importFromSession(user!.tenant_id, isLive, sessionId, user!.user_id);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.created} SIP registrations created, ${result.skipped} already existed`
+      });
+    } catch (error: any) {
+      console.error('Error importing SIP registrations:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to import SIP registrations'
+      });
+    }
+  };
+
+  /**
+   * Validate registration fields; required fields only enforced on create
+   */
+  private validateRegistration(data: UpdateSipRequest, isCreate: boolean): string | null {
+    if (!data || typeof data !== 'object') {
+      return 'Request body is required';
+    }
+
+    if (isCreate && !data.scheme_code) {
+      return 'scheme_code is required';
+    }
+
+    if (isCreate || data.amount !== undefined) {
+      const amount = Number(data.amount);
+      if (isNaN(amount) || amount <= 0) {
+        return 'amount must be greater than 0';
+      }
+    }
+
+    if (isCreate && !data.start_date) {
+      return 'start_date is required';
+    }
+
+    for (const field of ['start_date', 'end_date', 'registration_date'] as const) {
+      if (data[field] && !DATE_PATTERN.test(data[field]!)) {
+        return `${field} must be in YYYY-MM-DD format`;
+      }
+    }
+
+    if (data.start_date && data.end_date && data.end_date < data.start_date) {
+      return 'end_date must be on or after start_date';
+    }
+
+    if (data.plan_type && !SIP_PLAN_TYPES.includes(data.plan_type)) {
+      return `Invalid plan_type. Must be one of: ${SIP_PLAN_TYPES.join(', ')}`;
+    }
+
+    if (data.plan_type === 'STP' && isCreate && !data.target_scheme_code) {
+      return 'target_scheme_code is required for STP';
+    }
+
+    if (data.frequency && !SIP_FREQUENCIES.includes(data.frequency)) {
+      return `Invalid frequency. Must be one of: ${SIP_FREQUENCIES.join(', ')}`;
+    }
+
+    if (data.instalment_day !== undefined && data.instalment_day !== null) {
+      const day = Number(data.instalment_day);
+      if (!Number.isInteger(day) || day < 1 || day > 31) {
+        return 'instalment_day must be between 1 and 31';
+      }
+    }
+
+    if (data.status && !SIP_STATUSES.includes(data.status)) {
+      return `Invalid status. Must be one of: ${SIP_STATUSES.join(', ')}`;
+    }
+
+    return null;
+  }
+}
@@ -13,6 +13,8 @@ router.use(environmentMiddleware);
 // Core contact routes that work
 router.get('/', contactController.getContacts);
 router.get('/stats', contactController.getContactStats);
+router.get('/export', contactController.exportContacts);
+router.post('/bulk', contactController.bulkAction);
 router.post('/', contactController.createContact);
 router.get('/:id', contactController.getContact);
 router.put('/:id', contactController.updateContact);
@@ -24,8 +26,6 @@ router.post('/:id/convert-to-customer', contactController.convertToCustomer);
 // Placeholder routes that return "not implemented" messages
 router.get('/search/:query', contactController.searchContacts);
 router.get('/check-exists', contactController.checkContactExists);
-router.get('/export', contactController.exportContacts);
-router.post('/bulk', contactController.bulkAction);
 
 // Channel routes (returning not implemented for now)
 router.post('/:id/channels', contactController.addChannel);
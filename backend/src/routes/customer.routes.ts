@@ -2,11 +2,17 @@
 
 import { Router } from 'express';
 import { CustomerController } from '../controllers/customer.controller';
+import { JtbdController } from '../controllers/jtbd.controller';
+import { GoalController } from '../controllers/goal.controller';
+import { EncryptionController } from '../controllers/encryption.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { environmentMiddleware } from '../middleware/environment.middleware';
 
 const router = Router();
 const customerController = new CustomerController();
+const jtbdController = new JtbdController();
+const goalController = new GoalController();
+const encryptionController = new EncryptionController();
 
 // Apply middleware
 router.use(authMiddleware);
@@ -15,6 +21,12 @@ router.use(environmentMiddleware);
 // Customer routes
 router.get('/', customerController.getCustomers);
 router.get('/stats', customerController.getCustomerStats);
+
+// Encryption key rotation (PAN/IWELL re-encryption)
+router.get('/encryption/status', encryptionController.getStatus);
+router.post('/encryption/reencrypt', encryptionController.startReEncryption);
+router.post('/encryption/reencrypt/cancel', encryptionController.cancelReEncryption);
+
 router.post('/', customerController.createCustomer);
 router.get('/:id', customerController.getCustomer);
 router.put('/:id', customerController.updateCustomer);
@@ -25,4 +37,19 @@ router.post('/:id/addresses', customerController.addAddress);
 router.put('/:id/addresses/:addressId', customerController.updateAddress);
 router.delete('/:id/addresses/:addressId', customerController.deleteAddress);
 
+// Action (JTBD) routes
+router.get('/:id/actions', jtbdController.getActions);
+router.post('/:id/actions/evaluate', jtbdController.evaluateActions);
+router.post('/:id/actions/:actionId/dismiss', jtbdController.dismissAction);
+router.post('/:id/actions/:actionId/snooze', jtbdController.snoozeAction);
+router.post('/:id/actions/:actionId/complete', jtbdController.completeAction);
+
+// Goal routes
+router.get('/:id/goals', goalController.getGoals);
+router.post('/:id/goals', goalController.createGoal);
+router.get('/:id/goals/:goalId', goalController.getGoal);
+router.put('/:id/goals/:goalId', goalController.updateGoal);
+router.delete('/:id/goals/:goalId', goalController.deleteGoal);
+router.get('/:id/goals/:goalId/projection', goalController.getGoalProjection);
+
 export default router;
\ No newline at end of file
@@ -150,9 +150,16 @@ router.get('/headers/:fileId', authenticate, importController.getHeaders);
 // Validate field mappings
 router.post('/validate-mapping', authenticate, importController.validateMapping);
 
-// Start processing (staging + database processing)
+// Start processing (staging + database processing); ?mode=dry_run stages and returns a preview only
 router.post('/process', authenticate, importController.startProcessing);
 
+// Process a staged session after reviewing its dry run
+router.post('/sessions/:sessionId/process', authenticate, importController.processStagedSession);
+
+// Roll back a session: GET shows the impact, POST applies it
+router.get('/sessions/:sessionId/rollback', authenticate, importController.getRollbackImpact);
+router.post('/sessions/:sessionId/rollback', authenticate, importController.rollbackSession);
+
 // Get processing status
 router.get('/status/:sessionId', authenticate, importController.getProcessingStatus);
 
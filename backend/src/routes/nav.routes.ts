@@ -194,6 +194,25 @@ router.get('/data', navController.getNavData);
  */
 router.get('/schemes/:id/latest', navController.getLatestNav);
 
+/**
+ * Return and risk analytics for a scheme from its stored NAV history
+ * GET /api/nav/schemes/:id/analytics?risk_free_rate=6.5
+ *
+ * Trailing 1M-5Y returns (CAGR from 1Y), rolling 1Y/3Y return distributions,
+ * annualised volatility, max drawdown with dates and Sharpe ratios.
+ * Cached per scheme until a new NAV date arrives; risk_free_rate defaults to RISK_FREE_RATE.
+ */
+router.get('/schemes/:id/analytics', navController.getSchemeAnalytics);
+
+/**
+ * Compare 2-6 schemes, optionally against a benchmark index stored as a pseudo-scheme
+ * GET /api/nav/compare?scheme_ids=1,2,3&benchmark_id=9&start_date=2020-01-01&end_date=2024-12-31&rolling_period=1Y
+ *
+ * NAV rebased to 100 on the common start date, calendar-year returns and
+ * rolling-return statistics over the windows all schemes share
+ */
+router.get('/compare', navController.compareSchemes);
+
 // ==================== DOWNLOAD OPERATION ROUTES ====================
 
 /**
@@ -221,6 +240,22 @@ router.post('/download/daily', downloadRateLimit, navController.triggerDailyDown
  */
 router.post('/download/historical', historicalDownloadRateLimit, navController.triggerHistoricalDownload);
 
+/**
+ * Backfill missing NAV dates for bookmarked schemes
+ * POST /api/nav/download/backfill
+ * Body: {
+ *   scheme_ids?: [123, 456], // default: all bookmarks
+ *   lookback_days?: 30 // how far back to look for gaps, default 30
+ * }
+ * 
+ * Detects missing business-day ranges (holes in the stored series and the tail after
+ * the latest NAV) and fetches only those ranges from the tenant's history providers
+ * (MFAPI.in by default, see /providers) as a 'backfill' job
+ * Also queued automatically after every scheduled run
+ * Returns job_id 0 when nothing is missing
+ */
+router.post('/download/backfill', downloadRateLimit, navController.triggerBackfillDownload);
+
 /**
  * Get download progress for UI engagement
  * GET /api/nav/download/progress/:jobId
@@ -288,6 +323,87 @@ router.get('/statistics', navController.getNavStatistics);
  */
 router.get('/check-today', navController.checkTodayNavData);
 
+/**
+ * NAV data-quality report for the user's bookmarked schemes
+ * GET /api/nav/quality?lookback_days=90&spike_threshold=10&stale_days=3&exchange=NSE
+ * 
+ * - gaps: business days (weekdays not in t_market_holidays) with no NAV
+ * - spikes: day-over-day moves beyond spike_threshold percent
+ * - stale: latest NAV older than stale_days calendar days
+ * 
+ * Returns: {
+ *   summary: { schemes_checked: 25, schemes_with_gaps: 2, schemes_with_spikes: 1, stale_schemes: 3 },
+ *   schemes: [{ scheme_id: 1, missing_dates: ["2024-09-20"], spikes: [...], is_stale: false, issues: ["gap"] }]
+ * }
+ */
+router.get('/quality', navController.getNavQuality);
+
+// ==================== NAV DATA PROVIDER ROUTES ====================
+
+/**
+ * Get the tenant's NAV data providers
+ * GET /api/nav/providers
+ * 
+ * Returns: {
+ *   settings: { providers: ["amfi", "mfapi", "local"], local_directory: null, updated_at: null },
+ *   available_providers: [{ name: "local", capabilities: ["daily", "history"], ... }],
+ *   local_base_directory: "UserFiles/nav"
+ * }
+ */
+router.get('/providers', navController.getProviderSettings);
+
+/**
+ * Set the NAV data providers for the tenant (per environment)
+ * PUT /api/nav/providers
+ * Body: {
+ *   providers: ["local", "amfi"], // fallback order; providers without the needed capability are skipped
+ *   local_directory?: "tenant_12" // subdirectory of NAV_LOCAL_DIR (default UserFiles/nav)
+ * }
+ * 
+ * amfi: daily NAVAll.txt, mfapi: per-scheme history, local: AMFI-format .txt or .csv files (both)
+ */
+router.put('/providers', schedulerConfigRateLimit, navController.updateProviderSettings);
+
+// ==================== SCHEME MASTER SYNC ROUTES ====================
+
+/**
+ * Scheme master sync mode for the tenant
+ * GET /api/nav/scheme-sync/settings
+ * PUT /api/nav/scheme-sync/settings
+ * Body: {
+ *   mode: "off" | "review" | "auto", // review = daily ingest creates a change report to approve
+ *   detect_closures?: true // mark schemes missing from the AMFI file as closed
+ * }
+ */
+router.get('/scheme-sync/settings', navController.getSchemeSyncSettings);
+router.put('/scheme-sync/settings', schedulerConfigRateLimit, navController.updateSchemeSyncSettings);
+
+/**
+ * Download the daily NAV file now and build a scheme master change report
+ * POST /api/nav/scheme-sync/run
+ * Body: { auto_apply?: false, detect_closures?: true }
+ * 
+ * Returns the run: { id, status: "pending_approval" | "applied" | "no_changes", summary: { added: 12, renamed: 3, closed: 1 } }
+ */
+router.post('/scheme-sync/run', downloadRateLimit, navController.triggerSchemeSync);
+
+/**
+ * Scheme sync change reports
+ * GET /api/nav/scheme-sync/runs?status=pending_approval&page=1&page_size=20
+ * GET /api/nav/scheme-sync/runs/:id?change_type=renamed&status=pending&page=1&page_size=100
+ */
+router.get('/scheme-sync/runs', navController.getSchemeSyncRuns);
+router.get('/scheme-sync/runs/:id', navController.getSchemeSyncRun);
+
+/**
+ * Approve (apply) or reject a pending change report
+ * POST /api/nav/scheme-sync/runs/:id/approve
+ * Body: { change_ids?: [1, 2] } // only these changes; the rest are rejected
+ * POST /api/nav/scheme-sync/runs/:id/reject
+ */
+router.post('/scheme-sync/runs/:id/approve', schedulerConfigRateLimit, navController.approveSchemeSyncRun);
+router.post('/scheme-sync/runs/:id/reject', schedulerConfigRateLimit, navController.rejectSchemeSyncRun);
+
 // ==================== SCHEDULER MANAGEMENT ROUTES ====================
 
 /**
@@ -310,7 +426,9 @@ router.get('/scheduler/config', navController.getSchedulerConfig);
  *   schedule_type: 'daily' | 'weekly' | 'custom',
  *   download_time: 'HH:MM', // e.g., "23:00"
  *   cron_expression?: string, // optional, auto-generated if not provided
- *   is_enabled: boolean
+ *   is_enabled: boolean,
+ *   misfire_policy?: 'skip' | 'run_once' | 'run_all', // catch-up after downtime, default run_once
+ *   execution_mode?: 'n8n' | 'native' // native runs the AMFI download in-process, default n8n
  * }
  * 
  * Creates new scheduler config or updates existing one
@@ -319,6 +437,24 @@ router.get('/scheduler/config', navController.getSchedulerConfig);
  */
 router.post('/scheduler/config', schedulerConfigRateLimit, navController.saveSchedulerConfig);
 
+/**
+ * Preview the next fire times for a proposed schedule (nothing is saved)
+ * POST /api/nav/scheduler/preview
+ * Body: {
+ *   cron_expression?: string, // 5-field cron: ranges, steps, lists, MON-FRI / JAN names
+ *   schedule_type?: 'daily' | 'weekly' | 'custom', // used with download_time when no cron given
+ *   download_time?: 'HH:MM',
+ *   count?: number // 1-50, default 5
+ * }
+ * 
+ * Returns: {
+ *   cron_expression: "0 23 * * MON-FRI",
+ *   timezone: "Asia/Kolkata",
+ *   next_runs: [{ at: "2024-09-26T17:30:00.000Z", local: "2024-09-26T23:00:00+05:30" }]
+ * }
+ */
+router.post('/scheduler/preview', navController.previewSchedule);
+
 /**
  * Update existing scheduler configuration
  * PUT /api/nav/scheduler/config/:id
@@ -326,7 +462,9 @@ router.post('/scheduler/config', schedulerConfigRateLimit, navController.saveSch
  *   schedule_type?: 'daily' | 'weekly' | 'custom',
  *   download_time?: 'HH:MM',
  *   cron_expression?: string,
- *   is_enabled?: boolean
+ *   is_enabled?: boolean,
+ *   misfire_policy?: 'skip' | 'run_once' | 'run_all',
+ *   execution_mode?: 'n8n' | 'native'
  * }
  * 
  * Updates specific fields of existing scheduler configuration
@@ -369,12 +507,14 @@ router.get('/scheduler/status', navController.getSchedulerStatus);
  * Manually trigger scheduled download (bypass cron schedule)
  * POST /api/nav/scheduler/trigger
  * 
- * Immediately triggers a download via N8N workflow
+ * Immediately triggers a download via N8N workflow, or runs the native
+ * pipeline to completion when the config's execution_mode is 'native'
  * Does not affect the regular schedule - this is a one-time manual trigger
  * Useful for testing or immediate downloads
  * 
  * Returns: {
- *   execution_id: "n8n_abc123",
+ *   execution_id: "n8n_abc123", // "native_<job_id>" for native runs
+ *   job_id?: 42, // native runs only
  *   message: "Download triggered successfully via N8N"
  * }
  */
@@ -386,16 +526,22 @@ router.post('/scheduler/trigger', manualTriggerRateLimit, navController.triggerS
  * 
  * Returns system-wide view of all active schedulers
  * Useful for admin monitoring and system health checks
+ * Ownership comes from t_job_leases, so every replica reports the same view
  * 
  * Returns: {
+ *   node_id: "api-1:4211:a1b2c3", // node that served this request
  *   active_schedulers: [
  *     {
  *       jobKey: "nav_scheduler_1_live_123",
  *       config: { ... },
- *       isActive: true
+ *       isActive: true,
+ *       heldBy: "api-2:3120:d4e5f6",
+ *       isLocal: false,
+ *       leaseHeartbeatAt: "...", leaseExpiresAt: "..."
  *     }
  *   ],
- *   total_active: 15
+ *   total_active: 15,
+ *   download_locks: [{ jobId: 42, lockType: "daily", heldBy: "api-1:4211:a1b2c3", ... }]
  * }
  */
 router.get('/scheduler/all-active', navController.getAllActiveSchedulers);
@@ -620,19 +766,46 @@ router.get('/docs', (req, res) => {
       },
       nav_data: {
         list: { method: 'GET', path: '/data' },
-        latest: { method: 'GET', path: '/schemes/:id/latest' }
+        latest: { method: 'GET', path: '/schemes/:id/latest' },
+        analytics: {
+          method: 'GET',
+          path: '/schemes/:id/analytics',
+          description: 'Trailing/rolling returns, volatility, max drawdown and Sharpe for a scheme',
+          parameters: ['risk_free_rate']
+        },
+        compare: {
+          method: 'GET',
+          path: '/compare',
+          description: 'Rebased NAV, calendar-year and rolling returns of 2-6 schemes plus an optional benchmark',
+          parameters: ['scheme_ids', 'benchmark_id', 'start_date', 'end_date', 'rolling_period']
+        }
       },
       downloads: {
         daily: { method: 'POST', path: '/download/daily', rate_limit: '10/hour' },
         historical: { method: 'POST', path: '/download/historical', rate_limit: '3/day' },
+        backfill: { method: 'POST', path: '/download/backfill', rate_limit: '10/hour' },
         progress: { method: 'GET', path: '/download/progress/:jobId' },
         jobs: { method: 'GET', path: '/download/jobs' },
         cancel: { method: 'DELETE', path: '/download/jobs/:jobId' },
         active: { method: 'GET', path: '/download/active' }
       },
+      providers: {
+        get_settings: { method: 'GET', path: '/providers' },
+        update_settings: { method: 'PUT', path: '/providers', rate_limit: '20/hour' }
+      },
+      scheme_sync: {
+        get_settings: { method: 'GET', path: '/scheme-sync/settings' },
+        update_settings: { method: 'PUT', path: '/scheme-sync/settings', rate_limit: '20/hour' },
+        run: { method: 'POST', path: '/scheme-sync/run', rate_limit: '10/hour' },
+        runs: { method: 'GET', path: '/scheme-sync/runs' },
+        run_detail: { method: 'GET', path: '/scheme-sync/runs/:id' },
+        approve: { method: 'POST', path: '/scheme-sync/runs/:id/approve', rate_limit: '20/hour' },
+        reject: { method: 'POST', path: '/scheme-sync/runs/:id/reject', rate_limit: '20/hour' }
+      },
       scheduler: {
         get_config: { method: 'GET', path: '/scheduler/config' },
         save_config: { method: 'POST', path: '/scheduler/config', rate_limit: '20/hour' },
+        preview: { method: 'POST', path: '/scheduler/preview' },
         update_config: { method: 'PUT', path: '/scheduler/config/:id', rate_limit: '20/hour' },
         delete_config: { method: 'DELETE', path: '/scheduler/config', rate_limit: '20/hour' },
         get_status: { method: 'GET', path: '/scheduler/status' },
@@ -641,7 +814,8 @@ router.get('/docs', (req, res) => {
       },
       statistics: {
         dashboard: { method: 'GET', path: '/statistics' },
-        check_today: { method: 'GET', path: '/check-today' }
+        check_today: { method: 'GET', path: '/check-today' },
+        quality: { method: 'GET', path: '/quality' }
       },
       system: {
         health: { method: 'GET', path: '/health' },
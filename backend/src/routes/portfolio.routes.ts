@@ -2,10 +2,12 @@
 
 import express from 'express';
 import { PortfolioController } from '../controllers/portfolio.controller';
+import { AllocationController } from '../controllers/allocation.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
 const router = express.Router();
 const portfolioController = new PortfolioController();
+const allocationController = new AllocationController();
 
 // All routes require authentication
 router.use(authenticate);
@@ -33,6 +35,35 @@ router.get('/holdings', portfolioController.getPortfolioHoldings);
  */
 router.get('/statistics', portfolioController.getPortfolioStatistics);
 
+/**
+ * GET /api/portfolio/tax-harvesting
+ * Get tax harvesting candidates across all customers
+ * Must be before /:customerId route to avoid conflict
+ * Query params:
+ *   - fy: Financial year for realised gains, e.g. 2025-26 (default: current financial year)
+ *   - exemption_limit: Override the annual equity LTCG exemption limit
+ * Returns: {
+ *   ltcg_candidates: [{ customer_id, remaining_exemption, harvestable_gain, redemptions }],
+ *   loss_candidates: [{ customer_id, realised_short_term_gain, realised_long_term_gain, unrealised_loss, lots }]
+ * }
+ */
+router.get('/tax-harvesting', portfolioController.getTaxHarvesting);
+
+/**
+ * Allocation model portfolios (tenant level)
+ * Must be before /:customerId route to avoid conflict
+ * Body for POST/PUT: {
+ *   name: string,
+ *   description?: string,
+ *   targets: { equity: { target, band }, debt: {...}, hybrid: {...}, other: {...} },
+ *   preferred_schemes?: { equity?: scheme_code, debt?: scheme_code, ... }
+ * }
+ */
+router.get('/allocation-models', allocationController.getModels);
+router.post('/allocation-models', allocationController.createModel);
+router.put('/allocation-models/:modelId', allocationController.updateModel);
+router.delete('/allocation-models/:modelId', allocationController.deleteModel);
+
 /**
  * POST /api/portfolio/refresh
  * Manually refresh portfolio totals materialized view
@@ -48,6 +79,8 @@ router.post('/refresh', portfolioController.refreshPortfolioTotals);
 /**
  * GET /api/portfolio/:customerId
  * Get customer's complete portfolio
+ * Query params:
+ *   - include_performance: 'true' adds the 12-month sparkline series (performance)
  * Returns: {
  *   customer_id: number,
  *   customer_name: string,
@@ -65,6 +98,68 @@ router.get('/:customerId', portfolioController.getCustomerPortfolio);
  */
 router.get('/:customerId/totals', portfolioController.getPortfolioTotals);
 
+/**
+ * GET /api/portfolio/:customerId/performance
+ * Get historical valuation series rebuilt from transactions and NAV history
+ * Query params:
+ *   - from: Start date (YYYY-MM-DD, default: first transaction date)
+ *   - to: End date (YYYY-MM-DD, default: today)
+ *   - interval: daily | weekly | monthly (default: monthly)
+ * Returns: {
+ *   series: [{ date, invested, current_value, returns, return_percentage }],
+ *   schemes: [{ scheme_code, scheme_name, points: [...] }]
+ * }
+ */
+router.get('/:customerId/performance', portfolioController.getPortfolioPerformance);
+
+/**
+ * GET /api/portfolio/:customerId/capital-gains
+ * Get realised capital gains (FIFO lot matching) for a financial year
+ * Query params:
+ *   - fy: Financial year, e.g. 2025-26 (default: current financial year)
+ *   - format: json | csv | xlsx (default: json)
+ * Returns: {
+ *   summary: { short_term_gain, long_term_gain, total_gain, by_asset_class },
+ *   entries: [{ purchase_date, sale_date, units, cost_of_acquisition, sale_value, gain, term, ... }],
+ *   warnings: [...]
+ * }
+ */
+router.get('/:customerId/capital-gains', portfolioController.getCapitalGains);
+
+/**
+ * GET /api/portfolio/:customerId/unrealised-gains
+ * Get open FIFO lots valued at the latest NAV
+ * Returns: {
+ *   summary: { cost_value, current_value, unrealised_gain, short_term_gain, long_term_gain },
+ *   holdings: [{ scheme_code, folio_no, next_long_term_date, lots: [{ purchase_date, remaining_units, cost_value, current_value, long_term_date, ... }] }]
+ * }
+ */
+router.get('/:customerId/unrealised-gains', portfolioController.getUnrealisedGains);
+
+/**
+ * GET /api/portfolio/:customerId/allocation-model
+ * PUT /api/portfolio/:customerId/allocation-model
+ * Get or set the customer's target allocation
+ * Body for PUT: { model_id: number } to assign a tenant model,
+ *   or { model: {...} } to save a customer-specific model
+ */
+router.get('/:customerId/allocation-model', allocationController.getCustomerModel);
+router.put('/:customerId/allocation-model', allocationController.assignCustomerModel);
+
+/**
+ * GET /api/portfolio/:customerId/rebalance
+ * Compare actual vs target allocation and propose switches
+ * Query params:
+ *   - model_id: Use a specific model instead of the customer's model
+ *   - format: json | csv | xlsx (default: json)
+ * Returns: {
+ *   allocation: [{ asset_class, current_percentage, target_percentage, band, drift, out_of_band }],
+ *   trades: [{ from_scheme_code, to_scheme_code, units, amount, short_term_gain, exit_load, ... }],
+ *   summary: { total_trade_amount, realised_short_term_gain, realised_long_term_gain, estimated_exit_load }
+ * }
+ */
+router.get('/:customerId/rebalance', allocationController.getRebalanceProposal);
+
 /**
  * GET /api/portfolio/:customerId/scheme/:schemeCode
  * Get scheme portfolio details with transactions
@@ -0,0 +1,29 @@
+// backend/src/routes/sip.routes.ts
+
+import { Router } from 'express';
+import { SipController } from '../controllers/sip.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { environmentMiddleware } from '../middleware/environment.middleware';
+
+const router = Router();
+const sipController = new SipController();
+
+// Apply middleware
+router.use(authMiddleware);
+router.use(environmentMiddleware);
+
+// Dashboard and reconciliation routes
+router.get('/ending-soon', sipController.getEndingSoon);
+router.get('/exceptions', sipController.getExceptions);
+router.post('/reconcile', sipController.reconcile);
+router.post('/import/:sessionId', sipController.importFromSession);
+
+// Registration routes
+router.get('/', sipController.getRegistrations);
+router.post('/', sipController.createRegistration);
+router.get('/:id', sipController.getRegistration);
+router.put('/:id', sipController.updateRegistration);
+router.delete('/:id', sipController.deleteRegistration);
+router.get('/:id/instalments', sipController.getInstalments);
+
+export default router;
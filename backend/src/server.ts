@@ -16,6 +16,7 @@ import schemeRoutes from './routes/scheme.routes';
 import navRoutes from './routes/nav.routes';
 import transactionRoutes from './routes/transaction.routes';
 import portfolioRoutes from './routes/portfolio.routes';
+import sipRoutes from './routes/sip.routes';
 
 // Import database connection
 import { testConnection } from './config/database';
@@ -23,6 +24,10 @@ import { testConnection } from './config/database';
 // Import logs controller and simple logger
 import { LogsController } from './controllers/logs.controller';
 import { SimpleLogger } from './services/simpleLogger.service';
+import { SipService } from './services/sip.service';
+import { CustomerLookupService } from './services/customerLookup.service';
+import { ReEncryptionService } from './services/reEncryption.service';
+import { EncryptionUtil } from './utils/encryption.util';
 
 // CHANGED: Remove problematic import, use dynamic import instead
 // OLD: import { NavSchedulerService } from './services/navScheduler.service';
@@ -36,6 +41,7 @@ const PORT = process.env.PORT || 8080;
 
 // CHANGED: Declare without import
 let navScheduler: any;
+const sipService = new SipService();
 
 // Initialize controllers
 const logsController = new LogsController();
@@ -89,6 +95,7 @@ app.get('/health', (_req: Request, res: Response) => {
       schemes: true,
       transactions: true,
       portfolio: true,
+      sips: true,
       import: true,
       staging: true,
       logs: true,
@@ -137,6 +144,7 @@ app.use('/api/customers', customerRoutes);
 app.use('/api/schemes', schemeRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/sips', sipRoutes);
 app.use('/api/import', importRoutes);
 app.use('/api/nav', navRoutes);
 
@@ -183,12 +191,26 @@ app.use((_req: Request, res: Response) => {
       'GET /api/customers',
       'POST /api/customers',
       'GET /api/customers/stats',
+      'GET /api/customers/encryption/status',
+      'POST /api/customers/encryption/reencrypt',
+      'POST /api/customers/encryption/reencrypt/cancel',
       'GET /api/customers/:id',
       'PUT /api/customers/:id',
       'DELETE /api/customers/:id',
       'POST /api/customers/:id/addresses',
       'PUT /api/customers/:id/addresses/:addressId',
       'DELETE /api/customers/:id/addresses/:addressId',
+      'GET /api/customers/:id/actions',
+      'POST /api/customers/:id/actions/evaluate',
+      'POST /api/customers/:id/actions/:actionId/dismiss',
+      'POST /api/customers/:id/actions/:actionId/snooze',
+      'POST /api/customers/:id/actions/:actionId/complete',
+      'GET /api/customers/:id/goals',
+      'POST /api/customers/:id/goals',
+      'GET /api/customers/:id/goals/:goalId',
+      'PUT /api/customers/:id/goals/:goalId',
+      'DELETE /api/customers/:id/goals/:goalId',
+      'GET /api/customers/:id/goals/:goalId/projection',
       
       // Scheme endpoints
       'GET /api/schemes',
@@ -212,11 +234,34 @@ app.use((_req: Request, res: Response) => {
       // Portfolio endpoints
       'GET /api/portfolio/holdings',
       'GET /api/portfolio/statistics',
+      'GET /api/portfolio/tax-harvesting',
+      'GET /api/portfolio/allocation-models',
+      'POST /api/portfolio/allocation-models',
+      'PUT /api/portfolio/allocation-models/:modelId',
+      'DELETE /api/portfolio/allocation-models/:modelId',
       'POST /api/portfolio/refresh',
       'GET /api/portfolio/:customerId',
       'GET /api/portfolio/:customerId/totals',
+      'GET /api/portfolio/:customerId/performance',
+      'GET /api/portfolio/:customerId/capital-gains',
+      'GET /api/portfolio/:customerId/unrealised-gains',
+      'GET /api/portfolio/:customerId/allocation-model',
+      'PUT /api/portfolio/:customerId/allocation-model',
+      'GET /api/portfolio/:customerId/rebalance',
       'GET /api/portfolio/:customerId/scheme/:schemeCode',
       
+      // SIP endpoints
+      'GET /api/sips',
+      'POST /api/sips',
+      'GET /api/sips/ending-soon',
+      'GET /api/sips/exceptions',
+      'POST /api/sips/reconcile',
+      'POST /api/sips/import/:sessionId',
+      'GET /api/sips/:id',
+      'PUT /api/sips/:id',
+      'DELETE /api/sips/:id',
+      'GET /api/sips/:id/instalments',
+      
       // Import endpoints
       'POST /api/import/upload',
       'GET /api/import/headers/:fileId',
@@ -254,20 +299,34 @@ app.use((_req: Request, res: Response) => {
       
       'GET /api/nav/data',
       'GET /api/nav/schemes/:id/latest',
+      'GET /api/nav/schemes/:id/analytics',
+      'GET /api/nav/compare',
       'POST /api/nav/download/daily',
       'POST /api/nav/download/historical',
+      'POST /api/nav/download/backfill',
       'GET /api/nav/download/progress/:jobId',
       'GET /api/nav/download/jobs',
       'DELETE /api/nav/download/jobs/:jobId',
       'GET /api/nav/download/active',
       'GET /api/nav/statistics',
       'GET /api/nav/check-today',
+      'GET /api/nav/quality',
+      'GET /api/nav/providers',
+      'PUT /api/nav/providers',
+      'GET /api/nav/scheme-sync/settings',
+      'PUT /api/nav/scheme-sync/settings',
+      'POST /api/nav/scheme-sync/run',
+      'GET /api/nav/scheme-sync/runs',
+      'GET /api/nav/scheme-sync/runs/:id',
+      'POST /api/nav/scheme-sync/runs/:id/approve',
+      'POST /api/nav/scheme-sync/runs/:id/reject',
       'GET /api/nav/health',
       'POST /api/nav/n8n-callback',
       
       // NAV Scheduler endpoints
       'GET /api/nav/scheduler/config',
       'POST /api/nav/scheduler/config',
+      'POST /api/nav/scheduler/preview',
       'PUT /api/nav/scheduler/config/:id',
       'DELETE /api/nav/scheduler/config',
       'GET /api/nav/scheduler/status',
@@ -347,6 +406,7 @@ process.on('SIGTERM', async () => {
       await navScheduler.shutdownSchedulers();
       console.log('NAV Scheduler shut down successfully');
     }
+    sipService.shutdownScheduler();
   } catch (error) {
     console.error('Error shutting down NAV scheduler:', error);
   } finally {
@@ -361,6 +421,7 @@ process.on('SIGINT', async () => {
       await navScheduler.shutdownSchedulers();
       console.log('NAV Scheduler shut down successfully');
     }
+    sipService.shutdownScheduler();
   } catch (error) {
     console.error('Error shutting down NAV scheduler:', error);
   } finally {
@@ -494,11 +555,21 @@ app.listen(PORT, async () => {
     console.log('✅ Scheme management endpoints ready');
     console.log('✅ Transaction management endpoints ready');
     console.log('✅ Portfolio tracking endpoints ready');
+    console.log('✅ SIP registration endpoints ready');
     console.log('✅ NAV tracking endpoints ready');
     console.log('✅ Enhanced bookmark endpoints ready'); // NEW
     console.log('✅ Import & ETL endpoints ready (using express-fileupload)');
     console.log('✅ Staging table system ready');
     console.log('✅ System logs endpoints ready');
+
+    // Refuse to run with keys that cannot read or index the stored customer data
+    try {
+      EncryptionUtil.checkConfig();
+      await new ReEncryptionService().checkLegacyKey();
+    } catch (keyError: any) {
+      console.error('❌ Encryption configuration invalid:', keyError.message);
+      process.exit(1);
+    }
     
     // CHANGED: Dynamic import and initialization of NAV Scheduler Service
     try {
@@ -516,6 +587,27 @@ app.listen(PORT, async () => {
       // Don't fail server startup if scheduler fails - just log the error
     }
     
+    sipService.startScheduler();
+    console.log('✅ SIP reconciliation job scheduled (daily)');
+
+    // Index customers whose PAN/IWELL blind indexes are missing (new column or SQL imports)
+    new CustomerLookupService().backfillBlindIndexes()
+      .then(count => {
+        if (count > 0) {
+          console.log(`✅ Blind indexes backfilled for ${count} customers`);
+        }
+      })
+      .catch(error => console.error('⚠️  Customer blind index backfill failed:', error.message));
+
+    // Pick up re-encryption jobs interrupted by a restart; they continue from their last batch
+    new ReEncryptionService().resumeInterruptedJobs()
+      .then(count => {
+        if (count > 0) {
+          console.log(`✅ Resumed ${count} re-encryption job(s)`);
+        }
+      })
+      .catch(error => console.error('⚠️  Re-encryption resume failed:', error.message));
+    
     // Check N8N configuration
     if (process.env.N8N_BASE_URL || process.env.N8N_WEBHOOK_URL) {
       console.log('✅ N8N integration configured');
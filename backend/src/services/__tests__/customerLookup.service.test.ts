@@ -0,0 +1,93 @@
+// backend/src/services/__tests__/customerLookup.service.test.ts
+
+import { createHash } from 'crypto';
+import { pool } from '../../config/database';
+import { CustomerLookupService } from '../customerLookup.service';
+import { EncryptionUtil } from '../../utils/encryption.util';
+
+jest.mock('../../config/database', () => ({
+  pool: { query: jest.fn() }
+}));
+
+const query = pool.query as jest.Mock;
+
+// What the SQL import processor writes to pan_encrypted
+const sqlDigest = (pan: string) => createHash('sha256').update(pan.toUpperCase()).digest('hex');
+
+interface CustomerRow {
+  id: number;
+  pan_encrypted: string | null;
+  iwell_code_encrypted: string | null;
+  pan_bidx: string | null;
+  iwell_code_bidx: string | null;
+}
+
+const customer = (overrides: Partial<CustomerRow>): CustomerRow => ({
+  id: 1,
+  pan_encrypted: null,
+  iwell_code_encrypted: null,
+  pan_bidx: null,
+  iwell_code_bidx: null,
+  ...overrides
+});
+
+describe('CustomerLookupService.backfillBlindIndexes', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    query.mockReset();
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const runBackfill = async (rows: CustomerRow[]) => {
+    query
+      .mockResolvedValueOnce({ rows })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const updated = await new CustomerLookupService().backfillBlindIndexes(1, true);
+    const update = query.mock.calls.find(([sql]) => /UPDATE t_customers/.test(sql));
+    return { updated, params: update ? update[1] : null };
+  };
+
+  it('indexes encrypted and plain values', async () => {
+    const { updated, params } = await runBackfill([
+      customer({ id: 1, pan_encrypted: EncryptionUtil.encrypt('ABCDE1234F'), iwell_code_encrypted: 'iw001' }),
+      customer({ id: 2, pan_encrypted: 'PQRSX6789Z' })
+    ]);
+
+    expect(updated).toBe(2);
+    expect(params).toEqual([
+      [1, 2],
+      [EncryptionUtil.blindIndex('ABCDE1234F'), EncryptionUtil.blindIndex('PQRSX6789Z')],
+      [EncryptionUtil.blindIndex('IW001'), null]
+    ]);
+  });
+
+  it('leaves a PAN stored as a SHA-256 digest unindexed and reports it', async () => {
+    const { updated, params } = await runBackfill([
+      customer({ id: 3, pan_encrypted: sqlDigest('abcde1234f'), iwell_code_encrypted: 'IW003' }),
+      customer({ id: 4, pan_encrypted: sqlDigest('PQRSX6789Z') })
+    ]);
+
+    // The IWELL code is still indexed; the digest is never treated as a PAN
+    expect(updated).toBe(1);
+    expect(params).toEqual([[3], [null], [EncryptionUtil.blindIndex('IW003')]]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('2 customer PAN(s) are stored as a SHA-256 digest'));
+  });
+
+  it('skips values no key can decrypt', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { updated, params } = await runBackfill([
+      customer({ id: 5, pan_encrypted: 'v2:retired:00:00:00' })
+    ]);
+
+    expect(updated).toBe(0);
+    expect(params).toBeNull();
+  });
+});
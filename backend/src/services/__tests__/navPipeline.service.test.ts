@@ -0,0 +1,110 @@
+// backend/src/services/__tests__/navPipeline.service.test.ts
+
+import * as path from 'path';
+import { NavPipelineService } from '../navPipeline.service';
+import { NavService } from '../nav.service';
+import { JobLeaseService } from '../jobLease.service';
+import { SchemeSyncService } from '../schemeSync.service';
+import { ParsedNavRecord } from '../../types/nav.types';
+
+jest.mock('../../config/database', () => ({
+  pool: { query: jest.fn().mockResolvedValue({ rows: [] }) }
+}));
+jest.mock('../nav.service');
+jest.mock('../jobLease.service');
+jest.mock('../schemeSync.service');
+
+const NAV_FIXTURE = path.join(__dirname, 'fixtures', 'NAVAll.txt');
+
+const bookmark = (schemeId: number, schemeCode: string) => ({ scheme_id: schemeId, scheme_code: schemeCode });
+
+const navService = jest.mocked(NavService.prototype);
+const leaseService = jest.mocked(JobLeaseService.prototype);
+const schemeSyncService = jest.mocked(SchemeSyncService.prototype);
+
+describe('NavPipelineService.runDailyPipeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // AmfiDataSourceService clears its request cache on a 60s timer
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    leaseService.acquire.mockResolvedValue({ lease_key: 'daily' } as any);
+    leaseService.release.mockResolvedValue(true as any);
+    navService.getUserBookmarks.mockResolvedValue({
+      bookmarks: [
+        bookmark(1, '120465'),
+        bookmark(2, '119018'),
+        // N.A. in the fixture, so the parser drops it
+        bookmark(3, '120198')
+      ]
+    } as any);
+    navService.createDownloadJob.mockResolvedValue({ id: 42 } as any);
+    navService.updateDownloadJob.mockResolvedValue({ id: 42 } as any);
+    navService.upsertNavData.mockResolvedValue({
+      inserted: 1,
+      updated: 0,
+      errors: [{ scheme_code: '119018', error: 'NAV date in the future' }]
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('parses the NAV file, upserts the bookmarked schemes and records their status', async () => {
+    const result = await new NavPipelineService().runDailyPipeline(1, true, 7, { sourceFile: NAV_FIXTURE });
+
+    // Whole file goes to the scheme master sync, only bookmarked schemes to the upsert
+    const parsed = schemeSyncService.syncAfterDailyIngest.mock.calls[0][3] as ParsedNavRecord[];
+    expect(parsed.map(record => record.scheme_code)).toEqual(['120465', '120466', '119018', '120197']);
+
+    const upserted = navService.upsertNavData.mock.calls[0][2];
+    expect(upserted.map(record => record.scheme_code)).toEqual(['120465', '119018']);
+    expect(upserted[0]).toMatchObject({
+      nav_value: 58.42,
+      nav_date: new Date(Date.UTC(2026, 9, 16)),
+      amc_name: 'Axis Mutual Fund',
+      scheme_category: 'Equity Scheme - Large Cap Fund'
+    });
+
+    const statuses = navService.updateBookmarkDownloadStatus.mock.calls.map(call => [call[3], call[4].last_download_status]);
+    expect(statuses).toEqual([[1, 'success'], [2, 'failed'], [3, 'failed']]);
+    expect(navService.updateBookmarkDownloadStatus.mock.calls[2][4].last_download_error)
+      .toBe('Scheme not present in daily NAV data');
+
+    expect(result).toMatchObject({
+      job_id: 42,
+      total_records: 4,
+      matched_records: 2,
+      inserted: 1,
+      schemes_updated: 1,
+      schemes_failed: 2
+    });
+    expect(navService.updateDownloadJob).toHaveBeenLastCalledWith(1, true, 42, expect.objectContaining({
+      status: 'completed'
+    }));
+    expect(leaseService.release).toHaveBeenCalledWith('daily_1_true_' + new Date().toISOString().split('T')[0]);
+  });
+
+  it('fails the job when the NAV file cannot be read', async () => {
+    await expect(new NavPipelineService().runDailyPipeline(1, true, 7, {
+      sourceFile: path.join(__dirname, 'fixtures', 'missing.txt')
+    })).rejects.toThrow('NAV download error');
+
+    expect(navService.upsertNavData).not.toHaveBeenCalled();
+    expect(navService.updateDownloadJob).toHaveBeenLastCalledWith(1, true, 42, expect.objectContaining({
+      status: 'failed'
+    }));
+    expect(leaseService.release).toHaveBeenCalled();
+  });
+
+  it('does nothing while another instance holds the daily download lease', async () => {
+    leaseService.acquire.mockResolvedValue(null);
+
+    await expect(new NavPipelineService().runDailyPipeline(1, true, 7, { sourceFile: NAV_FIXTURE }))
+      .rejects.toThrow('Daily download already in progress');
+    expect(navService.createDownloadJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,604 @@
+// backend/src/services/allocation.service.ts
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import {
+  AllocationClass,
+  AllocationModel,
+  AssignAllocationModelRequest,
+  RebalanceHolding,
+  RebalanceLot,
+  RebalanceProposal,
+  RebalanceTrade,
+  SaveAllocationModelRequest
+} from '../types/allocation.types';
+import { CapitalGainsService } from './capitalGains.service';
+import {
+  ALLOCATION_CLASSES,
+  DEFAULT_EXIT_LOADS,
+  RebalanceDestination,
+  RebalanceUtil
+} from '../utils/rebalance.util';
+import { ExportUtil, ExportColumn } from '../utils/export.util';
+
+const REBALANCE_TRADE_COLUMNS: ExportColumn<RebalanceTrade>[] = [
+  { header: 'Trade Type', key: 'trade_type', value: row => row.trade_type === 'switch' ? 'Switch' : 'Redeem & Purchase' },
+  { header: 'From Scheme Code', key: 'from_scheme_code' },
+  { header: 'From Scheme', key: 'from_scheme_name' },
+  { header: 'From Folio', key: 'from_folio_no' },
+  { header: 'From Asset Class', key: 'from_asset_class' },
+  { header: 'To Scheme Code', key: 'to_scheme_code' },
+  { header: 'To Scheme', key: 'to_scheme_name' },
+  { header: 'To Asset Class', key: 'to_asset_class' },
+  { header: 'Units', key: 'units' },
+  { header: 'Amount', key: 'amount' },
+  { header: 'Short Term Gain', key: 'short_term_gain' },
+  { header: 'Long Term Gain', key: 'long_term_gain' },
+  { header: 'Exit Load', key: 'exit_load' }
+];
+
+export class AllocationService {
+  private db: Pool;
+  private capitalGainsService: CapitalGainsService;
+
+  constructor() {
+    this.db = pool;
+    this.capitalGainsService = new CapitalGainsService();
+  }
+
+  /**
+   * Get reusable tenant-level model portfolios
+   */
+  async getModels(tenantId: number, isLive: boolean): Promise<AllocationModel[]> {
+    try {
+      const result = await this.db.query(
+        `SELECT *
+         FROM t_allocation_models
+         WHERE tenant_id = $1 AND is_live = $2 AND is_active = true AND customer_id IS NULL
+         ORDER BY name ASC`,
+        [tenantId, isLive]
+      );
+
+      return result.rows.map(row => this.mapModel(row));
+    } catch (error: any) {
+      console.error('Error getting allocation models:', error);
+      throw new Error(`Failed to get allocation models: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a tenant-level model portfolio
+   */
+  async createModel(
+    tenantId: number,
+    isLive: boolean,
+    data: SaveAllocationModelRequest,
+    userId: number
+  ): Promise<AllocationModel> {
+    try {
+      return await this.insertModel(tenantId, isLive, data, userId, null);
+    } catch (error: any) {
+      console.error('Error creating allocation model:', error);
+      throw new Error(`Failed to create allocation model: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update a tenant-level model portfolio
+   */
+  async updateModel(
+    tenantId: number,
+    isLive: boolean,
+    modelId: number,
+    data: SaveAllocationModelRequest
+  ): Promise<AllocationModel | null> {
+    try {
+      const targets = this.resolveTargets(data);
+      const result = await this.db.query(
+        `UPDATE t_allocation_models
+         SET name = $4, description = $5,
+             equity_target = $6, debt_target = $7, hybrid_target = $8, other_target = $9,
+             equity_band = $10, debt_band = $11, hybrid_band = $12, other_band = $13,
+             preferred_schemes = $14, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true AND customer_id IS NULL
+         RETURNING *`,
+        [
+          modelId,
+          tenantId,
+          isLive,
+          data.name,
+          data.description || null,
+          ...ALLOCATION_CLASSES.map(assetClass => targets[assetClass].target),
+          ...ALLOCATION_CLASSES.map(assetClass => targets[assetClass].band),
+          data.preferred_schemes ? JSON.stringify(data.preferred_schemes) : null
+        ]
+      );
+
+      return result.rows.length > 0 ? this.mapModel(result.rows[0]) : null;
+    } catch (error: any) {
+      console.error('Error updating allocation model:', error);
+      throw new Error(`Failed to update allocation model: ${error.message}`);
+    }
+  }
+
+  /**
+   * Soft delete a tenant-level model portfolio and unassign it from customers
+   */
+  async deleteModel(tenantId: number, isLive: boolean, modelId: number): Promise<boolean> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE t_allocation_models
+         SET is_active = false, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true AND customer_id IS NULL`,
+        [modelId, tenantId, isLive]
+      );
+
+      await client.query(
+        `UPDATE t_customers SET allocation_model_id = NULL, updated_at = NOW()
+         WHERE allocation_model_id = $1 AND tenant_id = $2 AND is_live = $3`,
+        [modelId, tenantId, isLive]
+      );
+
+      await client.query('COMMIT');
+      return (result.rowCount || 0) > 0;
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error deleting allocation model:', error);
+      throw new Error(`Failed to delete allocation model: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the model that applies to a customer: their own model first, then
+   * the tenant model portfolio assigned to them
+   */
+  async getCustomerModel(tenantId: number, isLive: boolean, customerId: number): Promise<AllocationModel | null> {
+    try {
+      const result = await this.db.query(
+        `SELECT m.*
+         FROM t_allocation_models m
+         WHERE m.tenant_id = $1 AND m.is_live = $2 AND m.is_active = true
+           AND (
+             m.customer_id = $3
+             OR m.id = (SELECT allocation_model_id FROM t_customers WHERE id = $3 AND tenant_id = $1 AND is_live = $2)
+           )
+         ORDER BY (m.customer_id IS NOT NULL) DESC, m.updated_at DESC
+         LIMIT 1`,
+        [tenantId, isLive, customerId]
+      );
+
+      return result.rows.length > 0 ? this.mapModel(result.rows[0]) : null;
+    } catch (error: any) {
+      console.error('Error getting customer allocation model:', error);
+      throw new Error(`Failed to get customer allocation model: ${error.message}`);
+    }
+  }
+
+  /**
+   * Assign a tenant model portfolio to a customer, or save a customer-specific model
+   */
+  async assignCustomerModel(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    data: AssignAllocationModelRequest,
+    userId: number
+  ): Promise<AllocationModel | null> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const customer = await client.query(
+        `SELECT id FROM t_customers WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+        [customerId, tenantId, isLive]
+      );
+      if (customer.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      // A customer has at most one model of their own
+      await client.query(
+        `UPDATE t_allocation_models SET is_active = false, updated_at = NOW()
+         WHERE customer_id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+        [customerId, tenantId, isLive]
+      );
+
+      if (data.model_id) {
+        const model = await client.query(
+          `SELECT id FROM t_allocation_models
+           WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true AND customer_id IS NULL`,
+          [data.model_id, tenantId, isLive]
+        );
+        if (model.rows.length === 0) {
+          throw new Error(`Allocation model ${data.model_id} not found`);
+        }
+
+        await client.query(
+          `UPDATE t_customers SET allocation_model_id = $1, updated_at = NOW() WHERE id = $2`,
+          [data.model_id, customerId]
+        );
+      } else if (data.model) {
+        await client.query(
+          `UPDATE t_customers SET allocation_model_id = NULL, updated_at = NOW() WHERE id = $1`,
+          [customerId]
+        );
+        await this.insertModel(tenantId, isLive, data.model, userId, customerId, client);
+      }
+
+      await client.query('COMMIT');
+
+      return await this.getCustomerModel(tenantId, isLive, customerId);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error assigning allocation model:', error);
+      throw new Error(`Failed to assign allocation model: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Compare actual vs target allocation and propose switches back to target
+   */
+  async getRebalanceProposal(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    modelId?: number
+  ): Promise<RebalanceProposal | null> {
+    try {
+      const unrealised = await this.capitalGainsService.getUnrealisedGains(tenantId, isLive, customerId);
+      if (!unrealised) return null;
+
+      const model = modelId
+        ? await this.getModelById(tenantId, isLive, modelId)
+        : await this.getCustomerModel(tenantId, isLive, customerId);
+
+      const warnings = [...unrealised.warnings];
+      const asOfDate = unrealised.as_of_date;
+
+      if (!model) {
+        warnings.push(modelId
+          ? `Allocation model ${modelId} not found`
+          : 'No allocation model assigned to this customer');
+
+        return {
+          customer_id: customerId,
+          customer_name: unrealised.customer_name,
+          as_of_date: asOfDate,
+          model: null,
+          total_value: unrealised.summary.current_value,
+          in_balance: true,
+          allocation: [],
+          trades: [],
+          summary: RebalanceUtil.summariseTrades([]),
+          warnings
+        };
+      }
+
+      const schemeCodes = Array.from(new Set([
+        ...unrealised.holdings.map(holding => holding.scheme_code),
+        ...Object.values(model.preferred_schemes || {}).filter(Boolean) as string[]
+      ]));
+      const schemeInfo = await this.getSchemeInfo(tenantId, isLive, customerId, schemeCodes);
+
+      const holdings: RebalanceHolding[] = unrealised.holdings.map(holding => {
+        const info = schemeInfo.get(holding.scheme_code);
+        return {
+          scheme_code: holding.scheme_code,
+          scheme_name: holding.scheme_name,
+          folio_no: holding.folio_no,
+          fund_name: info?.fund_name,
+          allocation_class: RebalanceUtil.classifyAllocationClass(info?.category, info?.sub_category),
+          current_value: holding.current_value,
+          latest_nav: holding.latest_nav
+        };
+      });
+
+      const lots: RebalanceLot[] = [];
+      unrealised.holdings.forEach((holding, index) => {
+        const info = schemeInfo.get(holding.scheme_code);
+        const allocationClass = holdings[index].allocation_class;
+        const exitLoad = info?.exit_load_percentage !== null && info?.exit_load_percentage !== undefined
+          ? { percentage: info.exit_load_percentage, days: info.exit_load_days || 0 }
+          : DEFAULT_EXIT_LOADS[allocationClass];
+
+        holding.lots.forEach(lot => {
+          lots.push({
+            scheme_code: lot.scheme_code,
+            scheme_name: lot.scheme_name,
+            folio_no: lot.folio_no,
+            fund_name: info?.fund_name,
+            allocation_class: allocationClass,
+            purchase_date: lot.purchase_date,
+            units: lot.remaining_units,
+            nav: lot.latest_nav,
+            value: lot.current_value,
+            gain_per_unit: lot.remaining_units > 0 ? lot.unrealised_gain / lot.remaining_units : 0,
+            term: lot.term,
+            exit_load: exitLoad
+          });
+        });
+      });
+
+      const allocation = RebalanceUtil.compareAllocation(holdings, model);
+      const destinations = this.resolveDestinations(model, holdings, schemeInfo);
+      const { trades, warnings: tradeWarnings } = RebalanceUtil.buildTrades(lots, allocation, destinations, asOfDate);
+
+      return {
+        customer_id: customerId,
+        customer_name: unrealised.customer_name,
+        as_of_date: asOfDate,
+        model,
+        total_value: unrealised.summary.current_value,
+        in_balance: !allocation.some(item => item.out_of_band),
+        allocation,
+        trades,
+        summary: RebalanceUtil.summariseTrades(trades),
+        warnings: [...warnings, ...tradeWarnings]
+      };
+    } catch (error: any) {
+      console.error('Error building rebalance proposal:', error);
+      throw new Error(`Failed to build rebalance proposal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Build a downloadable CSV or Excel rebalancing proposal
+   */
+  exportRebalanceProposal(
+    proposal: RebalanceProposal,
+    format: 'csv' | 'xlsx'
+  ): { filename: string; contentType: string; body: string | Buffer } {
+    const baseName = `rebalance_proposal_${proposal.customer_id}_${proposal.as_of_date}`;
+
+    if (format === 'csv') {
+      return {
+        filename: `${baseName}.csv`,
+        contentType: 'text/csv',
+        body: ExportUtil.toCsv(REBALANCE_TRADE_COLUMNS, proposal.trades)
+      };
+    }
+
+    const summaryRows = [
+      { label: 'Customer', value: proposal.customer_name || proposal.customer_id },
+      { label: 'As Of', value: proposal.as_of_date },
+      { label: 'Model', value: proposal.model?.name || '' },
+      { label: 'Portfolio Value', value: proposal.total_value },
+      { label: 'Total Trade Amount', value: proposal.summary.total_trade_amount },
+      { label: 'Realised Short Term Gain', value: proposal.summary.realised_short_term_gain },
+      { label: 'Realised Long Term Gain', value: proposal.summary.realised_long_term_gain },
+      { label: 'Estimated Exit Load', value: proposal.summary.estimated_exit_load },
+      ...proposal.warnings.map(warning => ({ label: 'Warning', value: warning }))
+    ];
+
+    return {
+      filename: `${baseName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      body: ExportUtil.toXlsxBuffer([
+        {
+          name: 'Summary',
+          columns: [
+            { header: 'Item', key: 'label' },
+            { header: 'Value', key: 'value' }
+          ],
+          rows: summaryRows
+        },
+        {
+          name: 'Allocation',
+          columns: [
+            { header: 'Asset Class', key: 'asset_class' },
+            { header: 'Current Value', key: 'current_value' },
+            { header: 'Current %', key: 'current_percentage' },
+            { header: 'Target %', key: 'target_percentage' },
+            { header: 'Band (+/-)', key: 'band' },
+            { header: 'Drift', key: 'drift' },
+            { header: 'Out of Band', key: 'out_of_band', value: row => row.out_of_band ? 'Yes' : 'No' },
+            { header: 'Target Value', key: 'target_value' },
+            { header: 'Difference', key: 'difference' }
+          ],
+          rows: proposal.allocation
+        },
+        { name: 'Trades', columns: REBALANCE_TRADE_COLUMNS, rows: proposal.trades }
+      ])
+    };
+  }
+
+  /**
+   * Pick the scheme that receives money for each underweight class:
+   * the model's preferred scheme, else the largest existing holding in that class
+   */
+  private resolveDestinations(
+    model: AllocationModel,
+    holdings: RebalanceHolding[],
+    schemeInfo: Map<string, { scheme_name?: string; fund_name?: string }>
+  ): Partial<Record<AllocationClass, RebalanceDestination>> {
+    const destinations: Partial<Record<AllocationClass, RebalanceDestination>> = {};
+
+    ALLOCATION_CLASSES.forEach(assetClass => {
+      const preferred = model.preferred_schemes?.[assetClass];
+      if (preferred) {
+        const info = schemeInfo.get(preferred);
+        destinations[assetClass] = {
+          scheme_code: preferred,
+          scheme_name: info?.scheme_name || preferred,
+          fund_name: info?.fund_name
+        };
+        return;
+      }
+
+      const largest = holdings
+        .filter(holding => holding.allocation_class === assetClass)
+        .sort((a, b) => b.current_value - a.current_value)[0];
+
+      if (largest) {
+        destinations[assetClass] = {
+          scheme_code: largest.scheme_code,
+          scheme_name: largest.scheme_name,
+          fund_name: largest.fund_name
+        };
+      }
+    });
+
+    return destinations;
+  }
+
+  /**
+   * Category, AMC and exit load terms per scheme
+   */
+  private async getSchemeInfo(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    schemeCodes: string[]
+  ): Promise<Map<string, {
+    scheme_name?: string;
+    fund_name?: string;
+    category?: string;
+    sub_category?: string;
+    exit_load_percentage?: number | null;
+    exit_load_days?: number | null;
+  }>> {
+    const info = new Map();
+    if (schemeCodes.length === 0) return info;
+
+    const result = await this.db.query(
+      `SELECT
+         sd.scheme_code,
+         sd.scheme_name,
+         COALESCE(pt.fund_name, sd.amc_name) as fund_name,
+         COALESCE(pt.category, sm.name) as category,
+         pt.sub_category,
+         sd.exit_load_percentage,
+         sd.exit_load_days
+       FROM t_scheme_details sd
+       LEFT JOIN t_scheme_masters sm ON sm.id = sd.scheme_category_id
+       LEFT JOIN LATERAL (
+         SELECT fund_name, category, sub_category
+         FROM t_customer_portfolio_totals
+         WHERE customer_id = $1 AND tenant_id = $2 AND is_live = $3 AND scheme_code = sd.scheme_code
+         LIMIT 1
+       ) pt ON true
+       WHERE sd.scheme_code = ANY($4)`,
+      [customerId, tenantId, isLive, schemeCodes]
+    );
+
+    result.rows.forEach(row => info.set(row.scheme_code, {
+      scheme_name: row.scheme_name,
+      fund_name: row.fund_name,
+      category: row.category,
+      sub_category: row.sub_category,
+      exit_load_percentage: row.exit_load_percentage !== null ? parseFloat(row.exit_load_percentage) : null,
+      exit_load_days: row.exit_load_days
+    }));
+
+    // Holdings without a scheme master record still carry category on the totals view
+    const missing = schemeCodes.filter(code => !info.has(code));
+    if (missing.length > 0) {
+      const totals = await this.db.query(
+        `SELECT DISTINCT ON (scheme_code) scheme_code, scheme_name, fund_name, category, sub_category
+         FROM t_customer_portfolio_totals
+         WHERE customer_id = $1 AND tenant_id = $2 AND is_live = $3 AND scheme_code = ANY($4)`,
+        [customerId, tenantId, isLive, missing]
+      );
+      totals.rows.forEach(row => info.set(row.scheme_code, { ...row, exit_load_percentage: null, exit_load_days: null }));
+    }
+
+    return info;
+  }
+
+  /**
+   * Get an active model by ID (tenant or customer-specific)
+   */
+  private async getModelById(tenantId: number, isLive: boolean, modelId: number): Promise<AllocationModel | null> {
+    const result = await this.db.query(
+      `SELECT * FROM t_allocation_models
+       WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+      [modelId, tenantId, isLive]
+    );
+    return result.rows.length > 0 ? this.mapModel(result.rows[0]) : null;
+  }
+
+  /**
+   * Insert a model row
+   */
+  private async insertModel(
+    tenantId: number,
+    isLive: boolean,
+    data: SaveAllocationModelRequest,
+    userId: number,
+    customerId: number | null,
+    client: { query: Pool['query'] } = this.db
+  ): Promise<AllocationModel> {
+    const targets = this.resolveTargets(data);
+    const result = await client.query(
+      `INSERT INTO t_allocation_models (
+         tenant_id, is_live, customer_id, name, description,
+         equity_target, debt_target, hybrid_target, other_target,
+         equity_band, debt_band, hybrid_band, other_band,
+         preferred_schemes, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING *`,
+      [
+        tenantId,
+        isLive,
+        customerId,
+        data.name,
+        data.description || null,
+        ...ALLOCATION_CLASSES.map(assetClass => targets[assetClass].target),
+        ...ALLOCATION_CLASSES.map(assetClass => targets[assetClass].band),
+        data.preferred_schemes ? JSON.stringify(data.preferred_schemes) : null,
+        userId
+      ]
+    );
+
+    return this.mapModel(result.rows[0]);
+  }
+
+  /**
+   * Fill in missing targets (0%) and bands (5 points)
+   */
+  private resolveTargets(data: SaveAllocationModelRequest): Record<AllocationClass, { target: number; band: number }> {
+    const targets = {} as Record<AllocationClass, { target: number; band: number }>;
+    ALLOCATION_CLASSES.forEach(assetClass => {
+      const value = data.targets?.[assetClass];
+      targets[assetClass] = {
+        target: Number(value?.target) || 0,
+        band: value?.band !== undefined ? Number(value.band) : 5
+      };
+    });
+    return targets;
+  }
+
+  /**
+   * Map a database row to an AllocationModel
+   */
+  private mapModel(row: any): AllocationModel {
+    const targets = {} as AllocationModel['targets'];
+    ALLOCATION_CLASSES.forEach(assetClass => {
+      targets[assetClass] = {
+        target: parseFloat(row[`${assetClass}_target`]),
+        band: parseFloat(row[`${assetClass}_band`])
+      };
+    });
+
+    return {
+      id: row.id,
+      customer_id: row.customer_id,
+      name: row.name,
+      description: row.description || undefined,
+      targets,
+      preferred_schemes: row.preferred_schemes || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
@@ -1,15 +1,21 @@
 // backend/src/services/amfiDataSource.service.ts
 // UPDATED: Added MFAPI.in integration for historical NAV data
 // REMOVED: Broken AMFI historical download endpoint
+// UPDATED: Fetching is delegated to NAV data providers (navDataProvider.service.ts), tried in
+//          the tenant's configured order with fallback; pass tenantId/isLive to use them
 
 import { SimpleLogger } from './simpleLogger.service';
-import { ParsedNavRecord } from '../types/nav.types';
+import { NavProviderContext, NavProviderService } from './navProvider.service';
+import { NavProviderName, ParsedNavRecord } from '../types/nav.types';
+
+export type { MfapiResponse } from '../utils/navParser.util';
 
 export interface AmfiApiResponse {
   success: boolean;
   data?: ParsedNavRecord[];
   error?: string;
   source: 'daily' | 'historical';
+  provider?: NavProviderName;   // provider that served the data
   requestId: string;
   totalRecords: number;
   processingTime: number;
@@ -22,41 +28,28 @@ export interface AmfiDownloadOptions {
   rateLimitDelay?: number;
   timeout?: number;
   validateData?: boolean;
-}
-
-// NEW: MFAPI.in specific response interface
-export interface MfapiResponse {
-  meta: {
-    fund_house: string;
-    scheme_name: string;
-    scheme_code: number;
-  };
-  data: Array<{
-    date: string;
-    nav: string;
-  }>;
-  status: string;
+  // Read NAVAll.txt-format data from a local file instead of AMFI (fixtures, offline runs)
+  sourceFile?: string;
+  // Tenant whose provider settings apply; without it the default provider order is used
+  tenantId?: number;
+  isLive?: boolean;
+  // Explicit provider order, overriding the tenant settings
+  providers?: NavProviderName[];
 }
 
 export class AmfiDataSourceService {
-  private readonly DAILY_NAV_URL = 'https://www.amfiindia.com/spages/NAVAll.txt';
-  private readonly MFAPI_BASE_URL = 'https://api.mfapi.in/mf';
-  
-  private readonly DEFAULT_RETRY_ATTEMPTS = 3;
-  private readonly DEFAULT_RETRY_DELAY = 1000;
-  private readonly DEFAULT_RATE_LIMIT_DELAY = 500; // 500ms for MFAPI
-  private readonly DEFAULT_TIMEOUT = 30000;
-  
   private requestCache = new Map<string, Promise<AmfiApiResponse>>();
-  private lastRequestTime = 0;
+  private providerService: NavProviderService;
 
-  constructor() {}
+  constructor() {
+    this.providerService = new NavProviderService();
+  }
 
   /**
-   * Download daily NAV data for all schemes (UNCHANGED)
+   * Download daily NAV data for all schemes
    */
   async downloadDailyNavData(options: AmfiDownloadOptions = {}): Promise<AmfiApiResponse> {
-    const requestId = options.requestId || `daily_${new Date().toISOString().split('T')[0]}`;
+    const requestId = options.requestId || `daily_${options.tenantId ?? 'default'}_${new Date().toISOString().split('T')[0]}`;
     
     try {
       if (this.requestCache.has(requestId)) {
@@ -81,136 +74,67 @@ export class AmfiDataSourceService {
   }
 
   /**
-   * NEW: Download historical NAV data from MFAPI.in
-   * Provides complete history for a single scheme in one API call
+   * Download one scheme's NAV history from the tenant's history providers (MFAPI.in, local files)
    */
-  async downloadFromMFAPI(
-    schemeCode: string, 
-    startDate?: Date, 
+  async downloadSchemeHistory(
+    schemeCode: string,
+    startDate?: Date,
     endDate?: Date,
     options: AmfiDownloadOptions = {}
   ): Promise<AmfiApiResponse> {
     const startTime = Date.now();
-    const requestId = options.requestId || `mfapi_${schemeCode}_${Date.now()}`;
+    const requestId = options.requestId || `history_${schemeCode}_${Date.now()}`;
 
     try {
-      // Validate scheme code
       if (!schemeCode || schemeCode.trim() === '') {
         throw new Error('Valid scheme code is required');
       }
 
       const trimmedSchemeCode = schemeCode.trim();
-      const url = `${this.MFAPI_BASE_URL}/${trimmedSchemeCode}`;
 
-      SimpleLogger.info('AmfiDataSource', 'Starting MFAPI download', 'downloadFromMFAPI', {
-        requestId, schemeCode: trimmedSchemeCode, url
+      SimpleLogger.info('AmfiDataSource', 'Starting scheme history download', 'downloadSchemeHistory', {
+        requestId, schemeCode: trimmedSchemeCode, startDate, endDate, tenantId: options.tenantId
       });
 
-      // Rate limiting: enforce 500ms minimum between requests
-      const timeSinceLastRequest = Date.now() - this.lastRequestTime;
-      if (timeSinceLastRequest < this.DEFAULT_RATE_LIMIT_DELAY) {
-        const waitTime = this.DEFAULT_RATE_LIMIT_DELAY - timeSinceLastRequest;
-        await this.sleep(waitTime);
+      const { provider, records } = await this.providerService.fetchSchemeHistory(
+        trimmedSchemeCode,
+        startDate,
+        endDate,
+        this.toProviderContext(options),
+        options
+      );
+
+      if (records.length === 0 && (startDate || endDate)) {
+        SimpleLogger.warn('AmfiDataSource', 'No records found in specified date range', 'downloadSchemeHistory', {
+          requestId, schemeCode: trimmedSchemeCode, provider, startDate, endDate
+        });
       }
 
-      // Make request with retry logic
-      const retryAttempts = options.retryAttempts || this.DEFAULT_RETRY_ATTEMPTS;
-      const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-      let lastError: Error | null = null;
-
-      for (let attempt = 1; attempt <= retryAttempts; attempt++) {
-        try {
-          this.lastRequestTime = Date.now();
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-          const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Accept': 'application/json'
-            },
-            signal: controller.signal
-          });
-
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
-
-          const mfapiData = await response.json() as MfapiResponse;
-
-          // Validate response
-          if (!mfapiData.data || mfapiData.data.length === 0) {
-            throw new Error('No NAV data returned from MFAPI.in');
-          }
-
-          // Convert MFAPI format to internal format
-          const parsedData = this.convertMfapiToInternal(mfapiData);
-
-          // Apply date range filtering if provided
-          let filteredData = parsedData;
-          if (startDate || endDate) {
-            filteredData = parsedData.filter(record => {
-              if (!record.nav_date) return false;
-              if (startDate && record.nav_date < startDate) return false;
-              if (endDate && record.nav_date > endDate) return false;
-              return true;
-            });
-
-            if (filteredData.length === 0) {
-              SimpleLogger.warn('AmfiDataSource', 'No records found in specified date range', 'downloadFromMFAPI', {
-                requestId, schemeCode: trimmedSchemeCode, startDate, endDate, totalRecords: parsedData.length
-              });
-            }
-          }
-
-          const processingTime = Date.now() - startTime;
-
-          SimpleLogger.info('AmfiDataSource', 'MFAPI download completed successfully', 'downloadFromMFAPI', {
-            requestId, schemeCode: trimmedSchemeCode, totalRecords: filteredData.length, processingTime
-          });
-
-          return {
-            success: true,
-            data: filteredData,
-            source: 'historical',
-            requestId,
-            totalRecords: filteredData.length,
-            processingTime
-          };
-
-        } catch (fetchError: any) {
-          lastError = fetchError;
-          
-          SimpleLogger.error('AmfiDataSource', `MFAPI request attempt ${attempt} failed`, 'downloadFromMFAPI', {
-            requestId, schemeCode: trimmedSchemeCode, attempt, error: fetchError.message
-          });
-
-          if (attempt < retryAttempts) {
-            const delay = this.DEFAULT_RETRY_DELAY * Math.pow(2, attempt - 1);
-            SimpleLogger.info('AmfiDataSource', `Retrying MFAPI request in ${delay}ms`, 'downloadFromMFAPI', {
-              requestId, attempt, delay
-            });
-            await this.sleep(delay);
-          }
-        }
-      }
+      const processingTime = Date.now() - startTime;
 
-      throw lastError || new Error('All retry attempts failed');
+      SimpleLogger.info('AmfiDataSource', 'Scheme history download completed successfully', 'downloadSchemeHistory', {
+        requestId, schemeCode: trimmedSchemeCode, provider, totalRecords: records.length, processingTime
+      });
 
+      return {
+        success: true,
+        data: records,
+        source: 'historical',
+        provider,
+        requestId,
+        totalRecords: records.length,
+        processingTime
+      };
     } catch (error: any) {
       const processingTime = Date.now() - startTime;
       
-      SimpleLogger.error('AmfiDataSource', 'MFAPI download failed', 'downloadFromMFAPI', {
+      SimpleLogger.error('AmfiDataSource', 'Scheme history download failed', 'downloadSchemeHistory', {
         requestId, schemeCode, startDate, endDate, error: error.message, processingTime
-      }, undefined, undefined, error.stack);
+      }, undefined, options.tenantId, error.stack);
       
       return {
         success: false,
-        error: error.message || 'MFAPI download failed',
+        error: error.message || 'Scheme history download failed',
         source: 'historical',
         requestId,
         totalRecords: 0,
@@ -220,103 +144,23 @@ export class AmfiDataSourceService {
   }
 
   /**
-   * NEW: Convert MFAPI.in response to internal ParsedNavRecord format
-   */
-  private convertMfapiToInternal(mfapiResponse: MfapiResponse): ParsedNavRecord[] {
-    try {
-      if (!mfapiResponse.data || mfapiResponse.data.length === 0) {
-        return [];
-      }
-
-      const schemeCode = String(mfapiResponse.meta.scheme_code);
-      const schemeName = mfapiResponse.meta.scheme_name;
-
-      const parsedRecords: ParsedNavRecord[] = [];
-
-      for (const entry of mfapiResponse.data) {
-        try {
-          const navDate = this.parseMfapiDate(entry.date);
-          const navValue = parseFloat(entry.nav);
-
-          if (!navDate || isNaN(navValue) || navValue <= 0) {
-            continue;
-          }
-
-          const record: ParsedNavRecord = {
-            scheme_code: schemeCode,
-            scheme_name: schemeName,
-            nav_value: navValue,
-            nav_date: navDate,
-            repurchase_price: undefined,
-            sale_price: undefined,
-            isin_div_payout_growth: undefined,
-            isin_div_reinvestment: undefined
-          };
-
-          parsedRecords.push(record);
-        } catch (entryError: any) {
-          SimpleLogger.error('AmfiDataSource', 'Failed to parse MFAPI entry', 'convertMfapiToInternal', {
-            entry, error: entryError.message
-          });
-        }
-      }
-
-      return parsedRecords;
-    } catch (error: any) {
-      SimpleLogger.error('AmfiDataSource', 'Failed to convert MFAPI response', 'convertMfapiToInternal', {
-        error: error.message
-      }, undefined, undefined, error.stack);
-      return [];
-    }
-  }
-
-  /**
-   * NEW: Parse MFAPI date format (DD-MM-YYYY) to Date object
+   * Download historical NAV data from MFAPI.in only (no fallback)
    */
-  private parseMfapiDate(dateStr: string): Date | null {
-    try {
-      if (!dateStr || typeof dateStr !== 'string' || dateStr.trim() === '') {
-        return null;
-      }
-
-      const trimmed = dateStr.trim();
-      const parts = trimmed.split('-');
-
-      if (parts.length !== 3) {
-        return null;
-      }
-
-      const day = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10);
-      const year = parseInt(parts[2], 10);
-
-      if (isNaN(day) || isNaN(month) || isNaN(year)) {
-        return null;
-      }
-
-      if (day < 1 || day > 31 || month < 1 || month > 12 || year < 1900) {
-        return null;
-      }
-
-      const date = new Date(year, month - 1, day);
-
-      if (date.getFullYear() !== year || 
-          date.getMonth() !== (month - 1) || 
-          date.getDate() !== day) {
-        return null;
-      }
-
-      return date;
-    } catch (error: any) {
-      SimpleLogger.error('AmfiDataSource', 'Date parsing failed', 'parseMfapiDate', {
-        dateStr, error: error.message
-      });
-      return null;
-    }
+  async downloadFromMFAPI(
+    schemeCode: string, 
+    startDate?: Date, 
+    endDate?: Date,
+    options: AmfiDownloadOptions = {}
+  ): Promise<AmfiApiResponse> {
+    return this.downloadSchemeHistory(schemeCode, startDate, endDate, {
+      ...options,
+      requestId: options.requestId || `mfapi_${schemeCode}_${Date.now()}`,
+      providers: ['mfapi']
+    });
   }
 
   /**
-   * Download NAV data for specific scheme (daily) - UNCHANGED
+   * Download NAV data for specific scheme (daily)
    */
   async downloadSchemeNavData(schemeCode: string, options: AmfiDownloadOptions = {}): Promise<AmfiApiResponse> {
     const requestId = options.requestId || `scheme_${schemeCode}_${new Date().toISOString().split('T')[0]}`;
@@ -345,10 +189,7 @@ export class AmfiDataSourceService {
     const startTime = Date.now();
 
     try {
-      SimpleLogger.info('AmfiDataSource', 'Starting daily NAV download', 'executeDailyDownload', { requestId });
-
-      const body = await this.makeAmfiRequest(this.DAILY_NAV_URL, options);
-      const parsedData = this.parseDailyNavData(body);
+      const { provider, records: parsedData } = await this.fetchDailyRecords(requestId, options);
 
       if (options.validateData !== false) {
         this.validateNavData(parsedData);
@@ -357,13 +198,14 @@ export class AmfiDataSourceService {
       const processingTime = Date.now() - startTime;
 
       SimpleLogger.info('AmfiDataSource', 'Daily NAV download completed successfully', 'executeDailyDownload', {
-        requestId, totalRecords: parsedData.length, processingTime
+        requestId, provider, totalRecords: parsedData.length, processingTime
       });
 
       return {
         success: true,
         data: parsedData,
         source: 'daily',
+        provider,
         requestId,
         totalRecords: parsedData.length,
         processingTime
@@ -386,9 +228,8 @@ export class AmfiDataSourceService {
     const startTime = Date.now();
 
     try {
-      const body = await this.makeAmfiRequest(this.DAILY_NAV_URL, options);
-      const allData = this.parseDailyNavData(body);
-      const schemeData = allData.filter(record => record.scheme_code === schemeCode);
+      const { provider, records } = await this.fetchDailyRecords(requestId, options);
+      const schemeData = records.filter(record => record.scheme_code === schemeCode);
 
       const processingTime = Date.now() - startTime;
 
@@ -396,6 +237,7 @@ export class AmfiDataSourceService {
         success: true,
         data: schemeData,
         source: 'daily',
+        provider,
         requestId,
         totalRecords: schemeData.length,
         processingTime
@@ -414,120 +256,33 @@ export class AmfiDataSourceService {
     }
   }
 
-  // ==================== HTTP REQUEST HANDLING ====================
-
-  private async makeAmfiRequest(url: string, options: AmfiDownloadOptions): Promise<string> {
-    const retryAttempts = options.retryAttempts || this.DEFAULT_RETRY_ATTEMPTS;
-    const retryDelay = options.retryDelay || this.DEFAULT_RETRY_DELAY;
-    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
-    const rateLimitDelay = options.rateLimitDelay || this.DEFAULT_RATE_LIMIT_DELAY;
-
-    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
-    if (timeSinceLastRequest < rateLimitDelay) {
-      const waitTime = rateLimitDelay - timeSinceLastRequest;
-      await this.sleep(waitTime);
-    }
-
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= retryAttempts; attempt++) {
-      try {
-        this.lastRequestTime = Date.now();
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            'Accept': 'text/plain, text/html, */*',
-            'Accept-Language': 'en-US,en;q=0.9',
-            'Cache-Control': 'no-cache',
-            'Referer': 'http://portal.amfiindia.com/'
-          },
-          signal: controller.signal
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const body = await response.text();
-        
-        if (!body || body.trim().length === 0) {
-          throw new Error('Empty response from AMFI API');
-        }
-
-        SimpleLogger.info('AmfiDataSource', 'AMFI API request successful', 'makeAmfiRequest', {
-          url, attempt, responseLength: body.length
-        });
-
-        return body;
-      } catch (error: any) {
-        lastError = error;
-        
-        SimpleLogger.error('AmfiDataSource', `AMFI API request attempt ${attempt} failed`, 'makeAmfiRequest', {
-          url, attempt, error: error.message
-        });
-
-        if (error.name === 'AbortError') {
-          lastError = new Error(`Request timeout after ${timeout}ms`);
-        }
+  /**
+   * A single source file (options.sourceFile or AMFI_NAV_FILE) short-circuits the provider chain
+   */
+  private async fetchDailyRecords(
+    requestId: string,
+    options: AmfiDownloadOptions
+  ): Promise<{ provider: NavProviderName; records: ParsedNavRecord[] }> {
+    // AMFI_NAV_FILE lets a whole environment run against a fixture file
+    const sourceFile = options.sourceFile || process.env.AMFI_NAV_FILE;
+
+    SimpleLogger.info('AmfiDataSource', 'Starting daily NAV download', 'fetchDailyRecords', {
+      requestId, sourceFile, tenantId: options.tenantId
+    });
 
-        if (attempt < retryAttempts) {
-          const delay = retryDelay * Math.pow(2, attempt - 1);
-          SimpleLogger.info('AmfiDataSource', `Retrying AMFI API request in ${delay}ms`, 'makeAmfiRequest', { url, attempt, delay });
-          await this.sleep(delay);
-        }
-      }
+    if (sourceFile) {
+      return { provider: 'local', records: await this.providerService.readNavFile(sourceFile) };
     }
 
-    throw lastError || new Error('All retry attempts failed');
+    return this.providerService.fetchDailyNav(this.toProviderContext(options), options);
   }
 
-  // ==================== DATA PARSING METHODS ====================
-
-  private parseDailyNavData(body: string): ParsedNavRecord[] {
-    try {
-      const fundData: ParsedNavRecord[] = [];
-      const bodyClean = body.replace(/\r?\n/g, "\n");
-      const bodyArr = bodyClean.split("\n");
-      const funds = bodyArr.map((str) => str.split(";"));
-      const headers = funds[0];
-
-      for (let i = 1; i < funds.length; i++) {
-        if (funds[i].length === 6 && funds[i][0].trim() !== '') {
-          const record: any = {};
-          
-          for (let j = 0; j < 6; j++) {
-            record[headers[j]] = funds[i][j];
-          }
-
-          const parsedRecord: ParsedNavRecord = {
-            scheme_code: record['Scheme Code']?.trim() || '',
-            scheme_name: record['Scheme Name']?.trim() || '',
-            nav_value: this.parseFloatSafe(record['Net Asset Value']),
-            nav_date: this.parseNavDate(record['Date']),
-            isin_div_payout_growth: record['ISIN Div Payout/ ISIN Growth']?.trim(),
-            isin_div_reinvestment: record['ISIN Div Reinvestment']?.trim()
-          };
-
-          if (parsedRecord.scheme_code && parsedRecord.nav_value > 0 && parsedRecord.nav_date) {
-            fundData.push(parsedRecord);
-          }
-        }
-      }
-
-      return fundData;
-    } catch (error: any) {
-      SimpleLogger.error('AmfiDataSource', 'Failed to parse daily NAV data', 'parseDailyNavData', {
-        error: error.message, bodyLength: body.length
-      });
-      throw new Error(`Failed to parse daily NAV data: ${error.message}`);
-    }
+  private toProviderContext(options: AmfiDownloadOptions): NavProviderContext {
+    return {
+      tenantId: options.tenantId,
+      isLive: options.isLive,
+      providers: options.providers
+    };
   }
 
   // ==================== UTILITY METHODS ====================
@@ -554,57 +309,6 @@ export class AmfiDataSourceService {
     });
   }
 
-  private parseFloatSafe(value: string): number {
-    if (!value || value.trim() === '' || value.trim() === '-' || value.trim() === 'N.A.') {
-      return 0;
-    }
-    
-    const parsed = parseFloat(value.replace(/,/g, ''));
-    return isNaN(parsed) ? 0 : parsed;
-  }
-
-  private parseNavDate(dateStr: string): Date | null {
-    try {
-      if (!dateStr || dateStr.trim() === '') {
-        return null;
-      }
-
-      const parts = dateStr.trim().split('-');
-      if (parts.length !== 3) {
-        return null;
-      }
-
-      const day = parseInt(parts[0]);
-      const monthStr = parts[1];
-      const year = parseInt(parts[2]);
-
-      const monthMap: { [key: string]: number } = {
-        'Jan': 0, 'Feb': 1, 'Mar': 2, 'Apr': 3, 'May': 4, 'Jun': 5,
-        'Jul': 6, 'Aug': 7, 'Sep': 8, 'Oct': 9, 'Nov': 10, 'Dec': 11
-      };
-
-      const month = monthMap[monthStr];
-      if (month === undefined) {
-        return null;
-      }
-
-      const date = new Date(year, month, day);
-      
-      if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
-        return null;
-      }
-
-      return date;
-    } catch (error) {
-      SimpleLogger.error('AmfiDataSource', 'Failed to parse NAV date', 'parseNavDate', { dateStr });
-      return null;
-    }
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   public clearCache(): void {
     this.requestCache.clear();
     SimpleLogger.info('AmfiDataSource', 'Request cache cleared', 'clearCache');
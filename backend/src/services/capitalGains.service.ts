@@ -0,0 +1,457 @@
+// backend/src/services/capitalGains.service.ts
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import {
+  LotTransaction,
+  CapitalGainsReport,
+  RealisedGainEntry,
+  FifoMatchResult,
+  UnrealisedGainsReport,
+  TaxHarvestingReport,
+  LtcgHarvestCandidate,
+  LossHarvestCandidate
+} from '../types/capitalGains.types';
+import {
+  CapitalGainsUtil,
+  GRANDFATHERING_CUTOFF_DATE,
+  GRANDFATHERING_FMV_DATE
+} from '../utils/capitalGains.util';
+import { ExportUtil, ExportColumn } from '../utils/export.util';
+import { PortfolioUtil } from '../utils/portfolio.util';
+
+const REALISED_GAIN_COLUMNS: ExportColumn<RealisedGainEntry>[] = [
+  { header: 'Scheme Code', key: 'scheme_code' },
+  { header: 'Scheme Name', key: 'scheme_name' },
+  { header: 'Folio No', key: 'folio_no' },
+  { header: 'Asset Class', key: 'asset_class' },
+  { header: 'Purchase Date', key: 'purchase_date' },
+  { header: 'Sale Date', key: 'sale_date' },
+  { header: 'Units', key: 'units' },
+  { header: 'Purchase NAV', key: 'purchase_nav' },
+  { header: 'Sale NAV', key: 'sale_nav' },
+  { header: 'Purchase Value', key: 'purchase_value' },
+  { header: 'FMV NAV 31-Jan-2018', key: 'fmv_31jan2018' },
+  { header: 'Cost of Acquisition', key: 'cost_of_acquisition' },
+  { header: 'Sale Value', key: 'sale_value' },
+  { header: 'Gain', key: 'gain' },
+  { header: 'Holding Days', key: 'holding_days' },
+  { header: 'Term', key: 'term', value: row => row.term === 'long_term' ? 'LTCG' : 'STCG' },
+  { header: 'Grandfathered', key: 'grandfathered', value: row => row.grandfathered ? 'Yes' : 'No' }
+];
+
+export class CapitalGainsService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Get realised capital gains for a customer in a financial year
+   */
+  async getCapitalGainsReport(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    financialYear: string
+  ): Promise<CapitalGainsReport | null> {
+    try {
+      const range = CapitalGainsUtil.parseFinancialYear(financialYear);
+      if (!range) {
+        throw new Error(`Invalid financial year: ${financialYear}`);
+      }
+
+      const customerNames = await this.getCustomerNames(tenantId, isLive, [customerId]);
+      if (!customerNames.has(customerId)) {
+        return null;
+      }
+
+      // FIFO must replay the full history up to the end of the year
+      const match = await this.matchCustomerLots(tenantId, isLive, { customer_id: customerId, to_date: range.to });
+
+      const entries = match.realised.filter(
+        entry => entry.sale_date >= range.from && entry.sale_date <= range.to
+      );
+
+      return {
+        customer_id: customerId,
+        customer_name: customerNames.get(customerId),
+        financial_year: financialYear,
+        from_date: range.from,
+        to_date: range.to,
+        summary: CapitalGainsUtil.summarise(entries),
+        entries,
+        warnings: match.warnings
+      };
+    } catch (error: any) {
+      console.error('Error getting capital gains report:', error);
+      throw new Error(`Failed to get capital gains report: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get open FIFO lots for a customer valued at the latest NAV
+   */
+  async getUnrealisedGains(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number
+  ): Promise<UnrealisedGainsReport | null> {
+    try {
+      const customerNames = await this.getCustomerNames(tenantId, isLive, [customerId]);
+      if (!customerNames.has(customerId)) {
+        return null;
+      }
+
+      const asOfDate = PortfolioUtil.toDateKey(new Date());
+      const match = await this.matchCustomerLots(tenantId, isLive, { customer_id: customerId });
+      const latestNavs = await this.getLatestNavs(tenantId, isLive, match.open_lots.map(lot => lot.scheme_code));
+      const lots = CapitalGainsUtil.valueOpenLots(match.open_lots, latestNavs, asOfDate);
+
+      return {
+        customer_id: customerId,
+        customer_name: customerNames.get(customerId),
+        as_of_date: asOfDate,
+        summary: CapitalGainsUtil.totalUnrealised(lots),
+        holdings: CapitalGainsUtil.groupLotsByHolding(lots),
+        warnings: [...match.warnings, ...this.getMissingNavWarnings(match.open_lots, latestNavs)]
+      };
+    } catch (error: any) {
+      console.error('Error getting unrealised gains:', error);
+      throw new Error(`Failed to get unrealised gains: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tenant-wide tax harvesting candidates for a financial year
+   * - LTCG candidates: customers with unrealised long-term equity gains that can
+   *   be booked within the remaining annual exemption
+   * - Loss candidates: customers with realised gains this year and open lots
+   *   carrying unrealised losses that could offset them
+   */
+  async getTaxHarvestingReport(
+    tenantId: number,
+    isLive: boolean,
+    financialYear: string,
+    exemptionLimit?: number
+  ): Promise<TaxHarvestingReport> {
+    try {
+      const range = CapitalGainsUtil.parseFinancialYear(financialYear);
+      if (!range) {
+        throw new Error(`Invalid financial year: ${financialYear}`);
+      }
+
+      const limit = exemptionLimit ?? CapitalGainsUtil.getLtcgExemptionLimit(financialYear);
+      const asOfDate = PortfolioUtil.toDateKey(new Date());
+      const match = await this.matchCustomerLots(tenantId, isLive);
+      const latestNavs = await this.getLatestNavs(tenantId, isLive, match.open_lots.map(lot => lot.scheme_code));
+      const lots = CapitalGainsUtil.valueOpenLots(match.open_lots, latestNavs, asOfDate);
+
+      const realisedByCustomer = new Map<number, RealisedGainEntry[]>();
+      match.realised
+        .filter(entry => entry.sale_date >= range.from && entry.sale_date <= range.to)
+        .forEach(entry => {
+          if (!realisedByCustomer.has(entry.customer_id)) {
+            realisedByCustomer.set(entry.customer_id, []);
+          }
+          realisedByCustomer.get(entry.customer_id)!.push(entry);
+        });
+
+      const lotsByCustomer = new Map<number, typeof lots>();
+      lots.forEach(lot => {
+        if (!lotsByCustomer.has(lot.customer_id)) {
+          lotsByCustomer.set(lot.customer_id, []);
+        }
+        lotsByCustomer.get(lot.customer_id)!.push(lot);
+      });
+
+      const customerNames = await this.getCustomerNames(tenantId, isLive, Array.from(lotsByCustomer.keys()));
+      const ltcgCandidates: LtcgHarvestCandidate[] = [];
+      const lossCandidates: LossHarvestCandidate[] = [];
+
+      lotsByCustomer.forEach((customerLots, customerId) => {
+        // Skip inactive customers
+        if (!customerNames.has(customerId)) return;
+
+        const realised = CapitalGainsUtil.summarise(realisedByCustomer.get(customerId) || []);
+
+        const realisedEquityLtcg = realised.by_asset_class.equity.long_term_gain;
+        const remainingExemption = Math.max(0, limit - realisedEquityLtcg);
+        const unrealisedEquityLtcg = customerLots
+          .filter(lot => lot.asset_class === 'equity' && lot.term === 'long_term')
+          .reduce((sum, lot) => sum + lot.unrealised_gain, 0);
+
+        if (remainingExemption > 0 && unrealisedEquityLtcg > 0) {
+          const redemptions = CapitalGainsUtil.planLtcgHarvest(customerLots, remainingExemption);
+          if (redemptions.length > 0) {
+            ltcgCandidates.push({
+              customer_id: customerId,
+              customer_name: customerNames.get(customerId),
+              realised_equity_ltcg: realisedEquityLtcg,
+              remaining_exemption: PortfolioUtil.roundAmount(remainingExemption),
+              unrealised_equity_ltcg: PortfolioUtil.roundAmount(unrealisedEquityLtcg),
+              harvestable_gain: PortfolioUtil.roundAmount(
+                redemptions.reduce((sum, redemption) => sum + redemption.estimated_gain, 0)
+              ),
+              redemptions
+            });
+          }
+        }
+
+        const lossLots = customerLots.filter(lot => lot.unrealised_gain < 0);
+        if (realised.total_gain > 0 && lossLots.length > 0) {
+          lossCandidates.push({
+            customer_id: customerId,
+            customer_name: customerNames.get(customerId),
+            realised_short_term_gain: realised.short_term_gain,
+            realised_long_term_gain: realised.long_term_gain,
+            unrealised_loss: PortfolioUtil.roundAmount(
+              lossLots.reduce((sum, lot) => sum + lot.unrealised_gain, 0)
+            ),
+            lots: lossLots
+          });
+        }
+      });
+
+      return {
+        financial_year: financialYear,
+        as_of_date: asOfDate,
+        ltcg_exemption_limit: limit,
+        ltcg_candidates: ltcgCandidates.sort((a, b) => b.harvestable_gain - a.harvestable_gain),
+        loss_candidates: lossCandidates.sort((a, b) => a.unrealised_loss - b.unrealised_loss),
+        warnings: [...match.warnings, ...this.getMissingNavWarnings(match.open_lots, latestNavs)]
+      };
+    } catch (error: any) {
+      console.error('Error getting tax harvesting report:', error);
+      throw new Error(`Failed to get tax harvesting report: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run the FIFO matcher over a customer's (or the whole tenant's) transactions
+   */
+  async matchCustomerLots(
+    tenantId: number,
+    isLive: boolean,
+    filters: { customer_id?: number; to_date?: string } = {}
+  ): Promise<FifoMatchResult> {
+    const transactions = await this.getLotTransactions(tenantId, isLive, filters);
+    const schemeCodes = Array.from(new Set(transactions.map(t => t.scheme_code)));
+    const hasPre2018Purchases = transactions.some(
+      t => t.txn_type === 'Addition' && PortfolioUtil.toDateKey(t.txn_date) < GRANDFATHERING_CUTOFF_DATE
+    );
+
+    const fmv2018 = hasPre2018Purchases
+      ? await this.getGrandfatheringNavs(tenantId, isLive, schemeCodes)
+      : new Map<string, number>();
+
+    return CapitalGainsUtil.matchFifo(transactions, fmv2018);
+  }
+
+  /**
+   * Build a downloadable CSV or Excel file for a capital gains report
+   */
+  exportCapitalGainsReport(
+    report: CapitalGainsReport,
+    format: 'csv' | 'xlsx'
+  ): { filename: string; contentType: string; body: string | Buffer } {
+    const baseName = `capital_gains_${report.customer_id}_FY${report.financial_year}`;
+
+    if (format === 'csv') {
+      return {
+        filename: `${baseName}.csv`,
+        contentType: 'text/csv',
+        body: ExportUtil.toCsv(REALISED_GAIN_COLUMNS, report.entries)
+      };
+    }
+
+    const summaryRows = [
+      { label: 'Customer', value: report.customer_name || report.customer_id },
+      { label: 'Financial Year', value: report.financial_year },
+      { label: 'Short Term Gain', value: report.summary.short_term_gain },
+      { label: 'Long Term Gain', value: report.summary.long_term_gain },
+      { label: 'Total Gain', value: report.summary.total_gain },
+      { label: 'Equity STCG', value: report.summary.by_asset_class.equity.short_term_gain },
+      { label: 'Equity LTCG', value: report.summary.by_asset_class.equity.long_term_gain },
+      { label: 'Debt STCG', value: report.summary.by_asset_class.debt.short_term_gain },
+      { label: 'Debt LTCG', value: report.summary.by_asset_class.debt.long_term_gain },
+      { label: 'Other STCG', value: report.summary.by_asset_class.other.short_term_gain },
+      { label: 'Other LTCG', value: report.summary.by_asset_class.other.long_term_gain },
+      ...report.warnings.map(warning => ({ label: 'Warning', value: warning }))
+    ];
+
+    return {
+      filename: `${baseName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      body: ExportUtil.toXlsxBuffer([
+        {
+          name: 'Summary',
+          columns: [
+            { header: 'Item', key: 'label' },
+            { header: 'Value', key: 'value' }
+          ],
+          rows: summaryRows
+        },
+        { name: 'Realised Gains', columns: REALISED_GAIN_COLUMNS, rows: report.entries }
+      ])
+    };
+  }
+
+  /**
+   * Get portfolio transactions with the scheme category needed for tax rules
+   */
+  private async getLotTransactions(
+    tenantId: number,
+    isLive: boolean,
+    filters: { customer_id?: number; to_date?: string }
+  ): Promise<LotTransaction[]> {
+    const conditions = [
+      'tt.tenant_id = $1',
+      'tt.is_live = $2',
+      'tt.is_active = true',
+      'tt.portfolio_flag = true'
+    ];
+    const params: any[] = [tenantId, isLive];
+
+    if (filters.customer_id) {
+      params.push(filters.customer_id);
+      conditions.push(`tt.customer_id = $${params.length}`);
+    }
+
+    if (filters.to_date) {
+      params.push(filters.to_date);
+      conditions.push(`tt.txn_date <= $${params.length}`);
+    }
+
+    const query = `
+      SELECT
+        tt.id,
+        tt.customer_id,
+        tt.scheme_code,
+        tt.scheme_name,
+        tt.folio_no,
+        tt.txn_date,
+        mtt.txn_type,
+        tt.total_amount,
+        tt.units,
+        tt.nav,
+        COALESCE(pt.category, sm.name) as category,
+        pt.sub_category
+      FROM t_transaction_table tt
+      LEFT JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+      LEFT JOIN LATERAL (
+        SELECT category, sub_category
+        FROM t_customer_portfolio_totals
+        WHERE customer_id = tt.customer_id
+          AND scheme_code = tt.scheme_code
+          AND tenant_id = tt.tenant_id
+          AND is_live = tt.is_live
+        LIMIT 1
+      ) pt ON true
+      LEFT JOIN t_scheme_details sd ON sd.scheme_code = tt.scheme_code
+      LEFT JOIN t_scheme_masters sm ON sm.id = sd.scheme_category_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY tt.txn_date ASC, tt.id ASC
+    `;
+
+    const result = await this.db.query(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Get the NAV on 31-Jan-2018 (or the last NAV before it) for grandfathering
+   */
+  private async getGrandfatheringNavs(
+    tenantId: number,
+    isLive: boolean,
+    schemeCodes: string[]
+  ): Promise<Map<string, number>> {
+    const navs = new Map<string, number>();
+    if (schemeCodes.length === 0) return navs;
+
+    const query = `
+      SELECT DISTINCT ON (scheme_code) scheme_code, nav_value
+      FROM t_nav_data
+      WHERE tenant_id = $1 AND is_live = $2
+        AND scheme_code = ANY($3)
+        AND nav_date <= $4
+        AND nav_date >= ($4::date - INTERVAL '7 days')
+      ORDER BY scheme_code, nav_date DESC
+    `;
+
+    const result = await this.db.query(query, [tenantId, isLive, schemeCodes, GRANDFATHERING_FMV_DATE]);
+    result.rows.forEach(row => navs.set(row.scheme_code, parseFloat(row.nav_value)));
+
+    return navs;
+  }
+
+  /**
+   * Latest NAV per scheme code
+   */
+  private async getLatestNavs(
+    tenantId: number,
+    isLive: boolean,
+    schemeCodes: string[]
+  ): Promise<Map<string, { nav: number; date: string }>> {
+    const navs = new Map<string, { nav: number; date: string }>();
+    const uniqueCodes = Array.from(new Set(schemeCodes));
+    if (uniqueCodes.length === 0) return navs;
+
+    const query = `
+      SELECT DISTINCT ON (scheme_code) scheme_code, nav_date, nav_value
+      FROM t_nav_data
+      WHERE tenant_id = $1 AND is_live = $2 AND scheme_code = ANY($3)
+      ORDER BY scheme_code, nav_date DESC
+    `;
+
+    const result = await this.db.query(query, [tenantId, isLive, uniqueCodes]);
+    result.rows.forEach(row => navs.set(row.scheme_code, {
+      nav: parseFloat(row.nav_value),
+      date: PortfolioUtil.toDateKey(row.nav_date)
+    }));
+
+    return navs;
+  }
+
+  /**
+   * Warn about schemes valued at purchase NAV because no NAV data exists
+   */
+  private getMissingNavWarnings(
+    lots: { scheme_code: string; scheme_name: string }[],
+    latestNavs: Map<string, { nav: number; date: string }>
+  ): string[] {
+    const missing = new Map<string, string>();
+    lots
+      .filter(lot => !latestNavs.has(lot.scheme_code))
+      .forEach(lot => missing.set(lot.scheme_code, lot.scheme_name || lot.scheme_code));
+
+    return Array.from(missing.values()).map(
+      name => `No NAV data for ${name}; lots valued at purchase NAV`
+    );
+  }
+
+  /**
+   * Names of active customers, keyed by customer ID
+   */
+  private async getCustomerNames(
+    tenantId: number,
+    isLive: boolean,
+    customerIds: number[]
+  ): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    if (customerIds.length === 0) return names;
+
+    const query = `
+      SELECT cust.id, c.name
+      FROM t_customers cust
+      JOIN t_contacts c ON c.id = cust.contact_id
+      WHERE cust.id = ANY($1) AND cust.tenant_id = $2 AND cust.is_live = $3 AND cust.is_active = true
+    `;
+
+    const result = await this.db.query(query, [customerIds, tenantId, isLive]);
+    result.rows.forEach(row => names.set(row.id, row.name));
+
+    return names;
+  }
+}
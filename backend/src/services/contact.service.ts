@@ -3,6 +3,7 @@
 import { Pool } from 'pg';
 import { pool } from '../config/database';
 import { CustomerService } from './customer.service';
+import { ExportColumn } from '../utils/export.util';
 
 // Type definitions (temporary - should be in separate files)
 interface Contact {
@@ -21,6 +22,7 @@ interface Contact {
   primary_channel?: ContactChannel;
   email?: string;
   mobile?: string;
+  tags?: string[];
 }
 
 interface ContactChannel {
@@ -58,6 +60,7 @@ interface ContactSearchParams {
   channel_type?: string;
   has_customer?: boolean;
   is_active?: boolean;
+  tag?: string;
   page?: number;
   page_size?: number;
   sort_by?: string;
@@ -93,6 +96,81 @@ interface ConvertToCustomerRequest {
   [key: string]: any;
 }
 
+export type BulkContactAction =
+  | 'activate'
+  | 'deactivate'
+  | 'delete'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'convert_to_customer';
+
+export interface BulkContactActionRequest {
+  action: BulkContactAction;
+  contact_ids?: number[];
+  select_all?: boolean;              // Apply to every contact matching `filters`
+  filters?: ContactSearchParams;
+  tag?: string;                      // add_tag / remove_tag
+  customer_data?: ConvertToCustomerRequest; // convert_to_customer, shared by all contacts
+}
+
+export interface BulkContactActionResult {
+  contact_id: number;
+  success: boolean;
+  error?: string;
+  customer_id?: number;
+}
+
+export interface BulkContactActionResponse {
+  action: BulkContactAction;
+  total: number;
+  affected_count: number;
+  failed_count: number;
+  results: BulkContactActionResult[];
+}
+
+export const BULK_CONTACT_ACTIONS: BulkContactAction[] = [
+  'activate', 'deactivate', 'delete', 'add_tag', 'remove_tag', 'convert_to_customer'
+];
+
+// Upper bound on contacts touched by one bulk request (single transaction)
+export const MAX_BULK_CONTACTS = 5000;
+
+// Rows fetched per round trip when exporting
+const CONTACT_EXPORT_BATCH_SIZE = 1000;
+
+const joinChannels = (contact: Contact, types: string[]): string =>
+  (contact.channels || [])
+    .filter(channel => types.includes(channel.channel_type))
+    .map(channel => channel.channel_value)
+    .join('; ');
+
+// Columns available to the contact export, in default order
+export const CONTACT_EXPORT_COLUMNS: ExportColumn<Contact>[] = [
+  { header: 'ID', key: 'id' },
+  { header: 'Prefix', key: 'prefix' },
+  { header: 'Name', key: 'name' },
+  { header: 'Primary Email', key: 'email' },
+  { header: 'Primary Mobile', key: 'mobile' },
+  { header: 'All Emails', key: 'emails', value: contact => joinChannels(contact, ['email']) },
+  { header: 'All Mobiles', key: 'mobiles', value: contact => joinChannels(contact, ['mobile']) },
+  { header: 'WhatsApp', key: 'whatsapp', value: contact => joinChannels(contact, ['whatsapp']) },
+  { header: 'Telegram', key: 'telegram', value: contact => joinChannels(contact, ['telegram']) },
+  {
+    header: 'Other Channels',
+    key: 'other_channels',
+    value: contact => (contact.channels || [])
+      .filter(channel => !['email', 'mobile', 'whatsapp', 'telegram'].includes(channel.channel_type))
+      .map(channel => `${channel.channel_type}: ${channel.channel_value}`)
+      .join('; ')
+  },
+  { header: 'Tags', key: 'tags', value: contact => (contact.tags || []).join('; ') },
+  { header: 'Is Customer', key: 'is_customer', value: contact => (contact.is_customer ? 'Yes' : 'No') },
+  { header: 'Customer ID', key: 'customer_id' },
+  { header: 'Active', key: 'is_active', value: contact => (contact.is_active ? 'Yes' : 'No') },
+  { header: 'Created At', key: 'created_at' },
+  { header: 'Updated At', key: 'updated_at' }
+];
+
 export class ContactService {
   private db: Pool;
 
@@ -112,80 +190,14 @@ export class ContactService {
   ): Promise<ContactListResponse> {
     try {
       const {
-        search,
-        prefix,
-        channel_type,
-        has_customer,
-        is_active,
         page = 1,
         page_size = 20,
         sort_by = 'name',
         sort_order = 'asc'
       } = params;
 
-      const whereConditions: string[] = [
-        'c.tenant_id = $1',
-        'c.is_live = $2'
-      ];
-      const queryParams: any[] = [tenantId, isLive];
-      let paramIndex = 3;
-
-      if (search && search.trim()) {
-        whereConditions.push(`(
-          LOWER(c.name) LIKE LOWER($${paramIndex}) OR 
-          EXISTS (
-            SELECT 1 FROM t_contact_channels ch 
-            WHERE ch.contact_id = c.id 
-            AND ch.is_live = $2 
-            AND ch.is_active = true
-            AND LOWER(ch.channel_value) LIKE LOWER($${paramIndex})
-          )
-        )`);
-        queryParams.push(`%${search.trim()}%`);
-        paramIndex++;
-      }
-
-      if (prefix) {
-        whereConditions.push(`c.prefix = $${paramIndex}`);
-        queryParams.push(prefix);
-        paramIndex++;
-      }
-
-      if (channel_type) {
-        whereConditions.push(`EXISTS (
-          SELECT 1 FROM t_contact_channels ch 
-          WHERE ch.contact_id = c.id 
-          AND ch.is_live = $2 
-          AND ch.is_active = true
-          AND ch.channel_type = $${paramIndex}
-        )`);
-        queryParams.push(channel_type);
-        paramIndex++;
-      }
-
-      if (has_customer !== undefined) {
-        if (has_customer) {
-          whereConditions.push(`EXISTS (
-            SELECT 1 FROM t_customers cust 
-            WHERE cust.contact_id = c.id 
-            AND cust.is_live = $2 
-            AND cust.is_active = true
-          )`);
-        } else {
-          whereConditions.push(`NOT EXISTS (
-            SELECT 1 FROM t_customers cust 
-            WHERE cust.contact_id = c.id 
-            AND cust.is_live = $2 
-            AND cust.is_active = true
-          )`);
-        }
-      }
-
-      if (is_active !== undefined) {
-        whereConditions.push(`c.is_active = $${paramIndex}`);
-        queryParams.push(is_active);
-        paramIndex++;
-      }
+      const { whereConditions, queryParams } = this.buildContactFilters(tenantId, isLive, params);
+      const paramIndex = queryParams.length + 1;
 
       const validSortFields = ['name', 'created_at', 'updated_at', 'prefix'];
       const sortField = validSortFields.includes(sort_by) ? sort_by : 'name';
@@ -247,6 +259,71 @@ export class ContactService {
     }
   }
 
+  /**
+   * Walk every contact matching the list filters in batches
+   * Keyset pagination on (name, id) keeps memory flat for large exports.
+   * Returns the number of contacts visited.
+   */
+  async streamContacts(
+    tenantId: number,
+    isLive: boolean,
+    params: ContactSearchParams,
+    onBatch: (contacts: Contact[]) => Promise<void>,
+    batchSize: number = CONTACT_EXPORT_BATCH_SIZE
+  ): Promise<number> {
+    try {
+      const { whereConditions, queryParams } = this.buildContactFilters(tenantId, isLive, params);
+      const paramIndex = queryParams.length + 1;
+      let lastKey: { name: string; id: number } | null = null;
+      let count = 0;
+
+      for (;;) {
+        const conditions = lastKey
+          ? [...whereConditions, `(c.name, c.id) > ($${paramIndex + 1}, $${paramIndex + 2})`]
+          : whereConditions;
+        const values = lastKey
+          ? [...queryParams, batchSize, lastKey.name, lastKey.id]
+          : [...queryParams, batchSize];
+
+        const result = await this.db.query(
+          `SELECT 
+             c.*,
+             (
+               SELECT cust.id FROM t_customers cust 
+               WHERE cust.contact_id = c.id 
+               AND cust.is_live = $2 
+               AND cust.is_active = true
+               LIMIT 1
+             ) as customer_id
+           FROM t_contacts c
+           WHERE ${conditions.join(' AND ')}
+           ORDER BY c.name, c.id
+           LIMIT $${paramIndex}`,
+          values
+        );
+
+        if (result.rows.length === 0) break;
+
+        const contacts = await this.attachChannelsToContacts(
+          result.rows.map((row: any) => ({ ...row, is_customer: row.customer_id !== null })),
+          isLive
+        );
+        await onBatch(contacts);
+
+        count += contacts.length;
+        const last = result.rows[result.rows.length - 1];
+        lastKey = { name: last.name, id: last.id };
+
+        if (result.rows.length < batchSize) break;
+      }
+
+      return count;
+    } catch (error) {
+      console.error('Error streaming contacts:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get a single contact by ID
    */
@@ -844,6 +921,89 @@ export class ContactService {
     }
   }
 
+  /**
+   * Apply one action to many contacts
+   * Runs in a single transaction with a savepoint per contact, so one
+   * failing contact is reported without undoing the others.
+   */
+  async bulkAction(
+    tenantId: number,
+    isLive: boolean,
+    request: BulkContactActionRequest,
+    userId: number
+  ): Promise<BulkContactActionResponse> {
+    const contactIds = request.select_all
+      ? await this.getMatchingContactIds(tenantId, isLive, request.filters || {})
+      : Array.from(new Set(request.contact_ids || []));
+
+    if (contactIds.length > MAX_BULK_CONTACTS) {
+      throw new Error(`Bulk actions are limited to ${MAX_BULK_CONTACTS} contacts; narrow the filters and retry`);
+    }
+
+    const customerService = new CustomerService();
+    const tag = request.tag?.trim();
+    const results: BulkContactActionResult[] = [];
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const contactId of contactIds) {
+        await client.query('SAVEPOINT bulk_contact');
+
+        try {
+          if (request.action === 'convert_to_customer') {
+            const customerId = await customerService.convertContactToCustomerWithClient(
+              client,
+              tenantId,
+              isLive,
+              contactId,
+              request.customer_data || {},
+              userId
+            );
+            results.push({ contact_id: contactId, success: true, customer_id: customerId });
+          } else {
+            const update = this.getBulkUpdate(request.action);
+            const result = await client.query(
+              `UPDATE t_contacts
+               SET ${update}, updated_at = CURRENT_TIMESTAMP
+               WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+               RETURNING id`,
+              update.includes('$4') ? [contactId, tenantId, isLive, tag] : [contactId, tenantId, isLive]
+            );
+
+            if (result.rows.length === 0) {
+              throw new Error('Contact not found');
+            }
+            results.push({ contact_id: contactId, success: true });
+          }
+
+          await client.query('RELEASE SAVEPOINT bulk_contact');
+        } catch (error: any) {
+          await client.query('ROLLBACK TO SAVEPOINT bulk_contact');
+          results.push({ contact_id: contactId, success: false, error: error.message || 'Failed' });
+        }
+      }
+
+      await client.query('COMMIT');
+
+      const affected = results.filter(result => result.success).length;
+      return {
+        action: request.action,
+        total: results.length,
+        affected_count: affected,
+        failed_count: results.length - affected,
+        results
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error running bulk contact action:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Convert contact to customer
    */
@@ -917,6 +1077,125 @@ export class ContactService {
     return result.rows[0];
   }
 
+  /**
+   * IDs of every contact matching the list filters (bulk "select all")
+   */
+  private async getMatchingContactIds(
+    tenantId: number,
+    isLive: boolean,
+    filters: ContactSearchParams
+  ): Promise<number[]> {
+    const { whereConditions, queryParams } = this.buildContactFilters(tenantId, isLive, filters);
+    const result = await this.db.query(
+      `SELECT c.id FROM t_contacts c WHERE ${whereConditions.join(' AND ')} ORDER BY c.id`,
+      queryParams
+    );
+    return result.rows.map((row: any) => row.id);
+  }
+
+  /**
+   * SET clause for the update-style bulk actions ($4 is the tag)
+   * Soft delete matches deleteContact: the contact is marked inactive.
+   */
+  private getBulkUpdate(action: BulkContactAction): string {
+    switch (action) {
+      case 'activate':
+        return 'is_active = true';
+      case 'deactivate':
+      case 'delete':
+        return 'is_active = false';
+      case 'add_tag':
+        return 'tags = CASE WHEN $4 = ANY(tags) THEN tags ELSE array_append(tags, $4::text) END';
+      case 'remove_tag':
+        return 'tags = array_remove(tags, $4::text)';
+      default:
+        throw new Error(`Unsupported bulk action: ${action}`);
+    }
+  }
+
+  /**
+   * WHERE conditions shared by the contact list and export
+   */
+  private buildContactFilters(
+    tenantId: number,
+    isLive: boolean,
+    params: ContactSearchParams
+  ): { whereConditions: string[]; queryParams: any[] } {
+    const { search, prefix, channel_type, has_customer, is_active, tag } = params;
+
+    const whereConditions: string[] = [
+      'c.tenant_id = $1',
+      'c.is_live = $2'
+    ];
+    const queryParams: any[] = [tenantId, isLive];
+    let paramIndex = 3;
+
+    if (search && search.trim()) {
+      whereConditions.push(`(
+        LOWER(c.name) LIKE LOWER($${paramIndex}) OR 
+        EXISTS (
+          SELECT 1 FROM t_contact_channels ch 
+          WHERE ch.contact_id = c.id 
+          AND ch.is_live = $2 
+          AND ch.is_active = true
+          AND LOWER(ch.channel_value) LIKE LOWER($${paramIndex})
+        )
+      )`);
+      queryParams.push(`%${search.trim()}%`);
+      paramIndex++;
+    }
+
+    if (prefix) {
+      whereConditions.push(`c.prefix = $${paramIndex}`);
+      queryParams.push(prefix);
+      paramIndex++;
+    }
+
+    if (channel_type) {
+      whereConditions.push(`EXISTS (
+        SELECT 1 FROM t_contact_channels ch 
+        WHERE ch.contact_id = c.id 
+        AND ch.is_live = $2 
+        AND ch.is_active = true
+        AND ch.channel_type = $${paramIndex}
+      )`);
+      queryParams.push(channel_type);
+      paramIndex++;
+    }
+
+    if (has_customer !== undefined) {
+      if (has_customer) {
+        whereConditions.push(`EXISTS (
+          SELECT 1 FROM t_customers cust 
+          WHERE cust.contact_id = c.id 
+          AND cust.is_live = $2 
+          AND cust.is_active = true
+        )`);
+      } else {
+        whereConditions.push(`NOT EXISTS (
+          SELECT 1 FROM t_customers cust 
+          WHERE cust.contact_id = c.id 
+          AND cust.is_live = $2 
+          AND cust.is_active = true
+        )`);
+      }
+    }
+
+    if (is_active !== undefined) {
+      whereConditions.push(`c.is_active = $${paramIndex}`);
+      queryParams.push(is_active);
+      paramIndex++;
+    }
+
+    if (tag) {
+      whereConditions.push(`$${paramIndex} = ANY(c.tags)`);
+      queryParams.push(tag);
+      paramIndex++;
+    }
+
+    return { whereConditions, queryParams };
+  }
+
   private async attachChannelsToContacts(contacts: any[], isLive: boolean): Promise<Contact[]> {
     if (contacts.length === 0) return [];
 
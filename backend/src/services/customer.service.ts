@@ -1,6 +1,6 @@
 // backend/src/services/customer.service.ts
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { pool } from '../config/database';
 import { EncryptionUtil } from '../utils/encryption.util';
 import {
@@ -15,6 +15,10 @@ import {
   ConvertToCustomerRequest
 } from '../types/customer.types';
 
+// Partial unique index on active customers' PAN blind index (migration "Customer blind index")
+const PAN_UNIQUE_INDEX = 'idx_customers_pan_bidx';
+const PAN_EXISTS_MESSAGE = 'A customer with this PAN already exists';
+
 export class CustomerService {
   private db: Pool;
 
@@ -33,6 +37,8 @@ export class CustomerService {
     try {
       const {
         search,
+        pan,
+        iwell_code,
         survival_status,
         onboarding_status,
         has_address,
@@ -59,6 +65,21 @@ export class CustomerService {
         paramIndex++;
       }
 
+      // Exact match on the encrypted fields via their blind indexes
+      const panIndex = EncryptionUtil.blindIndex(pan);
+      if (panIndex) {
+        whereConditions.push(`cust.pan_bidx = $${paramIndex}`);
+        queryParams.push(panIndex);
+        paramIndex++;
+      }
+
+      const iwellIndex = EncryptionUtil.blindIndex(iwell_code);
+      if (iwellIndex) {
+        whereConditions.push(`cust.iwell_code_bidx = $${paramIndex}`);
+        queryParams.push(iwellIndex);
+        paramIndex++;
+      }
+
       if (survival_status) {
         whereConditions.push(`cust.survival_status = $${paramIndex}`);
         queryParams.push(survival_status);
@@ -246,17 +267,24 @@ export class CustomerService {
       // Encrypt sensitive data
       const panEncrypted = data.pan ? EncryptionUtil.encrypt(data.pan) : null;
       const iwellCodeEncrypted = data.iwell_code ? EncryptionUtil.encrypt(data.iwell_code) : null;
+      const panIndex = EncryptionUtil.blindIndex(data.pan);
+      const iwellIndex = EncryptionUtil.blindIndex(data.iwell_code);
+
+      if (panIndex) {
+        await this.ensurePanIsUnique(client, tenantId, isLive, panIndex);
+      }
 
       // Insert customer
       const customerQuery = `
         INSERT INTO t_customers (
           contact_id, tenant_id, is_live,
           pan_encrypted, iwell_code_encrypted,
+          pan_bidx, iwell_code_bidx,
           date_of_birth, anniversary_date,
           family_head_name, family_head_iwell_code,
           referred_by, referred_by_name,
           created_by
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         RETURNING id
       `;
 
@@ -266,6 +294,8 @@ export class CustomerService {
         isLive,
         panEncrypted,
         iwellCodeEncrypted,
+        panIndex,
+        iwellIndex,
         data.date_of_birth,
         data.anniversary_date,
         data.family_head_name,
@@ -301,7 +331,7 @@ export class CustomerService {
     } catch (error) {
       await client.query('ROLLBACK');
       console.error('Error creating customer:', error);
-      throw error;
+      throw CustomerService.mapPanConflict(error);
     } finally {
       client.release();
     }
@@ -322,70 +352,14 @@ export class CustomerService {
     try {
       await client.query('BEGIN');
 
-      // Check if contact exists
-      const contactCheck = await client.query(
-        'SELECT id, name FROM t_contacts WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true',
-        [contactId, tenantId, isLive]
-      );
-
-      if (contactCheck.rows.length === 0) {
-        throw new Error('Contact not found');
-      }
-
-      // Check if already a customer
-      const existingCheck = await client.query(
-        'SELECT id FROM t_customers WHERE contact_id = $1 AND tenant_id = $2 AND is_live = $3',
-        [contactId, tenantId, isLive]
-      );
-
-      if (existingCheck.rows.length > 0) {
-        throw new Error('Contact is already a customer');
-      }
-
-      // Encrypt sensitive data
-      const panEncrypted = data.pan ? EncryptionUtil.encrypt(data.pan) : null;
-      const iwellCodeEncrypted = data.iwell_code ? EncryptionUtil.encrypt(data.iwell_code) : null;
-
-      // Insert customer record
-      const customerQuery = `
-        INSERT INTO t_customers (
-          contact_id, tenant_id, is_live,
-          pan_encrypted, iwell_code_encrypted,
-          date_of_birth, anniversary_date,
-          family_head_name, family_head_iwell_code,
-          referred_by, referred_by_name,
-          created_by
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-        RETURNING id
-      `;
-
-      const customerResult = await client.query(customerQuery, [
-        contactId,
+      const customerId = await this.convertContactToCustomerWithClient(
+        client,
         tenantId,
         isLive,
-        panEncrypted,
-        iwellCodeEncrypted,
-        data.date_of_birth,
-        data.anniversary_date,
-        data.family_head_name,
-        data.family_head_iwell_code,
-        data.referred_by,
-        data.referred_by_name,
+        contactId,
+        data,
         createdBy
-      ]);
-
-      const customerId = customerResult.rows[0].id;
-
-      // Add address if provided
-      if (data.address) {
-        await this.addAddressInternal(
-          client,
-          customerId,
-          tenantId,
-          isLive,
-          data.address
-        );
-      }
+      );
 
       await client.query('COMMIT');
 
@@ -405,6 +379,97 @@ export class CustomerService {
     }
   }
 
+  /**
+   * Create the customer record for a contact inside a caller-managed transaction
+   * Used by single and bulk conversion; returns the new customer ID
+   */
+  async convertContactToCustomerWithClient(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    contactId: number,
+    data: ConvertToCustomerRequest,
+    createdBy: number
+  ): Promise<number> {
+    // Check if contact exists
+    const contactCheck = await client.query(
+      'SELECT id, name FROM t_contacts WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true',
+      [contactId, tenantId, isLive]
+    );
+
+    if (contactCheck.rows.length === 0) {
+      throw new Error('Contact not found');
+    }
+
+    // Check if already a customer
+    const existingCheck = await client.query(
+      'SELECT id FROM t_customers WHERE contact_id = $1 AND tenant_id = $2 AND is_live = $3',
+      [contactId, tenantId, isLive]
+    );
+
+    if (existingCheck.rows.length > 0) {
+      throw new Error('Contact is already a customer');
+    }
+
+    // Encrypt sensitive data
+    const panEncrypted = data.pan ? EncryptionUtil.encrypt(data.pan) : null;
+    const iwellCodeEncrypted = data.iwell_code ? EncryptionUtil.encrypt(data.iwell_code) : null;
+    const panIndex = EncryptionUtil.blindIndex(data.pan);
+    const iwellIndex = EncryptionUtil.blindIndex(data.iwell_code);
+
+    if (panIndex) {
+      await this.ensurePanIsUnique(client, tenantId, isLive, panIndex);
+    }
+
+    // Insert customer record
+    const customerQuery = `
+      INSERT INTO t_customers (
+        contact_id, tenant_id, is_live,
+        pan_encrypted, iwell_code_encrypted,
+        pan_bidx, iwell_code_bidx,
+        date_of_birth, anniversary_date,
+        family_head_name, family_head_iwell_code,
+        referred_by, referred_by_name,
+        created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING id
+    `;
+
+    const customerResult = await client.query(customerQuery, [
+      contactId,
+      tenantId,
+      isLive,
+      panEncrypted,
+      iwellCodeEncrypted,
+      panIndex,
+      iwellIndex,
+      data.date_of_birth,
+      data.anniversary_date,
+      data.family_head_name,
+      data.family_head_iwell_code,
+      data.referred_by,
+      data.referred_by_name,
+      createdBy
+    ]).catch(error => {
+      throw CustomerService.mapPanConflict(error);
+    });
+
+    const customerId = customerResult.rows[0].id;
+
+    // Add address if provided
+    if (data.address) {
+      await this.addAddressInternal(
+        client,
+        customerId,
+        tenantId,
+        isLive,
+        data.address
+      );
+    }
+
+    return customerId;
+  }
+
   /**
    * Update customer
    */
@@ -420,15 +485,26 @@ export class CustomerService {
       let paramIndex = 4;
 
       if (data.pan !== undefined) {
+        const panIndex = EncryptionUtil.blindIndex(data.pan);
+        if (panIndex) {
+          await this.ensurePanIsUnique(this.db, tenantId, isLive, panIndex, customerId);
+        }
+
         updateFields.push(`pan_encrypted = $${paramIndex}`);
         queryParams.push(data.pan ? EncryptionUtil.encrypt(data.pan) : null);
         paramIndex++;
+        updateFields.push(`pan_bidx = $${paramIndex}`);
+        queryParams.push(panIndex);
+        paramIndex++;
       }
 
       if (data.iwell_code !== undefined) {
         updateFields.push(`iwell_code_encrypted = $${paramIndex}`);
         queryParams.push(data.iwell_code ? EncryptionUtil.encrypt(data.iwell_code) : null);
         paramIndex++;
+        updateFields.push(`iwell_code_bidx = $${paramIndex}`);
+        queryParams.push(EncryptionUtil.blindIndex(data.iwell_code));
+        paramIndex++;
       }
 
       if (data.date_of_birth !== undefined) {
@@ -496,7 +572,7 @@ export class CustomerService {
       return customer;
     } catch (error) {
       console.error('Error updating customer:', error);
-      throw error;
+      throw CustomerService.mapPanConflict(error);
     }
   }
 
@@ -608,6 +684,40 @@ export class CustomerService {
 
   // ==================== PRIVATE HELPERS ====================
 
+  /**
+   * The "PAN already exists" error for a unique violation on the PAN blind index
+   * The index backs ensurePanIsUnique when two writes with the same PAN race; other errors pass through.
+   */
+  static mapPanConflict(error: any): any {
+    if (error?.code === '23505' && error.constraint === PAN_UNIQUE_INDEX) {
+      return new Error(PAN_EXISTS_MESSAGE);
+    }
+    return error;
+  }
+
+  /**
+   * Reject a PAN already held by another active customer (matched on its blind index)
+   */
+  private async ensurePanIsUnique(
+    db: Pool | PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    panIndex: string,
+    excludeCustomerId?: number
+  ): Promise<void> {
+    const result = await db.query(
+      `SELECT id FROM t_customers
+       WHERE tenant_id = $1 AND is_live = $2 AND is_active = true
+         AND pan_bidx = $3 AND id <> $4
+       LIMIT 1`,
+      [tenantId, isLive, panIndex, excludeCustomerId ?? 0]
+    );
+
+    if (result.rows.length > 0) {
+      throw new Error(PAN_EXISTS_MESSAGE);
+    }
+  }
+
   private async processCustomerRows(rows: any[], isLive: boolean, maskSensitiveData: boolean = false): Promise<CustomerWithContact[]> {
   const customerIds = rows.map(r => r.id);
   
@@ -6,6 +6,7 @@ import { EncryptionUtil } from '../utils/encryption.util';
 
 export class CustomerLookupService {
   private db: Pool;
+  private readonly BACKFILL_BATCH_SIZE = 500;
   
   constructor() {
     this.db = pool;
@@ -17,37 +18,178 @@ export class CustomerLookupService {
     isLive: boolean
   ): Promise<number | null> {
     try {
-      const upperIwell = iwellCodePlain.toUpperCase();
-      
-      // Get all customers with encrypted IWELL codes
+      const iwellIndex = EncryptionUtil.blindIndex(iwellCodePlain);
+      if (!iwellIndex) {
+        return null;
+      }
+
       const query = `
-        SELECT id, iwell_code_encrypted 
+        SELECT id
         FROM t_customers
         WHERE tenant_id = $1 
           AND is_live = $2 
           AND is_active = true
-          AND iwell_code_encrypted IS NOT NULL
+          AND iwell_code_bidx = $3
+        ORDER BY id
+        LIMIT 1
       `;
       
-      const result = await this.db.query(query, [tenantId, isLive]);
-      
-      // Decrypt each and compare
-      for (const customer of result.rows) {
-        try {
-          const decrypted = EncryptionUtil.decrypt(customer.iwell_code_encrypted);
-          if (decrypted === upperIwell) {
-            return customer.id;
+      const result = await this.db.query(query, [tenantId, isLive, iwellIndex]);
+      return result.rows.length > 0 ? result.rows[0].id : null;
+    } catch (error) {
+      console.error('Error finding customer by IWELL code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a batch of IWELL codes in one query
+   * Returns customer IDs keyed by the uppercased IWELL code; unmatched codes are absent
+   */
+  async resolveCustomersByIwellCodes(
+    iwellCodes: string[],
+    tenantId: number,
+    isLive: boolean
+  ): Promise<Map<string, number>> {
+    try {
+      const codesByIndex = new Map<string, string>();
+      for (const code of iwellCodes) {
+        const iwellIndex = EncryptionUtil.blindIndex(code);
+        if (iwellIndex) {
+          codesByIndex.set(iwellIndex, code.trim().toUpperCase());
+        }
+      }
+
+      const customers = new Map<string, number>();
+      if (codesByIndex.size === 0) {
+        return customers;
+      }
+
+      const query = `
+        SELECT id, iwell_code_bidx
+        FROM t_customers
+        WHERE tenant_id = $1
+          AND is_live = $2
+          AND is_active = true
+          AND iwell_code_bidx = ANY($3)
+        ORDER BY id
+      `;
+
+      const result = await this.db.query(query, [tenantId, isLive, Array.from(codesByIndex.keys())]);
+
+      // Lowest ID wins, matching findCustomerByIwellCode
+      for (const row of result.rows) {
+        const code = codesByIndex.get(row.iwell_code_bidx);
+        if (code && !customers.has(code)) {
+          customers.set(code, row.id);
+        }
+      }
+
+      return customers;
+    } catch (error) {
+      console.error('Error resolving customers by IWELL codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill pan_bidx / iwell_code_bidx for customers that have an encrypted value but no index yet
+   * Optionally limited to one tenant/environment; returns the number of customers updated
+   * PANs stored as a SHA-256 digest by the SQL import processor stay unindexed and are reported.
+   */
+  async backfillBlindIndexes(tenantId?: number, isLive?: boolean): Promise<number> {
+    let lastId = 0;
+    let updated = 0;
+    let hashedPans = 0;
+
+    try {
+      while (true) {
+        const params: any[] = [lastId, this.BACKFILL_BATCH_SIZE];
+        let scope = '';
+        if (tenantId !== undefined && isLive !== undefined) {
+          scope = 'AND tenant_id = $3 AND is_live = $4';
+          params.push(tenantId, isLive);
+        }
+
+        const result = await this.db.query(`
+          SELECT id, pan_encrypted, iwell_code_encrypted, pan_bidx, iwell_code_bidx
+          FROM t_customers
+          WHERE id > $1
+            AND (
+              (pan_encrypted IS NOT NULL AND pan_bidx IS NULL)
+              OR (iwell_code_encrypted IS NOT NULL AND iwell_code_bidx IS NULL)
+            )
+            ${scope}
+          ORDER BY id
+          LIMIT $2
+        `, params);
+
+        if (result.rows.length === 0) {
+          break;
+        }
+
+        const ids: number[] = [];
+        const panIndexes: (string | null)[] = [];
+        const iwellIndexes: (string | null)[] = [];
+
+        for (const row of result.rows) {
+          if (!row.pan_bidx && EncryptionUtil.isDigest(row.pan_encrypted)) {
+            hashedPans++;
+          }
+
+          let panIndex: string | null;
+          let iwellIndex: string | null;
+          try {
+            panIndex = row.pan_bidx || EncryptionUtil.blindIndex(this.readStoredValue(row.pan_encrypted));
+            iwellIndex = row.iwell_code_bidx || EncryptionUtil.blindIndex(this.readStoredValue(row.iwell_code_encrypted));
+          } catch (error: any) {
+            // Left unindexed (and retried next run) rather than indexed from a wrong value
+            console.error(`Failed to index customer ${row.id}:`, error.message);
+            continue;
+          }
+
+          if (panIndex !== row.pan_bidx || iwellIndex !== row.iwell_code_bidx) {
+            ids.push(row.id);
+            panIndexes.push(panIndex);
+            iwellIndexes.push(iwellIndex);
           }
-        } catch (error) {
-          // Skip customers with decryption errors
-          continue;
         }
+
+        if (ids.length > 0) {
+          await this.db.query(`
+            UPDATE t_customers c
+            SET pan_bidx = v.pan_bidx,
+                iwell_code_bidx = v.iwell_code_bidx
+            FROM unnest($1::int[], $2::varchar[], $3::varchar[]) AS v(id, pan_bidx, iwell_code_bidx)
+            WHERE c.id = v.id
+          `, [ids, panIndexes, iwellIndexes]);
+          updated += ids.length;
+        }
+
+        lastId = result.rows[result.rows.length - 1].id;
       }
-      
-      return null;
+
+      if (hashedPans > 0) {
+        console.warn(
+          `${hashedPans} customer PAN(s) are stored as a SHA-256 digest and cannot be indexed; ` +
+          'they are not found by PAN lookups until the PAN is re-entered or re-imported'
+        );
+      }
+
+      return updated;
     } catch (error) {
-      console.error('Error finding customer by IWELL code:', error);
+      console.error('Error backfilling customer blind indexes:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Plain value of an *_encrypted column
+   * Rows created by the SQL import processor hold the uppercased plain value rather than iv:ciphertext,
+   * or for PANs a SHA-256 digest, which has no plain value to return
+   */
+  private readStoredValue(stored: string | null): string | null {
+    if (!stored || EncryptionUtil.isDigest(stored)) return null;
+    return EncryptionUtil.isEncrypted(stored) ? EncryptionUtil.decrypt(stored) : stored;
+  }
+}
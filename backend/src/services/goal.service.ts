@@ -0,0 +1,334 @@
+// backend/src/services/goal.service.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/database';
+import {
+  CustomerGoal,
+  CreateGoalRequest,
+  UpdateGoalRequest,
+  GoalHoldingLink,
+  GoalProjection
+} from '../types/goal.types';
+import { GoalUtil } from '../utils/goal.util';
+import { PortfolioUtil } from '../utils/portfolio.util';
+
+export class GoalService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Get all active goals for a customer with live progress
+   */
+  async getGoals(tenantId: number, isLive: boolean, customerId: number): Promise<CustomerGoal[] | null> {
+    try {
+      const exists = await this.customerExists(tenantId, isLive, customerId);
+      if (!exists) return null;
+
+      return await this.loadGoals(tenantId, isLive, customerId);
+    } catch (error: any) {
+      console.error('Error getting goals:', error);
+      throw new Error(`Failed to get goals: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a single goal with live progress
+   */
+  async getGoal(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    goalId: number
+  ): Promise<CustomerGoal | null> {
+    try {
+      const goals = await this.loadGoals(tenantId, isLive, customerId, goalId);
+      return goals.length > 0 ? goals[0] : null;
+    } catch (error: any) {
+      console.error('Error getting goal:', error);
+      throw new Error(`Failed to get goal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a goal and link holdings to it
+   */
+  async createGoal(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    data: CreateGoalRequest,
+    userId: number
+  ): Promise<CustomerGoal | null> {
+    const exists = await this.customerExists(tenantId, isLive, customerId);
+    if (!exists) return null;
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO t_customer_goals (
+           tenant_id, is_live, customer_id, goal_type, name, target_amount, target_date,
+           expected_return, monthly_contribution, priority, notes, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING id`,
+        [
+          tenantId,
+          isLive,
+          customerId,
+          data.goal_type,
+          data.name,
+          data.target_amount,
+          data.target_date,
+          data.expected_return ?? 12,
+          data.monthly_contribution ?? 0,
+          data.priority ?? 1,
+          data.notes || null,
+          userId
+        ]
+      );
+
+      const goalId = result.rows[0].id;
+      await this.replaceHoldings(client, goalId, data.holdings || []);
+
+      await client.query('COMMIT');
+
+      return await this.getGoal(tenantId, isLive, customerId, goalId);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error creating goal:', error);
+      throw new Error(`Failed to create goal: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a goal; holdings are replaced when provided
+   */
+  async updateGoal(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    goalId: number,
+    data: UpdateGoalRequest
+  ): Promise<CustomerGoal | null> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const fields: Array<keyof UpdateGoalRequest> = [
+        'goal_type', 'name', 'target_amount', 'target_date',
+        'expected_return', 'monthly_contribution', 'priority', 'notes'
+      ];
+      const updates: string[] = [];
+      const params: any[] = [goalId, tenantId, isLive, customerId];
+
+      fields.forEach(field => {
+        if (data[field] !== undefined) {
+          params.push(data[field]);
+          updates.push(`${field} = $${params.length}`);
+        }
+      });
+
+      const result = await client.query(
+        `UPDATE t_customer_goals
+         SET ${[...updates, 'updated_at = NOW()'].join(', ')}
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND customer_id = $4 AND is_active = true
+         RETURNING id`,
+        params
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      if (data.holdings !== undefined) {
+        await this.replaceHoldings(client, goalId, data.holdings);
+      }
+
+      await client.query('COMMIT');
+
+      return await this.getGoal(tenantId, isLive, customerId, goalId);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error updating goal:', error);
+      throw new Error(`Failed to update goal: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Soft delete a goal
+   */
+  async deleteGoal(tenantId: number, isLive: boolean, customerId: number, goalId: number): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `UPDATE t_customer_goals
+         SET is_active = false, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND customer_id = $4 AND is_active = true`,
+        [goalId, tenantId, isLive, customerId]
+      );
+
+      return (result.rowCount || 0) > 0;
+    } catch (error: any) {
+      console.error('Error deleting goal:', error);
+      throw new Error(`Failed to delete goal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Projected corpus curve from today to the goal's target date
+   */
+  async getGoalProjection(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    goalId: number
+  ): Promise<GoalProjection | null> {
+    try {
+      const goal = await this.getGoal(tenantId, isLive, customerId, goalId);
+      if (!goal) return null;
+
+      const asOfDate = PortfolioUtil.toDateKey(new Date());
+
+      return {
+        goal_id: goal.id,
+        customer_id: goal.customer_id,
+        target_amount: goal.target_amount,
+        target_date: goal.target_date,
+        expected_return: goal.expected_return,
+        monthly_contribution: goal.monthly_contribution,
+        progress: goal.progress,
+        series: GoalUtil.buildProjection(goal, goal.progress.current_value, asOfDate)
+      };
+    } catch (error: any) {
+      console.error('Error getting goal projection:', error);
+      throw new Error(`Failed to get goal projection: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load goals with linked holdings valued from the portfolio totals view
+   */
+  private async loadGoals(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    goalId?: number
+  ): Promise<CustomerGoal[]> {
+    const params: any[] = [tenantId, isLive, customerId];
+    let goalCondition = '';
+
+    if (goalId !== undefined) {
+      params.push(goalId);
+      goalCondition = `AND g.id = $${params.length}`;
+    }
+
+    const goalsResult = await this.db.query(
+      `SELECT g.*
+       FROM t_customer_goals g
+       WHERE g.tenant_id = $1 AND g.is_live = $2 AND g.customer_id = $3 AND g.is_active = true
+         ${goalCondition}
+       ORDER BY g.priority ASC, g.target_date ASC`,
+      params
+    );
+
+    if (goalsResult.rows.length === 0) return [];
+
+    const linksResult = await this.db.query(
+      `SELECT id, goal_id, scheme_code, folio_no, allocation_percentage
+       FROM t_customer_goal_holdings
+       WHERE goal_id = ANY($1)
+       ORDER BY id ASC`,
+      [goalsResult.rows.map(row => row.id)]
+    );
+
+    const holdingsResult = await this.db.query(
+      `SELECT scheme_code, scheme_name, folio_no, current_value
+       FROM t_customer_portfolio_totals
+       WHERE customer_id = $1 AND tenant_id = $2 AND is_live = $3`,
+      [customerId, tenantId, isLive]
+    );
+
+    const asOfDate = PortfolioUtil.toDateKey(new Date());
+
+    return goalsResult.rows.map(row => {
+      const holdings: GoalHoldingLink[] = linksResult.rows
+        .filter(link => link.goal_id === row.id)
+        .map(link => {
+          const matches = holdingsResult.rows.filter(holding =>
+            holding.scheme_code === link.scheme_code &&
+            (!link.folio_no || holding.folio_no === link.folio_no)
+          );
+          const allocation = parseFloat(link.allocation_percentage);
+          const value = matches.reduce((sum, holding) => sum + (parseFloat(holding.current_value) || 0), 0);
+
+          return {
+            id: link.id,
+            scheme_code: link.scheme_code,
+            folio_no: link.folio_no,
+            allocation_percentage: allocation,
+            scheme_name: matches.length > 0 ? matches[0].scheme_name : undefined,
+            current_value: PortfolioUtil.roundAmount((value * allocation) / 100)
+          };
+        });
+
+      const plan = {
+        target_amount: parseFloat(row.target_amount),
+        target_date: PortfolioUtil.toDateKey(row.target_date),
+        expected_return: parseFloat(row.expected_return),
+        monthly_contribution: parseFloat(row.monthly_contribution) || 0
+      };
+      const currentValue = holdings.reduce((sum, holding) => sum + (holding.current_value || 0), 0);
+
+      return {
+        id: row.id,
+        customer_id: row.customer_id,
+        goal_type: row.goal_type,
+        name: row.name,
+        ...plan,
+        priority: row.priority,
+        notes: row.notes || undefined,
+        holdings,
+        progress: GoalUtil.calculateProgress(plan, currentValue, asOfDate),
+        created_at: row.created_at,
+        updated_at: row.updated_at
+      };
+    });
+  }
+
+  /**
+   * Replace the holdings linked to a goal
+   */
+  private async replaceHoldings(client: PoolClient, goalId: number, holdings: GoalHoldingLink[]): Promise<void> {
+    await client.query('DELETE FROM t_customer_goal_holdings WHERE goal_id = $1', [goalId]);
+
+    for (const holding of holdings) {
+      await client.query(
+        `INSERT INTO t_customer_goal_holdings (goal_id, scheme_code, folio_no, allocation_percentage)
+         VALUES ($1, $2, $3, $4)`,
+        [goalId, holding.scheme_code, holding.folio_no || null, holding.allocation_percentage ?? 100]
+      );
+    }
+  }
+
+  /**
+   * Check that an active customer exists
+   */
+  private async customerExists(tenantId: number, isLive: boolean, customerId: number): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM t_customers
+       WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+      [customerId, tenantId, isLive]
+    );
+    return result.rows.length > 0;
+  }
+}
@@ -7,11 +7,16 @@ import {
   ImportSession, 
   ImportFieldMapping,
   FileImportType,
+  ImportEngine,
   ValidationResult
 } from '../types/import.types';
 import { FileParserService } from './fileParser.service';
 import { StagingService, StagingResult, StagingRecord } from './staging.service';
 import { SchemeService } from './scheme.service';  
+import { ImportProcessorService } from './importProcessor.service';
+
+// 'node' processes customer/transaction imports in ImportProcessorService instead of the SQL functions
+const IMPORT_ENGINE: ImportEngine = process.env.IMPORT_ENGINE === 'node' ? 'node' : 'database';
 
 interface CreateFileUploadParams {
   tenantId: number;
@@ -274,6 +279,28 @@ export class ImportService {
     }
   }
 
+  /**
+   * Move a staged session to processing in one statement; false when it is not (or no longer) staged
+   */
+  async claimStagedSession(tenantId: number, isLive: boolean, sessionId: number): Promise<boolean> {
+    try {
+      const result = await this.db.query(`
+        UPDATE t_import_sessions
+        SET status = 'processing', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND status = 'staged'
+        RETURNING id
+      `, [sessionId, tenantId, isLive]);
+
+      return result.rows.length > 0;
+    } catch (error: any) {
+      console.error('Error claiming import session:', error);
+      SimpleLogger.error('ImportService', 'Failed to claim import session', 'claimStagedSession', {
+        sessionId, tenantId, isLive, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Cancel import session
    */
@@ -927,6 +954,26 @@ export class ImportService {
   }
 
 
+  /**
+   * Start processing a staged session with the configured (or given) import engine
+   * Scheme imports always use the database functions.
+   */
+  async triggerProcessing(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    importType: string,
+    userId: number,
+    targetDurationMs: number = 30000,
+    engine: ImportEngine = IMPORT_ENGINE
+  ): Promise<{ success: boolean; error?: string }> {
+    if (engine === 'node' && (importType === 'CustomerData' || importType === 'TransactionData')) {
+      return new ImportProcessorService().start(tenantId, isLive, sessionId, importType, userId);
+    }
+
+    return this.triggerDatabaseProcessing(sessionId, importType, targetDurationMs);
+  }
+
 /**
  * Trigger database function to process import with controlled timing
  */
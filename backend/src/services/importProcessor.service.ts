@@ -0,0 +1,896 @@
+// backend/src/services/importProcessor.service.ts
+// Node-side processing of staged customer and transaction imports (alternative to the SQL functions).
+// Each batch claims its staging rows, applies them and updates the session counters in one transaction;
+// a record that fails is rolled back to its savepoint without losing the rest of the batch.
+// Cancellation (cancelImportSession) is checked between batches.
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import { StagingService, StagingRecord } from './staging.service';
+import { CustomerService } from './customer.service';
+import { CustomerLookupService } from './customerLookup.service';
+import { TransactionService } from './transaction.service';
+import { ImportRollbackService } from './importRollback.service';
+import { EncryptionUtil } from '../utils/encryption.util';
+import { ImportRulesUtil } from '../utils/importRules.util';
+import { TransactionUtil } from '../utils/transaction.util';
+import {
+  CustomerImportDraft,
+  CustomerImportSnapshot,
+  ImportPreview,
+  ImportPreviewRow,
+  ImportProcessorResult,
+  ImportRecordPlan
+} from '../types/import.types';
+
+const DEFAULT_BATCH_SIZE = 100;
+const PREVIEW_PAGE_SIZE = 500;
+// Rows returned with a preview; the summary always covers the whole session
+const PREVIEW_ROW_LIMIT = 1000;
+
+// Sessions being processed by this instance
+const runningSessions = new Set<number>();
+
+interface ImportPlanContext {
+  tenantId: number;
+  isLive: boolean;
+  sessionId: number;
+  importType: string;
+  // m_transaction_types id by upper-cased txn_code
+  txnTypes: Map<string, number>;
+  // Duplicate hashes of transactions planned earlier in this run
+  seenTransactions: Set<string>;
+}
+
+interface SessionCounts {
+  processed: number;
+  successful: number;
+  failed: number;
+  duplicates: number;
+  skipped: number;
+}
+
+export class ImportProcessorService {
+  private db: Pool;
+  private stagingService: StagingService;
+  private customerService: CustomerService;
+  private customerLookup: CustomerLookupService;
+  private transactionService: TransactionService;
+  private rollbackService: ImportRollbackService;
+
+  constructor() {
+    this.db = pool;
+    this.stagingService = new StagingService();
+    this.customerService = new CustomerService();
+    this.customerLookup = new CustomerLookupService();
+    this.transactionService = new TransactionService();
+    this.rollbackService = new ImportRollbackService();
+  }
+
+  /**
+   * Start processing a staged session in the background
+   */
+  async start(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    importType: string,
+    userId: number
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (importType !== 'CustomerData' && importType !== 'TransactionData') {
+        throw new Error(`The node import engine does not support ${importType}`);
+      }
+
+      if (runningSessions.has(sessionId)) {
+        throw new Error('Import session is already being processed');
+      }
+
+      const sessionResult = await this.db.query(
+        'SELECT staging_total_rows FROM t_import_sessions WHERE id = $1 AND tenant_id = $2 AND is_live = $3',
+        [sessionId, tenantId, isLive]
+      );
+
+      if (sessionResult.rows.length === 0) {
+        throw new Error('Session not found');
+      }
+
+      if (!sessionResult.rows[0].staging_total_rows) {
+        throw new Error('No records to process');
+      }
+
+      // Don't await - let it run in background
+      this.processSession(tenantId, isLive, sessionId, importType, userId).catch(() => {
+        // Already logged and recorded on the session
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error starting import processing:', error);
+      SimpleLogger.error('ImportProcessor', 'Failed to start import processing', 'start', {
+        sessionId, importType, error: error.message
+      }, userId, tenantId, error.stack);
+      return {
+        success: false,
+        error: error.message || 'Failed to start processing'
+      };
+    }
+  }
+
+  /**
+   * Process every pending staging row of a session, batch by batch
+   */
+  async processSession(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    importType: string,
+    userId: number
+  ): Promise<ImportProcessorResult> {
+    if (runningSessions.has(sessionId)) {
+      throw new Error('Import session is already being processed');
+    }
+
+    runningSessions.add(sessionId);
+    const startedAt = Date.now();
+
+    try {
+      const batchSize = await this.beginSession(tenantId, isLive, sessionId);
+      const ctx = await this.createContext(tenantId, isLive, sessionId, importType);
+
+      let batches = 0;
+      let cancelled = false;
+
+      while (true) {
+        if (await this.isCancelled(sessionId)) {
+          cancelled = true;
+          await this.skipPendingRecords(sessionId);
+          break;
+        }
+
+        const processedInBatch = await this.processBatch(ctx, batchSize, userId);
+        if (processedInBatch === 0) break;
+        batches++;
+      }
+
+      const counts = await this.updateSessionCounters(this.db, sessionId);
+      const status = cancelled ? 'cancelled' : ImportRulesUtil.resolveSessionStatus(counts);
+
+      // A cancel that lands after the last batch still wins
+      await this.db.query(`
+        UPDATE t_import_sessions
+        SET status = CASE WHEN status = 'processing' THEN $2 ELSE status END,
+            processing_completed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [sessionId, status]);
+
+      const result: ImportProcessorResult = {
+        sessionId,
+        status,
+        ...counts,
+        batches,
+        cancelled,
+        durationMs: Date.now() - startedAt
+      };
+
+      SimpleLogger.info('ImportProcessor', 'Import processing finished', 'processSession', result, userId, tenantId);
+
+      return result;
+    } catch (error: any) {
+      console.error(`Processing error for session ${sessionId}:`, error);
+      SimpleLogger.error('ImportProcessor', 'Import processing failed', 'processSession', {
+        sessionId, importType, error: error.message
+      }, userId, tenantId, error.stack);
+
+      await this.db.query(`
+        UPDATE t_import_sessions
+        SET status = 'failed', error_summary = $2, processing_completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [sessionId, error.message]).catch(updateError => {
+        console.error('Error recording import failure:', updateError);
+      });
+
+      throw error;
+    } finally {
+      runningSessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Dry run: evaluate every pending staging row without writing to master tables
+   */
+  async previewSession(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    importType: string
+  ): Promise<ImportPreview> {
+    try {
+      if (importType !== 'CustomerData' && importType !== 'TransactionData') {
+        throw new Error(`Dry run is not available for ${importType}`);
+      }
+
+      await this.indexCustomers(tenantId, isLive, sessionId);
+
+      const ctx = await this.createContext(tenantId, isLive, sessionId, importType);
+      const preview: ImportPreview = {
+        sessionId,
+        importType,
+        summary: { total: 0, create: 0, update: 0, duplicate: 0, invalid: 0 },
+        rows: [],
+        truncated: false
+      };
+
+      // Customers the file itself creates, by PAN/IWELL code; the real run matches later rows against them
+      const plannedCustomers = new Map<string, number>();
+      let lastRowNumber = 0;
+
+      while (true) {
+        const result = await this.db.query(`
+          SELECT * FROM t_import_staging_data
+          WHERE session_id = $1 AND processing_status = 'pending' AND row_number > $2
+          ORDER BY row_number ASC
+          LIMIT $3
+        `, [sessionId, lastRowNumber, PREVIEW_PAGE_SIZE]);
+
+        if (result.rows.length === 0) break;
+
+        for (const record of result.rows as StagingRecord[]) {
+          // A row that cannot be evaluated (e.g. a stored PAN no key decrypts) fails on its own, not the dry run
+          const plan = await this.planRecord(this.db, ctx, record)
+            .catch((error: any) => this.invalidPlan(ctx, record, error.message));
+
+          if (plan.customer && plan.action === 'create') {
+            this.matchPlannedCustomer(plan, plannedCustomers);
+          }
+
+          preview.summary[plan.action]++;
+          preview.summary.total++;
+
+          if (preview.rows.length < PREVIEW_ROW_LIMIT) {
+            preview.rows.push(this.toPreviewRow(plan));
+          } else {
+            preview.truncated = true;
+          }
+        }
+
+        lastRowNumber = result.rows[result.rows.length - 1].row_number;
+      }
+
+      await this.db.query(`
+        UPDATE t_import_sessions
+        SET processing_metadata = COALESCE(processing_metadata, '{}'::jsonb) || jsonb_build_object('dry_run', $2::jsonb),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [sessionId, JSON.stringify({ ...preview.summary, evaluated_at: new Date().toISOString() })]);
+
+      return preview;
+    } catch (error: any) {
+      console.error('Error previewing import:', error);
+      SimpleLogger.error('ImportProcessor', 'Failed to preview import', 'previewSession', {
+        sessionId, importType, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to preview import: ${error.message}`);
+    }
+  }
+
+  /**
+   * Decide what a staged row would do, without writing anything
+   */
+  async planRecord(
+    db: Pool | PoolClient,
+    ctx: ImportPlanContext,
+    record: StagingRecord
+  ): Promise<ImportRecordPlan> {
+    const mapped = record.mapped_data || {};
+
+    if (ctx.importType === 'TransactionData') {
+      return this.planTransaction(db, ctx, record, mapped);
+    }
+
+    return this.planCustomer(db, ctx, record, mapped);
+  }
+
+  /**
+   * Plan for a row whose evaluation threw
+   */
+  private invalidPlan(ctx: ImportPlanContext, record: StagingRecord, error: string): ImportRecordPlan {
+    return {
+      staging_id: record.id,
+      row_number: record.row_number,
+      record_type: ctx.importType === 'TransactionData' ? 'transaction' : 'customer',
+      action: 'invalid',
+      target_id: null,
+      changes: [],
+      errors: [error],
+      warnings: []
+    };
+  }
+
+  private async planCustomer(
+    db: Pool | PoolClient,
+    ctx: ImportPlanContext,
+    record: StagingRecord,
+    mapped: Record<string, any>
+  ): Promise<ImportRecordPlan> {
+    const { draft, errors, warnings } = ImportRulesUtil.buildCustomerDraft(mapped);
+
+    const plan: ImportRecordPlan = {
+      staging_id: record.id,
+      row_number: record.row_number,
+      record_type: 'customer',
+      action: 'create',
+      target_id: null,
+      changes: [],
+      errors,
+      warnings,
+      customer: draft
+    };
+
+    if (errors.length > 0) {
+      plan.action = 'invalid';
+      return plan;
+    }
+
+    const existing = await this.findExistingCustomer(db, ctx, draft);
+    if (existing) {
+      plan.target_id = existing.customer_id;
+      plan.changes = ImportRulesUtil.diffCustomer(existing, draft);
+      if (plan.changes.length > 0) {
+        plan.action = 'update';
+      } else {
+        plan.action = 'duplicate';
+        plan.warnings.push('Customer already exists');
+      }
+      return plan;
+    }
+
+    if (await this.hasMatchingChannel(db, ctx, draft)) {
+      plan.action = 'duplicate';
+      plan.warnings.push('A contact with this email or mobile already exists');
+    }
+
+    return plan;
+  }
+
+  private async planTransaction(
+    db: Pool | PoolClient,
+    ctx: ImportPlanContext,
+    record: StagingRecord,
+    mapped: Record<string, any>
+  ): Promise<ImportRecordPlan> {
+    // Staging resolves customer_id up front; rows staged before the customer existed are looked up again
+    let customerId = Number(mapped.customer_id) || null;
+    const iwellCode = ImportRulesUtil.text(mapped.iwell_code);
+    if (!customerId && iwellCode) {
+      customerId = await this.customerLookup.findCustomerByIwellCode(iwellCode, ctx.tenantId, ctx.isLive);
+    }
+
+    const txnCode = (ImportRulesUtil.text(mapped.txn_code) || '').toUpperCase();
+    const { draft, errors, warnings } = ImportRulesUtil.buildTransactionDraft(mapped, {
+      customerId,
+      txnTypeId: ctx.txnTypes.get(txnCode) || null
+    });
+
+    const plan: ImportRecordPlan = {
+      staging_id: record.id,
+      row_number: record.row_number,
+      record_type: 'transaction',
+      action: 'create',
+      target_id: null,
+      changes: [],
+      errors,
+      warnings
+    };
+
+    if (!draft) {
+      plan.action = 'invalid';
+      return plan;
+    }
+
+    plan.transaction = draft;
+
+    const hash = TransactionUtil.generateDuplicateHash(draft);
+    if (ctx.seenTransactions.has(hash)) {
+      plan.action = 'duplicate';
+      plan.warnings.push('Duplicate of an earlier row in this import');
+      return plan;
+    }
+
+    const duplicateCheck = await this.transactionService.checkDuplicate(ctx.tenantId, ctx.isLive, draft, db);
+    if (duplicateCheck.is_duplicate) {
+      plan.action = 'duplicate';
+      plan.warnings.push(TransactionUtil.generateDuplicateReason(duplicateCheck.count));
+      return plan;
+    }
+
+    ctx.seenTransactions.add(hash);
+    return plan;
+  }
+
+  /**
+   * Write a planned row; returns the created or updated record id (null when nothing was written)
+   */
+  private async applyPlan(
+    client: PoolClient,
+    ctx: ImportPlanContext,
+    plan: ImportRecordPlan,
+    userId: number
+  ): Promise<number | null> {
+    if (plan.action === 'invalid' || plan.action === 'duplicate') {
+      return null;
+    }
+
+    if (plan.transaction) {
+      const transaction = await this.transactionService.createTransactionWithClient(client, ctx.tenantId, ctx.isLive, {
+        ...plan.transaction,
+        folio_no: plan.transaction.folio_no || undefined,
+        stamp_duty: plan.transaction.stamp_duty ?? undefined,
+        staging_record_id: plan.staging_id,
+        import_session_id: ctx.sessionId
+      });
+      return transaction.id;
+    }
+
+    if (plan.action === 'update') {
+      await this.updateCustomer(client, ctx, plan);
+      return plan.target_id;
+    }
+
+    return this.createCustomer(client, ctx, plan.customer!, userId);
+  }
+
+  private async processBatch(
+    ctx: ImportPlanContext,
+    batchSize: number,
+    userId: number
+  ): Promise<number> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const records = await this.stagingService.getNextBatch(ctx.sessionId, batchSize, client);
+      if (records.length === 0) {
+        await client.query('COMMIT');
+        return 0;
+      }
+
+      await this.stagingService.markRecordsAsProcessing(records.map(r => r.id), client);
+
+      for (const record of records) {
+        await this.processRecord(client, ctx, record, userId);
+      }
+
+      await this.updateSessionCounters(client, ctx.sessionId, records[records.length - 1].row_number);
+
+      await client.query('COMMIT');
+      return records.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async processRecord(
+    client: PoolClient,
+    ctx: ImportPlanContext,
+    record: StagingRecord,
+    userId: number
+  ): Promise<void> {
+    let plan: ImportRecordPlan | null = null;
+
+    await client.query('SAVEPOINT import_record');
+
+    try {
+      plan = await this.planRecord(client, ctx, record);
+      const recordId = await this.applyPlan(client, ctx, plan, userId);
+
+      const status = plan.action === 'invalid' ? 'failed' : plan.action === 'duplicate' ? 'duplicate' : 'success';
+      await this.completeRecord(client, record.id, status, plan, recordId);
+
+      await client.query('RELEASE SAVEPOINT import_record');
+    } catch (error: any) {
+      await client.query('ROLLBACK TO SAVEPOINT import_record');
+
+      // The row was never written, so later identical rows are not its duplicates
+      if (plan?.transaction && plan.action === 'create') {
+        ctx.seenTransactions.delete(TransactionUtil.generateDuplicateHash(plan.transaction));
+      }
+
+      await this.completeRecord(client, record.id, 'failed', {
+        errors: [error.message],
+        warnings: plan?.warnings || []
+      }, null);
+    }
+  }
+
+  private async completeRecord(
+    client: PoolClient,
+    stagingId: number,
+    status: 'success' | 'failed' | 'duplicate',
+    plan: Pick<ImportRecordPlan, 'errors' | 'warnings'> & Partial<Pick<ImportRecordPlan, 'record_type'>>,
+    recordId: number | null
+  ): Promise<void> {
+    await client.query(`
+      UPDATE t_import_staging_data
+      SET processing_status = $2,
+          created_record_id = $3,
+          created_record_type = $4,
+          error_messages = $5,
+          warnings = NULLIF(COALESCE(warnings, '{}'::text[]) || $6::text[], '{}'::text[]),
+          processed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [
+      stagingId,
+      status,
+      recordId,
+      recordId ? plan.record_type : null,
+      plan.errors.length > 0 ? plan.errors : null,
+      plan.warnings
+    ]);
+  }
+
+  private async createCustomer(
+    client: PoolClient,
+    ctx: ImportPlanContext,
+    draft: CustomerImportDraft,
+    userId: number
+  ): Promise<number> {
+    const contactResult = await client.query(`
+      INSERT INTO t_contacts (tenant_id, is_live, prefix, name, is_customer, created_by)
+      VALUES ($1, $2, $3, $4, true, $5)
+      RETURNING id
+    `, [ctx.tenantId, ctx.isLive, draft.prefix, draft.name, userId]);
+
+    const contactId = contactResult.rows[0].id;
+
+    const channels = [
+      { type: 'email', value: draft.email, isPrimary: true },
+      { type: 'mobile', value: draft.mobile, isPrimary: !draft.email }
+    ];
+
+    for (const channel of channels) {
+      if (!channel.value) continue;
+      await client.query(`
+        INSERT INTO t_contact_channels
+        (contact_id, tenant_id, is_live, channel_type, channel_value, channel_subtype, is_primary)
+        VALUES ($1, $2, $3, $4, $5, 'personal', $6)
+      `, [contactId, ctx.tenantId, ctx.isLive, channel.type, channel.value, channel.isPrimary]);
+    }
+
+    return this.customerService.convertContactToCustomerWithClient(
+      client,
+      ctx.tenantId,
+      ctx.isLive,
+      contactId,
+      {
+        pan: draft.pan || undefined,
+        iwell_code: draft.iwell_code || undefined,
+        date_of_birth: draft.date_of_birth || undefined,
+        anniversary_date: draft.anniversary_date || undefined,
+        family_head_name: draft.family_head_name || undefined,
+        family_head_iwell_code: draft.family_head_iwell_code || undefined,
+        referred_by_name: draft.referred_by_name || undefined,
+        address: draft.address
+          ? { ...draft.address, address_line2: draft.address.address_line2 || undefined, is_primary: true }
+          : undefined
+      },
+      userId
+    );
+  }
+
+  private async updateCustomer(
+    client: PoolClient,
+    ctx: ImportPlanContext,
+    plan: ImportRecordPlan
+  ): Promise<void> {
+    const updateFields: string[] = [];
+    const updatedColumns: string[] = [];
+    const queryParams: any[] = [plan.target_id, ctx.tenantId, ctx.isLive];
+    const change = { sessionId: ctx.sessionId, tenantId: ctx.tenantId, isLive: ctx.isLive, stagingRecordId: plan.staging_id };
+
+    for (const fieldChange of plan.changes) {
+      if (fieldChange.field === 'name') {
+        const contactResult = await client.query('SELECT contact_id FROM t_customers WHERE id = $1', [plan.target_id]);
+        const contactId = contactResult.rows[0].contact_id;
+
+        await this.rollbackService.captureBeforeImage(client, change, 'contact', contactId, ['name']);
+        await client.query(
+          'UPDATE t_contacts SET name = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+          [fieldChange.to, contactId]
+        );
+        continue;
+      }
+
+      if (fieldChange.field === 'pan' || fieldChange.field === 'iwell_code') {
+        queryParams.push(EncryptionUtil.encrypt(fieldChange.to!));
+        updateFields.push(`${fieldChange.field}_encrypted = $${queryParams.length}`);
+        queryParams.push(EncryptionUtil.blindIndex(fieldChange.to));
+        updateFields.push(`${fieldChange.field}_bidx = $${queryParams.length}`);
+        updatedColumns.push(`${fieldChange.field}_encrypted`, `${fieldChange.field}_bidx`);
+        continue;
+      }
+
+      queryParams.push(fieldChange.to);
+      updateFields.push(`${fieldChange.field} = $${queryParams.length}`);
+      updatedColumns.push(fieldChange.field);
+    }
+
+    if (updateFields.length === 0) return;
+
+    // Before-image for POST /api/import/sessions/:id/rollback
+    await this.rollbackService.captureBeforeImage(client, change, 'customer', plan.target_id!, updatedColumns);
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+
+    await client.query(`
+      UPDATE t_customers
+      SET ${updateFields.join(', ')}
+      WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+    `, queryParams).catch(error => {
+      throw CustomerService.mapPanConflict(error);
+    });
+  }
+
+  /**
+   * Existing customer with the row's PAN, otherwise its IWELL code
+   */
+  private async findExistingCustomer(
+    db: Pool | PoolClient,
+    ctx: ImportPlanContext,
+    draft: CustomerImportDraft
+  ): Promise<CustomerImportSnapshot | null> {
+    const panIndex = EncryptionUtil.blindIndex(draft.pan);
+    const iwellIndex = EncryptionUtil.blindIndex(draft.iwell_code);
+    if (!panIndex && !iwellIndex) return null;
+
+    const result = await db.query(`
+      SELECT
+        cu.id AS customer_id,
+        cu.contact_id,
+        c.name,
+        cu.pan_encrypted,
+        cu.iwell_code_encrypted,
+        to_char(cu.date_of_birth, 'YYYY-MM-DD') AS date_of_birth,
+        to_char(cu.anniversary_date, 'YYYY-MM-DD') AS anniversary_date,
+        cu.family_head_name,
+        cu.family_head_iwell_code,
+        cu.referred_by_name
+      FROM t_customers cu
+      JOIN t_contacts c ON c.id = cu.contact_id
+      WHERE cu.tenant_id = $1
+        AND cu.is_live = $2
+        AND cu.is_active = true
+        AND (cu.pan_bidx = $3 OR cu.iwell_code_bidx = $4)
+      ORDER BY (cu.pan_bidx IS NOT DISTINCT FROM $3) DESC, cu.id
+      LIMIT 1
+    `, [ctx.tenantId, ctx.isLive, panIndex, iwellIndex]);
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      customer_id: row.customer_id,
+      contact_id: row.contact_id,
+      name: row.name,
+      pan: this.readStoredValue(row.pan_encrypted),
+      iwell_code: this.readStoredValue(row.iwell_code_encrypted),
+      date_of_birth: row.date_of_birth,
+      anniversary_date: row.anniversary_date,
+      family_head_name: row.family_head_name,
+      family_head_iwell_code: row.family_head_iwell_code,
+      referred_by_name: row.referred_by_name
+    };
+  }
+
+  /**
+   * Whether an active contact in the tenant already uses the row's email or mobile
+   */
+  private async hasMatchingChannel(
+    db: Pool | PoolClient,
+    ctx: ImportPlanContext,
+    draft: CustomerImportDraft
+  ): Promise<boolean> {
+    const mobileDigits = ImportRulesUtil.mobileDigits(draft.mobile);
+    if (!draft.email && !mobileDigits) return false;
+
+    const result = await db.query(`
+      SELECT 1
+      FROM t_contact_channels ch
+      JOIN t_contacts c ON c.id = ch.contact_id
+      WHERE ch.tenant_id = $1
+        AND ch.is_live = $2
+        AND c.is_active = true
+        AND (
+          (ch.channel_type = 'email' AND LOWER(ch.channel_value) = $3)
+          OR (ch.channel_type = 'mobile' AND regexp_replace(ch.channel_value, '[^0-9]', '', 'g') = $4)
+        )
+      LIMIT 1
+    `, [ctx.tenantId, ctx.isLive, draft.email, mobileDigits]);
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Stored PAN/IWELL value; rows written by the SQL import functions hold plaintext,
+   * or for PAN a SHA-256 digest, which cannot be compared and reads as no value
+   */
+  private readStoredValue(stored: string | null): string | null {
+    if (!stored || EncryptionUtil.isDigest(stored)) return null;
+    return EncryptionUtil.isEncrypted(stored) ? EncryptionUtil.decrypt(stored) : stored;
+  }
+
+  /**
+   * A second row with the PAN/IWELL code of a row planned as new would match that customer
+   */
+  private matchPlannedCustomer(plan: ImportRecordPlan, plannedCustomers: Map<string, number>): void {
+    const keys = [
+      plan.customer!.pan ? `pan:${plan.customer!.pan}` : null,
+      plan.customer!.iwell_code ? `iwell:${plan.customer!.iwell_code}` : null
+    ].filter((key): key is string => !!key);
+
+    const earlierRow = keys.map(key => plannedCustomers.get(key)).find(row => row !== undefined);
+    if (earlierRow !== undefined) {
+      plan.action = 'duplicate';
+      plan.warnings.push(`Same PAN or IWELL code as row ${earlierRow}`);
+      return;
+    }
+
+    keys.forEach(key => plannedCustomers.set(key, plan.row_number));
+  }
+
+  private toPreviewRow(plan: ImportRecordPlan): ImportPreviewRow {
+    const label = plan.transaction
+      ? `${plan.transaction.scheme_name} · ${plan.transaction.txn_date} · ${plan.transaction.total_amount}`
+      : plan.customer?.name || '';
+
+    return {
+      row_number: plan.row_number,
+      action: plan.action,
+      label,
+      target_id: plan.target_id,
+      changes: plan.changes.map(change => change.field === 'pan'
+        ? { ...change, from: change.from && EncryptionUtil.maskPAN(change.from), to: change.to && EncryptionUtil.maskPAN(change.to) }
+        : change
+      ),
+      errors: plan.errors,
+      warnings: plan.warnings
+    };
+  }
+
+  private async createContext(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    importType: string
+  ): Promise<ImportPlanContext> {
+    const txnTypes = new Map<string, number>();
+
+    if (importType === 'TransactionData') {
+      const result = await this.db.query('SELECT id, txn_code FROM m_transaction_types WHERE is_active = true');
+      for (const row of result.rows) {
+        txnTypes.set(String(row.txn_code).toUpperCase(), row.id);
+      }
+    }
+
+    return {
+      tenantId,
+      isLive,
+      sessionId,
+      importType,
+      txnTypes,
+      seenTransactions: new Set<string>()
+    };
+  }
+
+  /**
+   * Backfill missing PAN/IWELL blind indexes so rows match customers created outside the API
+   * (e.g. by the SQL import functions) instead of duplicating them
+   */
+  private async indexCustomers(tenantId: number, isLive: boolean, sessionId: number): Promise<void> {
+    const indexed = await this.customerLookup.backfillBlindIndexes(tenantId, isLive);
+    if (indexed > 0) {
+      SimpleLogger.info('ImportProcessor', 'Indexed customers before import', 'indexCustomers', {
+        sessionId, indexed
+      }, undefined, tenantId);
+    }
+  }
+
+  /**
+   * Mark the session as processing and size its batches; returns the batch size
+   */
+  private async beginSession(tenantId: number, isLive: boolean, sessionId: number): Promise<number> {
+    await this.indexCustomers(tenantId, isLive, sessionId);
+
+    const result = await this.db.query(`
+      UPDATE t_import_sessions s
+      SET status = 'processing',
+          processing_started_at = CURRENT_TIMESTAMP,
+          processing_completed_at = NULL,
+          error_summary = NULL,
+          batch_size = COALESCE(s.batch_size, $4),
+          total_records = p.total,
+          total_batches = CEIL(p.pending::numeric / COALESCE(s.batch_size, $4)),
+          current_batch = 0,
+          processing_metadata = COALESCE(s.processing_metadata, '{}'::jsonb) || jsonb_build_object('engine', 'node'),
+          updated_at = CURRENT_TIMESTAMP
+      FROM (
+        SELECT
+          COUNT(*) AS total,
+          COUNT(*) FILTER (WHERE processing_status = 'pending') AS pending
+        FROM t_import_staging_data
+        WHERE session_id = $1
+      ) p
+      WHERE s.id = $1 AND s.tenant_id = $2 AND s.is_live = $3
+      RETURNING s.batch_size
+    `, [sessionId, tenantId, isLive, DEFAULT_BATCH_SIZE]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    return result.rows[0].batch_size;
+  }
+
+  private async isCancelled(sessionId: number): Promise<boolean> {
+    const result = await this.db.query('SELECT status FROM t_import_sessions WHERE id = $1', [sessionId]);
+    return result.rows[0]?.status === 'cancelled';
+  }
+
+  private async skipPendingRecords(sessionId: number): Promise<void> {
+    await this.db.query(`
+      UPDATE t_import_staging_data
+      SET processing_status = 'skipped',
+          warnings = array_append(COALESCE(warnings, '{}'::text[]), 'Import cancelled'),
+          processed_at = CURRENT_TIMESTAMP
+      WHERE session_id = $1 AND processing_status = 'pending'
+    `, [sessionId]);
+  }
+
+  /**
+   * Recount the session's staging rows into its live counters
+   * With lastProcessedRow, also records a finished batch.
+   */
+  private async updateSessionCounters(
+    db: Pool | PoolClient,
+    sessionId: number,
+    lastProcessedRow?: number
+  ): Promise<SessionCounts> {
+    const result = await db.query(`
+      UPDATE t_import_sessions s
+      SET processed_records = c.processed,
+          successful_records = c.successful,
+          failed_records = c.failed,
+          duplicate_records = c.duplicates,
+          current_batch = CASE WHEN $2::integer IS NULL THEN s.current_batch ELSE COALESCE(s.current_batch, 0) + 1 END,
+          last_processed_row = COALESCE($2::integer, s.last_processed_row),
+          updated_at = CURRENT_TIMESTAMP
+      FROM (
+        SELECT
+          COUNT(*) FILTER (WHERE processing_status IN ('success', 'failed', 'duplicate', 'skipped')) AS processed,
+          COUNT(*) FILTER (WHERE processing_status = 'success') AS successful,
+          COUNT(*) FILTER (WHERE processing_status = 'failed') AS failed,
+          COUNT(*) FILTER (WHERE processing_status = 'duplicate') AS duplicates,
+          COUNT(*) FILTER (WHERE processing_status = 'skipped') AS skipped
+        FROM t_import_staging_data
+        WHERE session_id = $1
+      ) c
+      WHERE s.id = $1
+      RETURNING c.processed, c.successful, c.failed, c.duplicates, c.skipped
+    `, [sessionId, lastProcessedRow ?? null]);
+
+    const row = result.rows[0] || {};
+    return {
+      processed: parseInt(row.processed) || 0,
+      successful: parseInt(row.successful) || 0,
+      failed: parseInt(row.failed) || 0,
+      duplicates: parseInt(row.duplicates) || 0,
+      skipped: parseInt(row.skipped) || 0
+    };
+  }
+}
@@ -0,0 +1,360 @@
+// backend/src/services/importRollback.service.ts
+// Undo an import session: soft-delete the rows it inserted and restore the before-images of rows it updated.
+// Inserted rows are found through the staging records (created_record_id/type) and
+// t_transaction_table.import_session_id; updates through t_import_change_log, written at processing time.
+// SIP registrations created from the session's transactions carry the same import_session_id.
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import { PortfolioService } from './portfolio.service';
+import {
+  ImportChangeEntity,
+  ImportRollbackImpact,
+  ImportRollbackResult
+} from '../types/import.types';
+
+const CHANGE_LOG_TABLES: Record<ImportChangeEntity, string> = {
+  customer: 't_customers',
+  contact: 't_contacts',
+  scheme: 't_scheme_details'
+};
+
+const COLUMN_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+// Sessions that have finished writing; anything else has nothing (or not yet everything) to undo
+const ROLLBACK_STATUSES = ['completed', 'completed_with_errors', 'cancelled', 'failed'];
+
+interface ImportChange {
+  id: number;
+  entity_type: ImportChangeEntity;
+  entity_id: number;
+  before_image: Record<string, any>;
+}
+
+interface RollbackTargets {
+  transactionIds: number[];
+  sipIds: number[];
+  customerIds: number[];
+  contactIds: number[];
+  addressIds: number[];
+  schemeIds: number[];
+  changes: ImportChange[];
+  keptCustomers: number;
+  unrestorableUpdates: number;
+}
+
+export class ImportRollbackService {
+  private db: Pool;
+  private portfolioService: PortfolioService;
+
+  constructor() {
+    this.db = pool;
+    this.portfolioService = new PortfolioService();
+  }
+
+  /**
+   * Record the current values of the columns an import is about to change
+   * Runs on the import's own client so the log commits or rolls back with the change.
+   */
+  async captureBeforeImage(
+    client: PoolClient,
+    change: { sessionId: number; tenantId: number; isLive: boolean; stagingRecordId: number },
+    entityType: ImportChangeEntity,
+    entityId: number,
+    columns: string[]
+  ): Promise<void> {
+    if (columns.length === 0) return;
+
+    await client.query(`
+      INSERT INTO t_import_change_log (
+        session_id, tenant_id, is_live, staging_record_id, entity_type, entity_id, before_image
+      )
+      SELECT $1, $2, $3, $4, $5, t.id,
+        (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(t)) WHERE key = ANY($7))
+      FROM ${CHANGE_LOG_TABLES[entityType]} t
+      WHERE t.id = $6
+    `, [change.sessionId, change.tenantId, change.isLive, change.stagingRecordId, entityType, entityId, columns]);
+  }
+
+  /**
+   * Counts of what a rollback would change, for the confirmation step
+   */
+  async getImpact(tenantId: number, isLive: boolean, sessionId: number): Promise<ImportRollbackImpact> {
+    try {
+      await this.checkSession(this.db, tenantId, isLive, sessionId, false);
+      const targets = await this.collectTargets(this.db, tenantId, isLive, sessionId, false);
+      return this.toImpact(sessionId, targets);
+    } catch (error: any) {
+      console.error('Error getting rollback impact:', error);
+      SimpleLogger.error('ImportRollback', 'Failed to get rollback impact', 'getImpact', {
+        sessionId, tenantId, isLive, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to get rollback impact: ${error.message}`);
+    }
+  }
+
+  /**
+   * Roll back everything the session created or changed, then refresh portfolio totals
+   */
+  async rollbackSession(
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    userId: number
+  ): Promise<ImportRollbackResult> {
+    const client = await this.db.connect();
+    let impact: ImportRollbackImpact;
+
+    try {
+      await client.query('BEGIN');
+
+      await this.checkSession(client, tenantId, isLive, sessionId, true);
+      const targets = await this.collectTargets(client, tenantId, isLive, sessionId, true);
+      impact = this.toImpact(sessionId, targets);
+
+      if (targets.transactionIds.length > 0) {
+        await client.query(
+          'UPDATE t_transaction_table SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [targets.transactionIds]
+        );
+      }
+
+      if (targets.sipIds.length > 0) {
+        await client.query(
+          'UPDATE t_sip_registrations SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [targets.sipIds]
+        );
+      }
+
+      if (targets.addressIds.length > 0) {
+        await client.query('UPDATE t_customer_addresses SET is_active = false WHERE id = ANY($1)', [targets.addressIds]);
+      }
+
+      if (targets.customerIds.length > 0) {
+        await client.query(
+          'UPDATE t_customers SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [targets.customerIds]
+        );
+      }
+
+      if (targets.contactIds.length > 0) {
+        await client.query(
+          'UPDATE t_contacts SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [targets.contactIds]
+        );
+      }
+
+      if (targets.schemeIds.length > 0) {
+        await client.query(
+          'UPDATE t_scheme_details SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [targets.schemeIds]
+        );
+      }
+
+      // Newest first, so a row changed twice ends up with its value from before the import
+      for (const change of targets.changes) {
+        await this.restoreBeforeImage(client, change);
+      }
+
+      if (targets.changes.length > 0) {
+        await client.query(
+          'UPDATE t_import_change_log SET restored_at = NOW() WHERE id = ANY($1)',
+          [targets.changes.map(change => change.id)]
+        );
+      }
+
+      await client.query(`
+        UPDATE t_import_sessions
+        SET status = 'rolled_back',
+            rolled_back_at = NOW(),
+            rolled_back_by = $2,
+            processing_metadata = COALESCE(processing_metadata, '{}'::jsonb) || jsonb_build_object('rollback', $3::jsonb),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [sessionId, userId, JSON.stringify(impact)]);
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error rolling back import:', error);
+      SimpleLogger.error('ImportRollback', 'Failed to roll back import session', 'rollbackSession', {
+        sessionId, tenantId, isLive, error: error.message
+      }, userId, tenantId, error.stack);
+      throw new Error(`Failed to roll back import: ${error.message}`);
+    } finally {
+      client.release();
+    }
+
+    // The rollback itself is committed; a failed refresh is picked up by the next one
+    let portfolioRefreshed = false;
+    try {
+      await this.portfolioService.refreshPortfolioTotals();
+      portfolioRefreshed = true;
+    } catch (error: any) {
+      SimpleLogger.warn('ImportRollback', 'Portfolio totals refresh after rollback failed', 'rollbackSession', {
+        sessionId, error: error.message
+      }, userId, tenantId);
+    }
+
+    SimpleLogger.info('ImportRollback', 'Import session rolled back', 'rollbackSession', impact, userId, tenantId);
+
+    return { ...impact, portfolio_refreshed: portfolioRefreshed };
+  }
+
+  private async checkSession(
+    db: Pool | PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    lock: boolean
+  ): Promise<void> {
+    const result = await db.query(`
+      SELECT status FROM t_import_sessions
+      WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+      ${lock ? 'FOR UPDATE' : ''}
+    `, [sessionId, tenantId, isLive]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    const status = result.rows[0].status;
+    if (status === 'rolled_back') {
+      throw new Error('Session has already been rolled back');
+    }
+    if (!ROLLBACK_STATUSES.includes(status)) {
+      throw new Error(`A ${status} session cannot be rolled back`);
+    }
+  }
+
+  private async collectTargets(
+    db: Pool | PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    sessionId: number,
+    lock: boolean
+  ): Promise<RollbackTargets> {
+    const transactionResult = await db.query(`
+      SELECT id FROM t_transaction_table
+      WHERE import_session_id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true
+      ${lock ? 'FOR UPDATE' : ''}
+    `, [sessionId, tenantId, isLive]);
+
+    const sipResult = await db.query(`
+      SELECT id FROM t_sip_registrations
+      WHERE import_session_id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true
+      ${lock ? 'FOR UPDATE' : ''}
+    `, [sessionId, tenantId, isLive]);
+
+    // Staging rows with a before-image were updates of existing customers, not inserts
+    const customerResult = await db.query(`
+      SELECT
+        cu.id,
+        cu.contact_id,
+        EXISTS (
+          SELECT 1 FROM t_transaction_table t
+          WHERE t.customer_id = cu.id
+            AND t.is_active = true
+            AND t.import_session_id IS DISTINCT FROM $1
+        ) AS has_other_transactions
+      FROM t_customers cu
+      WHERE cu.tenant_id = $2
+        AND cu.is_live = $3
+        AND cu.is_active = true
+        AND cu.id IN (
+          SELECT s.created_record_id
+          FROM t_import_staging_data s
+          WHERE s.session_id = $1
+            AND s.created_record_type = 'customer'
+            AND s.processing_status = 'success'
+            AND NOT EXISTS (SELECT 1 FROM t_import_change_log l WHERE l.staging_record_id = s.id)
+        )
+      ${lock ? 'FOR UPDATE OF cu' : ''}
+    `, [sessionId, tenantId, isLive]);
+
+    const removableCustomers = customerResult.rows.filter(row => !row.has_other_transactions);
+    const customerIds = removableCustomers.map(row => row.id);
+
+    const addressResult = customerIds.length > 0
+      ? await db.query(
+          'SELECT id FROM t_customer_addresses WHERE customer_id = ANY($1) AND is_active = true',
+          [customerIds]
+        )
+      : { rows: [] as Array<{ id: number }> };
+
+    const schemeResult = await db.query(`
+      SELECT sd.id
+      FROM t_scheme_details sd
+      WHERE sd.tenant_id = $2
+        AND sd.is_live = $3
+        AND sd.is_active = true
+        AND sd.id IN (
+          SELECT s.created_record_id
+          FROM t_import_staging_data s
+          WHERE s.session_id = $1
+            AND s.created_record_type = 'scheme'
+            AND s.processing_status = 'success'
+        )
+      ${lock ? 'FOR UPDATE OF sd' : ''}
+    `, [sessionId, tenantId, isLive]);
+
+    const changeResult = await db.query(`
+      SELECT id, entity_type, entity_id, before_image
+      FROM t_import_change_log
+      WHERE session_id = $1 AND restored_at IS NULL
+      ORDER BY id DESC
+    `, [sessionId]);
+
+    // The SQL scheme import updates existing schemes without recording what it overwrote
+    const unrestorableResult = await db.query(`
+      SELECT COUNT(*) AS count
+      FROM t_import_staging_data s
+      WHERE s.session_id = $1
+        AND s.created_record_type = 'scheme'
+        AND s.processing_status = 'duplicate'
+        AND s.created_record_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM t_import_change_log l WHERE l.staging_record_id = s.id)
+    `, [sessionId]);
+
+    return {
+      transactionIds: transactionResult.rows.map(row => row.id),
+      sipIds: sipResult.rows.map(row => row.id),
+      customerIds,
+      contactIds: removableCustomers.map(row => row.contact_id),
+      addressIds: addressResult.rows.map(row => row.id),
+      schemeIds: schemeResult.rows.map(row => row.id),
+      changes: changeResult.rows,
+      keptCustomers: customerResult.rows.length - removableCustomers.length,
+      unrestorableUpdates: parseInt(unrestorableResult.rows[0].count)
+    };
+  }
+
+  private async restoreBeforeImage(client: PoolClient, change: ImportChange): Promise<void> {
+    const columns = Object.keys(change.before_image || {}).filter(column => COLUMN_PATTERN.test(column));
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+
+    await client.query(`
+      UPDATE ${CHANGE_LOG_TABLES[change.entity_type]}
+      SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [change.entity_id, ...columns.map(column => change.before_image[column])]);
+  }
+
+  private toImpact(sessionId: number, targets: RollbackTargets): ImportRollbackImpact {
+    return {
+      sessionId,
+      transactions: targets.transactionIds.length,
+      sip_registrations: targets.sipIds.length,
+      customers: targets.customerIds.length,
+      contacts: targets.contactIds.length,
+      addresses: targets.addressIds.length,
+      schemes: targets.schemeIds.length,
+      restored_updates: targets.changes.length,
+      kept_customers: targets.keptCustomers,
+      unrestorable_updates: targets.unrestorableUpdates
+    };
+  }
+}
@@ -0,0 +1,266 @@
+// backend/src/services/jobLease.service.ts
+// Postgres-backed job leases: one holder per lease key across all backend instances.
+// A lease expires unless its holder renews it; expired leases can be taken over by any node.
+
+import { Pool } from 'pg';
+import * as os from 'os';
+import { randomBytes } from 'crypto';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+
+export type JobLeaseType = 'nav_scheduler' | 'nav_download' | 'reencryption' | 'sip_reconcile';
+
+export interface JobLease {
+  lease_key: string;
+  job_type: JobLeaseType;
+  holder_id: string;
+  tenant_id: number | null;
+  user_id: number | null;
+  is_live: boolean | null;
+  reference_id: number | null;
+  metadata: Record<string, any>;
+  acquired_at: Date;
+  heartbeat_at: Date;
+  expires_at: Date;
+}
+
+export interface AcquireLeaseOptions {
+  jobType: JobLeaseType;
+  ttlMs: number;
+  tenantId?: number;
+  userId?: number;
+  isLive?: boolean;
+  referenceId?: number;
+  metadata?: Record<string, any>;
+  // Let this node re-acquire a lease it already holds (scheduler restarts)
+  reentrant?: boolean;
+}
+
+// Identifies this process in t_job_leases.holder_id
+export const NODE_ID = process.env.NODE_ID || `${os.hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+// Heartbeat timers are per process, shared by every service instance
+const heartbeats = new Map<string, NodeJS.Timeout>();
+
+export class JobLeaseService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Acquire a lease; returns null when another holder has a live lease on the key
+   * Expired leases are reclaimed in the same statement.
+   */
+  async acquire(leaseKey: string, options: AcquireLeaseOptions): Promise<JobLease | null> {
+    try {
+      const query = `
+        INSERT INTO t_job_leases (
+          lease_key, job_type, holder_id, tenant_id, user_id, is_live,
+          reference_id, metadata, acquired_at, heartbeat_at, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW(), NOW() + ($9::INTEGER * INTERVAL '1 millisecond'))
+        ON CONFLICT (lease_key) DO UPDATE SET
+          job_type = EXCLUDED.job_type,
+          holder_id = EXCLUDED.holder_id,
+          tenant_id = EXCLUDED.tenant_id,
+          user_id = EXCLUDED.user_id,
+          is_live = EXCLUDED.is_live,
+          reference_id = EXCLUDED.reference_id,
+          metadata = EXCLUDED.metadata,
+          acquired_at = CASE
+            WHEN t_job_leases.holder_id = EXCLUDED.holder_id AND t_job_leases.expires_at >= NOW()
+            THEN t_job_leases.acquired_at ELSE NOW()
+          END,
+          heartbeat_at = NOW(),
+          expires_at = EXCLUDED.expires_at
+        WHERE t_job_leases.expires_at < NOW()
+           OR ($10::BOOLEAN AND t_job_leases.holder_id = EXCLUDED.holder_id)
+        RETURNING *, (xmax = 0) AS inserted
+      `;
+
+      const result = await this.db.query(query, [
+        leaseKey,
+        options.jobType,
+        NODE_ID,
+        options.tenantId ?? null,
+        options.userId ?? null,
+        options.isLive ?? null,
+        options.referenceId ?? null,
+        JSON.stringify(options.metadata || {}),
+        options.ttlMs,
+        options.reentrant === true
+      ]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const { inserted, ...lease } = result.rows[0];
+      // Updated row with a fresh acquired_at: an expired lease was taken over
+      if (!inserted && lease.acquired_at.getTime() === lease.heartbeat_at.getTime()) {
+        SimpleLogger.info('JobLease', 'Lease taken over', 'acquire', {
+          leaseKey, jobType: options.jobType, nodeId: NODE_ID
+        }, options.userId, options.tenantId);
+      }
+
+      return lease;
+    } catch (error: any) {
+      console.error('Error acquiring job lease:', error);
+      throw new Error(`Failed to acquire job lease: ${error.message}`);
+    }
+  }
+
+  /**
+   * Extend a lease held by this node; false when the lease was lost
+   */
+  async renew(leaseKey: string, ttlMs: number): Promise<boolean> {
+    const query = `
+      UPDATE t_job_leases
+      SET heartbeat_at = NOW(), expires_at = NOW() + ($3::INTEGER * INTERVAL '1 millisecond')
+      WHERE lease_key = $1 AND holder_id = $2
+    `;
+
+    const result = await this.db.query(query, [leaseKey, NODE_ID, ttlMs]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Attach the job id once it exists (lease is taken before the job row is created)
+   */
+  async setReference(leaseKey: string, referenceId: number, metadata: Record<string, any> = {}): Promise<void> {
+    const query = `
+      UPDATE t_job_leases
+      SET reference_id = $3, metadata = metadata || $4::jsonb
+      WHERE lease_key = $1 AND holder_id = $2
+    `;
+
+    await this.db.query(query, [leaseKey, NODE_ID, referenceId, JSON.stringify(metadata)]);
+  }
+
+  /**
+   * Release a lease held by this node (force releases regardless of holder)
+   */
+  async release(leaseKey: string, force: boolean = false): Promise<void> {
+    this.stopHeartbeat(leaseKey);
+
+    const query = `
+      DELETE FROM t_job_leases
+      WHERE lease_key = $1 AND ($2::BOOLEAN OR holder_id = $3)
+    `;
+
+    await this.db.query(query, [leaseKey, force, NODE_ID]);
+  }
+
+  /**
+   * Release leases for a job id; returns the number released
+   */
+  async releaseByReference(jobType: JobLeaseType, referenceId: number, force: boolean = false): Promise<number> {
+    const query = `
+      DELETE FROM t_job_leases
+      WHERE job_type = $1 AND reference_id = $2 AND ($3::BOOLEAN OR holder_id = $4)
+      RETURNING lease_key
+    `;
+
+    const result = await this.db.query(query, [jobType, referenceId, force, NODE_ID]);
+    result.rows.forEach(row => this.stopHeartbeat(row.lease_key));
+    return result.rows.length;
+  }
+
+  /**
+   * Release everything this node holds (graceful shutdown)
+   */
+  async releaseAllHeld(jobType?: JobLeaseType): Promise<number> {
+    const query = `
+      DELETE FROM t_job_leases
+      WHERE holder_id = $1 AND ($2::VARCHAR IS NULL OR job_type = $2)
+      RETURNING lease_key
+    `;
+
+    const result = await this.db.query(query, [NODE_ID, jobType || null]);
+    result.rows.forEach(row => this.stopHeartbeat(row.lease_key));
+    return result.rows.length;
+  }
+
+  /**
+   * Live lease for a key, or null when free or expired
+   */
+  async getLease(leaseKey: string): Promise<JobLease | null> {
+    const query = `
+      SELECT * FROM t_job_leases
+      WHERE lease_key = $1 AND expires_at >= NOW()
+    `;
+
+    const result = await this.db.query(query, [leaseKey]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * All live leases, optionally for one job type
+   */
+  async getActiveLeases(jobType?: JobLeaseType): Promise<JobLease[]> {
+    const query = `
+      SELECT * FROM t_job_leases
+      WHERE expires_at >= NOW() AND ($1::VARCHAR IS NULL OR job_type = $1)
+      ORDER BY job_type, lease_key
+    `;
+
+    const result = await this.db.query(query, [jobType || null]);
+    return result.rows;
+  }
+
+  /**
+   * Delete expired leases left behind by crashed nodes
+   */
+  async reclaimExpired(): Promise<number> {
+    const query = `
+      DELETE FROM t_job_leases
+      WHERE expires_at < NOW()
+      RETURNING lease_key, holder_id
+    `;
+
+    const result = await this.db.query(query);
+
+    if (result.rows.length > 0) {
+      SimpleLogger.info('JobLease', 'Expired leases reclaimed', 'reclaimExpired', {
+        count: result.rows.length,
+        leases: result.rows.map(row => `${row.lease_key} (${row.holder_id})`)
+      });
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Renew a lease every ttl/3 until stopped; onLost runs if another node took it over
+   */
+  startHeartbeat(leaseKey: string, ttlMs: number, onLost?: () => void): void {
+    this.stopHeartbeat(leaseKey);
+
+    const timer = setInterval(async () => {
+      try {
+        const renewed = await this.renew(leaseKey, ttlMs);
+        if (!renewed) {
+          this.stopHeartbeat(leaseKey);
+          SimpleLogger.warn('JobLease', 'Lease lost', 'startHeartbeat', { leaseKey, nodeId: NODE_ID });
+          onLost?.();
+        }
+      } catch (error: any) {
+        // Transient DB errors: keep trying until the lease actually expires
+        console.error('Error renewing job lease:', error);
+      }
+    }, Math.max(1000, Math.floor(ttlMs / 3)));
+
+    // Heartbeats alone should not keep the process alive
+    timer.unref();
+    heartbeats.set(leaseKey, timer);
+  }
+
+  stopHeartbeat(leaseKey: string): void {
+    const timer = heartbeats.get(leaseKey);
+    if (timer) {
+      clearInterval(timer);
+      heartbeats.delete(leaseKey);
+    }
+  }
+}
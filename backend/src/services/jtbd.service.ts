@@ -0,0 +1,401 @@
+// backend/src/services/jtbd.service.ts
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import {
+  JTBDAction,
+  JTBDActionQuery,
+  JTBDActionStatus,
+  JTBDEvaluationResult,
+  JTBDRule,
+  JTBDRuleContext,
+  JTBDActionCandidate
+} from '../types/jtbd.types';
+import { DEFAULT_JTBD_RULES, JtbdRulesUtil } from '../utils/jtbdRules.util';
+import { PortfolioUtil } from '../utils/portfolio.util';
+
+const ACTION_ORDER_BY = `
+  CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+  deadline ASC NULLS LAST,
+  estimated_value DESC NULLS LAST,
+  id ASC
+`;
+
+export class JtbdService {
+  private db: Pool;
+  private rules: JTBDRule[];
+
+  constructor(rules: JTBDRule[] = DEFAULT_JTBD_RULES) {
+    this.db = pool;
+    this.rules = [...rules];
+  }
+
+  /**
+   * Register an additional rule (replaces a rule with the same code)
+   */
+  registerRule(rule: JTBDRule): void {
+    this.rules = [...this.rules.filter(existing => existing.code !== rule.code), rule];
+  }
+
+  /**
+   * Get persisted actions for a customer, optionally re-running the rules first
+   */
+  async getCustomerActions(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    query: JTBDActionQuery = {}
+  ): Promise<JTBDAction[] | null> {
+    try {
+      if (query.refresh) {
+        const result = await this.evaluateCustomer(tenantId, isLive, customerId);
+        if (!result) return null;
+      } else {
+        const exists = await this.customerExists(tenantId, isLive, customerId);
+        if (!exists) return null;
+        await this.reopenExpiredSnoozes(tenantId, isLive, customerId);
+      }
+
+      const status = query.status || 'open';
+      const params: any[] = [tenantId, isLive, customerId];
+      let statusCondition = '';
+
+      if (status !== 'all') {
+        params.push(status);
+        statusCondition = `AND status = $${params.length}`;
+      }
+
+      const result = await this.db.query(
+        `SELECT *
+         FROM t_customer_actions
+         WHERE tenant_id = $1 AND is_live = $2 AND customer_id = $3 AND is_active = true
+           ${statusCondition}
+         ORDER BY ${ACTION_ORDER_BY}`,
+        params
+      );
+
+      return result.rows.map(row => this.mapAction(row));
+    } catch (error: any) {
+      console.error('Error getting customer actions:', error);
+      throw new Error(`Failed to get customer actions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run all rules for a customer and persist the resulting actions
+   * - New actions are inserted as open
+   * - Existing actions keep their advisor state (dismissed/snoozed/completed)
+   * - Open or snoozed actions no longer emitted by their rule are marked resolved
+   */
+  async evaluateCustomer(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number
+  ): Promise<JTBDEvaluationResult | null> {
+    const context = await this.buildContext(tenantId, isLive, customerId);
+    if (!context) return null;
+
+    const candidates: Array<JTBDActionCandidate & { rule_code: string }> = [];
+    const ruleErrors: Array<{ rule: string; error: string }> = [];
+    const evaluatedRules: string[] = [];
+
+    for (const rule of this.rules) {
+      try {
+        const actions = await rule.evaluate(context);
+        actions.forEach(action => candidates.push({ ...action, rule_code: rule.code }));
+        evaluatedRules.push(rule.code);
+      } catch (error: any) {
+        console.error(`Error evaluating JTBD rule ${rule.code}:`, error);
+        ruleErrors.push({ rule: rule.code, error: error.message });
+      }
+    }
+
+    candidates.sort((a, b) => JtbdRulesUtil.comparePriority(a, b));
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const reopened = await client.query(
+        `UPDATE t_customer_actions
+         SET status = 'open', snoozed_until = NULL, status_changed_at = NOW(), updated_at = NOW()
+         WHERE tenant_id = $1 AND is_live = $2 AND customer_id = $3
+           AND status = 'snoozed' AND snoozed_until <= NOW()`,
+        [tenantId, isLive, customerId]
+      );
+
+      let created = 0;
+      let updated = 0;
+
+      for (const candidate of candidates) {
+        const result = await client.query(
+          `INSERT INTO t_customer_actions (
+             tenant_id, is_live, customer_id, rule_code, action_key, priority, action_type,
+             title, description, impact, deadline, estimated_value, action_button, metadata,
+             last_evaluated_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+           ON CONFLICT (tenant_id, is_live, customer_id, action_key) DO UPDATE SET
+             priority = EXCLUDED.priority,
+             action_type = EXCLUDED.action_type,
+             title = EXCLUDED.title,
+             description = EXCLUDED.description,
+             impact = EXCLUDED.impact,
+             deadline = EXCLUDED.deadline,
+             estimated_value = EXCLUDED.estimated_value,
+             action_button = EXCLUDED.action_button,
+             metadata = EXCLUDED.metadata,
+             is_active = true,
+             status = CASE WHEN t_customer_actions.status = 'resolved' THEN 'open' ELSE t_customer_actions.status END,
+             last_evaluated_at = NOW(),
+             updated_at = NOW()
+           RETURNING (xmax = 0) AS inserted`,
+          [
+            tenantId,
+            isLive,
+            customerId,
+            candidate.rule_code,
+            candidate.action_key,
+            candidate.priority,
+            candidate.type,
+            candidate.title,
+            candidate.description,
+            candidate.impact || null,
+            candidate.deadline || null,
+            candidate.estimated_value ?? null,
+            candidate.action_button ? JSON.stringify(candidate.action_button) : null,
+            candidate.metadata ? JSON.stringify(candidate.metadata) : null
+          ]
+        );
+
+        if (result.rows[0].inserted) {
+          created++;
+        } else {
+          updated++;
+        }
+      }
+
+      // Only resolve actions of rules that ran successfully
+      const resolved = await client.query(
+        `UPDATE t_customer_actions
+         SET status = 'resolved', snoozed_until = NULL, status_changed_at = NOW(), updated_at = NOW()
+         WHERE tenant_id = $1 AND is_live = $2 AND customer_id = $3
+           AND status IN ('open', 'snoozed')
+           AND rule_code = ANY($4)
+           AND NOT (action_key = ANY($5))`,
+        [tenantId, isLive, customerId, evaluatedRules, candidates.map(candidate => candidate.action_key)]
+      );
+
+      await client.query('COMMIT');
+
+      const actions = await this.getCustomerActions(tenantId, isLive, customerId, { status: 'open' });
+
+      return {
+        customer_id: customerId,
+        evaluated_at: new Date().toISOString(),
+        created,
+        updated,
+        resolved: resolved.rowCount || 0,
+        reopened: reopened.rowCount || 0,
+        actions: actions || [],
+        rule_errors: ruleErrors
+      };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error evaluating customer actions:', error);
+      throw new Error(`Failed to evaluate customer actions: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Dismiss an action
+   */
+  async dismissAction(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    actionId: number,
+    userId: number,
+    reason?: string
+  ): Promise<JTBDAction | null> {
+    return this.updateActionStatus(tenantId, isLive, customerId, actionId, userId, 'dismissed', { reason });
+  }
+
+  /**
+   * Snooze an action until a date
+   */
+  async snoozeAction(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    actionId: number,
+    userId: number,
+    until: Date,
+    reason?: string
+  ): Promise<JTBDAction | null> {
+    return this.updateActionStatus(tenantId, isLive, customerId, actionId, userId, 'snoozed', {
+      reason,
+      snoozedUntil: until
+    });
+  }
+
+  /**
+   * Mark an action as completed
+   */
+  async completeAction(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    actionId: number,
+    userId: number,
+    reason?: string
+  ): Promise<JTBDAction | null> {
+    return this.updateActionStatus(tenantId, isLive, customerId, actionId, userId, 'completed', { reason });
+  }
+
+  /**
+   * Update workflow state of an action
+   */
+  private async updateActionStatus(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    actionId: number,
+    userId: number,
+    status: JTBDActionStatus,
+    options: { reason?: string; snoozedUntil?: Date } = {}
+  ): Promise<JTBDAction | null> {
+    try {
+      const result = await this.db.query(
+        `UPDATE t_customer_actions
+         SET status = $5,
+             snoozed_until = $6,
+             status_reason = $7,
+             status_changed_at = NOW(),
+             status_changed_by = $8,
+             updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND customer_id = $4 AND is_active = true
+         RETURNING *`,
+        [
+          actionId,
+          tenantId,
+          isLive,
+          customerId,
+          status,
+          options.snoozedUntil || null,
+          options.reason || null,
+          userId
+        ]
+      );
+
+      return result.rows.length > 0 ? this.mapAction(result.rows[0]) : null;
+    } catch (error: any) {
+      console.error(`Error updating action status to ${status}:`, error);
+      throw new Error(`Failed to update action: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load customer profile, holdings and recent transactions for the rules
+   */
+  private async buildContext(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number
+  ): Promise<JTBDRuleContext | null> {
+    const customerResult = await this.db.query(
+      `SELECT cust.id as customer_id, c.name, cust.date_of_birth, cust.anniversary_date, cust.survival_status
+       FROM t_customers cust
+       JOIN t_contacts c ON c.id = cust.contact_id
+       WHERE cust.id = $1 AND cust.tenant_id = $2 AND cust.is_live = $3 AND cust.is_active = true`,
+      [customerId, tenantId, isLive]
+    );
+
+    if (customerResult.rows.length === 0) {
+      return null;
+    }
+
+    const holdingsResult = await this.db.query(
+      `SELECT *
+       FROM t_customer_portfolio_totals
+       WHERE customer_id = $1 AND tenant_id = $2 AND is_live = $3`,
+      [customerId, tenantId, isLive]
+    );
+
+    const transactionsResult = await this.db.query(
+      `SELECT tt.id, tt.scheme_code, tt.scheme_name, tt.folio_no, tt.txn_date, mtt.txn_type, tt.total_amount
+       FROM t_transaction_table tt
+       LEFT JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+       WHERE tt.customer_id = $1 AND tt.tenant_id = $2 AND tt.is_live = $3
+         AND tt.is_active = true AND tt.portfolio_flag = true
+         AND tt.txn_date >= CURRENT_DATE - INTERVAL '12 months'
+       ORDER BY tt.txn_date ASC`,
+      [customerId, tenantId, isLive]
+    );
+
+    return {
+      tenant_id: tenantId,
+      is_live: isLive,
+      as_of_date: PortfolioUtil.toDateKey(new Date()),
+      customer: customerResult.rows[0],
+      holdings: holdingsResult.rows,
+      transactions: transactionsResult.rows
+    };
+  }
+
+  /**
+   * Check that an active customer exists
+   */
+  private async customerExists(tenantId: number, isLive: boolean, customerId: number): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM t_customers
+       WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+      [customerId, tenantId, isLive]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Return snoozed actions whose snooze period has passed to the open list
+   */
+  private async reopenExpiredSnoozes(tenantId: number, isLive: boolean, customerId: number): Promise<void> {
+    await this.db.query(
+      `UPDATE t_customer_actions
+       SET status = 'open', snoozed_until = NULL, status_changed_at = NOW(), updated_at = NOW()
+       WHERE tenant_id = $1 AND is_live = $2 AND customer_id = $3
+         AND status = 'snoozed' AND snoozed_until <= NOW()`,
+      [tenantId, isLive, customerId]
+    );
+  }
+
+  /**
+   * Map a database row to the JTBDAction shape used by the frontend
+   */
+  private mapAction(row: any): JTBDAction {
+    return {
+      id: String(row.id),
+      customerId: row.customer_id,
+      ruleCode: row.rule_code,
+      priority: row.priority,
+      type: row.action_type,
+      title: row.title,
+      description: row.description,
+      impact: row.impact || undefined,
+      deadline: row.deadline ? PortfolioUtil.toDateKey(row.deadline) : undefined,
+      estimatedValue: row.estimated_value !== null ? parseFloat(row.estimated_value) : undefined,
+      actionButton: row.action_button || undefined,
+      metadata: row.metadata || undefined,
+      status: row.status,
+      snoozedUntil: row.snoozed_until ? new Date(row.snoozed_until).toISOString() : undefined,
+      statusReason: row.status_reason || undefined,
+      completed: row.status === 'completed',
+      completedDate: row.status === 'completed' && row.status_changed_at
+        ? new Date(row.status_changed_at).toISOString()
+        : undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString()
+    };
+  }
+}
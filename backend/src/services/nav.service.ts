@@ -2,6 +2,9 @@
 // File 4/14: Core NAV operations service - ENHANCED with bookmark download status tracking
 
 import { Pool } from 'pg';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { from as copyFrom } from 'pg-copy-streams';
 import { pool } from '../config/database';
 import { SchemeService, SchemeDetail } from './scheme.service';
 import { SimpleLogger } from './simpleLogger.service';
@@ -31,6 +34,16 @@ import {
   NAV_ERROR_CODES
 } from '../types/nav.types';
 
+// Validated record ready for the bulk merge
+interface NavUpsertRow {
+  scheme_id: number;
+  scheme_code: string;
+  nav_date: string;   // YYYY-MM-DD
+  nav_value: number;
+  repurchase_price: number | null;
+  sale_price: number | null;
+}
+
 export class NavService {
   private db: Pool;
   private schemeService: SchemeService;
@@ -651,88 +664,286 @@ export class NavService {
 
   /**
    * Bulk insert/update NAV data (upsert by scheme_id + nav_date)
+   * Set-based: scheme codes are resolved in one query, rows are COPY'd into a temp
+   * table and merged with a single INSERT ... ON CONFLICT. Records that cannot be
+   * resolved or validated are reported individually; if the merge itself fails the
+   * batch is retried row by row so the offending records are still identified.
    */
   async upsertNavData(
     tenantId: number,
     isLive: boolean,
     navRecords: ParsedNavRecord[]
   ): Promise<{ inserted: number; updated: number; errors: Array<{ scheme_code: string; error: string }> }> {
-    const client = await this.db.connect();
-    
+    const errors: Array<{ scheme_code: string; error: string }> = [];
+
+    if (navRecords.length === 0) {
+      return { inserted: 0, updated: 0, errors };
+    }
+
     try {
-      await client.query('BEGIN');
-      
-      let insertCount = 0;
-      let updateCount = 0;
-      const errors: Array<{ scheme_code: string; error: string }> = [];
+      const schemeIds = await this.getSchemeIdsByCodes(
+        tenantId,
+        isLive,
+        navRecords.map(record => record.scheme_code)
+      );
+
+      // Later records for the same scheme and date win, as with the old row-by-row upsert
+      const rows = new Map<string, NavUpsertRow>();
 
       for (const record of navRecords) {
+        const schemeId = schemeIds.get(record.scheme_code);
+        if (!schemeId) {
+          errors.push({ scheme_code: record.scheme_code, error: 'Scheme not found' });
+          continue;
+        }
+
+        if (!record.nav_date || isNaN(record.nav_date.getTime())) {
+          errors.push({ scheme_code: record.scheme_code, error: 'Invalid NAV date' });
+          continue;
+        }
+
+        if (typeof record.nav_value !== 'number' || !isFinite(record.nav_value)) {
+          errors.push({ scheme_code: record.scheme_code, error: 'Invalid NAV value' });
+          continue;
+        }
+
+        const navDate = this.toDateString(record.nav_date);
+        rows.set(`${schemeId}|${navDate}`, {
+          scheme_id: schemeId,
+          scheme_code: record.scheme_code,
+          nav_date: navDate,
+          nav_value: record.nav_value,
+          repurchase_price: record.repurchase_price || null,
+          sale_price: record.sale_price || null
+        });
+      }
+
+      const stagedRows = Array.from(rows.values());
+      let counts = { inserted: 0, updated: 0 };
+
+      if (stagedRows.length > 0) {
         try {
-          // Get scheme_id from scheme_code using existing service
-          const scheme = await this.schemeService.getSchemeByCode(tenantId, isLive, record.scheme_code);
-          if (!scheme) {
-            errors.push({ scheme_code: record.scheme_code, error: 'Scheme not found' });
-            continue;
-          }
+          counts = await this.mergeNavRows(tenantId, isLive, stagedRows);
+        } catch (mergeError: any) {
+          SimpleLogger.warn('NavService', 'Bulk NAV merge failed, retrying row by row', 'upsertNavData', {
+            tenantId, rowCount: stagedRows.length, error: mergeError.message
+          }, undefined, tenantId);
 
-          const upsertQuery = `
-            INSERT INTO t_nav_data (
-              tenant_id, scheme_id, scheme_code, nav_date, nav_value, 
-              repurchase_price, sale_price, is_live, data_source
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-            ON CONFLICT (tenant_id, scheme_id, nav_date, is_live)
-            DO UPDATE SET
-              nav_value = EXCLUDED.nav_value,
-              repurchase_price = EXCLUDED.repurchase_price,
-              sale_price = EXCLUDED.sale_price,
-              data_source = EXCLUDED.data_source,
-              updated_at = CURRENT_TIMESTAMP
-            RETURNING (xmax = 0) as was_inserted
-          `;
+          counts = await this.upsertNavRowsIndividually(tenantId, isLive, stagedRows, errors);
+        }
+      }
+
+      SimpleLogger.error('NavService', 'NAV data upserted successfully', 'upsertNavData', {
+        tenantId,
+        totalRecords: navRecords.length,
+        stagedRows: stagedRows.length,
+        inserted: counts.inserted,
+        updated: counts.updated,
+        errors: errors.length
+      }, undefined, tenantId);
+
+      return { inserted: counts.inserted, updated: counts.updated, errors };
+    } catch (error: any) {
+      SimpleLogger.error('NavService', 'Failed to upsert NAV data', 'upsertNavData', {
+        tenantId, recordCount: navRecords.length, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Active scheme id per scheme code, in one query
+   */
+  private async getSchemeIdsByCodes(
+    tenantId: number,
+    isLive: boolean,
+    schemeCodes: string[]
+  ): Promise<Map<string, number>> {
+    const query = `
+      SELECT DISTINCT ON (scheme_code) scheme_code, id
+      FROM t_scheme_details
+      WHERE tenant_id = $1 AND is_live = $2 AND is_active = true
+        AND scheme_code = ANY($3::VARCHAR[])
+      ORDER BY scheme_code, id
+    `;
+
+    const result = await this.db.query(query, [tenantId, isLive, Array.from(new Set(schemeCodes))]);
+    return new Map(result.rows.map(row => [row.scheme_code, row.id]));
+  }
+
+  /**
+   * COPY rows into a transaction-scoped temp table and merge them into t_nav_data
+   */
+  private async mergeNavRows(
+    tenantId: number,
+    isLive: boolean,
+    rows: NavUpsertRow[]
+  ): Promise<{ inserted: number; updated: number }> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(`
+        CREATE TEMP TABLE tmp_nav_upsert (
+          scheme_id INTEGER NOT NULL,
+          scheme_code VARCHAR(100) NOT NULL,
+          nav_date DATE NOT NULL,
+          nav_value DECIMAL(15,4) NOT NULL,
+          repurchase_price DECIMAL(15,4),
+          sale_price DECIMAL(15,4)
+        ) ON COMMIT DROP
+      `);
+
+      const copyStream = client.query(copyFrom(`
+        COPY tmp_nav_upsert (scheme_id, scheme_code, nav_date, nav_value, repurchase_price, sale_price)
+        FROM STDIN
+      `));
+      await pipeline(Readable.from(this.toCopyLines(rows)), copyStream);
+
+      const mergeQuery = `
+        WITH merged AS (
+          INSERT INTO t_nav_data (
+            tenant_id, scheme_id, scheme_code, nav_date, nav_value,
+            repurchase_price, sale_price, is_live, data_source
+          )
+          SELECT $1, scheme_id, scheme_code, nav_date, nav_value,
+                 repurchase_price, sale_price, $2, 'daily'
+          FROM tmp_nav_upsert
+          ON CONFLICT (tenant_id, scheme_id, nav_date, is_live)
+          DO UPDATE SET
+            nav_value = EXCLUDED.nav_value,
+            repurchase_price = EXCLUDED.repurchase_price,
+            sale_price = EXCLUDED.sale_price,
+            data_source = EXCLUDED.data_source,
+            updated_at = CURRENT_TIMESTAMP
+          RETURNING (xmax = 0) AS was_inserted
+        )
+        SELECT
+          COUNT(*) FILTER (WHERE was_inserted)::INTEGER AS inserted,
+          COUNT(*) FILTER (WHERE NOT was_inserted)::INTEGER AS updated
+        FROM merged
+      `;
+
+      const result = await client.query(mergeQuery, [tenantId, isLive]);
+      await client.query('COMMIT');
+
+      return { inserted: result.rows[0].inserted, updated: result.rows[0].updated };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Fallback when the bulk merge fails: one upsert per row under a savepoint,
+   * so good rows are kept and each failing row gets its own error
+   */
+  private async upsertNavRowsIndividually(
+    tenantId: number,
+    isLive: boolean,
+    rows: NavUpsertRow[],
+    errors: Array<{ scheme_code: string; error: string }>
+  ): Promise<{ inserted: number; updated: number }> {
+    const client = await this.db.connect();
+    let inserted = 0;
+    let updated = 0;
+
+    const upsertQuery = `
+      INSERT INTO t_nav_data (
+        tenant_id, scheme_id, scheme_code, nav_date, nav_value, 
+        repurchase_price, sale_price, is_live, data_source
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'daily')
+      ON CONFLICT (tenant_id, scheme_id, nav_date, is_live)
+      DO UPDATE SET
+        nav_value = EXCLUDED.nav_value,
+        repurchase_price = EXCLUDED.repurchase_price,
+        sale_price = EXCLUDED.sale_price,
+        data_source = EXCLUDED.data_source,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING (xmax = 0) as was_inserted
+    `;
 
+    try {
+      await client.query('BEGIN');
+
+      for (const row of rows) {
+        try {
+          await client.query('SAVEPOINT nav_row');
           const result = await client.query(upsertQuery, [
             tenantId,
-            scheme.id,
-            record.scheme_code,
-            record.nav_date,
-            record.nav_value,
-            record.repurchase_price || null,
-            record.sale_price || null,
-            isLive,
-            'daily' // Default data source
+            row.scheme_id,
+            row.scheme_code,
+            row.nav_date,
+            row.nav_value,
+            row.repurchase_price,
+            row.sale_price,
+            isLive
           ]);
+          await client.query('RELEASE SAVEPOINT nav_row');
 
           if (result.rows[0].was_inserted) {
-            insertCount++;
+            inserted++;
           } else {
-            updateCount++;
+            updated++;
           }
-        } catch (recordError: any) {
-          errors.push({ 
-            scheme_code: record.scheme_code, 
-            error: recordError.message || 'Unknown error' 
+        } catch (rowError: any) {
+          await client.query('ROLLBACK TO SAVEPOINT nav_row');
+          errors.push({
+            scheme_code: row.scheme_code,
+            error: rowError.message || 'Unknown error'
           });
         }
       }
 
       await client.query('COMMIT');
-
-      SimpleLogger.error('NavService', 'NAV data upserted successfully', 'upsertNavData', {
-        tenantId, totalRecords: navRecords.length, inserted: insertCount, updated: updateCount, errors: errors.length
-      }, undefined, tenantId);
-
-      return { inserted: insertCount, updated: updateCount, errors };
-    } catch (error: any) {
+      return { inserted, updated };
+    } catch (error) {
       await client.query('ROLLBACK');
-      SimpleLogger.error('NavService', 'Failed to upsert NAV data', 'upsertNavData', {
-        tenantId, recordCount: navRecords.length, error: error.message
-      }, undefined, tenantId, error.stack);
       throw error;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Rows in COPY text format (tab separated, \N for NULL)
+   */
+  private *toCopyLines(rows: NavUpsertRow[]): Generator<string> {
+    for (const row of rows) {
+      yield [
+        row.scheme_id,
+        row.scheme_code,
+        row.nav_date,
+        row.nav_value,
+        row.repurchase_price,
+        row.sale_price
+      ].map(value => this.toCopyValue(value)).join('\t') + '\n';
+    }
+  }
+
+  private toCopyValue(value: string | number | null): string {
+    if (value === null || value === undefined) {
+      return '\\N';
+    }
+    return String(value)
+      .replace(/\\/g, '\\\\')
+      .replace(/\t/g, '\\t')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r');
+  }
+
+  /**
+   * YYYY-MM-DD using local date parts (matches how pg serialises Date parameters)
+   */
+  private toDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
   // ==================== DOWNLOAD JOB OPERATIONS ====================
 
   /**
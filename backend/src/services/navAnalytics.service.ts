@@ -0,0 +1,622 @@
+// backend/src/services/navAnalytics.service.ts
+// Return and risk analytics of one scheme from its stored NAV series (t_nav_data):
+// trailing and rolling returns, annualised volatility, max drawdown, moving averages and Sharpe.
+// Results are cached per scheme for its latest NAV date in t_scheme_analytics_cache;
+// Sharpe depends on the caller's risk-free rate and is derived from the cached figures.
+// Also compares 2-6 schemes (plus an optional benchmark pseudo-scheme) over their common history.
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import { PortfolioUtil } from '../utils/portfolio.util';
+import {
+  AnalyticsDrawdown,
+  AnalyticsRiskPeriod,
+  AnalyticsSharpe,
+  AnalyticsTrailingPeriod,
+  AnalyticsVolatility,
+  CalendarYearReturn,
+  ComparedScheme,
+  RebasedNavPoint,
+  RollingOverlapStats,
+  RollingReturnDistribution,
+  SchemeAnalytics,
+  SchemeAnalyticsMetrics,
+  SchemeComparison,
+  SchemeComparisonRequest,
+  TrailingReturn
+} from '../types/nav.types';
+
+// Annual %, e.g. RISK_FREE_RATE=7 for a 7% T-bill yield
+export const DEFAULT_RISK_FREE_RATE = (() => {
+  const configured = parseFloat(process.env.RISK_FREE_RATE || '');
+  return isNaN(configured) ? 6.5 : configured;
+})();
+
+export const MIN_COMPARE_SCHEMES = 2;
+export const MAX_COMPARE_SCHEMES = 6;
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+// A period start further than this from the NAV on or before it is treated as missing history
+const MAX_START_GAP_DAYS = 7;
+
+const TRAILING_PERIODS: Array<{ period: AnalyticsTrailingPeriod; months: number }> = [
+  { period: '1M', months: 1 },
+  { period: '3M', months: 3 },
+  { period: '6M', months: 6 },
+  { period: '1Y', months: 12 },
+  { period: '3Y', months: 36 },
+  { period: '5Y', months: 60 }
+];
+
+const RISK_PERIODS: Array<{ period: AnalyticsRiskPeriod; months: number }> = [
+  { period: '1Y', months: 12 },
+  { period: '3Y', months: 36 }
+];
+
+const RISK_PERIOD_MONTHS: Record<AnalyticsRiskPeriod, number> = { '1Y': 12, '3Y': 36 };
+
+interface NavPoint {
+  nav_date: string;
+  nav_value: number;
+}
+
+interface ReturnSummary {
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  percentile_25: number | null;
+  percentile_75: number | null;
+  positive_pct: number | null;
+}
+
+export class NavAnalyticsService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Analytics of a scheme, or null when it has no NAV data
+   */
+  async getSchemeAnalytics(
+    tenantId: number,
+    isLive: boolean,
+    schemeId: number,
+    riskFreeRate: number = DEFAULT_RISK_FREE_RATE
+  ): Promise<SchemeAnalytics | null> {
+    try {
+      const [statsResult, cacheResult] = await Promise.all([
+        this.db.query(`
+          SELECT to_char(MAX(nav_date), 'YYYY-MM-DD') AS latest_nav_date, COUNT(*)::INTEGER AS nav_count
+          FROM t_nav_data
+          WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = $3 AND nav_value > 0
+        `, [tenantId, isLive, schemeId]),
+        this.db.query(`
+          SELECT to_char(nav_date, 'YYYY-MM-DD') AS nav_date, nav_count, analytics
+          FROM t_scheme_analytics_cache
+          WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = $3
+        `, [tenantId, isLive, schemeId])
+      ]);
+
+      const { latest_nav_date: latestNavDate, nav_count: navCount } = statsResult.rows[0];
+      if (navCount === 0) {
+        return null;
+      }
+
+      const cached = cacheResult.rows[0];
+      if (cached && cached.nav_date === latestNavDate && cached.nav_count === navCount) {
+        return this.withSharpe(cached.analytics, riskFreeRate, true);
+      }
+
+      const metrics = await this.computeMetrics(tenantId, isLive, schemeId);
+      if (!metrics) {
+        return null;
+      }
+
+      await this.saveToCache(tenantId, isLive, metrics);
+      return this.withSharpe(metrics, riskFreeRate, false);
+    } catch (error: any) {
+      SimpleLogger.error('NavAnalytics', 'Failed to build scheme analytics', 'getSchemeAnalytics', {
+        tenantId, isLive, schemeId, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to build scheme analytics: ${error.message}`);
+    }
+  }
+
+  /**
+   * Compare schemes (and an optional benchmark) over the window they all have NAV for:
+   * NAV rebased to 100 on the common start, calendar-year returns and rolling-return
+   * statistics over the window end dates every scheme shares
+   */
+  async compareSchemes(
+    tenantId: number,
+    isLive: boolean,
+    request: SchemeComparisonRequest
+  ): Promise<SchemeComparison> {
+    const benchmarkId = request.benchmark_id ?? null;
+    const schemeIds = benchmarkId !== null ? [...request.scheme_ids, benchmarkId] : [...request.scheme_ids];
+    const rollingPeriod = request.rolling_period || '1Y';
+
+    let schemeRows: Array<{ id: number; scheme_code: string; scheme_name: string }>;
+    // Seeded in request order so every per-scheme list in the response follows it
+    const seriesById = new Map<number, NavPoint[]>(schemeIds.map((id): [number, NavPoint[]] => [id, []]));
+
+    try {
+      const [schemeResult, seriesResult] = await Promise.all([
+        this.db.query(`
+          SELECT id, scheme_code, scheme_name FROM t_scheme_details WHERE id = ANY($1::INTEGER[])
+        `, [schemeIds]),
+        this.db.query(`
+          SELECT scheme_id, to_char(nav_date, 'YYYY-MM-DD') AS nav_date, nav_value::FLOAT AS nav_value
+          FROM t_nav_data
+          WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = ANY($3::INTEGER[]) AND nav_value > 0
+            AND ($4::DATE IS NULL OR nav_date <= $4::DATE)
+          ORDER BY scheme_id, nav_date
+        `, [tenantId, isLive, schemeIds, request.end_date || null])
+      ]);
+
+      schemeRows = schemeResult.rows;
+      for (const row of seriesResult.rows) {
+        seriesById.get(row.scheme_id)!.push({ nav_date: row.nav_date, nav_value: row.nav_value });
+      }
+    } catch (error: any) {
+      SimpleLogger.error('NavAnalytics', 'Failed to load NAV series for comparison', 'compareSchemes', {
+        tenantId, isLive, schemeIds, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to compare schemes: ${error.message}`);
+    }
+
+    const missing = schemeIds.filter(id => seriesById.get(id)!.length === 0 || !schemeRows.some(row => row.id === id));
+    if (missing.length > 0) {
+      throw new Error(`No NAV data found for schemes: ${missing.join(', ')}`);
+    }
+
+    const allSeries = schemeIds.map(id => seriesById.get(id)!);
+    const firstDates = allSeries.map(series => series[0].nav_date);
+    const startDate = [...firstDates, request.start_date || ''].sort().pop()!;
+    const endDate = allSeries.map(series => series[series.length - 1].nav_date).sort()[0];
+
+    if (startDate > endDate) {
+      throw new Error(`No overlapping NAV history: the common window would start on ${startDate} but one scheme ends on ${endDate}`);
+    }
+
+    const bases = new Map<number, NavPoint>(
+      schemeIds.map(id => [id, this.findOnOrBefore(seriesById.get(id)!, startDate)!])
+    );
+
+    const schemes: ComparedScheme[] = schemeIds.map(id => {
+      const row = schemeRows.find(r => r.id === id)!;
+      const series = seriesById.get(id)!;
+      const base = bases.get(id)!;
+      const end = this.findOnOrBefore(series, endDate)!;
+
+      return {
+        scheme_id: id,
+        scheme_code: row.scheme_code,
+        scheme_name: row.scheme_name,
+        is_benchmark: id === benchmarkId,
+        first_nav_date: series[0].nav_date,
+        latest_nav_date: series[series.length - 1].nav_date,
+        base_nav: base.nav_value,
+        period_return: PortfolioUtil.roundPercentage((end.nav_value / base.nav_value - 1) * 100),
+        period_cagr: this.subtractMonths(endDate, 12) >= startDate
+          ? PortfolioUtil.calculateCAGR(base.nav_value, end.nav_value, PortfolioUtil.yearsBetween(new Date(startDate), new Date(endDate)))
+          : null
+      };
+    });
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      benchmark_id: benchmarkId,
+      schemes,
+      series: this.rebasedSeries(seriesById, bases, startDate, endDate),
+      calendar_year_returns: this.calendarYearReturns(seriesById, startDate, endDate),
+      rolling_overlap: this.rollingOverlap(
+        seriesById, request.scheme_ids, benchmarkId, rollingPeriod, startDate, endDate
+      )
+    };
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async computeMetrics(
+    tenantId: number,
+    isLive: boolean,
+    schemeId: number
+  ): Promise<SchemeAnalyticsMetrics | null> {
+    const [schemeResult, seriesResult] = await Promise.all([
+      this.db.query(`
+        SELECT id, scheme_code, scheme_name FROM t_scheme_details WHERE id = $1
+      `, [schemeId]),
+      this.db.query(`
+        SELECT to_char(nav_date, 'YYYY-MM-DD') AS nav_date, nav_value::FLOAT AS nav_value
+        FROM t_nav_data
+        WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = $3 AND nav_value > 0
+        ORDER BY nav_date
+      `, [tenantId, isLive, schemeId])
+    ]);
+
+    const scheme = schemeResult.rows[0];
+    const series: NavPoint[] = seriesResult.rows;
+    if (!scheme || series.length === 0) {
+      return null;
+    }
+
+    const first = series[0];
+    const latest = series[series.length - 1];
+    const values = series.map(point => point.nav_value);
+    const [dma50] = PortfolioUtil.calculateMovingAverage(values.slice(-50), 50);
+    const [dma200] = PortfolioUtil.calculateMovingAverage(values.slice(-200), 200);
+
+    return {
+      scheme_id: scheme.id,
+      scheme_code: scheme.scheme_code,
+      scheme_name: scheme.scheme_name,
+      first_nav_date: first.nav_date,
+      latest_nav_date: latest.nav_date,
+      latest_nav_value: latest.nav_value,
+      nav_count: series.length,
+      trailing_returns: TRAILING_PERIODS.map(({ period, months }) => this.trailingReturn(series, period, months)),
+      rolling_returns: RISK_PERIODS.map(({ period, months }) => this.rollingReturns(series, period, months)),
+      volatility: RISK_PERIODS.map(({ period, months }) => this.volatility(series, period, months)),
+      max_drawdown: this.maxDrawdown(series),
+      moving_averages: {
+        dma_50: dma50 ?? null,
+        dma_200: dma200 ?? null
+      },
+      computed_at: new Date()
+    };
+  }
+
+  private async saveToCache(tenantId: number, isLive: boolean, metrics: SchemeAnalyticsMetrics): Promise<void> {
+    try {
+      await this.db.query(`
+        INSERT INTO t_scheme_analytics_cache (tenant_id, is_live, scheme_id, nav_date, nav_count, analytics)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (tenant_id, is_live, scheme_id) DO UPDATE SET
+          nav_date = EXCLUDED.nav_date,
+          nav_count = EXCLUDED.nav_count,
+          analytics = EXCLUDED.analytics,
+          computed_at = CURRENT_TIMESTAMP
+      `, [tenantId, isLive, metrics.scheme_id, metrics.latest_nav_date, metrics.nav_count, JSON.stringify(metrics)]);
+    } catch (error: any) {
+      // The analytics are still valid; the next request recomputes them
+      SimpleLogger.warn('NavAnalytics', 'Failed to cache scheme analytics', 'saveToCache', {
+        tenantId, isLive, schemeId: metrics.scheme_id, error: error.message
+      }, undefined, tenantId);
+    }
+  }
+
+  private withSharpe(metrics: SchemeAnalyticsMetrics, riskFreeRate: number, fromCache: boolean): SchemeAnalytics {
+    const sharpe: AnalyticsSharpe[] = RISK_PERIODS.map(({ period }) => {
+      const annualisedReturn = metrics.trailing_returns.find(r => r.period === period)?.cagr ?? null;
+      const annualisedVolatility = metrics.volatility.find(v => v.period === period)?.annualised_volatility ?? null;
+
+      return {
+        period,
+        annualised_return: annualisedReturn,
+        annualised_volatility: annualisedVolatility,
+        sharpe_ratio: annualisedReturn !== null && annualisedVolatility
+          ? PortfolioUtil.calculateSharpeRatio(annualisedReturn, riskFreeRate, annualisedVolatility)
+          : null
+      };
+    });
+
+    return { ...metrics, risk_free_rate: riskFreeRate, sharpe, from_cache: fromCache };
+  }
+
+  private trailingReturn(series: NavPoint[], period: AnalyticsTrailingPeriod, months: number): TrailingReturn {
+    const end = series[series.length - 1];
+    const start = this.findStart(series, this.subtractMonths(end.nav_date, months));
+
+    return {
+      period,
+      start_date: start?.nav_date ?? null,
+      start_nav: start?.nav_value ?? null,
+      end_date: end.nav_date,
+      end_nav: end.nav_value,
+      absolute_return: start
+        ? PortfolioUtil.roundPercentage((end.nav_value / start.nav_value - 1) * 100)
+        : null,
+      cagr: start && months >= 12 ? this.cagr(start, end) : null
+    };
+  }
+
+  private rollingReturns(series: NavPoint[], period: AnalyticsRiskPeriod, months: number): RollingReturnDistribution {
+    const returns = this.rollingReturnSeries(series, months).map(point => point.value);
+    return { period, observations: returns.length, ...this.summarise(returns) };
+  }
+
+  /**
+   * CAGR of every window of the period ending on a NAV date; the window start
+   * moves forward monotonically, so one pass over the series is enough
+   */
+  private rollingReturnSeries(series: NavPoint[], months: number): Array<{ nav_date: string; value: number }> {
+    const returns: Array<{ nav_date: string; value: number }> = [];
+    let startIndex = 0;
+
+    for (const end of series) {
+      const target = this.subtractMonths(end.nav_date, months);
+      if (target < series[0].nav_date) continue;
+
+      while (startIndex + 1 < series.length && series[startIndex + 1].nav_date <= target) {
+        startIndex++;
+      }
+
+      const start = series[startIndex];
+      if (PortfolioUtil.daysBetween(new Date(start.nav_date), new Date(target)) <= MAX_START_GAP_DAYS) {
+        returns.push({ nav_date: end.nav_date, value: this.cagr(start, end) });
+      }
+    }
+
+    return returns;
+  }
+
+  private summarise(values: number[]): ReturnSummary {
+    if (values.length === 0) {
+      return {
+        min: null, max: null, mean: null, median: null,
+        percentile_25: null, percentile_75: null, positive_pct: null
+      };
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: PortfolioUtil.roundPercentage(sorted.reduce((sum, r) => sum + r, 0) / sorted.length),
+      median: this.percentile(sorted, 50),
+      percentile_25: this.percentile(sorted, 25),
+      percentile_75: this.percentile(sorted, 75),
+      positive_pct: PortfolioUtil.roundPercentage((sorted.filter(r => r > 0).length / sorted.length) * 100)
+    };
+  }
+
+  /**
+   * Every NAV date of any scheme in [startDate, endDate], each scheme's last NAV on or
+   * before it divided by its NAV on the common start (schemes and indices trade on different holidays)
+   */
+  private rebasedSeries(
+    seriesById: Map<number, NavPoint[]>,
+    bases: Map<number, NavPoint>,
+    startDate: string,
+    endDate: string
+  ): RebasedNavPoint[] {
+    const dates = new Set<string>([startDate]);
+    seriesById.forEach(series => series.forEach(point => {
+      if (point.nav_date > startDate && point.nav_date <= endDate) dates.add(point.nav_date);
+    }));
+
+    const cursors = new Map<number, number>();
+    seriesById.forEach((_, id) => cursors.set(id, 0));
+
+    return Array.from(dates).sort().map(navDate => {
+      const values: Record<number, number> = {};
+
+      seriesById.forEach((series, id) => {
+        let index = cursors.get(id)!;
+        while (index + 1 < series.length && series[index + 1].nav_date <= navDate) {
+          index++;
+        }
+        cursors.set(id, index);
+        values[id] = PortfolioUtil.roundAmount((series[index].nav_value / bases.get(id)!.nav_value) * 100);
+      });
+
+      return { nav_date: navDate, values };
+    });
+  }
+
+  /**
+   * Last NAV of each year over the last NAV of the previous year, for the years the
+   * common window touches; the final year is year-to-date when the window ends before 31 Dec
+   */
+  private calendarYearReturns(
+    seriesById: Map<number, NavPoint[]>,
+    startDate: string,
+    endDate: string
+  ): CalendarYearReturn[] {
+    const firstYear = Number(startDate.substring(0, 4));
+    const lastYear = Number(endDate.substring(0, 4));
+    const years: CalendarYearReturn[] = [];
+
+    for (let year = firstYear; year <= lastYear; year++) {
+      const returns: Record<number, number | null> = {};
+
+      seriesById.forEach((series, id) => {
+        const previous = this.findOnOrBefore(series, `${year - 1}-12-31`);
+        const current = this.findOnOrBefore(series, year === lastYear ? endDate : `${year}-12-31`);
+
+        returns[id] = previous && current && current.nav_date > previous.nav_date
+          ? PortfolioUtil.roundPercentage((current.nav_value / previous.nav_value - 1) * 100)
+          : null;
+      });
+
+      years.push({ year, is_partial: year === lastYear && !endDate.endsWith('-12-31'), returns });
+    }
+
+    return years;
+  }
+
+  /**
+   * Rolling CAGR statistics restricted to window end dates (inside the common window)
+   * on which every scheme has a rolling return, so the schemes are compared like for like
+   */
+  private rollingOverlap(
+    seriesById: Map<number, NavPoint[]>,
+    schemeIds: number[],
+    benchmarkId: number | null,
+    period: AnalyticsRiskPeriod,
+    startDate: string,
+    endDate: string
+  ): SchemeComparison['rolling_overlap'] {
+    const rollingById = new Map<number, Map<string, number>>();
+    seriesById.forEach((series, id) => {
+      rollingById.set(id, new Map(
+        this.rollingReturnSeries(series, RISK_PERIOD_MONTHS[period])
+          .filter(point => point.nav_date >= startDate && point.nav_date <= endDate)
+          .map(point => [point.nav_date, point.value])
+      ));
+    });
+
+    const allIds = Array.from(seriesById.keys());
+    const commonDates = Array.from(rollingById.get(allIds[0])!.keys())
+      .filter(date => allIds.every(id => rollingById.get(id)!.has(date)))
+      .sort();
+
+    const bestCounts = new Map<number, number>(schemeIds.map(id => [id, 0]));
+    for (const date of commonDates) {
+      const best = schemeIds.reduce((top, id) =>
+        rollingById.get(id)!.get(date)! > rollingById.get(top)!.get(date)! ? id : top
+      );
+      bestCounts.set(best, bestCounts.get(best)! + 1);
+    }
+
+    const share = (count: number) => commonDates.length > 0
+      ? PortfolioUtil.roundPercentage((count / commonDates.length) * 100)
+      : null;
+
+    const schemes: RollingOverlapStats[] = allIds.map(id => {
+      const values = commonDates.map(date => rollingById.get(id)!.get(date)!);
+      const { min, max, mean, median, positive_pct } = this.summarise(values);
+      const isBenchmark = id === benchmarkId;
+      const excess = benchmarkId !== null && !isBenchmark
+        ? commonDates.map(date => rollingById.get(id)!.get(date)! - rollingById.get(benchmarkId)!.get(date)!)
+        : [];
+
+      return {
+        scheme_id: id,
+        mean,
+        median,
+        min,
+        max,
+        positive_pct,
+        best_pct: isBenchmark ? null : share(bestCounts.get(id)!),
+        beat_benchmark_pct: excess.length > 0 ? share(excess.filter(diff => diff > 0).length) : null,
+        avg_excess_vs_benchmark: excess.length > 0
+          ? PortfolioUtil.roundPercentage(excess.reduce((sum, diff) => sum + diff, 0) / excess.length)
+          : null
+      };
+    });
+
+    return {
+      period,
+      observations: commonDates.length,
+      first_window_end: commonDates[0] ?? null,
+      last_window_end: commonDates[commonDates.length - 1] ?? null,
+      schemes
+    };
+  }
+
+  /**
+   * Standard deviation of daily returns over the period, annualised with sqrt(252).
+   * Returns are scaled before calculateVolatility so its 2dp rounding applies to the annual figure.
+   */
+  private volatility(series: NavPoint[], period: AnalyticsRiskPeriod, months: number): AnalyticsVolatility {
+    const windowStart = this.subtractMonths(series[series.length - 1].nav_date, months);
+    const start = this.findStart(series, windowStart);
+    if (!start) {
+      return { period, observations: 0, annualised_volatility: null };
+    }
+
+    const window = series.filter(point => point.nav_date >= start.nav_date);
+    const scale = Math.sqrt(TRADING_DAYS_PER_YEAR);
+    const returns = window.slice(1).map((point, i) => (point.nav_value / window[i].nav_value - 1) * 100 * scale);
+
+    return {
+      period,
+      observations: returns.length,
+      annualised_volatility: returns.length >= 2 ? PortfolioUtil.calculateVolatility(returns) : null
+    };
+  }
+
+  private maxDrawdown(series: NavPoint[]): AnalyticsDrawdown {
+    let peak = series[0];
+    let maxDrawdown = 0;
+    let worst: { peak: NavPoint; trough: NavPoint } | null = null;
+
+    for (const point of series) {
+      if (point.nav_value > peak.nav_value) {
+        peak = point;
+      }
+
+      const drawdown = (point.nav_value / peak.nav_value - 1) * 100;
+      if (drawdown < maxDrawdown) {
+        maxDrawdown = drawdown;
+        worst = { peak, trough: point };
+      }
+    }
+
+    const latest = series[series.length - 1];
+    const recovery = worst
+      ? series.find(point => point.nav_date > worst!.trough.nav_date && point.nav_value >= worst!.peak.nav_value)
+      : undefined;
+
+    return {
+      max_drawdown_pct: PortfolioUtil.roundPercentage(maxDrawdown),
+      peak_date: worst?.peak.nav_date ?? null,
+      peak_nav: worst?.peak.nav_value ?? null,
+      trough_date: worst?.trough.nav_date ?? null,
+      trough_nav: worst?.trough.nav_value ?? null,
+      recovery_date: recovery?.nav_date ?? null,
+      current_drawdown_pct: PortfolioUtil.roundPercentage((latest.nav_value / peak.nav_value - 1) * 100)
+    };
+  }
+
+  /**
+   * Last NAV on or before the target date, unless the series starts after it
+   * or the nearest NAV is more than MAX_START_GAP_DAYS older
+   */
+  private findStart(series: NavPoint[], target: string): NavPoint | null {
+    const start = this.findOnOrBefore(series, target);
+    return start && PortfolioUtil.daysBetween(new Date(start.nav_date), new Date(target)) <= MAX_START_GAP_DAYS
+      ? start
+      : null;
+  }
+
+  private findOnOrBefore(series: NavPoint[], target: string): NavPoint | null {
+    let low = 0;
+    let high = series.length - 1;
+    let found = -1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (series[mid].nav_date <= target) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found >= 0 ? series[found] : null;
+  }
+
+  private cagr(start: NavPoint, end: NavPoint): number {
+    const years = PortfolioUtil.yearsBetween(new Date(start.nav_date), new Date(end.nav_date));
+    return PortfolioUtil.calculateCAGR(start.nav_value, end.nav_value, years);
+  }
+
+  /**
+   * Linear interpolation between the closest ranks of a sorted array
+   */
+  private percentile(sorted: number[], pct: number): number {
+    const rank = (pct / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return PortfolioUtil.roundPercentage(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower));
+  }
+
+  /**
+   * Same day N months earlier (YYYY-MM-DD), clamped to the month end: 2024-03-31 - 1M = 2024-02-29
+   */
+  private subtractMonths(dateKey: string, months: number): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 - months + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1 - months, Math.min(day, lastDay))).toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,296 @@
+// backend/src/services/navDataProvider.service.ts
+// NAV data providers: where NAV records come from. Each provider implements the
+// capabilities it can serve (daily = latest NAV for all schemes, history = one scheme
+// over a date range); NavProviderService chains them per tenant with fallback.
+// New feeds (e.g. RTA files) plug in by implementing NavDataProvider.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SimpleLogger } from './simpleLogger.service';
+import { MfapiResponse, NavParserUtil } from '../utils/navParser.util';
+import { NavProviderCapability, NavProviderName, ParsedNavRecord } from '../types/nav.types';
+
+export interface NavProviderRequestOptions {
+  retryAttempts?: number;
+  retryDelay?: number;
+  rateLimitDelay?: number;
+  timeout?: number;
+  // Local provider only: directory with NAV files (defaults to NAV_LOCAL_DIR)
+  localDirectory?: string;
+}
+
+export interface NavDataProvider {
+  readonly name: NavProviderName;
+  readonly description: string;
+  readonly capabilities: NavProviderCapability[];
+
+  /**
+   * Latest NAV for every scheme the source knows about
+   */
+  fetchDailyNav(options: NavProviderRequestOptions): Promise<ParsedNavRecord[]>;
+
+  /**
+   * NAV history of one scheme, filtered to [startDate, endDate] when given.
+   * Throws when the source does not know the scheme; an empty array means
+   * the scheme exists but has no NAV in the range.
+   */
+  fetchSchemeHistory(
+    schemeCode: string,
+    startDate: Date | undefined,
+    endDate: Date | undefined,
+    options: NavProviderRequestOptions
+  ): Promise<ParsedNavRecord[]>;
+}
+
+// Base directory of the local provider; tenant settings may point at a subdirectory
+export const NAV_LOCAL_DIR = process.env.NAV_LOCAL_DIR || 'UserFiles/nav';
+
+const LOCAL_NAV_FILE_EXTENSIONS = ['.txt', '.csv'];
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_RATE_LIMIT_DELAY = 500;
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Shared fetch with rate limiting, timeout and exponential-backoff retries
+ */
+abstract class HttpNavProvider {
+  private lastRequestTime = 0;
+
+  protected async request(
+    url: string,
+    headers: Record<string, string>,
+    options: NavProviderRequestOptions
+  ): Promise<string> {
+    const retryAttempts = options.retryAttempts || DEFAULT_RETRY_ATTEMPTS;
+    const retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
+    const rateLimitDelay = options.rateLimitDelay || DEFAULT_RATE_LIMIT_DELAY;
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+
+    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
+    if (timeSinceLastRequest < rateLimitDelay) {
+      await this.sleep(rateLimitDelay - timeSinceLastRequest);
+    }
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= retryAttempts; attempt++) {
+      try {
+        this.lastRequestTime = Date.now();
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        const response = await fetch(url, { method: 'GET', headers, signal: controller.signal })
+          .finally(() => clearTimeout(timeoutId));
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const body = await response.text();
+        if (!body || body.trim().length === 0) {
+          throw new Error(`Empty response from ${url}`);
+        }
+
+        return body;
+      } catch (error: any) {
+        lastError = error.name === 'AbortError' ? new Error(`Request timeout after ${timeout}ms`) : error;
+
+        SimpleLogger.error('NavDataProvider', `Request attempt ${attempt} failed`, 'request', {
+          url, attempt, error: lastError!.message
+        });
+
+        if (attempt < retryAttempts) {
+          await this.sleep(retryDelay * Math.pow(2, attempt - 1));
+        }
+      }
+    }
+
+    throw lastError || new Error('All retry attempts failed');
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * AMFI NAVAll.txt: latest NAV of every scheme in one file (no history)
+ */
+export class AmfiDailyNavProvider extends HttpNavProvider implements NavDataProvider {
+  readonly name = 'amfi' as const;
+  readonly description = 'AMFI daily NAVAll.txt (latest NAV for all schemes)';
+  readonly capabilities: NavProviderCapability[] = ['daily'];
+
+  private readonly DAILY_NAV_URL = process.env.AMFI_NAV_URL || 'https://www.amfiindia.com/spages/NAVAll.txt';
+
+  async fetchDailyNav(options: NavProviderRequestOptions): Promise<ParsedNavRecord[]> {
+    const body = await this.request(this.DAILY_NAV_URL, {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      'Accept': 'text/plain, text/html, */*',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Cache-Control': 'no-cache',
+      'Referer': 'http://portal.amfiindia.com/'
+    }, options);
+
+    return NavParserUtil.parseAmfiText(body);
+  }
+
+  async fetchSchemeHistory(): Promise<ParsedNavRecord[]> {
+    throw new Error('AMFI daily provider does not serve scheme history');
+  }
+}
+
+/**
+ * MFAPI.in: full NAV history of one scheme per request (no bulk daily file)
+ */
+export class MfapiNavProvider extends HttpNavProvider implements NavDataProvider {
+  readonly name = 'mfapi' as const;
+  readonly description = 'MFAPI.in JSON (full history per scheme)';
+  readonly capabilities: NavProviderCapability[] = ['history'];
+
+  private readonly MFAPI_BASE_URL = process.env.MFAPI_BASE_URL || 'https://api.mfapi.in/mf';
+
+  async fetchDailyNav(): Promise<ParsedNavRecord[]> {
+    throw new Error('MFAPI provider does not serve the daily NAV file');
+  }
+
+  async fetchSchemeHistory(
+    schemeCode: string,
+    startDate: Date | undefined,
+    endDate: Date | undefined,
+    options: NavProviderRequestOptions
+  ): Promise<ParsedNavRecord[]> {
+    const body = await this.request(`${this.MFAPI_BASE_URL}/${schemeCode}`, {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept': 'application/json'
+    }, options);
+
+    const mfapiData = JSON.parse(body) as MfapiResponse;
+    if (!mfapiData.data || mfapiData.data.length === 0) {
+      throw new Error('No NAV data returned from MFAPI.in');
+    }
+
+    return filterByDateRange(NavParserUtil.parseMfapiResponse(mfapiData), startDate, endDate);
+  }
+}
+
+/**
+ * NAV files dropped into a directory: AMFI NAVAll.txt-format (.txt) or CSV (.csv).
+ * Files are read in name order and later files win for the same scheme and date,
+ * so date-stamped names (NAVAll_2025-01-03.txt) behave as expected.
+ */
+export class LocalDirectoryNavProvider implements NavDataProvider {
+  readonly name = 'local' as const;
+  readonly description = 'Local directory of AMFI-format (.txt) or CSV NAV files';
+  readonly capabilities: NavProviderCapability[] = ['daily', 'history'];
+
+  // Parsed files keyed by path; re-parsed when the file's mtime or size changes
+  private fileCache = new Map<string, { mtimeMs: number; size: number; records: ParsedNavRecord[] }>();
+
+  async fetchDailyNav(options: NavProviderRequestOptions): Promise<ParsedNavRecord[]> {
+    const records = await this.readDirectory(options.localDirectory || NAV_LOCAL_DIR);
+
+    const latestByScheme = new Map<string, ParsedNavRecord>();
+    for (const record of records) {
+      const latest = latestByScheme.get(record.scheme_code);
+      if (!latest || record.nav_date!.getTime() >= latest.nav_date!.getTime()) {
+        latestByScheme.set(record.scheme_code, record);
+      }
+    }
+
+    return Array.from(latestByScheme.values());
+  }
+
+  async fetchSchemeHistory(
+    schemeCode: string,
+    startDate: Date | undefined,
+    endDate: Date | undefined,
+    options: NavProviderRequestOptions
+  ): Promise<ParsedNavRecord[]> {
+    const directory = options.localDirectory || NAV_LOCAL_DIR;
+    const records = (await this.readDirectory(directory)).filter(record => record.scheme_code === schemeCode);
+
+    if (records.length === 0) {
+      throw new Error(`Scheme ${schemeCode} not found in NAV files in ${directory}`);
+    }
+
+    const byDate = new Map<number, ParsedNavRecord>();
+    records.forEach(record => byDate.set(record.nav_date!.getTime(), record));
+
+    // Newest first, like MFAPI
+    const history = Array.from(byDate.values()).sort((a, b) => b.nav_date!.getTime() - a.nav_date!.getTime());
+    return filterByDateRange(history, startDate, endDate);
+  }
+
+  /**
+   * Parse one NAV file; the format follows the extension (.csv = CSV, anything else = AMFI text)
+   */
+  async readFile(filePath: string): Promise<ParsedNavRecord[]> {
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch (error: any) {
+      throw new Error(`Failed to read NAV file ${filePath}: ${error.message}`);
+    }
+
+    const cached = this.fileCache.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.records;
+    }
+
+    const body = await fs.readFile(filePath, 'utf8');
+    const records = path.extname(filePath).toLowerCase() === '.csv'
+      ? NavParserUtil.parseCsv(body)
+      : NavParserUtil.parseAmfiText(body);
+
+    this.fileCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, records });
+    return records;
+  }
+
+  private async readDirectory(directory: string): Promise<ParsedNavRecord[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error: any) {
+      throw new Error(`NAV directory ${directory} is not readable: ${error.message}`);
+    }
+
+    const files = entries
+      .filter(entry => LOCAL_NAV_FILE_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+      .sort();
+
+    if (files.length === 0) {
+      throw new Error(`No NAV files (${LOCAL_NAV_FILE_EXTENSIONS.join(', ')}) found in ${directory}`);
+    }
+
+    const records: ParsedNavRecord[] = [];
+    for (const file of files) {
+      try {
+        records.push(...await this.readFile(path.join(directory, file)));
+      } catch (error: any) {
+        // One bad file should not hide the others
+        SimpleLogger.error('NavDataProvider', 'Skipping unreadable NAV file', 'readDirectory', {
+          directory, file, error: error.message
+        });
+      }
+    }
+
+    return records;
+  }
+}
+
+function filterByDateRange(records: ParsedNavRecord[], startDate?: Date, endDate?: Date): ParsedNavRecord[] {
+  if (!startDate && !endDate) {
+    return records;
+  }
+
+  return records.filter(record => {
+    if (!record.nav_date) return false;
+    if (startDate && record.nav_date < startDate) return false;
+    if (endDate && record.nav_date > endDate) return false;
+    return true;
+  });
+}
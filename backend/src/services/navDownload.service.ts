@@ -1,14 +1,21 @@
 // backend/src/services/navDownload.service.ts
 // UPDATED: Fixed historical download status update to properly mark as completed
+// Download locks are t_job_leases rows so only one backend instance runs each download
+// Gap backfill re-fetches only the missing date ranges of bookmarked schemes from MFAPI.in
 
 import { Pool } from 'pg';
 import { pool } from '../config/database';
 import { NavService } from './nav.service';
 import { AmfiDataSourceService } from './amfiDataSource.service';
 import { SimpleLogger } from './simpleLogger.service';
+import { JobLease, JobLeaseService } from './jobLease.service';
+import { NavQualityService } from './navQuality.service';
+import { SchemeSyncService } from './schemeSync.service';
 import {
   NavDownloadJob,
   NavDownloadJobResult,
+  NavGapRange,
+  SchemeNavGaps,
   N8nCallbackPayload,
   ParsedNavRecord,
   NAV_ERROR_CODES
@@ -30,18 +37,30 @@ export interface DownloadProgressUpdate {
 
 export interface DownloadLockInfo {
   jobId: number;
-  lockType: 'daily' | 'historical' | 'weekly';
+  lockType: 'daily' | 'historical' | 'weekly' | 'backfill';
   lockedBy: number;
   lockedAt: Date;
   schemeIds: number[];
+  heldBy: string; // node holding the lease
 }
 
+// Download lease TTL; renewed by heartbeat while the job runs, so a crashed node's
+// lock frees up within this window
+const DOWNLOAD_LEASE_TTL_MS = 2 * 60 * 1000;
+
+// Gap backfill: how far back to look for holes, and the most MFAPI calls per scheme
+// (a scheme with more ranges is fetched once over the whole span instead)
+export const DEFAULT_BACKFILL_LOOKBACK_DAYS = 30;
+const MAX_BACKFILL_RANGES_PER_SCHEME = 5;
+
 export class NavDownloadService {
   private db: Pool;
   private navService: NavService;
   private amfiService: AmfiDataSourceService;
+  private leaseService: JobLeaseService;
+  private qualityService: NavQualityService;
+  private schemeSyncService: SchemeSyncService;
   
-  private downloadLocks = new Map<string, DownloadLockInfo>();
   private progressUpdates = new Map<number, DownloadProgressUpdate>();
   
   private readonly API_BASE_URL: string;
@@ -50,6 +69,9 @@ export class NavDownloadService {
     this.db = pool;
     this.navService = new NavService();
     this.amfiService = new AmfiDataSourceService();
+    this.leaseService = new JobLeaseService();
+    this.qualityService = new NavQualityService();
+    this.schemeSyncService = new SchemeSyncService();
     this.API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:8080';
   }
 
@@ -65,12 +87,14 @@ export class NavDownloadService {
   ): Promise<{ jobId: number; message: string; alreadyExists?: boolean }> {
     const today = new Date().toISOString().split('T')[0];
     const lockKey = `daily_${tenantId}_${isLive}_${today}`;
+    let lockAcquired = false;
     
     try {
-      if (this.downloadLocks.has(lockKey)) {
-        const existingLock = this.downloadLocks.get(lockKey)!;
+      lockAcquired = await this.acquireDownloadLock(lockKey, 'daily', tenantId, isLive, userId);
+      if (!lockAcquired) {
+        const existingLock = await this.getDownloadLock(lockKey);
         return {
-          jobId: existingLock.jobId,
+          jobId: existingLock?.jobId || 0,
           message: 'Daily download already in progress',
           alreadyExists: true
         };
@@ -99,6 +123,7 @@ export class NavDownloadService {
       const schemesWithoutData = schemeIds.filter(id => !existingData[id]);
       
       if (schemesWithoutData.length === 0) {
+        await this.releaseDownloadLock(lockKey);
         return {
           jobId: 0,
           message: `Daily NAV data already exists for all ${schemeIds.length} tracked schemes`,
@@ -112,14 +137,7 @@ export class NavDownloadService {
         scheduled_date: new Date()
       });
 
-      const lockInfo: DownloadLockInfo = {
-        jobId: downloadJob.id,
-        lockType: 'daily',
-        lockedBy: userId,
-        lockedAt: new Date(),
-        schemeIds: schemesWithoutData
-      };
-      this.downloadLocks.set(lockKey, lockInfo);
+      await this.attachJobToLock(lockKey, downloadJob.id, schemesWithoutData);
 
       this.initializeProgressTracking(downloadJob.id, 'daily', schemesWithoutData.length);
 
@@ -158,7 +176,9 @@ export class NavDownloadService {
         message: `Daily download started for ${schemesWithoutData.length} schemes`
       };
     } catch (error: any) {
-      this.downloadLocks.delete(lockKey);
+      if (lockAcquired) {
+        await this.releaseDownloadLock(lockKey);
+      }
       
       SimpleLogger.error('NavDownload', 'Failed to trigger daily download', 'triggerDailyDownload', {
         tenantId, userId, error: error.message
@@ -179,6 +199,7 @@ export class NavDownloadService {
     request: { scheme_ids: number[]; start_date: Date; end_date: Date }
   ): Promise<{ jobId: number; message: string }> {
     const lockKey = `historical_${tenantId}_${isLive}_${userId}_${request.scheme_ids.join(',')}`;
+    let lockAcquired = false;
     
     try {
       // Validate scheme_ids array
@@ -207,10 +228,11 @@ export class NavDownloadService {
         throw new Error('end_date cannot be in the future');
       }
 
-      // Check for concurrent historical download
-      if (this.downloadLocks.has(lockKey)) {
-        const existingLock = this.downloadLocks.get(lockKey)!;
-        throw new Error(`Historical download already in progress (Job ID: ${existingLock.jobId})`);
+      // Check for concurrent historical download (on any instance)
+      lockAcquired = await this.acquireDownloadLock(lockKey, 'historical', tenantId, isLive, userId);
+      if (!lockAcquired) {
+        const existingLock = await this.getDownloadLock(lockKey);
+        throw new Error(`Historical download already in progress (Job ID: ${existingLock?.jobId || 'pending'})`);
       }
 
       // REMOVED: Check for historical_download_completed - allow re-downloads for earlier data
@@ -229,15 +251,8 @@ export class NavDownloadService {
         }
       );
 
-      // Create download lock
-      const lockInfo: DownloadLockInfo = {
-        jobId: downloadJob.id,
-        lockType: 'historical',
-        lockedBy: userId,
-        lockedAt: new Date(),
-        schemeIds: request.scheme_ids
-      };
-      this.downloadLocks.set(lockKey, lockInfo);
+      // Link the download lock to the job
+      await this.attachJobToLock(lockKey, downloadJob.id, request.scheme_ids);
 
       // Initialize progress tracking (2 seconds per scheme estimate)
       const estimatedTimeMs = request.scheme_ids.length * 2000;
@@ -320,7 +335,9 @@ export class NavDownloadService {
         message: `Historical download started for ${request.scheme_ids.length} schemes using MFAPI.in`
       };
     } catch (error: any) {
-      this.downloadLocks.delete(lockKey);
+      if (lockAcquired) {
+        await this.releaseDownloadLock(lockKey);
+      }
       
       SimpleLogger.error('NavDownload', 'Failed to trigger historical download', 'triggerHistoricalDownload', {
         tenantId, userId, request, error: error.message
@@ -391,15 +408,17 @@ export class NavDownloadService {
             jobId, schemeId, schemeCode
           });
           
-          // Call MFAPI.in for this scheme with date range filtering
-          const mfapiResponse = await this.amfiService.downloadFromMFAPI(
+          // Tenant's history providers (MFAPI.in, local files) with date range filtering
+          const mfapiResponse = await this.amfiService.downloadSchemeHistory(
             schemeCode,
             startDate,
             endDate,
             {
               requestId: `hist_${jobId}_${schemeCode}`,
               retryAttempts: 3,
-              timeout: 30000
+              timeout: 30000,
+              tenantId,
+              isLive
             }
           );
           
@@ -606,6 +625,293 @@ export class NavDownloadService {
     }
   }
 
+  /**
+   * Trigger gap backfill: detect missing date ranges per bookmark and fetch only those
+   * ranges from MFAPI.in. Returns jobId 0 when there is nothing to backfill.
+   */
+  async triggerBackfillDownload(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    options: { scheme_ids?: number[]; lookback_days?: number } = {}
+  ): Promise<{ jobId: number; message: string; gaps: SchemeNavGaps[]; alreadyExists?: boolean }> {
+    const lockKey = `backfill_${tenantId}_${isLive}_${userId}`;
+    let lockAcquired = false;
+
+    try {
+      lockAcquired = await this.acquireDownloadLock(lockKey, 'backfill', tenantId, isLive, userId);
+      if (!lockAcquired) {
+        const existingLock = await this.getDownloadLock(lockKey);
+        return {
+          jobId: existingLock?.jobId || 0,
+          message: 'Backfill already in progress',
+          gaps: [],
+          alreadyExists: true
+        };
+      }
+
+      const gaps = await this.qualityService.getMissingRanges(tenantId, isLive, userId, {
+        lookback_days: options.lookback_days || DEFAULT_BACKFILL_LOOKBACK_DAYS,
+        scheme_ids: options.scheme_ids
+      });
+
+      if (gaps.length === 0) {
+        await this.releaseDownloadLock(lockKey);
+        return {
+          jobId: 0,
+          message: 'No missing NAV dates found for bookmarked schemes',
+          gaps
+        };
+      }
+
+      const schemeIds = gaps.map(g => g.scheme_id);
+      const allRanges = gaps.flatMap(g => g.ranges);
+      const startDate = new Date(allRanges.map(r => r.start_date).sort()[0]);
+      const endDate = new Date(allRanges.map(r => r.end_date).sort()[allRanges.length - 1]);
+
+      const downloadJob = await this.navService.createDownloadJob(tenantId, isLive, userId, {
+        job_type: 'backfill',
+        scheme_ids: schemeIds,
+        scheduled_date: new Date(),
+        start_date: startDate,
+        end_date: endDate
+      });
+
+      await this.attachJobToLock(lockKey, downloadJob.id, schemeIds);
+
+      this.initializeProgressTracking(downloadJob.id, 'backfill', schemeIds.length, allRanges.length * 2000);
+
+      setImmediate(async () => {
+        try {
+          await this.executeBackfillDownload(downloadJob.id, tenantId, isLive, userId, gaps);
+        } catch (error: any) {
+          SimpleLogger.error('NavDownload', 'Async backfill execution failed - SERVER DID NOT CRASH', 'triggerBackfillDownload-async', {
+            jobId: downloadJob.id, tenantId, userId, error: error.message
+          }, userId, tenantId, error.stack);
+        }
+      });
+
+      SimpleLogger.info('NavDownload', 'Backfill job created', 'triggerBackfillDownload', {
+        tenantId, userId, jobId: downloadJob.id, totalSchemes: schemeIds.length, totalRanges: allRanges.length
+      }, userId, tenantId);
+
+      return {
+        jobId: downloadJob.id,
+        message: `Backfill started for ${allRanges.length} missing date ranges across ${schemeIds.length} schemes`,
+        gaps
+      };
+    } catch (error: any) {
+      if (lockAcquired) {
+        await this.releaseDownloadLock(lockKey);
+      }
+
+      SimpleLogger.error('NavDownload', 'Failed to trigger backfill', 'triggerBackfillDownload', {
+        tenantId, userId, options, error: error.message
+      }, userId, tenantId, error.stack);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Execute gap backfill scheme-by-scheme, one MFAPI.in call per missing range
+   */
+  private async executeBackfillDownload(
+    jobId: number,
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    gaps: SchemeNavGaps[]
+  ): Promise<void> {
+    const startTime = Date.now();
+    let processedSchemes = 0;
+    let totalRecordsInserted = 0;
+    let totalRecordsUpdated = 0;
+    let apiCalls = 0;
+    const schemeErrors: Array<{ scheme_id: number; scheme_code: string; error: string }> = [];
+
+    try {
+      await this.navService.updateDownloadJob(tenantId, isLive, jobId, {
+        status: 'running'
+      });
+
+      for (let i = 0; i < gaps.length; i++) {
+        const { scheme_id: schemeId, scheme_code: schemeCode } = gaps[i];
+        const ranges = this.limitBackfillRanges(gaps[i].ranges);
+
+        this.updateProgress(jobId, {
+          status: 'running',
+          currentStep: `Backfilling scheme ${i + 1} of ${gaps.length}: ${schemeCode} (${ranges.length} ranges)`,
+          progressPercentage: Math.round((i / gaps.length) * 100),
+          processedSchemes: i
+        });
+
+        try {
+          let stillMissing = 0;
+
+          for (const range of ranges) {
+            apiCalls++;
+            const mfapiResponse = await this.amfiService.downloadSchemeHistory(
+              schemeCode,
+              new Date(`${range.start_date}T00:00:00`),
+              new Date(`${range.end_date}T23:59:59`),
+              {
+                requestId: `backfill_${jobId}_${schemeCode}_${range.start_date}`,
+                retryAttempts: 3,
+                timeout: 30000,
+                tenantId,
+                isLive
+              }
+            );
+
+            if (!mfapiResponse.success) {
+              throw new Error(mfapiResponse.error || 'MFAPI.in request failed');
+            }
+
+            const records = mfapiResponse.data || [];
+            // MFAPI has no NAV for some business days (e.g. scheme-specific closures)
+            stillMissing += Math.max(0, range.missing_days - records.length);
+
+            if (records.length > 0) {
+              const upsertResult = await this.navService.upsertNavData(tenantId, isLive, records);
+              totalRecordsInserted += upsertResult.inserted;
+              totalRecordsUpdated += upsertResult.updated;
+
+              if (upsertResult.errors.length > 0) {
+                throw new Error(`${upsertResult.errors.length} records failed to save: ${upsertResult.errors[0].error}`);
+              }
+            }
+
+            await this.sleep(500);
+          }
+
+          processedSchemes++;
+
+          await this.navService.updateBookmarkDownloadStatus(tenantId, isLive, userId, schemeId, {
+            last_download_status: 'success',
+            last_download_attempt: new Date()
+          }).catch((statusError: any) => {
+            SimpleLogger.error('NavDownload', 'Failed to update bookmark status but continuing', 'executeBackfillDownload', {
+              jobId, schemeId, schemeCode, error: statusError.message
+            });
+          });
+
+          if (stillMissing > 0) {
+            SimpleLogger.warn('NavDownload', 'MFAPI.in had no NAV for some missing dates', 'executeBackfillDownload', {
+              jobId, schemeCode, stillMissing
+            }, userId, tenantId);
+          }
+        } catch (schemeError: any) {
+          SimpleLogger.error('NavDownload', 'Failed to backfill scheme, continuing with others', 'executeBackfillDownload', {
+            jobId, schemeId, schemeCode, error: schemeError.message
+          }, userId, tenantId, schemeError.stack);
+
+          schemeErrors.push({
+            scheme_id: schemeId,
+            scheme_code: schemeCode,
+            error: schemeError.message || 'Unknown error'
+          });
+
+          await this.navService.updateBookmarkDownloadStatus(tenantId, isLive, userId, schemeId, {
+            last_download_status: 'failed',
+            last_download_error: `Backfill failed: ${schemeError.message}`,
+            last_download_attempt: new Date()
+          }).catch(() => {
+            // Continue even if status update fails
+          });
+
+          this.updateProgress(jobId, { errors: schemeErrors });
+        }
+
+        this.updateProgress(jobId, {
+          processedSchemes,
+          processedRecords: totalRecordsInserted + totalRecordsUpdated
+        });
+      }
+
+      const finalStatus: 'completed' | 'failed' = processedSchemes > 0 ? 'completed' : 'failed';
+
+      const resultSummary: NavDownloadJobResult = {
+        total_schemes: gaps.length,
+        successful_downloads: processedSchemes,
+        failed_downloads: schemeErrors.length,
+        total_records_inserted: totalRecordsInserted,
+        total_records_updated: totalRecordsUpdated,
+        schemes_with_errors: schemeErrors,
+        execution_time_ms: Date.now() - startTime,
+        api_calls_made: apiCalls
+      };
+
+      await this.navService.updateDownloadJob(tenantId, isLive, jobId, {
+        status: finalStatus,
+        result_summary: resultSummary
+      });
+
+      this.updateProgress(jobId, {
+        status: finalStatus,
+        currentStep: schemeErrors.length > 0
+          ? `Backfill completed with ${schemeErrors.length} errors`
+          : 'Backfill completed successfully',
+        progressPercentage: 100,
+        processedSchemes,
+        processedRecords: totalRecordsInserted + totalRecordsUpdated,
+        errors: schemeErrors
+      });
+
+      this.cleanupAfterDownload(jobId, 'backfill', tenantId, isLive);
+
+      SimpleLogger.info('NavDownload', 'Backfill completed', 'executeBackfillDownload', {
+        jobId, tenantId, userId,
+        totalSchemes: gaps.length,
+        successfulSchemes: processedSchemes,
+        failedSchemes: schemeErrors.length,
+        recordsInserted: totalRecordsInserted,
+        recordsUpdated: totalRecordsUpdated,
+        apiCalls,
+        executionTimeMs: Date.now() - startTime
+      }, userId, tenantId);
+    } catch (error: any) {
+      const errorMessage = error.message || 'Unknown error';
+
+      try {
+        await this.navService.updateDownloadJob(tenantId, isLive, jobId, {
+          status: 'failed',
+          error_details: errorMessage
+        });
+
+        this.updateProgress(jobId, {
+          status: 'failed',
+          currentStep: `Backfill failed: ${errorMessage}`,
+          progressPercentage: 0
+        });
+      } catch (updateError: any) {
+        SimpleLogger.error('NavDownload', 'Failed to update job after error', 'executeBackfillDownload', {
+          jobId, updateError: updateError.message
+        });
+      }
+
+      this.cleanupAfterDownload(jobId, 'backfill', tenantId, isLive);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Too many ranges for one scheme: a single call over the whole span is cheaper
+   * (MFAPI.in returns the full history on every call anyway)
+   */
+  private limitBackfillRanges(ranges: NavGapRange[]): NavGapRange[] {
+    if (ranges.length <= MAX_BACKFILL_RANGES_PER_SCHEME) {
+      return ranges;
+    }
+
+    return [{
+      start_date: ranges[0].start_date,
+      end_date: ranges[ranges.length - 1].end_date,
+      missing_days: ranges.reduce((sum, range) => sum + range.missing_days, 0)
+    }];
+  }
+
   /**
    * Trigger weekly NAV download - UNCHANGED
    */
@@ -615,16 +921,19 @@ export class NavDownloadService {
     systemUserId: number = 1
   ): Promise<{ jobId: number; message: string }> {
     const lockKey = `weekly_${tenantId}_${isLive}`;
+    let lockAcquired = false;
     
     try {
-      if (this.downloadLocks.has(lockKey)) {
-        const existingLock = this.downloadLocks.get(lockKey)!;
-        throw new Error(`Weekly download already in progress (Job ID: ${existingLock.jobId})`);
+      lockAcquired = await this.acquireDownloadLock(lockKey, 'weekly', tenantId, isLive, systemUserId);
+      if (!lockAcquired) {
+        const existingLock = await this.getDownloadLock(lockKey);
+        throw new Error(`Weekly download already in progress (Job ID: ${existingLock?.jobId || 'pending'})`);
       }
 
       const untrackedSchemes = await this.getUntrackedSchemesForWeeklyDownload(tenantId, isLive, 100);
 
       if (untrackedSchemes.length === 0) {
+        await this.releaseDownloadLock(lockKey);
         return {
           jobId: 0,
           message: 'No untracked schemes found for weekly download'
@@ -637,14 +946,7 @@ export class NavDownloadService {
         scheduled_date: new Date()
       });
 
-      const lockInfo: DownloadLockInfo = {
-        jobId: downloadJob.id,
-        lockType: 'weekly',
-        lockedBy: systemUserId,
-        lockedAt: new Date(),
-        schemeIds: untrackedSchemes
-      };
-      this.downloadLocks.set(lockKey, lockInfo);
+      await this.attachJobToLock(lockKey, downloadJob.id, untrackedSchemes);
 
       this.initializeProgressTracking(downloadJob.id, 'weekly', untrackedSchemes.length);
 
@@ -679,7 +981,9 @@ export class NavDownloadService {
         message: `Weekly download started for ${untrackedSchemes.length} untracked schemes`
       };
     } catch (error: any) {
-      this.downloadLocks.delete(lockKey);
+      if (lockAcquired) {
+        await this.releaseDownloadLock(lockKey);
+      }
       throw error;
     }
   }
@@ -734,7 +1038,9 @@ export class NavDownloadService {
           });
 
           amfiResponse = await this.amfiService.downloadDailyNavData({
-            requestId: `${job.job_type}_${jobId}_${Date.now()}`
+            requestId: `${job.job_type}_${jobId}_${Date.now()}`,
+            tenantId,
+            isLive
           });
         } else if (job.job_type === 'historical') {
           // Historical downloads should use executeHistoricalDownload() method
@@ -755,6 +1061,9 @@ export class NavDownloadService {
 
       navData = amfiResponse.data;
 
+      // Optional scheme master refresh (new/renamed/closed schemes), per tenant setting
+      await this.schemeSyncService.syncAfterDailyIngest(tenantId, isLive, userId, navData, amfiResponse.provider);
+
       this.updateProgress(jobId, {
         status: 'running',
         currentStep: `Processing ${navData.length} total records from AMFI...`,
@@ -1021,13 +1330,8 @@ export class NavDownloadService {
         currentStep: 'Download cancelled by user'
       });
 
-      const locksToRemove: string[] = [];
-      for (const [key, lock] of this.downloadLocks.entries()) {
-        if (lock.jobId === jobId) {
-          locksToRemove.push(key);
-        }
-      }
-      locksToRemove.forEach(key => this.downloadLocks.delete(key));
+      // The job may be running on another instance, so release regardless of holder
+      await this.leaseService.releaseByReference('nav_download', jobId, true);
 
       SimpleLogger.info('NavDownload', 'Download cancelled by user', 'cancelDownload', {
         jobId, tenantId, userId
@@ -1106,13 +1410,71 @@ export class NavDownloadService {
       this.progressUpdates.delete(jobId);
     }, 5 * 60 * 1000);
 
-    const locksToRemove: string[] = [];
-    for (const [key, lock] of this.downloadLocks.entries()) {
-      if (lock.jobId === jobId) {
-        locksToRemove.push(key);
-      }
+    this.leaseService.releaseByReference('nav_download', jobId).catch(error => {
+      // Lease expires on its own once heartbeats stop
+      SimpleLogger.error('NavDownload', 'Failed to release download lock', 'cleanupAfterDownload', {
+        jobId, jobType, tenantId, error: error.message
+      });
+    });
+  }
+
+  // ==================== DOWNLOAD LOCKS (JOB LEASES) ====================
+
+  /**
+   * Take the cluster-wide lock for a download; false when another request holds it
+   */
+  private async acquireDownloadLock(
+    lockKey: string,
+    lockType: DownloadLockInfo['lockType'],
+    tenantId: number,
+    isLive: boolean,
+    userId: number
+  ): Promise<boolean> {
+    const lease = await this.leaseService.acquire(lockKey, {
+      jobType: 'nav_download',
+      ttlMs: DOWNLOAD_LEASE_TTL_MS,
+      tenantId,
+      userId,
+      isLive,
+      metadata: { lock_type: lockType }
+    });
+
+    if (!lease) {
+      return false;
+    }
+
+    this.leaseService.startHeartbeat(lockKey, DOWNLOAD_LEASE_TTL_MS);
+    return true;
+  }
+
+  private async attachJobToLock(lockKey: string, jobId: number, schemeIds: number[]): Promise<void> {
+    await this.leaseService.setReference(lockKey, jobId, { scheme_ids: schemeIds });
+  }
+
+  private async releaseDownloadLock(lockKey: string): Promise<void> {
+    try {
+      await this.leaseService.release(lockKey);
+    } catch (error: any) {
+      SimpleLogger.error('NavDownload', 'Failed to release download lock', 'releaseDownloadLock', {
+        lockKey, error: error.message
+      });
     }
-    locksToRemove.forEach(key => this.downloadLocks.delete(key));
+  }
+
+  private async getDownloadLock(lockKey: string): Promise<DownloadLockInfo | null> {
+    const lease = await this.leaseService.getLease(lockKey);
+    return lease ? this.toDownloadLockInfo(lease) : null;
+  }
+
+  private toDownloadLockInfo(lease: JobLease): DownloadLockInfo {
+    return {
+      jobId: lease.reference_id || 0,
+      lockType: lease.metadata?.lock_type,
+      lockedBy: lease.user_id || 0,
+      lockedAt: lease.acquired_at,
+      schemeIds: lease.metadata?.scheme_ids || [],
+      heldBy: lease.holder_id
+    };
   }
 
   private sleep(ms: number): Promise<void> {
@@ -1148,12 +1510,13 @@ export class NavDownloadService {
 
   // ==================== ADMIN METHODS ====================
 
-  public getDownloadLocks(): DownloadLockInfo[] {
-    return Array.from(this.downloadLocks.values());
+  public async getDownloadLocks(): Promise<DownloadLockInfo[]> {
+    const leases = await this.leaseService.getActiveLeases('nav_download');
+    return leases.map(lease => this.toDownloadLockInfo(lease));
   }
 
-  public clearAllLocks(): void {
-    this.downloadLocks.clear();
+  public async clearAllLocks(): Promise<void> {
+    await this.leaseService.releaseAllHeld('nav_download');
     this.progressUpdates.clear();
     SimpleLogger.info('NavDownload', 'All download locks and progress cleared', 'clearAllLocks');
   }
@@ -0,0 +1,205 @@
+// backend/src/services/navPipeline.service.ts
+// In-process daily NAV pipeline: provider download -> parse -> upsertNavData -> bookmark status
+// Used by schedulers with execution_mode = 'native' so no n8n instance is needed.
+// Also feeds the scheme master sync (SchemeSyncService) when the tenant enabled it.
+// Set sourceFile (or AMFI_NAV_FILE) to run against a local NAVAll.txt fixture.
+
+import { NavService } from './nav.service';
+import { AmfiDataSourceService } from './amfiDataSource.service';
+import { SimpleLogger } from './simpleLogger.service';
+import { JobLeaseService } from './jobLease.service';
+import { SchemeSyncService } from './schemeSync.service';
+import { NavDownloadJobResult } from '../types/nav.types';
+
+export interface NavPipelineOptions {
+  sourceFile?: string;   // local NAVAll.txt-format file instead of the AMFI URL
+  requestId?: string;
+}
+
+export interface NavPipelineResult {
+  job_id: number;
+  total_records: number;      // records parsed from the NAV file
+  matched_records: number;    // records for bookmarked schemes
+  inserted: number;
+  updated: number;
+  schemes_updated: number;
+  schemes_failed: number;
+  schemes_with_errors: Array<{ scheme_id: number; scheme_code: string; error: string }>;
+  duration_ms: number;
+}
+
+// Same TTL as NavDownloadService so both paths contend on one lock per tenant and day
+const PIPELINE_LEASE_TTL_MS = 2 * 60 * 1000;
+
+export class NavPipelineService {
+  private navService: NavService;
+  private amfiService: AmfiDataSourceService;
+  private leaseService: JobLeaseService;
+  private schemeSyncService: SchemeSyncService;
+
+  constructor() {
+    this.navService = new NavService();
+    this.amfiService = new AmfiDataSourceService();
+    this.leaseService = new JobLeaseService();
+    this.schemeSyncService = new SchemeSyncService();
+  }
+
+  /**
+   * Run the daily download for a user's daily-download bookmarks and wait for it to finish
+   * Creates a 'daily' download job so the run shows up alongside n8n/API downloads.
+   */
+  async runDailyPipeline(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    options: NavPipelineOptions = {}
+  ): Promise<NavPipelineResult> {
+    const startTime = Date.now();
+    const today = new Date().toISOString().split('T')[0];
+    // Shares the daily download lock key with NavDownloadService.triggerDailyDownload
+    const lockKey = `daily_${tenantId}_${isLive}_${today}`;
+
+    const lease = await this.leaseService.acquire(lockKey, {
+      jobType: 'nav_download',
+      ttlMs: PIPELINE_LEASE_TTL_MS,
+      tenantId,
+      userId,
+      isLive,
+      metadata: { lock_type: 'daily', pipeline: 'native' }
+    });
+
+    if (!lease) {
+      throw new Error('Daily download already in progress');
+    }
+
+    this.leaseService.startHeartbeat(lockKey, PIPELINE_LEASE_TTL_MS);
+    let jobId: number | null = null;
+
+    try {
+      const { bookmarks } = await this.navService.getUserBookmarks(
+        tenantId,
+        isLive,
+        userId,
+        { page: 1, page_size: 1000, daily_download_only: true }
+      );
+
+      if (bookmarks.length === 0) {
+        throw new Error('No schemes configured for daily download');
+      }
+
+      const schemeIds = bookmarks.map(b => b.scheme_id);
+
+      const job = await this.navService.createDownloadJob(tenantId, isLive, userId, {
+        job_type: 'daily',
+        scheme_ids: schemeIds,
+        scheduled_date: new Date()
+      });
+      jobId = job.id;
+
+      await this.leaseService.setReference(lockKey, job.id, { scheme_ids: schemeIds });
+      await this.navService.updateDownloadJob(tenantId, isLive, job.id, { status: 'running' });
+
+      const amfiResponse = await this.amfiService.downloadDailyNavData({
+        requestId: options.requestId || `native_daily_${job.id}_${Date.now()}`,
+        sourceFile: options.sourceFile,
+        tenantId,
+        isLive
+      });
+
+      if (!amfiResponse.success || !amfiResponse.data) {
+        throw new Error(`NAV download error: ${amfiResponse.error || 'Failed to download daily NAV data'}`);
+      }
+
+      // Optional scheme master refresh (new/renamed/closed schemes), per tenant setting
+      await this.schemeSyncService.syncAfterDailyIngest(tenantId, isLive, userId, amfiResponse.data, amfiResponse.provider);
+
+      const trackedCodes = new Set(bookmarks.map(b => b.scheme_code));
+      const matchedRecords = amfiResponse.data.filter(record => trackedCodes.has(record.scheme_code));
+
+      const upsertResult = await this.navService.upsertNavData(tenantId, isLive, matchedRecords);
+
+      // Bookmark status: failed when the upsert rejected the scheme or the provider had no NAV for it
+      const upsertErrors = new Map(upsertResult.errors.map(e => [e.scheme_code, e.error]));
+      const receivedCodes = new Set(matchedRecords.map(record => record.scheme_code));
+      const schemesWithErrors: NavPipelineResult['schemes_with_errors'] = [];
+      const attemptedAt = new Date();
+
+      for (const bookmark of bookmarks) {
+        const error = upsertErrors.get(bookmark.scheme_code)
+          || (receivedCodes.has(bookmark.scheme_code) ? undefined : 'Scheme not present in daily NAV data');
+
+        if (error) {
+          schemesWithErrors.push({ scheme_id: bookmark.scheme_id, scheme_code: bookmark.scheme_code, error });
+        }
+
+        await this.navService.updateBookmarkDownloadStatus(tenantId, isLive, userId, bookmark.scheme_id, {
+          last_download_status: error ? 'failed' : 'success',
+          last_download_error: error,
+          last_download_attempt: attemptedAt
+        });
+      }
+
+      const resultSummary: NavDownloadJobResult = {
+        total_schemes: bookmarks.length,
+        successful_downloads: bookmarks.length - schemesWithErrors.length,
+        failed_downloads: schemesWithErrors.length,
+        total_records_inserted: upsertResult.inserted,
+        total_records_updated: upsertResult.updated,
+        schemes_with_errors: schemesWithErrors,
+        execution_time_ms: Date.now() - startTime,
+        api_calls_made: amfiResponse.provider === 'local' ? 0 : 1
+      };
+
+      await this.navService.updateDownloadJob(tenantId, isLive, job.id, {
+        status: 'completed',
+        result_summary: resultSummary
+      });
+
+      const result: NavPipelineResult = {
+        job_id: job.id,
+        total_records: amfiResponse.data.length,
+        matched_records: matchedRecords.length,
+        inserted: upsertResult.inserted,
+        updated: upsertResult.updated,
+        schemes_updated: resultSummary.successful_downloads,
+        schemes_failed: resultSummary.failed_downloads,
+        schemes_with_errors: schemesWithErrors,
+        duration_ms: Date.now() - startTime
+      };
+
+      SimpleLogger.info('NavPipeline', 'Native daily NAV pipeline completed', 'runDailyPipeline', {
+        tenantId, userId, jobId: job.id,
+        totalRecords: result.total_records,
+        matchedRecords: result.matched_records,
+        schemesUpdated: result.schemes_updated,
+        schemesFailed: result.schemes_failed,
+        durationMs: result.duration_ms
+      }, userId, tenantId);
+
+      return result;
+    } catch (error: any) {
+      if (jobId) {
+        await this.navService.updateDownloadJob(tenantId, isLive, jobId, {
+          status: 'failed',
+          error_details: error.message
+        }).catch(updateError => {
+          SimpleLogger.error('NavPipeline', 'Failed to mark download job as failed', 'runDailyPipeline', {
+            jobId, updateError: updateError.message
+          }, userId, tenantId);
+        });
+      }
+
+      SimpleLogger.error('NavPipeline', 'Native daily NAV pipeline failed', 'runDailyPipeline', {
+        tenantId, userId, jobId, error: error.message, durationMs: Date.now() - startTime
+      }, userId, tenantId, error.stack);
+
+      throw error;
+    } finally {
+      await this.leaseService.release(lockKey).catch(releaseError => {
+        SimpleLogger.error('NavPipeline', 'Failed to release download lock', 'runDailyPipeline', {
+          lockKey, error: releaseError.message
+        }, userId, tenantId);
+      });
+    }
+  }
+}
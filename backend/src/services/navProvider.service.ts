@@ -0,0 +1,278 @@
+// backend/src/services/navProvider.service.ts
+// Per-tenant NAV provider selection (t_nav_provider_settings) and ordered fallback:
+// providers are tried in the tenant's order, skipping those without the needed capability,
+// until one returns data. Without a tenant (or a saved row) NAV_PROVIDERS / the default order applies.
+
+import { Pool } from 'pg';
+import * as path from 'path';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import {
+  AmfiDailyNavProvider,
+  LocalDirectoryNavProvider,
+  MfapiNavProvider,
+  NAV_LOCAL_DIR,
+  NavDataProvider,
+  NavProviderRequestOptions
+} from './navDataProvider.service';
+import {
+  NavProviderCapability,
+  NavProviderInfo,
+  NavProviderName,
+  NavProviderSettings,
+  ParsedNavRecord,
+  UpdateNavProviderSettingsRequest
+} from '../types/nav.types';
+
+export const NAV_PROVIDER_NAMES: NavProviderName[] = ['amfi', 'mfapi', 'local'];
+
+// e.g. NAV_PROVIDERS=local for an air-gapped deployment
+export const DEFAULT_NAV_PROVIDER_ORDER: NavProviderName[] = (() => {
+  const configured = (process.env.NAV_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is NavProviderName => NAV_PROVIDER_NAMES.includes(name as NavProviderName));
+
+  return configured.length > 0 ? Array.from(new Set(configured)) : [...NAV_PROVIDER_NAMES];
+})();
+
+// One instance per process so HTTP rate limiting and the local file cache are shared
+const localProvider = new LocalDirectoryNavProvider();
+
+const PROVIDERS: Record<NavProviderName, NavDataProvider> = {
+  amfi: new AmfiDailyNavProvider(),
+  mfapi: new MfapiNavProvider(),
+  local: localProvider
+};
+
+export interface NavProviderContext {
+  tenantId?: number;
+  isLive?: boolean;
+  // Explicit order, bypassing the tenant settings
+  providers?: NavProviderName[];
+}
+
+export interface NavProviderResult {
+  provider: NavProviderName;
+  records: ParsedNavRecord[];
+  // Providers that failed before one succeeded
+  failures: Array<{ provider: NavProviderName; error: string }>;
+}
+
+export class NavProviderService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  listProviders(): NavProviderInfo[] {
+    return NAV_PROVIDER_NAMES.map(name => ({
+      name,
+      description: PROVIDERS[name].description,
+      capabilities: PROVIDERS[name].capabilities
+    }));
+  }
+
+  /**
+   * Parse a single NAV file (AMFI text or CSV by extension) with the local provider
+   */
+  async readNavFile(filePath: string): Promise<ParsedNavRecord[]> {
+    return localProvider.readFile(filePath);
+  }
+
+  /**
+   * Saved settings of a tenant/environment, or the defaults when none are saved
+   */
+  async getSettings(tenantId: number, isLive: boolean): Promise<NavProviderSettings> {
+    try {
+      const query = `
+        SELECT tenant_id, is_live, providers, local_directory, updated_at
+        FROM t_nav_provider_settings
+        WHERE tenant_id = $1 AND is_live = $2
+      `;
+
+      const result = await this.db.query(query, [tenantId, isLive]);
+
+      if (result.rows.length === 0) {
+        return {
+          tenant_id: tenantId,
+          is_live: isLive,
+          providers: [...DEFAULT_NAV_PROVIDER_ORDER],
+          local_directory: null,
+          updated_at: null
+        };
+      }
+
+      return result.rows[0];
+    } catch (error: any) {
+      console.error('Error fetching NAV provider settings:', error);
+      throw new Error(`Failed to fetch NAV provider settings: ${error.message}`);
+    }
+  }
+
+  async saveSettings(
+    tenantId: number,
+    isLive: boolean,
+    request: UpdateNavProviderSettingsRequest
+  ): Promise<NavProviderSettings> {
+    const validationError = this.validateSettings(request);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const query = `
+        INSERT INTO t_nav_provider_settings (tenant_id, is_live, providers, local_directory)
+        VALUES ($1, $2, $3::VARCHAR(20)[], $4)
+        ON CONFLICT (tenant_id, is_live) DO UPDATE SET
+          providers = EXCLUDED.providers,
+          local_directory = EXCLUDED.local_directory,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING tenant_id, is_live, providers, local_directory, updated_at
+      `;
+
+      const result = await this.db.query(query, [
+        tenantId,
+        isLive,
+        request.providers,
+        request.local_directory?.trim() || null
+      ]);
+
+      SimpleLogger.info('NavProvider', 'NAV provider settings saved', 'saveSettings', {
+        tenantId, isLive, providers: request.providers, localDirectory: request.local_directory
+      }, undefined, tenantId);
+
+      return result.rows[0];
+    } catch (error: any) {
+      console.error('Error saving NAV provider settings:', error);
+      throw new Error(`Failed to save NAV provider settings: ${error.message}`);
+    }
+  }
+
+  /**
+   * Validation message for a settings update, or null when valid
+   */
+  validateSettings(request: UpdateNavProviderSettingsRequest): string | null {
+    if (!Array.isArray(request.providers) || request.providers.length === 0) {
+      return 'providers must be a non-empty array';
+    }
+
+    const invalid = request.providers.filter(name => !NAV_PROVIDER_NAMES.includes(name));
+    if (invalid.length > 0) {
+      return `Unknown NAV providers: ${invalid.join(', ')}. Must be one of: ${NAV_PROVIDER_NAMES.join(', ')}`;
+    }
+
+    if (new Set(request.providers).size !== request.providers.length) {
+      return 'providers must not contain duplicates';
+    }
+
+    const localDirectory = request.local_directory;
+    if (localDirectory !== undefined && localDirectory !== null) {
+      if (typeof localDirectory !== 'string' || localDirectory.length > 500) {
+        return 'local_directory must be a string of at most 500 characters';
+      }
+      // Tenants can only pick a subdirectory of NAV_LOCAL_DIR
+      if (path.isAbsolute(localDirectory) || localDirectory.split(/[\\/]/).includes('..')) {
+        return `local_directory must be a relative path inside ${NAV_LOCAL_DIR}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Latest NAV for all schemes from the first provider that succeeds
+   */
+  async fetchDailyNav(
+    context: NavProviderContext,
+    options: NavProviderRequestOptions = {}
+  ): Promise<NavProviderResult> {
+    return this.runWithFallback('daily', context, options, (provider, providerOptions) =>
+      provider.fetchDailyNav(providerOptions)
+    );
+  }
+
+  /**
+   * One scheme's NAV history from the first provider that succeeds
+   */
+  async fetchSchemeHistory(
+    schemeCode: string,
+    startDate: Date | undefined,
+    endDate: Date | undefined,
+    context: NavProviderContext,
+    options: NavProviderRequestOptions = {}
+  ): Promise<NavProviderResult> {
+    return this.runWithFallback('history', context, options, (provider, providerOptions) =>
+      provider.fetchSchemeHistory(schemeCode, startDate, endDate, providerOptions)
+    );
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async runWithFallback(
+    capability: NavProviderCapability,
+    context: NavProviderContext,
+    options: NavProviderRequestOptions,
+    fetch: (provider: NavDataProvider, options: NavProviderRequestOptions) => Promise<ParsedNavRecord[]>
+  ): Promise<NavProviderResult> {
+    const { order, localDirectory } = await this.resolveOrder(context);
+    const candidates = order.filter(name => PROVIDERS[name].capabilities.includes(capability));
+
+    if (candidates.length === 0) {
+      throw new Error(`No configured NAV provider serves ${capability} data (order: ${order.join(', ')})`);
+    }
+
+    const providerOptions: NavProviderRequestOptions = {
+      ...options,
+      localDirectory: options.localDirectory || localDirectory
+    };
+    const failures: NavProviderResult['failures'] = [];
+
+    for (const name of candidates) {
+      try {
+        const records = await fetch(PROVIDERS[name], providerOptions);
+
+        if (failures.length > 0) {
+          SimpleLogger.warn('NavProvider', `NAV ${capability} data served by fallback provider`, 'runWithFallback', {
+            provider: name, failures, tenantId: context.tenantId
+          }, undefined, context.tenantId);
+        }
+
+        return { provider: name, records, failures };
+      } catch (error: any) {
+        failures.push({ provider: name, error: error.message });
+        SimpleLogger.error('NavProvider', `NAV provider ${name} failed`, 'runWithFallback', {
+          capability, provider: name, tenantId: context.tenantId, error: error.message
+        }, undefined, context.tenantId);
+      }
+    }
+
+    throw new Error(`All NAV providers failed: ${failures.map(f => `${f.provider}: ${f.error}`).join('; ')}`);
+  }
+
+  private async resolveOrder(
+    context: NavProviderContext
+  ): Promise<{ order: NavProviderName[]; localDirectory?: string }> {
+    if (context.tenantId === undefined) {
+      return { order: context.providers || DEFAULT_NAV_PROVIDER_ORDER };
+    }
+
+    let settings: NavProviderSettings | null = null;
+    try {
+      settings = await this.getSettings(context.tenantId, context.isLive ?? true);
+    } catch (error: any) {
+      // Settings are optional; a download should not fail because they could not be read
+      SimpleLogger.error('NavProvider', 'Falling back to default NAV provider order', 'resolveOrder', {
+        tenantId: context.tenantId, error: error.message
+      }, undefined, context.tenantId);
+    }
+
+    return {
+      order: context.providers || settings?.providers || DEFAULT_NAV_PROVIDER_ORDER,
+      localDirectory: settings?.local_directory
+        ? path.join(NAV_LOCAL_DIR, settings.local_directory)
+        : undefined
+    };
+  }
+}
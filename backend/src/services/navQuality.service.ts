@@ -0,0 +1,304 @@
+// backend/src/services/navQuality.service.ts
+// Data-quality checks on stored NAV series for a user's bookmarked schemes:
+// missing business days (weekends + t_market_holidays), day-over-day spikes and stale schemes
+// Also provides the missing date ranges that the gap backfill job re-downloads
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import {
+  NavGapRange,
+  NavQualityParams,
+  NavQualityReport,
+  NavSpike,
+  SchemeNavGaps,
+  SchemeNavQuality
+} from '../types/nav.types';
+
+export const DEFAULT_NAV_QUALITY_PARAMS: NavQualityParams = {
+  lookback_days: 90,
+  spike_threshold_pct: 10,
+  stale_after_days: 3,
+  exchange: 'NSE'
+};
+
+export const MAX_QUALITY_LOOKBACK_DAYS = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface QualityScan {
+  report: NavQualityReport;
+  holidays: Set<string>;
+  windowStart: string;
+  today: string;
+}
+
+export class NavQualityService {
+  private db: Pool;
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Scan every active bookmark of the user and report gaps, spikes and stale NAVs
+   */
+  async getQualityReport(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    params: Partial<NavQualityParams> = {}
+  ): Promise<NavQualityReport> {
+    const { report } = await this.scan(tenantId, isLive, userId, params);
+    return report;
+  }
+
+  /**
+   * Missing business-day ranges per bookmark: holes inside the stored series plus the
+   * tail after the latest NAV up to yesterday (today's NAV may not be published yet).
+   * Schemes with no NAV at all are left to the historical download.
+   */
+  async getMissingRanges(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    options: { lookback_days?: number; exchange?: NavQualityParams['exchange']; scheme_ids?: number[] } = {}
+  ): Promise<SchemeNavGaps[]> {
+    const { report, holidays, windowStart, today } = await this.scan(
+      tenantId,
+      isLive,
+      userId,
+      {
+        ...(options.lookback_days !== undefined && { lookback_days: options.lookback_days }),
+        ...(options.exchange && { exchange: options.exchange })
+      },
+      options.scheme_ids
+    );
+
+    const yesterday = this.addDays(today, -1);
+
+    return report.schemes
+      .filter(scheme => scheme.latest_nav_date !== null)
+      .map(scheme => {
+        const tailStart = this.addDays(scheme.latest_nav_date!, 1);
+        const tail = this.listBusinessDays(tailStart > windowStart ? tailStart : windowStart, yesterday, holidays);
+
+        return {
+          bookmark_id: scheme.bookmark_id,
+          scheme_id: scheme.scheme_id,
+          scheme_code: scheme.scheme_code,
+          ranges: this.groupIntoRanges([...scheme.missing_dates, ...tail], holidays)
+        };
+      })
+      .filter(scheme => scheme.ranges.length > 0);
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async scan(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    params: Partial<NavQualityParams>,
+    schemeIdFilter?: number[]
+  ): Promise<QualityScan> {
+    const parameters: NavQualityParams = { ...DEFAULT_NAV_QUALITY_PARAMS, ...params };
+
+    try {
+      const bookmarksQuery = `
+        SELECT id AS bookmark_id, scheme_id, scheme_code, scheme_name
+        FROM t_scheme_bookmarks
+        WHERE tenant_id = $1 AND is_live = $2 AND user_id = $3 AND is_active = true
+          AND ($4::INTEGER[] IS NULL OR scheme_id = ANY($4::INTEGER[]))
+        ORDER BY scheme_name
+      `;
+      const bookmarks = (await this.db.query(bookmarksQuery, [
+        tenantId, isLive, userId, schemeIdFilter || null
+      ])).rows;
+      const schemeIds: number[] = bookmarks.map(b => b.scheme_id);
+
+      const [windowResult, seriesResult, latestResult, holidaysResult] = await Promise.all([
+        this.db.query(`
+          SELECT to_char(CURRENT_DATE - $1::INTEGER, 'YYYY-MM-DD') AS window_start,
+                 to_char(CURRENT_DATE, 'YYYY-MM-DD') AS today,
+                 (SELECT EXTRACT(YEAR FROM MAX(holiday_date))::INTEGER
+                  FROM t_market_holidays WHERE exchange = $2) AS last_holiday_year
+        `, [parameters.lookback_days, parameters.exchange]),
+        this.db.query(`
+          SELECT scheme_id, to_char(nav_date, 'YYYY-MM-DD') AS nav_date, nav_value::FLOAT AS nav_value
+          FROM t_nav_data
+          WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = ANY($3::INTEGER[])
+            AND nav_date >= CURRENT_DATE - $4::INTEGER
+          ORDER BY scheme_id, nav_date
+        `, [tenantId, isLive, schemeIds, parameters.lookback_days]),
+        this.db.query(`
+          SELECT scheme_id,
+                 to_char(MAX(nav_date), 'YYYY-MM-DD') AS latest_nav_date,
+                 (CURRENT_DATE - MAX(nav_date))::INTEGER AS days_since_latest
+          FROM t_nav_data
+          WHERE tenant_id = $1 AND is_live = $2 AND scheme_id = ANY($3::INTEGER[])
+          GROUP BY scheme_id
+        `, [tenantId, isLive, schemeIds]),
+        this.db.query(`
+          SELECT to_char(holiday_date, 'YYYY-MM-DD') AS holiday_date
+          FROM t_market_holidays
+          WHERE exchange = $1 AND holiday_date >= CURRENT_DATE - $2::INTEGER
+        `, [parameters.exchange, parameters.lookback_days])
+      ]);
+
+      const { window_start: windowStart, today, last_holiday_year: lastHolidayYear } = windowResult.rows[0];
+      const holidays = new Set<string>(holidaysResult.rows.map(row => row.holiday_date));
+
+      // Without this year's calendar every trading holiday shows up as a gap
+      if (!lastHolidayYear || lastHolidayYear < Number(today.substring(0, 4))) {
+        SimpleLogger.warn('NavQuality', 'Market holiday calendar not seeded for the current year', 'scan', {
+          exchange: parameters.exchange, lastHolidayYear, today
+        }, userId, tenantId);
+      }
+
+      const seriesByScheme = new Map<number, Array<{ nav_date: string; nav_value: number }>>();
+      for (const row of seriesResult.rows) {
+        const series = seriesByScheme.get(row.scheme_id) || [];
+        series.push({ nav_date: row.nav_date, nav_value: row.nav_value });
+        seriesByScheme.set(row.scheme_id, series);
+      }
+
+      const latestByScheme = new Map<number, { latest_nav_date: string; days_since_latest: number }>(
+        latestResult.rows.map(row => [row.scheme_id, row])
+      );
+
+      const schemes: SchemeNavQuality[] = bookmarks.map(bookmark => {
+        const series = seriesByScheme.get(bookmark.scheme_id) || [];
+        const latest = latestByScheme.get(bookmark.scheme_id);
+
+        const missingDates = series.length > 0
+          ? this.findMissingBusinessDays(series.map(s => s.nav_date), holidays, windowStart)
+          : [];
+        const spikes = this.findSpikes(series, parameters.spike_threshold_pct);
+        const isStale = !latest || latest.days_since_latest > parameters.stale_after_days;
+
+        const issues: SchemeNavQuality['issues'] = [];
+        if (missingDates.length > 0) issues.push('gap');
+        if (spikes.length > 0) issues.push('spike');
+        if (isStale) issues.push('stale');
+
+        return {
+          bookmark_id: bookmark.bookmark_id,
+          scheme_id: bookmark.scheme_id,
+          scheme_code: bookmark.scheme_code,
+          scheme_name: bookmark.scheme_name,
+          latest_nav_date: latest?.latest_nav_date || null,
+          days_since_latest: latest ? latest.days_since_latest : null,
+          missing_dates: missingDates,
+          spikes,
+          is_stale: isStale,
+          issues
+        };
+      });
+
+      const report: NavQualityReport = {
+        generated_at: new Date(),
+        parameters,
+        summary: {
+          schemes_checked: schemes.length,
+          schemes_with_gaps: schemes.filter(s => s.issues.includes('gap')).length,
+          schemes_with_spikes: schemes.filter(s => s.issues.includes('spike')).length,
+          stale_schemes: schemes.filter(s => s.is_stale).length
+        },
+        schemes
+      };
+
+      return { report, holidays, windowStart, today };
+    } catch (error: any) {
+      SimpleLogger.error('NavQuality', 'Failed to build NAV quality report', 'scan', {
+        tenantId, userId, parameters, error: error.message
+      }, userId, tenantId, error.stack);
+      throw new Error(`Failed to build NAV quality report: ${error.message}`);
+    }
+  }
+
+  /**
+   * Business days with no NAV between the first NAV in the window and the latest NAV
+   * (the tail after the latest NAV is reported as staleness, not as gaps)
+   */
+  private findMissingBusinessDays(navDates: string[], holidays: Set<string>, windowStart: string): string[] {
+    const present = new Set(navDates);
+    const first = navDates[0] > windowStart ? navDates[0] : windowStart;
+    const last = navDates[navDates.length - 1];
+
+    return this.listBusinessDays(first, last, holidays).filter(date => !present.has(date));
+  }
+
+  /**
+   * Weekdays in [from, to] that are not exchange holidays (YYYY-MM-DD strings)
+   */
+  private listBusinessDays(from: string, to: string, holidays: Set<string>): string[] {
+    const days: string[] = [];
+
+    for (let time = Date.parse(`${from}T00:00:00Z`); time <= Date.parse(`${to}T00:00:00Z`); time += DAY_MS) {
+      const date = new Date(time);
+      const day = date.getUTCDay();
+      const isoDate = date.toISOString().substring(0, 10);
+
+      if (day !== 0 && day !== 6 && !holidays.has(isoDate)) {
+        days.push(isoDate);
+      }
+    }
+
+    return days;
+  }
+
+  /**
+   * Merge missing days into ranges; days separated only by weekends/holidays join one range
+   */
+  private groupIntoRanges(missingDates: string[], holidays: Set<string>): NavGapRange[] {
+    const sorted = Array.from(new Set(missingDates)).sort();
+    const ranges: NavGapRange[] = [];
+
+    for (const date of sorted) {
+      const current = ranges[ranges.length - 1];
+      const between = current
+        ? this.listBusinessDays(this.addDays(current.end_date, 1), this.addDays(date, -1), holidays)
+        : [];
+
+      if (current && between.length === 0) {
+        current.end_date = date;
+        current.missing_days++;
+      } else {
+        ranges.push({ start_date: date, end_date: date, missing_days: 1 });
+      }
+    }
+
+    return ranges;
+  }
+
+  private addDays(isoDate: string, days: number): string {
+    return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().substring(0, 10);
+  }
+
+  /**
+   * Consecutive NAVs whose absolute change exceeds the threshold
+   */
+  private findSpikes(series: Array<{ nav_date: string; nav_value: number }>, thresholdPct: number): NavSpike[] {
+    const spikes: NavSpike[] = [];
+
+    for (let i = 1; i < series.length; i++) {
+      const previous = series[i - 1];
+      const current = series[i];
+      if (!previous.nav_value) continue;
+
+      const changePct = ((current.nav_value - previous.nav_value) / previous.nav_value) * 100;
+      if (Math.abs(changePct) > thresholdPct) {
+        spikes.push({
+          nav_date: current.nav_date,
+          nav_value: current.nav_value,
+          previous_nav_date: previous.nav_date,
+          previous_nav_value: previous.nav_value,
+          change_pct: Math.round(changePct * 100) / 100
+        });
+      }
+    }
+
+    return spikes;
+  }
+}
@@ -1,13 +1,32 @@
 // backend/src/services/navScheduler.service.ts
 // NAV Scheduler Service with built-in Node.js timers (no node-cron dependency)
+// Cron expressions are evaluated by CronUtil in Asia/Kolkata regardless of server TZ
+// Each config is owned by one backend instance through a t_job_leases lease; timers only
+// run on the owner, and every run claims its slot in t_nav_scheduler_configs before executing
+// execution_mode 'native' runs the download in-process (NavPipelineService) instead of n8n
+// After every scheduled run a gap backfill is queued for any missing NAV date ranges
 
 import { Pool } from 'pg';
 import { pool } from '../config/database';
 import { NavService } from './nav.service';
 import { SimpleLogger } from './simpleLogger.service';
+import { JobLeaseService, NODE_ID } from './jobLease.service';
+import { NavPipelineService } from './navPipeline.service';
+import { NavDownloadService } from './navDownload.service';
+import {
+  CronUtil,
+  CRON_TIMEZONE,
+  DEFAULT_MISFIRE_POLICY,
+  MAX_MISFIRE_CATCHUP_RUNS,
+  MisfirePolicy
+} from '../utils/cron.util';
 
 // ==================== INTERFACES (UNCHANGED) ====================
 
+export type SchedulerExecutionMode = 'n8n' | 'native';
+
+export const EXECUTION_MODES: SchedulerExecutionMode[] = ['n8n', 'native'];
+
 export interface SchedulerConfig {
   id?: number;
   tenant_id: number;
@@ -18,6 +37,8 @@ export interface SchedulerConfig {
   download_time: string; // HH:MM format
   is_enabled: boolean;
   n8n_webhook_url?: string;
+  misfire_policy?: MisfirePolicy;
+  execution_mode?: SchedulerExecutionMode;
   last_executed_at?: Date;
   next_execution_at?: Date;
   execution_count: number;
@@ -32,6 +53,7 @@ export interface SchedulerStatus {
   cron_job_active: boolean; // Kept for compatibility
   next_run: Date | null;
   last_run: Date | null;
+  held_by: string | null; // node holding the scheduler lease
   recent_executions: ScheduleExecution[];
 }
 
@@ -46,6 +68,23 @@ export interface ScheduleExecution {
   execution_duration_ms?: number;
 }
 
+export interface ActiveSchedulerInfo {
+  jobKey: string;
+  config: SchedulerConfig;
+  isActive: boolean;
+  heldBy: string | null;
+  isLocal: boolean;
+  leaseAcquiredAt: Date | null;
+  leaseHeartbeatAt: Date | null;
+  leaseExpiresAt: Date | null;
+}
+
+export interface SchedulePreview {
+  cron_expression: string;
+  timezone: string;
+  next_runs: Array<{ at: Date; local: string }>;
+}
+
 export interface N8nWebhookPayload {
   tenant_id: number;
   user_id: number;
@@ -58,6 +97,15 @@ export interface N8nWebhookPayload {
 
 // ==================== CUSTOM TIMER MANAGEMENT ====================
 
+// setTimeout overflows above 2^31-1 ms (~24.8 days); longer waits are re-armed
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+// Scheduler ownership lease: renewed every TTL/3, taken over by another node once expired
+const SCHEDULER_LEASE_TTL_MS = 90 * 1000;
+
+// How often each node reclaims stale leases and picks up unowned or changed configs
+const SCHEDULER_SYNC_INTERVAL_MS = 30 * 1000;
+
 interface ScheduledTimer {
   timerId: NodeJS.Timeout;
   nextRun: Date;
@@ -70,7 +118,14 @@ interface ScheduledTimer {
 export class NavSchedulerService {
   private db: Pool;
   private navService: NavService;
+  private leaseService: JobLeaseService;
+  private pipelineService: NavPipelineService;
+  private downloadService: NavDownloadService;
+  // Local timer handles for the configs this node holds a lease on
   private activeTimers = new Map<string, ScheduledTimer>();
+  private syncTimer: NodeJS.Timeout | null = null;
+  // The sync in flight, shared by callers that arrive while it runs
+  private syncPromise: Promise<number> | null = null;
   
   // N8N Configuration
   private readonly N8N_BASE_URL: string;
@@ -80,6 +135,9 @@ export class NavSchedulerService {
   constructor() {
     this.db = pool;
     this.navService = new NavService();
+    this.leaseService = new JobLeaseService();
+    this.pipelineService = new NavPipelineService();
+    this.downloadService = new NavDownloadService();
     
     // Environment configuration
     this.N8N_BASE_URL = process.env.N8N_BASE_URL || 'http://localhost:5678';
@@ -99,12 +157,15 @@ export class NavSchedulerService {
       await client.query('BEGIN');
 
       // Validate cron expression
-      if (!this.isValidCronExpression(config.cron_expression)) {
-        throw new Error('Invalid cron expression');
+      const cronError = CronUtil.validate(config.cron_expression);
+      if (cronError) {
+        throw new Error(`Invalid cron expression: ${cronError}`);
       }
 
       // Calculate next execution time
       const nextExecution = this.getNextExecutionTime(config.cron_expression);
+      const misfirePolicy = config.misfire_policy || DEFAULT_MISFIRE_POLICY;
+      const executionMode = config.execution_mode || 'n8n';
 
       let result;
       
@@ -113,7 +174,8 @@ export class NavSchedulerService {
         const updateQuery = `
           UPDATE t_nav_scheduler_configs
           SET schedule_type = $1, cron_expression = $2, download_time = $3, 
-              is_enabled = $4, n8n_webhook_url = $5, next_execution_at = $6, updated_at = CURRENT_TIMESTAMP
+              is_enabled = $4, n8n_webhook_url = $5, next_execution_at = $6,
+              misfire_policy = $11, execution_mode = $12, updated_at = CURRENT_TIMESTAMP
           WHERE id = $7 AND tenant_id = $8 AND user_id = $9 AND is_live = $10
           RETURNING *
         `;
@@ -128,7 +190,9 @@ export class NavSchedulerService {
           config.id,
           config.tenant_id,
           config.user_id,
-          config.is_live
+          config.is_live,
+          misfirePolicy,
+          executionMode
         ]);
         
         if (result.rows.length === 0) {
@@ -151,8 +215,8 @@ export class NavSchedulerService {
           INSERT INTO t_nav_scheduler_configs (
             tenant_id, user_id, is_live, schedule_type, cron_expression, 
             download_time, is_enabled, n8n_webhook_url, next_execution_at, 
-            execution_count, failure_count
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 0, 0)
+            misfire_policy, execution_mode, execution_count, failure_count
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 0, 0)
           RETURNING *
         `;
         
@@ -165,7 +229,9 @@ export class NavSchedulerService {
           config.download_time,
           config.is_enabled,
           config.n8n_webhook_url || this.getDefaultN8nWebhookUrl(),
-          nextExecution
+          nextExecution,
+          misfirePolicy,
+          executionMode
         ]);
       }
 
@@ -184,6 +250,9 @@ export class NavSchedulerService {
         tenantId: config.tenant_id,
         userId: config.user_id,
         scheduleType: config.schedule_type,
+        cronExpression: config.cron_expression,
+        misfirePolicy,
+        executionMode,
         isEnabled: config.is_enabled,
         configId: savedConfig.id
       }, config.user_id, config.tenant_id);
@@ -271,13 +340,40 @@ export class NavSchedulerService {
 
   /**
    * Start scheduler for specific configuration
+   * Only arms a timer if this node holds (or can take) the config's lease.
    */
   async startSchedulerForConfig(config: SchedulerConfig): Promise<void> {
     try {
       const jobKey = this.getJobKey(config);
       
-      // Stop existing timer if running
-      await this.stopSchedulerForConfig(config);
+      // Clear existing local timer; the lease is kept and re-acquired below
+      this.clearLocalTimer(jobKey);
+
+      const lease = await this.leaseService.acquire(jobKey, {
+        jobType: 'nav_scheduler',
+        ttlMs: SCHEDULER_LEASE_TTL_MS,
+        tenantId: config.tenant_id,
+        userId: config.user_id,
+        isLive: config.is_live,
+        referenceId: config.id,
+        metadata: { cron_expression: config.cron_expression },
+        reentrant: true
+      });
+
+      if (!lease) {
+        // Another node owns this schedule; it picks up config changes on its next sync
+        return;
+      }
+
+      this.leaseService.startHeartbeat(jobKey, SCHEDULER_LEASE_TTL_MS, () => {
+        SimpleLogger.error('NavScheduler', 'Scheduler lease lost, stopping local timer', 'startSchedulerForConfig', {
+          tenantId: config.tenant_id,
+          userId: config.user_id,
+          nodeId: NODE_ID,
+          jobKey
+        }, config.user_id, config.tenant_id);
+        this.clearLocalTimer(jobKey);
+      });
 
       // Calculate next execution time
       const nextExecution = this.getNextExecutionTime(config.cron_expression);
@@ -285,10 +381,15 @@ export class NavSchedulerService {
 
       // Set timer for next execution
       const timerId = setTimeout(async () => {
-        await this.executeScheduledDownload(config);
+        if (msUntilExecution > MAX_TIMER_DELAY_MS) {
+          // Still too far out for a single timer; re-arm
+          this.scheduleNextExecution(config);
+          return;
+        }
+        await this.executeScheduledDownload(config, nextExecution);
         // After execution, schedule the next one
         this.scheduleNextExecution(config);
-      }, msUntilExecution);
+      }, Math.min(msUntilExecution, MAX_TIMER_DELAY_MS));
 
       // Store timer reference
       const scheduledTimer: ScheduledTimer = {
@@ -305,8 +406,10 @@ export class NavSchedulerService {
         userId: config.user_id,
         scheduleType: config.schedule_type,
         cronExpression: config.cron_expression,
-        nextRun: nextExecution.toISOString(),
+        timezone: CRON_TIMEZONE,
+        nextRun: CronUtil.toTimezoneISOString(nextExecution),
         msUntilExecution,
+        nodeId: NODE_ID,
         jobKey
       }, config.user_id, config.tenant_id);
 
@@ -322,17 +425,17 @@ export class NavSchedulerService {
   }
 
   /**
-   * Stop scheduler for specific configuration
+   * Stop scheduler for specific configuration and release its lease
    */
   async stopSchedulerForConfig(config: SchedulerConfig): Promise<void> {
     try {
       const jobKey = this.getJobKey(config);
-      const scheduledTimer = this.activeTimers.get(jobKey);
-      
-      if (scheduledTimer) {
-        clearTimeout(scheduledTimer.timerId);
-        this.activeTimers.delete(jobKey);
+      const hadTimer = this.clearLocalTimer(jobKey);
 
+      // No-op unless this node is the holder
+      await this.leaseService.release(jobKey);
+
+      if (hadTimer) {
         SimpleLogger.error('NavScheduler', 'Scheduler stopped', 'stopSchedulerForConfig', {
           tenantId: config.tenant_id,
           userId: config.user_id,
@@ -348,6 +451,20 @@ export class NavSchedulerService {
     }
   }
 
+  /**
+   * Clear the local timer only; returns whether one was running
+   */
+  private clearLocalTimer(jobKey: string): boolean {
+    const scheduledTimer = this.activeTimers.get(jobKey);
+    if (!scheduledTimer) {
+      return false;
+    }
+
+    clearTimeout(scheduledTimer.timerId);
+    this.activeTimers.delete(jobKey);
+    return true;
+  }
+
   /**
    * Schedule next execution after current one completes
    */
@@ -386,7 +503,9 @@ export class NavSchedulerService {
 
       const jobKey = this.getJobKey(config);
       const scheduledTimer = this.activeTimers.get(jobKey);
-      const isRunning = scheduledTimer !== undefined && scheduledTimer.isActive;
+      // The timer may live on another node; the lease says whether anyone runs it
+      const lease = await this.leaseService.getLease(jobKey);
+      const isRunning = lease !== null || (scheduledTimer !== undefined && scheduledTimer.isActive);
 
       // Get recent executions
       const executionsQuery = `
@@ -404,6 +523,7 @@ export class NavSchedulerService {
         cron_job_active: isRunning, // For compatibility
         next_run: scheduledTimer?.nextRun || config.next_execution_at || null,
         last_run: config.last_executed_at || null,
+        held_by: lease?.holder_id || null,
         recent_executions: recentExecutions
       };
     } catch (error: any) {
@@ -420,35 +540,34 @@ export class NavSchedulerService {
   /**
    * Execute scheduled download (called by timer)
    */
-  private async executeScheduledDownload(config: SchedulerConfig): Promise<void> {
+  private async executeScheduledDownload(config: SchedulerConfig, scheduledFor: Date): Promise<void> {
     const startTime = Date.now();
     let execution: ScheduleExecution;
     
     try {
+      // Claim the slot (updates last executed time and next execution); a run that was
+      // already claimed by another instance, or superseded by a config change, is skipped
+      const claimed = await this.claimScheduledRun(config, scheduledFor);
+      if (!claimed) {
+        SimpleLogger.error('NavScheduler', 'Scheduled run already claimed, skipping', 'executeScheduledDownload', {
+          configId: config.id,
+          scheduledFor: CronUtil.toTimezoneISOString(scheduledFor),
+          nodeId: NODE_ID
+        }, config.user_id, config.tenant_id);
+        return;
+      }
+
       // Create execution record
       execution = await this.createExecutionRecord(config.id!, 'running');
 
-      // Update last executed time and calculate next execution
-      await this.updateConfigExecution(config);
-
-      // Trigger N8N workflow
-      const n8nPayload: N8nWebhookPayload = {
-        tenant_id: config.tenant_id,
-        user_id: config.user_id,
-        is_live: config.is_live,
-        schedule_type: config.schedule_type,
-        trigger_source: 'scheduled',
-        api_callback_url: `${this.API_BASE_URL}/api/nav/download/daily`,
-        scheduler_config_id: config.id!
-      };
-
-      const n8nResult = await this.triggerN8nWorkflow(config.n8n_webhook_url!, n8nPayload);
+      const runResult = await this.runDownload(config, 'scheduled');
 
-      if (n8nResult.success) {
+      if (runResult.success) {
         // Update execution as successful
         await this.updateExecutionRecord(execution.id, {
           status: 'success',
-          n8n_execution_id: n8nResult.executionId,
+          job_id: runResult.jobId,
+          n8n_execution_id: runResult.executionId,
           execution_duration_ms: Date.now() - startTime
         });
 
@@ -456,12 +575,15 @@ export class NavSchedulerService {
           tenantId: config.tenant_id,
           userId: config.user_id,
           configId: config.id,
-          n8nExecutionId: n8nResult.executionId,
+          executionMode: config.execution_mode || 'n8n',
+          scheduledFor: CronUtil.toTimezoneISOString(scheduledFor),
+          n8nExecutionId: runResult.executionId,
+          jobId: runResult.jobId,
           durationMs: Date.now() - startTime
         }, config.user_id, config.tenant_id);
 
       } else {
-        throw new Error(`N8N workflow failed: ${n8nResult.error}`);
+        throw new Error(runResult.error);
       }
     } catch (error: any) {
       // Update execution as failed
@@ -484,6 +606,76 @@ export class NavSchedulerService {
         durationMs: Date.now() - startTime
       }, config.user_id, config.tenant_id, error.stack);
     }
+
+    // Runs whether or not the download succeeded: failed runs and downtime leave holes
+    if (execution!) {
+      await this.queueGapBackfill(config);
+    }
+  }
+
+  /**
+   * Start a backfill job for missing NAV ranges of the config owner's bookmarks
+   */
+  private async queueGapBackfill(config: SchedulerConfig): Promise<void> {
+    try {
+      const result = await this.downloadService.triggerBackfillDownload(
+        config.tenant_id,
+        config.is_live,
+        config.user_id
+      );
+
+      if (result.jobId) {
+        SimpleLogger.error('NavScheduler', 'Gap backfill queued after scheduled run', 'queueGapBackfill', {
+          configId: config.id,
+          jobId: result.jobId,
+          schemes: result.gaps.length
+        }, config.user_id, config.tenant_id);
+      }
+    } catch (error: any) {
+      SimpleLogger.error('NavScheduler', 'Failed to queue gap backfill', 'queueGapBackfill', {
+        configId: config.id,
+        error: error.message
+      }, config.user_id, config.tenant_id, error.stack);
+    }
+  }
+
+  /**
+   * Run one download for a config in its execution mode
+   * native: in-process AMFI pipeline, completes before returning (job_id is recorded)
+   * n8n: triggers the workflow, which calls back into /api/nav/download/daily
+   */
+  private async runDownload(
+    config: SchedulerConfig,
+    triggerSource: 'scheduled' | 'manual'
+  ): Promise<{ success: boolean; executionId?: string; jobId?: number; error?: string }> {
+    if (config.execution_mode === 'native') {
+      try {
+        const result = await this.pipelineService.runDailyPipeline(config.tenant_id, config.is_live, config.user_id);
+        return {
+          success: true,
+          executionId: `native_${result.job_id}`,
+          jobId: result.job_id
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Native NAV pipeline failed: ${error.message}`
+        };
+      }
+    }
+
+    const n8nPayload: N8nWebhookPayload = {
+      tenant_id: config.tenant_id,
+      user_id: config.user_id,
+      is_live: config.is_live,
+      schedule_type: triggerSource === 'manual' ? 'manual' : config.schedule_type,
+      trigger_source: triggerSource,
+      api_callback_url: `${this.API_BASE_URL}/api/nav/download/daily`,
+      scheduler_config_id: config.id!
+    };
+
+    const result = await this.triggerN8nWorkflow(config.n8n_webhook_url!, n8nPayload);
+    return result.success ? result : { success: false, error: `N8N workflow failed: ${result.error}` };
   }
 
   // ==================== N8N INTEGRATION (UNCHANGED) ====================
@@ -583,20 +775,38 @@ export class NavSchedulerService {
   }
 
   /**
-   * Update config execution time and next run
+   * Atomically claim a scheduled run: advances next_execution_at past the slot only if
+   * it is still due, so each slot executes once across all instances
    */
-  private async updateConfigExecution(config: SchedulerConfig): Promise<void> {
-    const nextExecution = this.getNextExecutionTime(config.cron_expression);
+  private async claimScheduledRun(config: SchedulerConfig, scheduledFor: Date): Promise<boolean> {
+    // Next slot strictly after the one being executed; catch-up runs walk through missed slots
+    const nextExecution = this.getNextExecutionTime(config.cron_expression, scheduledFor);
     
     const query = `
       UPDATE t_nav_scheduler_configs
       SET last_executed_at = CURRENT_TIMESTAMP,
           next_execution_at = $1,
           execution_count = execution_count + 1
+      WHERE id = $2 AND is_enabled = true
+        AND (next_execution_at IS NULL OR next_execution_at <= $3)
+      RETURNING id
+    `;
+    
+    const result = await this.db.query(query, [nextExecution, config.id, scheduledFor]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Move next execution time without counting an execution
+   */
+  private async updateNextExecution(configId: number, nextExecution: Date): Promise<void> {
+    const query = `
+      UPDATE t_nav_scheduler_configs
+      SET next_execution_at = $1
       WHERE id = $2
     `;
     
-    await this.db.query(query, [nextExecution, config.id]);
+    await this.db.query(query, [nextExecution, configId]);
   }
 
   /**
@@ -629,103 +839,96 @@ export class NavSchedulerService {
   }
 
   /**
-   * Validate cron expression (simplified validation)
+   * Get next execution time from cron expression (Asia/Kolkata)
    */
-  private isValidCronExpression(cronExpression: string): boolean {
-    try {
-      // Basic validation: should have 5 parts (minute hour day month dayOfWeek)
-      const parts = cronExpression.trim().split(/\s+/);
-      if (parts.length !== 5) {
-        return false;
-      }
+  private getNextExecutionTime(cronExpression: string, after: Date = new Date()): Date {
+    const nextRun = CronUtil.getNextRun(cronExpression, after);
+    if (!nextRun) {
+      throw new Error(`Cron expression "${cronExpression}" has no upcoming run`);
+    }
+    return nextRun;
+  }
 
-      // Check each part is either * or a valid number/range
-      const [minute, hour, day, month, dayOfWeek] = parts;
-      
-      return this.isValidCronPart(minute, 0, 59) &&
-             this.isValidCronPart(hour, 0, 23) &&
-             this.isValidCronPart(day, 1, 31) &&
-             this.isValidCronPart(month, 1, 12) &&
-             this.isValidCronPart(dayOfWeek, 0, 7);
-    } catch {
-      return false;
+  /**
+   * Preview the next fire times for a proposed expression without saving it
+   */
+  previewSchedule(cronExpression: string, count: number = 5): SchedulePreview {
+    const cronError = CronUtil.validate(cronExpression);
+    if (cronError) {
+      throw new Error(`Invalid cron expression: ${cronError}`);
     }
+
+    return {
+      cron_expression: cronExpression.trim(),
+      timezone: CRON_TIMEZONE,
+      next_runs: CronUtil.getNextRuns(cronExpression, count).map(at => ({
+        at,
+        local: CronUtil.toTimezoneISOString(at)
+      }))
+    };
   }
 
+  // ==================== MISFIRE HANDLING ====================
+
   /**
-   * Validate individual cron part
+   * Runs that should have fired while the server was down
+   * The stored next_execution_at is the first missed slot; later slots up to now follow from the cron.
    */
-  private isValidCronPart(part: string, min: number, max: number): boolean {
-    if (part === '*') return true;
-    
-    // Handle simple numbers
-    const num = parseInt(part);
-    if (!isNaN(num)) {
-      return num >= min && num <= max;
+  private getMissedRuns(config: SchedulerConfig, now: Date = new Date()): Date[] {
+    if (!config.next_execution_at) {
+      return [];
     }
-    
-    // For now, accept any other format (ranges, lists, etc.)
-    // In production, you might want more comprehensive validation
-    return true;
+
+    const firstMissed = new Date(config.next_execution_at);
+    if (firstMissed.getTime() > now.getTime()) {
+      return [];
+    }
+
+    return [
+      firstMissed,
+      ...CronUtil.getRunsBetween(config.cron_expression, firstMissed, now, MAX_MISFIRE_CATCHUP_RUNS - 1)
+    ];
   }
 
   /**
-   * Get next execution time from cron expression
+   * Catch up missed runs according to the config's misfire policy
    */
-  private getNextExecutionTime(cronExpression: string): Date {
-    try {
-      const parts = cronExpression.trim().split(/\s+/);
-      if (parts.length !== 5) {
-        // Fallback to 1 hour from now
-        const fallback = new Date();
-        fallback.setHours(fallback.getHours() + 1);
-        return fallback;
-      }
+  private async handleMisfires(config: SchedulerConfig): Promise<void> {
+    const missedRuns = this.getMissedRuns(config);
+    if (missedRuns.length === 0) {
+      return;
+    }
 
-      const [minutePart, hourPart, dayPart, monthPart, dayOfWeekPart] = parts;
-      
-      const now = new Date();
-      const next = new Date(now);
-      
-      // Handle simple cases: fixed minute and hour
-      if (minutePart !== '*' && hourPart !== '*') {
-        const minute = parseInt(minutePart);
-        const hour = parseInt(hourPart);
-        
-        if (!isNaN(minute) && !isNaN(hour)) {
-          next.setHours(hour, minute, 0, 0);
-          
-          // If time has passed today, move to next occurrence
-          if (next <= now) {
-            if (dayOfWeekPart !== '*' && !isNaN(parseInt(dayOfWeekPart))) {
-              // Weekly schedule
-              const targetDayOfWeek = parseInt(dayOfWeekPart);
-              const currentDayOfWeek = next.getDay();
-              let daysToAdd = targetDayOfWeek - currentDayOfWeek;
-              if (daysToAdd <= 0) {
-                daysToAdd += 7; // Next week
-              }
-              next.setDate(next.getDate() + daysToAdd);
-            } else {
-              // Daily schedule
-              next.setDate(next.getDate() + 1);
-            }
-          }
-          
-          return next;
-        }
+    const policy = config.misfire_policy || DEFAULT_MISFIRE_POLICY;
+
+    SimpleLogger.error('NavScheduler', 'Missed scheduled runs detected', 'handleMisfires', {
+      configId: config.id,
+      tenantId: config.tenant_id,
+      userId: config.user_id,
+      policy,
+      missedCount: missedRuns.length,
+      firstMissed: CronUtil.toTimezoneISOString(missedRuns[0]),
+      lastMissed: CronUtil.toTimezoneISOString(missedRuns[missedRuns.length - 1])
+    }, config.user_id, config.tenant_id);
+
+    switch (policy) {
+      case 'skip': {
+        const execution = await this.createExecutionRecord(config.id!, 'skipped');
+        await this.updateExecutionRecord(execution.id, {
+          error_message: `Skipped ${missedRuns.length} missed run(s) since ${CronUtil.toTimezoneISOString(missedRuns[0])} (misfire policy: skip)`
+        });
+        await this.updateNextExecution(config.id!, this.getNextExecutionTime(config.cron_expression));
+        break;
       }
-      
-      // Fallback for complex cron expressions
-      const fallback = new Date();
-      fallback.setHours(fallback.getHours() + 1);
-      return fallback;
-      
-    } catch (error) {
-      // Fallback: next day at same time
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return tomorrow;
+      case 'run_all':
+        for (const scheduledFor of missedRuns) {
+          await this.executeScheduledDownload(config, scheduledFor);
+        }
+        break;
+      case 'run_once':
+      default:
+        await this.executeScheduledDownload(config, missedRuns[missedRuns.length - 1]);
+        break;
     }
   }
 
@@ -736,34 +939,25 @@ export class NavSchedulerService {
    */
   async initializeSchedulers(): Promise<void> {
     try {
-      const query = `
-        SELECT * FROM t_nav_scheduler_configs
-        WHERE is_enabled = true
-      `;
-      
-      const result = await this.db.query(query);
-      const activeConfigs: SchedulerConfig[] = result.rows;
-
       SimpleLogger.error('NavScheduler', 'Initializing schedulers on startup', 'initializeSchedulers', {
-        totalConfigs: activeConfigs.length
+        nodeId: NODE_ID
       });
 
-      for (const config of activeConfigs) {
-        try {
-          await this.startSchedulerForConfig(config);
-        } catch (error: any) {
-          SimpleLogger.error('NavScheduler', 'Failed to initialize scheduler for config', 'initializeSchedulers', {
-            configId: config.id,
-            tenantId: config.tenant_id,
-            userId: config.user_id,
-            error: error.message
-          }, config.user_id, config.tenant_id, error.stack);
-        }
-      }
+      const totalConfigs = await this.syncSchedulers();
+
+      // Keep reclaiming stale leases and following config changes made on other nodes
+      this.syncTimer = setInterval(() => {
+        this.syncSchedulers().catch(error => {
+          SimpleLogger.error('NavScheduler', 'Scheduler sync failed', 'syncSchedulers', {
+            nodeId: NODE_ID, error: error.message
+          }, undefined, undefined, error.stack);
+        });
+      }, SCHEDULER_SYNC_INTERVAL_MS);
 
       SimpleLogger.error('NavScheduler', 'Scheduler initialization completed', 'initializeSchedulers', {
-        totalConfigs: activeConfigs.length,
-        activeTimers: this.activeTimers.size
+        totalConfigs,
+        activeTimers: this.activeTimers.size,
+        nodeId: NODE_ID
       });
 
     } catch (error: any) {
@@ -775,6 +969,95 @@ export class NavSchedulerService {
     }
   }
 
+  /**
+   * Reconcile local timers with the database: take over unowned or expired schedules,
+   * restart changed ones, drop disabled ones. Returns the number of enabled configs.
+   * A call made while a sync is running waits for that sync's result.
+   */
+  private syncSchedulers(): Promise<number> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<number> {
+    await this.leaseService.reclaimExpired();
+
+    const query = `
+      SELECT * FROM t_nav_scheduler_configs
+      WHERE is_enabled = true
+    `;
+    
+    const result = await this.db.query(query);
+    const activeConfigs: SchedulerConfig[] = result.rows;
+    const enabledKeys = new Set<string>();
+    const misfiredConfigs: SchedulerConfig[] = [];
+
+    for (const config of activeConfigs) {
+      const jobKey = this.getJobKey(config);
+      enabledKeys.add(jobKey);
+
+      try {
+        const scheduledTimer = this.activeTimers.get(jobKey);
+        if (scheduledTimer) {
+          const changed = new Date(scheduledTimer.config.updated_at || 0).getTime() !==
+            new Date(config.updated_at || 0).getTime();
+          if (changed) {
+            await this.startSchedulerForConfig(config);
+          }
+          continue;
+        }
+
+        await this.startSchedulerForConfig(config);
+
+        // Newly owned here (startup or takeover): runs missed in between are ours to catch up
+        if (this.activeTimers.has(jobKey) && this.getMissedRuns(config).length > 0) {
+          misfiredConfigs.push(config);
+        }
+      } catch (error: any) {
+        SimpleLogger.error('NavScheduler', 'Failed to initialize scheduler for config', 'syncSchedulers', {
+          configId: config.id,
+          tenantId: config.tenant_id,
+          userId: config.user_id,
+          error: error.message
+        }, config.user_id, config.tenant_id, error.stack);
+      }
+    }
+
+    // Disabled or deleted elsewhere
+    for (const [jobKey, scheduledTimer] of Array.from(this.activeTimers.entries())) {
+      if (!enabledKeys.has(jobKey)) {
+        await this.stopSchedulerForConfig(scheduledTimer.config);
+      }
+    }
+
+    // Catch-up runs go through N8N and can take a while, so don't hold up the sync
+    this.catchUpMisfires(misfiredConfigs);
+
+    return activeConfigs.length;
+  }
+
+  /**
+   * Apply misfire policies one config at a time
+   */
+  private async catchUpMisfires(configs: SchedulerConfig[]): Promise<void> {
+    for (const config of configs) {
+      try {
+        await this.handleMisfires(config);
+      } catch (error: any) {
+        SimpleLogger.error('NavScheduler', 'Failed to catch up missed runs', 'catchUpMisfires', {
+          configId: config.id,
+          tenantId: config.tenant_id,
+          userId: config.user_id,
+          error: error.message
+        }, config.user_id, config.tenant_id, error.stack);
+      }
+    }
+  }
+
   /**
    * Shutdown all schedulers gracefully
    */
@@ -784,6 +1067,11 @@ export class NavSchedulerService {
         activeTimers: this.activeTimers.size
       });
 
+      if (this.syncTimer) {
+        clearInterval(this.syncTimer);
+        this.syncTimer = null;
+      }
+
       for (const [jobKey, scheduledTimer] of this.activeTimers.entries()) {
         try {
           clearTimeout(scheduledTimer.timerId);
@@ -796,6 +1084,12 @@ export class NavSchedulerService {
 
       this.activeTimers.clear();
 
+      // Hand schedules over to other nodes immediately instead of waiting for expiry
+      const released = await this.leaseService.releaseAllHeld('nav_scheduler');
+      SimpleLogger.error('NavScheduler', 'Scheduler leases released', 'shutdownSchedulers', {
+        nodeId: NODE_ID, released
+      });
+
       SimpleLogger.error('NavScheduler', 'All schedulers stopped successfully', 'shutdownSchedulers');
     } catch (error: any) {
       SimpleLogger.error('NavScheduler', 'Error during scheduler shutdown', 'shutdownSchedulers', {
@@ -807,7 +1101,7 @@ export class NavSchedulerService {
   /**
    * Get all active schedulers status (for admin/monitoring)
    */
-  async getAllActiveSchedulers(): Promise<Array<{ jobKey: string; config: SchedulerConfig; isActive: boolean }>> {
+  async getAllActiveSchedulers(): Promise<ActiveSchedulerInfo[]> {
     try {
       const query = `
         SELECT * FROM t_nav_scheduler_configs
@@ -817,11 +1111,24 @@ export class NavSchedulerService {
       const result = await this.db.query(query);
       const configs: SchedulerConfig[] = result.rows;
 
-      return configs.map(config => ({
-        jobKey: this.getJobKey(config),
-        config,
-        isActive: this.activeTimers.has(this.getJobKey(config))
-      }));
+      const leases = await this.leaseService.getActiveLeases('nav_scheduler');
+      const leasesByKey = new Map(leases.map(lease => [lease.lease_key, lease]));
+
+      return configs.map(config => {
+        const jobKey = this.getJobKey(config);
+        const lease = leasesByKey.get(jobKey);
+
+        return {
+          jobKey,
+          config,
+          isActive: lease !== undefined,
+          heldBy: lease?.holder_id || null,
+          isLocal: lease?.holder_id === NODE_ID,
+          leaseAcquiredAt: lease?.acquired_at || null,
+          leaseHeartbeatAt: lease?.heartbeat_at || null,
+          leaseExpiresAt: lease?.expires_at || null
+        };
+      });
     } catch (error: any) {
       SimpleLogger.error('NavScheduler', 'Failed to get all active schedulers', 'getAllActiveSchedulers', {
         error: error.message
@@ -840,7 +1147,7 @@ export class NavSchedulerService {
     tenantId: number,
     isLive: boolean,
     userId: number
-  ): Promise<{ success: boolean; executionId?: string; error?: string }> {
+  ): Promise<{ success: boolean; executionId?: string; jobId?: number; error?: string }> {
     try {
       const config = await this.getSchedulerConfig(tenantId, isLive, userId);
       
@@ -849,31 +1156,24 @@ export class NavSchedulerService {
       }
 
       // Create execution record for manual trigger
+      const startTime = Date.now();
       const execution = await this.createExecutionRecord(config.id!, 'running');
 
-      // Prepare N8N payload
-      const n8nPayload: N8nWebhookPayload = {
-        tenant_id: tenantId,
-        user_id: userId,
-        is_live: isLive,
-        schedule_type: 'manual',
-        trigger_source: 'manual',
-        api_callback_url: `${this.API_BASE_URL}/api/nav/download/daily`,
-        scheduler_config_id: config.id!
-      };
-
-      // Trigger N8N workflow
-      const result = await this.triggerN8nWorkflow(config.n8n_webhook_url!, n8nPayload);
+      // Native pipeline or N8N workflow, depending on the config
+      const result = await this.runDownload(config, 'manual');
 
       // Update execution record
       await this.updateExecutionRecord(execution.id, {
         status: result.success ? 'success' : 'failed',
+        job_id: result.jobId,
         n8n_execution_id: result.executionId,
-        error_message: result.error
+        error_message: result.error,
+        execution_duration_ms: Date.now() - startTime
       });
 
       SimpleLogger.error('NavScheduler', 'Manual download trigger completed', 'manualTriggerDownload', {
-        tenantId, userId, success: result.success, executionId: result.executionId
+        tenantId, userId, success: result.success, executionId: result.executionId,
+        executionMode: config.execution_mode || 'n8n', jobId: result.jobId
       }, userId, tenantId);
 
       return result;
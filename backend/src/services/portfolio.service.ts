@@ -12,7 +12,11 @@ import {
   RefreshPortfolioRequest,
   RefreshPortfolioResponse,
   PortfolioStatistics,
-  SchemePortfolioDetails
+  SchemePortfolioDetails,
+  PortfolioCashFlow,
+  PortfolioPerformanceQuery,
+  PortfolioPerformanceResponse,
+  PortfolioPerformanceMetric
 } from '../types/portfolio.types';
 import { PortfolioUtil } from '../utils/portfolio.util';
 
@@ -25,11 +29,13 @@ export class PortfolioService {
 
   /**
    * Get customer's complete portfolio
+   * The sparkline replays a year of cash flows and NAVs, so it is only built when asked for
    */
   async getCustomerPortfolio(
     tenantId: number,
     isLive: boolean,
-    customerId: number
+    customerId: number,
+    includePerformance: boolean = false
   ): Promise<CustomerPortfolioResponse | null> {
     try {
       // Get customer name
@@ -80,6 +86,10 @@ export class PortfolioService {
       const summary = PortfolioUtil.calculatePortfolioSummary(holdings);
       const totalValue = summary.current_value;
 
+      // Dated cash flows per scheme for XIRR
+      const valuationDate = new Date();
+      const cashFlowsByScheme = await this.getCashFlowsByScheme(tenantId, isLive, { customer_id: customerId });
+
       // Transform holdings with allocation percentage
       const holdingsWithAllocation: PortfolioHolding[] = holdings.map(h => ({
         portfolio_id: h.portfolio_id,
@@ -100,22 +110,63 @@ export class PortfolioService {
           totalValue
         ),
         transaction_count: parseInt(h.transaction_count),
-        last_transaction_date: h.last_transaction_date
+        last_transaction_date: h.last_transaction_date,
+        ...PortfolioUtil.calculateAnnualisedReturns(
+          this.withTerminalValue(
+            cashFlowsByScheme.get(this.cashFlowKey(customerId, h.scheme_code)),
+            parseFloat(h.current_value),
+            valuationDate
+          ),
+          parseFloat(h.total_invested),
+          parseFloat(h.current_value),
+          valuationDate
+        )
       }));
 
+      // Portfolio-level XIRR across all schemes
+      const portfolioReturns = PortfolioUtil.calculateAnnualisedReturns(
+        this.withTerminalValue(
+          Array.from(cashFlowsByScheme.values()).flat(),
+          summary.current_value,
+          valuationDate
+        ),
+        summary.total_invested,
+        summary.current_value,
+        valuationDate
+      );
+
       // Calculate asset allocation
       const allocation = PortfolioUtil.calculateCategoryAllocation(holdings, totalValue);
 
+      // Last 12 months of monthly valuations for sparklines
+      // Optional - a failed replay drops the sparkline rather than the whole portfolio
+      let performance: PortfolioPerformanceResponse | null = null;
+      if (includePerformance) {
+        const oneYearAgo = new Date(valuationDate);
+        oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+        try {
+          performance = await this.getPortfolioPerformance(tenantId, isLive, customerId, {
+            from: PortfolioUtil.toDateKey(oneYearAgo),
+            to: PortfolioUtil.toDateKey(valuationDate),
+            interval: 'monthly'
+          });
+        } catch (error: any) {
+          console.error('Error getting portfolio sparkline, omitting it:', error.message);
+        }
+      }
+
       return {
         customer_id: customerId,
         customer_name: customerName,
         summary: {
           customer_id: customerId,
           customer_name: customerName,
-          ...summary
+          ...summary,
+          ...portfolioReturns
         },
         holdings: holdingsWithAllocation,
-        allocation
+        allocation,
+        performance: performance?.series.filter(p => p.invested > 0 || p.current_value > 0)
       };
     } catch (error: any) {
       console.error('Error getting customer portfolio:', error);
@@ -161,6 +212,16 @@ export class PortfolioService {
       const customerResult = await this.db.query(customerQuery, [customerId, tenantId, isLive]);
       const customerName = customerResult.rows[0]?.name;
 
+      // Portfolio-level XIRR from dated cash flows
+      const valuationDate = new Date();
+      const cashFlowsByScheme = await this.getCashFlowsByScheme(tenantId, isLive, { customer_id: customerId });
+      const portfolioReturns = PortfolioUtil.calculateAnnualisedReturns(
+        this.withTerminalValue(Array.from(cashFlowsByScheme.values()).flat(), currentValue, valuationDate),
+        totalInvested,
+        currentValue,
+        valuationDate
+      );
+
       return {
         customer_id: customerId,
         customer_name: customerName,
@@ -168,7 +229,8 @@ export class PortfolioService {
         current_value: currentValue,
         total_returns: PortfolioUtil.calculateReturns(totalInvested, currentValue),
         return_percentage: PortfolioUtil.calculateReturnPercentage(totalInvested, currentValue),
-        total_schemes: parseInt(row.total_schemes)
+        total_schemes: parseInt(row.total_schemes),
+        ...portfolioReturns
       };
     } catch (error: any) {
       console.error('Error getting portfolio totals:', error);
@@ -273,6 +335,15 @@ export class PortfolioService {
       const totalValueResult = await this.db.query(totalValueQuery, [customerId, tenantId, isLive]);
       const totalValue = parseFloat(totalValueResult.rows[0].total_value) || 0;
 
+      // XIRR from all portfolio transactions for this scheme
+      const valuationDate = new Date();
+      const schemeReturns = PortfolioUtil.calculateAnnualisedReturns(
+        PortfolioUtil.buildCashFlows(allTxnResult.rows, parseFloat(holding.current_value), valuationDate),
+        parseFloat(holding.total_invested),
+        parseFloat(holding.current_value),
+        valuationDate
+      );
+
       return {
         portfolio_id: holding.portfolio_id,
         scheme_code: holding.scheme_code,
@@ -293,6 +364,7 @@ export class PortfolioService {
         ),
         transaction_count: parseInt(holding.transaction_count),
         last_transaction_date: holding.last_transaction_date,
+        ...schemeReturns,
         recent_transactions: txnResult.rows,
         first_purchase_date: firstPurchase,
         last_purchase_date: lastPurchase,
@@ -309,6 +381,132 @@ export class PortfolioService {
     }
   }
 
+  /**
+   * Get historical portfolio valuation series
+   * Rebuilds unit balances per scheme from transactions and values them
+   * against stored NAV history
+   */
+  async getPortfolioPerformance(
+    tenantId: number,
+    isLive: boolean,
+    customerId: number,
+    query: PortfolioPerformanceQuery = {}
+  ): Promise<PortfolioPerformanceResponse | null> {
+    try {
+      const customerQuery = `
+        SELECT id FROM t_customers
+        WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true
+      `;
+      const customerResult = await this.db.query(customerQuery, [customerId, tenantId, isLive]);
+
+      if (customerResult.rows.length === 0) {
+        return null;
+      }
+
+      const interval = query.interval || 'monthly';
+      const to = query.to || PortfolioUtil.toDateKey(new Date());
+
+      const txnQuery = `
+        SELECT 
+          tt.scheme_code,
+          tt.scheme_name,
+          tt.folio_no,
+          tt.txn_date,
+          mtt.txn_type,
+          tt.total_amount,
+          tt.units,
+          tt.nav
+        FROM t_transaction_table tt
+        LEFT JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+        WHERE tt.customer_id = $1 
+          AND tt.tenant_id = $2 
+          AND tt.is_live = $3
+          AND tt.is_active = true
+          AND tt.portfolio_flag = true
+          AND tt.txn_date <= $4
+        ORDER BY tt.txn_date ASC, tt.id ASC
+      `;
+      const txnResult = await this.db.query(txnQuery, [customerId, tenantId, isLive, to]);
+
+      if (txnResult.rows.length === 0) {
+        return {
+          customer_id: customerId,
+          from: query.from || to,
+          to,
+          interval,
+          series: [],
+          schemes: []
+        };
+      }
+
+      const from = query.from || PortfolioUtil.toDateKey(txnResult.rows[0].txn_date);
+      const schemeCodes: string[] = Array.from(new Set(txnResult.rows.map(t => t.scheme_code)));
+
+      // NAV history inside the window plus the last NAV before it to carry forward
+      const navQuery = `
+        SELECT scheme_code, nav_date, nav_value
+        FROM t_nav_data
+        WHERE tenant_id = $1 AND is_live = $2
+          AND scheme_code = ANY($3)
+          AND nav_date BETWEEN $4 AND $5
+        UNION ALL
+        (
+          SELECT DISTINCT ON (scheme_code) scheme_code, nav_date, nav_value
+          FROM t_nav_data
+          WHERE tenant_id = $1 AND is_live = $2
+            AND scheme_code = ANY($3)
+            AND nav_date < $4
+          ORDER BY scheme_code, nav_date DESC
+        )
+      `;
+      const navResult = await this.db.query(navQuery, [tenantId, isLive, schemeCodes, from, to]);
+
+      const navHistory = new Map<string, Array<{ date: string; nav: number }>>();
+      navResult.rows.forEach(row => {
+        if (!navHistory.has(row.scheme_code)) {
+          navHistory.set(row.scheme_code, []);
+        }
+        navHistory.get(row.scheme_code)!.push({
+          date: PortfolioUtil.toDateKey(row.nav_date),
+          nav: parseFloat(row.nav_value)
+        });
+      });
+      navHistory.forEach(history => history.sort((a, b) => a.date.localeCompare(b.date)));
+
+      const { series, schemes } = PortfolioUtil.buildPerformanceSeries(
+        txnResult.rows,
+        navHistory,
+        from,
+        to,
+        interval
+      );
+
+      const schemeSeries = schemeCodes
+        .filter(code => schemes.has(code))
+        .map(code => {
+          const lastTxn = [...txnResult.rows].reverse().find(t => t.scheme_code === code);
+          return {
+            scheme_code: code,
+            scheme_name: lastTxn?.scheme_name,
+            folio_no: lastTxn?.folio_no || undefined,
+            points: schemes.get(code) as PortfolioPerformanceMetric[]
+          };
+        });
+
+      return {
+        customer_id: customerId,
+        from,
+        to,
+        interval,
+        series,
+        schemes: schemeSeries
+      };
+    } catch (error: any) {
+      console.error('Error getting portfolio performance:', error);
+      throw new Error(`Failed to get portfolio performance: ${error.message}`);
+    }
+  }
+
   /**
    * Get portfolio statistics across all customers
    */
@@ -494,6 +692,12 @@ export class PortfolioService {
 
       const result = await this.db.query(query, params);
 
+      const valuationDate = new Date();
+      const cashFlowsByScheme = await this.getCashFlowsByScheme(tenantId, isLive, {
+        customer_id: filters.customer_id,
+        scheme_code: filters.scheme_code
+      });
+
       return result.rows.map(h => ({
         portfolio_id: h.portfolio_id,
         scheme_code: h.scheme_code,
@@ -513,11 +717,102 @@ export class PortfolioService {
           totalValue
         ),
         transaction_count: parseInt(h.transaction_count),
-        last_transaction_date: h.last_transaction_date
+        last_transaction_date: h.last_transaction_date,
+        ...PortfolioUtil.calculateAnnualisedReturns(
+          this.withTerminalValue(
+            cashFlowsByScheme.get(this.cashFlowKey(h.customer_id, h.scheme_code)),
+            parseFloat(h.current_value),
+            valuationDate
+          ),
+          parseFloat(h.total_invested),
+          parseFloat(h.current_value),
+          valuationDate
+        )
       }));
     } catch (error: any) {
       console.error('Error getting portfolio holdings:', error);
       throw new Error(`Failed to get portfolio holdings: ${error.message}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get dated transaction cash flows grouped by customer and scheme
+   * Additions are outflows and Deductions are inflows; flows on the same
+   * day are netted so large portfolios stay cheap to solve
+   */
+  private async getCashFlowsByScheme(
+    tenantId: number,
+    isLive: boolean,
+    filters: { customer_id?: number; scheme_code?: string }
+  ): Promise<Map<string, PortfolioCashFlow[]>> {
+    const conditions = [
+      'tt.tenant_id = $1',
+      'tt.is_live = $2',
+      'tt.is_active = true',
+      'tt.portfolio_flag = true'
+    ];
+    const params: any[] = [tenantId, isLive];
+
+    if (filters.customer_id) {
+      params.push(filters.customer_id);
+      conditions.push(`tt.customer_id = $${params.length}`);
+    }
+
+    if (filters.scheme_code) {
+      params.push(filters.scheme_code);
+      conditions.push(`tt.scheme_code = $${params.length}`);
+    }
+
+    const query = `
+      SELECT 
+        tt.customer_id,
+        tt.scheme_code,
+        tt.txn_date,
+        SUM(
+          CASE WHEN mtt.txn_type = 'Deduction' THEN ABS(tt.total_amount)
+               ELSE -ABS(tt.total_amount)
+          END
+        ) as amount
+      FROM t_transaction_table tt
+      LEFT JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY tt.customer_id, tt.scheme_code, tt.txn_date
+      ORDER BY tt.txn_date ASC
+    `;
+
+    const result = await this.db.query(query, params);
+    const cashFlows = new Map<string, PortfolioCashFlow[]>();
+
+    result.rows.forEach(row => {
+      const amount = parseFloat(row.amount) || 0;
+      if (amount === 0) return;
+
+      const key = this.cashFlowKey(row.customer_id, row.scheme_code);
+      if (!cashFlows.has(key)) {
+        cashFlows.set(key, []);
+      }
+      cashFlows.get(key)!.push({ date: new Date(row.txn_date), amount });
+    });
+
+    return cashFlows;
+  }
+
+  /**
+   * Append the current value as the terminal inflow of a cash flow series
+   */
+  private withTerminalValue(
+    cashFlows: PortfolioCashFlow[] | undefined,
+    currentValue: number,
+    valuationDate: Date
+  ): PortfolioCashFlow[] {
+    const flows = [...(cashFlows || [])];
+    if (currentValue > 0) {
+      flows.push({ date: valuationDate, amount: currentValue });
+    }
+    return flows;
+  }
+
+  private cashFlowKey(customerId: number | string, schemeCode: string): string {
+    return `${customerId}|${schemeCode}`;
+  }
+}
@@ -0,0 +1,395 @@
+// backend/src/services/reEncryption.service.ts
+// Background re-encryption of customer PAN/IWELL values to the active keyring key.
+// Each batch rewrites its customers and advances the job cursor in one transaction, so a job
+// can be interrupted at any point (cancel, crash, restart) and resumes after the last committed batch.
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import { EncryptionUtil } from '../utils/encryption.util';
+import { JobLeaseService } from './jobLease.service';
+import { SimpleLogger } from './simpleLogger.service';
+import { EncryptionStatus, ReEncryptionJob } from '../types/encryption.types';
+
+const BATCH_SIZE = 200;
+const LEASE_TTL_MS = 60 * 1000;
+
+// Jobs executing in this process; removing an id stops that job after its current batch
+const runningJobs = new Set<number>();
+
+export class ReEncryptionService {
+  private db: Pool;
+  private leases: JobLeaseService;
+
+  constructor() {
+    this.db = pool;
+    this.leases = new JobLeaseService();
+  }
+
+  /**
+   * Keyring summary, stored values per key and the latest re-encryption job
+   */
+  async getStatus(tenantId: number, isLive: boolean): Promise<EncryptionStatus> {
+    try {
+      const activeKeyId = EncryptionUtil.getActiveKeyId();
+
+      const usageResult = await this.db.query(`
+        SELECT
+          CASE
+            WHEN v.value LIKE 'v2:%' THEN split_part(v.value, ':', 2)
+            WHEN v.value LIKE '%:%' THEN 'legacy'
+            WHEN v.value ~* '^[0-9a-f]{64}$' THEN 'digest'
+            ELSE 'plaintext'
+          END AS key_id,
+          COUNT(*)::int AS value_count
+        FROM t_customers cust
+        CROSS JOIN LATERAL (VALUES (cust.pan_encrypted), (cust.iwell_code_encrypted)) AS v(value)
+        WHERE cust.tenant_id = $1 AND cust.is_live = $2 AND NULLIF(v.value, '') IS NOT NULL
+        GROUP BY 1
+        ORDER BY 2 DESC
+      `, [tenantId, isLive]);
+
+      const pendingRecords = await this.countPending(tenantId, isLive, activeKeyId, 0);
+
+      const jobResult = await this.db.query(`
+        SELECT * FROM t_reencryption_jobs
+        WHERE tenant_id = $1 AND is_live = $2
+        ORDER BY started_at DESC, id DESC
+        LIMIT 1
+      `, [tenantId, isLive]);
+
+      return {
+        active_key_id: activeKeyId,
+        key_ids: EncryptionUtil.getKeyIds(),
+        key_usage: usageResult.rows,
+        pending_records: pendingRecords,
+        latest_job: jobResult.rows[0] ? this.mapJob(jobResult.rows[0]) : null
+      };
+    } catch (error: any) {
+      SimpleLogger.error('ReEncryption', 'Failed to get encryption status', 'getStatus', {
+        tenantId, isLive, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to get encryption status: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fail when legacy iv:hex values remain but ENCRYPTION_KEY is not set to decrypt them
+   * Called at startup so a keyring-only configuration cannot silently lose those values.
+   */
+  async checkLegacyKey(): Promise<void> {
+    if (EncryptionUtil.hasLegacyKey()) return;
+
+    const result = await this.db.query(`
+      SELECT COUNT(*)::int AS count
+      FROM t_customers cust
+      CROSS JOIN LATERAL (VALUES (cust.pan_encrypted), (cust.iwell_code_encrypted)) AS v(value)
+      WHERE v.value LIKE '%:%' AND v.value NOT LIKE 'v2:%'
+    `);
+
+    const legacyCount: number = result.rows[0].count;
+    if (legacyCount > 0) {
+      throw new Error(
+        `${legacyCount} customer values use the legacy encryption format and ENCRYPTION_KEY is not set; ` +
+        'set it until POST /api/customers/encryption/reencrypt has rewritten them'
+      );
+    }
+  }
+
+  /**
+   * Start re-encryption to the active key in the background
+   * Resumes the latest unfinished job for the same key from its cursor instead of starting over.
+   */
+  async startJob(tenantId: number, isLive: boolean, userId: number | null): Promise<ReEncryptionJob> {
+    const leaseKey = this.leaseKey(tenantId, isLive);
+    const lease = await this.leases.acquire(leaseKey, {
+      jobType: 'reencryption',
+      ttlMs: LEASE_TTL_MS,
+      tenantId,
+      isLive,
+      userId: userId ?? undefined
+    });
+
+    if (!lease) {
+      throw new Error('Re-encryption already in progress');
+    }
+
+    try {
+      const targetKeyId = EncryptionUtil.getActiveKeyId();
+
+      // A job left running for a key that is no longer active cannot finish
+      await this.db.query(`
+        UPDATE t_reencryption_jobs
+        SET status = 'cancelled', error_message = 'Superseded by key ' || $3, updated_at = NOW()
+        WHERE tenant_id = $1 AND is_live = $2 AND status = 'running' AND target_key_id <> $3
+      `, [tenantId, isLive, targetKeyId]);
+
+      const latestResult = await this.db.query(`
+        SELECT * FROM t_reencryption_jobs
+        WHERE tenant_id = $1 AND is_live = $2
+        ORDER BY started_at DESC, id DESC
+        LIMIT 1
+      `, [tenantId, isLive]);
+      const latest = latestResult.rows[0];
+
+      let jobRow: any;
+      if (latest && latest.status !== 'completed' && latest.target_key_id === targetKeyId) {
+        const remaining = await this.countPending(tenantId, isLive, targetKeyId, latest.last_customer_id);
+        const resumed = await this.db.query(`
+          UPDATE t_reencryption_jobs
+          SET status = 'running',
+              total_records = processed_records + $2,
+              error_message = NULL,
+              completed_at = NULL,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING *
+        `, [latest.id, remaining]);
+        jobRow = resumed.rows[0];
+
+        SimpleLogger.info('ReEncryption', 'Re-encryption job resumed', 'startJob', {
+          jobId: jobRow.id, targetKeyId, lastCustomerId: jobRow.last_customer_id, remaining
+        }, userId ?? undefined, tenantId);
+      } else {
+        const total = await this.countPending(tenantId, isLive, targetKeyId, 0);
+        const created = await this.db.query(`
+          INSERT INTO t_reencryption_jobs (tenant_id, is_live, target_key_id, total_records, started_by)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *
+        `, [tenantId, isLive, targetKeyId, total, userId]);
+        jobRow = created.rows[0];
+
+        SimpleLogger.info('ReEncryption', 'Re-encryption job started', 'startJob', {
+          jobId: jobRow.id, targetKeyId, total
+        }, userId ?? undefined, tenantId);
+      }
+
+      await this.leases.setReference(leaseKey, jobRow.id, { target_key_id: targetKeyId });
+      runningJobs.add(jobRow.id);
+      this.leases.startHeartbeat(leaseKey, LEASE_TTL_MS, () => runningJobs.delete(jobRow.id));
+
+      const job = this.mapJob(jobRow);
+
+      // Run in the background; runJob records its own failures on the job row
+      this.runJob(job).catch(error => {
+        console.error('Error running re-encryption job:', error);
+      });
+
+      return job;
+    } catch (error: any) {
+      await this.leases.release(leaseKey);
+      SimpleLogger.error('ReEncryption', 'Failed to start re-encryption job', 'startJob', {
+        tenantId, isLive, error: error.message
+      }, userId ?? undefined, tenantId, error.stack);
+      throw new Error(`Failed to start re-encryption: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stop the running job after its current batch; it can be resumed with startJob
+   */
+  async cancelJob(tenantId: number, isLive: boolean): Promise<ReEncryptionJob | null> {
+    try {
+      const result = await this.db.query(`
+        UPDATE t_reencryption_jobs
+        SET status = 'cancelled', updated_at = NOW()
+        WHERE tenant_id = $1 AND is_live = $2 AND status = 'running'
+        RETURNING *
+      `, [tenantId, isLive]);
+
+      return result.rows[0] ? this.mapJob(result.rows[0]) : null;
+    } catch (error: any) {
+      SimpleLogger.error('ReEncryption', 'Failed to cancel re-encryption job', 'cancelJob', {
+        tenantId, isLive, error: error.message
+      }, undefined, tenantId, error.stack);
+      throw new Error(`Failed to cancel re-encryption: ${error.message}`);
+    }
+  }
+
+  /**
+   * Resume jobs left running by a stopped or crashed node (server startup)
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const result = await this.db.query(`
+      SELECT * FROM t_reencryption_jobs
+      WHERE status = 'running'
+      ORDER BY id
+    `);
+
+    let resumed = 0;
+    for (const row of result.rows) {
+      if (await this.leases.getLease(this.leaseKey(row.tenant_id, row.is_live))) {
+        continue; // still owned by a live node
+      }
+
+      try {
+        await this.startJob(row.tenant_id, row.is_live, row.started_by);
+        resumed++;
+      } catch (error: any) {
+        SimpleLogger.warn('ReEncryption', 'Could not resume re-encryption job', 'resumeInterruptedJobs', {
+          jobId: row.id, error: error.message
+        }, undefined, row.tenant_id);
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Process batches until done, cancelled or the lease is lost
+   */
+  private async runJob(job: ReEncryptionJob): Promise<void> {
+    const leaseKey = this.leaseKey(job.tenant_id, job.is_live);
+    let cursor = job.last_customer_id;
+
+    try {
+      while (runningJobs.has(job.id)) {
+        const client = await this.db.connect();
+        let finished = false;
+
+        try {
+          await client.query('BEGIN');
+
+          // Job row lock serialises batches with cancel requests
+          const stateResult = await client.query(
+            'SELECT status FROM t_reencryption_jobs WHERE id = $1 FOR UPDATE',
+            [job.id]
+          );
+          if (stateResult.rows[0]?.status !== 'running') {
+            await client.query('ROLLBACK');
+            break;
+          }
+
+          const batchResult = await client.query(`
+            SELECT cust.id, cust.pan_encrypted, cust.iwell_code_encrypted
+            FROM t_customers cust
+            WHERE cust.tenant_id = $1 AND cust.is_live = $2 AND cust.id > $3
+              AND ${this.pendingCondition('$4')}
+            ORDER BY cust.id
+            LIMIT $5
+            FOR UPDATE
+          `, [job.tenant_id, job.is_live, cursor, EncryptionUtil.ciphertextPrefix(job.target_key_id), BATCH_SIZE]);
+
+          if (batchResult.rows.length === 0) {
+            await client.query(`
+              UPDATE t_reencryption_jobs
+              SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+              WHERE id = $1
+            `, [job.id]);
+            await client.query('COMMIT');
+            finished = true;
+          } else {
+            const ids: number[] = [];
+            const pans: (string | null)[] = [];
+            const iwellCodes: (string | null)[] = [];
+            let failed = 0;
+
+            for (const row of batchResult.rows) {
+              const pan = row.pan_encrypted ? EncryptionUtil.reEncrypt(row.pan_encrypted) : row.pan_encrypted;
+              const iwellCode = row.iwell_code_encrypted ? EncryptionUtil.reEncrypt(row.iwell_code_encrypted) : row.iwell_code_encrypted;
+
+              // Undecryptable values and SQL-import PAN digests are left untouched and counted
+              if ((row.pan_encrypted && pan === null) || (row.iwell_code_encrypted && iwellCode === null)) {
+                failed++;
+              }
+
+              ids.push(row.id);
+              pans.push(pan ?? row.pan_encrypted);
+              iwellCodes.push(iwellCode ?? row.iwell_code_encrypted);
+            }
+
+            await client.query(`
+              UPDATE t_customers c
+              SET pan_encrypted = v.pan_encrypted,
+                  iwell_code_encrypted = v.iwell_code_encrypted
+              FROM unnest($1::int[], $2::varchar[], $3::varchar[]) AS v(id, pan_encrypted, iwell_code_encrypted)
+              WHERE c.id = v.id
+            `, [ids, pans, iwellCodes]);
+
+            cursor = ids[ids.length - 1];
+
+            await client.query(`
+              UPDATE t_reencryption_jobs
+              SET last_customer_id = $2,
+                  processed_records = processed_records + $3,
+                  reencrypted_records = reencrypted_records + $4,
+                  failed_records = failed_records + $5,
+                  updated_at = NOW()
+              WHERE id = $1
+            `, [job.id, cursor, ids.length, ids.length - failed, failed]);
+
+            await client.query('COMMIT');
+          }
+        } catch (batchError) {
+          await client.query('ROLLBACK');
+          throw batchError;
+        } finally {
+          client.release();
+        }
+
+        if (finished) {
+          SimpleLogger.info('ReEncryption', 'Re-encryption job completed', 'runJob', {
+            jobId: job.id, targetKeyId: job.target_key_id
+          }, undefined, job.tenant_id);
+          break;
+        }
+      }
+    } catch (error: any) {
+      SimpleLogger.error('ReEncryption', 'Re-encryption job failed', 'runJob', {
+        jobId: job.id, lastCustomerId: cursor, error: error.message
+      }, undefined, job.tenant_id, error.stack);
+
+      await this.db.query(`
+        UPDATE t_reencryption_jobs
+        SET status = 'failed', error_message = $2, updated_at = NOW()
+        WHERE id = $1 AND status = 'running'
+      `, [job.id, error.message]).catch(updateError => {
+        console.error('Error recording re-encryption failure:', updateError);
+      });
+    } finally {
+      runningJobs.delete(job.id);
+      await this.leases.release(leaseKey).catch(releaseError => {
+        console.error('Error releasing re-encryption lease:', releaseError);
+      });
+    }
+  }
+
+  /**
+   * Customers after the cursor with a PAN/IWELL value not written with the given key
+   */
+  private async countPending(tenantId: number, isLive: boolean, keyId: string, afterCustomerId: number): Promise<number> {
+    const result = await this.db.query(`
+      SELECT COUNT(*)::int AS count
+      FROM t_customers cust
+      WHERE cust.tenant_id = $1 AND cust.is_live = $2 AND cust.id > $3
+        AND ${this.pendingCondition('$4')}
+    `, [tenantId, isLive, afterCustomerId, EncryptionUtil.ciphertextPrefix(keyId)]);
+
+    return result.rows[0].count;
+  }
+
+  // LEFT() rather than LIKE: key ids may contain "_", a LIKE wildcard
+  private pendingCondition(prefixParam: string): string {
+    return `(
+      (NULLIF(cust.pan_encrypted, '') IS NOT NULL
+        AND LEFT(cust.pan_encrypted, LENGTH(${prefixParam})) <> ${prefixParam})
+      OR (NULLIF(cust.iwell_code_encrypted, '') IS NOT NULL
+        AND LEFT(cust.iwell_code_encrypted, LENGTH(${prefixParam})) <> ${prefixParam})
+    )`;
+  }
+
+  private leaseKey(tenantId: number, isLive: boolean): string {
+    return `reencryption_${tenantId}_${isLive}`;
+  }
+
+  private mapJob(row: any): ReEncryptionJob {
+    const total = row.total_records || 0;
+    const progress = row.status === 'completed'
+      ? 100
+      : total > 0 ? Math.min(100, Math.round((row.processed_records / total) * 1000) / 10) : 0;
+
+    return {
+      ...row,
+      progress_percentage: progress
+    };
+  }
+}
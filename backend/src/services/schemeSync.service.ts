@@ -0,0 +1,888 @@
+// backend/src/services/schemeSync.service.ts
+// Scheme master sync from the daily NAV file: compares NAVAll.txt rows (scheme code, name,
+// ISINs, AMC and scheme type/category section headers) with t_scheme_details/t_scheme_masters
+// and stores a change report in t_scheme_sync_runs/t_scheme_sync_changes.
+// mode 'auto' applies the report right away, 'review' leaves it pending for approval.
+
+import { Pool, PoolClient } from 'pg';
+import { createHash } from 'crypto';
+import { pool } from '../config/database';
+import { SimpleLogger } from './simpleLogger.service';
+import { AmfiDataSourceService } from './amfiDataSource.service';
+import {
+  NavProviderName,
+  ParsedNavRecord,
+  SchemeSyncApplyResult,
+  SchemeSyncChange,
+  SchemeSyncChangeStatus,
+  SchemeSyncChangeType,
+  SchemeSyncMode,
+  SchemeSyncRun,
+  SchemeSyncRunDetail,
+  SchemeSyncRunStatus,
+  SchemeSyncSettings,
+  SchemeSyncSummary,
+  SchemeSyncValues
+} from '../types/nav.types';
+
+export const SCHEME_SYNC_MODES: SchemeSyncMode[] = ['off', 'review', 'auto'];
+
+export const SCHEME_SYNC_CHANGE_TYPES: SchemeSyncChangeType[] = [
+  'master_added', 'added', 'renamed', 'isin_changed', 'reclassified', 'closed', 'reopened'
+];
+
+// Scheme names with these words carry the payout ISIN in the "ISIN Div Payout/ ISIN Growth" column
+const PAYOUT_PLAN_PATTERN = /\b(IDCW|dividend)\b/i;
+
+interface ExistingScheme {
+  id: number;
+  scheme_code: string;
+  scheme_name: string;
+  amc_name: string | null;
+  isin_growth: string | null;
+  isin_div_payout: string | null;
+  isin_div_reinvestment: string | null;
+  closure_date: string | null;
+  is_active: boolean;
+  scheme_type: string | null;
+  scheme_category: string | null;
+}
+
+interface PlannedChange {
+  change_type: SchemeSyncChangeType;
+  scheme_code: string | null;
+  scheme_id: number | null;
+  before_values: SchemeSyncValues | null;
+  after_values: SchemeSyncValues;
+}
+
+export interface SchemeSyncOptions {
+  provider?: NavProviderName;
+  triggerSource: SchemeSyncRun['trigger_source'];
+  detectClosures: boolean;
+  autoApply: boolean;
+}
+
+export class SchemeSyncService {
+  private db: Pool;
+  private amfiService: AmfiDataSourceService;
+
+  constructor() {
+    this.db = pool;
+    this.amfiService = new AmfiDataSourceService();
+  }
+
+  // ==================== SETTINGS ====================
+
+  async getSettings(tenantId: number, isLive: boolean): Promise<SchemeSyncSettings> {
+    try {
+      const query = `
+        SELECT tenant_id, is_live, mode, detect_closures, updated_at
+        FROM t_scheme_sync_settings
+        WHERE tenant_id = $1 AND is_live = $2
+      `;
+
+      const result = await this.db.query(query, [tenantId, isLive]);
+
+      return result.rows[0] || {
+        tenant_id: tenantId,
+        is_live: isLive,
+        mode: 'off',
+        detect_closures: true,
+        updated_at: null
+      };
+    } catch (error: any) {
+      console.error('Error fetching scheme sync settings:', error);
+      throw new Error(`Failed to fetch scheme sync settings: ${error.message}`);
+    }
+  }
+
+  async saveSettings(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    settings: { mode: SchemeSyncMode; detect_closures?: boolean }
+  ): Promise<SchemeSyncSettings> {
+    try {
+      const query = `
+        INSERT INTO t_scheme_sync_settings (tenant_id, is_live, mode, detect_closures, updated_by)
+        VALUES ($1, $2, $3, COALESCE($4, true), $5)
+        ON CONFLICT (tenant_id, is_live) DO UPDATE SET
+          mode = EXCLUDED.mode,
+          detect_closures = COALESCE($4, t_scheme_sync_settings.detect_closures),
+          updated_by = EXCLUDED.updated_by,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING tenant_id, is_live, mode, detect_closures, updated_at
+      `;
+
+      const result = await this.db.query(query, [
+        tenantId,
+        isLive,
+        settings.mode,
+        settings.detect_closures ?? null,
+        userId
+      ]);
+
+      return result.rows[0];
+    } catch (error: any) {
+      console.error('Error saving scheme sync settings:', error);
+      throw new Error(`Failed to save scheme sync settings: ${error.message}`);
+    }
+  }
+
+  // ==================== SYNC ====================
+
+  /**
+   * Hook for the daily NAV ingest: syncs once per tenant/environment and file date
+   * when the tenant enabled it. Returns null when sync is off or already done.
+   * Closures are only detected from the full AMFI file, never from partial local files.
+   * Never throws: a failed sync is logged and must not fail the NAV download.
+   */
+  async syncAfterDailyIngest(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    records: ParsedNavRecord[],
+    provider?: NavProviderName
+  ): Promise<SchemeSyncRun | null> {
+    try {
+      const settings = await this.getSettings(tenantId, isLive);
+      if (settings.mode === 'off') {
+        return null;
+      }
+
+      return await this.syncFromNavRecords(tenantId, isLive, userId, records, {
+        provider,
+        triggerSource: 'daily_ingest',
+        detectClosures: settings.detect_closures && provider === 'amfi',
+        autoApply: settings.mode === 'auto'
+      });
+    } catch (error: any) {
+      SimpleLogger.error('SchemeSync', 'Scheme master sync after daily ingest failed', 'syncAfterDailyIngest', {
+        tenantId, isLive, provider, error: error.message
+      }, userId, tenantId, error.stack);
+      return null;
+    }
+  }
+
+  /**
+   * Download the daily NAV file from the tenant's providers and build a change report
+   */
+  async runManualSync(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    options: { auto_apply?: boolean; detect_closures?: boolean } = {}
+  ): Promise<SchemeSyncRun> {
+    const response = await this.amfiService.downloadDailyNavData({
+      requestId: `scheme_sync_${tenantId}_${isLive}_${Date.now()}`,
+      tenantId,
+      isLive
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(`NAV download error: ${response.error || 'Failed to download daily NAV data'}`);
+    }
+
+    const settings = await this.getSettings(tenantId, isLive);
+
+    const run = await this.syncFromNavRecords(tenantId, isLive, userId, response.data, {
+      provider: response.provider,
+      triggerSource: 'manual',
+      detectClosures: (options.detect_closures ?? settings.detect_closures) && response.provider === 'amfi',
+      autoApply: options.auto_apply === true
+    });
+
+    return run!;
+  }
+
+  /**
+   * Compare NAV file records with the scheme master and store the change report.
+   * Daily ingest runs are skipped (null) when a run for the same file date exists;
+   * a new pending run supersedes older pending ones.
+   */
+  async syncFromNavRecords(
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    records: ParsedNavRecord[],
+    options: SchemeSyncOptions
+  ): Promise<SchemeSyncRun | null> {
+    const fileEntries = this.latestRecordPerScheme(records);
+    const fileDate = this.latestNavDate(records);
+
+    const client = await this.db.connect();
+    let run: SchemeSyncRun;
+
+    try {
+      await client.query('BEGIN');
+      // Serialize syncs per tenant/environment (several users' daily runs share one master)
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`scheme_sync_${tenantId}_${isLive}`]);
+
+      if (options.triggerSource === 'daily_ingest' && fileDate) {
+        const existing = await client.query(`
+          SELECT id FROM t_scheme_sync_runs
+          WHERE tenant_id = $1 AND is_live = $2 AND file_date = $3
+            AND status NOT IN ('failed', 'superseded')
+          LIMIT 1
+        `, [tenantId, isLive, fileDate]);
+
+        if (existing.rows.length > 0) {
+          await client.query('COMMIT');
+          return null;
+        }
+      }
+
+      const changes = await this.planChanges(client, tenantId, isLive, fileEntries, options.detectClosures, fileDate);
+      const summary = this.summarize(changes);
+      const status: SchemeSyncRunStatus = changes.length === 0 ? 'no_changes' : 'pending_approval';
+
+      if (status === 'pending_approval') {
+        await client.query(`
+          UPDATE t_scheme_sync_runs SET status = 'superseded'
+          WHERE tenant_id = $1 AND is_live = $2 AND status = 'pending_approval'
+        `, [tenantId, isLive]);
+      }
+
+      const runResult = await client.query(`
+        INSERT INTO t_scheme_sync_runs (
+          tenant_id, is_live, status, trigger_source, provider, file_date,
+          schemes_in_file, summary, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *, to_char(file_date, 'YYYY-MM-DD') AS file_date
+      `, [
+        tenantId,
+        isLive,
+        status,
+        options.triggerSource,
+        options.provider || null,
+        fileDate,
+        fileEntries.size,
+        JSON.stringify(summary),
+        userId
+      ]);
+      run = runResult.rows[0];
+
+      if (changes.length > 0) {
+        await client.query(`
+          INSERT INTO t_scheme_sync_changes (run_id, change_type, scheme_code, scheme_id, before_values, after_values)
+          SELECT $1, x.change_type, x.scheme_code, x.scheme_id, x.before_values, x.after_values
+          FROM jsonb_to_recordset($2::jsonb) AS x(
+            change_type VARCHAR, scheme_code VARCHAR, scheme_id INTEGER, before_values JSONB, after_values JSONB
+          )
+        `, [run.id, JSON.stringify(changes)]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      SimpleLogger.error('SchemeSync', 'Failed to build scheme sync change report', 'syncFromNavRecords', {
+        tenantId, isLive, triggerSource: options.triggerSource, error: error.message
+      }, userId, tenantId, error.stack);
+      throw new Error(`Failed to build scheme sync change report: ${error.message}`);
+    } finally {
+      client.release();
+    }
+
+    SimpleLogger.info('SchemeSync', 'Scheme sync change report created', 'syncFromNavRecords', {
+      tenantId, isLive, runId: run.id, status: run.status, fileDate, summary: run.summary
+    }, userId, tenantId);
+
+    if (options.autoApply && run.status === 'pending_approval') {
+      await this.approveRun(tenantId, isLive, run.id, userId);
+      return this.getRunHeader(tenantId, isLive, run.id);
+    }
+
+    return run;
+  }
+
+  // ==================== REVIEW ====================
+
+  async listRuns(
+    tenantId: number,
+    isLive: boolean,
+    params: { status?: SchemeSyncRunStatus; page?: number; page_size?: number } = {}
+  ): Promise<{ runs: SchemeSyncRun[]; total: number; page: number; page_size: number }> {
+    const page = params.page || 1;
+    const pageSize = Math.min(params.page_size || 20, 100);
+
+    try {
+      const query = `
+        SELECT *, to_char(file_date, 'YYYY-MM-DD') AS file_date, COUNT(*) OVER() AS total_count
+        FROM t_scheme_sync_runs
+        WHERE tenant_id = $1 AND is_live = $2 AND ($3::VARCHAR IS NULL OR status = $3)
+        ORDER BY created_at DESC, id DESC
+        LIMIT $4 OFFSET $5
+      `;
+
+      const result = await this.db.query(query, [
+        tenantId, isLive, params.status || null, pageSize, (page - 1) * pageSize
+      ]);
+
+      return {
+        runs: result.rows.map(({ total_count, ...run }) => run),
+        total: result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0,
+        page,
+        page_size: pageSize
+      };
+    } catch (error: any) {
+      console.error('Error fetching scheme sync runs:', error);
+      throw new Error(`Failed to fetch scheme sync runs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run with one page of its changes; null when the run does not belong to the tenant
+   */
+  async getRun(
+    tenantId: number,
+    isLive: boolean,
+    runId: number,
+    params: { change_type?: SchemeSyncChangeType; status?: SchemeSyncChangeStatus; page?: number; page_size?: number } = {}
+  ): Promise<SchemeSyncRunDetail | null> {
+    const page = params.page || 1;
+    const pageSize = Math.min(params.page_size || 100, 1000);
+
+    try {
+      const run = await this.getRunHeader(tenantId, isLive, runId);
+      if (!run) {
+        return null;
+      }
+
+      const changesResult = await this.db.query(`
+        SELECT *, COUNT(*) OVER() AS total_count
+        FROM t_scheme_sync_changes
+        WHERE run_id = $1
+          AND ($2::VARCHAR IS NULL OR change_type = $2)
+          AND ($3::VARCHAR IS NULL OR status = $3)
+        ORDER BY change_type, scheme_code, id
+        LIMIT $4 OFFSET $5
+      `, [runId, params.change_type || null, params.status || null, pageSize, (page - 1) * pageSize]);
+
+      return {
+        ...run,
+        changes: changesResult.rows.map(({ total_count, ...change }) => change),
+        total_changes: changesResult.rows.length > 0 ? parseInt(changesResult.rows[0].total_count) : 0,
+        page,
+        page_size: pageSize
+      };
+    } catch (error: any) {
+      console.error('Error fetching scheme sync run:', error);
+      throw new Error(`Failed to fetch scheme sync run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Apply a pending run. With changeIds only those changes are applied and the rest are
+   * rejected. Each change runs under a savepoint, so one failing change is marked skipped
+   * instead of aborting the run.
+   */
+  async approveRun(
+    tenantId: number,
+    isLive: boolean,
+    runId: number,
+    userId: number,
+    changeIds?: number[]
+  ): Promise<SchemeSyncApplyResult> {
+    const client = await this.db.connect();
+    const result: SchemeSyncApplyResult = { run_id: runId, applied: 0, skipped: 0, rejected: 0, skipped_changes: [] };
+
+    try {
+      await client.query('BEGIN');
+
+      const run = await this.lockPendingRun(client, tenantId, isLive, runId);
+
+      if (changeIds) {
+        const rejected = await client.query(`
+          UPDATE t_scheme_sync_changes SET status = 'rejected'
+          WHERE run_id = $1 AND status = 'pending' AND NOT (id = ANY($2::INTEGER[]))
+        `, [runId, changeIds]);
+        result.rejected = rejected.rowCount || 0;
+      }
+
+      const pending: SchemeSyncChange[] = (await client.query(`
+        SELECT * FROM t_scheme_sync_changes
+        WHERE run_id = $1 AND status = 'pending'
+        ORDER BY CASE change_type WHEN 'master_added' THEN 0 ELSE 1 END, id
+      `, [runId])).rows;
+
+      // Masters first, so new schemes and reclassifications can reference them
+      const masterIds = await this.loadMasterIds(client, tenantId, isLive);
+
+      for (const change of pending) {
+        try {
+          await client.query('SAVEPOINT scheme_change');
+          const error = await this.applyChange(client, tenantId, isLive, userId, run.file_date, change, masterIds);
+          await client.query('RELEASE SAVEPOINT scheme_change');
+
+          if (error) {
+            await this.markChange(client, change.id, 'skipped', error);
+            result.skipped++;
+            result.skipped_changes.push({ change_id: change.id, scheme_code: change.scheme_code, error });
+          } else {
+            await this.markChange(client, change.id, 'applied');
+            result.applied++;
+          }
+        } catch (changeError: any) {
+          await client.query('ROLLBACK TO SAVEPOINT scheme_change');
+          const error = changeError.message || 'Unknown error';
+          await this.markChange(client, change.id, 'skipped', error);
+          result.skipped++;
+          result.skipped_changes.push({ change_id: change.id, scheme_code: change.scheme_code, error });
+        }
+      }
+
+      await client.query(`
+        UPDATE t_scheme_sync_runs
+        SET status = 'applied', reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, applied_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [runId, userId]);
+
+      await client.query('COMMIT');
+
+      SimpleLogger.info('SchemeSync', 'Scheme sync run applied', 'approveRun', {
+        tenantId, isLive, runId, applied: result.applied, skipped: result.skipped, rejected: result.rejected
+      }, userId, tenantId);
+
+      return result;
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      SimpleLogger.error('SchemeSync', 'Failed to apply scheme sync run', 'approveRun', {
+        tenantId, isLive, runId, error: error.message
+      }, userId, tenantId, error.stack);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async rejectRun(tenantId: number, isLive: boolean, runId: number, userId: number): Promise<SchemeSyncRun> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await this.lockPendingRun(client, tenantId, isLive, runId);
+
+      await client.query(`
+        UPDATE t_scheme_sync_changes SET status = 'rejected'
+        WHERE run_id = $1 AND status = 'pending'
+      `, [runId]);
+
+      const result = await client.query(`
+        UPDATE t_scheme_sync_runs
+        SET status = 'rejected', reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *, to_char(file_date, 'YYYY-MM-DD') AS file_date
+      `, [runId, userId]);
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async getRunHeader(tenantId: number, isLive: boolean, runId: number): Promise<SchemeSyncRun | null> {
+    const result = await this.db.query(`
+      SELECT *, to_char(file_date, 'YYYY-MM-DD') AS file_date
+      FROM t_scheme_sync_runs
+      WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+    `, [runId, tenantId, isLive]);
+
+    return result.rows[0] || null;
+  }
+
+  private async lockPendingRun(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    runId: number
+  ): Promise<SchemeSyncRun> {
+    const result = await client.query(`
+      SELECT *, to_char(file_date, 'YYYY-MM-DD') AS file_date
+      FROM t_scheme_sync_runs
+      WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+      FOR UPDATE
+    `, [runId, tenantId, isLive]);
+
+    const run: SchemeSyncRun | undefined = result.rows[0];
+    if (!run) {
+      throw new Error('Scheme sync run not found');
+    }
+    if (run.status !== 'pending_approval') {
+      throw new Error(`Scheme sync run is ${run.status}, only pending_approval runs can be reviewed`);
+    }
+
+    return run;
+  }
+
+  private async planChanges(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    fileEntries: Map<string, ParsedNavRecord>,
+    detectClosures: boolean,
+    fileDate: string | null
+  ): Promise<PlannedChange[]> {
+    // Inactive rows too: scheme_code is globally unique, so they can only be reactivated, not re-added
+    const schemesResult = await client.query(`
+      SELECT sd.id, sd.scheme_code, sd.scheme_name, sd.amc_name,
+             sd.isin_growth, sd.isin_div_payout, sd.isin_div_reinvestment,
+             to_char(sd.closure_date, 'YYYY-MM-DD') AS closure_date, sd.is_active,
+             st.name AS scheme_type, sc.name AS scheme_category
+      FROM t_scheme_details sd
+      LEFT JOIN t_scheme_masters st ON st.id = sd.scheme_type_id
+      LEFT JOIN t_scheme_masters sc ON sc.id = sd.scheme_category_id
+      WHERE sd.tenant_id = $1 AND sd.is_live = $2
+    `, [tenantId, isLive]);
+
+    // Codes held by another tenant or environment would fail every 'added' insert
+    const takenResult = await client.query(`
+      SELECT scheme_code FROM t_scheme_details
+      WHERE scheme_code = ANY($3::VARCHAR[]) AND NOT (tenant_id = $1 AND is_live = $2)
+    `, [tenantId, isLive, Array.from(fileEntries.keys())]);
+
+    const mastersResult = await client.query(`
+      SELECT master_type, name FROM t_scheme_masters
+      WHERE tenant_id = $1 AND is_live = $2 AND is_active = true
+    `, [tenantId, isLive]);
+
+    const existing = new Map<string, ExistingScheme>(
+      schemesResult.rows.map((row: ExistingScheme) => [row.scheme_code, row])
+    );
+    const takenCodes = new Set<string>(takenResult.rows.map(row => row.scheme_code));
+    const knownMasters = new Set<string>(
+      mastersResult.rows.map(row => `${row.master_type}|${this.normalize(row.name).toLowerCase()}`)
+    );
+
+    const changes: PlannedChange[] = [];
+    const plannedMasters = new Set<string>();
+
+    const planMaster = (masterType: 'scheme_type' | 'scheme_category', name: string | undefined) => {
+      if (!name) return;
+      const key = `${masterType}|${this.normalize(name).toLowerCase()}`;
+      if (knownMasters.has(key) || plannedMasters.has(key)) return;
+
+      plannedMasters.add(key);
+      changes.push({
+        change_type: 'master_added',
+        scheme_code: null,
+        scheme_id: null,
+        before_values: null,
+        after_values: { master_type: masterType, name: this.normalize(name) }
+      });
+    };
+
+    for (const [schemeCode, record] of fileEntries) {
+      planMaster('scheme_type', record.scheme_type);
+      planMaster('scheme_category', record.scheme_category);
+
+      const fileValues = this.toSchemeValues(record);
+      const scheme = existing.get(schemeCode);
+
+      if (!scheme) {
+        if (takenCodes.has(schemeCode)) continue;
+
+        changes.push({
+          change_type: 'added',
+          scheme_code: schemeCode,
+          scheme_id: null,
+          before_values: null,
+          after_values: fileValues
+        });
+        continue;
+      }
+
+      if (this.normalize(scheme.scheme_name) !== fileValues.scheme_name) {
+        changes.push(this.schemeChange('renamed', scheme, { scheme_name: fileValues.scheme_name }));
+      }
+
+      const isinChanges = this.diff(scheme, fileValues, ['isin_growth', 'isin_div_payout', 'isin_div_reinvestment'], false);
+      if (isinChanges) {
+        changes.push(this.schemeChange('isin_changed', scheme, isinChanges));
+      }
+
+      const classChanges = this.diff(scheme, fileValues, ['amc_name', 'scheme_type', 'scheme_category'], true);
+      if (classChanges) {
+        changes.push(this.schemeChange('reclassified', scheme, classChanges));
+      }
+
+      if (!scheme.is_active) {
+        changes.push(this.schemeChange('reopened', scheme, { is_active: true, closure_date: null }));
+      } else if (scheme.closure_date) {
+        changes.push(this.schemeChange('reopened', scheme, { closure_date: null }));
+      }
+    }
+
+    if (detectClosures && fileDate) {
+      for (const scheme of existing.values()) {
+        if (scheme.is_active && !fileEntries.has(scheme.scheme_code) && !scheme.closure_date) {
+          changes.push(this.schemeChange('closed', scheme, { closure_date: fileDate }));
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Changed fields as an after-values object, or null; blank file values never clear data
+   */
+  private diff(
+    scheme: ExistingScheme,
+    fileValues: SchemeSyncValues,
+    fields: Array<keyof SchemeSyncValues & keyof ExistingScheme>,
+    ignoreCase: boolean
+  ): SchemeSyncValues | null {
+    const changed: SchemeSyncValues = {};
+
+    for (const field of fields) {
+      const next = fileValues[field] as string | null | undefined;
+      if (!next) continue;
+
+      const current = scheme[field] ? this.normalize(String(scheme[field])) : '';
+      const differs = ignoreCase ? current.toLowerCase() !== next.toLowerCase() : current !== next;
+      if (differs) {
+        (changed as any)[field] = next;
+      }
+    }
+
+    return Object.keys(changed).length > 0 ? changed : null;
+  }
+
+  private schemeChange(changeType: SchemeSyncChangeType, scheme: ExistingScheme, after: SchemeSyncValues): PlannedChange {
+    const before: SchemeSyncValues = {};
+    for (const field of Object.keys(after) as Array<keyof SchemeSyncValues>) {
+      (before as any)[field] = (scheme as any)[field] ?? null;
+    }
+
+    return {
+      change_type: changeType,
+      scheme_code: scheme.scheme_code,
+      scheme_id: scheme.id,
+      before_values: before,
+      after_values: after
+    };
+  }
+
+  /**
+   * Apply one change; returns an error message when it cannot be applied
+   */
+  private async applyChange(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    userId: number,
+    fileDate: string | null,
+    change: SchemeSyncChange,
+    masterIds: Map<string, number>
+  ): Promise<string | null> {
+    const after = change.after_values || {};
+    const masterId = (masterType: 'scheme_type' | 'scheme_category', name?: string | null) =>
+      name ? masterIds.get(`${masterType}|${this.normalize(name).toLowerCase()}`) ?? null : null;
+
+    switch (change.change_type) {
+      case 'master_added': {
+        const key = `${after.master_type}|${this.normalize(after.name!).toLowerCase()}`;
+        if (masterIds.has(key)) {
+          return null;
+        }
+
+        const inserted = await client.query(`
+          INSERT INTO t_scheme_masters (tenant_id, is_live, is_active, master_type, code, name, display_order)
+          VALUES ($1, $2, true, $3, $4, $5, 0)
+          ON CONFLICT (code) DO NOTHING
+          RETURNING id
+        `, [tenantId, isLive, after.master_type, this.masterCode(tenantId, isLive, after.master_type!, after.name!), after.name]);
+
+        if (inserted.rows.length === 0) {
+          return 'Master code already exists';
+        }
+        masterIds.set(key, inserted.rows[0].id);
+        return null;
+      }
+
+      case 'added': {
+        const inserted = await client.query(`
+          INSERT INTO t_scheme_details (
+            tenant_id, is_live, is_active, amc_name, scheme_code, scheme_name, scheme_nav_name,
+            scheme_type_id, scheme_category_id, isin_growth, isin_div_payout, isin_div_reinvestment, created_by
+          ) VALUES ($1, $2, true, $3, $4, $5, $5, $6, $7, $8, $9, $10, $11)
+          ON CONFLICT (scheme_code) DO NOTHING
+          RETURNING id
+        `, [
+          tenantId,
+          isLive,
+          after.amc_name || null,
+          change.scheme_code,
+          after.scheme_name,
+          masterId('scheme_type', after.scheme_type),
+          masterId('scheme_category', after.scheme_category),
+          after.isin_growth || null,
+          after.isin_div_payout || null,
+          after.isin_div_reinvestment || null,
+          userId
+        ]);
+
+        return inserted.rows.length === 0
+          ? 'Scheme code already exists in another tenant or environment'
+          : null;
+      }
+
+      case 'renamed':
+        return this.updateScheme(client, tenantId, isLive, change.scheme_id!, {
+          scheme_name: after.scheme_name,
+          scheme_nav_name: after.scheme_name
+        });
+
+      case 'isin_changed':
+        return this.updateScheme(client, tenantId, isLive, change.scheme_id!, {
+          isin_growth: after.isin_growth,
+          isin_div_payout: after.isin_div_payout,
+          isin_div_reinvestment: after.isin_div_reinvestment
+        });
+
+      case 'reclassified':
+        return this.updateScheme(client, tenantId, isLive, change.scheme_id!, {
+          amc_name: after.amc_name,
+          scheme_type_id: after.scheme_type ? masterId('scheme_type', after.scheme_type) ?? undefined : undefined,
+          scheme_category_id: after.scheme_category ? masterId('scheme_category', after.scheme_category) ?? undefined : undefined
+        });
+
+      case 'closed':
+        return this.updateScheme(client, tenantId, isLive, change.scheme_id!, {
+          closure_date: after.closure_date || fileDate
+        });
+
+      case 'reopened':
+        return this.updateScheme(client, tenantId, isLive, change.scheme_id!, {
+          closure_date: null,
+          is_active: after.is_active ? true : undefined
+        });
+
+      default:
+        return `Unknown change type ${change.change_type}`;
+    }
+  }
+
+  /**
+   * Update the given columns (undefined = leave unchanged) of a tenant's scheme
+   */
+  private async updateScheme(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    schemeId: number,
+    values: Record<string, string | number | boolean | null | undefined>
+  ): Promise<string | null> {
+    const columns = Object.keys(values).filter(column => values[column] !== undefined);
+    if (columns.length === 0) {
+      return 'Nothing to update (scheme master entry missing)';
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 4}`);
+    const result = await client.query(`
+      UPDATE t_scheme_details
+      SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND tenant_id = $2 AND is_live = $3
+    `, [schemeId, tenantId, isLive, ...columns.map(column => values[column])]);
+
+    return (result.rowCount || 0) === 0 ? 'Scheme no longer exists' : null;
+  }
+
+  private async markChange(client: PoolClient, changeId: number, status: SchemeSyncChangeStatus, error?: string): Promise<void> {
+    await client.query(`
+      UPDATE t_scheme_sync_changes
+      SET status = $2, error_details = $3, applied_at = CASE WHEN $2 = 'applied' THEN CURRENT_TIMESTAMP END
+      WHERE id = $1
+    `, [changeId, status, error || null]);
+  }
+
+  private async loadMasterIds(client: PoolClient, tenantId: number, isLive: boolean): Promise<Map<string, number>> {
+    const result = await client.query(`
+      SELECT id, master_type, name FROM t_scheme_masters
+      WHERE tenant_id = $1 AND is_live = $2 AND is_active = true
+      ORDER BY id
+    `, [tenantId, isLive]);
+
+    const ids = new Map<string, number>();
+    for (const row of result.rows) {
+      const key = `${row.master_type}|${this.normalize(row.name).toLowerCase()}`;
+      if (!ids.has(key)) ids.set(key, row.id);
+    }
+    return ids;
+  }
+
+  /**
+   * t_scheme_masters.code is unique across tenants, so generated codes carry tenant and environment
+   */
+  private masterCode(tenantId: number, isLive: boolean, masterType: string, name: string): string {
+    const hash = createHash('sha1').update(this.normalize(name).toLowerCase()).digest('hex').substring(0, 12);
+    return `AMFI_${masterType === 'scheme_type' ? 'T' : 'C'}_${tenantId}_${isLive ? 'L' : 'T'}_${hash}`;
+  }
+
+  private toSchemeValues(record: ParsedNavRecord): SchemeSyncValues {
+    const payoutOrGrowth = this.cleanIsin(record.isin_div_payout_growth);
+    const isPayoutPlan = PAYOUT_PLAN_PATTERN.test(record.scheme_name);
+
+    return {
+      scheme_name: this.normalize(record.scheme_name),
+      amc_name: record.amc_name ? this.normalize(record.amc_name) : null,
+      scheme_type: record.scheme_type ? this.normalize(record.scheme_type) : null,
+      scheme_category: record.scheme_category ? this.normalize(record.scheme_category) : null,
+      isin_growth: isPayoutPlan ? null : payoutOrGrowth,
+      isin_div_payout: isPayoutPlan ? payoutOrGrowth : null,
+      isin_div_reinvestment: this.cleanIsin(record.isin_div_reinvestment)
+    };
+  }
+
+  private latestRecordPerScheme(records: ParsedNavRecord[]): Map<string, ParsedNavRecord> {
+    const entries = new Map<string, ParsedNavRecord>();
+
+    for (const record of records) {
+      if (!record.scheme_code || !record.scheme_name) continue;
+      const current = entries.get(record.scheme_code);
+      if (!current || (record.nav_date && current.nav_date && record.nav_date >= current.nav_date)) {
+        entries.set(record.scheme_code, record);
+      }
+    }
+
+    return entries;
+  }
+
+  private latestNavDate(records: ParsedNavRecord[]): string | null {
+    let latest: Date | null = null;
+    for (const record of records) {
+      if (record.nav_date && (!latest || record.nav_date > latest)) {
+        latest = record.nav_date;
+      }
+    }
+
+    if (!latest) return null;
+    const month = String(latest.getMonth() + 1).padStart(2, '0');
+    const day = String(latest.getDate()).padStart(2, '0');
+    return `${latest.getFullYear()}-${month}-${day}`;
+  }
+
+  private summarize(changes: PlannedChange[]): SchemeSyncSummary {
+    const summary: SchemeSyncSummary = {};
+    for (const change of changes) {
+      summary[change.change_type] = (summary[change.change_type] || 0) + 1;
+    }
+    return summary;
+  }
+
+  private cleanIsin(value?: string): string | null {
+    const trimmed = value?.trim();
+    return trimmed && trimmed !== '-' ? trimmed.toUpperCase() : null;
+  }
+
+  private normalize(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,670 @@
+// backend/src/services/sip.service.ts
+
+import { Pool } from 'pg';
+import { pool } from '../config/database';
+import {
+  CreateSipRequest,
+  SipException,
+  SipImportResult,
+  SipInstalment,
+  SipReconcileTransaction,
+  SipReconciliationSummary,
+  SipRegistration,
+  SipSearchParams,
+  UpdateSipRequest
+} from '../types/sip.types';
+import { SipUtil } from '../utils/sip.util';
+import { PortfolioUtil } from '../utils/portfolio.util';
+import { CapitalGainsUtil } from '../utils/capitalGains.util';
+import { JobLeaseService } from './jobLease.service';
+import { SimpleLogger } from './simpleLogger.service';
+
+// How far back each reconciliation run re-checks instalments
+const RECONCILE_LOOKBACK_MONTHS = 12;
+
+// Local hour at which the daily reconciliation job runs
+const RECONCILE_HOUR = 6;
+
+// The day's lease is left to expire rather than released, so instances whose
+// timers fire a little later find it taken and skip that day's run
+const RECONCILE_LEASE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const SIP_SELECT = `
+  SELECT s.*, c.name AS customer_name,
+         COALESCE(i.missed_count, 0)::int AS missed_count,
+         COALESCE(i.bounced_count, 0)::int AS bounced_count
+  FROM t_sip_registrations s
+  JOIN t_customers cu ON s.customer_id = cu.id
+  JOIN t_contacts c ON cu.contact_id = c.id
+  LEFT JOIN (
+    SELECT sip_id,
+           COUNT(*) FILTER (WHERE status = 'missed') AS missed_count,
+           COUNT(*) FILTER (WHERE status = 'bounced') AS bounced_count
+    FROM t_sip_instalments
+    GROUP BY sip_id
+  ) i ON i.sip_id = s.id
+`;
+
+export class SipService {
+  private db: Pool;
+  private leaseService: JobLeaseService;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.db = pool;
+    this.leaseService = new JobLeaseService();
+  }
+
+  /**
+   * List registrations with missed/bounced counts
+   */
+  async getRegistrations(tenantId: number, isLive: boolean, params: SipSearchParams = {}): Promise<SipRegistration[]> {
+    try {
+      const conditions = ['s.tenant_id = $1', 's.is_live = $2', 's.is_active = true'];
+      const values: any[] = [tenantId, isLive];
+
+      if (params.customer_id) {
+        values.push(params.customer_id);
+        conditions.push(`s.customer_id = $${values.length}`);
+      }
+      if (params.plan_type) {
+        values.push(params.plan_type);
+        conditions.push(`s.plan_type = $${values.length}`);
+      }
+      if (params.status) {
+        values.push(params.status);
+        conditions.push(`s.status = $${values.length}`);
+      }
+      if (params.scheme_code) {
+        values.push(params.scheme_code);
+        conditions.push(`s.scheme_code = $${values.length}`);
+      }
+
+      const result = await this.db.query(
+        `${SIP_SELECT}
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY c.name, s.scheme_name, s.start_date`,
+        values
+      );
+
+      return result.rows.map(row => this.mapRegistration(row));
+    } catch (error: any) {
+      console.error('Error getting SIP registrations:', error);
+      throw new Error(`Failed to get SIP registrations: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a single registration
+   */
+  async getRegistration(tenantId: number, isLive: boolean, sipId: number): Promise<SipRegistration | null> {
+    try {
+      const result = await this.db.query(
+        `${SIP_SELECT}
+         WHERE s.id = $1 AND s.tenant_id = $2 AND s.is_live = $3 AND s.is_active = true`,
+        [sipId, tenantId, isLive]
+      );
+
+      return result.rows.length > 0 ? this.mapRegistration(result.rows[0]) : null;
+    } catch (error: any) {
+      console.error('Error getting SIP registration:', error);
+      throw new Error(`Failed to get SIP registration: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a manually entered registration
+   * Returns null when the customer does not exist
+   */
+  async createRegistration(
+    tenantId: number,
+    isLive: boolean,
+    data: CreateSipRequest,
+    userId: number
+  ): Promise<SipRegistration | null> {
+    try {
+      const customer = await this.db.query(
+        `SELECT 1 FROM t_customers
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+        [data.customer_id, tenantId, isLive]
+      );
+      if (customer.rows.length === 0) return null;
+
+      const schemeName = data.scheme_name || await this.getSchemeName(data.scheme_code);
+      const targetSchemeName = data.target_scheme_code
+        ? data.target_scheme_name || await this.getSchemeName(data.target_scheme_code)
+        : null;
+
+      const result = await this.db.query(
+        `INSERT INTO t_sip_registrations (
+           tenant_id, is_live, customer_id, plan_type, scheme_code, scheme_name, folio_no,
+           target_scheme_code, target_scheme_name, amount, frequency, instalment_day,
+           registration_date, start_date, end_date, source, notes, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, 'manual', $16, $17)
+         RETURNING id`,
+        [
+          tenantId,
+          isLive,
+          data.customer_id,
+          data.plan_type || 'SIP',
+          data.scheme_code,
+          schemeName,
+          data.folio_no || null,
+          data.target_scheme_code || null,
+          targetSchemeName,
+          data.amount,
+          data.frequency || 'monthly',
+          data.instalment_day || null,
+          data.registration_date || null,
+          data.start_date,
+          data.end_date || null,
+          data.notes || null,
+          userId
+        ]
+      );
+
+      return await this.getRegistration(tenantId, isLive, result.rows[0].id);
+    } catch (error: any) {
+      console.error('Error creating SIP registration:', error);
+      if (error.code === '23505') {
+        throw new Error('A registration for this scheme, folio and start date already exists');
+      }
+      throw new Error(`Failed to create SIP registration: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update a registration
+   */
+  async updateRegistration(
+    tenantId: number,
+    isLive: boolean,
+    sipId: number,
+    data: UpdateSipRequest
+  ): Promise<SipRegistration | null> {
+    try {
+      const fields: Array<keyof UpdateSipRequest> = [
+        'plan_type', 'scheme_code', 'scheme_name', 'folio_no', 'target_scheme_code', 'target_scheme_name',
+        'amount', 'frequency', 'instalment_day', 'registration_date', 'start_date', 'end_date', 'status', 'notes'
+      ];
+      const updates: string[] = [];
+      const values: any[] = [];
+
+      fields.forEach(field => {
+        if (data[field] !== undefined) {
+          values.push(data[field] === '' ? null : data[field]);
+          updates.push(`${field} = $${values.length}`);
+        }
+      });
+
+      if (updates.length === 0) {
+        return await this.getRegistration(tenantId, isLive, sipId);
+      }
+
+      values.push(sipId, tenantId, isLive);
+      const result = await this.db.query(
+        `UPDATE t_sip_registrations
+         SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${values.length - 2} AND tenant_id = $${values.length - 1}
+           AND is_live = $${values.length} AND is_active = true
+         RETURNING id`,
+        values
+      );
+
+      if (result.rows.length === 0) return null;
+
+      // Schedule changes invalidate earlier outcomes; the next run rebuilds them
+      const scheduleFields: Array<keyof UpdateSipRequest> = ['amount', 'frequency', 'instalment_day', 'start_date', 'end_date'];
+      if (scheduleFields.some(field => data[field] !== undefined)) {
+        await this.db.query('DELETE FROM t_sip_instalments WHERE sip_id = $1', [sipId]);
+      }
+
+      return await this.getRegistration(tenantId, isLive, sipId);
+    } catch (error: any) {
+      console.error('Error updating SIP registration:', error);
+      throw new Error(`Failed to update SIP registration: ${error.message}`);
+    }
+  }
+
+  /**
+   * Soft delete a registration
+   */
+  async deleteRegistration(tenantId: number, isLive: boolean, sipId: number): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `UPDATE t_sip_registrations
+         SET is_active = false, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND tenant_id = $2 AND is_live = $3 AND is_active = true`,
+        [sipId, tenantId, isLive]
+      );
+
+      return (result.rowCount || 0) > 0;
+    } catch (error: any) {
+      console.error('Error deleting SIP registration:', error);
+      throw new Error(`Failed to delete SIP registration: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reconciled instalments for a registration, most recent first
+   */
+  async getInstalments(tenantId: number, isLive: boolean, sipId: number): Promise<SipInstalment[] | null> {
+    try {
+      const sip = await this.getRegistration(tenantId, isLive, sipId);
+      if (!sip) return null;
+
+      const result = await this.db.query(
+        `SELECT * FROM t_sip_instalments WHERE sip_id = $1 ORDER BY due_date DESC`,
+        [sipId]
+      );
+
+      return result.rows.map(row => this.mapInstalment(row));
+    } catch (error: any) {
+      console.error('Error getting SIP instalments:', error);
+      throw new Error(`Failed to get SIP instalments: ${error.message}`);
+    }
+  }
+
+  /**
+   * Active registrations whose end date falls within the next `days` days
+   */
+  async getEndingSoon(tenantId: number, isLive: boolean, days: number = 60): Promise<SipRegistration[]> {
+    try {
+      const result = await this.db.query(
+        `${SIP_SELECT}
+         WHERE s.tenant_id = $1 AND s.is_live = $2 AND s.is_active = true
+           AND s.status = 'active'
+           AND s.end_date BETWEEN CURRENT_DATE AND CURRENT_DATE + ($3 || ' days')::interval
+         ORDER BY s.end_date, c.name`,
+        [tenantId, isLive, days]
+      );
+
+      return result.rows.map(row => this.mapRegistration(row));
+    } catch (error: any) {
+      console.error('Error getting SIPs ending soon:', error);
+      throw new Error(`Failed to get SIPs ending soon: ${error.message}`);
+    }
+  }
+
+  /**
+   * Missed and bounced instalments across the tenant
+   */
+  async getExceptions(
+    tenantId: number,
+    isLive: boolean,
+    params: { customer_id?: number; days?: number } = {}
+  ): Promise<SipException[]> {
+    try {
+      const values: any[] = [tenantId, isLive, params.days || 90];
+      let customerFilter = '';
+      if (params.customer_id) {
+        values.push(params.customer_id);
+        customerFilter = `AND s.customer_id = $${values.length}`;
+      }
+
+      const result = await this.db.query(
+        `SELECT i.*, s.customer_id, c.name AS customer_name, s.plan_type, s.scheme_code,
+                s.scheme_name, s.folio_no, s.amount
+         FROM t_sip_instalments i
+         JOIN t_sip_registrations s ON i.sip_id = s.id
+         JOIN t_customers cu ON s.customer_id = cu.id
+         JOIN t_contacts c ON cu.contact_id = c.id
+         WHERE s.tenant_id = $1 AND s.is_live = $2 AND s.is_active = true
+           AND i.status IN ('missed', 'bounced')
+           AND i.due_date >= CURRENT_DATE - ($3 || ' days')::interval
+           ${customerFilter}
+         ORDER BY i.due_date DESC, c.name`,
+        values
+      );
+
+      return result.rows.map(row => ({
+        ...this.mapInstalment(row),
+        customer_id: row.customer_id,
+        customer_name: row.customer_name,
+        plan_type: row.plan_type,
+        scheme_code: row.scheme_code,
+        scheme_name: row.scheme_name,
+        folio_no: row.folio_no,
+        amount: parseFloat(row.amount)
+      }));
+    } catch (error: any) {
+      console.error('Error getting SIP exceptions:', error);
+      throw new Error(`Failed to get SIP exceptions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create registrations from an import session
+   * Transactions whose staging row carries sip_regd_date are grouped by
+   * customer, scheme, folio and registration date; the most common amount
+   * becomes the instalment and the earliest transaction sets the start.
+   */
+  async importFromSession(tenantId: number, isLive: boolean, sessionId: number, userId?: number): Promise<SipImportResult> {
+    try {
+      const result = await this.db.query(
+        `SELECT tt.customer_id, tt.scheme_code, tt.scheme_name, tt.folio_no, tt.txn_date, tt.total_amount,
+                isd.mapped_data->>'sip_regd_date' AS sip_regd_date
+         FROM t_transaction_table tt
+         JOIN t_import_staging_data isd ON tt.staging_record_id = isd.id
+         JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+         WHERE tt.import_session_id = $1 AND tt.tenant_id = $2 AND tt.is_live = $3
+           AND tt.is_active = true AND tt.customer_id IS NOT NULL
+           AND mtt.txn_type = 'Addition'
+           AND COALESCE(isd.mapped_data->>'sip_regd_date', '') <> ''
+         ORDER BY tt.txn_date`,
+        [sessionId, tenantId, isLive]
+      );
+
+      const groups = new Map<string, typeof result.rows>();
+      result.rows.forEach(row => {
+        const registrationDate = PortfolioUtil.toDateKey(row.sip_regd_date);
+        const key = `${row.customer_id}|${row.scheme_code}|${row.folio_no || ''}|${registrationDate}`;
+        if (!groups.has(key)) {
+          groups.set(key, []);
+        }
+        groups.get(key)!.push({ ...row, sip_regd_date: registrationDate });
+      });
+
+      let created = 0;
+      let skipped = 0;
+
+      for (const rows of Array.from(groups.values())) {
+        const first = rows[0];
+        const startDate = PortfolioUtil.toDateKey(first.txn_date);
+        const amount = SipUtil.modeAmount(rows.map(row => parseFloat(row.total_amount)));
+
+        const insert = await this.db.query(
+          `INSERT INTO t_sip_registrations (
+             tenant_id, is_live, customer_id, plan_type, scheme_code, scheme_name, folio_no,
+             amount, frequency, instalment_day, registration_date, start_date, source,
+             import_session_id, created_by
+           ) VALUES ($1, $2, $3, 'SIP', $4, $5, $6, $7, 'monthly', $8, $9, $10, 'import', $11, $12)
+           ON CONFLICT DO NOTHING
+           RETURNING id`,
+          [
+            tenantId,
+            isLive,
+            first.customer_id,
+            first.scheme_code,
+            first.scheme_name,
+            first.folio_no,
+            amount,
+            Number(startDate.substring(8, 10)),
+            first.sip_regd_date,
+            startDate,
+            sessionId,
+            userId || null
+          ]
+        );
+
+        if (insert.rows.length > 0) {
+          created++;
+        } else {
+          skipped++;
+        }
+      }
+
+      return { session_id: sessionId, created, skipped };
+    } catch (error: any) {
+      console.error('Error importing SIP registrations:', error);
+      throw new Error(`Failed to import SIP registrations: ${error.message}`);
+    }
+  }
+
+  /**
+   * Match expected instalments against transactions and store the outcome
+   * Registrations past their end date are marked completed.
+   */
+  async reconcile(
+    tenantId: number,
+    isLive: boolean,
+    params: { customer_id?: number; sip_id?: number } = {}
+  ): Promise<SipReconciliationSummary> {
+    const summary: SipReconciliationSummary = {
+      sips_checked: 0,
+      matched: 0,
+      missed: 0,
+      bounced: 0,
+      pending: 0,
+      completed_sips: 0
+    };
+
+    try {
+      const asOfDate = PortfolioUtil.toDateKey(new Date());
+      const fromDate = CapitalGainsUtil.addMonthsToKey(asOfDate, -RECONCILE_LOOKBACK_MONTHS);
+
+      const conditions = ['tenant_id = $1', 'is_live = $2', 'is_active = true', `status IN ('active', 'completed')`];
+      const values: any[] = [tenantId, isLive];
+      if (params.customer_id) {
+        values.push(params.customer_id);
+        conditions.push(`customer_id = $${values.length}`);
+      }
+      if (params.sip_id) {
+        values.push(params.sip_id);
+        conditions.push(`id = $${values.length}`);
+      }
+
+      const sips = await this.db.query(
+        `SELECT * FROM t_sip_registrations WHERE ${conditions.join(' AND ')}`,
+        values
+      );
+      if (sips.rows.length === 0) return summary;
+
+      const transactions = await this.loadTransactions(
+        tenantId,
+        isLive,
+        Array.from(new Set(sips.rows.map(row => row.customer_id as number))),
+        PortfolioUtil.addDaysToKey(fromDate, -7)
+      );
+
+      for (const row of sips.rows) {
+        const sip = this.mapRegistration(row);
+        const dueDates = SipUtil.getDueDates(sip, fromDate, asOfDate);
+        const sipTransactions = transactions.filter(txn =>
+          txn.customer_id === sip.customer_id &&
+          txn.scheme_code === sip.scheme_code &&
+          (!sip.folio_no || !txn.folio_no || txn.folio_no === sip.folio_no)
+        );
+        const instalments = SipUtil.reconcile(sip, dueDates, sipTransactions, asOfDate);
+
+        await this.saveInstalments(sip.id, instalments);
+        summary.sips_checked++;
+        instalments.forEach(instalment => {
+          summary[instalment.status]++;
+        });
+
+        const ended = !!sip.end_date && sip.end_date < asOfDate;
+        await this.db.query(
+          `UPDATE t_sip_registrations
+           SET last_reconciled_at = CURRENT_TIMESTAMP,
+               status = CASE WHEN $2 AND status = 'active' THEN 'completed' ELSE status END
+           WHERE id = $1`,
+          [sip.id, ended]
+        );
+        if (ended && sip.status === 'active') {
+          summary.completed_sips++;
+        }
+      }
+
+      return summary;
+    } catch (error: any) {
+      console.error('Error reconciling SIP registrations:', error);
+      throw new Error(`Failed to reconcile SIP registrations: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reconcile every tenant/environment that has active registrations
+   * Runs on one backend instance per day: the others find the day's lease taken.
+   */
+  async reconcileAll(): Promise<void> {
+    const leaseKey = `sip_reconcile:${PortfolioUtil.toDateKey(new Date())}`;
+    const lease = await this.leaseService.acquire(leaseKey, {
+      jobType: 'sip_reconcile',
+      ttlMs: RECONCILE_LEASE_TTL_MS
+    });
+
+    if (!lease) {
+      SimpleLogger.info('SipService', 'SIP reconciliation already run by another instance', 'reconcileAll', { leaseKey });
+      return;
+    }
+
+    const scopes = await this.db.query(
+      `SELECT DISTINCT tenant_id, is_live FROM t_sip_registrations
+       WHERE is_active = true AND status = 'active'`
+    );
+
+    for (const scope of scopes.rows) {
+      try {
+        const summary = await this.reconcile(scope.tenant_id, scope.is_live);
+        SimpleLogger.info('SipService', 'SIP reconciliation completed', 'reconcileAll', {
+          isLive: scope.is_live,
+          sipsChecked: summary.sips_checked,
+          missed: summary.missed,
+          bounced: summary.bounced
+        }, undefined, scope.tenant_id);
+      } catch (error: any) {
+        SimpleLogger.error('SipService', 'SIP reconciliation failed', 'reconcileAll', {
+          isLive: scope.is_live,
+          error: error.message
+        }, undefined, scope.tenant_id, error.stack);
+      }
+    }
+  }
+
+  /**
+   * Start the daily reconciliation job (built-in timers, same as the NAV scheduler)
+   */
+  startScheduler(): void {
+    if (this.reconcileTimer) return;
+
+    const scheduleNext = () => {
+      const now = new Date();
+      const next = new Date(now);
+      next.setHours(RECONCILE_HOUR, 0, 0, 0);
+      if (next <= now) {
+        next.setDate(next.getDate() + 1);
+      }
+
+      this.reconcileTimer = setTimeout(async () => {
+        try {
+          await this.reconcileAll();
+        } catch (error: any) {
+          SimpleLogger.error('SipService', 'SIP reconciliation job failed', 'startScheduler', {
+            error: error.message
+          }, undefined, undefined, error.stack);
+        } finally {
+          scheduleNext();
+        }
+      }, next.getTime() - now.getTime());
+    };
+
+    scheduleNext();
+  }
+
+  /**
+   * Stop the daily reconciliation job
+   */
+  shutdownScheduler(): void {
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async loadTransactions(
+    tenantId: number,
+    isLive: boolean,
+    customerIds: number[],
+    fromDate: string
+  ): Promise<SipReconcileTransaction[]> {
+    const result = await this.db.query(
+      `SELECT tt.id, tt.customer_id, tt.scheme_code, tt.folio_no, tt.txn_date,
+              mtt.txn_type, mtt.txn_code, mtt.txn_name, tt.total_amount
+       FROM t_transaction_table tt
+       JOIN m_transaction_types mtt ON tt.txn_type_id = mtt.id
+       WHERE tt.tenant_id = $1 AND tt.is_live = $2 AND tt.is_active = true
+         AND tt.customer_id = ANY($3::int[]) AND tt.txn_date >= $4
+       ORDER BY tt.txn_date`,
+      [tenantId, isLive, customerIds, fromDate]
+    );
+
+    return result.rows;
+  }
+
+  private async saveInstalments(sipId: number, instalments: SipInstalment[]): Promise<void> {
+    for (const instalment of instalments) {
+      await this.db.query(
+        `INSERT INTO t_sip_instalments (
+           sip_id, due_date, status, transaction_id, reversal_transaction_id, matched_amount, reconciled_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+         ON CONFLICT (sip_id, due_date) DO UPDATE SET
+           status = EXCLUDED.status,
+           transaction_id = EXCLUDED.transaction_id,
+           reversal_transaction_id = EXCLUDED.reversal_transaction_id,
+           matched_amount = EXCLUDED.matched_amount,
+           reconciled_at = CURRENT_TIMESTAMP`,
+        [
+          sipId,
+          instalment.due_date,
+          instalment.status,
+          instalment.transaction_id || null,
+          instalment.reversal_transaction_id || null,
+          instalment.matched_amount ?? null
+        ]
+      );
+    }
+  }
+
+  private async getSchemeName(schemeCode: string): Promise<string | null> {
+    const result = await this.db.query(
+      'SELECT scheme_name FROM t_scheme_details WHERE scheme_code = $1',
+      [schemeCode]
+    );
+    return result.rows.length > 0 ? result.rows[0].scheme_name : null;
+  }
+
+  private mapRegistration(row: any): SipRegistration {
+    return {
+      id: row.id,
+      customer_id: row.customer_id,
+      customer_name: row.customer_name,
+      plan_type: row.plan_type,
+      scheme_code: row.scheme_code,
+      scheme_name: row.scheme_name,
+      folio_no: row.folio_no,
+      target_scheme_code: row.target_scheme_code,
+      target_scheme_name: row.target_scheme_name,
+      amount: parseFloat(row.amount),
+      frequency: row.frequency,
+      instalment_day: row.instalment_day,
+      registration_date: row.registration_date ? PortfolioUtil.toDateKey(row.registration_date) : undefined,
+      start_date: PortfolioUtil.toDateKey(row.start_date),
+      end_date: row.end_date ? PortfolioUtil.toDateKey(row.end_date) : undefined,
+      status: row.status,
+      source: row.source,
+      import_session_id: row.import_session_id,
+      notes: row.notes,
+      last_reconciled_at: row.last_reconciled_at,
+      missed_count: row.missed_count,
+      bounced_count: row.bounced_count,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private mapInstalment(row: any): SipInstalment {
+    return {
+      id: row.id,
+      sip_id: row.sip_id,
+      due_date: PortfolioUtil.toDateKey(row.due_date),
+      status: row.status,
+      transaction_id: row.transaction_id,
+      reversal_transaction_id: row.reversal_transaction_id,
+      matched_amount: row.matched_amount !== null ? parseFloat(row.matched_amount) : undefined,
+      reconciled_at: row.reconciled_at
+    };
+  }
+}
@@ -80,6 +80,14 @@ export class StagingService {
       const fileRows = parsedFile.rows;
       console.log(`[StagingService] Found ${fileRows.length} rows in file`);
 
+      // Customers created outside the API (e.g. the SQL import processor) have no blind index yet
+      if (params.importType === 'TransactionData') {
+        const indexed = await this.customerLookup.backfillBlindIndexes(params.tenantId, params.isLive);
+        if (indexed > 0) {
+          console.log(`[StagingService] Indexed ${indexed} customers for IWELL lookup`);
+        }
+      }
+
       // Process in batches
       for (let i = 0; i < fileRows.length; i += this.BATCH_SIZE) {
         const chunk = fileRows.slice(i, i + this.BATCH_SIZE);
@@ -143,20 +151,39 @@ export class StagingService {
     const placeholders: string[] = [];
     let paramIndex = 1;
 
+    const mappedRows: Array<{ row: Record<string, any>; rowNumber: number; mappedData: Record<string, any> }> = [];
+
     for (let idx = 0; idx < chunk.length; idx++) {
       const row = chunk[idx];
       const rowNumber = startRowNumber + idx + 1;
-      
+
       try {
-        const mappedData = this.applyFieldMappings(row, params.mappings);
-        
-        // Add customer_id lookup for transaction imports
+        mappedRows.push({ row, rowNumber, mappedData: this.applyFieldMappings(row, params.mappings) });
+      } catch (error: any) {
+        errors.push({
+          row: rowNumber,
+          error: error.message
+        });
+      }
+    }
+
+    // Resolve customer_id for the whole chunk in one query (transaction imports)
+    let customerIds = new Map<string, number>();
+    if (params.importType === 'TransactionData') {
+      customerIds = await this.customerLookup.resolveCustomersByIwellCodes(
+        mappedRows
+          .map(({ mappedData }) => mappedData.iwell_code)
+          .filter((code): code is string => !!code),
+        params.tenantId,
+        params.isLive
+      );
+    }
+
+    for (const { row, rowNumber, mappedData } of mappedRows) {
+      try {
+        // Add customer_id for transaction imports
         if (params.importType === 'TransactionData' && mappedData.iwell_code) {
-          const customerId = await this.customerLookup.findCustomerByIwellCode(
-            mappedData.iwell_code,
-            params.tenantId,
-            params.isLive
-          );
+          const customerId = customerIds.get(String(mappedData.iwell_code).trim().toUpperCase());
           if (customerId) {
             mappedData.customer_id = customerId;
             console.log(`[StagingService] Customer ${customerId} found for IWELL: ${mappedData.iwell_code.substring(0, 3)}***`);
@@ -561,7 +588,8 @@ export class StagingService {
 
   async getNextBatch(
     sessionId: number,
-    batchSize: number = 100
+    batchSize: number = 100,
+    client?: PoolClient
   ): Promise<StagingRecord[]> {
     try {
       const query = `
@@ -572,7 +600,8 @@ export class StagingService {
         FOR UPDATE SKIP LOCKED
       `;
 
-      const result = await this.db.query(query, [sessionId, batchSize]);
+      // Row locks only outlive this call when a transaction client is passed in
+      const result = await (client || this.db).query(query, [sessionId, batchSize]);
       return result.rows;
 
     } catch (error: any) {
@@ -581,7 +610,7 @@ export class StagingService {
     }
   }
 
-  async markRecordsAsProcessing(recordIds: number[]): Promise<void> {
+  async markRecordsAsProcessing(recordIds: number[], client?: PoolClient): Promise<void> {
     if (recordIds.length === 0) return;
 
     try {
@@ -591,7 +620,7 @@ export class StagingService {
         WHERE id = ANY($1)
       `;
 
-      await this.db.query(query, [recordIds]);
+      await (client || this.db).query(query, [recordIds]);
 
     } catch (error: any) {
       console.error('Error marking records as processing:', error);
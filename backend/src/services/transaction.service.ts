@@ -1,6 +1,6 @@
 // backend/src/services/transaction.service.ts
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { pool } from '../config/database';
 import {
   Transaction,
@@ -157,75 +157,11 @@ export class TransactionService {
     try {
       await client.query('BEGIN');
 
-      // Validate transaction data
-      const validation = TransactionUtil.validateTransaction(data);
-      if (!validation.is_valid) {
-        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-      }
-
-      // Check for duplicates
-      const duplicateCheck = await this.checkDuplicate(
-        tenantId,
-        isLive,
-        {
-          customer_id: data.customer_id,
-          scheme_code: data.scheme_code,
-          txn_date: data.txn_date,
-          total_amount: data.total_amount,
-          txn_type_id: data.txn_type_id
-        },
-        client
-      );
-
-      // Create/update portfolio entry
-      await this.upsertPortfolioEntry(
-        tenantId,
-        isLive,
-        {
-          customer_id: data.customer_id,
-          scheme_code: data.scheme_code,
-          scheme_name: data.scheme_name,
-          folio_no: data.folio_no
-        },
-        client
-      );
-
-      // Insert transaction
-      const insertQuery = `
-        INSERT INTO t_transaction_table (
-          tenant_id, is_live, customer_id, scheme_code, scheme_name, folio_no,
-          txn_type_id, txn_date, total_amount, units, nav, stamp_duty,
-          staging_record_id, import_session_id,
-          is_potential_duplicate, portfolio_flag, duplicate_reason
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-        RETURNING *
-      `;
-
-      const insertParams = [
-        tenantId,
-        isLive,
-        data.customer_id,
-        TransactionUtil.sanitizeSchemeCode(data.scheme_code),
-        data.scheme_name,
-        data.folio_no ? TransactionUtil.sanitizeFolioNumber(data.folio_no) : null,
-        data.txn_type_id,
-        data.txn_date,
-        TransactionUtil.formatAmount(data.total_amount),
-        TransactionUtil.formatUnits(data.units),
-        TransactionUtil.formatNAV(data.nav),
-        data.stamp_duty ? TransactionUtil.formatAmount(data.stamp_duty) : null,
-        data.staging_record_id || null,
-        data.import_session_id || null,
-        duplicateCheck.is_duplicate,
-        true,
-        duplicateCheck.is_duplicate ? TransactionUtil.generateDuplicateReason(duplicateCheck.count) : null
-      ];
-
-      const result = await client.query(insertQuery, insertParams);
+      const transaction = await this.createTransactionWithClient(client, tenantId, isLive, data);
 
       await client.query('COMMIT');
 
-      return result.rows[0];
+      return transaction;
     } catch (error: any) {
       await client.query('ROLLBACK');
       console.error('Error creating transaction:', error);
@@ -235,6 +171,84 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Create transaction inside the caller's database transaction (used by the import processor)
+   */
+  async createTransactionWithClient(
+    client: PoolClient,
+    tenantId: number,
+    isLive: boolean,
+    data: CreateTransactionRequest
+  ): Promise<Transaction> {
+    // Validate transaction data
+    const validation = TransactionUtil.validateTransaction(data);
+    if (!validation.is_valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    // Check for duplicates
+    const duplicateCheck = await this.checkDuplicate(
+      tenantId,
+      isLive,
+      {
+        customer_id: data.customer_id,
+        scheme_code: data.scheme_code,
+        txn_date: data.txn_date,
+        total_amount: data.total_amount,
+        txn_type_id: data.txn_type_id
+      },
+      client
+    );
+
+    // Create/update portfolio entry
+    await this.upsertPortfolioEntry(
+      tenantId,
+      isLive,
+      {
+        customer_id: data.customer_id,
+        scheme_code: data.scheme_code,
+        scheme_name: data.scheme_name,
+        folio_no: data.folio_no
+      },
+      client
+    );
+
+    // Insert transaction
+    const insertQuery = `
+      INSERT INTO t_transaction_table (
+        tenant_id, is_live, customer_id, scheme_code, scheme_name, folio_no,
+        txn_type_id, txn_date, total_amount, units, nav, stamp_duty,
+        staging_record_id, import_session_id,
+        is_potential_duplicate, portfolio_flag, duplicate_reason
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      RETURNING *
+    `;
+
+    const insertParams = [
+      tenantId,
+      isLive,
+      data.customer_id,
+      TransactionUtil.sanitizeSchemeCode(data.scheme_code),
+      data.scheme_name,
+      data.folio_no ? TransactionUtil.sanitizeFolioNumber(data.folio_no) : null,
+      data.txn_type_id,
+      data.txn_date,
+      TransactionUtil.formatAmount(data.total_amount),
+      TransactionUtil.formatUnits(data.units),
+      TransactionUtil.formatNAV(data.nav),
+      data.stamp_duty ? TransactionUtil.formatAmount(data.stamp_duty) : null,
+      data.staging_record_id || null,
+      data.import_session_id || null,
+      duplicateCheck.is_duplicate,
+      true,
+      duplicateCheck.is_duplicate ? TransactionUtil.generateDuplicateReason(duplicateCheck.count) : null
+    ];
+
+    const result = await client.query(insertQuery, insertParams);
+
+    return result.rows[0];
+  }
+
   /**
    * Update transaction
    */
@@ -487,7 +501,7 @@ export class TransactionService {
   /**
    * Check for duplicate transaction
    */
-  private async checkDuplicate(
+  async checkDuplicate(
     tenantId: number,
     isLive: boolean,
     data: {
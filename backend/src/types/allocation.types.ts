@@ -0,0 +1,109 @@
+// backend/src/types/allocation.types.ts
+
+export type AllocationClass = 'equity' | 'debt' | 'hybrid' | 'other';
+
+export interface AllocationTarget {
+  target: number;
+  band: number;
+}
+
+export interface AllocationModel {
+  id: number;
+  customer_id?: number | null;
+  name: string;
+  description?: string;
+  targets: Record<AllocationClass, AllocationTarget>;
+  preferred_schemes?: Partial<Record<AllocationClass, string>>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveAllocationModelRequest {
+  name: string;
+  description?: string;
+  targets: Partial<Record<AllocationClass, Partial<AllocationTarget>>>;
+  preferred_schemes?: Partial<Record<AllocationClass, string>>;
+}
+
+export interface AssignAllocationModelRequest {
+  model_id?: number;
+  model?: SaveAllocationModelRequest;
+}
+
+export interface ExitLoadTerms {
+  percentage: number;
+  days: number;
+}
+
+export interface RebalanceLot {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  fund_name?: string;
+  allocation_class: AllocationClass;
+  purchase_date: string;
+  units: number;
+  nav: number;
+  value: number;
+  gain_per_unit: number;
+  term: 'short_term' | 'long_term';
+  exit_load: ExitLoadTerms;
+}
+
+export interface RebalanceHolding {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  fund_name?: string;
+  allocation_class: AllocationClass;
+  current_value: number;
+  latest_nav: number;
+}
+
+export interface AllocationComparison {
+  asset_class: AllocationClass;
+  current_value: number;
+  current_percentage: number;
+  target_percentage: number;
+  band: number;
+  drift: number;
+  out_of_band: boolean;
+  target_value: number;
+  difference: number;
+}
+
+export interface RebalanceTrade {
+  trade_type: 'switch' | 'redeem_and_purchase';
+  from_scheme_code: string;
+  from_scheme_name: string;
+  from_folio_no?: string;
+  from_asset_class: AllocationClass;
+  to_scheme_code: string | null;
+  to_scheme_name: string;
+  to_asset_class: AllocationClass;
+  units: number;
+  amount: number;
+  short_term_gain: number;
+  long_term_gain: number;
+  exit_load: number;
+}
+
+export interface RebalanceSummary {
+  total_trade_amount: number;
+  realised_short_term_gain: number;
+  realised_long_term_gain: number;
+  estimated_exit_load: number;
+}
+
+export interface RebalanceProposal {
+  customer_id: number;
+  customer_name?: string;
+  as_of_date: string;
+  model: AllocationModel | null;
+  total_value: number;
+  in_balance: boolean;
+  allocation: AllocationComparison[];
+  trades: RebalanceTrade[];
+  summary: RebalanceSummary;
+  warnings: string[];
+}
@@ -0,0 +1,170 @@
+// backend/src/types/capitalGains.types.ts
+
+export type AssetClass = 'equity' | 'debt' | 'other';
+
+export type GainTerm = 'short_term' | 'long_term';
+
+export interface LotTransaction {
+  id: number;
+  customer_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  category?: string;
+  sub_category?: string;
+  txn_date: Date | string;
+  txn_type: 'Addition' | 'Deduction';
+  total_amount: number | string;
+  units: number | string;
+  nav: number | string;
+}
+
+export interface PurchaseLot {
+  purchase_txn_id: number;
+  customer_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  asset_class: AssetClass;
+  purchase_date: string;
+  purchase_nav: number;
+  original_units: number;
+  remaining_units: number;
+  cost_per_unit: number;
+  fmv_31jan2018?: number;
+}
+
+export interface RealisedGainEntry {
+  purchase_txn_id: number;
+  sale_txn_id: number;
+  customer_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  asset_class: AssetClass;
+  purchase_date: string;
+  sale_date: string;
+  units: number;
+  purchase_nav: number;
+  sale_nav: number;
+  purchase_value: number;
+  fmv_31jan2018?: number;
+  cost_of_acquisition: number;
+  sale_value: number;
+  gain: number;
+  holding_days: number;
+  term: GainTerm;
+  grandfathered: boolean;
+}
+
+export interface FifoMatchResult {
+  realised: RealisedGainEntry[];
+  open_lots: PurchaseLot[];
+  warnings: string[];
+}
+
+export interface CapitalGainsSummaryBucket {
+  short_term_gain: number;
+  long_term_gain: number;
+  sale_value: number;
+  cost_of_acquisition: number;
+}
+
+export interface CapitalGainsSummary extends CapitalGainsSummaryBucket {
+  total_gain: number;
+  by_asset_class: Record<AssetClass, CapitalGainsSummaryBucket>;
+}
+
+export interface CapitalGainsReport {
+  customer_id: number;
+  customer_name?: string;
+  financial_year: string;
+  from_date: string;
+  to_date: string;
+  summary: CapitalGainsSummary;
+  entries: RealisedGainEntry[];
+  warnings: string[];
+}
+
+export type CapitalGainsExportFormat = 'json' | 'csv' | 'xlsx';
+
+export interface UnrealisedLot extends PurchaseLot {
+  units_ahead_in_fifo: number;
+  cost_value: number;
+  cost_of_acquisition: number;
+  latest_nav: number;
+  latest_nav_date?: string;
+  current_value: number;
+  unrealised_gain: number;
+  holding_days: number;
+  term: GainTerm;
+  long_term_date: string | null;
+  days_to_long_term: number | null;
+  grandfathered: boolean;
+}
+
+export interface UnrealisedGainsTotals {
+  cost_value: number;
+  current_value: number;
+  unrealised_gain: number;
+  short_term_gain: number;
+  long_term_gain: number;
+}
+
+export interface HoldingUnrealisedGains extends UnrealisedGainsTotals {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  asset_class: AssetClass;
+  total_units: number;
+  latest_nav: number;
+  latest_nav_date?: string;
+  next_long_term_date: string | null;
+  lots: UnrealisedLot[];
+}
+
+export interface UnrealisedGainsReport {
+  customer_id: number;
+  customer_name?: string;
+  as_of_date: string;
+  summary: UnrealisedGainsTotals;
+  holdings: HoldingUnrealisedGains[];
+  warnings: string[];
+}
+
+export interface HarvestRedemption {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  units: number;
+  estimated_value: number;
+  estimated_gain: number;
+}
+
+export interface LtcgHarvestCandidate {
+  customer_id: number;
+  customer_name?: string;
+  realised_equity_ltcg: number;
+  remaining_exemption: number;
+  unrealised_equity_ltcg: number;
+  harvestable_gain: number;
+  redemptions: HarvestRedemption[];
+}
+
+export interface LossHarvestCandidate {
+  customer_id: number;
+  customer_name?: string;
+  realised_short_term_gain: number;
+  realised_long_term_gain: number;
+  unrealised_loss: number;
+  lots: UnrealisedLot[];
+}
+
+export interface TaxHarvestingReport {
+  financial_year: string;
+  as_of_date: string;
+  ltcg_exemption_limit: number;
+  ltcg_candidates: LtcgHarvestCandidate[];
+  loss_candidates: LossHarvestCandidate[];
+  warnings: string[];
+}
@@ -144,8 +144,8 @@ export interface CustomerListResponse {
 
 export interface CustomerSearchParams {
   search?: string;
-  pan?: string; // Will search encrypted
-  iwell_code?: string; // Will search encrypted
+  pan?: string; // Exact match via pan_bidx
+  iwell_code?: string; // Exact match via iwell_code_bidx
   survival_status?: 'alive' | 'deceased';
   onboarding_status?: string;
   has_address?: boolean;
@@ -0,0 +1,35 @@
+// backend/src/types/encryption.types.ts
+
+export type ReEncryptionJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReEncryptionJob {
+  id: number;
+  tenant_id: number;
+  is_live: boolean;
+  target_key_id: string;
+  status: ReEncryptionJobStatus;
+  last_customer_id: number;
+  total_records: number;
+  processed_records: number;
+  reencrypted_records: number;
+  failed_records: number;
+  progress_percentage: number;
+  error_message: string | null;
+  started_by: number | null;
+  started_at: Date;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+export interface EncryptionKeyUsage {
+  key_id: string; // keyring id, 'legacy' (iv:hex), 'digest' (SQL import SHA-256) or 'plaintext'
+  value_count: number;
+}
+
+export interface EncryptionStatus {
+  active_key_id: string;
+  key_ids: string[];
+  key_usage: EncryptionKeyUsage[];
+  pending_records: number; // customers with a value not on the active key
+  latest_job: ReEncryptionJob | null;
+}
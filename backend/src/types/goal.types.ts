@@ -0,0 +1,81 @@
+// backend/src/types/goal.types.ts
+
+export type GoalType =
+  | 'retirement'
+  | 'education'
+  | 'wealth-creation'
+  | 'tax-planning'
+  | 'emergency-fund'
+  | 'property'
+  | 'marriage'
+  | 'travel'
+  | 'healthcare';
+
+export interface GoalHoldingLink {
+  id?: number;
+  scheme_code: string;
+  folio_no?: string | null;
+  allocation_percentage?: number;
+  scheme_name?: string;
+  current_value?: number;
+}
+
+export interface GoalProgress {
+  current_value: number;
+  progress_percentage: number;
+  months_remaining: number;
+  years_remaining: number;
+  required_monthly_sip: number;
+  projected_value: number;
+  shortfall: number;
+  on_track: boolean;
+}
+
+export interface CustomerGoal {
+  id: number;
+  customer_id: number;
+  goal_type: GoalType;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  expected_return: number;
+  monthly_contribution: number;
+  priority: number;
+  notes?: string;
+  holdings: GoalHoldingLink[];
+  progress: GoalProgress;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateGoalRequest {
+  goal_type: GoalType;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  expected_return?: number;
+  monthly_contribution?: number;
+  priority?: number;
+  notes?: string;
+  holdings?: GoalHoldingLink[];
+}
+
+export interface UpdateGoalRequest extends Partial<CreateGoalRequest> {}
+
+export interface GoalProjectionPoint {
+  date: string;
+  projected_value: number;
+  required_path_value: number;
+  contributions: number;
+}
+
+export interface GoalProjection {
+  goal_id: number;
+  customer_id: number;
+  target_amount: number;
+  target_date: string;
+  expected_return: number;
+  monthly_contribution: number;
+  progress: GoalProgress;
+  series: GoalProjectionPoint[];
+}
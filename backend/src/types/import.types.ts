@@ -2,7 +2,7 @@
 
 export type FileImportType = 'CustomerData' | 'TransactionData' | 'SchemeData';;
 
-export type ImportStatus = 'pending' | 'staged' | 'processing' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+export type ImportStatus = 'pending' | 'staged' | 'processing' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled' | 'rolled_back';
 
 export type RecordStatus = 'success' | 'failed' | 'duplicate' | 'skipped';
 
@@ -57,6 +57,8 @@ export interface ImportSession {
   processing_started_at?: Date;
   processing_completed_at?: Date;
   error_summary?: string;
+  rolled_back_at?: Date;
+  rolled_back_by?: number;
   created_by: number;
   created_at: Date;
   updated_at: Date;
@@ -261,4 +263,134 @@ export interface ValidationWarning {
   field: string;
   message: string;
   rowNumber?: number;
-}
\ No newline at end of file
+}
+// Node import processor interfaces
+export type ImportEngine = 'database' | 'node';
+
+// What processing a staged row does (or would do, in a dry run)
+export type ImportRecordAction = 'create' | 'update' | 'duplicate' | 'invalid';
+
+export interface ImportFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface CustomerImportDraft {
+  prefix: string;
+  name: string;
+  email: string | null;
+  mobile: string | null;
+  pan: string | null;
+  iwell_code: string | null;
+  date_of_birth: string | null;
+  anniversary_date: string | null;
+  family_head_name: string | null;
+  family_head_iwell_code: string | null;
+  referred_by_name: string | null;
+  address: {
+    address_type: 'residential' | 'office' | 'mailing' | 'permanent' | 'temporary' | 'other';
+    address_line1: string;
+    address_line2: string | null;
+    city: string;
+    state: string;
+    country: string;
+    pincode: string;
+  } | null;
+}
+
+// Current values of an existing customer, in the same shape as the draft fields they are compared with
+export interface CustomerImportSnapshot {
+  customer_id: number;
+  contact_id: number;
+  name: string;
+  pan: string | null;
+  iwell_code: string | null;
+  date_of_birth: string | null;
+  anniversary_date: string | null;
+  family_head_name: string | null;
+  family_head_iwell_code: string | null;
+  referred_by_name: string | null;
+}
+
+export interface TransactionImportDraft {
+  customer_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  folio_no: string | null;
+  txn_type_id: number;
+  txn_date: string;
+  total_amount: number;
+  units: number;
+  nav: number;
+  stamp_duty: number | null;
+}
+
+export interface ImportRecordPlan {
+  staging_id: number;
+  row_number: number;
+  record_type: 'customer' | 'transaction';
+  action: ImportRecordAction;
+  target_id: number | null; // existing customer for updates/duplicates
+  changes: ImportFieldChange[];
+  errors: string[];
+  warnings: string[];
+  customer?: CustomerImportDraft;
+  transaction?: TransactionImportDraft;
+}
+
+export interface ImportProcessorResult {
+  sessionId: number;
+  status: ImportStatus;
+  processed: number;
+  successful: number;
+  failed: number;
+  duplicates: number;
+  skipped: number;
+  batches: number;
+  cancelled: boolean;
+  durationMs: number;
+}
+
+// Dry-run preview of a staged session
+export interface ImportPreviewRow {
+  row_number: number;
+  action: ImportRecordAction;
+  label: string;
+  target_id: number | null;
+  changes: ImportFieldChange[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  sessionId: number;
+  importType: string;
+  summary: Record<ImportRecordAction, number> & { total: number };
+  rows: ImportPreviewRow[];
+  truncated: boolean;
+}
+
+// Session rollback
+export type ImportChangeEntity = 'customer' | 'contact' | 'scheme';
+
+// What rolling back a session would touch (also returned once it has run)
+export interface ImportRollbackImpact {
+  sessionId: number;
+  transactions: number;
+  // SIP/STP/SWP plans registered from the session's transactions (SipService.importFromSession)
+  sip_registrations: number;
+  customers: number;
+  contacts: number;
+  addresses: number;
+  schemes: number;
+  restored_updates: number;
+  // Customers the session created that now have transactions from elsewhere; they are left in place
+  kept_customers: number;
+  // Updates made by the SQL import functions, which record no before-image
+  unrestorable_updates: number;
+}
+
+export interface ImportRollbackResult extends ImportRollbackImpact {
+  portfolio_refreshed: boolean;
+}
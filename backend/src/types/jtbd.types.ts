@@ -0,0 +1,116 @@
+// backend/src/types/jtbd.types.ts
+
+import { PortfolioTotals } from './portfolio.types';
+import { AssetClass } from './capitalGains.types';
+
+export type JTBDPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export type JTBDActionType =
+  | 'rebalancing'
+  | 'tax-saving'
+  | 'goal-based'
+  | 'risk-management'
+  | 'opportunity'
+  | 'compliance'
+  | 'review';
+
+export type JTBDActionStatus = 'open' | 'snoozed' | 'dismissed' | 'completed' | 'resolved';
+
+export interface JTBDActionButton {
+  label: string;
+  action: string;
+  enabled?: boolean;
+}
+
+// Persisted action, shaped like the frontend JTBDAction
+export interface JTBDAction {
+  id: string;
+  customerId: number;
+  ruleCode: string;
+  priority: JTBDPriority;
+  type: JTBDActionType;
+  title: string;
+  description: string;
+  impact?: string;
+  deadline?: string;
+  estimatedValue?: number;
+  actionButton?: JTBDActionButton;
+  metadata?: Record<string, any>;
+  status: JTBDActionStatus;
+  snoozedUntil?: string;
+  statusReason?: string;
+  completed: boolean;
+  completedDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Action emitted by a rule before persistence
+export interface JTBDActionCandidate {
+  action_key: string;
+  priority: JTBDPriority;
+  type: JTBDActionType;
+  title: string;
+  description: string;
+  impact?: string;
+  deadline?: string;
+  estimated_value?: number;
+  action_button?: JTBDActionButton;
+  metadata?: Record<string, any>;
+}
+
+export interface JTBDCustomerProfile {
+  customer_id: number;
+  name: string;
+  date_of_birth?: Date | string | null;
+  anniversary_date?: Date | string | null;
+  survival_status?: string;
+}
+
+export interface JTBDTransaction {
+  id: number;
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  txn_date: Date | string;
+  txn_type: 'Addition' | 'Deduction';
+  total_amount: number | string;
+}
+
+export interface JTBDRuleContext {
+  tenant_id: number;
+  is_live: boolean;
+  as_of_date: string;
+  customer: JTBDCustomerProfile;
+  holdings: PortfolioTotals[];
+  transactions: JTBDTransaction[];
+  target_allocation?: Record<AssetClass, number>;
+}
+
+export interface JTBDRule {
+  code: string;
+  name: string;
+  evaluate(context: JTBDRuleContext): JTBDActionCandidate[] | Promise<JTBDActionCandidate[]>;
+}
+
+export interface JTBDEvaluationResult {
+  customer_id: number;
+  evaluated_at: string;
+  created: number;
+  updated: number;
+  resolved: number;
+  reopened: number;
+  actions: JTBDAction[];
+  rule_errors: Array<{ rule: string; error: string }>;
+}
+
+export interface JTBDActionQuery {
+  status?: JTBDActionStatus | 'all';
+  refresh?: boolean;
+}
+
+export interface SnoozeActionRequest {
+  until?: string;
+  days?: number;
+  reason?: string;
+}
@@ -133,7 +133,7 @@ export interface CreateNavDataRequest {
 export interface NavDownloadJob {
   id: number;
   tenant_id: number;
-  job_type: 'daily' | 'historical' | 'weekly';
+  job_type: DownloadJobType;
   scheme_ids: number[];
   scheduled_date: Date;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -164,7 +164,7 @@ export interface NavDownloadJobResult {
 }
 
 export interface CreateNavDownloadJobRequest {
-  job_type: 'daily' | 'historical' | 'weekly';
+  job_type: DownloadJobType;
   scheme_ids: number[];
   scheduled_date?: Date;
   start_date?: Date;
@@ -173,7 +173,7 @@ export interface CreateNavDownloadJobRequest {
 
 export interface NavDownloadJobSearchParams {
   status?: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-  job_type?: 'daily' | 'historical' | 'weekly';
+  job_type?: DownloadJobType;
   page?: number;
   page_size?: number;
   date_from?: Date;
@@ -218,6 +218,123 @@ export interface ParsedNavRecord {
   nav_date: Date | null;
   isin_div_payout_growth?: string;
   isin_div_reinvestment?: string;
+  // Section headers of the AMFI file (or CSV columns), used by the scheme master sync
+  amc_name?: string;
+  scheme_type?: string;       // e.g. "Open Ended Schemes"
+  scheme_category?: string;   // e.g. "Debt Scheme - Banking and PSU Fund"
+}
+
+// ==================== NAV DATA PROVIDER TYPES ====================
+
+export type NavProviderName = 'amfi' | 'mfapi' | 'local';
+
+// daily = latest NAV for all schemes, history = date range for one scheme
+export type NavProviderCapability = 'daily' | 'history';
+
+export interface NavProviderSettings {
+  tenant_id: number;
+  is_live: boolean;
+  providers: NavProviderName[];      // tried in order, falling back on failure
+  local_directory: string | null;    // null = NAV_LOCAL_DIR or UserFiles/nav
+  updated_at: Date | null;           // null = defaults, never saved
+}
+
+export interface UpdateNavProviderSettingsRequest {
+  providers: NavProviderName[];
+  local_directory?: string | null;
+}
+
+export interface NavProviderInfo {
+  name: NavProviderName;
+  description: string;
+  capabilities: NavProviderCapability[];
+}
+
+// ==================== SCHEME MASTER SYNC TYPES ====================
+
+export type SchemeSyncMode = 'off' | 'review' | 'auto';
+
+export type SchemeSyncRunStatus = 'pending_approval' | 'applied' | 'rejected' | 'superseded' | 'no_changes' | 'failed';
+
+export type SchemeSyncChangeType =
+  | 'master_added'    // scheme type/category section not yet in t_scheme_masters
+  | 'added'           // scheme code not in t_scheme_details
+  | 'renamed'
+  | 'isin_changed'
+  | 'reclassified'    // AMC, scheme type or category changed
+  | 'closed'          // missing from the AMFI file
+  | 'reopened';       // closed or deactivated scheme is back in the file
+
+export type SchemeSyncChangeStatus = 'pending' | 'applied' | 'rejected' | 'skipped';
+
+export interface SchemeSyncSettings {
+  tenant_id: number;
+  is_live: boolean;
+  mode: SchemeSyncMode;
+  detect_closures: boolean;
+  updated_at: Date | null;    // null = defaults, never saved
+}
+
+export interface SchemeSyncValues {
+  scheme_name?: string;
+  amc_name?: string | null;
+  scheme_type?: string | null;
+  scheme_category?: string | null;
+  isin_growth?: string | null;
+  isin_div_payout?: string | null;
+  isin_div_reinvestment?: string | null;
+  closure_date?: string | null;
+  is_active?: boolean;
+  master_type?: 'scheme_type' | 'scheme_category';
+  name?: string;
+}
+
+export interface SchemeSyncChange {
+  id: number;
+  run_id: number;
+  change_type: SchemeSyncChangeType;
+  scheme_code: string | null;
+  scheme_id: number | null;
+  before_values: SchemeSyncValues | null;
+  after_values: SchemeSyncValues | null;
+  status: SchemeSyncChangeStatus;
+  error_details: string | null;
+  applied_at: Date | null;
+}
+
+export type SchemeSyncSummary = Partial<Record<SchemeSyncChangeType, number>>;
+
+export interface SchemeSyncRun {
+  id: number;
+  tenant_id: number;
+  is_live: boolean;
+  status: SchemeSyncRunStatus;
+  trigger_source: 'daily_ingest' | 'manual';
+  provider: NavProviderName | null;
+  file_date: string | null;
+  schemes_in_file: number;
+  summary: SchemeSyncSummary;
+  error_details: string | null;
+  created_by: number | null;
+  reviewed_by: number | null;
+  reviewed_at: Date | null;
+  applied_at: Date | null;
+  created_at: Date;
+}
+
+export interface SchemeSyncRunDetail extends SchemeSyncRun {
+  changes: SchemeSyncChange[];
+  total_changes: number;      // matching the change filters, for paging
+  page: number;
+  page_size: number;
+}
+
+export interface SchemeSyncApplyResult {
+  run_id: number;
+  applied: number;
+  skipped: number;
+  rejected: number;
+  skipped_changes: Array<{ change_id: number; scheme_code: string | null; error: string }>;
 }
 
 // ==================== N8N INTEGRATION TYPES ====================
@@ -269,6 +386,202 @@ export interface SchemeNavSummary {
   daily_download_enabled: boolean;
 }
 
+// ==================== DATA QUALITY TYPES ====================
+
+export type NavQualityIssue = 'gap' | 'spike' | 'stale';
+
+export interface NavQualityParams {
+  lookback_days: number;        // window scanned for gaps and spikes
+  spike_threshold_pct: number;  // absolute day-over-day move that counts as a spike
+  stale_after_days: number;     // latest NAV older than this many calendar days is stale
+  exchange: 'NSE' | 'BSE';      // holiday calendar used for business days
+}
+
+export interface NavSpike {
+  nav_date: string;
+  nav_value: number;
+  previous_nav_date: string;
+  previous_nav_value: number;
+  change_pct: number;
+}
+
+export interface SchemeNavQuality {
+  bookmark_id: number;
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  latest_nav_date: string | null;
+  days_since_latest: number | null;
+  missing_dates: string[];      // business days with no NAV between the first and latest NAV in the window
+  spikes: NavSpike[];
+  is_stale: boolean;
+  issues: NavQualityIssue[];
+}
+
+// Contiguous run of missing business days (start and end inclusive)
+export interface NavGapRange {
+  start_date: string;
+  end_date: string;
+  missing_days: number;
+}
+
+export interface SchemeNavGaps {
+  bookmark_id: number;
+  scheme_id: number;
+  scheme_code: string;
+  ranges: NavGapRange[];
+}
+
+export interface NavQualityReport {
+  generated_at: Date;
+  parameters: NavQualityParams;
+  summary: {
+    schemes_checked: number;
+    schemes_with_gaps: number;
+    schemes_with_spikes: number;
+    stale_schemes: number;
+  };
+  schemes: SchemeNavQuality[];
+}
+
+// ==================== SCHEME ANALYTICS TYPES ====================
+
+export type AnalyticsTrailingPeriod = '1M' | '3M' | '6M' | '1Y' | '3Y' | '5Y';
+export type AnalyticsRiskPeriod = '1Y' | '3Y';
+
+// Point-to-point return from the NAV on or before (end - period) to the latest NAV
+export interface TrailingReturn {
+  period: AnalyticsTrailingPeriod;
+  start_date: string | null;
+  start_nav: number | null;
+  end_date: string;
+  end_nav: number;
+  absolute_return: number | null;  // % over the period
+  cagr: number | null;             // % per year; only for periods of a year or more
+}
+
+// Distribution of the period return (CAGR) ending on every NAV date with enough history
+export interface RollingReturnDistribution {
+  period: AnalyticsRiskPeriod;
+  observations: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  percentile_25: number | null;
+  percentile_75: number | null;
+  positive_pct: number | null;     // share of observations with a positive return
+}
+
+export interface AnalyticsVolatility {
+  period: AnalyticsRiskPeriod;
+  observations: number;            // daily returns in the window
+  annualised_volatility: number | null;
+}
+
+export interface AnalyticsDrawdown {
+  max_drawdown_pct: number;        // <= 0
+  peak_date: string | null;
+  peak_nav: number | null;
+  trough_date: string | null;
+  trough_nav: number | null;
+  recovery_date: string | null;    // first NAV back at the peak; null while still under water
+  current_drawdown_pct: number;
+}
+
+export interface AnalyticsSharpe {
+  period: AnalyticsRiskPeriod;
+  annualised_return: number | null;
+  annualised_volatility: number | null;
+  sharpe_ratio: number | null;
+}
+
+// Cached part of the analytics (independent of the risk-free rate)
+export interface SchemeAnalyticsMetrics {
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  first_nav_date: string;
+  latest_nav_date: string;
+  latest_nav_value: number;
+  nav_count: number;
+  trailing_returns: TrailingReturn[];
+  rolling_returns: RollingReturnDistribution[];
+  volatility: AnalyticsVolatility[];
+  max_drawdown: AnalyticsDrawdown;
+  moving_averages: {
+    dma_50: number | null;
+    dma_200: number | null;
+  };
+  computed_at: Date;
+}
+
+export interface SchemeAnalytics extends SchemeAnalyticsMetrics {
+  risk_free_rate: number;
+  sharpe: AnalyticsSharpe[];
+  from_cache: boolean;
+}
+
+export interface SchemeComparisonRequest {
+  scheme_ids: number[];
+  benchmark_id?: number;           // index loaded as a pseudo-scheme, e.g. via scheme + NAV import
+  start_date?: string;             // later common start than the schemes' shared history
+  end_date?: string;
+  rolling_period?: AnalyticsRiskPeriod;
+}
+
+export interface ComparedScheme {
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  is_benchmark: boolean;
+  first_nav_date: string;
+  latest_nav_date: string;
+  base_nav: number;                // NAV on the common start date (rebased to 100)
+  period_return: number;           // % over the common window
+  period_cagr: number | null;      // only for windows of a year or more
+}
+
+// One date of the rebased chart; values keyed by scheme_id, last NAV carried over holidays
+export interface RebasedNavPoint {
+  nav_date: string;
+  values: Record<number, number>;
+}
+
+export interface CalendarYearReturn {
+  year: number;
+  is_partial: boolean;             // year-to-date (common window ends before 31 Dec)
+  returns: Record<number, number | null>;  // null when the scheme has no NAV before the year
+}
+
+export interface RollingOverlapStats {
+  scheme_id: number;
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  positive_pct: number | null;
+  best_pct: number | null;                  // windows where the scheme led the compared schemes (null for the benchmark)
+  beat_benchmark_pct: number | null;
+  avg_excess_vs_benchmark: number | null;   // mean of (scheme - benchmark) rolling CAGR, % points
+}
+
+export interface SchemeComparison {
+  start_date: string;
+  end_date: string;
+  benchmark_id: number | null;
+  schemes: ComparedScheme[];
+  series: RebasedNavPoint[];
+  calendar_year_returns: CalendarYearReturn[];
+  rolling_overlap: {
+    period: AnalyticsRiskPeriod;
+    observations: number;          // window end dates where every scheme has a rolling return
+    first_window_end: string | null;
+    last_window_end: string | null;
+    schemes: RollingOverlapStats[];
+  };
+}
+
 // ==================== ERROR TYPES ====================
 
 export interface NavError {
@@ -327,7 +640,7 @@ export interface SchemeSearchResult {
 
 export type NavDataSource = 'daily' | 'historical' | 'weekly';
 export type DownloadJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-export type DownloadJobType = 'daily' | 'historical' | 'weekly';
+export type DownloadJobType = 'daily' | 'historical' | 'weekly' | 'backfill';
 
 export interface AuthenticatedNavRequest {
   user?: {
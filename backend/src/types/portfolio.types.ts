@@ -49,6 +49,11 @@ export interface CustomerPortfolioSummary {
   total_schemes: number;
   day_change?: number;
   day_change_percentage?: number;
+  xirr?: number | null;
+  cagr?: number | null;
+  absolute_return?: number | null; // money-weighted, not annualised
+  returns_annualised?: boolean;
+  holding_period_days?: number;
 }
 
 export interface PortfolioHolding {
@@ -68,6 +73,11 @@ export interface PortfolioHolding {
   allocation_percentage: number;
   transaction_count: number;
   last_transaction_date?: Date;
+  xirr?: number | null;
+  cagr?: number | null;
+  absolute_return?: number | null; // money-weighted, not annualised
+  returns_annualised?: boolean;
+  holding_period_days?: number;
 }
 
 export interface AssetAllocation {
@@ -88,6 +98,30 @@ export interface PortfolioPerformanceMetric {
   return_percentage: number;
 }
 
+export type PerformanceInterval = 'daily' | 'weekly' | 'monthly';
+
+export interface PortfolioPerformanceQuery {
+  from?: string;
+  to?: string;
+  interval?: PerformanceInterval;
+}
+
+export interface SchemePerformanceSeries {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  points: PortfolioPerformanceMetric[];
+}
+
+export interface PortfolioPerformanceResponse {
+  customer_id: number;
+  from: string;
+  to: string;
+  interval: PerformanceInterval;
+  series: PortfolioPerformanceMetric[];
+  schemes: SchemePerformanceSeries[];
+}
+
 export interface CustomerPortfolioResponse {
   customer_id: number;
   customer_name?: string;
@@ -162,6 +196,19 @@ export interface SchemePortfolioDetails extends PortfolioHolding {
   redemption_amount: number;
 }
 
+export interface PortfolioCashFlow {
+  date: Date;
+  amount: number;
+}
+
+export interface AnnualisedReturns {
+  xirr: number | null;
+  cagr: number | null;
+  absolute_return: number | null;
+  returns_annualised: boolean;
+  holding_period_days: number;
+}
+
 export interface PortfolioXIRR {
   customer_id: number;
   scheme_code?: string;
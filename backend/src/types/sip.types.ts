@@ -0,0 +1,112 @@
+// backend/src/types/sip.types.ts
+
+export type SipPlanType = 'SIP' | 'STP' | 'SWP';
+
+export type SipFrequency = 'daily' | 'weekly' | 'fortnightly' | 'monthly' | 'quarterly';
+
+export type SipStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type SipInstalmentStatus = 'pending' | 'matched' | 'missed' | 'bounced';
+
+export interface SipRegistration {
+  id: number;
+  customer_id: number;
+  customer_name?: string;
+  plan_type: SipPlanType;
+  scheme_code: string;
+  scheme_name?: string;
+  folio_no?: string;
+  target_scheme_code?: string;
+  target_scheme_name?: string;
+  amount: number;
+  frequency: SipFrequency;
+  instalment_day?: number;
+  registration_date?: string;
+  start_date: string;
+  end_date?: string;
+  status: SipStatus;
+  source: 'manual' | 'import';
+  import_session_id?: number;
+  notes?: string;
+  last_reconciled_at?: Date;
+  missed_count?: number;
+  bounced_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateSipRequest {
+  customer_id: number;
+  plan_type?: SipPlanType;
+  scheme_code: string;
+  scheme_name?: string;
+  folio_no?: string;
+  target_scheme_code?: string;
+  target_scheme_name?: string;
+  amount: number;
+  frequency?: SipFrequency;
+  instalment_day?: number;
+  registration_date?: string;
+  start_date: string;
+  end_date?: string;
+  notes?: string;
+}
+
+export interface UpdateSipRequest extends Partial<Omit<CreateSipRequest, 'customer_id'>> {
+  status?: SipStatus;
+}
+
+export interface SipSearchParams {
+  customer_id?: number;
+  plan_type?: SipPlanType;
+  status?: SipStatus;
+  scheme_code?: string;
+}
+
+export interface SipInstalment {
+  id?: number;
+  sip_id: number;
+  due_date: string;
+  status: SipInstalmentStatus;
+  transaction_id?: number;
+  reversal_transaction_id?: number;
+  matched_amount?: number;
+  reconciled_at?: Date;
+}
+
+export interface SipReconcileTransaction {
+  id: number;
+  customer_id: number;
+  scheme_code: string;
+  folio_no?: string;
+  txn_date: Date | string;
+  txn_type: 'Addition' | 'Deduction';
+  txn_code?: string;
+  txn_name?: string;
+  total_amount: number | string;
+}
+
+export interface SipReconciliationSummary {
+  sips_checked: number;
+  matched: number;
+  missed: number;
+  bounced: number;
+  pending: number;
+  completed_sips: number;
+}
+
+export interface SipException extends SipInstalment {
+  customer_id: number;
+  customer_name?: string;
+  plan_type: SipPlanType;
+  scheme_code: string;
+  scheme_name?: string;
+  folio_no?: string;
+  amount: number;
+}
+
+export interface SipImportResult {
+  session_id: number;
+  created: number;
+  skipped: number;
+}
@@ -0,0 +1,221 @@
+// backend/src/utils/__tests__/capitalGains.util.test.ts
+
+import { CapitalGainsUtil } from '../capitalGains.util';
+import { LotTransaction } from '../../types/capitalGains.types';
+
+const txn = (overrides: Partial<LotTransaction>): LotTransaction => ({
+  id: 1,
+  customer_id: 10,
+  scheme_code: '120503',
+  scheme_name: 'Test Equity Fund',
+  folio_no: 'F1',
+  category: 'Equity',
+  sub_category: 'Large Cap',
+  txn_date: '2023-01-01',
+  txn_type: 'Addition',
+  total_amount: 1000,
+  units: 100,
+  nav: 10,
+  ...overrides
+});
+
+describe('CapitalGainsUtil.getLongTermDate', () => {
+  it('makes equity long term the day after 12 months', () => {
+    expect(CapitalGainsUtil.getLongTermDate('equity', '2023-05-15')).toBe('2024-05-16');
+  });
+
+  it('clamps a 29-Feb equity purchase to month end before adding the day', () => {
+    expect(CapitalGainsUtil.getLongTermDate('equity', '2024-02-29')).toBe('2025-03-01');
+  });
+
+  it('moves older debt lots to the 24-month rule from 23-Jul-2024', () => {
+    // 24 months falls before the rule change and 36 months after it
+    expect(CapitalGainsUtil.getLongTermDate('debt', '2022-01-10')).toBe('2024-07-23');
+  });
+
+  it('keeps the 36-month rule for debt that qualified before the rule change', () => {
+    expect(CapitalGainsUtil.getLongTermDate('debt', '2020-06-01')).toBe('2023-06-02');
+  });
+
+  it('uses 24 months for non-equity that qualifies after the rule change', () => {
+    expect(CapitalGainsUtil.getLongTermDate('other', '2023-03-01')).toBe('2025-03-02');
+  });
+
+  it('never makes specified debt funds long term', () => {
+    expect(CapitalGainsUtil.getLongTermDate('debt', '2023-04-01')).toBeNull();
+    expect(CapitalGainsUtil.classifyTerm('debt', '2023-04-01', '2030-01-01')).toBe('short_term');
+  });
+});
+
+describe('CapitalGainsUtil.getCostOfAcquisition', () => {
+  const lot = {
+    purchase_txn_id: 1,
+    customer_id: 10,
+    scheme_code: '120503',
+    scheme_name: 'Test Equity Fund',
+    asset_class: 'equity' as const,
+    purchase_date: '2017-06-01',
+    purchase_nav: 10,
+    original_units: 100,
+    remaining_units: 100,
+    cost_per_unit: 10,
+    fmv_31jan2018: 15
+  };
+
+  it('uses the 31-Jan-2018 value when the sale is above it', () => {
+    expect(CapitalGainsUtil.getCostOfAcquisition(lot, 100, 2000, 'long_term'))
+      .toEqual({ cost: 1500, grandfathered: true });
+  });
+
+  it('caps the grandfathered cost at the sale value', () => {
+    expect(CapitalGainsUtil.getCostOfAcquisition(lot, 100, 1200, 'long_term'))
+      .toEqual({ cost: 1200, grandfathered: true });
+  });
+
+  it('never goes below the actual purchase cost', () => {
+    expect(CapitalGainsUtil.getCostOfAcquisition(lot, 100, 900, 'long_term'))
+      .toEqual({ cost: 1000, grandfathered: false });
+  });
+
+  it('does not grandfather short-term sales or later purchases', () => {
+    expect(CapitalGainsUtil.getCostOfAcquisition(lot, 100, 2000, 'short_term').grandfathered).toBe(false);
+    expect(CapitalGainsUtil.getCostOfAcquisition(
+      { ...lot, purchase_date: '2018-02-01' }, 100, 2000, 'long_term'
+    ).grandfathered).toBe(false);
+  });
+});
+
+describe('CapitalGainsUtil.matchFifo', () => {
+  it('matches a redemption against the oldest lots first', () => {
+    const result = CapitalGainsUtil.matchFifo([
+      txn({ id: 1, txn_date: '2022-01-10', total_amount: 1000, units: 100, nav: 10 }),
+      txn({ id: 2, txn_date: '2023-06-01', total_amount: 1200, units: 100, nav: 12 }),
+      txn({ id: 3, txn_date: '2023-12-01', txn_type: 'Deduction', total_amount: 2250, units: 150, nav: 15 })
+    ]);
+
+    expect(result.realised).toHaveLength(2);
+    expect(result.realised[0]).toMatchObject({
+      purchase_txn_id: 1,
+      units: 100,
+      cost_of_acquisition: 1000,
+      sale_value: 1500,
+      gain: 500,
+      term: 'long_term'
+    });
+    expect(result.realised[1]).toMatchObject({
+      purchase_txn_id: 2,
+      units: 50,
+      cost_of_acquisition: 600,
+      sale_value: 750,
+      gain: 150,
+      term: 'short_term'
+    });
+    expect(result.open_lots).toHaveLength(1);
+    expect(result.open_lots[0]).toMatchObject({ purchase_txn_id: 2, remaining_units: 50 });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('matches same-day purchases before same-day redemptions', () => {
+    const result = CapitalGainsUtil.matchFifo([
+      txn({ id: 2, txn_date: '2023-01-01', txn_type: 'Deduction', total_amount: 500, units: 50 }),
+      txn({ id: 1, txn_date: '2023-01-01', total_amount: 1000, units: 100 })
+    ]);
+
+    expect(result.realised).toHaveLength(1);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps lots separate per folio', () => {
+    const result = CapitalGainsUtil.matchFifo([
+      txn({ id: 1, folio_no: 'F1', txn_date: '2022-01-01', total_amount: 1000, units: 100 }),
+      txn({ id: 2, folio_no: 'F2', txn_date: '2023-01-01', total_amount: 2000, units: 100 }),
+      txn({ id: 3, folio_no: 'F2', txn_date: '2023-06-01', txn_type: 'Deduction', total_amount: 2500, units: 100 })
+    ]);
+
+    expect(result.realised[0]).toMatchObject({ purchase_txn_id: 2, gain: 500 });
+    expect(result.open_lots.map(lot => lot.purchase_txn_id)).toEqual([1]);
+  });
+
+  it('warns instead of failing when a redemption exceeds the lots', () => {
+    const result = CapitalGainsUtil.matchFifo([
+      txn({ id: 1, txn_date: '2023-01-01', total_amount: 1000, units: 100 }),
+      txn({ id: 2, txn_date: '2023-03-01', txn_type: 'Deduction', total_amount: 1800, units: 120 })
+    ]);
+
+    expect(result.realised).toHaveLength(1);
+    expect(result.realised[0].units).toBe(100);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('exceeds available purchase lots by 20 units');
+  });
+
+  it('grandfathers pre-2018 equity lots sold long term', () => {
+    const result = CapitalGainsUtil.matchFifo(
+      [
+        txn({ id: 1, txn_date: '2017-06-01', total_amount: 1000, units: 100 }),
+        txn({ id: 2, txn_date: '2019-06-01', txn_type: 'Deduction', total_amount: 2000, units: 100 })
+      ],
+      new Map([['120503', 15]])
+    );
+
+    expect(result.realised[0]).toMatchObject({
+      cost_of_acquisition: 1500,
+      gain: 500,
+      fmv_31jan2018: 15,
+      grandfathered: true
+    });
+  });
+});
+
+describe('CapitalGainsUtil.valueOpenLots', () => {
+  const { open_lots: openLots } = CapitalGainsUtil.matchFifo([
+    txn({ id: 1, txn_date: '2023-01-01', total_amount: 1000, units: 100 }),
+    txn({ id: 2, txn_date: '2024-02-29', total_amount: 1200, units: 100, nav: 12 })
+  ]);
+
+  it('values each lot at the latest NAV with its FIFO position and term', () => {
+    const lots = CapitalGainsUtil.valueOpenLots(
+      openLots,
+      new Map([['120503', { nav: 15, date: '2024-06-28' }]]),
+      '2024-07-01'
+    );
+
+    expect(lots[0]).toMatchObject({
+      units_ahead_in_fifo: 0,
+      current_value: 1500,
+      unrealised_gain: 500,
+      term: 'long_term',
+      days_to_long_term: null
+    });
+    expect(lots[1]).toMatchObject({
+      units_ahead_in_fifo: 100,
+      current_value: 1500,
+      unrealised_gain: 300,
+      term: 'short_term',
+      long_term_date: '2025-03-01',
+      days_to_long_term: 243
+    });
+  });
+
+  it('falls back to the purchase NAV when no latest NAV is known', () => {
+    const lots = CapitalGainsUtil.valueOpenLots(openLots, new Map(), '2024-07-01');
+
+    expect(lots.map(lot => lot.unrealised_gain)).toEqual([0, 0]);
+  });
+});
+
+describe('CapitalGainsUtil.planLtcgHarvest', () => {
+  it('books long-term gains up to the exemption budget without touching short-term lots', () => {
+    const { open_lots: openLots } = CapitalGainsUtil.matchFifo([
+      txn({ id: 1, txn_date: '2022-01-01', total_amount: 1000, units: 100 }),
+      txn({ id: 2, txn_date: '2024-06-01', total_amount: 1000, units: 100 })
+    ]);
+    const lots = CapitalGainsUtil.valueOpenLots(openLots, new Map([['120503', { nav: 20 }]]), '2024-07-01');
+
+    expect(CapitalGainsUtil.planLtcgHarvest(lots, 500)).toEqual([
+      expect.objectContaining({ units: 50, estimated_value: 1000, estimated_gain: 500 })
+    ]);
+    expect(CapitalGainsUtil.planLtcgHarvest(lots, 5000)).toEqual([
+      expect.objectContaining({ units: 100, estimated_gain: 1000 })
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+// backend/src/utils/__tests__/encryption.util.test.ts
+
+import { createHash } from 'crypto';
+import { EncryptionUtil } from '../encryption.util';
+
+const sqlDigest = (pan: string) => createHash('sha256').update(pan.toUpperCase()).digest('hex');
+
+describe('EncryptionUtil.decrypt', () => {
+  it('round-trips a value through the active key', () => {
+    expect(EncryptionUtil.decrypt(EncryptionUtil.encrypt('ABCDE1234F'))).toBe('ABCDE1234F');
+  });
+
+  it('throws instead of returning an empty string for unreadable values', () => {
+    expect(() => EncryptionUtil.decrypt('v2:retired:00:00:00')).toThrow('Failed to decrypt data');
+    expect(() => EncryptionUtil.decrypt('a:b:c')).toThrow('Invalid encrypted format');
+  });
+});
+
+describe('EncryptionUtil.reEncrypt', () => {
+  it('leaves values already on the active key alone', () => {
+    const value = EncryptionUtil.encrypt('ABCDE1234F');
+    expect(EncryptionUtil.reEncrypt(value)).toBe(value);
+  });
+
+  it('encrypts plain values', () => {
+    const value = EncryptionUtil.reEncrypt('ABCDE1234F');
+    expect(value!.startsWith(EncryptionUtil.ciphertextPrefix())).toBe(true);
+    expect(EncryptionUtil.decrypt(value!)).toBe('ABCDE1234F');
+  });
+
+  it('refuses SHA-256 digests written by the SQL import processor', () => {
+    const digest = sqlDigest('abcde1234f');
+
+    expect(EncryptionUtil.isDigest(digest)).toBe(true);
+    expect(EncryptionUtil.getKeyId(digest)).toBe('digest');
+    expect(EncryptionUtil.reEncrypt(digest)).toBeNull();
+  });
+
+  it('returns null for values no key can decrypt', () => {
+    expect(EncryptionUtil.reEncrypt('v2:retired:00:00:00')).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+// backend/src/utils/__tests__/importRules.util.test.ts
+
+import { ImportRulesUtil } from '../importRules.util';
+import { CustomerImportSnapshot } from '../../types/import.types';
+
+const customerRow = (overrides: Record<string, any> = {}): Record<string, any> => ({
+  prefix: 'mr.',
+  name: ' Ravi Kumar ',
+  email: 'Ravi@Example.com',
+  mobile: '+91 98450 12345',
+  pan: 'abcde1234f',
+  iwell_code: 'iw001',
+  date_of_birth: '15/08/1980',
+  ...overrides
+});
+
+const transactionRow = (overrides: Record<string, any> = {}): Record<string, any> => ({
+  iwell_code: 'IW001',
+  txn_code: 'P',
+  scheme_code: ' 120 503 ',
+  scheme_name: 'Test Equity Fund',
+  folio_no: 'F1',
+  txn_date: '05-01-2024',
+  total_amount: '5,000.00',
+  units: '250.125',
+  nav: '19.99',
+  ...overrides
+});
+
+const snapshot = (overrides: Partial<CustomerImportSnapshot> = {}): CustomerImportSnapshot => ({
+  customer_id: 1,
+  contact_id: 2,
+  name: 'Ravi Kumar',
+  pan: 'ABCDE1234F',
+  iwell_code: 'IW001',
+  date_of_birth: '1980-08-15',
+  anniversary_date: null,
+  family_head_name: null,
+  family_head_iwell_code: null,
+  referred_by_name: null,
+  ...overrides
+});
+
+describe('ImportRulesUtil.parseImportDate', () => {
+  it('reads day-first dates with either separator', () => {
+    expect(ImportRulesUtil.parseImportDate('05-01-2024')).toBe('2024-01-05');
+    expect(ImportRulesUtil.parseImportDate('5/1/2024')).toBe('2024-01-05');
+  });
+
+  it('falls back to month-first when day-first is not a real date', () => {
+    expect(ImportRulesUtil.parseImportDate('12/31/2023')).toBe('2023-12-31');
+  });
+
+  it('reads ISO dates and timestamps', () => {
+    expect(ImportRulesUtil.parseImportDate('2024-02-29')).toBe('2024-02-29');
+    expect(ImportRulesUtil.parseImportDate('2024-02-29T10:15:00Z')).toBe('2024-02-29');
+  });
+
+  it('rejects dates that do not exist or are not dates', () => {
+    expect(ImportRulesUtil.parseImportDate('2023-02-29')).toBeNull();
+    expect(ImportRulesUtil.parseImportDate('31/31/2024')).toBeNull();
+    expect(ImportRulesUtil.parseImportDate('Jan 5 2024')).toBeNull();
+    expect(ImportRulesUtil.parseImportDate('   ')).toBeNull();
+    expect(ImportRulesUtil.parseImportDate(null)).toBeNull();
+  });
+});
+
+describe('ImportRulesUtil.buildCustomerDraft', () => {
+  it('normalises names, prefix, email, PAN and dates', () => {
+    const { draft, errors, warnings } = ImportRulesUtil.buildCustomerDraft(customerRow());
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(draft).toMatchObject({
+      prefix: 'Mr',
+      name: 'Ravi Kumar',
+      email: 'ravi@example.com',
+      pan: 'ABCDE1234F',
+      iwell_code: 'IW001',
+      date_of_birth: '1980-08-15',
+      address: null
+    });
+  });
+
+  it('accepts a row without a PAN', () => {
+    const { draft, errors, warnings } = ImportRulesUtil.buildCustomerDraft(customerRow({ pan: '  ' }));
+
+    expect(draft.pan).toBeNull();
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('warns on a malformed PAN', () => {
+    const { draft, warnings } = ImportRulesUtil.buildCustomerDraft(customerRow({ pan: 'ABC123' }));
+
+    expect(draft.pan).toBe('ABC123');
+    expect(warnings).toEqual(['PAN does not match the AAAAA9999A format']);
+  });
+
+  it('ignores a bad date with a warning', () => {
+    const { draft, errors, warnings } = ImportRulesUtil.buildCustomerDraft(customerRow({ date_of_birth: '30/02/1980' }));
+
+    expect(draft.date_of_birth).toBeNull();
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(['Invalid date_of_birth ignored: 30/02/1980']);
+  });
+
+  it('requires a name', () => {
+    const { errors } = ImportRulesUtil.buildCustomerDraft(customerRow({ name: '' }));
+
+    expect(errors).toEqual(['Name is required']);
+  });
+
+  it('fills placeholders for a partial address and falls back to Sri', () => {
+    const { draft } = ImportRulesUtil.buildCustomerDraft(customerRow({ prefix: 'Shri', city: 'Pune', address_type: 'Office' }));
+
+    expect(draft.prefix).toBe('Sri');
+    expect(draft.address).toEqual({
+      address_type: 'office',
+      address_line1: 'Not Provided',
+      address_line2: null,
+      city: 'Pune',
+      state: 'Unknown',
+      country: 'India',
+      pincode: '000000'
+    });
+  });
+});
+
+describe('ImportRulesUtil.diffCustomer', () => {
+  it('lists changed fields only', () => {
+    const { draft } = ImportRulesUtil.buildCustomerDraft(customerRow({ name: 'Ravi K Kumar', referred_by_name: 'Anita' }));
+
+    expect(ImportRulesUtil.diffCustomer(snapshot(), draft)).toEqual([
+      { field: 'name', from: 'Ravi Kumar', to: 'Ravi K Kumar' },
+      { field: 'referred_by_name', from: null, to: 'Anita' }
+    ]);
+  });
+
+  it('never clears existing values with blanks', () => {
+    const { draft } = ImportRulesUtil.buildCustomerDraft(customerRow({ pan: '', date_of_birth: '' }));
+
+    expect(ImportRulesUtil.diffCustomer(snapshot(), draft)).toEqual([]);
+  });
+});
+
+describe('ImportRulesUtil.buildTransactionDraft', () => {
+  it('builds a draft with parsed amounts and a sanitised scheme code', () => {
+    const { draft, errors } = ImportRulesUtil.buildTransactionDraft(transactionRow(), { customerId: 10, txnTypeId: 3 });
+
+    expect(errors).toEqual([]);
+    expect(draft).toMatchObject({
+      customer_id: 10,
+      txn_type_id: 3,
+      scheme_code: '120503',
+      txn_date: '2024-01-05',
+      total_amount: 5000,
+      units: 250.125,
+      nav: 19.99,
+      stamp_duty: null
+    });
+  });
+
+  it('rejects negative amounts and units', () => {
+    const { draft, errors } = ImportRulesUtil.buildTransactionDraft(
+      transactionRow({ total_amount: '-5000', units: '-250' }),
+      { customerId: 10, txnTypeId: 3 }
+    );
+
+    expect(draft).toBeNull();
+    expect(errors).toEqual(expect.arrayContaining(['Total amount cannot be negative', 'Units cannot be negative']));
+  });
+
+  it('names the bad transaction date', () => {
+    const { draft, errors } = ImportRulesUtil.buildTransactionDraft(
+      transactionRow({ txn_date: '31-02-2024' }),
+      { customerId: 10, txnTypeId: 3 }
+    );
+
+    expect(draft).toBeNull();
+    expect(errors).toContain('Invalid transaction date: 31-02-2024');
+  });
+
+  it('names the unresolved IWELL code and transaction type', () => {
+    const { errors } = ImportRulesUtil.buildTransactionDraft(
+      transactionRow({ iwell_code: 'IW404', txn_code: 'XX' }),
+      { customerId: null, txnTypeId: null }
+    );
+
+    expect(errors).toEqual(expect.arrayContaining([
+      'No customer found for IWELL code IW404',
+      'Unknown transaction type: XX'
+    ]));
+  });
+
+  it('requires a scheme name', () => {
+    const { errors } = ImportRulesUtil.buildTransactionDraft(transactionRow({ scheme_name: '' }), { customerId: 10, txnTypeId: 3 });
+
+    expect(errors).toEqual(['Scheme name is required']);
+  });
+});
+
+describe('ImportRulesUtil.resolveSessionStatus', () => {
+  it('completes with errors when any row failed', () => {
+    expect(ImportRulesUtil.resolveSessionStatus({ failed: 0 })).toBe('completed');
+    expect(ImportRulesUtil.resolveSessionStatus({ failed: 2 })).toBe('completed_with_errors');
+  });
+});
@@ -0,0 +1,100 @@
+// backend/src/utils/__tests__/portfolio.util.test.ts
+
+import { PortfolioUtil } from '../portfolio.util';
+
+const day = (key: string): Date => new Date(`${key}T00:00:00Z`);
+
+describe('PortfolioUtil.solveXIRR', () => {
+  it('finds the rate for a single investment and redemption', () => {
+    const rate = PortfolioUtil.solveXIRR([
+      { date: day('2023-01-01'), amount: -1000 },
+      { date: day('2024-01-01'), amount: 1100 }
+    ]);
+
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it('handles a large loss that pushes Newton-Raphson towards -100%', () => {
+    const rate = PortfolioUtil.solveXIRR([
+      { date: day('2023-01-01'), amount: -1000 },
+      { date: day('2024-01-01'), amount: 50 }
+    ]);
+
+    expect(rate).toBeCloseTo(-0.95, 6);
+  });
+
+  it('returns null when money only flows one way', () => {
+    expect(PortfolioUtil.solveXIRR([
+      { date: day('2023-01-01'), amount: -1000 },
+      { date: day('2023-06-01'), amount: -500 }
+    ])).toBeNull();
+  });
+
+  it('returns null when the cash flows change sign but have no root', () => {
+    // NPV = -100 + 300x - 250x^2 is negative for every x
+    expect(PortfolioUtil.solveXIRR([
+      { date: day('2023-01-01'), amount: -100 },
+      { date: day('2024-01-01'), amount: 300 },
+      { date: day('2025-01-01'), amount: -250 }
+    ])).toBeNull();
+  });
+
+  it('returns null for fewer than two cash flows', () => {
+    expect(PortfolioUtil.solveXIRR([{ date: day('2023-01-01'), amount: -1000 }])).toBeNull();
+  });
+});
+
+describe('PortfolioUtil.calculateAnnualisedReturns', () => {
+  it('does not annualise holdings under a year', () => {
+    const returns = PortfolioUtil.calculateAnnualisedReturns(
+      [
+        { date: day('2024-01-01'), amount: -1000 },
+        { date: day('2024-06-01'), amount: 1050 }
+      ],
+      1000,
+      1050,
+      day('2024-06-01')
+    );
+
+    expect(returns).toEqual({
+      xirr: null,
+      cagr: null,
+      absolute_return: 5,
+      returns_annualised: false,
+      holding_period_days: 152
+    });
+  });
+
+  it('annualises holdings of a year or more', () => {
+    const returns = PortfolioUtil.calculateAnnualisedReturns(
+      [
+        { date: day('2022-01-01'), amount: -1000 },
+        { date: day('2024-01-01'), amount: 1210 }
+      ],
+      1000,
+      1210,
+      day('2024-01-01')
+    );
+
+    expect(returns).toEqual({
+      xirr: 10,
+      cagr: 10,
+      absolute_return: 21,
+      returns_annualised: true,
+      holding_period_days: 730
+    });
+  });
+
+  it('returns nulls when nothing was invested', () => {
+    const returns = PortfolioUtil.calculateAnnualisedReturns(
+      [{ date: day('2022-01-01'), amount: 1000 }],
+      0,
+      1000,
+      day('2024-01-01')
+    );
+
+    expect(returns.xirr).toBeNull();
+    expect(returns.absolute_return).toBeNull();
+    expect(returns.returns_annualised).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// backend/src/utils/__tests__/sip.util.test.ts
+
+import { SipUtil } from '../sip.util';
+import { SipReconcileTransaction } from '../../types/sip.types';
+
+const txn = (overrides: Partial<SipReconcileTransaction>): SipReconcileTransaction => ({
+  id: 1,
+  customer_id: 10,
+  scheme_code: '120503',
+  folio_no: 'F1',
+  txn_date: '2024-01-05',
+  txn_type: 'Addition',
+  txn_code: 'P',
+  txn_name: 'Purchase',
+  total_amount: 5000,
+  ...overrides
+});
+
+const sip = { id: 1, plan_type: 'SIP' as const, amount: 5000 };
+
+describe('SipUtil.reconcile', () => {
+  it('matches an instalment settled inside the window', () => {
+    const [instalment] = SipUtil.reconcile(sip, ['2024-01-05'], [txn({ txn_date: '2024-01-08' })], '2024-02-01');
+
+    expect(instalment.status).toBe('matched');
+    expect(instalment.transaction_id).toBe(1);
+  });
+
+  it('marks an instalment bounced when a reversal type follows it', () => {
+    const [instalment] = SipUtil.reconcile(sip, ['2024-01-05'], [
+      txn({ id: 1 }),
+      txn({ id: 2, txn_date: '2024-01-12', txn_type: 'Deduction', txn_code: 'PR', txn_name: 'Purchase Reversal' })
+    ], '2024-02-01');
+
+    expect(instalment.status).toBe('bounced');
+    expect(instalment.reversal_transaction_id).toBe(2);
+  });
+
+  it('marks an instalment bounced when a negative amount follows it', () => {
+    const [instalment] = SipUtil.reconcile(sip, ['2024-01-05'], [
+      txn({ id: 1 }),
+      txn({ id: 2, txn_date: '2024-01-10', total_amount: -5000 })
+    ], '2024-02-01');
+
+    expect(instalment.status).toBe('bounced');
+    expect(instalment.reversal_transaction_id).toBe(2);
+  });
+
+  it('does not treat an ordinary redemption of the same amount as a bounce', () => {
+    const [instalment] = SipUtil.reconcile(sip, ['2024-01-05'], [
+      txn({ id: 1 }),
+      txn({ id: 2, txn_date: '2024-01-10', txn_type: 'Deduction', txn_code: 'R', txn_name: 'Redemption' })
+    ], '2024-02-01');
+
+    expect(instalment.status).toBe('matched');
+  });
+
+  it('does not treat an STP leg in the other direction as a bounce', () => {
+    const stp = { id: 2, plan_type: 'STP' as const, amount: 5000 };
+    const [instalment] = SipUtil.reconcile(stp, ['2024-01-05'], [
+      txn({ id: 1, txn_type: 'Deduction', txn_code: 'STO', txn_name: 'Switch Out' }),
+      txn({ id: 2, txn_date: '2024-01-06', txn_type: 'Addition', txn_code: 'STI', txn_name: 'Switch In' })
+    ], '2024-02-01');
+
+    expect(instalment.status).toBe('matched');
+    expect(instalment.transaction_id).toBe(1);
+  });
+
+  it('reports unmatched instalments as missed after the grace period', () => {
+    const instalments = SipUtil.reconcile(sip, ['2024-01-05', '2024-02-05'], [], '2024-02-10');
+
+    expect(instalments.map(instalment => instalment.status)).toEqual(['missed', 'pending']);
+  });
+});
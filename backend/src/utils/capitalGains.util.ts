@@ -0,0 +1,515 @@
+// backend/src/utils/capitalGains.util.ts
+
+import {
+  AssetClass,
+  GainTerm,
+  LotTransaction,
+  PurchaseLot,
+  RealisedGainEntry,
+  FifoMatchResult,
+  CapitalGainsSummary,
+  CapitalGainsSummaryBucket,
+  UnrealisedLot,
+  UnrealisedGainsTotals,
+  HoldingUnrealisedGains,
+  HarvestRedemption
+} from '../types/capitalGains.types';
+import { PortfolioUtil } from './portfolio.util';
+
+// Grandfathering cut-off for equity LTCG (Finance Act 2018)
+export const GRANDFATHERING_CUTOFF_DATE = '2018-02-01';
+export const GRANDFATHERING_FMV_DATE = '2018-01-31';
+
+// Debt funds bought on/after this date are always short term (section 50AA)
+export const DEBT_SPECIFIED_FUND_DATE = '2023-04-01';
+
+// Non-equity holding period reduced from 36 to 24 months for transfers on/after this date
+export const NON_EQUITY_24_MONTH_RULE_DATE = '2024-07-23';
+
+// Annual equity LTCG exemption (section 112A), raised from 1 lakh from FY 2024-25
+export const LTCG_EXEMPTION_LIMIT = 125000;
+export const LEGACY_LTCG_EXEMPTION_LIMIT = 100000;
+
+const EQUITY_KEYWORDS = [
+  'equity', 'elss', 'index', 'arbitrage', 'aggressive', 'large cap', 'mid cap',
+  'small cap', 'multi cap', 'flexi cap', 'focused', 'sectoral', 'thematic',
+  'value', 'contra', 'dividend yield', 'balanced advantage', 'equity savings'
+];
+
+const DEBT_KEYWORDS = [
+  'debt', 'liquid', 'money market', 'gilt', 'overnight', 'duration', 'bond',
+  'credit risk', 'banking and psu', 'floater', 'corporate', 'income',
+  'conservative hybrid', 'fixed maturity'
+];
+
+export class CapitalGainsUtil {
+  /**
+   * Classify a scheme into equity / debt / other for tax purposes
+   * Sub-category is checked before category as it is more specific
+   */
+  static classifyAssetClass(category?: string, subCategory?: string): AssetClass {
+    const candidates = [subCategory, category]
+      .filter(Boolean)
+      .map(value => (value as string).toLowerCase());
+
+    for (const value of candidates) {
+      if (DEBT_KEYWORDS.some(keyword => value.includes(keyword))) return 'debt';
+      if (EQUITY_KEYWORDS.some(keyword => value.includes(keyword))) return 'equity';
+    }
+
+    return 'other';
+  }
+
+  /**
+   * Parse a financial year label like "2025-26" into its date range
+   */
+  static parseFinancialYear(fy: string): { from: string; to: string } | null {
+    const match = /^(\d{4})-(\d{2})$/.exec(fy || '');
+    if (!match) return null;
+
+    const startYear = parseInt(match[1]);
+    if ((startYear + 1) % 100 !== parseInt(match[2])) return null;
+
+    return {
+      from: `${startYear}-04-01`,
+      to: `${startYear + 1}-03-31`
+    };
+  }
+
+  /**
+   * Get the financial year label for a date
+   */
+  static getFinancialYear(date: Date = new Date()): string {
+    const dateKey = PortfolioUtil.toDateKey(date);
+    const year = parseInt(dateKey.substring(0, 4));
+    const startYear = dateKey.substring(5) >= '04-01' ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Add calendar months to a YYYY-MM-DD key, clamping to month end
+   */
+  static addMonthsToKey(dateKey: string, months: number): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().substring(0, 10);
+  }
+
+  /**
+   * Days between two YYYY-MM-DD keys
+   */
+  static daysBetweenKeys(fromKey: string, toKey: string): number {
+    const from = new Date(`${fromKey}T00:00:00Z`).getTime();
+    const to = new Date(`${toKey}T00:00:00Z`).getTime();
+    return Math.round((to - from) / (1000 * 60 * 60 * 24));
+  }
+
+  /**
+   * First date on which a lot bought on purchaseDate qualifies as long term
+   * Returns null when the lot can never be long term (specified debt funds)
+   */
+  static getLongTermDate(assetClass: AssetClass, purchaseDate: string): string | null {
+    if (assetClass === 'equity') {
+      // Held for more than 12 months
+      return PortfolioUtil.addDaysToKey(this.addMonthsToKey(purchaseDate, 12), 1);
+    }
+
+    if (assetClass === 'debt' && purchaseDate >= DEBT_SPECIFIED_FUND_DATE) {
+      return null;
+    }
+
+    // Non-equity: more than 36 months, or more than 24 months for transfers after the rule change
+    const after24Months = PortfolioUtil.addDaysToKey(this.addMonthsToKey(purchaseDate, 24), 1);
+    if (after24Months >= NON_EQUITY_24_MONTH_RULE_DATE) {
+      return after24Months;
+    }
+
+    const after36Months = PortfolioUtil.addDaysToKey(this.addMonthsToKey(purchaseDate, 36), 1);
+    return after36Months < NON_EQUITY_24_MONTH_RULE_DATE ? after36Months : NON_EQUITY_24_MONTH_RULE_DATE;
+  }
+
+  /**
+   * Classify a sale as short or long term
+   */
+  static classifyTerm(assetClass: AssetClass, purchaseDate: string, saleDate: string): GainTerm {
+    const longTermDate = this.getLongTermDate(assetClass, purchaseDate);
+    return longTermDate && saleDate >= longTermDate ? 'long_term' : 'short_term';
+  }
+
+  /**
+   * Equity LTCG exemption limit applicable to a financial year
+   */
+  static getLtcgExemptionLimit(financialYear: string): number {
+    const range = this.parseFinancialYear(financialYear);
+    return range && range.from >= '2024-04-01' ? LTCG_EXEMPTION_LIMIT : LEGACY_LTCG_EXEMPTION_LIMIT;
+  }
+
+  /**
+   * Cost of acquisition for units of a lot, applying grandfathering for
+   * long-term equity lots bought before 1-Feb-2018
+   */
+  static getCostOfAcquisition(
+    lot: PurchaseLot,
+    units: number,
+    saleValue: number,
+    term: GainTerm
+  ): { cost: number; grandfathered: boolean } {
+    const purchaseValue = units * lot.cost_per_unit;
+
+    if (
+      lot.asset_class !== 'equity' ||
+      term !== 'long_term' ||
+      lot.purchase_date >= GRANDFATHERING_CUTOFF_DATE ||
+      lot.fmv_31jan2018 === undefined
+    ) {
+      return { cost: purchaseValue, grandfathered: false };
+    }
+
+    const fmvValue = units * lot.fmv_31jan2018;
+    const cost = Math.max(purchaseValue, Math.min(fmvValue, saleValue));
+    return { cost, grandfathered: cost !== purchaseValue };
+  }
+
+  /**
+   * Match redemptions against purchase lots first-in first-out
+   * Lots are tracked per customer, scheme and folio. Same-day purchases are
+   * matched before same-day redemptions. Redemptions that exceed the available
+   * lots are reported as warnings rather than failing the whole report.
+   *
+   * @param fmv2018 NAV on 31-Jan-2018 keyed by scheme code, for grandfathering
+   */
+  static matchFifo(
+    transactions: LotTransaction[],
+    fmv2018: Map<string, number> = new Map()
+  ): FifoMatchResult {
+    const realised: RealisedGainEntry[] = [];
+    const warnings: string[] = [];
+    const lotsByKey = new Map<string, PurchaseLot[]>();
+
+    const sorted = transactions
+      .map(txn => ({ ...txn, date_key: PortfolioUtil.toDateKey(txn.txn_date) }))
+      .sort((a, b) => {
+        if (a.date_key !== b.date_key) return a.date_key.localeCompare(b.date_key);
+        if (a.txn_type !== b.txn_type) return a.txn_type === 'Addition' ? -1 : 1;
+        return a.id - b.id;
+      });
+
+    sorted.forEach(txn => {
+      const key = `${txn.customer_id}|${txn.scheme_code}|${txn.folio_no || ''}`;
+      const units = Math.abs(parseFloat(txn.units as string)) || 0;
+      const amount = Math.abs(parseFloat(txn.total_amount as string)) || 0;
+      const assetClass = this.classifyAssetClass(txn.category, txn.sub_category);
+
+      if (units === 0) return;
+
+      if (!lotsByKey.has(key)) {
+        lotsByKey.set(key, []);
+      }
+      const lots = lotsByKey.get(key)!;
+
+      if (txn.txn_type === 'Addition') {
+        lots.push({
+          purchase_txn_id: txn.id,
+          customer_id: txn.customer_id,
+          scheme_code: txn.scheme_code,
+          scheme_name: txn.scheme_name,
+          folio_no: txn.folio_no || undefined,
+          asset_class: assetClass,
+          purchase_date: txn.date_key,
+          purchase_nav: parseFloat(txn.nav as string) || amount / units,
+          original_units: units,
+          remaining_units: units,
+          cost_per_unit: amount / units,
+          fmv_31jan2018: txn.date_key < GRANDFATHERING_CUTOFF_DATE ? fmv2018.get(txn.scheme_code) : undefined
+        });
+        return;
+      }
+
+      // Redemption - consume the oldest lots first
+      const salePerUnit = amount / units;
+      let unitsToMatch = units;
+
+      while (unitsToMatch > 0.0001 && lots.length > 0) {
+        const lot = lots[0];
+        const matchedUnits = Math.min(lot.remaining_units, unitsToMatch);
+        const purchaseValue = matchedUnits * lot.cost_per_unit;
+        const saleValue = matchedUnits * salePerUnit;
+        const term = this.classifyTerm(lot.asset_class, lot.purchase_date, txn.date_key);
+
+        const { cost: costOfAcquisition, grandfathered } = this.getCostOfAcquisition(
+          lot,
+          matchedUnits,
+          saleValue,
+          term
+        );
+
+        realised.push({
+          purchase_txn_id: lot.purchase_txn_id,
+          sale_txn_id: txn.id,
+          customer_id: lot.customer_id,
+          scheme_code: lot.scheme_code,
+          scheme_name: lot.scheme_name,
+          folio_no: lot.folio_no,
+          asset_class: lot.asset_class,
+          purchase_date: lot.purchase_date,
+          sale_date: txn.date_key,
+          units: Math.round(matchedUnits * 10000) / 10000,
+          purchase_nav: lot.purchase_nav,
+          sale_nav: parseFloat(txn.nav as string) || salePerUnit,
+          purchase_value: PortfolioUtil.roundAmount(purchaseValue),
+          fmv_31jan2018: grandfathered ? lot.fmv_31jan2018 : undefined,
+          cost_of_acquisition: PortfolioUtil.roundAmount(costOfAcquisition),
+          sale_value: PortfolioUtil.roundAmount(saleValue),
+          gain: PortfolioUtil.roundAmount(saleValue - costOfAcquisition),
+          holding_days: this.daysBetweenKeys(lot.purchase_date, txn.date_key),
+          term,
+          grandfathered
+        });
+
+        lot.remaining_units -= matchedUnits;
+        unitsToMatch -= matchedUnits;
+
+        if (lot.remaining_units <= 0.0001) {
+          lots.shift();
+        }
+      }
+
+      if (unitsToMatch > 0.0001) {
+        warnings.push(
+          `Redemption of ${units} units in ${txn.scheme_name || txn.scheme_code}` +
+          `${txn.folio_no ? ` (folio ${txn.folio_no})` : ''} on ${txn.date_key} ` +
+          `exceeds available purchase lots by ${Math.round(unitsToMatch * 10000) / 10000} units`
+        );
+      }
+    });
+
+    const openLots: PurchaseLot[] = [];
+    lotsByKey.forEach(lots => {
+      lots.forEach(lot => {
+        if (lot.remaining_units > 0.0001) {
+          openLots.push({ ...lot, remaining_units: Math.round(lot.remaining_units * 10000) / 10000 });
+        }
+      });
+    });
+
+    return { realised, open_lots: openLots, warnings };
+  }
+
+  /**
+   * Summarise realised gains into short/long term totals
+   */
+  static summarise(entries: RealisedGainEntry[]): CapitalGainsSummary {
+    const emptyBucket = (): CapitalGainsSummaryBucket => ({
+      short_term_gain: 0,
+      long_term_gain: 0,
+      sale_value: 0,
+      cost_of_acquisition: 0
+    });
+
+    const total = emptyBucket();
+    const byAssetClass: Record<AssetClass, CapitalGainsSummaryBucket> = {
+      equity: emptyBucket(),
+      debt: emptyBucket(),
+      other: emptyBucket()
+    };
+
+    entries.forEach(entry => {
+      [total, byAssetClass[entry.asset_class]].forEach(bucket => {
+        if (entry.term === 'long_term') {
+          bucket.long_term_gain += entry.gain;
+        } else {
+          bucket.short_term_gain += entry.gain;
+        }
+        bucket.sale_value += entry.sale_value;
+        bucket.cost_of_acquisition += entry.cost_of_acquisition;
+      });
+    });
+
+    const round = (bucket: CapitalGainsSummaryBucket): CapitalGainsSummaryBucket => ({
+      short_term_gain: PortfolioUtil.roundAmount(bucket.short_term_gain),
+      long_term_gain: PortfolioUtil.roundAmount(bucket.long_term_gain),
+      sale_value: PortfolioUtil.roundAmount(bucket.sale_value),
+      cost_of_acquisition: PortfolioUtil.roundAmount(bucket.cost_of_acquisition)
+    });
+
+    return {
+      ...round(total),
+      total_gain: PortfolioUtil.roundAmount(total.short_term_gain + total.long_term_gain),
+      by_asset_class: {
+        equity: round(byAssetClass.equity),
+        debt: round(byAssetClass.debt),
+        other: round(byAssetClass.other)
+      }
+    };
+  }
+
+  /**
+   * Value open FIFO lots at the latest NAV
+   * Lots must be in FIFO order per customer/scheme/folio (as returned by matchFifo)
+   * so that units_ahead_in_fifo reflects what has to be redeemed first.
+   */
+  static valueOpenLots(
+    openLots: PurchaseLot[],
+    latestNavs: Map<string, { nav: number; date?: string }>,
+    asOfDate: string
+  ): UnrealisedLot[] {
+    const unitsAhead = new Map<string, number>();
+
+    return openLots.map(lot => {
+      const key = `${lot.customer_id}|${lot.scheme_code}|${lot.folio_no || ''}`;
+      const ahead = unitsAhead.get(key) || 0;
+      unitsAhead.set(key, ahead + lot.remaining_units);
+
+      const latest = latestNavs.get(lot.scheme_code);
+      const latestNav = latest ? latest.nav : lot.purchase_nav;
+      const costValue = lot.remaining_units * lot.cost_per_unit;
+      const currentValue = lot.remaining_units * latestNav;
+      const longTermDate = this.getLongTermDate(lot.asset_class, lot.purchase_date);
+      const term: GainTerm = longTermDate && asOfDate >= longTermDate ? 'long_term' : 'short_term';
+      const { cost, grandfathered } = this.getCostOfAcquisition(lot, lot.remaining_units, currentValue, term);
+
+      return {
+        ...lot,
+        units_ahead_in_fifo: Math.round(ahead * 10000) / 10000,
+        cost_value: PortfolioUtil.roundAmount(costValue),
+        cost_of_acquisition: PortfolioUtil.roundAmount(cost),
+        latest_nav: latestNav,
+        latest_nav_date: latest?.date,
+        current_value: PortfolioUtil.roundAmount(currentValue),
+        unrealised_gain: PortfolioUtil.roundAmount(currentValue - cost),
+        holding_days: this.daysBetweenKeys(lot.purchase_date, asOfDate),
+        term,
+        long_term_date: longTermDate,
+        days_to_long_term: longTermDate && term === 'short_term'
+          ? this.daysBetweenKeys(asOfDate, longTermDate)
+          : null,
+        grandfathered
+      };
+    });
+  }
+
+  /**
+   * Total cost, value and unrealised gains across lots
+   */
+  static totalUnrealised(lots: UnrealisedLot[]): UnrealisedGainsTotals {
+    const totals = lots.reduce(
+      (acc, lot) => {
+        acc.cost_value += lot.cost_value;
+        acc.current_value += lot.current_value;
+        acc.unrealised_gain += lot.unrealised_gain;
+        if (lot.term === 'long_term') {
+          acc.long_term_gain += lot.unrealised_gain;
+        } else {
+          acc.short_term_gain += lot.unrealised_gain;
+        }
+        return acc;
+      },
+      { cost_value: 0, current_value: 0, unrealised_gain: 0, short_term_gain: 0, long_term_gain: 0 }
+    );
+
+    return {
+      cost_value: PortfolioUtil.roundAmount(totals.cost_value),
+      current_value: PortfolioUtil.roundAmount(totals.current_value),
+      unrealised_gain: PortfolioUtil.roundAmount(totals.unrealised_gain),
+      short_term_gain: PortfolioUtil.roundAmount(totals.short_term_gain),
+      long_term_gain: PortfolioUtil.roundAmount(totals.long_term_gain)
+    };
+  }
+
+  /**
+   * Group valued lots into holdings per scheme and folio
+   */
+  static groupLotsByHolding(lots: UnrealisedLot[]): HoldingUnrealisedGains[] {
+    const groups = new Map<string, UnrealisedLot[]>();
+
+    lots.forEach(lot => {
+      const key = `${lot.scheme_code}|${lot.folio_no || ''}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(lot);
+    });
+
+    return Array.from(groups.values())
+      .map(holdingLots => {
+        const first = holdingLots[0];
+        const pendingDates = holdingLots
+          .filter(lot => lot.term === 'short_term' && lot.long_term_date)
+          .map(lot => lot.long_term_date as string)
+          .sort();
+
+        return {
+          scheme_code: first.scheme_code,
+          scheme_name: first.scheme_name,
+          folio_no: first.folio_no,
+          asset_class: first.asset_class,
+          total_units: Math.round(holdingLots.reduce((sum, lot) => sum + lot.remaining_units, 0) * 10000) / 10000,
+          latest_nav: first.latest_nav,
+          latest_nav_date: first.latest_nav_date,
+          next_long_term_date: pendingDates.length > 0 ? pendingDates[0] : null,
+          ...this.totalUnrealised(holdingLots),
+          lots: holdingLots
+        };
+      })
+      .sort((a, b) => b.current_value - a.current_value);
+  }
+
+  /**
+   * Plan redemptions that book long-term equity gains up to an exemption budget
+   * Only the leading long-term lots of each folio can be sold without also
+   * selling short-term units, since redemptions are matched FIFO.
+   */
+  static planLtcgHarvest(lots: UnrealisedLot[], exemptionBudget: number): HarvestRedemption[] {
+    const redemptions: HarvestRedemption[] = [];
+    let budget = exemptionBudget;
+
+    this.groupLotsByHolding(lots.filter(lot => lot.asset_class === 'equity')).forEach(holding => {
+      if (budget <= 0) return;
+
+      let units = 0;
+      let value = 0;
+      let gain = 0;
+      let bestUnits = 0;
+      let bestValue = 0;
+      let bestGain = 0;
+
+      for (const lot of holding.lots) {
+        if (lot.term !== 'long_term' || budget - gain <= 0) break;
+
+        const gainPerUnit = lot.unrealised_gain / lot.remaining_units;
+        const lotUnits = gainPerUnit > 0
+          ? Math.min(lot.remaining_units, (budget - gain) / gainPerUnit)
+          : lot.remaining_units;
+
+        units += lotUnits;
+        value += lotUnits * lot.latest_nav;
+        gain += lotUnits * gainPerUnit;
+
+        // Never end a redemption on loss-making lots
+        if (gain > bestGain) {
+          bestUnits = units;
+          bestValue = value;
+          bestGain = gain;
+        }
+
+        if (lotUnits < lot.remaining_units) break;
+      }
+
+      if (bestGain > 0 && bestUnits > 0) {
+        budget -= bestGain;
+        redemptions.push({
+          scheme_code: holding.scheme_code,
+          scheme_name: holding.scheme_name,
+          folio_no: holding.folio_no,
+          units: Math.floor(bestUnits * 1000) / 1000,
+          estimated_value: PortfolioUtil.roundAmount(bestValue),
+          estimated_gain: PortfolioUtil.roundAmount(bestGain)
+        });
+      }
+    });
+
+    return redemptions;
+  }
+}
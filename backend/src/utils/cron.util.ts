@@ -0,0 +1,298 @@
+// backend/src/utils/cron.util.ts
+// 5-field cron parsing and next-run evaluation (minute hour day-of-month month day-of-week)
+// Schedules are always evaluated in Asia/Kolkata, independent of the server TZ.
+
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
+export const MISFIRE_POLICIES: MisfirePolicy[] = ['skip', 'run_once', 'run_all'];
+
+export const DEFAULT_MISFIRE_POLICY: MisfirePolicy = 'run_once';
+
+// Upper bound on catch-up executions for the run_all policy
+export const MAX_MISFIRE_CATCHUP_RUNS = 10;
+
+export const CRON_TIMEZONE = 'Asia/Kolkata';
+
+// IST is a fixed +05:30 offset (no daylight saving), so no tz database is needed
+const TIMEZONE_OFFSET_MINUTES = 330;
+const TIMEZONE_OFFSET_MS = TIMEZONE_OFFSET_MINUTES * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Expressions that never match within this many years (e.g. 30 Feb) are rejected
+const CRON_SEARCH_YEARS = 5;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+];
+
+export interface ParsedCron {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;   // 0 = Sunday (7 is folded into 0)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export class CronUtil {
+  /**
+   * Parse a cron expression; throws with a field-specific message when invalid
+   * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 9-17/2), month and
+   * day-of-week names (JAN, MON-FRI) and the @daily style macros.
+   */
+  static parse(expression: string): ParsedCron {
+    if (!expression || typeof expression !== 'string') {
+      throw new Error('Cron expression is required');
+    }
+
+    const trimmed = expression.trim();
+    const normalized = CRON_MACROS[trimmed.toLowerCase()] || trimmed;
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+      this.parseField(part, CRON_FIELDS[index])
+    );
+
+    // Sunday may be written as 0 or 7
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return {
+      expression: trimmed,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      // Standard cron: a field starting with * counts as unrestricted
+      dayOfMonthRestricted: !parts[2].startsWith('*'),
+      dayOfWeekRestricted: !parts[4].startsWith('*')
+    };
+  }
+
+  /**
+   * Validation message for an expression, or null when it is valid and fires at least once
+   */
+  static validate(expression: string): string | null {
+    try {
+      const cron = this.parse(expression);
+      if (!this.getNextRun(cron)) {
+        return `Cron expression never fires within ${CRON_SEARCH_YEARS} years`;
+      }
+      return null;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+
+  static isValid(expression: string): boolean {
+    return this.validate(expression) === null;
+  }
+
+  /**
+   * First fire time strictly after `after` (minute precision), or null if none
+   */
+  static getNextRun(expression: string | ParsedCron, after: Date = new Date()): Date | null {
+    const cron = typeof expression === 'string' ? this.parse(expression) : expression;
+
+    // Work on IST wall-clock time stored in the UTC fields of a Date
+    const wall = new Date(
+      Math.floor((after.getTime() + TIMEZONE_OFFSET_MS) / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+    );
+    const lastYear = wall.getUTCFullYear() + CRON_SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= lastYear) {
+      if (!cron.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(cron, wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!cron.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!cron.minutes.has(wall.getUTCMinutes())) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return new Date(wall.getTime() - TIMEZONE_OFFSET_MS);
+    }
+
+    return null;
+  }
+
+  /**
+   * Next `count` fire times after `after`
+   */
+  static getNextRuns(expression: string | ParsedCron, count: number, after: Date = new Date()): Date[] {
+    const cron = typeof expression === 'string' ? this.parse(expression) : expression;
+    const runs: Date[] = [];
+    let cursor: Date | null = after;
+
+    while (runs.length < count) {
+      cursor = this.getNextRun(cron, cursor);
+      if (!cursor) break;
+      runs.push(cursor);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Fire times in (from, to], capped at `limit` (earliest first)
+   */
+  static getRunsBetween(
+    expression: string | ParsedCron,
+    from: Date,
+    to: Date,
+    limit: number = MAX_MISFIRE_CATCHUP_RUNS
+  ): Date[] {
+    const cron = typeof expression === 'string' ? this.parse(expression) : expression;
+    const runs: Date[] = [];
+    let cursor: Date | null = from;
+
+    while (runs.length < limit) {
+      cursor = this.getNextRun(cron, cursor);
+      if (!cursor || cursor.getTime() > to.getTime()) break;
+      runs.push(cursor);
+    }
+
+    return runs;
+  }
+
+  /**
+   * ISO-8601 string in the scheduler timezone, e.g. 2025-01-03T23:00:00+05:30
+   */
+  static toTimezoneISOString(date: Date): string {
+    const wall = new Date(date.getTime() + TIMEZONE_OFFSET_MS).toISOString().substring(0, 19);
+    const hours = String(Math.floor(TIMEZONE_OFFSET_MINUTES / 60)).padStart(2, '0');
+    const minutes = String(TIMEZONE_OFFSET_MINUTES % 60).padStart(2, '0');
+    return `${wall}+${hours}:${minutes}`;
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  /**
+   * Day match with standard cron semantics: when both day fields are
+   * restricted, a day matching either one fires
+   */
+  private static matchesDay(cron: ParsedCron, wall: Date): boolean {
+    const domMatch = cron.daysOfMonth.has(wall.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(wall.getUTCDay());
+
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+
+  private static parseField(text: string, spec: CronFieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of text.split(',')) {
+      const [rangePart, stepPart, extra] = item.split('/');
+      if (!rangePart || extra !== undefined) {
+        throw new Error(`Invalid ${spec.name} field: "${text}"`);
+      }
+
+      let step = 1;
+      if (stepPart !== undefined) {
+        if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+          throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+        }
+        step = parseInt(stepPart, 10);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (rangePart === '*') {
+        start = spec.min;
+        // * in day-of-week means 0-6; 7 is only an alias for Sunday
+        end = spec.names === DAY_NAMES ? 6 : spec.max;
+      } else if (rangePart.includes('-')) {
+        const [from, to, rest] = rangePart.split('-');
+        if (rest !== undefined) {
+          throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+        }
+        start = this.parseValue(from, spec);
+        end = this.parseValue(to, spec);
+        if (start > end) {
+          throw new Error(`Range "${rangePart}" in ${spec.name} field must be ascending`);
+        }
+      } else {
+        start = this.parseValue(rangePart, spec);
+        // "5/15" means every 15 starting at 5
+        end = stepPart !== undefined ? spec.max : start;
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(token: string, spec: CronFieldSpec): number {
+    if (spec.names) {
+      const index = spec.names.indexOf(token.toUpperCase());
+      if (index !== -1) {
+        return index + (spec.nameOffset || 0);
+      }
+    }
+
+    if (!/^\d+$/.test(token)) {
+      throw new Error(`Invalid ${spec.name} value "${token}"`);
+    }
+
+    const value = parseInt(token, 10);
+    if (value < spec.min || value > spec.max) {
+      throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+    }
+
+    return value;
+  }
+}
@@ -3,10 +3,23 @@
 import crypto from 'crypto';
 
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY!;
+// Keyring for versioned ciphertext: "keyId:secret,keyId:secret"; defaults to ENCRYPTION_KEY as "default"
+const ENCRYPTION_KEYS = process.env.ENCRYPTION_KEYS;
+// Key used for new ciphertext; defaults to the first keyring entry
+const ENCRYPTION_KEY_ID = process.env.ENCRYPTION_KEY_ID;
+const BLIND_INDEX_KEY = process.env.BLIND_INDEX_KEY;
 const IV_LENGTH = 16;
+const GCM_IV_LENGTH = 12;
+const CIPHERTEXT_VERSION = 'v2';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+// SHA-256 hex digest the SQL import processor stores in pan_encrypted instead of ciphertext
+const DIGEST_PATTERN = /^[0-9a-f]{64}$/i;
 
 export class EncryptionUtil {
   private static algorithm = 'aes-256-cbc';
+  private static gcmAlgorithm = 'aes-256-gcm';
+  private static keyring: Map<string, Buffer> | null = null;
+  private static activeKeyId: string | null = null;
   
   // Generate a consistent 32-byte key from the encryption key
   private static getKey(): Buffer {
@@ -19,24 +32,120 @@ export class EncryptionUtil {
       .digest();
   }
 
+  // Parse the keyring once; every secret is stretched to 32 bytes the same way as the legacy key
+  private static getKeyring(): Map<string, Buffer> {
+    if (this.keyring) return this.keyring;
+
+    const keyring = new Map<string, Buffer>();
+    const entries = ENCRYPTION_KEYS
+      ? ENCRYPTION_KEYS.split(',').map(entry => entry.trim()).filter(Boolean)
+      : (ENCRYPTION_KEY ? [`default:${ENCRYPTION_KEY}`] : []);
+
+    for (const entry of entries) {
+      const separator = entry.indexOf(':');
+      const keyId = separator > 0 ? entry.slice(0, separator) : '';
+      const secret = separator > 0 ? entry.slice(separator + 1) : '';
+
+      if (!KEY_ID_PATTERN.test(keyId) || !secret) {
+        throw new Error(`Invalid ENCRYPTION_KEYS entry "${keyId || entry.slice(0, 8)}..." (expected keyId:secret)`);
+      }
+      if (keyring.has(keyId)) {
+        throw new Error(`Duplicate encryption key id: ${keyId}`);
+      }
+
+      keyring.set(keyId, crypto.createHash('sha256').update(secret).digest());
+    }
+
+    if (keyring.size === 0) {
+      throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY must be set in environment variables');
+    }
+
+    const activeKeyId = ENCRYPTION_KEY_ID || keyring.keys().next().value!;
+    if (!keyring.has(activeKeyId)) {
+      throw new Error(`ENCRYPTION_KEY_ID "${activeKeyId}" is not in the keyring`);
+    }
+
+    this.keyring = keyring;
+    this.activeKeyId = activeKeyId;
+    return keyring;
+  }
+
+  // HMAC key for blind indexes; deliberately separate from the encryption keys
+  private static getBlindIndexKey(): Buffer {
+    if (!BLIND_INDEX_KEY) {
+      throw new Error('BLIND_INDEX_KEY is not set in environment variables');
+    }
+    return crypto
+      .createHash('sha256')
+      .update(BLIND_INDEX_KEY)
+      .digest();
+  }
+
+  /**
+   * Fail fast on a missing or malformed keyring or blind index key (called at startup)
+   */
+  static checkConfig(): void {
+    this.getKeyring();
+    this.getBlindIndexKey();
+  }
+
+  /**
+   * Whether legacy iv:hex (AES-256-CBC) values can be decrypted, i.e. ENCRYPTION_KEY is set
+   */
+  static hasLegacyKey(): boolean {
+    return !!ENCRYPTION_KEY;
+  }
+
+  /**
+   * Id of the key new values are encrypted with
+   */
+  static getActiveKeyId(): string {
+    this.getKeyring();
+    return this.activeKeyId!;
+  }
+
+  /**
+   * Ids of every key that can decrypt stored values
+   */
+  static getKeyIds(): string[] {
+    return Array.from(this.getKeyring().keys());
+  }
+
+  /**
+   * Prefix shared by all ciphertext written with a key ("v2:keyId:")
+   */
+  static ciphertextPrefix(keyId: string = this.getActiveKeyId()): string {
+    return `${CIPHERTEXT_VERSION}:${keyId}:`;
+  }
+
   /**
    * Encrypt sensitive data
+   * Format: v2:keyId:iv:ciphertext:authTag (AES-256-GCM, hex encoded)
    */
   static encrypt(text: string): string {
     if (!text) return '';
     
     try {
-      const iv = crypto.randomBytes(IV_LENGTH);
+      const keyId = this.getActiveKeyId();
+      const iv = crypto.randomBytes(GCM_IV_LENGTH);
       const cipher = crypto.createCipheriv(
-        this.algorithm,
-        this.getKey(),
+        this.gcmAlgorithm,
+        this.getKeyring().get(keyId)!,
         iv
-      );
+      ) as crypto.CipherGCM;
+      // Bind the version and key id to the ciphertext
+      cipher.setAAD(Buffer.from(this.ciphertextPrefix(keyId)));
 
-      let encrypted = cipher.update(text, 'utf8');
-      encrypted = Buffer.concat([encrypted, cipher.final()]);
+      const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+      const tag = cipher.getAuthTag();
 
-      return iv.toString('hex') + ':' + encrypted.toString('hex');
+      return [
+        CIPHERTEXT_VERSION,
+        keyId,
+        iv.toString('hex'),
+        encrypted.toString('hex'),
+        tag.toString('hex')
+      ].join(':');
     } catch (error) {
       console.error('Encryption error:', error);
       throw new Error('Failed to encrypt data');
@@ -45,15 +154,21 @@ export class EncryptionUtil {
 
   /**
    * Decrypt sensitive data
+   * Reads versioned (v2) ciphertext with any keyring key and legacy iv:hex (AES-256-CBC) values
+   * Throws when the value is malformed or no configured key decrypts it
    */
   static decrypt(text: string): string {
     if (!text) return '';
     
     try {
       const textParts = text.split(':');
+
+      if (textParts.length === 5 && textParts[0] === CIPHERTEXT_VERSION) {
+        return this.decryptVersioned(textParts);
+      }
+
       if (textParts.length !== 2) {
-        console.warn('Invalid encrypted format');
-        return '';
+        throw new Error('Invalid encrypted format');
       }
 
       const iv = Buffer.from(textParts[0], 'hex');
@@ -69,10 +184,96 @@ export class EncryptionUtil {
       decrypted = Buffer.concat([decrypted, decipher.final()]);
 
       return decrypted.toString('utf8');
+    } catch (error: any) {
+      throw new Error(`Failed to decrypt data: ${error.message}`);
+    }
+  }
+
+  private static decryptVersioned([, keyId, ivHex, encryptedHex, tagHex]: string[]): string {
+    const key = this.getKeyring().get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key id: ${keyId}`);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      this.gcmAlgorithm,
+      key,
+      Buffer.from(ivHex, 'hex')
+    ) as crypto.DecipherGCM;
+    decipher.setAAD(Buffer.from(this.ciphertextPrefix(keyId)));
+    decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(encryptedHex, 'hex')),
+      decipher.final()
+    ]);
+
+    return decrypted.toString('utf8');
+  }
+
+  /**
+   * Whether a stored value is ciphertext (v2 or legacy) rather than a plain value
+   */
+  static isEncrypted(value: string | null | undefined): boolean {
+    return !!value && value.includes(':');
+  }
+
+  /**
+   * Whether a stored value is a one-way SHA-256 digest (SQL import processor); the PAN behind it
+   * cannot be recovered, so it can be neither decrypted nor blind-indexed
+   */
+  static isDigest(value: string | null | undefined): boolean {
+    return !!value && DIGEST_PATTERN.test(value);
+  }
+
+  /**
+   * Key id of a stored value: the v2 key id, 'legacy' for iv:hex, 'digest' for a SHA-256 digest,
+   * 'plaintext' otherwise
+   */
+  static getKeyId(value: string): string {
+    if (this.isDigest(value)) return 'digest';
+    if (!this.isEncrypted(value)) return 'plaintext';
+    const textParts = value.split(':');
+    return textParts.length === 5 && textParts[0] === CIPHERTEXT_VERSION ? textParts[1] : 'legacy';
+  }
+
+  /**
+   * Whether a stored value should be rewritten with the active key
+   */
+  static needsReEncryption(value: string | null | undefined): boolean {
+    return !!value && !value.startsWith(this.ciphertextPrefix());
+  }
+
+  /**
+   * Rewrite a stored value with the active key; plain values are encrypted as-is
+   * Returns null when the value cannot be decrypted with any known key, or is a SHA-256
+   * digest (encrypting the digest would make it indistinguishable from a real value)
+   */
+  static reEncrypt(value: string): string | null {
+    if (!this.needsReEncryption(value)) return value;
+    if (this.isDigest(value)) return null;
+
+    let plain: string;
+    try {
+      plain = this.isEncrypted(value) ? this.decrypt(value) : value;
     } catch (error) {
-      console.error('Decryption error:', error);
-      return '';
+      return null;
     }
+    return plain ? this.encrypt(plain) : null;
+  }
+
+  /**
+   * Keyed blind index (HMAC-SHA256) of a sensitive value for equality lookups
+   * Values are trimmed and uppercased so PAN/IWELL matches are case-insensitive
+   */
+  static blindIndex(value: string | null | undefined): string | null {
+    const normalized = value ? value.trim().toUpperCase() : '';
+    if (!normalized) return null;
+
+    return crypto
+      .createHmac('sha256', this.getBlindIndexKey())
+      .update(normalized)
+      .digest('hex');
   }
 
   /**
@@ -0,0 +1,77 @@
+// backend/src/utils/export.util.ts
+
+import * as XLSX from 'xlsx';
+
+export interface ExportColumn<T = Record<string, any>> {
+  header: string;
+  key: string;
+  value?: (row: T) => any;
+}
+
+export interface ExportSheet<T = Record<string, any>> {
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export class ExportUtil {
+  /**
+   * Escape a single CSV value
+   */
+  static escapeCsvValue(value: any): string {
+    if (value === null || value === undefined) return '';
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  /**
+   * Resolve a column value for a row
+   */
+  static getColumnValue<T>(column: ExportColumn<T>, row: T): any {
+    return column.value ? column.value(row) : (row as any)[column.key];
+  }
+
+  /**
+   * Build the CSV header line
+   */
+  static toCsvHeader<T>(columns: ExportColumn<T>[]): string {
+    return columns.map(column => this.escapeCsvValue(column.header)).join(',');
+  }
+
+  /**
+   * Build a single CSV data line
+   */
+  static toCsvLine<T>(columns: ExportColumn<T>[], row: T): string {
+    return columns.map(column => this.escapeCsvValue(this.getColumnValue(column, row))).join(',');
+  }
+
+  /**
+   * Build a CSV document
+   */
+  static toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    return [this.toCsvHeader(columns), ...rows.map(row => this.toCsvLine(columns, row))].join('\n');
+  }
+
+  /**
+   * Build an Excel workbook buffer with one worksheet per sheet
+   */
+  static toXlsxBuffer(sheets: ExportSheet<any>[]): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    sheets.forEach(sheet => {
+      const data = [
+        sheet.columns.map(column => column.header),
+        ...sheet.rows.map(row => sheet.columns.map(column => this.getColumnValue(column, row)))
+      ];
+      const worksheet = XLSX.utils.aoa_to_sheet(data);
+      // Excel limits sheet names to 31 characters
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name.substring(0, 31));
+    });
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+}
@@ -0,0 +1,115 @@
+// backend/src/utils/goal.util.ts
+
+import { GoalProgress, GoalProjectionPoint } from '../types/goal.types';
+import { CapitalGainsUtil } from './capitalGains.util';
+import { PortfolioUtil } from './portfolio.util';
+
+export interface GoalPlanInput {
+  target_amount: number;
+  target_date: string;
+  expected_return: number;
+  monthly_contribution: number;
+}
+
+export class GoalUtil {
+  /**
+   * Convert an annual return percentage into an equivalent monthly rate
+   */
+  static monthlyRate(annualReturnPercent: number): number {
+    return Math.pow(1 + annualReturnPercent / 100, 1 / 12) - 1;
+  }
+
+  /**
+   * Whole months between two YYYY-MM-DD keys (0 if the target has passed)
+   */
+  static monthsBetween(fromKey: string, toKey: string): number {
+    if (toKey <= fromKey) return 0;
+
+    const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+    const [toYear, toMonth, toDay] = toKey.split('-').map(Number);
+    let months = (toYear - fromYear) * 12 + (toMonth - fromMonth);
+    if (toDay < fromDay) months -= 1;
+
+    return Math.max(0, months);
+  }
+
+  /**
+   * Future value of a lump sum plus a monthly SIP invested at the start of each month
+   */
+  static futureValue(currentValue: number, monthlySip: number, annualReturnPercent: number, months: number): number {
+    if (months <= 0) return currentValue;
+
+    const rate = this.monthlyRate(annualReturnPercent);
+    if (rate === 0) return currentValue + monthlySip * months;
+
+    const growth = Math.pow(1 + rate, months);
+    return currentValue * growth + monthlySip * ((growth - 1) / rate) * (1 + rate);
+  }
+
+  /**
+   * Monthly SIP required to reach the target from the current value
+   */
+  static requiredMonthlySip(
+    targetAmount: number,
+    currentValue: number,
+    annualReturnPercent: number,
+    months: number
+  ): number {
+    if (months <= 0) return Math.max(0, targetAmount - currentValue);
+
+    const rate = this.monthlyRate(annualReturnPercent);
+    const growth = Math.pow(1 + rate, months);
+    const gap = targetAmount - currentValue * growth;
+    if (gap <= 0) return 0;
+
+    if (rate === 0) return gap / months;
+    return gap / (((growth - 1) / rate) * (1 + rate));
+  }
+
+  /**
+   * Progress, required SIP and on-track status for a goal
+   */
+  static calculateProgress(goal: GoalPlanInput, currentValue: number, asOfDate: string): GoalProgress {
+    const months = this.monthsBetween(asOfDate, goal.target_date);
+    const projectedValue = this.futureValue(currentValue, goal.monthly_contribution, goal.expected_return, months);
+    const requiredSip = this.requiredMonthlySip(goal.target_amount, currentValue, goal.expected_return, months);
+
+    return {
+      current_value: PortfolioUtil.roundAmount(currentValue),
+      progress_percentage: goal.target_amount > 0
+        ? Math.min(100, Math.round((currentValue / goal.target_amount) * 10000) / 100)
+        : 0,
+      months_remaining: months,
+      years_remaining: Math.round((months / 12) * 10) / 10,
+      required_monthly_sip: PortfolioUtil.roundAmount(requiredSip),
+      projected_value: PortfolioUtil.roundAmount(projectedValue),
+      shortfall: PortfolioUtil.roundAmount(Math.max(0, goal.target_amount - projectedValue)),
+      on_track: projectedValue >= goal.target_amount
+    };
+  }
+
+  /**
+   * Month-by-month corpus curve to the target date, for the current SIP and
+   * for the SIP required to reach the target
+   */
+  static buildProjection(goal: GoalPlanInput, currentValue: number, asOfDate: string): GoalProjectionPoint[] {
+    const months = this.monthsBetween(asOfDate, goal.target_date);
+    const requiredSip = this.requiredMonthlySip(goal.target_amount, currentValue, goal.expected_return, months);
+    const series: GoalProjectionPoint[] = [];
+
+    for (let month = 0; month <= months; month++) {
+      series.push({
+        date: month === months && months > 0 ? goal.target_date : CapitalGainsUtil.addMonthsToKey(asOfDate, month),
+        projected_value: PortfolioUtil.roundAmount(
+          this.futureValue(currentValue, goal.monthly_contribution, goal.expected_return, month)
+        ),
+        required_path_value: PortfolioUtil.roundAmount(
+          this.futureValue(currentValue, requiredSip, goal.expected_return, month)
+        ),
+        contributions: PortfolioUtil.roundAmount(currentValue + goal.monthly_contribution * month)
+      });
+    }
+
+    return series;
+  }
+}
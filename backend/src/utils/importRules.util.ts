@@ -0,0 +1,248 @@
+// backend/src/utils/importRules.util.ts
+
+import {
+  CustomerImportDraft,
+  CustomerImportSnapshot,
+  ImportFieldChange,
+  ImportStatus,
+  TransactionImportDraft
+} from '../types/import.types';
+import { EncryptionUtil } from './encryption.util';
+import { TransactionUtil } from './transaction.util';
+
+export const IMPORT_CUSTOMER_PREFIXES = ['Mr', 'Mrs', 'Ms', 'Dr', 'Prof'];
+
+// Prefix for rows without a recognised one
+export const IMPORT_DEFAULT_PREFIX = 'Sri';
+
+type ImportAddressType = NonNullable<CustomerImportDraft['address']>['address_type'];
+
+const ADDRESS_TYPES: ImportAddressType[] = ['residential', 'office', 'mailing', 'permanent', 'temporary', 'other'];
+
+// Customer fields compared when an import row matches an existing customer (PAN or IWELL code)
+export const CUSTOMER_UPDATE_FIELDS: Array<keyof Omit<CustomerImportSnapshot, 'customer_id' | 'contact_id'>> = [
+  'name',
+  'pan',
+  'iwell_code',
+  'date_of_birth',
+  'anniversary_date',
+  'family_head_name',
+  'family_head_iwell_code',
+  'referred_by_name'
+];
+
+export class ImportRulesUtil {
+  /**
+   * Trimmed string, or null when empty
+   */
+  static text(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    const trimmed = String(value).trim();
+    return trimmed === '' ? null : trimmed;
+  }
+
+  /**
+   * Known prefixes ("mr.", "DR") in canonical case; anything else becomes Sri
+   */
+  static normalizePrefix(value: any): string {
+    const cleaned = (this.text(value) || '').replace(/\./g, '').trim().toLowerCase();
+    const prefix = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+    return IMPORT_CUSTOMER_PREFIXES.includes(prefix) ? prefix : IMPORT_DEFAULT_PREFIX;
+  }
+
+  static normalizeEmail(value: any): string | null {
+    const email = this.text(value);
+    return email ? email.toLowerCase() : null;
+  }
+
+  /**
+   * Digits only, for matching mobiles stored with different formatting
+   */
+  static mobileDigits(value: any): string | null {
+    const digits = (this.text(value) || '').replace(/[^0-9]/g, '');
+    return digits === '' ? null : digits;
+  }
+
+  /**
+   * Parse an import date to YYYY-MM-DD
+   * Tries DD-MM-YYYY, then MM-DD-YYYY, then YYYY-MM-DD ("/" or "-" separators); null when none is a real date
+   */
+  static parseImportDate(value: any): string | null {
+    const text = this.text(value);
+    if (!text) return null;
+
+    const dayFirst = text.match(/^(\d{1,2})[-\/](\d{1,2})[-\/](\d{4})$/);
+    if (dayFirst) {
+      const [, first, second, year] = dayFirst.map(Number);
+      return this.toDateKey(year, second, first) || this.toDateKey(year, first, second);
+    }
+
+    const yearFirst = text.match(/^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})(?:[T ].*)?$/);
+    if (yearFirst) {
+      const [, year, month, day] = yearFirst.map(Number);
+      return this.toDateKey(year, month, day);
+    }
+
+    return null;
+  }
+
+  /**
+   * Numeric value with thousands separators removed; null when not a number
+   */
+  static parseAmount(value: any): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    const text = this.text(value);
+    if (!text) return null;
+    const parsed = Number(text.replace(/,/g, ''));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Customer row from staged mapped_data
+   */
+  static buildCustomerDraft(mapped: Record<string, any>): {
+    draft: CustomerImportDraft;
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = this.text(mapped.name);
+    if (!name) {
+      errors.push('Name is required');
+    }
+
+    const pan = this.text(mapped.pan)?.toUpperCase() || null;
+    if (pan && !EncryptionUtil.isValidPAN(pan)) {
+      warnings.push('PAN does not match the AAAAA9999A format');
+    }
+
+    const parseOptionalDate = (field: string): string | null => {
+      if (!this.text(mapped[field])) return null;
+      const parsed = this.parseImportDate(mapped[field]);
+      if (!parsed) {
+        warnings.push(`Invalid ${field} ignored: ${mapped[field]}`);
+      }
+      return parsed;
+    };
+
+    const addressLine1 = this.text(mapped.address_line1);
+    const city = this.text(mapped.city);
+    const addressType = (this.text(mapped.address_type) || '').toLowerCase();
+
+    const draft: CustomerImportDraft = {
+      prefix: this.normalizePrefix(mapped.prefix),
+      name: name || '',
+      email: this.normalizeEmail(mapped.email),
+      mobile: this.text(mapped.mobile),
+      pan,
+      iwell_code: this.text(mapped.iwell_code)?.toUpperCase() || null,
+      date_of_birth: parseOptionalDate('date_of_birth'),
+      anniversary_date: parseOptionalDate('anniversary_date'),
+      family_head_name: this.text(mapped.family_head_name),
+      family_head_iwell_code: this.text(mapped.family_head_iwell_code),
+      referred_by_name: this.text(mapped.referred_by_name),
+      // Same placeholders as the SQL processor for partially filled addresses
+      address: addressLine1 || city
+        ? {
+            address_type: ADDRESS_TYPES.find(type => type === addressType) || 'residential',
+            address_line1: addressLine1 || 'Not Provided',
+            address_line2: this.text(mapped.address_line2),
+            city: city || 'Unknown',
+            state: this.text(mapped.state) || 'Unknown',
+            country: this.text(mapped.country) || 'India',
+            pincode: this.text(mapped.pincode) || '000000'
+          }
+        : null
+    };
+
+    return { draft, errors, warnings };
+  }
+
+  /**
+   * Fields an import row would change on an existing customer
+   * Blank import values never clear existing data.
+   */
+  static diffCustomer(existing: CustomerImportSnapshot, draft: CustomerImportDraft): ImportFieldChange[] {
+    const changes: ImportFieldChange[] = [];
+
+    for (const field of CUSTOMER_UPDATE_FIELDS) {
+      const to = draft[field];
+      const from = existing[field];
+      if (to !== null && to !== '' && to !== from) {
+        changes.push({ field, from, to });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Transaction row from staged mapped_data, with the customer and transaction type already resolved
+   */
+  static buildTransactionDraft(
+    mapped: Record<string, any>,
+    refs: { customerId: number | null; txnTypeId: number | null }
+  ): {
+    draft: TransactionImportDraft | null;
+    errors: string[];
+    warnings: string[];
+  } {
+    const txnDate = this.parseImportDate(mapped.txn_date);
+
+    const candidate = {
+      customer_id: refs.customerId || 0,
+      scheme_code: TransactionUtil.sanitizeSchemeCode(this.text(mapped.scheme_code) || ''),
+      scheme_name: this.text(mapped.scheme_name) || '',
+      folio_no: this.text(mapped.folio_no),
+      txn_type_id: refs.txnTypeId || 0,
+      txn_date: txnDate || '',
+      total_amount: this.parseAmount(mapped.total_amount) as number,
+      units: this.parseAmount(mapped.units) as number,
+      nav: this.parseAmount(mapped.nav) as number,
+      stamp_duty: this.parseAmount(mapped.stamp_duty)
+    };
+
+    const validation = TransactionUtil.validateTransaction(candidate);
+
+    // Name the unresolved import value instead of the generic "is required"
+    const errors = validation.errors.map(error => {
+      if (error.startsWith('Customer ID')) {
+        return `No customer found for IWELL code ${this.text(mapped.iwell_code) || '(blank)'}`;
+      }
+      if (error.startsWith('Transaction type')) {
+        return `Unknown transaction type: ${this.text(mapped.txn_code) || '(blank)'}`;
+      }
+      if (error.startsWith('Transaction date') && this.text(mapped.txn_date)) {
+        return `Invalid transaction date: ${mapped.txn_date}`;
+      }
+      return error;
+    });
+
+    if (!candidate.scheme_name) {
+      errors.push('Scheme name is required');
+    }
+
+    return {
+      draft: errors.length === 0 ? candidate : null,
+      errors,
+      warnings: validation.warnings
+    };
+  }
+
+  /**
+   * Final session status once every staged row is processed
+   */
+  static resolveSessionStatus(counts: { failed: number }): ImportStatus {
+    return counts.failed > 0 ? 'completed_with_errors' : 'completed';
+  }
+
+  private static toDateKey(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return date.toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,258 @@
+// backend/src/utils/jtbdRules.util.ts
+
+import { AssetClass } from '../types/capitalGains.types';
+import {
+  JTBDRule,
+  JTBDRuleContext,
+  JTBDActionCandidate,
+  JTBDPriority
+} from '../types/jtbd.types';
+import { CapitalGainsUtil } from './capitalGains.util';
+import { PortfolioUtil } from './portfolio.util';
+
+export const DEFAULT_TARGET_ALLOCATION: Record<AssetClass, number> = {
+  equity: 60,
+  debt: 30,
+  other: 10
+};
+
+const LIQUID_KEYWORDS = ['liquid', 'overnight', 'money market'];
+
+const PRIORITY_ORDER: Record<JTBDPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+const formatAmount = (amount: number): string =>
+  `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+/**
+ * Asset class allocation drifted from the target by more than the threshold
+ */
+export const createCategoryDriftRule = (thresholdPercent = 10): JTBDRule => ({
+  code: 'category_drift',
+  name: 'Category drift from target allocation',
+  evaluate: (context: JTBDRuleContext): JTBDActionCandidate[] => {
+    const target = context.target_allocation || DEFAULT_TARGET_ALLOCATION;
+    const values: Record<AssetClass, number> = { equity: 0, debt: 0, other: 0 };
+
+    context.holdings.forEach(holding => {
+      const assetClass = CapitalGainsUtil.classifyAssetClass(holding.category, holding.sub_category);
+      values[assetClass] += parseFloat(holding.current_value as any) || 0;
+    });
+
+    const total = values.equity + values.debt + values.other;
+    if (total <= 0) return [];
+
+    const drifts = (Object.keys(values) as AssetClass[]).map(assetClass => ({
+      asset_class: assetClass,
+      current: (values[assetClass] / total) * 100,
+      target: target[assetClass] || 0,
+      drift: (values[assetClass] / total) * 100 - (target[assetClass] || 0)
+    }));
+
+    const worst = drifts.reduce((max, item) => Math.abs(item.drift) > Math.abs(max.drift) ? item : max);
+    if (Math.abs(worst.drift) < thresholdPercent) return [];
+
+    const direction = worst.drift > 0 ? 'above' : 'below';
+    const amountToMove = (Math.abs(worst.drift) / 100) * total;
+
+    return [{
+      action_key: `category_drift:${worst.asset_class}:${direction}`,
+      priority: Math.abs(worst.drift) >= thresholdPercent * 2 ? 'high' : 'medium',
+      type: 'rebalancing',
+      title: 'Portfolio Rebalancing Required',
+      description: `${worst.asset_class.charAt(0).toUpperCase()}${worst.asset_class.slice(1)} allocation is ` +
+        `${Math.abs(worst.drift).toFixed(1)}% ${direction} target ` +
+        `(${worst.current.toFixed(1)}% vs ${worst.target}%).`,
+      impact: `Move about ${formatAmount(amountToMove)} to restore the target allocation`,
+      estimated_value: PortfolioUtil.roundAmount(amountToMove),
+      action_button: { label: 'Rebalance Now', action: 'rebalance' },
+      metadata: { allocation: drifts.map(item => ({
+        ...item,
+        current: Math.round(item.current * 100) / 100,
+        drift: Math.round(item.drift * 100) / 100
+      })) }
+    }];
+  }
+});
+
+/**
+ * SIP-like monthly purchases that skipped the latest instalment
+ * A scheme/folio counts as a SIP when it had purchases in at least
+ * minMonths of the last six months.
+ */
+export const createMissedSipRule = (minMonths = 3, graceDays = 7): JTBDRule => ({
+  code: 'missed_sip',
+  name: 'Missed SIP instalment',
+  evaluate: (context: JTBDRuleContext): JTBDActionCandidate[] => {
+    const windowStart = CapitalGainsUtil.addMonthsToKey(context.as_of_date, -6);
+    const purchases = new Map<string, { scheme_name: string; folio_no?: string; dates: string[]; amounts: number[] }>();
+
+    context.transactions
+      .filter(txn => txn.txn_type === 'Addition')
+      .forEach(txn => {
+        const dateKey = PortfolioUtil.toDateKey(txn.txn_date);
+        if (dateKey < windowStart) return;
+
+        const key = `${txn.scheme_code}|${txn.folio_no || ''}`;
+        if (!purchases.has(key)) {
+          purchases.set(key, { scheme_name: txn.scheme_name, folio_no: txn.folio_no, dates: [], amounts: [] });
+        }
+        const entry = purchases.get(key)!;
+        entry.dates.push(dateKey);
+        entry.amounts.push(Math.abs(parseFloat(txn.total_amount as string)) || 0);
+      });
+
+    const actions: JTBDActionCandidate[] = [];
+
+    purchases.forEach((entry, key) => {
+      const months = new Set(entry.dates.map(date => date.substring(0, 7)));
+      if (months.size < minMonths) return;
+
+      const lastPurchase = entry.dates.sort()[entry.dates.length - 1];
+      const dueDate = CapitalGainsUtil.addMonthsToKey(lastPurchase, 1);
+      if (context.as_of_date <= PortfolioUtil.addDaysToKey(dueDate, graceDays)) return;
+
+      const typicalAmount = entry.amounts.sort((a, b) => a - b)[Math.floor(entry.amounts.length / 2)];
+
+      actions.push({
+        action_key: `missed_sip:${key}:${dueDate.substring(0, 7)}`,
+        priority: 'high',
+        type: 'goal-based',
+        title: 'Missed SIP Instalment',
+        description: `No purchase recorded in ${entry.scheme_name}` +
+          `${entry.folio_no ? ` (folio ${entry.folio_no})` : ''} since ${lastPurchase}; ` +
+          `the instalment due around ${dueDate} appears to have been missed.`,
+        impact: `Resume the ${formatAmount(typicalAmount)} monthly investment to stay on track`,
+        deadline: CapitalGainsUtil.addMonthsToKey(dueDate, 1),
+        estimated_value: PortfolioUtil.roundAmount(typicalAmount),
+        action_button: { label: 'Review SIP', action: 'modify-sip' },
+        metadata: { scheme_key: key, last_purchase_date: lastPurchase, due_date: dueDate }
+      });
+    });
+
+    return actions;
+  }
+});
+
+/**
+ * Large balances sitting untouched in liquid / overnight funds
+ */
+export const createIdleLiquidFundsRule = (minValue = 100000, idleDays = 90): JTBDRule => ({
+  code: 'idle_liquid_funds',
+  name: 'Idle money in liquid funds',
+  evaluate: (context: JTBDRuleContext): JTBDActionCandidate[] => {
+    return context.holdings
+      .filter(holding => {
+        const label = `${holding.category || ''} ${holding.sub_category || ''} ${holding.scheme_name || ''}`.toLowerCase();
+        if (!LIQUID_KEYWORDS.some(keyword => label.includes(keyword))) return false;
+        if ((parseFloat(holding.current_value as any) || 0) < minValue) return false;
+        if (!holding.last_transaction_date) return true;
+        return CapitalGainsUtil.daysBetweenKeys(
+          PortfolioUtil.toDateKey(holding.last_transaction_date),
+          context.as_of_date
+        ) >= idleDays;
+      })
+      .map(holding => {
+        const value = parseFloat(holding.current_value as any) || 0;
+        return {
+          action_key: `idle_liquid_funds:${holding.scheme_code}|${holding.folio_no || ''}`,
+          priority: (value >= minValue * 5 ? 'high' : 'medium') as JTBDPriority,
+          type: 'opportunity' as const,
+          title: 'Idle Money in Liquid Fund',
+          description: `${formatAmount(value)} has been parked in ${holding.scheme_name} ` +
+            `for over ${idleDays} days.`,
+          impact: 'Consider an STP into equity or a short duration fund aligned to goals',
+          estimated_value: PortfolioUtil.roundAmount(value),
+          action_button: { label: 'Plan STP', action: 'plan-stp' },
+          metadata: {
+            scheme_code: holding.scheme_code,
+            folio_no: holding.folio_no,
+            last_transaction_date: holding.last_transaction_date
+          }
+        };
+      });
+  }
+});
+
+/**
+ * Birthday or anniversary within the look-ahead window
+ */
+export const createPersonalEventRule = (lookAheadDays = 7): JTBDRule => ({
+  code: 'personal_event',
+  name: 'Upcoming birthday or anniversary',
+  evaluate: (context: JTBDRuleContext): JTBDActionCandidate[] => {
+    if (context.customer.survival_status === 'deceased') return [];
+
+    const events = [
+      { kind: 'birthday', label: 'Birthday', date: context.customer.date_of_birth },
+      { kind: 'anniversary', label: 'Anniversary', date: context.customer.anniversary_date }
+    ];
+
+    const actions: JTBDActionCandidate[] = [];
+
+    events.forEach(event => {
+      if (!event.date) return;
+
+      const monthDay = PortfolioUtil.toDateKey(event.date).substring(5);
+      const year = parseInt(context.as_of_date.substring(0, 4));
+      // 29-Feb events fall back to 28-Feb in non-leap years
+      const onYear = (y: number): string =>
+        monthDay === '02-29' && new Date(Date.UTC(y, 1, 29)).getUTCMonth() !== 1 ? `${y}-02-28` : `${y}-${monthDay}`;
+
+      let nextDate = onYear(year);
+      if (nextDate < context.as_of_date) {
+        nextDate = onYear(year + 1);
+      }
+
+      const daysAway = CapitalGainsUtil.daysBetweenKeys(context.as_of_date, nextDate);
+      if (daysAway < 0 || daysAway > lookAheadDays) return;
+
+      actions.push({
+        action_key: `personal_event:${event.kind}:${nextDate.substring(0, 4)}`,
+        priority: daysAway <= 1 ? 'medium' : 'low',
+        type: 'review',
+        title: `${event.label} Coming Up`,
+        description: daysAway === 0
+          ? `${context.customer.name}'s ${event.kind} is today.`
+          : `${context.customer.name}'s ${event.kind} is on ${nextDate} (in ${daysAway} day${daysAway === 1 ? '' : 's'}).`,
+        impact: 'Good moment to reach out and schedule a portfolio review',
+        deadline: nextDate,
+        action_button: { label: 'Send Wishes', action: 'send-greeting' },
+        metadata: { event: event.kind, event_date: nextDate }
+      });
+    });
+
+    return actions;
+  }
+});
+
+export const DEFAULT_JTBD_RULES: JTBDRule[] = [
+  createCategoryDriftRule(),
+  createMissedSipRule(),
+  createIdleLiquidFundsRule(),
+  createPersonalEventRule()
+];
+
+export class JtbdRulesUtil {
+  /**
+   * Sort actions by priority, then nearest deadline, then estimated value
+   */
+  static comparePriority(
+    a: { priority: JTBDPriority; deadline?: string; estimated_value?: number },
+    b: { priority: JTBDPriority; deadline?: string; estimated_value?: number }
+  ): number {
+    if (a.priority !== b.priority) {
+      return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+    }
+    if ((a.deadline || '') !== (b.deadline || '')) {
+      if (!a.deadline) return 1;
+      if (!b.deadline) return -1;
+      return a.deadline.localeCompare(b.deadline);
+    }
+    return (b.estimated_value || 0) - (a.estimated_value || 0);
+  }
+}
@@ -0,0 +1,285 @@
+// backend/src/utils/navParser.util.ts
+// Parsers shared by the NAV data providers: AMFI NAVAll.txt text, MFAPI.in JSON and CSV NAV files.
+// All parsers return ParsedNavRecord[] and drop rows without a scheme code, positive NAV or valid date.
+
+import { ParsedNavRecord } from '../types/nav.types';
+
+export interface MfapiResponse {
+  meta: {
+    fund_house: string;
+    scheme_name: string;
+    scheme_code: number;
+  };
+  data: Array<{
+    date: string;
+    nav: string;
+  }>;
+  status: string;
+}
+
+const MONTH_MAP: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+// Accepted CSV header names (normalized to lower_snake_case) per record field
+const CSV_COLUMN_ALIASES: Record<keyof ParsedNavRecord, string[]> = {
+  scheme_code: ['scheme_code', 'code', 'amfi_code'],
+  scheme_name: ['scheme_name', 'name'],
+  nav_value: ['nav_value', 'nav', 'net_asset_value'],
+  nav_date: ['nav_date', 'date'],
+  repurchase_price: ['repurchase_price'],
+  sale_price: ['sale_price'],
+  isin_div_payout_growth: ['isin_div_payout_growth', 'isin_div_payout_isin_growth', 'isin_growth', 'isin'],
+  isin_div_reinvestment: ['isin_div_reinvestment', 'isin_reinvestment'],
+  amc_name: ['amc_name', 'amc', 'fund_house'],
+  scheme_type: ['scheme_type'],
+  scheme_category: ['scheme_category', 'category']
+};
+
+// Section header lines of NAVAll.txt, e.g. "Open Ended Schemes(Debt Scheme - Banking and PSU Fund)"
+const AMFI_SECTION_PATTERN = /^(.*\bSchemes?)\s*\((.+)\)$/i;
+
+export class NavParserUtil {
+  /**
+   * AMFI NAVAll.txt format: semicolon separated, one header row, then scheme type/category
+   * section lines and fund house (AMC) lines before each block of 6-field scheme rows.
+   * The current section and AMC are attached to every record; other rows are skipped.
+   */
+  static parseAmfiText(body: string): ParsedNavRecord[] {
+    const lines = body.replace(/\r?\n/g, '\n').split('\n');
+    const headers = lines[0].split(';').map(header => header.trim());
+    const records: ParsedNavRecord[] = [];
+
+    let amcName: string | undefined;
+    let schemeType: string | undefined;
+    let schemeCategory: string | undefined;
+
+    for (let i = 1; i < lines.length; i++) {
+      const fields = lines[i].split(';');
+
+      if (fields.length === 1) {
+        const line = fields[0].trim();
+        const section = line.match(AMFI_SECTION_PATTERN);
+
+        if (section) {
+          schemeType = section[1].trim();
+          schemeCategory = section[2].trim();
+          amcName = undefined;
+        } else if (line !== '') {
+          amcName = line;
+        }
+        continue;
+      }
+
+      if (fields.length !== 6 || fields[0].trim() === '') {
+        continue;
+      }
+
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        row[header] = fields[index];
+      });
+
+      const record: ParsedNavRecord = {
+        scheme_code: row['Scheme Code']?.trim() || '',
+        scheme_name: row['Scheme Name']?.trim() || '',
+        nav_value: this.parseNumber(row['Net Asset Value']),
+        nav_date: this.parseDate(row['Date']),
+        isin_div_payout_growth: row['ISIN Div Payout/ ISIN Growth']?.trim(),
+        isin_div_reinvestment: row['ISIN Div Reinvestment']?.trim(),
+        amc_name: amcName,
+        scheme_type: schemeType,
+        scheme_category: schemeCategory
+      };
+
+      if (this.isValidRecord(record)) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * CSV with a header row; columns are matched by name (see CSV_COLUMN_ALIASES),
+   * so scheme_code, nav_date and nav_value are the only required ones
+   */
+  static parseCsv(body: string): ParsedNavRecord[] {
+    const lines = body.replace(/^\uFEFF/, '').replace(/\r?\n/g, '\n').split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const headers = this.splitCsvLine(lines[0]).map(header =>
+      header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+    );
+
+    const columnIndex = (field: keyof ParsedNavRecord): number =>
+      headers.findIndex(header => CSV_COLUMN_ALIASES[field].includes(header));
+
+    const codeIndex = columnIndex('scheme_code');
+    const dateIndex = columnIndex('nav_date');
+    const navIndex = columnIndex('nav_value');
+
+    if (codeIndex === -1 || dateIndex === -1 || navIndex === -1) {
+      throw new Error('CSV NAV file must have scheme_code, nav_date and nav_value columns');
+    }
+
+    const nameIndex = columnIndex('scheme_name');
+    const repurchaseIndex = columnIndex('repurchase_price');
+    const saleIndex = columnIndex('sale_price');
+    const growthIsinIndex = columnIndex('isin_div_payout_growth');
+    const reinvestIsinIndex = columnIndex('isin_div_reinvestment');
+    const amcIndex = columnIndex('amc_name');
+    const typeIndex = columnIndex('scheme_type');
+    const categoryIndex = columnIndex('scheme_category');
+
+    const optional = (fields: string[], index: number): string | undefined =>
+      index === -1 ? undefined : (fields[index]?.trim() || undefined);
+
+    const records: ParsedNavRecord[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      const fields = this.splitCsvLine(lines[i]);
+      const repurchase = optional(fields, repurchaseIndex);
+      const sale = optional(fields, saleIndex);
+
+      const record: ParsedNavRecord = {
+        scheme_code: fields[codeIndex]?.trim() || '',
+        scheme_name: optional(fields, nameIndex) || '',
+        nav_value: this.parseNumber(fields[navIndex]),
+        nav_date: this.parseDate(fields[dateIndex]),
+        repurchase_price: repurchase ? this.parseNumber(repurchase) || undefined : undefined,
+        sale_price: sale ? this.parseNumber(sale) || undefined : undefined,
+        isin_div_payout_growth: optional(fields, growthIsinIndex),
+        isin_div_reinvestment: optional(fields, reinvestIsinIndex),
+        amc_name: optional(fields, amcIndex),
+        scheme_type: optional(fields, typeIndex),
+        scheme_category: optional(fields, categoryIndex)
+      };
+
+      if (this.isValidRecord(record)) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * MFAPI.in /mf/:code response (dates are DD-MM-YYYY, newest first)
+   */
+  static parseMfapiResponse(response: MfapiResponse): ParsedNavRecord[] {
+    if (!response.data || response.data.length === 0) {
+      return [];
+    }
+
+    const schemeCode = String(response.meta.scheme_code);
+    const schemeName = response.meta.scheme_name;
+
+    return response.data
+      .map(entry => ({
+        scheme_code: schemeCode,
+        scheme_name: schemeName,
+        nav_value: this.parseNumber(entry.nav),
+        nav_date: this.parseDate(entry.date)
+      }))
+      .filter(record => this.isValidRecord(record));
+  }
+
+  /**
+   * DD-Mon-YYYY (AMFI), DD-MM-YYYY (MFAPI), DD/MM/YYYY or YYYY-MM-DD; local midnight, null when invalid
+   */
+  static parseDate(value: string | undefined): Date | null {
+    if (!value || value.trim() === '') {
+      return null;
+    }
+
+    const trimmed = value.trim();
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const dayFirst = trimmed.match(/^(\d{1,2})[-/]([A-Za-z]{3}|\d{1,2})[-/](\d{4})$/);
+
+    if (iso) {
+      year = parseInt(iso[1], 10);
+      month = parseInt(iso[2], 10) - 1;
+      day = parseInt(iso[3], 10);
+    } else if (dayFirst) {
+      day = parseInt(dayFirst[1], 10);
+      year = parseInt(dayFirst[3], 10);
+      const monthToken = dayFirst[2];
+      month = /^\d+$/.test(monthToken)
+        ? parseInt(monthToken, 10) - 1
+        : MONTH_MAP[monthToken.toLowerCase()] ?? -1;
+    } else {
+      return null;
+    }
+
+    if (month < 0 || month > 11 || year < 1900) {
+      return null;
+    }
+
+    const date = new Date(year, month, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+      return null;
+    }
+
+    return date;
+  }
+
+  /**
+   * Number with thousands separators; 0 for blanks, '-' and 'N.A.'
+   */
+  static parseNumber(value: string | undefined): number {
+    if (!value || value.trim() === '' || value.trim() === '-' || value.trim() === 'N.A.') {
+      return 0;
+    }
+
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private static isValidRecord(record: ParsedNavRecord): boolean {
+    return record.scheme_code !== '' && record.nav_value > 0 && record.nav_date !== null;
+  }
+
+  /**
+   * Split one CSV line, honouring double-quoted fields and "" escapes
+   */
+  private static splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    fields.push(current);
+    return fields;
+  }
+}
@@ -34,13 +34,32 @@ export class PortfolioUtil {
 
   /**
    * Calculate XIRR (Extended Internal Rate of Return)
-   * Using Newton-Raphson method for IRR calculation
+   * Returns the annualised rate as a percentage, or 0 if no rate can be found
    */
   static calculateXIRR(
     cashFlows: Array<{ date: Date; amount: number }>,
     guess: number = 0.1
   ): number {
-    if (!cashFlows || cashFlows.length < 2) return 0;
+    const rate = this.solveXIRR(cashFlows, guess);
+    if (rate === null) return 0;
+    return Math.round(rate * 10000) / 100; // Return as percentage
+  }
+
+  /**
+   * Solve for the XIRR rate (as a decimal, e.g. 0.12 for 12%)
+   * Tries Newton-Raphson first and falls back to bisection when it diverges
+   * Returns null when the cash flows have no sign change or no root is bracketed
+   */
+  static solveXIRR(
+    cashFlows: Array<{ date: Date; amount: number }>,
+    guess: number = 0.1
+  ): number | null {
+    if (!cashFlows || cashFlows.length < 2) return null;
+
+    // An IRR only exists if money flows both in and out
+    const hasOutflow = cashFlows.some(cf => cf.amount < 0);
+    const hasInflow = cashFlows.some(cf => cf.amount > 0);
+    if (!hasOutflow || !hasInflow) return null;
 
     // Sort cash flows by date
     const sortedFlows = [...cashFlows].sort((a, b) => 
@@ -49,38 +68,176 @@ export class PortfolioUtil {
 
     const firstDate = new Date(sortedFlows[0].date);
     
-    // Convert dates to days from first date
+    // Convert dates to year fractions from first date
     const flows = sortedFlows.map(cf => ({
-      days: this.daysBetween(firstDate, new Date(cf.date)),
+      years: (new Date(cf.date).getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24 * 365),
       amount: cf.amount
     }));
 
+    const npv = (rate: number): number =>
+      flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+    const dnpv = (rate: number): number =>
+      flows.reduce(
+        (sum, flow) => sum - flow.amount * flow.years / Math.pow(1 + rate, flow.years + 1),
+        0
+      );
+
     // Newton-Raphson iteration
     let rate = guess;
     const maxIterations = 100;
-    const tolerance = 0.0001;
+    const tolerance = 0.0000001;
 
     for (let i = 0; i < maxIterations; i++) {
-      let npv = 0;
-      let dnpv = 0;
-
-      flows.forEach(flow => {
-        const daysFraction = flow.days / 365;
-        const discount = Math.pow(1 + rate, daysFraction);
-        npv += flow.amount / discount;
-        dnpv -= flow.amount * daysFraction / (discount * (1 + rate));
-      });
+      const value = npv(rate);
+      const derivative = dnpv(rate);
+
+      if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+
+      const newRate = rate - value / derivative;
+
+      // Diverged below -100% or blew up - hand over to bisection
+      if (!isFinite(newRate) || newRate <= -1) break;
 
-      const newRate = rate - npv / dnpv;
-      
       if (Math.abs(newRate - rate) < tolerance) {
-        return Math.round(newRate * 10000) / 100; // Return as percentage
+        return newRate;
       }
 
       rate = newRate;
     }
 
-    return 0; // Failed to converge
+    return this.bisectXIRR(npv);
+  }
+
+  /**
+   * Bisection fallback for XIRR
+   * Brackets the root between -99.99% and an expanding upper bound
+   */
+  private static bisectXIRR(npv: (rate: number) => number): number | null {
+    let low = -0.9999;
+    let high = 1;
+    let npvLow = npv(low);
+    let npvHigh = npv(high);
+
+    // Expand the upper bound until the NPV changes sign
+    while (npvLow * npvHigh > 0 && high < 1000000) {
+      high *= 2;
+      npvHigh = npv(high);
+    }
+
+    if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) {
+      return null;
+    }
+
+    const maxIterations = 200;
+    const tolerance = 0.0000001;
+
+    for (let i = 0; i < maxIterations; i++) {
+      const mid = (low + high) / 2;
+      const npvMid = npv(mid);
+
+      if (Math.abs(npvMid) < tolerance || (high - low) / 2 < tolerance) {
+        return mid;
+      }
+
+      if (npvMid * npvLow < 0) {
+        high = mid;
+      } else {
+        low = mid;
+        npvLow = npvMid;
+      }
+    }
+
+    return (low + high) / 2;
+  }
+
+  /**
+   * Build XIRR cash flows from portfolio transactions
+   * Additions are outflows (negative), Deductions are inflows (positive),
+   * and the current value is added as the terminal inflow
+   */
+  static buildCashFlows(
+    transactions: Array<{
+      txn_date: Date;
+      txn_type: 'Addition' | 'Deduction';
+      total_amount: number | string;
+    }>,
+    currentValue: number,
+    valuationDate: Date = new Date()
+  ): Array<{ date: Date; amount: number }> {
+    const cashFlows: Array<{ date: Date; amount: number }> = [];
+
+    transactions.forEach(txn => {
+      const amount = Math.abs(parseFloat(txn.total_amount as string)) || 0;
+      if (amount === 0) return;
+
+      cashFlows.push({
+        date: new Date(txn.txn_date),
+        amount: txn.txn_type === 'Deduction' ? amount : -amount
+      });
+    });
+
+    if (currentValue > 0) {
+      cashFlows.push({ date: valuationDate, amount: currentValue });
+    }
+
+    return cashFlows;
+  }
+
+  /**
+   * Calculate annualised returns (XIRR and CAGR) for a set of cash flows
+   * Holdings held for under a year are not annualised - xirr and cagr are null
+   * and only the absolute money-weighted return is reported
+   */
+  static calculateAnnualisedReturns(
+    cashFlows: Array<{ date: Date; amount: number }>,
+    totalInvested: number,
+    currentValue: number,
+    valuationDate: Date = new Date()
+  ): {
+    xirr: number | null;
+    cagr: number | null;
+    absolute_return: number | null;
+    returns_annualised: boolean;
+    holding_period_days: number;
+  } {
+    const outflows = cashFlows.filter(cf => cf.amount < 0);
+
+    if (outflows.length === 0) {
+      return { xirr: null, cagr: null, absolute_return: null, returns_annualised: false, holding_period_days: 0 };
+    }
+
+    const firstDate = outflows.reduce(
+      (earliest, cf) => new Date(cf.date) < earliest ? new Date(cf.date) : earliest,
+      new Date(outflows[0].date)
+    );
+    const holdingPeriodDays = Math.max(0, this.daysBetween(firstDate, valuationDate));
+
+    const totalOut = outflows.reduce((sum, cf) => sum - cf.amount, 0);
+    const totalIn = cashFlows
+      .filter(cf => cf.amount > 0)
+      .reduce((sum, cf) => sum + cf.amount, 0);
+    const absoluteReturn = this.calculateReturnPercentage(totalOut, totalIn);
+
+    if (holdingPeriodDays < 365) {
+      return {
+        xirr: null,
+        cagr: null,
+        absolute_return: absoluteReturn,
+        returns_annualised: false,
+        holding_period_days: holdingPeriodDays
+      };
+    }
+
+    const rate = this.solveXIRR(cashFlows);
+
+    return {
+      xirr: rate === null ? null : Math.round(rate * 10000) / 100,
+      cagr: this.calculateCAGR(totalInvested, currentValue, holdingPeriodDays / 365),
+      absolute_return: absoluteReturn,
+      returns_annualised: true,
+      holding_period_days: holdingPeriodDays
+    };
   }
 
   /**
@@ -256,6 +413,153 @@ export class PortfolioUtil {
     };
   }
 
+  /**
+   * Convert a date (or pg DATE value) to a YYYY-MM-DD key
+   */
+  static toDateKey(date: Date | string): string {
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(date)) {
+      return date.substring(0, 10);
+    }
+
+    const d = new Date(date);
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${d.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Add days to a YYYY-MM-DD key
+   */
+  static addDaysToKey(dateKey: string, days: number): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().substring(0, 10);
+  }
+
+  /**
+   * Rebuild a valuation time series from transactions and NAV history
+   * Unit balances are replayed day by day; the last known NAV is carried
+   * forward across holidays, and the transaction NAV is used until a
+   * stored NAV is available. Invested amount uses average cost, so a
+   * redemption reduces it in proportion to the units sold.
+   */
+  static buildPerformanceSeries(
+    transactions: Array<{
+      scheme_code: string;
+      txn_date: Date | string;
+      txn_type: 'Addition' | 'Deduction';
+      total_amount: number | string;
+      units: number | string;
+      nav?: number | string;
+    }>,
+    navHistory: Map<string, Array<{ date: string; nav: number }>>,
+    from: string,
+    to: string,
+    interval: 'daily' | 'weekly' | 'monthly'
+  ): {
+    series: Array<{ date: string; invested: number; current_value: number; returns: number; return_percentage: number }>;
+    schemes: Map<string, Array<{ date: string; invested: number; current_value: number; returns: number; return_percentage: number }>>;
+  } {
+    const txns = transactions
+      .map(txn => ({ ...txn, date_key: this.toDateKey(txn.txn_date) }))
+      .sort((a, b) => a.date_key.localeCompare(b.date_key));
+
+    const state = new Map<string, { units: number; invested: number; nav: number; navIndex: number }>();
+    const getState = (schemeCode: string) => {
+      if (!state.has(schemeCode)) {
+        state.set(schemeCode, { units: 0, invested: 0, nav: 0, navIndex: 0 });
+      }
+      return state.get(schemeCode)!;
+    };
+
+    let txnIndex = 0;
+    const applyTransactionsUpTo = (dateKey: string) => {
+      while (txnIndex < txns.length && txns[txnIndex].date_key <= dateKey) {
+        const txn = txns[txnIndex++];
+        const scheme = getState(txn.scheme_code);
+        const units = Math.abs(parseFloat(txn.units as string)) || 0;
+        const amount = Math.abs(parseFloat(txn.total_amount as string)) || 0;
+        const txnNav = parseFloat(txn.nav as string) || 0;
+
+        if (txn.txn_type === 'Deduction') {
+          if (scheme.units > 0) {
+            scheme.invested -= scheme.invested * Math.min(units / scheme.units, 1);
+          }
+          scheme.units -= units;
+          if (scheme.units < 0.0001) {
+            scheme.units = 0;
+            scheme.invested = 0;
+          }
+        } else {
+          scheme.units += units;
+          scheme.invested += amount;
+        }
+
+        if (txnNav > 0) {
+          scheme.nav = txnNav;
+        }
+      }
+    };
+
+    const applyNavUpTo = (dateKey: string) => {
+      state.forEach((scheme, schemeCode) => {
+        const history = navHistory.get(schemeCode) || [];
+        while (scheme.navIndex < history.length && history[scheme.navIndex].date <= dateKey) {
+          scheme.nav = history[scheme.navIndex].nav;
+          scheme.navIndex++;
+        }
+      });
+    };
+
+    const isSamplePoint = (dateKey: string): boolean => {
+      if (dateKey === from || dateKey === to || interval === 'daily') return true;
+      const nextKey = this.addDaysToKey(dateKey, 1);
+      if (interval === 'weekly') {
+        return new Date(`${nextKey}T00:00:00Z`).getUTCDay() === 1; // Week ends on Sunday
+      }
+      return nextKey.substring(0, 7) !== dateKey.substring(0, 7); // Month end
+    };
+
+    const toMetric = (dateKey: string, invested: number, currentValue: number) => ({
+      date: dateKey,
+      invested: this.roundAmount(invested),
+      current_value: this.roundAmount(currentValue),
+      returns: this.calculateReturns(invested, currentValue),
+      return_percentage: this.calculateReturnPercentage(invested, currentValue)
+    });
+
+    const series: Array<{ date: string; invested: number; current_value: number; returns: number; return_percentage: number }> = [];
+    const schemes = new Map<string, Array<{ date: string; invested: number; current_value: number; returns: number; return_percentage: number }>>();
+
+    // Opening balances from everything before the window
+    applyTransactionsUpTo(this.addDaysToKey(from, -1));
+    applyNavUpTo(this.addDaysToKey(from, -1));
+
+    for (let day = from; day <= to; day = this.addDaysToKey(day, 1)) {
+      applyTransactionsUpTo(day);
+      applyNavUpTo(day);
+
+      if (!isSamplePoint(day)) continue;
+
+      let totalInvested = 0;
+      let totalValue = 0;
+
+      state.forEach((scheme, schemeCode) => {
+        const value = scheme.units * scheme.nav;
+        totalInvested += scheme.invested;
+        totalValue += value;
+
+        if (!schemes.has(schemeCode)) {
+          schemes.set(schemeCode, []);
+        }
+        schemes.get(schemeCode)!.push(toMetric(day, scheme.invested, value));
+      });
+
+      series.push(toMetric(day, totalInvested, totalValue));
+    }
+
+    return { series, schemes };
+  }
+
   /**
    * Calculate day change (requires previous day value)
    */
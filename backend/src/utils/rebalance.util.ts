@@ -0,0 +1,269 @@
+// backend/src/utils/rebalance.util.ts
+
+import {
+  AllocationClass,
+  AllocationComparison,
+  AllocationModel,
+  ExitLoadTerms,
+  RebalanceHolding,
+  RebalanceLot,
+  RebalanceSummary,
+  RebalanceTrade
+} from '../types/allocation.types';
+import { CapitalGainsUtil } from './capitalGains.util';
+import { PortfolioUtil } from './portfolio.util';
+
+export const ALLOCATION_CLASSES: AllocationClass[] = ['equity', 'debt', 'hybrid', 'other'];
+
+// Typical exit loads when a scheme has no terms recorded in t_scheme_details
+export const DEFAULT_EXIT_LOADS: Record<AllocationClass, ExitLoadTerms> = {
+  equity: { percentage: 1, days: 365 },
+  hybrid: { percentage: 1, days: 365 },
+  debt: { percentage: 0, days: 0 },
+  other: { percentage: 0, days: 0 }
+};
+
+const HYBRID_KEYWORDS = [
+  'hybrid', 'balanced', 'arbitrage', 'multi asset', 'equity savings', 'dynamic asset'
+];
+
+export interface RebalanceDestination {
+  scheme_code: string | null;
+  scheme_name: string;
+  fund_name?: string;
+}
+
+export class RebalanceUtil {
+  /**
+   * Classify a scheme into equity / debt / hybrid / other for allocation
+   */
+  static classifyAllocationClass(category?: string, subCategory?: string): AllocationClass {
+    const label = `${category || ''} ${subCategory || ''}`.toLowerCase();
+    if (HYBRID_KEYWORDS.some(keyword => label.includes(keyword))) return 'hybrid';
+    return CapitalGainsUtil.classifyAssetClass(category, subCategory);
+  }
+
+  /**
+   * Compare current allocation with the model targets
+   */
+  static compareAllocation(holdings: RebalanceHolding[], model: AllocationModel): AllocationComparison[] {
+    const totalValue = holdings.reduce((sum, holding) => sum + holding.current_value, 0);
+
+    return ALLOCATION_CLASSES.map(assetClass => {
+      const currentValue = holdings
+        .filter(holding => holding.allocation_class === assetClass)
+        .reduce((sum, holding) => sum + holding.current_value, 0);
+      const currentPercentage = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+      const { target, band } = model.targets[assetClass];
+      const targetValue = (target / 100) * totalValue;
+      const drift = currentPercentage - target;
+
+      return {
+        asset_class: assetClass,
+        current_value: PortfolioUtil.roundAmount(currentValue),
+        current_percentage: PortfolioUtil.roundPercentage(currentPercentage),
+        target_percentage: target,
+        band,
+        drift: PortfolioUtil.roundPercentage(drift),
+        out_of_band: Math.abs(drift) > band,
+        target_value: PortfolioUtil.roundAmount(targetValue),
+        difference: PortfolioUtil.roundAmount(targetValue - currentValue)
+      };
+    });
+  }
+
+  /**
+   * Exit load payable if the lot value were redeemed on asOfDate
+   */
+  static getExitLoad(lot: RebalanceLot, value: number, asOfDate: string): number {
+    if (!lot.exit_load.percentage || !lot.exit_load.days) return 0;
+    const heldDays = CapitalGainsUtil.daysBetweenKeys(lot.purchase_date, asOfDate);
+    return heldDays < lot.exit_load.days ? (value * lot.exit_load.percentage) / 100 : 0;
+  }
+
+  /**
+   * Build a switch list that brings every asset class back to target
+   * Sells are taken lot by lot, always from the holding whose next FIFO lot
+   * carries the lowest short-term gain plus exit load per rupee redeemed.
+   * Redemptions are FIFO, so a holding's later lots are only reachable once
+   * its earlier lots are used up.
+   */
+  static buildTrades(
+    lots: RebalanceLot[],
+    comparison: AllocationComparison[],
+    destinations: Partial<Record<AllocationClass, RebalanceDestination>>,
+    asOfDate: string
+  ): { trades: RebalanceTrade[]; warnings: string[] } {
+    const warnings: string[] = [];
+    if (!comparison.some(item => item.out_of_band)) {
+      return { trades: [], warnings };
+    }
+
+    // Sell slices from overweight classes
+    const slices: Array<{
+      lot: RebalanceLot;
+      units: number;
+      amount: number;
+      short_term_gain: number;
+      long_term_gain: number;
+      exit_load: number;
+    }> = [];
+
+    comparison
+      .filter(item => item.difference < -0.01)
+      .forEach(item => {
+        let remaining = -item.difference;
+        const queues = new Map<string, Array<RebalanceLot & { remaining_units: number }>>();
+
+        lots
+          .filter(lot => lot.allocation_class === item.asset_class && lot.units > 0)
+          .sort((a, b) => a.purchase_date.localeCompare(b.purchase_date))
+          .forEach(lot => {
+            const key = `${lot.scheme_code}|${lot.folio_no || ''}`;
+            if (!queues.has(key)) {
+              queues.set(key, []);
+            }
+            queues.get(key)!.push({ ...lot, remaining_units: lot.units });
+          });
+
+        const penalty = (lot: RebalanceLot): [number, number] => {
+          const value = lot.units * lot.nav;
+          if (value <= 0) return [Infinity, Infinity];
+          const gain = lot.units * lot.gain_per_unit;
+          const shortTermGain = lot.term === 'short_term' ? Math.max(0, gain) : 0;
+          const longTermGain = lot.term === 'long_term' ? Math.max(0, gain) : 0;
+          return [(shortTermGain + this.getExitLoad(lot, value, asOfDate)) / value, longTermGain / value];
+        };
+
+        while (remaining > 0.01) {
+          let bestQueue: Array<RebalanceLot & { remaining_units: number }> | null = null;
+          let bestPenalty: [number, number] = [Infinity, Infinity];
+
+          queues.forEach(queue => {
+            if (queue.length === 0) return;
+            const score = penalty(queue[0]);
+            if (score[0] < bestPenalty[0] || (score[0] === bestPenalty[0] && score[1] < bestPenalty[1])) {
+              bestQueue = queue;
+              bestPenalty = score;
+            }
+          });
+
+          if (!bestQueue) break;
+
+          const queue = bestQueue as Array<RebalanceLot & { remaining_units: number }>;
+          const lot = queue[0];
+          const lotValue = lot.remaining_units * lot.nav;
+          const amount = Math.min(lotValue, remaining);
+          const units = amount / lot.nav;
+          const gain = units * lot.gain_per_unit;
+
+          slices.push({
+            lot,
+            units,
+            amount,
+            short_term_gain: lot.term === 'short_term' ? gain : 0,
+            long_term_gain: lot.term === 'long_term' ? gain : 0,
+            exit_load: this.getExitLoad(lot, amount, asOfDate)
+          });
+
+          remaining -= amount;
+          lot.remaining_units -= units;
+          if (lot.remaining_units * lot.nav <= 0.01) {
+            queue.shift();
+          }
+        }
+
+        if (remaining > 1) {
+          warnings.push(
+            `Could not source ${PortfolioUtil.formatCurrency(remaining)} from ${item.asset_class} holdings`
+          );
+        }
+      });
+
+    // Allocate sell slices to underweight classes
+    const buyNeeds = comparison
+      .filter(item => item.difference > 0.01)
+      .sort((a, b) => b.difference - a.difference)
+      .map(item => {
+        const destination = destinations[item.asset_class];
+        if (!destination || !destination.scheme_code) {
+          warnings.push(`No ${item.asset_class} scheme held or preferred in the model; select a destination scheme`);
+        }
+        return {
+          asset_class: item.asset_class,
+          remaining: item.difference,
+          destination: destination || { scheme_code: null, scheme_name: `Select a ${item.asset_class} scheme` }
+        };
+      });
+
+    const trades = new Map<string, RebalanceTrade>();
+
+    slices.forEach(slice => {
+      let sliceRemaining = slice.amount;
+
+      for (const need of buyNeeds) {
+        if (sliceRemaining <= 0.01) break;
+        if (need.remaining <= 0.01) continue;
+
+        const amount = Math.min(sliceRemaining, need.remaining);
+        const share = amount / slice.amount;
+        const key = `${slice.lot.scheme_code}|${slice.lot.folio_no || ''}|${need.asset_class}`;
+
+        if (!trades.has(key)) {
+          const sameAmc = !!slice.lot.fund_name && slice.lot.fund_name === need.destination.fund_name;
+          trades.set(key, {
+            trade_type: sameAmc ? 'switch' : 'redeem_and_purchase',
+            from_scheme_code: slice.lot.scheme_code,
+            from_scheme_name: slice.lot.scheme_name,
+            from_folio_no: slice.lot.folio_no,
+            from_asset_class: slice.lot.allocation_class,
+            to_scheme_code: need.destination.scheme_code,
+            to_scheme_name: need.destination.scheme_name,
+            to_asset_class: need.asset_class,
+            units: 0,
+            amount: 0,
+            short_term_gain: 0,
+            long_term_gain: 0,
+            exit_load: 0
+          });
+        }
+
+        const trade = trades.get(key)!;
+        trade.units += slice.units * share;
+        trade.amount += amount;
+        trade.short_term_gain += slice.short_term_gain * share;
+        trade.long_term_gain += slice.long_term_gain * share;
+        trade.exit_load += slice.exit_load * share;
+
+        need.remaining -= amount;
+        sliceRemaining -= amount;
+      }
+    });
+
+    return {
+      trades: Array.from(trades.values())
+        .map(trade => ({
+          ...trade,
+          units: Math.floor(trade.units * 1000) / 1000,
+          amount: PortfolioUtil.roundAmount(trade.amount),
+          short_term_gain: PortfolioUtil.roundAmount(trade.short_term_gain),
+          long_term_gain: PortfolioUtil.roundAmount(trade.long_term_gain),
+          exit_load: PortfolioUtil.roundAmount(trade.exit_load)
+        }))
+        .sort((a, b) => b.amount - a.amount),
+      warnings
+    };
+  }
+
+  /**
+   * Totals across a trade list
+   */
+  static summariseTrades(trades: RebalanceTrade[]): RebalanceSummary {
+    return {
+      total_trade_amount: PortfolioUtil.roundAmount(trades.reduce((sum, trade) => sum + trade.amount, 0)),
+      realised_short_term_gain: PortfolioUtil.roundAmount(trades.reduce((sum, trade) => sum + trade.short_term_gain, 0)),
+      realised_long_term_gain: PortfolioUtil.roundAmount(trades.reduce((sum, trade) => sum + trade.long_term_gain, 0)),
+      estimated_exit_load: PortfolioUtil.roundAmount(trades.reduce((sum, trade) => sum + trade.exit_load, 0))
+    };
+  }
+}
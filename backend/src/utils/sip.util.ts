@@ -0,0 +1,188 @@
+// backend/src/utils/sip.util.ts
+
+import {
+  SipFrequency,
+  SipInstalment,
+  SipPlanType,
+  SipReconcileTransaction,
+  SipRegistration
+} from '../types/sip.types';
+import { CapitalGainsUtil } from './capitalGains.util';
+import { PortfolioUtil } from './portfolio.util';
+
+export const SIP_FREQUENCIES: SipFrequency[] = ['daily', 'weekly', 'fortnightly', 'monthly', 'quarterly'];
+
+export const SIP_PLAN_TYPES: SipPlanType[] = ['SIP', 'STP', 'SWP'];
+
+// Matching window around a due date: RTAs often process a few days late
+export const SIP_MATCH_WINDOW_DAYS = { before: 3, after: 7 };
+
+// Days after the due date before an unmatched instalment counts as missed
+export const SIP_GRACE_DAYS = 10;
+
+// Allowed relative difference between instalment and transaction amount (stamp duty, charges)
+export const SIP_AMOUNT_TOLERANCE = 0.02;
+
+// A reversal within this many days of the instalment marks it as bounced
+export const SIP_REVERSAL_WINDOW_DAYS = 15;
+
+// Transaction types the RTAs use for rejected or reversed instalments
+const SIP_REVERSAL_TYPE_PATTERN = /revers|reject|bounce/i;
+
+export class SipUtil {
+  /**
+   * Expected instalment dates between fromKey and toKey (inclusive)
+   * Monthly and quarterly plans fall on instalment_day, clamped to month end;
+   * the others step from start_date.
+   */
+  static getDueDates(
+    sip: Pick<SipRegistration, 'frequency' | 'instalment_day' | 'start_date' | 'end_date'>,
+    fromKey: string,
+    toKey: string
+  ): string[] {
+    const startKey = PortfolioUtil.toDateKey(sip.start_date);
+    const endKey = sip.end_date ? PortfolioUtil.toDateKey(sip.end_date) : null;
+    const lastKey = endKey && endKey < toKey ? endKey : toKey;
+    const dates: string[] = [];
+
+    if (sip.frequency === 'monthly' || sip.frequency === 'quarterly') {
+      const step = sip.frequency === 'monthly' ? 1 : 3;
+      const [startYear, startMonth, startDay] = startKey.split('-').map(Number);
+      const day = sip.instalment_day || startDay;
+      // First instalment falls in the start month if the day has not passed, else the next month
+      let offset = day >= startDay ? 0 : 1;
+
+      for (;;) {
+        const target = new Date(Date.UTC(startYear, startMonth - 1 + offset, 1));
+        const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+        target.setUTCDate(Math.min(day, lastDay));
+        const key = target.toISOString().substring(0, 10);
+        if (key > lastKey) break;
+        if (key >= fromKey) dates.push(key);
+        offset += step;
+      }
+      return dates;
+    }
+
+    const stepDays = sip.frequency === 'daily' ? 1 : sip.frequency === 'weekly' ? 7 : 14;
+    for (let key = startKey; key <= lastKey; key = PortfolioUtil.addDaysToKey(key, stepDays)) {
+      if (key >= fromKey) dates.push(key);
+    }
+    return dates;
+  }
+
+  /**
+   * Transaction direction that settles an instalment
+   * SIP buys into the scheme; STP and SWP move money out of the source scheme.
+   */
+  static getExpectedDirection(planType: SipPlanType): 'Addition' | 'Deduction' {
+    return planType === 'SIP' ? 'Addition' : 'Deduction';
+  }
+
+  /**
+   * Whether a transaction amount is within tolerance of the instalment amount
+   */
+  static amountMatches(expected: number, actual: number): boolean {
+    if (expected <= 0) return false;
+    return Math.abs(Math.abs(actual) - expected) / expected <= SIP_AMOUNT_TOLERANCE;
+  }
+
+  /**
+   * Whether a transaction reverses an earlier one: a reversal/rejection
+   * transaction type, or a negative amount
+   * Ordinary opposite-direction transactions (an STP's purchase leg, an SWP
+   * redemption next to a purchase) are not reversals.
+   */
+  static isReversal(txn: Pick<SipReconcileTransaction, 'txn_code' | 'txn_name' | 'total_amount'>): boolean {
+    if (Number(txn.total_amount) < 0) return true;
+    return SIP_REVERSAL_TYPE_PATTERN.test(`${txn.txn_code || ''} ${txn.txn_name || ''}`);
+  }
+
+  /**
+   * Reconcile due dates against the plan's transactions
+   * Each transaction settles at most one instalment, taking the closest
+   * due date first. A settled instalment followed by a reversal of the
+   * same amount is treated as bounced.
+   */
+  static reconcile(
+    sip: Pick<SipRegistration, 'id' | 'plan_type' | 'amount'>,
+    dueDates: string[],
+    transactions: SipReconcileTransaction[],
+    asOfDate: string
+  ): SipInstalment[] {
+    const amount = Number(sip.amount);
+    const direction = this.getExpectedDirection(sip.plan_type);
+    const txns = transactions
+      .map(txn => ({ ...txn, date_key: PortfolioUtil.toDateKey(txn.txn_date), amount: Number(txn.total_amount) }))
+      .filter(txn => this.amountMatches(amount, txn.amount))
+      .sort((a, b) => a.date_key.localeCompare(b.date_key));
+
+    const settling = txns.filter(txn => txn.txn_type === direction && !this.isReversal(txn));
+    const reversals = txns.filter(txn => this.isReversal(txn));
+    const usedIds = new Set<number>();
+
+    return dueDates.map((dueDate): SipInstalment => {
+      const windowFrom = PortfolioUtil.addDaysToKey(dueDate, -SIP_MATCH_WINDOW_DAYS.before);
+      const windowTo = PortfolioUtil.addDaysToKey(dueDate, SIP_MATCH_WINDOW_DAYS.after);
+
+      const match = settling
+        .filter(txn => !usedIds.has(txn.id) && txn.date_key >= windowFrom && txn.date_key <= windowTo)
+        .sort((a, b) =>
+          Math.abs(CapitalGainsUtil.daysBetweenKeys(dueDate, a.date_key)) -
+          Math.abs(CapitalGainsUtil.daysBetweenKeys(dueDate, b.date_key))
+        )[0];
+
+      if (!match) {
+        const overdue = PortfolioUtil.addDaysToKey(dueDate, SIP_GRACE_DAYS) < asOfDate;
+        return { sip_id: sip.id, due_date: dueDate, status: overdue ? 'missed' : 'pending' };
+      }
+
+      usedIds.add(match.id);
+      const reversalTo = PortfolioUtil.addDaysToKey(match.date_key, SIP_REVERSAL_WINDOW_DAYS);
+      const reversal = reversals.find(txn =>
+        !usedIds.has(txn.id) && txn.date_key >= match.date_key && txn.date_key <= reversalTo
+      );
+
+      if (reversal) {
+        usedIds.add(reversal.id);
+        return {
+          sip_id: sip.id,
+          due_date: dueDate,
+          status: 'bounced',
+          transaction_id: match.id,
+          reversal_transaction_id: reversal.id,
+          matched_amount: PortfolioUtil.roundAmount(match.amount)
+        };
+      }
+
+      return {
+        sip_id: sip.id,
+        due_date: dueDate,
+        status: 'matched',
+        transaction_id: match.id,
+        matched_amount: PortfolioUtil.roundAmount(match.amount)
+      };
+    });
+  }
+
+  /**
+   * Most frequent amount in a list (used to infer an imported plan's instalment)
+   */
+  static modeAmount(amounts: number[]): number {
+    const counts = new Map<number, number>();
+    amounts.forEach(amount => {
+      const rounded = PortfolioUtil.roundAmount(amount);
+      counts.set(rounded, (counts.get(rounded) || 0) + 1);
+    });
+
+    let best = 0;
+    let bestCount = 0;
+    counts.forEach((count, amount) => {
+      if (count > bestCount || (count === bestCount && amount > best)) {
+        best = amount;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+}
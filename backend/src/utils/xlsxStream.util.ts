@@ -0,0 +1,246 @@
+// backend/src/utils/xlsxStream.util.ts
+// Minimal streaming XLSX writer (single worksheet, inline strings)
+// The xlsx package builds the whole workbook in memory; this writes the
+// worksheet row by row into a deflated zip entry so large exports stay flat.
+
+import { Writable } from 'stream';
+import { once } from 'events';
+import * as zlib from 'zlib';
+
+interface ZipEntry {
+  name: string;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer, previous: number = 0): number {
+  let crc = previous ^ -1;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+// Characters not allowed in XML 1.0 (control characters other than tab/newline/CR)
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+export class XlsxStreamWriter {
+  private output: Writable;
+  private sheetName: string;
+  private entries: ZipEntry[] = [];
+  private bytesWritten = 0;
+  private rowCount = 0;
+  private sheet: { deflate: zlib.DeflateRaw; entry: ZipEntry; done: Promise<unknown> } | null = null;
+
+  constructor(output: Writable, sheetName: string = 'Sheet1') {
+    this.output = output;
+    // Excel limits sheet names to 31 characters
+    this.sheetName = sheetName.substring(0, 31);
+  }
+
+  /**
+   * Write the workbook scaffolding and open the worksheet
+   */
+  async start(headers: string[]): Promise<void> {
+    await this.writeFile('[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>');
+    await this.writeFile('_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>');
+    await this.writeFile('xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(this.sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>');
+    await this.writeFile('xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>');
+
+    // Worksheet entry sizes are unknown up front, so they go in a data descriptor
+    const entry: ZipEntry = { name: 'xl/worksheets/sheet1.xml', crc: 0, compressedSize: 0, size: 0, offset: this.bytesWritten };
+    await this.write(this.localHeader(entry, true));
+
+    const deflate = zlib.createDeflateRaw();
+    deflate.on('data', (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.bytesWritten += chunk.length;
+      if (!this.output.write(chunk)) {
+        deflate.pause();
+        this.output.once('drain', () => deflate.resume());
+      }
+    });
+    this.sheet = { deflate, entry, done: once(deflate, 'end') };
+
+    await this.writeSheetData(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+    );
+    await this.addRow(headers);
+  }
+
+  /**
+   * Append a row; numbers and booleans keep their type, everything else is text
+   */
+  async addRow(values: any[]): Promise<void> {
+    this.rowCount++;
+    const cells = values.map((value, index) => {
+      const ref = `${columnName(index)}${this.rowCount}`;
+      if (value === null || value === undefined || value === '') {
+        return '';
+      }
+      if (typeof value === 'number' && isFinite(value)) {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      }
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+
+    await this.writeSheetData(`<row r="${this.rowCount}">${cells.join('')}</row>`);
+  }
+
+  /**
+   * Close the worksheet and write the zip central directory
+   */
+  async finish(): Promise<void> {
+    if (!this.sheet) {
+      throw new Error('XlsxStreamWriter.start() must be called first');
+    }
+
+    await this.writeSheetData('</sheetData></worksheet>');
+    this.sheet.deflate.end();
+    await this.sheet.done;
+
+    const { entry } = this.sheet;
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+    this.entries.push(entry);
+
+    const centralOffset = this.bytesWritten;
+    for (const item of this.entries) {
+      await this.write(this.centralHeader(item, item === entry));
+    }
+    const centralSize = this.bytesWritten - centralOffset;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(centralOffset, 16);
+    await this.write(end);
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private async writeSheetData(xml: string): Promise<void> {
+    const { deflate, entry } = this.sheet!;
+    const buffer = Buffer.from(xml, 'utf8');
+    entry.crc = crc32(buffer, entry.crc);
+    entry.size += buffer.length;
+    if (!deflate.write(buffer)) {
+      await once(deflate, 'drain');
+    }
+  }
+
+  private async writeFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const entry: ZipEntry = {
+      name,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.bytesWritten
+    };
+
+    await this.write(this.localHeader(entry, false));
+    await this.write(compressed);
+    this.entries.push(entry);
+  }
+
+  private async write(buffer: Buffer): Promise<void> {
+    this.bytesWritten += buffer.length;
+    if (!this.output.write(buffer)) {
+      await once(this.output, 'drain');
+    }
+  }
+
+  private localHeader(entry: ZipEntry, streamed: boolean): Buffer {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);                     // version needed
+    header.writeUInt16LE(streamed ? 0x0808 : 0x0800, 6); // bit 3: data descriptor, bit 11: UTF-8
+    header.writeUInt16LE(8, 8);                      // deflate
+    header.writeUInt32LE(streamed ? 0 : entry.crc, 14);
+    header.writeUInt32LE(streamed ? 0 : entry.compressedSize, 18);
+    header.writeUInt32LE(streamed ? 0 : entry.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    return Buffer.concat([header, name]);
+  }
+
+  private centralHeader(entry: ZipEntry, streamed: boolean): Buffer {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);                     // version made by
+    header.writeUInt16LE(20, 6);                     // version needed
+    header.writeUInt16LE(streamed ? 0x0808 : 0x0800, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(entry.compressedSize, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(entry.offset, 42);
+    return Buffer.concat([header, name]);
+  }
+}
@@ -24,6 +24,7 @@ import NavDashboardPage from './pages/nav/NavDashboardPage';
 import NavSearchPage from './pages/nav/NavSearchPage';
 import NavSchedulerPage from './pages/nav/NavSchedulerPage';
 import NavBookmarksPage from './pages/nav/NavBookmarksPage';
+import NavComparePage from './pages/nav/NavComparePage';
 
 
 // Contact pages
@@ -83,6 +84,7 @@ function App() {
                 <Route path="nav/dashboard" element={<NavDashboardPage />} />
                 <Route path="nav/search" element={<NavSearchPage />} />
                 <Route path="nav/bookmarks" element={<NavBookmarksPage />} />
+                <Route path="nav/compare" element={<NavComparePage />} />
                 <Route path="nav/scheduler" element={<NavSchedulerPage />} />
                 
                 {/* Admin Routes */}
@@ -0,0 +1,188 @@
+// frontend/src/components/ETL/ImportPreviewReview.tsx
+import React, { useState } from 'react';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { ImportPreview, ImportRecordAction } from '../../types/import.types';
+
+interface ImportPreviewReviewProps {
+  preview: ImportPreview;
+  isStarting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  pan: 'PAN',
+  iwell_code: 'IWELL code',
+  date_of_birth: 'Date of birth',
+  anniversary_date: 'Anniversary',
+  family_head_name: 'Family head',
+  family_head_iwell_code: 'Family head IWELL',
+  referred_by_name: 'Referred by'
+};
+
+// Dry-run review step: what processing the staged rows would do, before the real run
+const ImportPreviewReview: React.FC<ImportPreviewReviewProps> = ({
+  preview,
+  isStarting,
+  onConfirm,
+  onCancel
+}) => {
+  const { theme, isDarkMode } = useTheme();
+  const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
+  const [filter, setFilter] = useState<ImportRecordAction | 'all'>('all');
+
+  const isTransactions = preview.importType === 'TransactionData';
+  const actions: Array<{ action: ImportRecordAction; label: string; color: string }> = [
+    { action: 'create', label: isTransactions ? 'New transactions' : 'New customers', color: colors.semantic.success },
+    ...(isTransactions ? [] : [{ action: 'update' as const, label: 'Updates', color: colors.semantic.info }]),
+    { action: 'duplicate', label: 'Duplicates', color: colors.semantic.warning },
+    { action: 'invalid', label: 'Validation failures', color: colors.semantic.error }
+  ];
+  const colorFor = (action: ImportRecordAction) =>
+    actions.find(entry => entry.action === action)?.color || colors.utility.secondaryText;
+
+  const rows = filter === 'all' ? preview.rows : preview.rows.filter(row => row.action === filter);
+  const writesAnything = preview.summary.create + preview.summary.update > 0;
+
+  return (
+    <div style={{
+      backgroundColor: colors.utility.primaryBackground,
+      borderRadius: '16px',
+      border: `1px solid ${colors.utility.primaryText}10`,
+      padding: '32px',
+      marginBottom: '32px'
+    }}>
+      <h3 style={{ fontSize: '20px', fontWeight: '600', color: colors.utility.primaryText, margin: '0 0 4px 0' }}>
+        Review Import
+      </h3>
+      <p style={{ fontSize: '14px', color: colors.utility.secondaryText, margin: '0 0 24px 0' }}>
+        Dry run of {preview.summary.total.toLocaleString()} rows. Nothing has been written yet.
+      </p>
+
+      {/* Summary */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))',
+        gap: '12px',
+        marginBottom: '24px'
+      }}>
+        {actions.map(({ action, label, color }) => (
+          <button
+            key={action}
+            onClick={() => setFilter(filter === action ? 'all' : action)}
+            style={{
+              textAlign: 'left' as const,
+              padding: '12px 16px',
+              borderRadius: '10px',
+              border: `1px solid ${filter === action ? color : colors.utility.primaryText + '15'}`,
+              backgroundColor: filter === action ? color + '10' : colors.utility.secondaryBackground,
+              cursor: 'pointer'
+            }}
+          >
+            <div style={{ fontSize: '22px', fontWeight: '700', color }}>
+              {preview.summary[action].toLocaleString()}
+            </div>
+            <div style={{ fontSize: '12px', color: colors.utility.secondaryText }}>{label}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Per-row outcome */}
+      <div style={{
+        maxHeight: '360px',
+        overflowY: 'auto',
+        border: `1px solid ${colors.utility.primaryText}10`,
+        borderRadius: '10px',
+        marginBottom: '16px'
+      }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' as const, fontSize: '13px' }}>
+          <thead>
+            <tr style={{ backgroundColor: colors.utility.secondaryBackground, textAlign: 'left' as const }}>
+              <th style={{ padding: '8px 12px', color: colors.utility.secondaryText, fontWeight: '600' }}>Row</th>
+              <th style={{ padding: '8px 12px', color: colors.utility.secondaryText, fontWeight: '600' }}>Outcome</th>
+              <th style={{ padding: '8px 12px', color: colors.utility.secondaryText, fontWeight: '600' }}>Record</th>
+              <th style={{ padding: '8px 12px', color: colors.utility.secondaryText, fontWeight: '600' }}>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={4} style={{ padding: '24px', textAlign: 'center' as const, color: colors.utility.secondaryText }}>
+                  No rows in this category
+                </td>
+              </tr>
+            ) : rows.map(row => (
+              <tr key={row.row_number} style={{ borderTop: `1px solid ${colors.utility.primaryText}10`, verticalAlign: 'top' }}>
+                <td style={{ padding: '8px 12px', color: colors.utility.secondaryText }}>{row.row_number}</td>
+                <td style={{ padding: '8px 12px', color: colorFor(row.action), fontWeight: '600', textTransform: 'capitalize' as const }}>
+                  {row.action}
+                </td>
+                <td style={{ padding: '8px 12px', color: colors.utility.primaryText }}>{row.label || '—'}</td>
+                <td style={{ padding: '8px 12px', color: colors.utility.primaryText }}>
+                  {row.changes.map(change => (
+                    <div key={change.field}>
+                      <span style={{ color: colors.utility.secondaryText }}>{FIELD_LABELS[change.field] || change.field}: </span>
+                      <span style={{ textDecoration: 'line-through', color: colors.utility.secondaryText }}>{change.from || 'empty'}</span>
+                      {' → '}
+                      <span>{change.to}</span>
+                    </div>
+                  ))}
+                  {row.errors.map(error => (
+                    <div key={error} style={{ color: colors.semantic.error }}>{error}</div>
+                  ))}
+                  {row.warnings.map(warning => (
+                    <div key={warning} style={{ color: colors.semantic.warning }}>{warning}</div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {preview.truncated && (
+        <p style={{ fontSize: '12px', color: colors.utility.secondaryText, margin: '0 0 16px 0' }}>
+          Showing the first {preview.rows.length.toLocaleString()} rows; the totals above cover the whole file.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onCancel}
+          disabled={isStarting}
+          style={{
+            backgroundColor: 'transparent',
+            color: colors.semantic.error,
+            border: `1px solid ${colors.semantic.error}`,
+            borderRadius: '8px',
+            padding: '8px 16px',
+            fontSize: '14px',
+            cursor: isStarting ? 'not-allowed' : 'pointer'
+          }}
+        >
+          Cancel Import
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isStarting || !writesAnything}
+          style={{
+            backgroundColor: colors.brand.primary,
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '8px 20px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: isStarting || !writesAnything ? 'not-allowed' : 'pointer',
+            opacity: isStarting || !writesAnything ? 0.6 : 1
+          }}
+        >
+          {isStarting ? 'Starting...' : 'Start Import'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewReview;
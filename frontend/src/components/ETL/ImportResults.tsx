@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { API_ENDPOINTS } from '../../services/serviceURLs';
+import type { ImportRollbackImpact, ImportRollbackResult } from '../../types/import.types';
 
 interface ImportResultsProps {
   sessionId: number;
@@ -58,6 +59,9 @@ interface ResultsData {
   };
 }
 
+// Sessions that have finished writing and can be undone
+const ROLLBACK_STATUSES = ['completed', 'completed_with_errors', 'cancelled', 'failed'];
+
 const ImportResults: React.FC<ImportResultsProps> = ({
   sessionId,
   onStartNewImport,
@@ -74,6 +78,9 @@ const ImportResults: React.FC<ImportResultsProps> = ({
   const [isExporting, setIsExporting] = useState(false);
   const [portfolioFlagToggles, setPortfolioFlagToggles] = useState<Record<number, boolean>>({});
   const [isTogglingFlag, setIsTogglingFlag] = useState<number | null>(null);
+  const [rollbackImpact, setRollbackImpact] = useState<ImportRollbackImpact | null>(null);
+  const [isLoadingImpact, setIsLoadingImpact] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
 
   // Fetch results on component mount and when filters change
   useEffect(() => {
@@ -209,6 +216,63 @@ const ImportResults: React.FC<ImportResultsProps> = ({
     }
   };
 
+  const rollbackRequest = async (method: 'GET' | 'POST') => {
+    const token = localStorage.getItem('access_token');
+
+    if (!token) {
+      throw new Error('Authentication token not found');
+    }
+
+    const response = await fetch(API_ENDPOINTS.IMPORT.ROLLBACK(sessionId), {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...(tenantId && { 'X-Tenant-ID': String(tenantId) }),
+        ...(environment && { 'X-Environment': environment })
+      }
+    });
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Rollback request failed');
+    }
+
+    return result.data;
+  };
+
+  // Confirmation step: load what the rollback would touch before asking
+  const openRollbackDialog = async () => {
+    try {
+      setIsLoadingImpact(true);
+      const impact: ImportRollbackImpact = await rollbackRequest('GET');
+      setRollbackImpact(impact);
+    } catch (error: any) {
+      onError(error.message || 'Failed to load rollback impact');
+    } finally {
+      setIsLoadingImpact(false);
+    }
+  };
+
+  const confirmRollback = async () => {
+    try {
+      setIsRollingBack(true);
+      const result: ImportRollbackResult = await rollbackRequest('POST');
+      setRollbackImpact(null);
+
+      if (!result.portfolio_refreshed) {
+        onError('Import rolled back, but portfolio totals could not be refreshed yet');
+      }
+
+      fetchResults();
+    } catch (error: any) {
+      onError(error.message || 'Failed to roll back import');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
   const togglePortfolioFlag = async (recordId: number, currentFlag: boolean) => {
     try {
       setIsTogglingFlag(recordId);
@@ -310,6 +374,7 @@ const ImportResults: React.FC<ImportResultsProps> = ({
   };
 
   const isTransactionImport = resultsData?.session?.import_type === 'TransactionData';
+  const canRollback = !!resultsData?.session && ROLLBACK_STATUSES.includes(resultsData.session.status);
 
   if (isLoading && !resultsData) {
     return (
@@ -621,21 +686,44 @@ const ImportResults: React.FC<ImportResultsProps> = ({
           </select>
         </div>
 
-        <button
-          onClick={onStartNewImport}
-          style={{
-            backgroundColor: colors.brand.primary,
-            color: 'white',
-            border: 'none',
-            borderRadius: '8px',
-            padding: '10px 20px',
-            fontSize: '14px',
-            fontWeight: '600',
-            cursor: 'pointer'
-          }}
-        >
-          Start New Import
-        </button>
+        <div style={{
+          display: 'flex',
+          gap: '12px'
+        }}>
+          {canRollback && (
+            <button
+              onClick={openRollbackDialog}
+              disabled={isLoadingImpact}
+              style={{
+                backgroundColor: 'transparent',
+                color: colors.semantic.error,
+                border: `1px solid ${colors.semantic.error}`,
+                borderRadius: '8px',
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: isLoadingImpact ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isLoadingImpact ? 'Checking...' : 'Roll Back Import'}
+            </button>
+          )}
+          <button
+            onClick={onStartNewImport}
+            style={{
+              backgroundColor: colors.brand.primary,
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '10px 20px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer'
+            }}
+          >
+            Start New Import
+          </button>
+        </div>
       </div>
 
       {/* Results Table */}
@@ -919,6 +1007,126 @@ const ImportResults: React.FC<ImportResultsProps> = ({
           </div>
         ) : null}
       </div>
+
+      {/* Rollback Confirmation Dialog */}
+      {rollbackImpact && (
+        <div style={{
+          position: 'fixed' as const,
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: colors.utility.primaryBackground,
+            borderRadius: '12px',
+            padding: '24px',
+            maxWidth: '440px',
+            width: '90%',
+            boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)'
+          }}>
+            <h4 style={{
+              fontSize: '18px',
+              fontWeight: '600',
+              color: colors.utility.primaryText,
+              margin: '0 0 12px 0'
+            }}>
+              Roll Back Import?
+            </h4>
+            <p style={{
+              fontSize: '14px',
+              color: colors.utility.secondaryText,
+              margin: '0 0 16px 0',
+              lineHeight: '1.5'
+            }}>
+              Records this import created will be deactivated and records it updated will get their previous values back.
+            </p>
+
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr auto',
+              gap: '6px 16px',
+              fontSize: '14px',
+              color: colors.utility.primaryText,
+              padding: '12px 16px',
+              backgroundColor: colors.utility.secondaryBackground,
+              borderRadius: '8px',
+              marginBottom: '16px'
+            }}>
+              {[
+                { label: 'Transactions', count: rollbackImpact.transactions },
+                { label: 'SIP registrations', count: rollbackImpact.sip_registrations },
+                { label: 'Customers', count: rollbackImpact.customers },
+                { label: 'Contacts', count: rollbackImpact.contacts },
+                { label: 'Addresses', count: rollbackImpact.addresses },
+                { label: 'Schemes', count: rollbackImpact.schemes },
+                { label: 'Updates restored', count: rollbackImpact.restored_updates }
+              ].map(({ label, count }) => (
+                <React.Fragment key={label}>
+                  <span style={{ color: colors.utility.secondaryText }}>{label}</span>
+                  <span style={{ fontWeight: '600', textAlign: 'right' as const }}>{count.toLocaleString()}</span>
+                </React.Fragment>
+              ))}
+            </div>
+
+            {rollbackImpact.kept_customers > 0 && (
+              <p style={{ fontSize: '13px', color: colors.semantic.warning, margin: '0 0 8px 0', lineHeight: '1.5' }}>
+                {rollbackImpact.kept_customers.toLocaleString()} customer(s) created by this import now have transactions from other imports and will be kept.
+              </p>
+            )}
+            {rollbackImpact.unrestorable_updates > 0 && (
+              <p style={{ fontSize: '13px', color: colors.semantic.warning, margin: '0 0 8px 0', lineHeight: '1.5' }}>
+                {rollbackImpact.unrestorable_updates.toLocaleString()} updated scheme(s) have no saved previous values and will stay as imported.
+              </p>
+            )}
+
+            <div style={{
+              display: 'flex',
+              gap: '12px',
+              justifyContent: 'flex-end',
+              marginTop: '16px'
+            }}>
+              <button
+                onClick={() => setRollbackImpact(null)}
+                disabled={isRollingBack}
+                style={{
+                  backgroundColor: 'transparent',
+                  color: colors.utility.secondaryText,
+                  border: `1px solid ${colors.utility.primaryText}30`,
+                  borderRadius: '6px',
+                  padding: '8px 16px',
+                  cursor: isRollingBack ? 'not-allowed' : 'pointer',
+                  fontSize: '13px'
+                }}
+              >
+                Keep Import
+              </button>
+              <button
+                onClick={confirmRollback}
+                disabled={isRollingBack}
+                style={{
+                  backgroundColor: colors.semantic.error,
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  padding: '8px 16px',
+                  cursor: isRollingBack ? 'not-allowed' : 'pointer',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  opacity: isRollingBack ? 0.6 : 1
+                }}
+              >
+                {isRollingBack ? 'Rolling Back...' : 'Roll Back'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
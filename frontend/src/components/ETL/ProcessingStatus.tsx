@@ -2,10 +2,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { API_ENDPOINTS } from '../../services/serviceURLs';
+import ImportPreviewReview from './ImportPreviewReview';
+import type { ImportPreview } from '../../types/import.types';
 
 interface ProcessingStatusProps {
   sessionId: number;
   sessionName: string;
+  preview?: ImportPreview; // dry-run result; processing starts only after it is confirmed
   onProcessingComplete: (results: any) => void;
   onError: (error: string) => void;
   onCancel?: () => void;
@@ -58,6 +61,7 @@ const PROCESSING_MESSAGES = [
 const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   sessionId,
   sessionName,
+  preview,
   onProcessingComplete,
   onError,
   onCancel
@@ -81,16 +85,19 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
 
   const [logs, setLogs] = useState<string[]>([]);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
-  const [isPolling, setIsPolling] = useState(true);
+  const [isPolling, setIsPolling] = useState(!preview);
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(!!preview);
+  const [isStarting, setIsStarting] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
   const retryCountRef = useRef(0);
   const maxRetries = 3;
   const lastLoggedPercentage = useRef(0);
+  const startedWithPreview = useRef(!!preview);
 
   // Initialize with welcome log
   useEffect(() => {
-    addLog('Import processing session started');
+    addLog(startedWithPreview.current ? 'Dry run completed - review the outcome before importing' : 'Import processing session started');
   }, []);
 
   // Poll processing status with retry logic
@@ -368,6 +375,44 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
     }
   };
 
+  // Start the real run after the dry run was reviewed
+  const confirmImport = async () => {
+    try {
+      const token = localStorage.getItem('access_token');
+      
+      if (!token) {
+        onError('Authentication token not found');
+        return;
+      }
+
+      setIsStarting(true);
+
+      const response = await fetch(API_ENDPOINTS.IMPORT.PROCESS_SESSION(sessionId), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...(tenantId && { 'X-Tenant-ID': String(tenantId) }),
+          ...(environment && { 'X-Environment': environment })
+        }
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        addLog('Import confirmed, starting processing...');
+        setAwaitingConfirmation(false);
+        setIsPolling(true);
+      } else {
+        onError(`Failed to start import: ${result.error || 'Unknown error'}`);
+      }
+    } catch (error: any) {
+      onError('Network error while starting import');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
   // Format time duration
   const formatTime = (seconds: number): string => {
     if (seconds < 0) return '0s';
@@ -485,211 +530,220 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
         </p>
       </div>
 
-      {/* Status Card */}
-      <div style={{
-        backgroundColor: colors.utility.primaryBackground,
-        borderRadius: '16px',
-        border: `1px solid ${colors.utility.primaryText}10`,
-        padding: '32px',
-        marginBottom: '32px',
-        textAlign: 'center' as const
-      }}>
-        {/* Status Icon */}
+      {/* Dry-run review, then the Status Card */}
+      {awaitingConfirmation && preview ? (
+        <ImportPreviewReview
+          preview={preview}
+          isStarting={isStarting}
+          onConfirm={confirmImport}
+          onCancel={handleCancelRequest}
+        />
+      ) : (
         <div style={{
-          color: getStatusColor(),
-          marginBottom: '16px',
-          display: 'flex',
-          justifyContent: 'center'
+          backgroundColor: colors.utility.primaryBackground,
+          borderRadius: '16px',
+          border: `1px solid ${colors.utility.primaryText}10`,
+          padding: '32px',
+          marginBottom: '32px',
+          textAlign: 'center' as const
         }}>
-          <StatusIcon />
-        </div>
-
-        {/* Status Text */}
-        <h3 style={{
-          fontSize: '20px',
-          fontWeight: '600',
-          color: colors.utility.primaryText,
-          marginBottom: '8px',
-          margin: 0
-        }}>
-          {processingState.status === 'completed_with_errors' 
-            ? 'Completed with Errors'
-            : processingState.status.charAt(0).toUpperCase() + processingState.status.slice(1)}
-        </h3>
+          {/* Status Icon */}
+          <div style={{
+            color: getStatusColor(),
+            marginBottom: '16px',
+            display: 'flex',
+            justifyContent: 'center'
+          }}>
+            <StatusIcon />
+          </div>
 
-        <p style={{
-          fontSize: '14px',
-          color: colors.utility.secondaryText,
-          margin: '0 0 24px 0'
-        }}>
-          {processingState.currentOperation}
-        </p>
+          {/* Status Text */}
+          <h3 style={{
+            fontSize: '20px',
+            fontWeight: '600',
+            color: colors.utility.primaryText,
+            marginBottom: '8px',
+            margin: 0
+          }}>
+            {processingState.status === 'completed_with_errors' 
+              ? 'Completed with Errors'
+              : processingState.status.charAt(0).toUpperCase() + processingState.status.slice(1)}
+          </h3>
+
+          <p style={{
+            fontSize: '14px',
+            color: colors.utility.secondaryText,
+            margin: '0 0 24px 0'
+          }}>
+            {processingState.currentOperation}
+          </p>
 
-        {/* Progress Bar */}
-        {processingState.totalRecords > 0 && (
-          <div style={{ marginBottom: '24px' }}>
-            <div style={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-              marginBottom: '8px'
-            }}>
-              <span style={{
-                fontSize: '14px',
-                fontWeight: '600',
-                color: colors.utility.primaryText
-              }}>
-                {processingState.processedRecords.toLocaleString()} of {processingState.totalRecords.toLocaleString()} records
-              </span>
-              <span style={{
-                fontSize: '14px',
-                fontWeight: '600',
-                color: colors.brand.primary
+          {/* Progress Bar */}
+          {processingState.totalRecords > 0 && (
+            <div style={{ marginBottom: '24px' }}>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: '8px'
               }}>
-                {getProgressPercentage()}%
-              </span>
-            </div>
+                <span style={{
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: colors.utility.primaryText
+                }}>
+                  {processingState.processedRecords.toLocaleString()} of {processingState.totalRecords.toLocaleString()} records
+                </span>
+                <span style={{
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: colors.brand.primary
+                }}>
+                  {getProgressPercentage()}%
+                </span>
+              </div>
 
-            <div style={{
-              width: '100%',
-              height: '12px',
-              backgroundColor: colors.utility.secondaryBackground,
-              borderRadius: '6px',
-              overflow: 'hidden'
-            }}>
               <div style={{
-                width: `${getProgressPercentage()}%`,
-                height: '100%',
-                backgroundColor: colors.brand.primary,
+                width: '100%',
+                height: '12px',
+                backgroundColor: colors.utility.secondaryBackground,
                 borderRadius: '6px',
-                transition: 'width 0.3s ease'
-              }} />
-            </div>
-          </div>
-        )}
-
-        {/* Stats Grid */}
-        <div style={{
-          display: 'grid',
-          gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
-          gap: '16px',
-          marginBottom: '24px'
-        }}>
-          <div style={{ textAlign: 'center' as const }}>
-            <div style={{
-              fontSize: '24px',
-              fontWeight: '700',
-              color: colors.semantic.success,
-              marginBottom: '4px'
-            }}>
-              {processingState.successfulRecords.toLocaleString()}
-            </div>
-            <div style={{
-              fontSize: '12px',
-              color: colors.utility.secondaryText
-            }}>
-              Successful
-            </div>
-          </div>
-
-          <div style={{ textAlign: 'center' as const }}>
-            <div style={{
-              fontSize: '24px',
-              fontWeight: '700',
-              color: colors.semantic.error,
-              marginBottom: '4px'
-            }}>
-              {processingState.failedRecords.toLocaleString()}
-            </div>
-            <div style={{
-              fontSize: '12px',
-              color: colors.utility.secondaryText
-            }}>
-              Failed
+                overflow: 'hidden'
+              }}>
+                <div style={{
+                  width: `${getProgressPercentage()}%`,
+                  height: '100%',
+                  backgroundColor: colors.brand.primary,
+                  borderRadius: '6px',
+                  transition: 'width 0.3s ease'
+                }} />
+              </div>
             </div>
-          </div>
+          )}
 
-          <div style={{ textAlign: 'center' as const }}>
-            <div style={{
-              fontSize: '24px',
-              fontWeight: '700',
-              color: colors.semantic.warning,
-              marginBottom: '4px'
-            }}>
-              {processingState.duplicateRecords.toLocaleString()}
-            </div>
-            <div style={{
-              fontSize: '12px',
-              color: colors.utility.secondaryText
-            }}>
-              Duplicates
+          {/* Stats Grid */}
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))',
+            gap: '16px',
+            marginBottom: '24px'
+          }}>
+            <div style={{ textAlign: 'center' as const }}>
+              <div style={{
+                fontSize: '24px',
+                fontWeight: '700',
+                color: colors.semantic.success,
+                marginBottom: '4px'
+              }}>
+                {processingState.successfulRecords.toLocaleString()}
+              </div>
+              <div style={{
+                fontSize: '12px',
+                color: colors.utility.secondaryText
+              }}>
+                Successful
+              </div>
             </div>
-          </div>
 
-          {processingState.processingSpeed > 0 && (
             <div style={{ textAlign: 'center' as const }}>
               <div style={{
                 fontSize: '24px',
                 fontWeight: '700',
-                color: colors.semantic.info,
+                color: colors.semantic.error,
                 marginBottom: '4px'
               }}>
-                {processingState.processingSpeed.toLocaleString()}
+                {processingState.failedRecords.toLocaleString()}
               </div>
               <div style={{
                 fontSize: '12px',
                 color: colors.utility.secondaryText
               }}>
-                Records/sec
+                Failed
               </div>
             </div>
-          )}
 
-          {processingState.estimatedTimeRemaining > 0 && (
             <div style={{ textAlign: 'center' as const }}>
               <div style={{
                 fontSize: '24px',
                 fontWeight: '700',
-                color: colors.utility.primaryText,
+                color: colors.semantic.warning,
                 marginBottom: '4px'
               }}>
-                {formatTime(processingState.estimatedTimeRemaining)}
+                {processingState.duplicateRecords.toLocaleString()}
               </div>
               <div style={{
                 fontSize: '12px',
                 color: colors.utility.secondaryText
               }}>
-                Remaining
+                Duplicates
               </div>
             </div>
+
+            {processingState.processingSpeed > 0 && (
+              <div style={{ textAlign: 'center' as const }}>
+                <div style={{
+                  fontSize: '24px',
+                  fontWeight: '700',
+                  color: colors.semantic.info,
+                  marginBottom: '4px'
+                }}>
+                  {processingState.processingSpeed.toLocaleString()}
+                </div>
+                <div style={{
+                  fontSize: '12px',
+                  color: colors.utility.secondaryText
+                }}>
+                  Records/sec
+                </div>
+              </div>
+            )}
+
+            {processingState.estimatedTimeRemaining > 0 && (
+              <div style={{ textAlign: 'center' as const }}>
+                <div style={{
+                  fontSize: '24px',
+                  fontWeight: '700',
+                  color: colors.utility.primaryText,
+                  marginBottom: '4px'
+                }}>
+                  {formatTime(processingState.estimatedTimeRemaining)}
+                </div>
+                <div style={{
+                  fontSize: '12px',
+                  color: colors.utility.secondaryText
+                }}>
+                  Remaining
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Cancel Button */}
+          {(processingState.status === 'pending' || processingState.status === 'staged' || processingState.status === 'processing') && (
+            <button
+              onClick={handleCancelRequest}
+              style={{
+                backgroundColor: 'transparent',
+                color: colors.semantic.error,
+                border: `1px solid ${colors.semantic.error}`,
+                borderRadius: '8px',
+                padding: '8px 16px',
+                fontSize: '14px',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease'
+              }}
+              onMouseOver={(e) => {
+                e.currentTarget.style.backgroundColor = colors.semantic.error + '10';
+              }}
+              onMouseOut={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Cancel Import
+            </button>
           )}
         </div>
-
-        {/* Cancel Button */}
-        {(processingState.status === 'pending' || processingState.status === 'staged' || processingState.status === 'processing') && (
-          <button
-            onClick={handleCancelRequest}
-            style={{
-              backgroundColor: 'transparent',
-              color: colors.semantic.error,
-              border: `1px solid ${colors.semantic.error}`,
-              borderRadius: '8px',
-              padding: '8px 16px',
-              fontSize: '14px',
-              cursor: 'pointer',
-              transition: 'all 0.2s ease'
-            }}
-            onMouseOver={(e) => {
-              e.currentTarget.style.backgroundColor = colors.semantic.error + '10';
-            }}
-            onMouseOut={(e) => {
-              e.currentTarget.style.backgroundColor = 'transparent';
-            }}
-          >
-            Cancel Import
-          </button>
-        )}
-      </div>
+      )}
 
       {/* Processing Logs */}
       <div style={{
@@ -378,101 +378,105 @@ const CustomerDetailPanel: React.FC<CustomerDetailPanelProps> = ({
             </div>
 
             {/* Goal Progress */}
-            <div style={{
-              backgroundColor: colors.utility.primaryBackground,
-              borderRadius: '12px',
-              padding: '16px'
-            }}>
-              <h3 style={{
-                fontSize: '14px',
-                fontWeight: '600',
-                color: colors.utility.primaryText,
-                textTransform: 'uppercase',
-                letterSpacing: '0.5px',
-                margin: 0,
-                marginBottom: '12px'
-              }}>
-                Primary Goal
-              </h3>
-              
+            {jtbd.primaryGoal && (
               <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                marginBottom: '8px'
+                backgroundColor: colors.utility.primaryBackground,
+                borderRadius: '12px',
+                padding: '16px'
               }}>
-                <span style={{
-                  fontSize: '13px',
-                  color: colors.utility.primaryText
-                }}>
-                  {jtbd.primaryGoal.name}
-                </span>
-                <span style={{
-                  fontSize: '13px',
+                <h3 style={{
+                  fontSize: '14px',
                   fontWeight: '600',
-                  color: jtbd.primaryGoal.onTrack ? '#10B981' : '#F59E0B'
+                  color: colors.utility.primaryText,
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.5px',
+                  margin: 0,
+                  marginBottom: '12px'
                 }}>
-                  {jtbd.primaryGoal.currentProgress}%
-                </span>
-              </div>
-              
-              <div style={{
-                width: '100%',
-                height: '8px',
-                backgroundColor: colors.utility.secondaryText + '20',
-                borderRadius: '4px',
-                overflow: 'hidden'
-              }}>
+                  Primary Goal
+                </h3>
+                
                 <div style={{
-                  width: `${jtbd.primaryGoal.currentProgress}%`,
-                  height: '100%',
-                  backgroundColor: jtbd.primaryGoal.onTrack ? '#10B981' : '#F59E0B',
-                  transition: 'width 0.3s ease'
-                }} />
-              </div>
-              
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                marginTop: '8px',
-                fontSize: '11px',
-                color: colors.utility.secondaryText
-              }}>
-                <span>Target: {formatCurrency(jtbd.primaryGoal.targetAmount)}</span>
-                <span>{jtbd.primaryGoal.targetDate}</span>
-              </div>
-            </div>
-
-            {/* Next Review */}
-            <div style={{
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-              padding: '12px',
-              backgroundColor: colors.utility.primaryBackground,
-              borderRadius: '8px'
-            }}>
-              <CalendarIcon />
-              <div>
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  marginBottom: '8px'
+                }}>
+                  <span style={{
+                    fontSize: '13px',
+                    color: colors.utility.primaryText
+                  }}>
+                    {jtbd.primaryGoal.name}
+                  </span>
+                  <span style={{
+                    fontSize: '13px',
+                    fontWeight: '600',
+                    color: jtbd.primaryGoal.onTrack ? '#10B981' : '#F59E0B'
+                  }}>
+                    {jtbd.primaryGoal.currentProgress}%
+                  </span>
+                </div>
+                
                 <div style={{
-                  fontSize: '12px',
-                  color: colors.utility.secondaryText
+                  width: '100%',
+                  height: '8px',
+                  backgroundColor: colors.utility.secondaryText + '20',
+                  borderRadius: '4px',
+                  overflow: 'hidden'
                 }}>
-                  Next Review
+                  <div style={{
+                    width: `${jtbd.primaryGoal.currentProgress}%`,
+                    height: '100%',
+                    backgroundColor: jtbd.primaryGoal.onTrack ? '#10B981' : '#F59E0B',
+                    transition: 'width 0.3s ease'
+                  }} />
                 </div>
+                
                 <div style={{
-                  fontSize: '14px',
-                  fontWeight: '500',
-                  color: colors.utility.primaryText
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  marginTop: '8px',
+                  fontSize: '11px',
+                  color: colors.utility.secondaryText
                 }}>
-                  {new Date(jtbd.nextReview).toLocaleDateString('en-IN', {
-                    day: 'numeric',
-                    month: 'short',
-                    year: 'numeric'
-                  })}
+                  <span>Target: {formatCurrency(jtbd.primaryGoal.targetAmount)}</span>
+                  <span>{jtbd.primaryGoal.targetDate}</span>
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Next Review */}
+            {jtbd.nextReview && (
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '12px',
+                backgroundColor: colors.utility.primaryBackground,
+                borderRadius: '8px'
+              }}>
+                <CalendarIcon />
+                <div>
+                  <div style={{
+                    fontSize: '12px',
+                    color: colors.utility.secondaryText
+                  }}>
+                    Next Review
+                  </div>
+                  <div style={{
+                    fontSize: '14px',
+                    fontWeight: '500',
+                    color: colors.utility.primaryText
+                  }}>
+                    {new Date(jtbd.nextReview).toLocaleDateString('en-IN', {
+                      day: 'numeric',
+                      month: 'short',
+                      year: 'numeric'
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
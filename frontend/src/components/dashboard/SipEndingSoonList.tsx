@@ -0,0 +1,99 @@
+// src/components/dashboard/SipEndingSoonList.tsx
+
+import React from 'react';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { useTheme } from '../../hooks/useTheme';
+import { useSipsEndingSoon } from '../../hooks/useSips';
+
+interface SipEndingSoonListProps {
+  days?: number;
+}
+
+const SipEndingSoonList: React.FC<SipEndingSoonListProps> = ({ days = 60 }) => {
+  const { theme, isDarkMode } = useTheme();
+  const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
+
+  const { data: sips = [], isLoading, error } = useSipsEndingSoon(days);
+
+  const formatDate = (date: string): string =>
+    new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  const daysLeft = (date: string): number =>
+    Math.ceil((new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+  return (
+    <div
+      className="rounded-lg p-6 shadow-sm border"
+      style={{
+        backgroundColor: colors.utility.secondaryBackground,
+        borderColor: colors.utility.secondaryText + '20'
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2
+          className="text-lg font-semibold"
+          style={{ color: colors.utility.primaryText }}
+        >
+          SIPs Ending in {days} Days
+        </h2>
+        <CalendarClock className="w-5 h-5" style={{ color: colors.semantic.warning }} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin" style={{ color: colors.brand.primary }} />
+        </div>
+      ) : error ? (
+        <p className="text-sm" style={{ color: colors.semantic.error }}>
+          {error.message}
+        </p>
+      ) : sips.length === 0 ? (
+        <p className="text-sm" style={{ color: colors.utility.secondaryText }}>
+          No SIPs ending in the next {days} days
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {sips.map(sip => (
+            <div
+              key={sip.id}
+              className="flex items-center justify-between py-2 border-b last:border-0"
+              style={{ borderColor: colors.utility.secondaryText + '10' }}
+            >
+              <div className="min-w-0">
+                <p
+                  className="font-medium truncate"
+                  style={{ color: colors.utility.primaryText }}
+                >
+                  {sip.customer_name}
+                </p>
+                <p
+                  className="text-sm truncate"
+                  style={{ color: colors.utility.secondaryText }}
+                >
+                  {sip.plan_type} · {sip.scheme_name || sip.scheme_code}
+                  {sip.folio_no ? ` · ${sip.folio_no}` : ''}
+                </p>
+              </div>
+              <div className="text-right ml-4 flex-shrink-0">
+                <p
+                  className="font-semibold"
+                  style={{ color: colors.utility.primaryText }}
+                >
+                  ₹{sip.amount.toLocaleString('en-IN')}
+                </p>
+                <p
+                  className="text-xs"
+                  style={{ color: daysLeft(sip.end_date!) <= 15 ? colors.semantic.error : colors.semantic.warning }}
+                >
+                  Ends {formatDate(sip.end_date!)} ({daysLeft(sip.end_date!)}d)
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SipEndingSoonList;
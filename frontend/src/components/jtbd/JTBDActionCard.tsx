@@ -11,6 +11,7 @@ interface JTBDActionCardProps {
   compact?: boolean;
   maxActions?: number;
   onActionClick?: (action: JTBDAction) => void;
+  onStatusChange?: (action: JTBDAction, change: 'dismiss' | 'snooze' | 'complete') => void;
 }
 
 const JTBDActionCard: React.FC<JTBDActionCardProps> = ({
@@ -19,7 +20,8 @@ const JTBDActionCard: React.FC<JTBDActionCardProps> = ({
   riskAssessment,
   compact = false,
   maxActions = 3,
-  onActionClick
+  onActionClick,
+  onStatusChange
 }) => {
   const { theme, isDarkMode } = useTheme();
   const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
@@ -422,6 +424,39 @@ const JTBDActionCard: React.FC<JTBDActionCardProps> = ({
                     <ChevronRightIcon />
                   </button>
                 )}
+
+                {onStatusChange && (
+                  <div style={{
+                    display: 'flex',
+                    gap: '12px',
+                    marginTop: '8px'
+                  }}>
+                    {([
+                      { change: 'complete', label: 'Done' },
+                      { change: 'snooze', label: 'Snooze 7d' },
+                      { change: 'dismiss', label: 'Dismiss' }
+                    ] as const).map(({ change, label }) => (
+                      <button
+                        key={change}
+                        style={{
+                          padding: 0,
+                          backgroundColor: 'transparent',
+                          border: 'none',
+                          color: change === 'complete' ? '#10B981' : colors.utility.secondaryText,
+                          fontSize: '11px',
+                          fontWeight: '500',
+                          cursor: 'pointer'
+                        }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onStatusChange(action, change);
+                        }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           </div>
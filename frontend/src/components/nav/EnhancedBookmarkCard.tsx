@@ -5,7 +5,7 @@ import React, { useState } from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useBookmarks } from '../../hooks/useNavData';
 import { toastService } from '../../services/toast.service';
-import type { SchemeBookmark } from '../../services/nav.service';
+import type { SchemeBookmark, SchemeNavQuality } from '../../services/nav.service';
 
 interface EnhancedBookmarkCardProps {
   bookmark: SchemeBookmark;
@@ -13,6 +13,7 @@ interface EnhancedBookmarkCardProps {
   onViewNavData?: (bookmark: SchemeBookmark) => void;
   onHistoricalDownload?: (bookmark: SchemeBookmark) => void;
   showActions?: boolean;
+  quality?: SchemeNavQuality; // findings from GET /api/nav/quality
 }
 
 export const EnhancedBookmarkCard: React.FC<EnhancedBookmarkCardProps> = ({
@@ -20,7 +21,8 @@ export const EnhancedBookmarkCard: React.FC<EnhancedBookmarkCardProps> = ({
   onToggleDaily,
   onViewNavData,
   onHistoricalDownload,
-  showActions = true
+  showActions = true,
+  quality
 }) => {
   const { theme, isDarkMode } = useTheme();
   const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
@@ -96,6 +98,50 @@ export const EnhancedBookmarkCard: React.FC<EnhancedBookmarkCardProps> = ({
 
   const statusIndicator = getStatusIndicator();
 
+  // Data-quality badges: gaps, spikes and stale NAVs
+  const getQualityBadges = () => {
+    if (!quality) return [];
+
+    const badges: Array<{ key: string; label: string; title: string; color: string }> = [];
+
+    if (quality.missing_dates.length > 0) {
+      const shown = quality.missing_dates.slice(0, 10).join(', ');
+      const more = quality.missing_dates.length > 10 ? ` and ${quality.missing_dates.length - 10} more` : '';
+      badges.push({
+        key: 'gap',
+        label: `${quality.missing_dates.length} gap${quality.missing_dates.length === 1 ? '' : 's'}`,
+        title: `Missing NAV on business days: ${shown}${more}`,
+        color: colors.semantic.warning
+      });
+    }
+
+    if (quality.spikes.length > 0) {
+      badges.push({
+        key: 'spike',
+        label: `${quality.spikes.length} spike${quality.spikes.length === 1 ? '' : 's'}`,
+        title: quality.spikes
+          .map(spike => `${spike.nav_date}: ${spike.change_pct > 0 ? '+' : ''}${spike.change_pct}% (₹${spike.previous_nav_value} → ₹${spike.nav_value})`)
+          .join('\n'),
+        color: colors.semantic.error
+      });
+    }
+
+    if (quality.is_stale) {
+      badges.push({
+        key: 'stale',
+        label: quality.days_since_latest !== null ? `Stale ${quality.days_since_latest}d` : 'No NAV',
+        title: quality.latest_nav_date
+          ? `Latest NAV is from ${new Date(quality.latest_nav_date).toLocaleDateString()}`
+          : 'No NAV data stored for this scheme',
+        color: colors.semantic.error
+      });
+    }
+
+    return badges;
+  };
+
+  const qualityBadges = getQualityBadges();
+
   return (
     <div 
       className="enhanced-bookmark-card"
@@ -137,6 +183,24 @@ export const EnhancedBookmarkCard: React.FC<EnhancedBookmarkCardProps> = ({
           <span style={{ color: statusIndicator.color }}>
             {statusIndicator.icon} {statusIndicator.message}
           </span>
+          {qualityBadges.map(badge => (
+            <span
+              key={badge.key}
+              title={badge.title}
+              style={{
+                padding: '1px 6px',
+                borderRadius: '10px',
+                fontSize: '10px',
+                fontWeight: '600',
+                color: badge.color,
+                backgroundColor: `${badge.color}15`,
+                border: `1px solid ${badge.color}40`,
+                cursor: 'help'
+              }}
+            >
+              {badge.label}
+            </span>
+          ))}
         </div>
 
         {/* NAV DATA RANGE */}
@@ -0,0 +1,104 @@
+// frontend/src/components/nav/NavComparisonChart.tsx
+// Line chart of NAV series rebased to 100 (plain SVG, benchmark drawn dashed)
+
+import React from 'react';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { SchemeComparison } from '../../services/nav.service';
+
+interface NavComparisonChartProps {
+  comparison: SchemeComparison;
+  colorFor: (schemeId: number) => string;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 320;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+// Enough resolution for the chart width; long histories are thinned evenly
+const MAX_POINTS = 500;
+
+export const NavComparisonChart: React.FC<NavComparisonChartProps> = ({ comparison, colorFor }) => {
+  const { theme, isDarkMode } = useTheme();
+  const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
+
+  const step = Math.max(1, Math.ceil(comparison.series.length / MAX_POINTS));
+  const points = comparison.series.filter((_, index) =>
+    index % step === 0 || index === comparison.series.length - 1
+  );
+
+  if (points.length < 2) {
+    return (
+      <div style={{ padding: '40px', textAlign: 'center', color: colors.utility.secondaryText }}>
+        Not enough common NAV history to chart
+      </div>
+    );
+  }
+
+  const allValues = points.flatMap(point => Object.values(point.values));
+  const min = Math.min(...allValues);
+  const max = Math.max(...allValues);
+  const range = max - min || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (index / (points.length - 1)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - ((value - min) / range) * plotHeight;
+
+  const gridValues = [0, 0.25, 0.5, 0.75, 1].map(fraction => min + range * fraction);
+  const dateLabels = [0, Math.floor((points.length - 1) / 2), points.length - 1];
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ display: 'block' }}>
+      {gridValues.map(value => (
+        <g key={`grid-${value}`}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(value)}
+            y2={y(value)}
+            stroke={colors.utility.primaryText + '15'}
+          />
+          <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="11" fill={colors.utility.secondaryText}>
+            {value.toFixed(0)}
+          </text>
+        </g>
+      ))}
+
+      {min < 100 && max > 100 && (
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(100)}
+          y2={y(100)}
+          stroke={colors.utility.primaryText + '40'}
+          strokeDasharray="2 4"
+        />
+      )}
+
+      {dateLabels.map(index => (
+        <text
+          key={`date-${index}`}
+          x={x(index)}
+          y={HEIGHT - 8}
+          textAnchor={index === 0 ? 'start' : index === points.length - 1 ? 'end' : 'middle'}
+          fontSize="11"
+          fill={colors.utility.secondaryText}
+        >
+          {new Date(points[index].nav_date).toLocaleDateString()}
+        </text>
+      ))}
+
+      {comparison.schemes.map(scheme => (
+        <path
+          key={scheme.scheme_id}
+          d={`M ${points.map((point, index) => `${x(index)},${y(point.values[scheme.scheme_id])}`).join(' L ')}`}
+          fill="none"
+          stroke={colorFor(scheme.scheme_id)}
+          strokeWidth={scheme.is_benchmark ? 1.5 : 2}
+          strokeDasharray={scheme.is_benchmark ? '6 4' : undefined}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+};
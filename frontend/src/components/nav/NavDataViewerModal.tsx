@@ -6,6 +6,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useBookmarkNavData } from '../../hooks/useNavData';
 import { toastService } from '../../services/toast.service';
 import { FrontendErrorLogger } from '../../services/errorLogger.service';
+import { SchemeAnalyticsPanel } from './SchemeAnalyticsPanel';
 import type { SchemeBookmark, NavData } from '../../services/nav.service';
 
 interface NavDataViewerModalProps {
@@ -36,6 +37,7 @@ export const NavDataViewerModal: React.FC<NavDataViewerModalProps> = ({
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [activeView, setActiveView] = useState<'data' | 'analytics'>('data');
   const pageSize = 20;
 
   // FIXED: Safe number formatting function
@@ -52,6 +54,7 @@ export const NavDataViewerModal: React.FC<NavDataViewerModalProps> = ({
   // Load NAV data when modal opens
   useEffect(() => {
     if (isOpen && bookmark) {
+      setActiveView('data');
       resetFilters();
       loadInitialData();
     } else if (!isOpen) {
@@ -325,6 +328,44 @@ export const NavDataViewerModal: React.FC<NavDataViewerModalProps> = ({
           )}
         </div>
 
+        {/* View Tabs */}
+        <div style={{
+          display: 'flex',
+          gap: '4px',
+          marginBottom: '20px',
+          borderBottom: `1px solid ${colors.utility.primaryText}10`
+        }}>
+          {([
+            { key: 'data', label: '📋 NAV History' },
+            { key: 'analytics', label: '📈 Analytics' }
+          ] as const).map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setActiveView(tab.key)}
+              style={{
+                padding: '8px 16px',
+                background: 'none',
+                border: 'none',
+                borderBottom: activeView === tab.key
+                  ? `2px solid ${colors.brand.primary}`
+                  : '2px solid transparent',
+                color: activeView === tab.key ? colors.brand.primary : colors.utility.secondaryText,
+                cursor: 'pointer',
+                fontSize: '13px',
+                fontWeight: activeView === tab.key ? '600' : '500'
+              }}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeView === 'analytics' ? (
+          <div style={{ flex: 1, overflow: 'auto' }}>
+            <SchemeAnalyticsPanel schemeId={bookmark.scheme_id} />
+          </div>
+        ) : (
+        <>
         {/* Filters */}
         <div style={{
           display: 'flex',
@@ -701,6 +742,8 @@ export const NavDataViewerModal: React.FC<NavDataViewerModalProps> = ({
             </button>
           </div>
         )}
+        </>
+        )}
       </div>
 
       {/* CSS Animation */}
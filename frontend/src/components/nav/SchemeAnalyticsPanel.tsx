@@ -0,0 +1,278 @@
+// frontend/src/components/nav/SchemeAnalyticsPanel.tsx
+// Return and risk analytics of a scheme (trailing/rolling returns, volatility, drawdown, Sharpe)
+
+import React, { useState, useEffect } from 'react';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useSchemeAnalytics } from '../../hooks/useNavData';
+
+interface SchemeAnalyticsPanelProps {
+  schemeId: number;
+}
+
+export const SchemeAnalyticsPanel: React.FC<SchemeAnalyticsPanelProps> = ({ schemeId }) => {
+  const { theme, isDarkMode } = useTheme();
+  const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
+
+  const { analytics, isLoading, error, fetchAnalytics, clearAnalytics } = useSchemeAnalytics();
+
+  // Empty = server default (RISK_FREE_RATE)
+  const [riskFreeRate, setRiskFreeRate] = useState('');
+
+  useEffect(() => {
+    fetchAnalytics(schemeId);
+    return () => clearAnalytics();
+  }, [schemeId, fetchAnalytics, clearAnalytics]);
+
+  const handleRecalculate = () => {
+    const rate = riskFreeRate.trim() === '' ? undefined : parseFloat(riskFreeRate);
+    fetchAnalytics(schemeId, rate !== undefined && !isNaN(rate) ? rate : undefined);
+  };
+
+  const formatPct = (value: number | null | undefined): string =>
+    value === null || value === undefined ? '—' : `${value.toFixed(2)}%`;
+
+  const formatDate = (value: string | null | undefined): string =>
+    value ? new Date(value).toLocaleDateString() : '—';
+
+  const pctColor = (value: number | null | undefined): string => {
+    if (value === null || value === undefined) return colors.utility.secondaryText;
+    return value >= 0 ? colors.semantic.success : colors.semantic.error;
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: colors.utility.primaryText,
+    margin: '0 0 8px 0'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    textAlign: 'right',
+    borderBottom: `1px solid ${colors.utility.primaryText}05`
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    fontWeight: '600',
+    color: colors.utility.primaryText,
+    backgroundColor: colors.utility.secondaryBackground
+  };
+
+  const cardStyle: React.CSSProperties = {
+    padding: '12px',
+    backgroundColor: colors.utility.secondaryBackground,
+    borderRadius: '8px',
+    fontSize: '12px'
+  };
+
+  if (isLoading && !analytics) {
+    return (
+      <div style={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: '40px',
+        color: colors.utility.secondaryText
+      }}>
+        <span style={{
+          width: '24px',
+          height: '24px',
+          border: '3px solid transparent',
+          borderTop: `3px solid ${colors.brand.primary}`,
+          borderRadius: '50%',
+          animation: 'spin 1s linear infinite',
+          marginRight: '12px'
+        }} />
+        Calculating analytics...
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div style={{
+        padding: '12px',
+        backgroundColor: colors.semantic.error + '10',
+        color: colors.semantic.error,
+        borderRadius: '6px',
+        border: `1px solid ${colors.semantic.error}30`,
+        fontSize: '14px'
+      }}>
+        {error || 'No analytics available for this scheme'}
+      </div>
+    );
+  }
+
+  const drawdown = analytics.max_drawdown;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
+      {/* Risk-free rate */}
+      <div style={{
+        display: 'flex',
+        gap: '12px',
+        alignItems: 'end',
+        flexWrap: 'wrap',
+        justifyContent: 'space-between'
+      }}>
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'end' }}>
+          <div>
+            <label style={{
+              display: 'block',
+              fontSize: '12px',
+              fontWeight: '500',
+              color: colors.utility.primaryText,
+              marginBottom: '4px'
+            }}>
+              Risk-free Rate (% p.a.)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={riskFreeRate}
+              placeholder={analytics.risk_free_rate.toString()}
+              onChange={(e) => setRiskFreeRate(e.target.value)}
+              disabled={isLoading}
+              style={{
+                width: '100px',
+                padding: '6px 8px',
+                border: `1px solid ${colors.utility.primaryText}20`,
+                borderRadius: '4px',
+                backgroundColor: colors.utility.primaryBackground,
+                color: colors.utility.primaryText,
+                fontSize: '12px',
+                outline: 'none'
+              }}
+            />
+          </div>
+          <button
+            onClick={handleRecalculate}
+            disabled={isLoading}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: isLoading ? colors.utility.secondaryText : colors.brand.primary,
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isLoading ? 'not-allowed' : 'pointer',
+              fontSize: '12px',
+              fontWeight: '500'
+            }}
+          >
+            Update Sharpe
+          </button>
+        </div>
+
+        <div style={{ fontSize: '12px', color: colors.utility.secondaryText }}>
+          As of {formatDate(analytics.latest_nav_date)} · {analytics.nav_count.toLocaleString()} NAVs since {formatDate(analytics.first_nav_date)}
+        </div>
+      </div>
+
+      {/* Risk summary */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+        gap: '12px'
+      }}>
+        {analytics.sharpe.map(item => (
+          <div key={`risk-${item.period}`} style={cardStyle}>
+            <strong style={{ color: colors.utility.primaryText }}>{item.period} Volatility / Sharpe</strong>
+            <div style={{ color: colors.brand.primary, fontWeight: '600', marginTop: '4px' }}>
+              {formatPct(item.annualised_volatility)} / {item.sharpe_ratio !== null ? item.sharpe_ratio.toFixed(2) : '—'}
+            </div>
+          </div>
+        ))}
+        <div style={cardStyle}>
+          <strong style={{ color: colors.utility.primaryText }}>Max Drawdown</strong>
+          <div style={{ color: colors.semantic.error, fontWeight: '600', marginTop: '4px' }}>
+            {formatPct(drawdown.max_drawdown_pct)}
+          </div>
+          <div style={{ color: colors.utility.secondaryText, marginTop: '4px' }}>
+            {formatDate(drawdown.peak_date)} → {formatDate(drawdown.trough_date)}
+          </div>
+          <div style={{ color: colors.utility.secondaryText }}>
+            {drawdown.trough_date
+              ? (drawdown.recovery_date ? `Recovered ${formatDate(drawdown.recovery_date)}` : 'Not yet recovered')
+              : 'No drawdown'}
+          </div>
+        </div>
+        <div style={cardStyle}>
+          <strong style={{ color: colors.utility.primaryText }}>Current Drawdown</strong>
+          <div style={{ color: pctColor(drawdown.current_drawdown_pct), fontWeight: '600', marginTop: '4px' }}>
+            {formatPct(drawdown.current_drawdown_pct)}
+          </div>
+          <div style={{ color: colors.utility.secondaryText, marginTop: '4px' }}>
+            50 DMA: {analytics.moving_averages.dma_50 !== null ? `₹${analytics.moving_averages.dma_50.toFixed(2)}` : '—'}
+          </div>
+          <div style={{ color: colors.utility.secondaryText }}>
+            200 DMA: {analytics.moving_averages.dma_200 !== null ? `₹${analytics.moving_averages.dma_200.toFixed(2)}` : '—'}
+          </div>
+        </div>
+      </div>
+
+      {/* Trailing returns */}
+      <div>
+        <h4 style={sectionTitleStyle}>Trailing Returns</h4>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headerCellStyle, textAlign: 'left' }}>Period</th>
+              <th style={headerCellStyle}>From</th>
+              <th style={headerCellStyle}>Absolute</th>
+              <th style={headerCellStyle}>CAGR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analytics.trailing_returns.map(item => (
+              <tr key={`trailing-${item.period}`}>
+                <td style={{ ...cellStyle, textAlign: 'left', color: colors.utility.primaryText }}>{item.period}</td>
+                <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{formatDate(item.start_date)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.absolute_return), fontWeight: '600' }}>
+                  {formatPct(item.absolute_return)}
+                </td>
+                <td style={{ ...cellStyle, color: pctColor(item.cagr) }}>{formatPct(item.cagr)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Rolling returns */}
+      <div>
+        <h4 style={sectionTitleStyle}>Rolling Returns (CAGR)</h4>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headerCellStyle, textAlign: 'left' }}>Window</th>
+              <th style={headerCellStyle}>Observations</th>
+              <th style={headerCellStyle}>Min</th>
+              <th style={headerCellStyle}>25th pct</th>
+              <th style={headerCellStyle}>Median</th>
+              <th style={headerCellStyle}>Mean</th>
+              <th style={headerCellStyle}>75th pct</th>
+              <th style={headerCellStyle}>Max</th>
+              <th style={headerCellStyle}>Positive</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analytics.rolling_returns.map(item => (
+              <tr key={`rolling-${item.period}`}>
+                <td style={{ ...cellStyle, textAlign: 'left', color: colors.utility.primaryText }}>{item.period}</td>
+                <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{item.observations.toLocaleString()}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.min) }}>{formatPct(item.min)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.percentile_25) }}>{formatPct(item.percentile_25)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.median), fontWeight: '600' }}>{formatPct(item.median)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.mean) }}>{formatPct(item.mean)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.percentile_75) }}>{formatPct(item.percentile_75)}</td>
+                <td style={{ ...cellStyle, color: pctColor(item.max) }}>{formatPct(item.max)}</td>
+                <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{formatPct(item.positive_pct)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -66,6 +66,10 @@ const PortfolioSummaryWidget: React.FC<PortfolioSummaryWidgetProps> = ({
   };
 
   const isPositive = portfolio.summary.total_returns >= 0;
+  // Under a year only the absolute return is meaningful
+  const headlineReturn = portfolio.summary.returns_annualised
+    ? portfolio.summary.xirr
+    : portfolio.summary.absolute_return;
   const sparklineColor = isPositive ? '#10B981' : '#EF4444';
 
   // Icons
@@ -250,6 +254,35 @@ const PortfolioSummaryWidget: React.FC<PortfolioSummaryWidgetProps> = ({
             </span>
             <span style={{ color: colors.utility.secondaryText }}>Overall</span>
           </div>
+
+          {headlineReturn !== undefined && headlineReturn !== null && (
+            <>
+              <div style={{
+                width: '1px',
+                height: '12px',
+                backgroundColor: colors.utility.primaryText + '20'
+              }} />
+
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  color: getValueColor(headlineReturn)
+                }}
+                title={portfolio.summary.returns_annualised
+                  ? 'Annualised return from dated cash flows'
+                  : 'Held for under a year - absolute return, not annualised'}
+              >
+                <span style={{ fontWeight: '600' }}>
+                  {formatPercentage(headlineReturn)}
+                </span>
+                <span style={{ color: colors.utility.secondaryText }}>
+                  {portfolio.summary.returns_annualised ? 'XIRR' : 'Abs.'}
+                </span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -100,10 +100,12 @@ export const PAGINATION_DEFAULTS = {
 } as const;
 
 export const CONTACT_BULK_ACTIONS = [
-  { value: 'activate', label: 'Activate Contacts', icon: 'check-circle' },
-  { value: 'deactivate', label: 'Deactivate Contacts', icon: 'x-circle' },
-  { value: 'export', label: 'Export Contacts', icon: 'download' },
-  { value: 'delete', label: 'Delete Contacts', icon: 'trash-2', destructive: true }
+  { value: 'activate', label: 'Activate', icon: 'check-circle' },
+  { value: 'deactivate', label: 'Deactivate', icon: 'x-circle' },
+  { value: 'add_tag', label: 'Add Tag', icon: 'tag' },
+  { value: 'remove_tag', label: 'Remove Tag', icon: 'tag' },
+  { value: 'convert_to_customer', label: 'Convert to Customer', icon: 'user-check' },
+  { value: 'delete', label: 'Delete', icon: 'trash-2', destructive: true }
 ] as const;
 
 export const CONTACT_MESSAGES = {
@@ -48,7 +48,8 @@ export const IMPORT_STATUS = {
   PROCESSING: 'processing',
   COMPLETED: 'completed',
   FAILED: 'failed',
-  CANCELLED: 'cancelled'
+  CANCELLED: 'cancelled',
+  ROLLED_BACK: 'rolled_back'
 } as const;
 
 export const RECORD_STATUS = {
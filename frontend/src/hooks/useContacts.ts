@@ -12,6 +12,7 @@ import {
   ContactListResponse,
   BulkActionRequest,
   BulkActionResponse,
+  ContactExportRequest,
   CreateChannelRequest,
   UpdateChannelRequest
 } from '../types/contact.types';
@@ -450,15 +451,22 @@ export function useBulkContactAction() {
 
       return response.data;
     },
-    onSuccess: (result, request) => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: CONTACT_QUERY_KEYS.lists() });
       queryClient.invalidateQueries({ queryKey: CONTACT_QUERY_KEYS.stats() });
-      
-      const actionLabel = request.action.charAt(0).toUpperCase() + request.action.slice(1);
-      toastService.success(`${actionLabel} action completed: ${result.affected_count} contacts processed`);
-      
-      if (request.action === 'export' && result.export_url) {
-        toastService.info('Export ready for download', { autoClose: 5000 });
+      if (result.action === 'convert_to_customer') {
+        queryClient.invalidateQueries({ queryKey: ['customers'] });
+      }
+
+      const actionLabel = result.action.replace(/_/g, ' ');
+      if (result.failed_count > 0) {
+        const firstError = result.results.find(item => !item.success)?.error;
+        toastService.warning(
+          `${actionLabel}: ${result.affected_count} of ${result.total} contacts processed, ${result.failed_count} failed` +
+          (firstError ? ` (${firstError})` : '')
+        );
+      } else {
+        toastService.success(`${actionLabel}: ${result.affected_count} contacts processed`);
       }
     },
     onError: (error) => {
@@ -467,6 +475,43 @@ export function useBulkContactAction() {
   });
 }
 
+// Mutation hook for exporting contacts (downloads a CSV/Excel file)
+export function useExportContacts() {
+  const { user, tenantId, environment } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ format, columns, filters = {} }: ContactExportRequest): Promise<void> => {
+      if (!user || !tenantId) {
+        throw new Error('Authentication required');
+      }
+
+      const params = {
+        ...filters,
+        format,
+        columns: columns && columns.length > 0 ? columns.join(',') : undefined
+      };
+      const blob = await apiService.get<Blob>(`/contacts/export${buildQueryParams(params, environment)}`, {
+        responseType: 'blob'
+      });
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `contacts_${new Date().toISOString().substring(0, 10)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onSuccess: () => {
+      toastService.success('Contacts exported');
+    },
+    onError: (error) => {
+      handleAPIError(error, 'Failed to export contacts');
+    }
+  });
+}
+
 // Mutation hook for adding channels
 export function useAddChannel() {
   const queryClient = useQueryClient();
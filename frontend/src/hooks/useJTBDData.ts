@@ -1,305 +1,205 @@
 // src/hooks/useJTBDData.ts
 
-import { useState, useEffect, useMemo } from 'react';
-import { JTBDData, JTBDFilters, JTBDMetrics, CustomerJTBDSummary } from '../types/jtbd.types';
-import { mockJTBDData } from '../data/mock/mockJTBDData';
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api.service';
+import toastService from '../services/toast.service';
+import { API_ENDPOINTS, buildQueryParams, getAPIErrorMessage } from '../services/serviceURLs';
+import {
+  JTBDAction,
+  JTBDActionStatus,
+  JTBDCustomerGoal,
+  JTBDData,
+  JTBDGoal,
+  JTBDSnoozeRequest
+} from '../types/jtbd.types';
+
+// Query Keys for consistent caching
+export const JTBD_QUERY_KEYS = {
+  all: ['jtbd'] as const,
+  actions: (customerId: number) => [...JTBD_QUERY_KEYS.all, 'actions', customerId] as const,
+  goals: (customerId: number) => [...JTBD_QUERY_KEYS.all, 'goals', customerId] as const,
+} as const;
+
+type ActionStatusChange = 'dismiss' | 'snooze' | 'complete';
+
+interface ActionStatusRequest {
+  customerId: number;
+  actionId: string;
+  change: ActionStatusChange;
+  body?: JTBDSnoozeRequest;
+}
 
 interface UseJTBDDataOptions {
   customerId?: number;
-  filters?: JTBDFilters;
-  includeMetrics?: boolean;
+  status?: JTBDActionStatus | 'all';
+  includeGoals?: boolean;
 }
 
-interface UseJTBDDataReturn {
-  jtbd: JTBDData | null;
-  jtbdList: JTBDData[];
-  metrics: JTBDMetrics | null;
-  summaries: CustomerJTBDSummary[];
-  isLoading: boolean;
-  error: Error | null;
-  refetch: () => void;
-}
+const fetchActions = async (
+  customerId: number,
+  status: JTBDActionStatus | 'all',
+  environment?: 'live' | 'test'
+): Promise<JTBDAction[]> => {
+  const endpoint = `${API_ENDPOINTS.CUSTOMERS.ACTIONS(customerId)}${buildQueryParams({ status }, environment)}`;
+  const response = await apiService.get<{ success: boolean; data: JTBDAction[]; error?: string }>(endpoint);
 
-export const useJTBDData = (options: UseJTBDDataOptions = {}): UseJTBDDataReturn => {
-  const { customerId, filters, includeMetrics = false } = options;
-  
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [lastFetch, setLastFetch] = useState(Date.now());
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to fetch customer actions');
+  }
 
-  // Simulate API call delay
-  useEffect(() => {
-    setIsLoading(true);
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-    }, 500);
-    
-    return () => clearTimeout(timer);
-  }, [customerId, lastFetch]);
+  return response.data;
+};
 
-  // Get single JTBD data
-  const jtbd = useMemo(() => {
-    if (!customerId) return null;
-    return mockJTBDData[customerId] || null;
-  }, [customerId]);
+const fetchGoals = async (customerId: number, environment?: 'live' | 'test'): Promise<JTBDCustomerGoal[]> => {
+  const endpoint = `${API_ENDPOINTS.CUSTOMERS.GOALS(customerId)}${buildQueryParams({}, environment)}`;
+  const response = await apiService.get<{ success: boolean; data: JTBDCustomerGoal[]; error?: string }>(endpoint);
 
-  // Get filtered JTBD list
-  const jtbdList = useMemo(() => {
-    let result = Object.values(mockJTBDData);
-    
-    if (!filters) return result;
-    
-    // Apply filters
-    if (filters.priority && filters.priority.length > 0) {
-      result = result.filter(j => 
-        j.actions.some(a => filters.priority!.includes(a.priority))
-      );
-    }
-    
-    if (filters.actionType && filters.actionType.length > 0) {
-      result = result.filter(j =>
-        j.actions.some(a => filters.actionType!.includes(a.type))
-      );
-    }
-    
-    if (filters.goalType && filters.goalType.length > 0) {
-      result = result.filter(j => filters.goalType!.includes(j.primaryGoal.type));
-    }
-    
-    if (filters.onTrackOnly) {
-      result = result.filter(j => j.primaryGoal.onTrack);
-    }
-    
-    if (filters.hasDeadline) {
-      result = result.filter(j => 
-        j.actions.some(a => a.deadline !== undefined)
-      );
-    }
-    
-    // Apply sorting
-    if (filters.sortBy) {
-      result.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'priority': {
-            const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-            const aPriority = Math.min(...a.actions.map(act => priorityOrder[act.priority]));
-            const bPriority = Math.min(...b.actions.map(act => priorityOrder[act.priority]));
-            return filters.sortOrder === 'asc' ? aPriority - bPriority : bPriority - aPriority;
-          }
-          case 'deadline': {
-            const aDeadline = a.actions
-              .filter(act => act.deadline)
-              .map(act => new Date(act.deadline!).getTime())
-              .sort()[0] || Infinity;
-            const bDeadline = b.actions
-              .filter(act => act.deadline)
-              .map(act => new Date(act.deadline!).getTime())
-              .sort()[0] || Infinity;
-            return filters.sortOrder === 'asc' ? aDeadline - bDeadline : bDeadline - aDeadline;
-          }
-          case 'value': {
-            const aValue = a.actions.reduce((sum, act) => sum + (act.estimatedValue || 0), 0);
-            const bValue = b.actions.reduce((sum, act) => sum + (act.estimatedValue || 0), 0);
-            return filters.sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
-          }
-          case 'impact': {
-            const aProgress = a.primaryGoal.currentProgress;
-            const bProgress = b.primaryGoal.currentProgress;
-            return filters.sortOrder === 'asc' ? aProgress - bProgress : bProgress - aProgress;
-          }
-          default:
-            return 0;
-        }
-      });
-    }
-    
-    return result;
-  }, [filters]);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to fetch customer goals');
+  }
 
-  // Calculate metrics
-  const metrics = useMemo(() => {
-    if (!includeMetrics) return null;
-    
-    const allJTBD = Object.values(mockJTBDData);
-    
-    let totalActions = 0;
-    let criticalActions = 0;
-    let highPriorityActions = 0;
-    let completedActions = 0;
-    let upcomingDeadlines = 0;
-    let totalEstimatedValue = 0;
-    let goalsOnTrack = 0;
-    let goalsOffTrack = 0;
-    let totalProgress = 0;
-    
-    const now = new Date();
-    const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-    
-    allJTBD.forEach(jtbd => {
-      jtbd.actions.forEach(action => {
-        totalActions++;
-        if (action.priority === 'critical') criticalActions++;
-        if (action.priority === 'critical' || action.priority === 'high') highPriorityActions++;
-        // Skip completed check as it's optional in our current implementation
-        if (action.deadline && new Date(action.deadline) <= thirtyDaysFromNow) upcomingDeadlines++;
-        totalEstimatedValue += action.estimatedValue || 0;
-      });
-      
-      if (jtbd.primaryGoal.onTrack) goalsOnTrack++;
-      else goalsOffTrack++;
-      
-      totalProgress += jtbd.primaryGoal.currentProgress;
-    });
-    
-    return {
-      totalActions,
-      criticalActions,
-      highPriorityActions,
-      completedActions,
-      upcomingDeadlines,
-      totalEstimatedValue,
-      goalsOnTrack,
-      goalsOffTrack,
-      averageProgress: totalProgress / allJTBD.length
-    };
-  }, [includeMetrics]);
+  return response.data;
+};
 
-  // Generate customer summaries
-  const summaries = useMemo(() => {
-    return Object.values(mockJTBDData).map(jtbd => {
-      const actionCount = {
-        critical: jtbd.actions.filter(a => a.priority === 'critical').length,
-        high: jtbd.actions.filter(a => a.priority === 'high').length,
-        medium: jtbd.actions.filter(a => a.priority === 'medium').length,
-        low: jtbd.actions.filter(a => a.priority === 'low').length
-      };
-      
-      let overallHealth: CustomerJTBDSummary['overallHealth'];
-      if (actionCount.critical > 0 || !jtbd.primaryGoal.onTrack) {
-        overallHealth = 'needs-attention';
-      } else if (actionCount.high > 2) {
-        overallHealth = 'fair';
-      } else if (jtbd.primaryGoal.currentProgress > 70) {
-        overallHealth = 'excellent';
-      } else {
-        overallHealth = 'good';
-      }
-      
-      return {
-        customerId: jtbd.customerId,
-        customerName: `Customer ${jtbd.customerId}`, // In real app, would fetch from customer data
-        topPriority: jtbd.actions[0],
-        actionCount,
-        goalProgress: jtbd.primaryGoal.currentProgress,
-        nextReview: jtbd.nextReview,
-        overallHealth
-      };
-    });
-  }, []);
+const toJTBDGoal = (goal: JTBDCustomerGoal): JTBDGoal => ({
+  type: goal.goal_type,
+  name: goal.name,
+  targetAmount: goal.target_amount,
+  currentAmount: goal.progress.current_value,
+  currentProgress: Math.round(goal.progress.progress_percentage),
+  targetDate: goal.target_date,
+  monthlyRequired: goal.progress.required_monthly_sip,
+  onTrack: goal.progress.on_track,
+  yearsRemaining: goal.progress.years_remaining,
+  shortfall: goal.progress.shortfall
+});
+
+// Goals arrive ordered by priority, so the first one is the primary goal
+const buildJTBDData = (
+  customerId: number,
+  actions: JTBDAction[],
+  goals: JTBDCustomerGoal[] = []
+): JTBDData => ({
+  customerId,
+  actions,
+  primaryGoal: goals.length > 0 ? toJTBDGoal(goals[0]) : undefined,
+  secondaryGoals: goals.slice(1).map(toJTBDGoal),
+  insights: []
+});
 
-  const refetch = () => {
-    setLastFetch(Date.now());
+// Hook for one customer's actions and goals, with dismiss / snooze / complete
+export const useJTBDData = (options: UseJTBDDataOptions = {}) => {
+  const { customerId, status = 'open', includeGoals = true } = options;
+  const { user, tenantId, environment } = useAuth();
+  const enabled = !!user && !!tenantId && !!customerId;
+
+  const actionsQuery = useQuery<JTBDAction[], Error>({
+    queryKey: [...JTBD_QUERY_KEYS.actions(customerId || 0), status, environment],
+    queryFn: () => fetchActions(customerId!, status, environment),
+    enabled,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const goalsQuery = useQuery<JTBDCustomerGoal[], Error>({
+    queryKey: [...JTBD_QUERY_KEYS.goals(customerId || 0), environment],
+    queryFn: () => fetchGoals(customerId!, environment),
+    enabled: enabled && includeGoals,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const jtbd = useMemo(() => {
+    if (!customerId || !actionsQuery.data) return null;
+    return buildJTBDData(customerId, actionsQuery.data, goalsQuery.data);
+  }, [customerId, actionsQuery.data, goalsQuery.data]);
+
+  const statusMutation = useJTBDActionStatus();
+
+  const changeStatus = (action: JTBDAction, change: ActionStatusChange, body?: JTBDSnoozeRequest) => {
+    if (!customerId) return;
+    statusMutation.mutate({ customerId, actionId: action.id, change, body });
   };
 
   return {
     jtbd,
-    jtbdList,
-    metrics,
-    summaries,
-    isLoading,
-    error,
-    refetch
+    isLoading: actionsQuery.isLoading || (includeGoals && goalsQuery.isLoading),
+    error: actionsQuery.error || goalsQuery.error || null,
+    refetch: () => {
+      actionsQuery.refetch();
+      if (includeGoals) goalsQuery.refetch();
+    },
+    dismissAction: (action: JTBDAction, reason?: string) => changeStatus(action, 'dismiss', { reason }),
+    snoozeAction: (action: JTBDAction, snooze: JTBDSnoozeRequest = {}) => changeStatus(action, 'snooze', snooze),
+    completeAction: (action: JTBDAction, reason?: string) => changeStatus(action, 'complete', { reason }),
+    isUpdating: statusMutation.isPending
   };
 };
 
-// Hook for urgent actions across all customers
-export const useUrgentActions = (daysAhead: number = 30) => {
-  const { jtbdList } = useJTBDData();
-  
-  const urgentActions = useMemo(() => {
-    const actions: Array<{
-      customerId: number;
-      customerName: string;
-      action: any;
-      daysUntilDeadline: number;
-    }> = [];
-    
-    const now = new Date();
-    const cutoffDate = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000);
-    
-    jtbdList.forEach(jtbd => {
-      jtbd.actions
-        .filter(action => {
-          if (action.priority === 'critical' || action.priority === 'high') return true;
-          if (action.deadline && new Date(action.deadline) <= cutoffDate) return true;
-          return false;
-        })
-        .forEach(action => {
-          const daysUntilDeadline = action.deadline
-            ? Math.ceil((new Date(action.deadline).getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
-            : Infinity;
-          
-          actions.push({
-            customerId: jtbd.customerId,
-            customerName: `Customer ${jtbd.customerId}`,
-            action,
-            daysUntilDeadline
-          });
-        });
-    });
-    
-    // Sort by urgency
-    actions.sort((a, b) => {
-      // Priority first
-      const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
-      const aPriority = priorityOrder[a.action.priority] ?? 4;
-      const bPriority = priorityOrder[b.action.priority] ?? 4;
-      if (aPriority !== bPriority) return aPriority - bPriority;
-      
-      // Then by deadline
-      return a.daysUntilDeadline - b.daysUntilDeadline;
+// Hook for the open actions of a page of customers (list and dashboard views), keyed by customer ID
+export const useCustomersJTBDData = (customerIds: number[]): Record<number, JTBDData> => {
+  const { user, tenantId, environment } = useAuth();
+  const idsKey = customerIds.join(',');
+  const ids = useMemo(() => (idsKey ? idsKey.split(',').map(Number) : []), [idsKey]);
+
+  // Stable while the IDs are, so callers get the same object back between renders
+  const combine = useCallback((results: Array<{ data?: JTBDAction[] }>) => {
+    const byCustomer: Record<number, JTBDData> = {};
+    results.forEach((result, index) => {
+      if (result.data) {
+        byCustomer[ids[index]] = buildJTBDData(ids[index], result.data);
+      }
     });
-    
-    return actions;
-  }, [jtbdList, daysAhead]);
-  
-  return urgentActions;
+    return byCustomer;
+  }, [ids]);
+
+  return useQueries({
+    queries: ids.map(customerId => ({
+      queryKey: [...JTBD_QUERY_KEYS.actions(customerId), 'open', environment],
+      queryFn: () => fetchActions(customerId, 'open', environment),
+      enabled: !!user && !!tenantId,
+      staleTime: 2 * 60 * 1000,
+      gcTime: 10 * 60 * 1000,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    })),
+    combine
+  });
 };
 
-// Hook for goal progress tracking
-export const useGoalProgress = (customerId?: number) => {
-  const { jtbd, jtbdList } = useJTBDData({ customerId });
-  
-  const goalProgress = useMemo(() => {
-    if (customerId && jtbd) {
-      // Single customer progress
-      return {
-        primaryGoal: jtbd.primaryGoal,
-        isOnTrack: jtbd.primaryGoal.onTrack,
-        progressPercentage: jtbd.primaryGoal.currentProgress,
-        monthlyRequired: jtbd.primaryGoal.monthlyRequired,
-        timeRemaining: (() => {
-          const now = new Date();
-          const target = new Date(jtbd.primaryGoal.targetDate);
-          const months = (target.getFullYear() - now.getFullYear()) * 12 + 
-                        (target.getMonth() - now.getMonth());
-          return months;
-        })()
-      };
-    } else {
-      // All customers aggregate
-      const onTrackCount = jtbdList.filter(j => j.primaryGoal.onTrack).length;
-      const avgProgress = jtbdList.reduce((sum, j) => sum + j.primaryGoal.currentProgress, 0) / jtbdList.length;
-      
-      return {
-        totalGoals: jtbdList.length,
-        onTrackCount,
-        offTrackCount: jtbdList.length - onTrackCount,
-        averageProgress: avgProgress,
-        criticalGoals: jtbdList.filter(j => j.primaryGoal.currentProgress < 30 && !j.primaryGoal.onTrack)
-      };
+// Mutation hook for dismissing, snoozing or completing an action
+export function useJTBDActionStatus() {
+  const queryClient = useQueryClient();
+  const { user, tenantId, environment } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ customerId, actionId, change, body }: ActionStatusRequest): Promise<JTBDAction> => {
+      if (!user || !tenantId) {
+        throw new Error('Authentication required');
+      }
+
+      const endpoint = `${API_ENDPOINTS.CUSTOMERS.ACTION_STATUS(customerId, actionId, change)}${buildQueryParams({}, environment)}`;
+      const response = await apiService.post<{ success: boolean; data: JTBDAction; error?: string }>(endpoint, body || {});
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update action');
+      }
+
+      return response.data;
+    },
+    onSuccess: (action, { customerId, change }) => {
+      queryClient.invalidateQueries({ queryKey: JTBD_QUERY_KEYS.actions(customerId) });
+      const verb = change === 'dismiss' ? 'dismissed' : change === 'snooze' ? 'snoozed' : 'completed';
+      toastService.success(`Action "${action.title}" ${verb}`);
+    },
+    onError: (error) => {
+      toastService.error(getAPIErrorMessage(error));
     }
-  }, [customerId, jtbd, jtbdList]);
-  
-  return goalProgress;
-};
\ No newline at end of file
+  });
+}
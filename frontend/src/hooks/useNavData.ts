@@ -10,6 +10,12 @@ import type {
   DownloadJob,
   DownloadProgress,
   NavStatistics,
+  NavQualityReport,
+  NavQualityParams,
+  SchemeNavQuality,
+  SchemeAnalytics,
+  SchemeComparison,
+  SchemeComparisonParams,
   SchemeSearchParams,
   BookmarkSearchParams,
   CreateBookmarkRequest,
@@ -21,7 +27,10 @@ import type {
   BookmarkStats,
   UpdateBookmarkDownloadStatus,
   PaginatedResponse,
-  ApiResponse
+  ApiResponse,
+  MisfirePolicy,
+  SchedulerExecutionMode,
+  SchedulePreview
 } from '../services/nav.service';
 
 // ==================== INTERFACES ====================
@@ -32,6 +41,8 @@ export interface SchedulerConfig {
   cron_expression?: string;
   download_time: string;
   is_enabled: boolean;
+  misfire_policy?: MisfirePolicy;
+  execution_mode?: SchedulerExecutionMode;
   next_execution_at?: string;
   last_executed_at?: string;
   execution_count?: number;
@@ -46,6 +57,7 @@ export interface SchedulerStatus {
   cron_job_active: boolean;
   next_run: string | null;
   last_run: string | null;
+  held_by?: string | null;
   recent_executions: Array<{
     id: number;
     execution_time: string;
@@ -268,7 +280,108 @@ export const useBookmarkStats = (bookmarkId?: number): UseBookmarkStatsReturn =>
   };
 };
 
-// ==================== BOOKMARK DOWNLOAD STATUS HOOK ====================
+// ==================== SCHEME ANALYTICS HOOK ====================
+
+export interface UseSchemeAnalyticsReturn {
+  analytics: SchemeAnalytics | null;
+  isLoading: boolean;
+  error: string | null;
+  fetchAnalytics: (schemeId: number, riskFreeRate?: number) => Promise<void>;
+  clearAnalytics: () => void;
+}
+
+export const useSchemeAnalytics = (): UseSchemeAnalyticsReturn => {
+  const [analytics, setAnalytics] = useState<SchemeAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async (schemeId: number, riskFreeRate?: number) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await navService.getSchemeAnalytics(schemeId, riskFreeRate);
+      
+      if (response.success && response.data) {
+        setAnalytics(response.data);
+      } else {
+        setError(response.error || 'Failed to load scheme analytics');
+        setAnalytics(null);
+      }
+    } catch (err: any) {
+      console.error('Fetch scheme analytics error:', err);
+      setError(err.message || 'Failed to load scheme analytics');
+      setAnalytics(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const clearAnalytics = useCallback(() => {
+    setAnalytics(null);
+    setError(null);
+  }, []);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    fetchAnalytics,
+    clearAnalytics,
+  };
+};
+
+// ==================== SCHEME COMPARISON HOOK ====================
+
+export interface UseSchemeComparisonReturn {
+  comparison: SchemeComparison | null;
+  isLoading: boolean;
+  error: string | null;
+  compareSchemes: (params: SchemeComparisonParams) => Promise<void>;
+  clearComparison: () => void;
+}
+
+export const useSchemeComparison = (): UseSchemeComparisonReturn => {
+  const [comparison, setComparison] = useState<SchemeComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compareSchemes = useCallback(async (params: SchemeComparisonParams) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await navService.compareSchemes(params);
+      
+      if (response.success && response.data) {
+        setComparison(response.data);
+      } else {
+        setError(response.error || 'Failed to compare schemes');
+        setComparison(null);
+      }
+    } catch (err: any) {
+      console.error('Compare schemes error:', err);
+      setError(err.message || 'Failed to compare schemes');
+      setComparison(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const clearComparison = useCallback(() => {
+    setComparison(null);
+    setError(null);
+  }, []);
+
+  return {
+    comparison,
+    isLoading,
+    error,
+    compareSchemes,
+    clearComparison,
+  };
+};
+
 
 export interface UseBookmarkDownloadStatusReturn {
   statusMap: { [bookmarkId: number]: any };
@@ -545,6 +658,12 @@ export interface UseSchedulerReturn {
   updateConfig: (updates: Partial<SchedulerConfig>) => Promise<void>;
   deleteConfig: () => Promise<void>;
   manualTrigger: () => Promise<{ executionId: string }>;
+  previewSchedule: (request: {
+    cron_expression?: string;
+    schedule_type?: SchedulerConfig['schedule_type'];
+    download_time?: string;
+    count?: number;
+  }) => Promise<SchedulePreview>;
   refetch: () => void;
 }
 
@@ -674,6 +793,16 @@ export const useScheduler = (): UseSchedulerReturn => {
     }
   }, [fetchStatus]);
 
+  const previewSchedule = useCallback(async (request: Parameters<UseSchedulerReturn['previewSchedule']>[0]) => {
+    const response = await navService.previewSchedule(request);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to preview schedule');
+    }
+
+    return response.data;
+  }, []);
+
   const refetch = useCallback(() => {
     fetchConfig();
     fetchStatus();
@@ -700,6 +829,7 @@ export const useScheduler = (): UseSchedulerReturn => {
     updateConfig,
     deleteConfig,
     manualTrigger,
+    previewSchedule,
     refetch,
   };
 };
@@ -1248,6 +1378,62 @@ export const useNavStatistics = (): UseNavStatisticsReturn => {
   };
 };
 
+// ==================== NAV QUALITY HOOK ====================
+
+export interface UseNavQualityReturn {
+  report: NavQualityReport | null;
+  qualityBySchemeId: { [schemeId: number]: SchemeNavQuality };
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+export const useNavQuality = (params?: NavQualityParams): UseNavQualityReturn => {
+  const [report, setReport] = useState<NavQualityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const paramsRef = useRef(params);
+
+  const fetchQuality = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await navService.getNavQuality(paramsRef.current);
+
+      if (response.success && response.data) {
+        setReport(response.data);
+      } else {
+        // Quality badges are advisory; a failed check should not block the page
+        console.warn('NAV quality API error:', response.error);
+        setError(response.error || 'Failed to load NAV quality');
+      }
+    } catch (err: any) {
+      console.warn('Fetch NAV quality error:', err);
+      setError(err.message || 'Failed to load NAV quality');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQuality();
+  }, [fetchQuality]);
+
+  const qualityBySchemeId = (report?.schemes || []).reduce((map, scheme) => {
+    map[scheme.scheme_id] = scheme;
+    return map;
+  }, {} as { [schemeId: number]: SchemeNavQuality });
+
+  return {
+    report,
+    qualityBySchemeId,
+    isLoading,
+    error,
+    refetch: fetchQuality,
+  };
+};
+
 // ==================== DASHBOARD HOOK ====================
 
 export interface UseNavDashboardReturn {
@@ -6,7 +6,9 @@ import {
   CustomerPortfolioResponse, 
   PortfolioHolding,
   PortfolioFilters,
-  PortfolioStatistics 
+  PortfolioStatistics,
+  PortfolioPerformanceQuery,
+  PortfolioPerformanceResponse
 } from '../types/portfolio.types';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -14,6 +16,8 @@ interface UsePortfolioDataOptions {
   customerId?: number;
   filters?: PortfolioFilters;
   includeAnalytics?: boolean;
+  // Sparkline series on the customer portfolio (portfolio.performance)
+  includePerformance?: boolean;
   autoFetch?: boolean;
 }
 
@@ -27,7 +31,7 @@ interface UsePortfolioDataReturn {
 }
 
 export const usePortfolioData = (options: UsePortfolioDataOptions = {}): UsePortfolioDataReturn => {
-  const { customerId, filters, includeAnalytics = false, autoFetch = true } = options;
+  const { customerId, filters, includeAnalytics = false, includePerformance = false, autoFetch = true } = options;
   const { user, tenantId } = useAuth();
   
   const [portfolio, setPortfolio] = useState<CustomerPortfolioResponse | null>(null);
@@ -48,7 +52,7 @@ export const usePortfolioData = (options: UsePortfolioDataOptions = {}): UsePort
 
       // Fetch single customer portfolio
       if (customerId) {
-        const response = await PortfolioService.getCustomerPortfolio(customerId);
+        const response = await PortfolioService.getCustomerPortfolio(customerId, includePerformance);
         
         if (response.success && response.data) {
           setPortfolio(response.data);
@@ -85,7 +89,7 @@ export const usePortfolioData = (options: UsePortfolioDataOptions = {}): UsePort
     } finally {
       setIsLoading(false);
     }
-  }, [customerId, filters, includeAnalytics, user, tenantId]);
+  }, [customerId, filters, includeAnalytics, includePerformance, user, tenantId]);
 
   // Auto-fetch on mount and when dependencies change
   useEffect(() => {
@@ -229,4 +233,46 @@ export const usePortfolioTotals = (customerId: number) => {
     error,
     refetch: fetchTotals
   };
-};
\ No newline at end of file
+};
+
+// Hook for historical portfolio valuation series
+export const usePortfolioPerformance = (customerId: number, query: PortfolioPerformanceQuery = {}) => {
+  const { user, tenantId } = useAuth();
+  const [performance, setPerformance] = useState<PortfolioPerformanceResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const { from, to, interval } = query;
+
+  const fetchPerformance = useCallback(async () => {
+    if (!user || !tenantId || !customerId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await PortfolioService.getPortfolioPerformance(customerId, { from, to, interval });
+
+      if (response.success && response.data) {
+        setPerformance(response.data);
+      } else {
+        throw new Error(response.error || 'Failed to fetch portfolio performance');
+      }
+    } catch (err: any) {
+      console.error('Error fetching portfolio performance:', err);
+      setError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, from, to, interval, user, tenantId]);
+
+  useEffect(() => {
+    fetchPerformance();
+  }, [fetchPerformance]);
+
+  return {
+    performance,
+    isLoading,
+    error,
+    refetch: fetchPerformance
+  };
+};
@@ -0,0 +1,37 @@
+// frontend/src/hooks/useSips.ts
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api.service';
+import { API_ENDPOINTS, buildQueryParams } from '../services/serviceURLs';
+import { SipRegistration } from '../types/sip.types';
+
+// Query Keys for consistent caching
+export const SIP_QUERY_KEYS = {
+  all: ['sips'] as const,
+  endingSoon: (days: number) => [...SIP_QUERY_KEYS.all, 'ending-soon', days] as const,
+} as const;
+
+// Hook for SIPs ending within the next `days` days (dashboard list)
+export function useSipsEndingSoon(days: number = 60) {
+  const { user, tenantId, environment } = useAuth();
+
+  return useQuery<SipRegistration[], Error>({
+    queryKey: [...SIP_QUERY_KEYS.endingSoon(days), environment],
+    queryFn: async (): Promise<SipRegistration[]> => {
+      const endpoint = `${API_ENDPOINTS.SIPS.ENDING_SOON}${buildQueryParams({ days }, environment)}`;
+      const response = await apiService.get<{ success: boolean; data: SipRegistration[]; error?: string }>(endpoint);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch SIPs ending soon');
+      }
+
+      return response.data;
+    },
+    enabled: !!user && !!tenantId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -10,6 +10,7 @@ import {
   ArrowUp,
   ArrowDown
 } from 'lucide-react';
+import SipEndingSoonList from '../components/dashboard/SipEndingSoonList';
 
 const Dashboard: React.FC = () => {
   const { theme, isDarkMode } = useTheme();
@@ -225,6 +226,9 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* SIPs Ending Soon */}
+      <SipEndingSoonList days={60} />
     </div>
   );
 };
@@ -8,13 +8,14 @@ import {
   useContacts, 
   useContactStats, 
   useBulkContactAction,
+  useExportContacts,
   useDeleteContact,
   useUpdateContact 
 } from '../../hooks/useContacts';
 import ContactSearch from '../../components/contacts/ContactSearch';
 import ContactCard from '../../components/contacts/ContactCard';
-import { ContactSearchParams } from '../../types/contact.types';
-import { PAGINATION_DEFAULTS } from '../../constants/contact.constants';
+import { BulkContactAction, ContactExportFormat, ContactSearchParams } from '../../types/contact.types';
+import { CONTACT_BULK_ACTIONS, PAGINATION_DEFAULTS } from '../../constants/contact.constants';
 import toastService from '../../services/toast.service';
 
 const ContactsPage: React.FC = () => {
@@ -39,6 +40,7 @@ const ContactsPage: React.FC = () => {
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [selectedContactIds, setSelectedContactIds] = useState<number[]>([]);
   const [bulkActionLoading, setBulkActionLoading] = useState(false);
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
 
   // Data fetching - This will re-run when searchParams changes
   // Force new object reference to ensure React Query detects the change
@@ -56,6 +58,7 @@ const ContactsPage: React.FC = () => {
   const { data: contactsData, isLoading, error, refetch } = useContacts(queryParams);
   const { data: stats } = useContactStats();
   const bulkActionMutation = useBulkContactAction();
+  const exportContactsMutation = useExportContacts();
   const deleteContactMutation = useDeleteContact();
   const updateContactMutation = useUpdateContact();
 
@@ -143,36 +146,47 @@ const ContactsPage: React.FC = () => {
     }
   };
 
+  // Any change to the selection or filters cancels "select all matching"
+  useEffect(() => {
+    setSelectAllMatching(false);
+  }, [selectedContactIds, searchParams]);
+
+  // Filters that define "all matching contacts" for export and bulk actions
+  const getActiveFilters = () => {
+    const { search, prefix, channel_type, has_customer, is_active, tag } = searchParams;
+    return { search, prefix, channel_type, has_customer, is_active, tag };
+  };
+
   // Handle bulk actions
-  const handleBulkAction = async (action: 'activate' | 'deactivate' | 'delete' | 'export') => {
+  const handleBulkAction = async (action: BulkContactAction) => {
     if (selectedContactIds.length === 0) {
       toastService.warning('Please select contacts to perform bulk action');
       return;
     }
 
-    if (action === 'delete') {
-      const confirmed = window.confirm(`Are you sure you want to delete ${selectedContactIds.length} selected contacts?`);
+    const count = selectAllMatching ? contactsData?.total || 0 : selectedContactIds.length;
+    let tag: string | undefined;
+
+    if (action === 'add_tag' || action === 'remove_tag') {
+      tag = window.prompt(action === 'add_tag' ? 'Tag to add' : 'Tag to remove')?.trim();
+      if (!tag) return;
+    }
+
+    if (action === 'delete' || action === 'convert_to_customer') {
+      const verb = action === 'delete' ? 'delete' : 'convert to customers';
+      const confirmed = window.confirm(`Are you sure you want to ${verb} ${count} selected contacts?`);
       if (!confirmed) return;
     }
 
     setBulkActionLoading(true);
     try {
-      const result = await bulkActionMutation.mutateAsync({
-        contact_ids: selectedContactIds,
-        action
-      });
+      await bulkActionMutation.mutateAsync(
+        selectAllMatching
+          ? { action, tag, select_all: true, filters: getActiveFilters() }
+          : { action, tag, contact_ids: selectedContactIds }
+      );
 
       setSelectedContactIds([]);
-
-      if (action === 'export' && result.export_url) {
-        const link = document.createElement('a');
-        link.href = result.export_url;
-        link.download = `contacts_export_${Date.now()}.csv`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      }
-
       refetch();
     } catch (error) {
       // Error handled by mutation
@@ -181,6 +195,11 @@ const ContactsPage: React.FC = () => {
     }
   };
 
+  // Export every contact matching the current filters
+  const handleExport = (format: ContactExportFormat) => {
+    exportContactsMutation.mutate({ format, filters: getActiveFilters() });
+  };
+
   const getSelectionStats = () => {
     if (!contactsData?.contacts) return { selected: 0, total: 0, allSelected: false };
     
@@ -325,26 +344,49 @@ const ContactsPage: React.FC = () => {
             </div>
           </div>
 
-          <button
-            onClick={() => navigate('/contacts/new')}
-            style={{
-              backgroundColor: colors.brand.primary,
-              color: 'white',
-              border: 'none',
-              borderRadius: '8px',
-              padding: '12px 20px',
-              fontSize: '14px',
-              fontWeight: '500',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-              boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
-            }}
-          >
-            <PlusIcon />
-            Add Contact
-          </button>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            {(['csv', 'xlsx'] as ContactExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exportContactsMutation.isPending}
+                style={{
+                  backgroundColor: 'transparent',
+                  color: colors.brand.primary,
+                  border: `1px solid ${colors.brand.primary}`,
+                  borderRadius: '8px',
+                  padding: '12px 16px',
+                  fontSize: '14px',
+                  fontWeight: '500',
+                  cursor: exportContactsMutation.isPending ? 'not-allowed' : 'pointer',
+                  opacity: exportContactsMutation.isPending ? 0.6 : 1
+                }}
+              >
+                Export {format === 'csv' ? 'CSV' : 'Excel'}
+              </button>
+            ))}
+
+            <button
+              onClick={() => navigate('/contacts/new')}
+              style={{
+                backgroundColor: colors.brand.primary,
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                padding: '12px 20px',
+                fontSize: '14px',
+                fontWeight: '500',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+              }}
+            >
+              <PlusIcon />
+              Add Contact
+            </button>
+          </div>
         </div>
 
         {/* Quick Stats */}
@@ -417,44 +459,48 @@ const ContactsPage: React.FC = () => {
           }}>
             <CheckIcon />
             <span style={{ fontWeight: '500' }}>
-              {selectionStats.selected} contact{selectionStats.selected !== 1 ? 's' : ''} selected
+              {selectAllMatching
+                ? `All ${selectionStats.total} matching contacts selected`
+                : `${selectionStats.selected} contact${selectionStats.selected !== 1 ? 's' : ''} selected`}
             </span>
+            {!selectAllMatching && selectionStats.allSelected && selectionStats.total > selectionStats.selected && (
+              <button
+                onClick={() => setSelectAllMatching(true)}
+                style={{
+                  backgroundColor: 'transparent',
+                  color: colors.brand.primary,
+                  border: 'none',
+                  padding: 0,
+                  fontSize: '13px',
+                  textDecoration: 'underline',
+                  cursor: 'pointer'
+                }}
+              >
+                Select all {selectionStats.total} matching
+              </button>
+            )}
           </div>
 
           <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <button
-              onClick={() => handleBulkAction('activate')}
-              disabled={bulkActionLoading}
-              style={{
-                backgroundColor: colors.semantic.success,
-                color: 'white',
-                border: 'none',
-                borderRadius: '6px',
-                padding: '6px 12px',
-                fontSize: '12px',
-                cursor: bulkActionLoading ? 'not-allowed' : 'pointer',
-                opacity: bulkActionLoading ? 0.6 : 1
-              }}
-            >
-              Activate
-            </button>
-
-            <button
-              onClick={() => handleBulkAction('delete')}
-              disabled={bulkActionLoading}
-              style={{
-                backgroundColor: colors.semantic.error,
-                color: 'white',
-                border: 'none',
-                borderRadius: '6px',
-                padding: '6px 12px',
-                fontSize: '12px',
-                cursor: bulkActionLoading ? 'not-allowed' : 'pointer',
-                opacity: bulkActionLoading ? 0.6 : 1
-              }}
-            >
-              Delete
-            </button>
+            {CONTACT_BULK_ACTIONS.map(bulkAction => (
+              <button
+                key={bulkAction.value}
+                onClick={() => handleBulkAction(bulkAction.value)}
+                disabled={bulkActionLoading}
+                style={{
+                  backgroundColor: 'destructive' in bulkAction ? colors.semantic.error : colors.brand.primary,
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  padding: '6px 12px',
+                  fontSize: '12px',
+                  cursor: bulkActionLoading ? 'not-allowed' : 'pointer',
+                  opacity: bulkActionLoading ? 0.6 : 1
+                }}
+              >
+                {bulkAction.label}
+              </button>
+            ))}
 
             <button
               onClick={() => setSelectedContactIds([])}
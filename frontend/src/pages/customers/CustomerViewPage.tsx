@@ -1,12 +1,13 @@
 // src/pages/customers/CustomerViewPage.tsx
 // Complete file updated to use real backend API types with enhanced debugging and null safety
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useCustomer } from '../../hooks/useCustomers';
-import { usePortfolioData } from '../../hooks/usePortfolioData';
-import { mockJTBDData, JTBDData } from '../../data/mock/mockJTBDData';
+import { usePortfolioData, usePortfolioPerformance } from '../../hooks/usePortfolioData';
+import { useJTBDData } from '../../hooks/useJTBDData';
+import { JTBDAction, JTBDData } from '../../types/jtbd.types';
 import PortfolioSummaryWidget from '../../components/portfolio/PortfolioSummaryWidget';
 import JTBDActionCard from '../../components/jtbd/JTBDActionCard';
 import PortfolioDonutChart from '../../components/visualizations/PortfolioDonutChart';
@@ -26,11 +27,43 @@ const CustomerViewPage: React.FC = () => {
   const { data: customer, isLoading: customerLoading, error: customerError } = useCustomer(customerId || 0);
   const { portfolio, isLoading: portfolioLoading, error: portfolioError } = usePortfolioData({
     customerId: customerId || undefined,
+    includePerformance: true,
     autoFetch: !!customerId
   });
   
-  // JTBD data (still using mock for now)
-  const jtbd: JTBDData | null = customerId ? mockJTBDData[customerId] : null;
+  // Valuation history for the selected timeframe
+  const performanceQuery = useMemo(() => {
+    if (selectedTimeframe === 'ALL') {
+      return { interval: 'monthly' as const };
+    }
+    const months = { '1M': 1, '3M': 3, '6M': 6, '1Y': 12 }[selectedTimeframe];
+    const fromDate = new Date();
+    fromDate.setMonth(fromDate.getMonth() - months);
+    return {
+      from: fromDate.toISOString().substring(0, 10),
+      interval: months <= 3 ? 'daily' as const : 'weekly' as const
+    };
+  }, [selectedTimeframe]);
+  const { performance } = usePortfolioPerformance(customerId || 0, performanceQuery);
+  const performanceSeries = performance?.series.filter(p => p.invested > 0 || p.current_value > 0) || [];
+
+  // Open actions from the rules engine, plus the customer's goals
+  const {
+    jtbd: jtbdData,
+    dismissAction,
+    snoozeAction,
+    completeAction
+  } = useJTBDData({ customerId: customerId || undefined });
+  const jtbd: JTBDData = useMemo(
+    () => jtbdData || { customerId: customerId || 0, actions: [], insights: [] },
+    [jtbdData, customerId]
+  );
+
+  const handleActionStatus = (action: JTBDAction, change: 'dismiss' | 'snooze' | 'complete') => {
+    if (change === 'dismiss') dismissAction(action);
+    else if (change === 'snooze') snoozeAction(action, { days: 7 });
+    else completeAction(action);
+  };
 
   const isLoading = customerLoading || portfolioLoading;
 
@@ -303,14 +336,6 @@ const CustomerViewPage: React.FC = () => {
     />;
   }
 
-  if (!jtbd) {
-    console.warn('⚠️ JTBD data not available for customer:', customerId);
-    return <ErrorState 
-      message="Action Data Not Available" 
-      details={`Goals and actions data not found for ${customer.name}.`}
-    />;
-  }
-
   // All data loaded successfully
   console.log('✅ All data loaded successfully');
   
@@ -482,9 +507,11 @@ const CustomerViewPage: React.FC = () => {
             <div style={{ 
               fontSize: '24px', 
               fontWeight: '700', 
-              color: jtbd.primaryGoal.onTrack ? '#10B981' : '#F97316' 
+              color: !jtbd.primaryGoal
+                ? colors.utility.secondaryText
+                : jtbd.primaryGoal.onTrack ? '#10B981' : '#F97316' 
             }}>
-              {jtbd.primaryGoal.currentProgress ?? 0}%
+              {jtbd.primaryGoal ? `${jtbd.primaryGoal.currentProgress ?? 0}%` : '-'}
             </div>
             <div style={{ fontSize: '11px', color: colors.utility.secondaryText, marginTop: '4px' }}>
               GOAL PROGRESS
@@ -560,9 +587,9 @@ const CustomerViewPage: React.FC = () => {
                 
                 {/* Performance Chart */}
                 <div style={{ height: '300px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                  {portfolio.performance && portfolio.performance.length > 0 ? (
+                  {performanceSeries.length > 0 ? (
                     <PerformanceSparkline
-                      data={portfolio.performance.map(p => p.current_value ?? 0)}
+                      data={performanceSeries.map(p => p.current_value ?? 0)}
                       width={600}
                       height={250}
                       showArea={true}
@@ -583,6 +610,7 @@ const CustomerViewPage: React.FC = () => {
                 primaryGoal={jtbd.primaryGoal}
                 riskAssessment={jtbd.riskAssessment}
                 compact={false}
+                onStatusChange={handleActionStatus}
                 maxActions={3}
               />
             </div>
@@ -743,6 +771,7 @@ const CustomerViewPage: React.FC = () => {
                       <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', color: colors.utility.secondaryText }}>INVESTED</th>
                       <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', color: colors.utility.secondaryText }}>CURRENT VALUE</th>
                       <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', color: colors.utility.secondaryText }}>RETURNS</th>
+                      <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', color: colors.utility.secondaryText }}>XIRR</th>
                       <th style={{ padding: '12px', textAlign: 'right', fontSize: '12px', color: colors.utility.secondaryText }}>ALLOCATION</th>
                     </tr>
                   </thead>
@@ -761,6 +790,16 @@ const CustomerViewPage: React.FC = () => {
                         <td style={{ padding: '12px', textAlign: 'right', fontSize: '13px', fontWeight: '600', color: getValueColor(holding.return_percentage) }}>
                           {formatPercentage(holding.return_percentage)}
                         </td>
+                        <td
+                          style={{ padding: '12px', textAlign: 'right', fontSize: '13px', fontWeight: '600', color: getValueColor((holding.returns_annualised ? holding.xirr : holding.absolute_return) ?? 0) }}
+                          title={holding.returns_annualised ? undefined : 'Held for under a year - absolute return, not annualised'}
+                        >
+                          {holding.returns_annualised
+                            ? (holding.xirr !== undefined && holding.xirr !== null ? formatPercentage(holding.xirr) : '-')
+                            : (holding.absolute_return !== undefined && holding.absolute_return !== null
+                              ? `${formatPercentage(holding.absolute_return)}*`
+                              : '-')}
+                        </td>
                         <td style={{ padding: '12px', textAlign: 'right', fontSize: '13px', color: colors.utility.primaryText }}>
                           {(holding.allocation_percentage ?? 0).toFixed(1)}%
                         </td>
@@ -782,6 +821,7 @@ const CustomerViewPage: React.FC = () => {
                 primaryGoal={jtbd.primaryGoal}
                 riskAssessment={jtbd.riskAssessment}
                 compact={false}
+                onStatusChange={handleActionStatus}
                 maxActions={10}
               />
 
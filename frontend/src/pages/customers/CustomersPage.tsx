@@ -7,7 +7,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useCustomers, useCustomerStats } from '../../hooks/useCustomers';
 import { usePortfolioMetrics } from '../../hooks/usePortfolioData';
 import { CustomerSearchParams, CustomerWithContact } from '../../types/customer.types';
-import { mockJTBDData } from '../../data/mock/mockJTBDData';
+import { useCustomersJTBDData } from '../../hooks/useJTBDData';
 import { FrontendErrorLogger } from '../../services/errorLogger.service';
 import CustomerCard from '../../components/customers/CustomerCard';
 
@@ -38,6 +38,9 @@ const CustomersPage: React.FC = () => {
   const hasPrevPage = customerData?.has_prev || false;
   const totalPages = customerData?.total_pages || 1;
 
+  // Open actions for the customers on this page
+  const jtbdByCustomer = useCustomersJTBDData(customers.map(customer => customer.id));
+
   // Event handlers with error logging
   const handleCreateCustomer = () => {
     try {
@@ -706,7 +709,7 @@ const CustomersPage: React.FC = () => {
                   key={customer.id}
                   customer={customer}
                   portfolio={undefined}  // CustomerCard will fetch individually if needed
-                  jtbd={mockJTBDData[customer.id]}
+                  jtbd={jtbdByCustomer[customer.id]}
                   onView={() => handleViewCustomer(customer.id)}
                   onEdit={() => handleEditCustomer(customer.id)}
                   onDelete={() => handleDeleteCustomer(customer.id)}
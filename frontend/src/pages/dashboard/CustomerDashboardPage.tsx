@@ -7,7 +7,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useCustomers } from '../../hooks/useCustomers';
 import { usePortfolioData, usePortfolioMetrics } from '../../hooks/usePortfolioData';
 import { CustomerSearchParams, CustomerWithContact } from '../../types/customer.types';
-import { mockJTBDData } from '../../data/mock/mockJTBDData';
+import { useCustomersJTBDData, useJTBDData } from '../../hooks/useJTBDData';
 import CustomerCard from '../../components/customers/CustomerCard';
 import PortfolioSummaryWidget from '../../components/portfolio/PortfolioSummaryWidget';
 import JTBDActionCard from '../../components/jtbd/JTBDActionCard';
@@ -49,15 +49,25 @@ const CustomerDashboardPage: React.FC = () => {
   // Fetch selected customer portfolio
   const { portfolio: selectedPortfolio, isLoading: portfolioLoading } = usePortfolioData({
     customerId: selectedCustomerId || undefined,
+    includePerformance: true,
     autoFetch: !!selectedCustomerId
   });
 
+  // Open actions for the listed customers, and actions plus goals for the selected one
+  const jtbdByCustomer = useCustomersJTBDData(customers.map(customer => customer.id));
+  const {
+    jtbd: selectedJTBD,
+    dismissAction,
+    snoozeAction,
+    completeAction
+  } = useJTBDData({ customerId: selectedCustomerId || undefined });
+
   // Calculate dashboard metrics from real API
   const dashboardMetrics = useMemo(() => {
     // Count critical actions from JTBD data
     let criticalActionsCount = 0;
     customers.forEach(customer => {
-      const jtbd = mockJTBDData[customer.id];
+      const jtbd = jtbdByCustomer[customer.id];
       if (jtbd) {
         criticalActionsCount += jtbd.actions.filter(a => 
           a.priority === 'critical' || a.priority === 'high'
@@ -74,12 +84,12 @@ const CustomerDashboardPage: React.FC = () => {
       criticalActionsCount,
       avgReturns: portfolioMetrics.avgReturns
     };
-  }, [customers, portfolioMetrics]);
+  }, [customers, portfolioMetrics, jtbdByCustomer]);
 
   // Filter customers based on view
   const filteredCustomers = useMemo(() => {
     return customers.filter(customer => {
-      const jtbd = mockJTBDData[customer.id];
+      const jtbd = jtbdByCustomer[customer.id];
       
       if (filterView === 'attention') {
         // Show customers with critical actions (since we don't have individual portfolio data loaded)
@@ -91,7 +101,7 @@ const CustomerDashboardPage: React.FC = () => {
       }
       return true;
     });
-  }, [customers, filterView]);
+  }, [customers, filterView, jtbdByCustomer]);
 
   // Get selected customer data
   const selectedCustomer = useMemo(() => {
@@ -99,7 +109,6 @@ const CustomerDashboardPage: React.FC = () => {
     return customers.find(c => c.id === selectedCustomerId);
   }, [customers, selectedCustomerId]);
 
-  const selectedJTBD = selectedCustomerId ? mockJTBDData[selectedCustomerId] : null;
 
   // Format currency
   const formatCurrency = (value: number): string => {
@@ -482,7 +491,7 @@ const CustomerDashboardPage: React.FC = () => {
                   key={customer.id}
                   customer={customer}
                   portfolio={undefined}  // Will fetch individually if needed
-                  jtbd={mockJTBDData[customer.id]}
+                  jtbd={jtbdByCustomer[customer.id]}
                   onView={() => setSelectedCustomerId(customer.id)}
                   onEdit={() => navigate(`/customers/${customer.id}/edit`)}
                   onDelete={() => console.log('Delete:', customer.id)}
@@ -595,6 +604,11 @@ const CustomerDashboardPage: React.FC = () => {
               compact={false}
               maxActions={3}
               onActionClick={(action) => console.log('Action clicked:', action)}
+              onStatusChange={(action, change) => {
+                if (change === 'dismiss') dismissAction(action);
+                else if (change === 'snooze') snoozeAction(action, { days: 7 });
+                else completeAction(action);
+              }}
             />
           </div>
         )}
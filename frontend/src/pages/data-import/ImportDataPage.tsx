@@ -167,8 +167,10 @@ const handleMappingConfirmed = async (mappings: FieldMappingData[]) => {
     console.log('Mappings:', mappings);
     
     // Create import session with the field mappings
+    // Customer and transaction imports are staged as a dry run and reviewed before processing
+    const dryRun = importState.selectedImportType === 'CustomerData' || importState.selectedImportType === 'TransactionData';
     const token = localStorage.getItem('access_token');
-    const response = await fetch(API_ENDPOINTS.IMPORT.PROCESS, {
+    const response = await fetch(dryRun ? `${API_ENDPOINTS.IMPORT.PROCESS}?mode=dry_run` : API_ENDPOINTS.IMPORT.PROCESS, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${token}`,
@@ -485,6 +487,7 @@ const handleMappingConfirmed = async (mappings: FieldMappingData[]) => {
           <ProcessingStatus
             sessionId={importState.importSession.id}
             sessionName={importState.importSession.session_name}
+            preview={importState.importSession.preview}
             onProcessingComplete={handleProcessingComplete}
             onError={handleProcessingError}
             onCancel={handleProcessingCancel}
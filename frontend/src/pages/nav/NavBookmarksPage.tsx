@@ -4,7 +4,7 @@
 import React, { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTheme } from '../../contexts/ThemeContext';
-import { useBookmarks, useDownloads, useDownloadProgress } from '../../hooks/useNavData';
+import { useBookmarks, useDownloads, useDownloadProgress, useNavQuality } from '../../hooks/useNavData';
 import { EnhancedBookmarkCard } from '../../components/nav/EnhancedBookmarkCard';
 import { HistoricalDownloadModal } from '../../components/nav/HistoricalDownloadModal';
 import { NavProgressModal } from '../../components/nav/NavProgressModal';
@@ -56,6 +56,7 @@ const NavBookmarksPage: React.FC = () => {
 
   const { triggerHistoricalDownload } = useDownloads();
   const { startPolling, stopPolling } = useDownloadProgress();
+  const { qualityBySchemeId } = useNavQuality();
 
   // Filter bookmarks based on daily download filter
   const filteredBookmarks = bookmarks.filter(bookmark => {
@@ -272,6 +273,19 @@ const NavBookmarksPage: React.FC = () => {
     toastService.info('Bulk historical download - showing single scheme for now. Full bulk support coming soon.');
   };
 
+  const handleBulkCompare = () => {
+    const schemeIds = filteredBookmarks
+      .filter(b => selectedBookmarkIds.has(b.id))
+      .map(b => b.scheme_id);
+
+    if (schemeIds.length < 2 || schemeIds.length > 6) {
+      toastService.warning('Select between 2 and 6 schemes to compare');
+      return;
+    }
+
+    navigate(`/nav/compare?schemes=${schemeIds.join(',')}`);
+  };
+
   const handleBulkDelete = async () => {
     const selectedBookmarks = filteredBookmarks.filter(b => selectedBookmarkIds.has(b.id));
     const confirmed = window.confirm(
@@ -382,6 +396,22 @@ const NavBookmarksPage: React.FC = () => {
               🔍 Add More Schemes
             </button>
             
+            <button
+              onClick={() => navigate('/nav/compare')}
+              style={{
+                padding: '12px 20px',
+                backgroundColor: colors.brand.primary,
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              📈 Compare Schemes
+            </button>
+            
             <button
               onClick={handleBackToDashboard}
               style={{
@@ -621,6 +651,22 @@ const NavBookmarksPage: React.FC = () => {
                   Historical Download
                 </button>
                 
+                <button
+                  onClick={handleBulkCompare}
+                  style={{
+                    padding: '6px 12px',
+                    backgroundColor: colors.brand.primary,
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                    fontWeight: '500'
+                  }}
+                >
+                  Compare
+                </button>
+                
                 <button
                   onClick={handleBulkDelete}
                   style={{
@@ -789,6 +835,7 @@ const NavBookmarksPage: React.FC = () => {
                         onViewNavData={handleViewNavData}
                         onHistoricalDownload={handleHistoricalDownload}
                         showActions={true}
+                        quality={qualityBySchemeId[bookmark.scheme_id]}
                       />
                     </div>
                     
@@ -0,0 +1,482 @@
+// frontend/src/pages/nav/NavComparePage.tsx
+// Compare 2-6 bookmarked schemes, optionally against a benchmark index bookmarked as a pseudo-scheme
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useBookmarks, useSchemeComparison } from '../../hooks/useNavData';
+import { NavComparisonChart } from '../../components/nav/NavComparisonChart';
+import { toastService } from '../../services/toast.service';
+import type { AnalyticsRiskPeriod } from '../../services/nav.service';
+
+const MIN_SCHEMES = 2;
+const MAX_SCHEMES = 6;
+
+const SERIES_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
+const BENCHMARK_COLOR = '#6B7280';
+
+const NavComparePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { theme, isDarkMode } = useTheme();
+  const colors = isDarkMode && theme.darkMode ? theme.darkMode.colors : theme.colors;
+
+  // Schemes come from the user's bookmarks; indices imported as pseudo-schemes can be bookmarked too
+  const { bookmarks, isLoading: bookmarksLoading } = useBookmarks({ page: 1, page_size: 100 });
+  const { comparison, isLoading, error, compareSchemes } = useSchemeComparison();
+
+  // ?schemes=12,15 preselects scheme IDs (e.g. from the bookmarks bulk actions)
+  const [selectedSchemeIds, setSelectedSchemeIds] = useState<number[]>(() =>
+    (searchParams.get('schemes') || '')
+      .split(',')
+      .map(id => parseInt(id))
+      .filter(id => !isNaN(id))
+      .slice(0, MAX_SCHEMES)
+  );
+  const [benchmarkId, setBenchmarkId] = useState<number | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [rollingPeriod, setRollingPeriod] = useState<AnalyticsRiskPeriod>('1Y');
+
+  // Compare straight away when opened with a valid preselection
+  useEffect(() => {
+    if (selectedSchemeIds.length >= MIN_SCHEMES) {
+      compareSchemes({ scheme_ids: selectedSchemeIds, rolling_period: rollingPeriod });
+    }
+  }, []);
+
+  const toggleScheme = (schemeId: number) => {
+    if (selectedSchemeIds.includes(schemeId)) {
+      setSelectedSchemeIds(selectedSchemeIds.filter(id => id !== schemeId));
+      return;
+    }
+
+    if (selectedSchemeIds.length >= MAX_SCHEMES) {
+      toastService.warning(`You can compare at most ${MAX_SCHEMES} schemes`);
+      return;
+    }
+
+    setSelectedSchemeIds([...selectedSchemeIds, schemeId]);
+    if (benchmarkId === schemeId) {
+      setBenchmarkId('');
+    }
+  };
+
+  const handleCompare = () => {
+    if (selectedSchemeIds.length < MIN_SCHEMES) {
+      toastService.warning(`Select at least ${MIN_SCHEMES} schemes to compare`);
+      return;
+    }
+
+    compareSchemes({
+      scheme_ids: selectedSchemeIds,
+      benchmark_id: benchmarkId === '' ? undefined : benchmarkId,
+      start_date: startDate || undefined,
+      end_date: endDate || undefined,
+      rolling_period: rollingPeriod
+    });
+  };
+
+  const colorFor = (schemeId: number): string => {
+    if (comparison?.benchmark_id === schemeId) return BENCHMARK_COLOR;
+    const index = comparison ? comparison.schemes.findIndex(s => s.scheme_id === schemeId) : -1;
+    return SERIES_COLORS[Math.max(0, index) % SERIES_COLORS.length];
+  };
+
+  const formatPct = (value: number | null | undefined): string =>
+    value === null || value === undefined ? '—' : `${value.toFixed(2)}%`;
+
+  const pctColor = (value: number | null | undefined): string => {
+    if (value === null || value === undefined) return colors.utility.secondaryText;
+    return value >= 0 ? colors.semantic.success : colors.semantic.error;
+  };
+
+  const schemeName = (schemeId: number): string =>
+    comparison?.schemes.find(s => s.scheme_id === schemeId)?.scheme_name || `Scheme ${schemeId}`;
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: `1px solid ${colors.utility.primaryText}20`,
+    borderRadius: '6px',
+    backgroundColor: colors.utility.primaryBackground,
+    color: colors.utility.primaryText,
+    fontSize: '14px',
+    outline: 'none',
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '14px',
+    fontWeight: '500',
+    color: colors.utility.primaryText,
+    marginBottom: '6px'
+  };
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: colors.utility.secondaryBackground,
+    borderRadius: '12px',
+    padding: '20px',
+    marginBottom: '24px'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '10px 12px',
+    textAlign: 'right',
+    borderBottom: `1px solid ${colors.utility.primaryText}10`,
+    fontSize: '13px'
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    fontWeight: '600',
+    color: colors.utility.primaryText
+  };
+
+  const nameCell = (schemeId: number) => (
+    <td style={{ ...cellStyle, textAlign: 'left', color: colors.utility.primaryText }}>
+      <span style={{
+        display: 'inline-block',
+        width: '10px',
+        height: '10px',
+        borderRadius: '50%',
+        backgroundColor: colorFor(schemeId),
+        marginRight: '8px'
+      }} />
+      {schemeName(schemeId)}
+      {comparison?.benchmark_id === schemeId && (
+        <span style={{ marginLeft: '6px', fontSize: '11px', color: colors.utility.secondaryText }}>(benchmark)</span>
+      )}
+    </td>
+  );
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      backgroundColor: colors.utility.primaryBackground,
+      padding: '24px'
+    }}>
+      <div style={{
+        maxWidth: '1400px',
+        margin: '0 auto'
+      }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: '24px'
+        }}>
+          <div>
+            <h1 style={{
+              fontSize: '28px',
+              fontWeight: '700',
+              color: colors.utility.primaryText,
+              margin: '0 0 4px 0'
+            }}>
+              Compare Schemes
+            </h1>
+            <p style={{
+              fontSize: '14px',
+              color: colors.utility.secondaryText,
+              margin: 0
+            }}>
+              Rebased NAV, calendar-year and rolling returns of {MIN_SCHEMES}-{MAX_SCHEMES} bookmarked schemes
+            </p>
+          </div>
+
+          <button
+            onClick={() => navigate('/nav/bookmarks')}
+            style={{
+              padding: '12px 20px',
+              backgroundColor: 'transparent',
+              color: colors.brand.primary,
+              border: `1px solid ${colors.brand.primary}`,
+              borderRadius: '8px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            ← Back to Bookmarks
+          </button>
+        </div>
+
+        {/* Selection */}
+        <div style={cardStyle}>
+          <label style={labelStyle}>
+            Schemes ({selectedSchemeIds.length}/{MAX_SCHEMES} selected)
+          </label>
+          {bookmarksLoading ? (
+            <div style={{ fontSize: '14px', color: colors.utility.secondaryText, marginBottom: '16px' }}>
+              Loading bookmarks...
+            </div>
+          ) : bookmarks.length === 0 ? (
+            <div style={{ fontSize: '14px', color: colors.utility.secondaryText, marginBottom: '16px' }}>
+              Bookmark schemes first to compare them
+            </div>
+          ) : (
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+              gap: '8px',
+              maxHeight: '220px',
+              overflowY: 'auto',
+              marginBottom: '16px'
+            }}>
+              {bookmarks.map(bookmark => (
+                <label
+                  key={bookmark.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '8px 10px',
+                    borderRadius: '6px',
+                    border: `1px solid ${selectedSchemeIds.includes(bookmark.scheme_id)
+                      ? colors.brand.primary
+                      : colors.utility.primaryText + '15'}`,
+                    backgroundColor: colors.utility.primaryBackground,
+                    fontSize: '13px',
+                    color: colors.utility.primaryText,
+                    cursor: 'pointer'
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedSchemeIds.includes(bookmark.scheme_id)}
+                    onChange={() => toggleScheme(bookmark.scheme_id)}
+                  />
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {bookmark.scheme_name}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+            gap: '16px',
+            marginBottom: '16px'
+          }}>
+            <div>
+              <label style={labelStyle}>Benchmark (optional)</label>
+              <select
+                value={benchmarkId}
+                onChange={(e) => setBenchmarkId(e.target.value === '' ? '' : parseInt(e.target.value))}
+                style={inputStyle}
+              >
+                <option value="">No benchmark</option>
+                {bookmarks
+                  .filter(bookmark => !selectedSchemeIds.includes(bookmark.scheme_id))
+                  .map(bookmark => (
+                    <option key={bookmark.id} value={bookmark.scheme_id}>{bookmark.scheme_name}</option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label style={labelStyle}>Start Date</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} style={inputStyle} />
+            </div>
+
+            <div>
+              <label style={labelStyle}>End Date</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} style={inputStyle} />
+            </div>
+
+            <div>
+              <label style={labelStyle}>Rolling Window</label>
+              <select
+                value={rollingPeriod}
+                onChange={(e) => setRollingPeriod(e.target.value as AnalyticsRiskPeriod)}
+                style={inputStyle}
+              >
+                <option value="1Y">1 year</option>
+                <option value="3Y">3 years</option>
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleCompare}
+            disabled={isLoading || selectedSchemeIds.length < MIN_SCHEMES}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: isLoading || selectedSchemeIds.length < MIN_SCHEMES
+                ? colors.utility.secondaryText
+                : colors.brand.primary,
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isLoading || selectedSchemeIds.length < MIN_SCHEMES ? 'not-allowed' : 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            {isLoading ? 'Comparing...' : '📈 Compare'}
+          </button>
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            backgroundColor: colors.semantic.error + '10',
+            color: colors.semantic.error,
+            borderRadius: '6px',
+            marginBottom: '24px',
+            border: `1px solid ${colors.semantic.error}30`,
+            fontSize: '14px'
+          }}>
+            {error}
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            {/* Rebased chart */}
+            <div style={cardStyle}>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: '12px',
+                flexWrap: 'wrap',
+                gap: '8px'
+              }}>
+                <h3 style={{ margin: 0, fontSize: '16px', color: colors.utility.primaryText }}>
+                  Growth of 100
+                </h3>
+                <span style={{ fontSize: '12px', color: colors.utility.secondaryText }}>
+                  {new Date(comparison.start_date).toLocaleDateString()} – {new Date(comparison.end_date).toLocaleDateString()}
+                </span>
+              </div>
+              <NavComparisonChart comparison={comparison} colorFor={colorFor} />
+
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '16px' }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>Scheme</th>
+                    <th style={headerCellStyle}>Start NAV</th>
+                    <th style={headerCellStyle}>Value of 100</th>
+                    <th style={headerCellStyle}>Return</th>
+                    <th style={headerCellStyle}>CAGR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.schemes.map(scheme => (
+                    <tr key={scheme.scheme_id}>
+                      {nameCell(scheme.scheme_id)}
+                      <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>₹{scheme.base_nav.toFixed(4)}</td>
+                      <td style={{ ...cellStyle, color: colors.utility.primaryText }}>
+                        {(100 + scheme.period_return).toFixed(2)}
+                      </td>
+                      <td style={{ ...cellStyle, color: pctColor(scheme.period_return), fontWeight: '600' }}>
+                        {formatPct(scheme.period_return)}
+                      </td>
+                      <td style={{ ...cellStyle, color: pctColor(scheme.period_cagr) }}>{formatPct(scheme.period_cagr)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Calendar-year returns */}
+            <div style={cardStyle}>
+              <h3 style={{ margin: '0 0 12px 0', fontSize: '16px', color: colors.utility.primaryText }}>
+                Calendar-Year Returns
+              </h3>
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={{ ...headerCellStyle, textAlign: 'left' }}>Scheme</th>
+                      {comparison.calendar_year_returns.map(year => (
+                        <th key={year.year} style={headerCellStyle}>
+                          {year.year}{year.is_partial ? ' YTD' : ''}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.schemes.map(scheme => (
+                      <tr key={scheme.scheme_id}>
+                        {nameCell(scheme.scheme_id)}
+                        {comparison.calendar_year_returns.map(year => (
+                          <td key={year.year} style={{ ...cellStyle, color: pctColor(year.returns[scheme.scheme_id]) }}>
+                            {formatPct(year.returns[scheme.scheme_id])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Rolling-return overlap */}
+            <div style={cardStyle}>
+              <h3 style={{ margin: '0 0 4px 0', fontSize: '16px', color: colors.utility.primaryText }}>
+                {comparison.rolling_overlap.period} Rolling Returns (CAGR)
+              </h3>
+              <p style={{ margin: '0 0 12px 0', fontSize: '12px', color: colors.utility.secondaryText }}>
+                {comparison.rolling_overlap.observations > 0
+                  ? `${comparison.rolling_overlap.observations.toLocaleString()} windows ending ${new Date(comparison.rolling_overlap.first_window_end!).toLocaleDateString()} – ${new Date(comparison.rolling_overlap.last_window_end!).toLocaleDateString()} that every scheme covers`
+                  : `Not enough common history for ${comparison.rolling_overlap.period} rolling returns`}
+              </p>
+              {comparison.rolling_overlap.observations > 0 && (
+                <div style={{ overflowX: 'auto' }}>
+                  <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                      <tr>
+                        <th style={{ ...headerCellStyle, textAlign: 'left' }}>Scheme</th>
+                        <th style={headerCellStyle}>Mean</th>
+                        <th style={headerCellStyle}>Median</th>
+                        <th style={headerCellStyle}>Min</th>
+                        <th style={headerCellStyle}>Max</th>
+                        <th style={headerCellStyle}>Positive</th>
+                        <th style={headerCellStyle}>Best of Group</th>
+                        {comparison.benchmark_id !== null && (
+                          <>
+                            <th style={headerCellStyle}>Beat Benchmark</th>
+                            <th style={headerCellStyle}>Avg Excess</th>
+                          </>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.rolling_overlap.schemes.map(stats => (
+                        <tr key={stats.scheme_id}>
+                          {nameCell(stats.scheme_id)}
+                          <td style={{ ...cellStyle, color: pctColor(stats.mean), fontWeight: '600' }}>{formatPct(stats.mean)}</td>
+                          <td style={{ ...cellStyle, color: pctColor(stats.median) }}>{formatPct(stats.median)}</td>
+                          <td style={{ ...cellStyle, color: pctColor(stats.min) }}>{formatPct(stats.min)}</td>
+                          <td style={{ ...cellStyle, color: pctColor(stats.max) }}>{formatPct(stats.max)}</td>
+                          <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{formatPct(stats.positive_pct)}</td>
+                          <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{formatPct(stats.best_pct)}</td>
+                          {comparison.benchmark_id !== null && (
+                            <>
+                              <td style={{ ...cellStyle, color: colors.utility.secondaryText }}>{formatPct(stats.beat_benchmark_pct)}</td>
+                              <td style={{ ...cellStyle, color: pctColor(stats.avg_excess_vs_benchmark) }}>
+                                {formatPct(stats.avg_excess_vs_benchmark)}
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NavComparePage;
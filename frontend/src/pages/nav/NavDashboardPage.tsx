@@ -4,7 +4,7 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTheme } from '../../contexts/ThemeContext';
-import { useNavDashboard, useDownloads, useDownloadProgress } from '../../hooks/useNavData';
+import { useNavDashboard, useDownloads, useDownloadProgress, useNavQuality } from '../../hooks/useNavData';
 import { EnhancedBookmarkCard } from '../../components/nav/EnhancedBookmarkCard';
 import { HistoricalDownloadModal } from '../../components/nav/HistoricalDownloadModal';
 import { NavProgressModal } from '../../components/nav/NavProgressModal';
@@ -39,6 +39,7 @@ const NavDashboardPage: React.FC = () => {
 
   const { triggerDailyDownload } = useDownloads();
   const { startPolling, stopPolling } = useDownloadProgress();
+  const { qualityBySchemeId } = useNavQuality();
 
   // Modal state
   const [showProgressModal, setShowProgressModal] = useState(false);
@@ -756,6 +757,7 @@ const NavDashboardPage: React.FC = () => {
                   onViewNavData={handleViewNavData}
                   onHistoricalDownload={handleHistoricalDownload}
                   showActions={true}
+                  quality={qualityBySchemeId[bookmark.scheme_id]}
                 />
               ))}
               
@@ -7,14 +7,28 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useScheduler } from '../../hooks/useNavData';
 import { toastService } from '../../services/toast.service';
 import { FrontendErrorLogger } from '../../services/errorLogger.service';
+import type { MisfirePolicy, SchedulerExecutionMode, SchedulePreview } from '../../services/nav.service';
 
 interface ScheduleFormData {
   schedule_type: 'daily' | 'weekly' | 'custom';
   download_time: string;
   cron_expression: string;
   is_enabled: boolean;
+  misfire_policy: MisfirePolicy;
+  execution_mode: SchedulerExecutionMode;
 }
 
+const MISFIRE_POLICY_OPTIONS: Array<{ value: MisfirePolicy; label: string }> = [
+  { value: 'run_once', label: 'Run once to catch up' },
+  { value: 'run_all', label: 'Run every missed schedule' },
+  { value: 'skip', label: 'Skip missed runs' }
+];
+
+const EXECUTION_MODE_OPTIONS: Array<{ value: SchedulerExecutionMode; label: string }> = [
+  { value: 'n8n', label: 'n8n workflow' },
+  { value: 'native', label: 'Built-in (no n8n)' }
+];
+
 const NavSchedulerPage: React.FC = () => {
   const navigate = useNavigate();
   const { theme, isDarkMode } = useTheme();
@@ -29,6 +43,7 @@ const NavSchedulerPage: React.FC = () => {
     updateConfig,
     deleteConfig,
     manualTrigger,
+    previewSchedule,
     refetch
   } = useScheduler();
 
@@ -37,12 +52,17 @@ const NavSchedulerPage: React.FC = () => {
     schedule_type: config?.schedule_type || 'daily',
     download_time: config?.download_time || '23:00',
     cron_expression: config?.cron_expression || '',
-    is_enabled: config?.is_enabled || true
+    is_enabled: config?.is_enabled || true,
+    misfire_policy: config?.misfire_policy || 'run_once',
+    execution_mode: config?.execution_mode || 'n8n'
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [isTriggering, setIsTriggering] = useState(false);
+  const [preview, setPreview] = useState<SchedulePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   // Update form when config loads
   React.useEffect(() => {
@@ -51,7 +71,9 @@ const NavSchedulerPage: React.FC = () => {
         schedule_type: config.schedule_type,
         download_time: config.download_time,
         cron_expression: config.cron_expression || '',
-        is_enabled: config.is_enabled
+        is_enabled: config.is_enabled,
+        misfire_policy: config.misfire_policy || 'run_once',
+        execution_mode: config.execution_mode || 'n8n'
       });
     }
   }, [config]);
@@ -85,6 +107,31 @@ const NavSchedulerPage: React.FC = () => {
       
       return updated;
     });
+
+    // A stale preview would no longer match the form
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  // Preview next fire times (Asia/Kolkata) before saving
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setPreviewError(null);
+
+    try {
+      const result = await previewSchedule({
+        cron_expression: formData.cron_expression || undefined,
+        schedule_type: formData.schedule_type,
+        download_time: formData.download_time,
+        count: 5
+      });
+      setPreview(result);
+    } catch (err: any) {
+      setPreview(null);
+      setPreviewError(err.message || 'Failed to preview schedule');
+    } finally {
+      setIsPreviewing(false);
+    }
   };
 
   // Handle form submission
@@ -107,7 +154,9 @@ const NavSchedulerPage: React.FC = () => {
           schedule_type: formData.schedule_type,
           download_time: formData.download_time,
           cron_expression: formData.cron_expression,
-          is_enabled: formData.is_enabled
+          is_enabled: formData.is_enabled,
+          misfire_policy: formData.misfire_policy,
+          execution_mode: formData.execution_mode
         });
         toastService.success('Scheduler configuration updated successfully');
       } else {
@@ -116,7 +165,9 @@ const NavSchedulerPage: React.FC = () => {
           schedule_type: formData.schedule_type,
           download_time: formData.download_time,
           cron_expression: formData.cron_expression,
-          is_enabled: formData.is_enabled
+          is_enabled: formData.is_enabled,
+          misfire_policy: formData.misfire_policy,
+          execution_mode: formData.execution_mode
         });
         toastService.success('Scheduler configuration created successfully');
       }
@@ -718,7 +769,140 @@ const NavSchedulerPage: React.FC = () => {
                         color: colors.utility.secondaryText,
                         marginTop: '8px'
                       }}>
-                        Custom cron expression (auto-generated based on schedule type and time)
+                        Custom cron expression (auto-generated based on schedule type and time).
+                        Supports ranges, steps, lists and names, e.g. <code>30 18 * * MON-FRI</code>.
+                        Times are in IST (Asia/Kolkata).
+                      </p>
+
+                      <button
+                        type="button"
+                        onClick={handlePreview}
+                        disabled={isPreviewing}
+                        style={{
+                          marginTop: '12px',
+                          padding: '8px 16px',
+                          backgroundColor: 'transparent',
+                          color: colors.brand.primary,
+                          border: `1px solid ${colors.brand.primary}`,
+                          borderRadius: '8px',
+                          cursor: isPreviewing ? 'not-allowed' : 'pointer',
+                          fontSize: '13px',
+                          fontWeight: '500'
+                        }}
+                      >
+                        {isPreviewing ? 'Calculating...' : '🔍 Preview next runs'}
+                      </button>
+
+                      {previewError && (
+                        <p style={{
+                          fontSize: '13px',
+                          color: colors.semantic.error,
+                          marginTop: '8px'
+                        }}>
+                          {previewError}
+                        </p>
+                      )}
+
+                      {preview && (
+                        <ul style={{
+                          marginTop: '12px',
+                          paddingLeft: '20px',
+                          fontSize: '13px',
+                          color: colors.utility.primaryText,
+                          fontFamily: 'monospace'
+                        }}>
+                          {preview.next_runs.map(run => (
+                            <li key={run.at}>
+                              {new Date(run.at).toLocaleString('en-IN', {
+                                timeZone: preview.timezone,
+                                weekday: 'short',
+                                day: '2-digit',
+                                month: 'short',
+                                year: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit'
+                              })} IST
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <div style={{ marginTop: '16px' }}>
+                      <label style={{
+                        display: 'block',
+                        fontSize: '14px',
+                        fontWeight: '500',
+                        color: colors.utility.primaryText,
+                        marginBottom: '8px'
+                      }}>
+                        Missed Runs
+                      </label>
+                      <select
+                        value={formData.misfire_policy}
+                        onChange={(e) => handleFieldChange('misfire_policy', e.target.value)}
+                        style={{
+                          width: '100%',
+                          padding: '12px 16px',
+                          border: `1px solid ${colors.utility.primaryText}20`,
+                          borderRadius: '8px',
+                          backgroundColor: colors.utility.secondaryBackground,
+                          color: colors.utility.primaryText,
+                          fontSize: '14px',
+                          outline: 'none'
+                        }}
+                      >
+                        {MISFIRE_POLICY_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <p style={{
+                        fontSize: '12px',
+                        color: colors.utility.secondaryText,
+                        marginTop: '8px'
+                      }}>
+                        What to do with schedules missed while the server was offline
+                      </p>
+                    </div>
+
+                    <div style={{ marginTop: '16px' }}>
+                      <label style={{
+                        display: 'block',
+                        fontSize: '14px',
+                        fontWeight: '500',
+                        color: colors.utility.primaryText,
+                        marginBottom: '8px'
+                      }}>
+                        Execution Mode
+                      </label>
+                      <select
+                        value={formData.execution_mode}
+                        onChange={(e) => handleFieldChange('execution_mode', e.target.value)}
+                        style={{
+                          width: '100%',
+                          padding: '12px 16px',
+                          border: `1px solid ${colors.utility.primaryText}20`,
+                          borderRadius: '8px',
+                          backgroundColor: colors.utility.secondaryBackground,
+                          color: colors.utility.primaryText,
+                          fontSize: '14px',
+                          outline: 'none'
+                        }}
+                      >
+                        {EXECUTION_MODE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <p style={{
+                        fontSize: '12px',
+                        color: colors.utility.secondaryText,
+                        marginTop: '8px'
+                      }}>
+                        Built-in runs the AMFI download inside the backend; no n8n instance needed
                       </p>
                     </div>
                   </div>
@@ -147,7 +147,7 @@ export interface NavDataParams {
 
 export interface DownloadJob {
   id: number;
-  job_type: 'daily' | 'historical' | 'weekly';
+  job_type: 'daily' | 'historical' | 'weekly' | 'backfill';
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   schemes: Array<{
     scheme_id: number;
@@ -169,6 +169,24 @@ export interface DownloadJob {
   updated_at: string;
 }
 
+export interface NavGapRange {
+  start_date: string;
+  end_date: string;
+  missing_days: number;
+}
+
+export interface BackfillResponse {
+  job_id: number; // 0 when nothing is missing
+  message: string;
+  already_exists: boolean;
+  gaps: Array<{
+    bookmark_id: number;
+    scheme_id: number;
+    scheme_code: string;
+    ranges: NavGapRange[];
+  }>;
+}
+
 export interface DownloadJobParams {
   status?: string;
   job_type?: string;
@@ -215,12 +233,182 @@ export interface NavStatistics {
   failed_downloads_today: number;
 }
 
+export type AnalyticsTrailingPeriod = '1M' | '3M' | '6M' | '1Y' | '3Y' | '5Y';
+export type AnalyticsRiskPeriod = '1Y' | '3Y';
+
+export interface TrailingReturn {
+  period: AnalyticsTrailingPeriod;
+  start_date: string | null;
+  start_nav: number | null;
+  end_date: string;
+  end_nav: number;
+  absolute_return: number | null;
+  cagr: number | null;
+}
+
+export interface RollingReturnDistribution {
+  period: AnalyticsRiskPeriod;
+  observations: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  percentile_25: number | null;
+  percentile_75: number | null;
+  positive_pct: number | null;
+}
+
+export interface SchemeAnalytics {
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  first_nav_date: string;
+  latest_nav_date: string;
+  latest_nav_value: number;
+  nav_count: number;
+  trailing_returns: TrailingReturn[];
+  rolling_returns: RollingReturnDistribution[];
+  volatility: Array<{
+    period: AnalyticsRiskPeriod;
+    observations: number;
+    annualised_volatility: number | null;
+  }>;
+  max_drawdown: {
+    max_drawdown_pct: number;
+    peak_date: string | null;
+    peak_nav: number | null;
+    trough_date: string | null;
+    trough_nav: number | null;
+    recovery_date: string | null;
+    current_drawdown_pct: number;
+  };
+  moving_averages: {
+    dma_50: number | null;
+    dma_200: number | null;
+  };
+  risk_free_rate: number;
+  sharpe: Array<{
+    period: AnalyticsRiskPeriod;
+    annualised_return: number | null;
+    annualised_volatility: number | null;
+    sharpe_ratio: number | null;
+  }>;
+  computed_at: string;
+  from_cache: boolean;
+}
+
+export interface SchemeComparisonParams {
+  scheme_ids: number[];
+  benchmark_id?: number;
+  start_date?: string;
+  end_date?: string;
+  rolling_period?: AnalyticsRiskPeriod;
+}
+
+export interface ComparedScheme {
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  is_benchmark: boolean;
+  first_nav_date: string;
+  latest_nav_date: string;
+  base_nav: number;
+  period_return: number;
+  period_cagr: number | null;
+}
+
+export interface SchemeComparison {
+  start_date: string;
+  end_date: string;
+  benchmark_id: number | null;
+  schemes: ComparedScheme[];
+  series: Array<{
+    nav_date: string;
+    values: Record<number, number>;
+  }>;
+  calendar_year_returns: Array<{
+    year: number;
+    is_partial: boolean;
+    returns: Record<number, number | null>;
+  }>;
+  rolling_overlap: {
+    period: AnalyticsRiskPeriod;
+    observations: number;
+    first_window_end: string | null;
+    last_window_end: string | null;
+    schemes: Array<{
+      scheme_id: number;
+      mean: number | null;
+      median: number | null;
+      min: number | null;
+      max: number | null;
+      positive_pct: number | null;
+      best_pct: number | null;
+      beat_benchmark_pct: number | null;
+      avg_excess_vs_benchmark: number | null;
+    }>;
+  };
+}
+
+export type NavQualityIssue = 'gap' | 'spike' | 'stale';
+
+export interface NavQualityParams {
+  lookback_days?: number;
+  spike_threshold?: number;
+  stale_days?: number;
+  exchange?: 'NSE' | 'BSE';
+}
+
+export interface NavSpike {
+  nav_date: string;
+  nav_value: number;
+  previous_nav_date: string;
+  previous_nav_value: number;
+  change_pct: number;
+}
+
+export interface SchemeNavQuality {
+  bookmark_id: number;
+  scheme_id: number;
+  scheme_code: string;
+  scheme_name: string;
+  latest_nav_date: string | null;
+  days_since_latest: number | null;
+  missing_dates: string[];
+  spikes: NavSpike[];
+  is_stale: boolean;
+  issues: NavQualityIssue[];
+}
+
+export interface NavQualityReport {
+  generated_at: string;
+  parameters: {
+    lookback_days: number;
+    spike_threshold_pct: number;
+    stale_after_days: number;
+    exchange: 'NSE' | 'BSE';
+  };
+  summary: {
+    schemes_checked: number;
+    schemes_with_gaps: number;
+    schemes_with_spikes: number;
+    stale_schemes: number;
+  };
+  schemes: SchemeNavQuality[];
+}
+
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
+export type SchedulerExecutionMode = 'n8n' | 'native';
+
 export interface SchedulerConfig {
   id?: number;
   schedule_type: 'daily' | 'weekly' | 'custom';
   download_time: string;
   cron_expression?: string;
   is_enabled: boolean;
+  misfire_policy?: MisfirePolicy;
+  execution_mode?: SchedulerExecutionMode;
   next_execution_at?: string;
   last_executed_at?: string;
   execution_count?: number;
@@ -229,12 +417,42 @@ export interface SchedulerConfig {
   updated_at?: string;
 }
 
+export interface SchedulePreview {
+  cron_expression: string;
+  timezone: string;
+  next_runs: Array<{ at: string; local: string }>;
+}
+
+export interface ActiveSchedulersResponse {
+  node_id: string;
+  active_schedulers: Array<{
+    jobKey: string;
+    config: SchedulerConfig;
+    isActive: boolean;
+    heldBy: string | null;
+    isLocal: boolean;
+    leaseAcquiredAt: string | null;
+    leaseHeartbeatAt: string | null;
+    leaseExpiresAt: string | null;
+  }>;
+  total_active: number;
+  download_locks: Array<{
+    jobId: number;
+    lockType: 'daily' | 'historical' | 'weekly' | 'backfill';
+    lockedBy: number;
+    lockedAt: string;
+    schemeIds: number[];
+    heldBy: string;
+  }>;
+}
+
 export interface SchedulerStatus {
   config: SchedulerConfig;
   is_running: boolean;
   cron_job_active: boolean;
   next_run: string | null;
   last_run: string | null;
+  held_by?: string | null;
   recent_executions: Array<{
     id: number;
     execution_time: string;
@@ -557,6 +775,26 @@ export class NavService {
     return response as ApiResponse<NavData>;
   }
 
+  async getSchemeAnalytics(schemeId: number, riskFreeRate?: number): Promise<ApiResponse<SchemeAnalytics>> {
+    const url = NAV_URLS.getSchemeAnalytics(
+      schemeId,
+      riskFreeRate !== undefined ? { risk_free_rate: riskFreeRate } : {},
+      this.getEnvironment()
+    );
+    
+    const response = await this.handleRequest<SchemeAnalytics>(url);
+    
+    return response as ApiResponse<SchemeAnalytics>;
+  }
+
+  async compareSchemes(params: SchemeComparisonParams): Promise<ApiResponse<SchemeComparison>> {
+    const url = NAV_URLS.compareSchemes(params, this.getEnvironment());
+    
+    const response = await this.handleRequest<SchemeComparison>(url);
+    
+    return response as ApiResponse<SchemeComparison>;
+  }
+
   // ==================== DOWNLOAD OPERATIONS ====================
 
   async triggerDailyDownload(): Promise<ApiResponse<{ jobId: number; message: string; alreadyExists?: boolean }>> {
@@ -607,6 +845,23 @@ export class NavService {
     }>;
   }
 
+  async triggerBackfill(request: { scheme_ids?: number[]; lookback_days?: number } = {}): Promise<ApiResponse<BackfillResponse>> {
+    const url = NAV_URLS.triggerBackfill(this.getEnvironment());
+    
+    const response = await this.handleRequest<BackfillResponse>(url, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+    
+    if (response.success) {
+      toastService.success(response.data?.message || 'Backfill started');
+    } else {
+      toastService.error(response.error || 'Failed to trigger backfill');
+    }
+    
+    return response as ApiResponse<BackfillResponse>;
+  }
+
   async getDownloadProgress(jobId: number): Promise<ApiResponse<DownloadProgress>> {
     console.log('📊 getDownloadProgress called with jobId:', jobId);
     console.log('📊 Current environment:', this.getEnvironment());
@@ -700,6 +955,14 @@ export class NavService {
     }>;
   }
 
+  async getNavQuality(params?: NavQualityParams): Promise<ApiResponse<NavQualityReport>> {
+    const url = NAV_URLS.getNavQuality(params, this.getEnvironment());
+    
+    const response = await this.handleRequest<NavQualityReport>(url);
+    
+    return response as ApiResponse<NavQualityReport>;
+  }
+
   // ==================== SCHEDULER OPERATIONS ====================
 
   async getSchedulerConfig(): Promise<ApiResponse<SchedulerConfig>> {
@@ -733,6 +996,23 @@ export class NavService {
     return response as ApiResponse<SchedulerConfig>;
   }
 
+  async previewSchedule(request: {
+    cron_expression?: string;
+    schedule_type?: SchedulerConfig['schedule_type'];
+    download_time?: string;
+    count?: number;
+  }): Promise<ApiResponse<SchedulePreview>> {
+    const url = NAV_URLS.previewSchedule(this.getEnvironment());
+    
+    const response = await this.handleRequest<SchedulePreview>(url, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+    
+    // Errors are shown inline next to the cron field, so no toast here
+    return response as ApiResponse<SchedulePreview>;
+  }
+
   async updateSchedulerConfig(id: number, updates: Partial<SchedulerConfig>): Promise<ApiResponse<SchedulerConfig>> {
     const url = NAV_URLS.updateSchedulerConfig(id, this.getEnvironment());
     
@@ -794,16 +1074,16 @@ export class NavService {
     return response as ApiResponse<{ execution_id: string; message: string }>;
   }
 
-  async getAllActiveSchedulers(): Promise<ApiResponse<{ active_schedulers: any[]; total_active: number }>> {
+  async getAllActiveSchedulers(): Promise<ApiResponse<ActiveSchedulersResponse>> {
     const url = NAV_URLS.getAllActiveSchedulers(this.getEnvironment());
     
-    const response = await this.handleRequest<{ active_schedulers: any[]; total_active: number }>(url);
+    const response = await this.handleRequest<ActiveSchedulersResponse>(url);
     
     if (!response.success) {
       toastService.error(response.error || 'Failed to load active schedulers');
     }
     
-    return response as ApiResponse<{ active_schedulers: any[]; total_active: number }>;
+    return response as ApiResponse<ActiveSchedulersResponse>;
   }
 
   // ==================== SIMPLIFIED UTILITY METHODS ====================
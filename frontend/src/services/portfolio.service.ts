@@ -15,18 +15,23 @@ import {
   SchemePortfolioDetailsApiResponse,
   PortfolioHoldingsApiResponse,
   PortfolioStatisticsApiResponse,
-  RefreshPortfolioApiResponse
+  RefreshPortfolioApiResponse,
+  PortfolioPerformanceQuery,
+  PortfolioPerformanceApiResponse
 } from '../types/portfolio.types';
 
 export class PortfolioService {
   /**
-   * Get customer's complete portfolio
+   * Get customer's complete portfolio; includePerformance adds the 12-month sparkline series
    */
   static async getCustomerPortfolio(
-    customerId: number
+    customerId: number,
+    includePerformance: boolean = false
   ): Promise<CustomerPortfolioApiResponse> {
     try {
-      const url = API_ENDPOINTS.PORTFOLIO.CUSTOMER_PORTFOLIO(customerId);
+      const url = includePerformance
+        ? `${API_ENDPOINTS.PORTFOLIO.CUSTOMER_PORTFOLIO(customerId)}?include_performance=true`
+        : API_ENDPOINTS.PORTFOLIO.CUSTOMER_PORTFOLIO(customerId);
       return await apiService.get<CustomerPortfolioApiResponse>(url);
     } catch (error: any) {
       console.error('Error fetching customer portfolio:', error);
@@ -49,6 +54,28 @@ export class PortfolioService {
     }
   }
 
+  /**
+   * Get historical portfolio valuation series
+   */
+  static async getPortfolioPerformance(
+    customerId: number,
+    query: PortfolioPerformanceQuery = {}
+  ): Promise<PortfolioPerformanceApiResponse> {
+    try {
+      const queryParams = new URLSearchParams();
+
+      if (query.from) queryParams.append('from', query.from);
+      if (query.to) queryParams.append('to', query.to);
+      if (query.interval) queryParams.append('interval', query.interval);
+
+      const url = `${API_ENDPOINTS.PORTFOLIO.CUSTOMER_PERFORMANCE(customerId)}?${queryParams.toString()}`;
+      return await apiService.get<PortfolioPerformanceApiResponse>(url);
+    } catch (error: any) {
+      console.error('Error fetching portfolio performance:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get scheme portfolio details with transactions
    */
@@ -49,6 +49,10 @@ export const API_ENDPOINTS = {
       `${API_BASE}/customers/${customerId}/addresses/${addressId}`,
     DELETE_ADDRESS: (customerId: number, addressId: number) => 
       `${API_BASE}/customers/${customerId}/addresses/${addressId}`,
+    GOALS: (customerId: number) => `${API_BASE}/customers/${customerId}/goals`,
+    ACTIONS: (customerId: number) => `${API_BASE}/customers/${customerId}/actions`,
+    ACTION_STATUS: (customerId: number, actionId: string, change: 'dismiss' | 'snooze' | 'complete') =>
+      `${API_BASE}/customers/${customerId}/actions/${actionId}/${change}`,
   },
   
   // Scheme management endpoints
@@ -81,16 +85,32 @@ export const API_ENDPOINTS = {
     REFRESH: `${API_BASE}/portfolio/refresh`,
     CUSTOMER_PORTFOLIO: (customerId: number) => `${API_BASE}/portfolio/${customerId}`,
     CUSTOMER_TOTALS: (customerId: number) => `${API_BASE}/portfolio/${customerId}/totals`,
+    CUSTOMER_PERFORMANCE: (customerId: number) => `${API_BASE}/portfolio/${customerId}/performance`,
     SCHEME_DETAILS: (customerId: number, schemeCode: string) => 
       `${API_BASE}/portfolio/${customerId}/scheme/${schemeCode}`,
   },
   
+  // SIP / STP / SWP registration endpoints
+  SIPS: {
+    LIST: `${API_BASE}/sips`,
+    CREATE: `${API_BASE}/sips`,
+    GET: (id: number) => `${API_BASE}/sips/${id}`,
+    UPDATE: (id: number) => `${API_BASE}/sips/${id}`,
+    DELETE: (id: number) => `${API_BASE}/sips/${id}`,
+    INSTALMENTS: (id: number) => `${API_BASE}/sips/${id}/instalments`,
+    ENDING_SOON: `${API_BASE}/sips/ending-soon`,
+    EXCEPTIONS: `${API_BASE}/sips/exceptions`,
+    RECONCILE: `${API_BASE}/sips/reconcile`,
+    IMPORT_SESSION: (sessionId: number) => `${API_BASE}/sips/import/${sessionId}`,
+  },
+  
   // Data Import endpoints
   IMPORT: {
     UPLOAD: `${API_BASE}/import/upload`,
     HEADERS: (fileId: number) => `${API_BASE}/import/headers/${fileId}`,
     VALIDATE_MAPPING: `${API_BASE}/import/validate-mapping`,
     PROCESS: `${API_BASE}/import/process`,
+    PROCESS_SESSION: (sessionId: number) => `${API_BASE}/import/sessions/${sessionId}/process`,
     STATUS: (sessionId: number) => `${API_BASE}/import/status/${sessionId}`,
     RESULTS: (sessionId: number) => `${API_BASE}/import/results/${sessionId}`,
     CANCEL: (sessionId: number) => `${API_BASE}/import/cancel/${sessionId}`,
@@ -98,6 +118,7 @@ export const API_ENDPOINTS = {
     TEMPLATE: (templateId: number) => `${API_BASE}/import/templates/${templateId}`,
     SESSIONS: `${API_BASE}/import/sessions`,
     EXPORT_ERRORS: (sessionId: number) => `${API_BASE}/import/export-errors/${sessionId}`,
+    ROLLBACK: (sessionId: number) => `${API_BASE}/import/sessions/${sessionId}/rollback`,
     N8N_CALLBACK: `${API_BASE}/import/n8n-callback`,
     FILE_INFO: (fileId: number) => `${API_BASE}/import/file-info/${fileId}`,
     DELETE_FILE: (fileId: number) => `${API_BASE}/import/file/${fileId}`,
@@ -114,18 +135,23 @@ export const API_ENDPOINTS = {
     BOOKMARK_DOWNLOAD_STATUS: (id: number) => `${API_BASE}/nav/bookmarks/${id}/download-status`,
     NAV_DATA: `${API_BASE}/nav/data`,
     LATEST_NAV: (schemeId: number) => `${API_BASE}/nav/schemes/${schemeId}/latest`,
+    SCHEME_ANALYTICS: (schemeId: number) => `${API_BASE}/nav/schemes/${schemeId}/analytics`,
+    COMPARE: `${API_BASE}/nav/compare`,
     DOWNLOAD_DAILY: `${API_BASE}/nav/download/daily`,
     DOWNLOAD_HISTORICAL: `${API_BASE}/nav/download/historical`,
+    DOWNLOAD_BACKFILL: `${API_BASE}/nav/download/backfill`,
     DOWNLOAD_PROGRESS: (jobId: number) => `${API_BASE}/nav/download/progress/${jobId}`,
     DOWNLOAD_JOBS: `${API_BASE}/nav/download/jobs`,
     CANCEL_DOWNLOAD: (jobId: number) => `${API_BASE}/nav/download/jobs/${jobId}`,
     ACTIVE_DOWNLOADS: `${API_BASE}/nav/download/active`,
     STATISTICS: `${API_BASE}/nav/statistics`,
     CHECK_TODAY: `${API_BASE}/nav/check-today`,
+    QUALITY: `${API_BASE}/nav/quality`,
     HEALTH: `${API_BASE}/nav/health`,
     DOCS: `${API_BASE}/nav/docs`,
     SCHEDULER_CONFIG: `${API_BASE}/nav/scheduler/config`,
     SCHEDULER_CONFIG_UPDATE: (id: number) => `${API_BASE}/nav/scheduler/config/${id}`,
+    SCHEDULER_PREVIEW: `${API_BASE}/nav/scheduler/preview`,
     SCHEDULER_STATUS: `${API_BASE}/nav/scheduler/status`,
     SCHEDULER_TRIGGER: `${API_BASE}/nav/scheduler/trigger`,
     SCHEDULER_ALL_ACTIVE: `${API_BASE}/nav/scheduler/all-active`,
@@ -176,6 +202,7 @@ export type CustomerEndpoints = typeof API_ENDPOINTS.CUSTOMERS;
 export type SchemeEndpoints = typeof API_ENDPOINTS.SCHEMES;
 export type TransactionEndpoints = typeof API_ENDPOINTS.TRANSACTIONS;
 export type PortfolioEndpoints = typeof API_ENDPOINTS.PORTFOLIO;
+export type SipEndpoints = typeof API_ENDPOINTS.SIPS;
 export type ImportEndpoints = typeof API_ENDPOINTS.IMPORT;
 export type NavEndpoints = typeof API_ENDPOINTS.NAV;
 export type FileEndpoints = typeof API_ENDPOINTS.FILES;
@@ -403,10 +430,16 @@ export const NAV_URLS = {
     `${API_ENDPOINTS.NAV.NAV_DATA}${buildQueryParams(params || {}, environment)}`,
   getLatestNav: (schemeId: number, environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.LATEST_NAV(schemeId)}${buildQueryParams({}, environment)}`,
+  getSchemeAnalytics: (schemeId: number, params?: Record<string, any>, environment?: 'live' | 'test') =>
+    `${API_ENDPOINTS.NAV.SCHEME_ANALYTICS(schemeId)}${buildQueryParams(params || {}, environment)}`,
+  compareSchemes: (params?: Record<string, any>, environment?: 'live' | 'test') =>
+    `${API_ENDPOINTS.NAV.COMPARE}${buildQueryParams(params || {}, environment)}`,
   triggerDailyDownload: (environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.DOWNLOAD_DAILY}${buildQueryParams({}, environment)}`,
   triggerHistoricalDownload: (environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.DOWNLOAD_HISTORICAL}${buildQueryParams({}, environment)}`,
+  triggerBackfill: (environment?: 'live' | 'test') =>
+    `${API_ENDPOINTS.NAV.DOWNLOAD_BACKFILL}${buildQueryParams({}, environment)}`,
   getDownloadProgress: (jobId: number, environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.DOWNLOAD_PROGRESS(jobId)}${buildQueryParams({}, environment)}`,
   getDownloadJobs: (params?: Record<string, any>, environment?: 'live' | 'test') => 
@@ -419,6 +452,8 @@ export const NAV_URLS = {
     `${API_ENDPOINTS.NAV.STATISTICS}${buildQueryParams({}, environment)}`,
   checkTodayData: (environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.CHECK_TODAY}${buildQueryParams({}, environment)}`,
+  getNavQuality: (params?: Record<string, any>, environment?: 'live' | 'test') =>
+    `${API_ENDPOINTS.NAV.QUALITY}${buildQueryParams(params || {}, environment)}`,
   getHealth: (environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.HEALTH}${buildQueryParams({}, environment)}`,
   getDocs: (environment?: 'live' | 'test') =>
@@ -427,6 +462,8 @@ export const NAV_URLS = {
     `${API_ENDPOINTS.NAV.SCHEDULER_CONFIG}${buildQueryParams({}, environment)}`,
   saveSchedulerConfig: (environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.SCHEDULER_CONFIG}${buildQueryParams({}, environment)}`,
+  previewSchedule: (environment?: 'live' | 'test') =>
+    `${API_ENDPOINTS.NAV.SCHEDULER_PREVIEW}${buildQueryParams({}, environment)}`,
   updateSchedulerConfig: (id: number, environment?: 'live' | 'test') =>
     `${API_ENDPOINTS.NAV.SCHEDULER_CONFIG_UPDATE(id)}${buildQueryParams({}, environment)}`,
   deleteSchedulerConfig: (environment?: 'live' | 'test') =>
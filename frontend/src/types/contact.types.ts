@@ -41,6 +41,7 @@ export interface Contact {
   channel_count?: number;
   email?: string; // Primary email
   mobile?: string; // Primary mobile
+  tags?: string[];
 }
 
 // Form Data Types
@@ -103,6 +104,7 @@ export interface ContactSearchParams {
   channel_type?: ChannelType;
   has_customer?: boolean;
   is_active?: boolean;
+  tag?: string;
   page?: number;
   page_size?: number;
   sort_by?: string;
@@ -120,16 +122,48 @@ export interface ContactListResponse {
 }
 
 // Bulk Operations
+export type BulkContactAction =
+  | 'activate'
+  | 'deactivate'
+  | 'delete'
+  | 'add_tag'
+  | 'remove_tag'
+  | 'convert_to_customer';
+
 export interface BulkActionRequest {
-  contact_ids: number[];
-  action: 'activate' | 'deactivate' | 'delete' | 'export';
+  action: BulkContactAction;
+  contact_ids?: number[];
+  select_all?: boolean; // Apply to every contact matching `filters`
+  filters?: Omit<ContactSearchParams, 'page' | 'page_size' | 'sort_by' | 'sort_order'>;
+  tag?: string;
 }
 
-export interface BulkActionResponse {
+export interface BulkActionResult {
+  contact_id: number;
   success: boolean;
+  error?: string;
+  customer_id?: number;
+}
+
+export interface BulkActionResponse {
+  action: BulkContactAction;
+  total: number;
   affected_count: number;
-  errors?: string[];
-  export_url?: string; // For export action
+  failed_count: number;
+  results: BulkActionResult[];
+}
+
+// Export
+export type ContactExportFormat = 'csv' | 'xlsx';
+
+export type ContactExportColumn =
+  | 'id' | 'prefix' | 'name' | 'email' | 'mobile' | 'emails' | 'mobiles' | 'whatsapp' | 'telegram'
+  | 'other_channels' | 'tags' | 'is_customer' | 'customer_id' | 'is_active' | 'created_at' | 'updated_at';
+
+export interface ContactExportRequest {
+  format: ContactExportFormat;
+  columns?: ContactExportColumn[];
+  filters?: Omit<ContactSearchParams, 'page' | 'page_size' | 'sort_by' | 'sort_order'>;
 }
 
 // Validation Types
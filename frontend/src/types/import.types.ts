@@ -74,6 +74,7 @@ export interface ImportSession {
   n8n_execution_id?: string;
   created_at: string;
   updated_at: string;
+  preview?: ImportPreview; // present when started with mode=dry_run
 }
 
 // Processing result types
@@ -90,6 +91,51 @@ export interface ImportRecordResult {
   processed_at: string;
 }
 
+// Dry-run preview types
+export type ImportRecordAction = 'create' | 'update' | 'duplicate' | 'invalid';
+
+export interface ImportFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface ImportPreviewRow {
+  row_number: number;
+  action: ImportRecordAction;
+  label: string;
+  target_id: number | null;
+  changes: ImportFieldChange[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  sessionId: number;
+  importType: FileImportType;
+  summary: Record<ImportRecordAction, number> & { total: number };
+  rows: ImportPreviewRow[];
+  truncated: boolean;
+}
+
+// Rollback types
+export interface ImportRollbackImpact {
+  sessionId: number;
+  transactions: number;
+  sip_registrations: number; // registered from the session's transactions
+  customers: number;
+  contacts: number;
+  addresses: number;
+  schemes: number;
+  restored_updates: number;
+  kept_customers: number; // created by the session but since given other transactions
+  unrestorable_updates: number;
+}
+
+export interface ImportRollbackResult extends ImportRollbackImpact {
+  portfolio_refreshed: boolean;
+}
+
 // UI state types
 export interface ImportStepData {
   step: number;
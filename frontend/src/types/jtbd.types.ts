@@ -25,6 +25,9 @@ export type JTBDGoalType =
   | 'travel'
   | 'healthcare';
 
+// Lifecycle of a persisted action
+export type JTBDActionStatus = 'open' | 'snoozed' | 'dismissed' | 'completed' | 'resolved';
+
 // Individual action item
 export interface JTBDAction {
   id: string;
@@ -43,6 +46,12 @@ export interface JTBDAction {
   };
   completed?: boolean;
   completedDate?: string;
+  customerId?: number;
+  ruleCode?: string;
+  status?: JTBDActionStatus;
+  snoozedUntil?: string;
+  statusReason?: string;
+  metadata?: Record<string, any>;
 }
 
 // Primary goal tracking
@@ -71,14 +80,15 @@ export interface JTBDRiskAssessment {
 }
 
 // Main JTBD data structure
+// Actions come from the rules engine; goals from the customer's goals, when any are set
 export interface JTBDData {
   customerId: number;
-  primaryGoal: JTBDGoal;
+  primaryGoal?: JTBDGoal;
   secondaryGoals?: JTBDGoal[];
-  riskAssessment: JTBDRiskAssessment;
+  riskAssessment?: JTBDRiskAssessment;
   actions: JTBDAction[];
   insights: string[];
-  nextReview: string;
+  nextReview?: string;
   lastReview?: string;
   overallScore?: number; // 0-100 health score
   detailedAnalysis?: {
@@ -108,6 +118,31 @@ export interface JTBDData {
   }>;
 }
 
+// Customer goal as returned by GET /customers/:id/goals (fields used for JTBD)
+export interface JTBDCustomerGoal {
+  id: number;
+  goal_type: JTBDGoalType;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  priority: number;
+  progress: {
+    current_value: number;
+    progress_percentage: number;
+    years_remaining: number;
+    required_monthly_sip: number;
+    shortfall: number;
+    on_track: boolean;
+  };
+}
+
+// Snooze request body; without "until" the server snoozes for "days" (default 7)
+export interface JTBDSnoozeRequest {
+  until?: string;
+  days?: number;
+  reason?: string;
+}
+
 // JTBD filters for dashboard
 export interface JTBDFilters {
   priority?: JTBDPriority[];
@@ -54,6 +54,11 @@ export interface CustomerPortfolioSummary {
   total_schemes: number;
   day_change?: number;
   day_change_percentage?: number;
+  xirr?: number | null;
+  cagr?: number | null;
+  absolute_return?: number | null; // money-weighted, not annualised
+  returns_annualised?: boolean;
+  holding_period_days?: number;
 }
 
 export interface PortfolioHolding {
@@ -73,6 +78,11 @@ export interface PortfolioHolding {
   allocation_percentage: number;
   transaction_count: number;
   last_transaction_date?: string;
+  xirr?: number | null;
+  cagr?: number | null;
+  absolute_return?: number | null; // money-weighted, not annualised
+  returns_annualised?: boolean;
+  holding_period_days?: number;
 }
 
 export interface AssetAllocation {
@@ -93,6 +103,30 @@ export interface PortfolioPerformanceMetric {
   return_percentage: number;
 }
 
+export type PerformanceInterval = 'daily' | 'weekly' | 'monthly';
+
+export interface PortfolioPerformanceQuery {
+  from?: string;
+  to?: string;
+  interval?: PerformanceInterval;
+}
+
+export interface SchemePerformanceSeries {
+  scheme_code: string;
+  scheme_name: string;
+  folio_no?: string;
+  points: PortfolioPerformanceMetric[];
+}
+
+export interface PortfolioPerformanceResponse {
+  customer_id: number;
+  from: string;
+  to: string;
+  interval: PerformanceInterval;
+  series: PortfolioPerformanceMetric[];
+  schemes: SchemePerformanceSeries[];
+}
+
 export interface CustomerPortfolioResponse {
   customer_id: number;
   customer_name?: string;
@@ -229,6 +263,12 @@ export interface PortfolioStatisticsApiResponse {
   error?: string;
 }
 
+export interface PortfolioPerformanceApiResponse {
+  success: boolean;
+  data?: PortfolioPerformanceResponse;
+  error?: string;
+}
+
 export interface RefreshPortfolioApiResponse {
   success: boolean;
   data?: RefreshPortfolioResponse;
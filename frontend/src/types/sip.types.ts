@@ -0,0 +1,43 @@
+// src/types/sip.types.ts
+
+export type SipPlanType = 'SIP' | 'STP' | 'SWP';
+
+export type SipFrequency = 'daily' | 'weekly' | 'fortnightly' | 'monthly' | 'quarterly';
+
+export type SipStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type SipInstalmentStatus = 'pending' | 'matched' | 'missed' | 'bounced';
+
+// Registration as returned by /api/sips
+export interface SipRegistration {
+  id: number;
+  customer_id: number;
+  customer_name?: string;
+  plan_type: SipPlanType;
+  scheme_code: string;
+  scheme_name?: string;
+  folio_no?: string;
+  target_scheme_code?: string;
+  target_scheme_name?: string;
+  amount: number;
+  frequency: SipFrequency;
+  instalment_day?: number;
+  registration_date?: string;
+  start_date: string;
+  end_date?: string;
+  status: SipStatus;
+  source: 'manual' | 'import';
+  missed_count?: number;
+  bounced_count?: number;
+  last_reconciled_at?: string;
+}
+
+export interface SipInstalment {
+  id?: number;
+  sip_id: number;
+  due_date: string;
+  status: SipInstalmentStatus;
+  transaction_id?: number;
+  reversal_transaction_id?: number;
+  matched_amount?: number;
+}